@@ -0,0 +1,5 @@
+import { createFlexitAppApi } from './lib/createAppApi';
+import { Registry } from './lib/UnitRegistry';
+
+// NOTE: Homey expects the Web API handlers as a CommonJS export, like the App class.
+export = createFlexitAppApi({ registry: Registry });
@@ -5,6 +5,8 @@ import {
 import { FlexitNordicBaseDevice } from '../../lib/FlexitNordicBaseDevice';
 import { FlexitCloudClient, AuthenticationError, CloudToken } from '../../lib/flexitCloudClient';
 
+const LOCAL_CONNECTION_SETTING = 'local_connection';
+
 export = class FlexitNordicCloudDevice extends FlexitNordicBaseDevice {
   protected getLogBindings() {
     const data = this.getData();
@@ -59,6 +61,49 @@ export = class FlexitNordicCloudDevice extends FlexitNordicBaseDevice {
     });
 
     this.registerSharedCapabilityListeners(unitId);
+    this.restoreLocalConnection(unitId);
+  }
+
+  // Re-applies a migration to BACnet from the endpoint saved in the connection settings.
+  private restoreLocalConnection(unitId: string) {
+    if (this.getSetting(LOCAL_CONNECTION_SETTING) !== true) return;
+
+    const serial = String(this.getSetting('serial') || '').trim();
+    const ip = String(this.getSetting('ip') || '').trim();
+    const bacnetPort = Number(this.getSetting('bacnetPort'));
+    if (!serial || !ip || !Number.isInteger(bacnetPort)) {
+      this.getLogger().error(
+        'device.migration.restore.invalid_endpoint',
+        'Saved local connection settings are incomplete; staying on cloud',
+        undefined,
+        { serial, ip, bacnetPort },
+      );
+      return;
+    }
+    try {
+      Registry.migrateToBacnet(unitId, { serial, ip, bacnetPort });
+    } catch (e) {
+      this.getLogger().error('device.migration.restore.failed', 'Failed to restore local connection', e);
+    }
+  }
+
+  protected async handleTransportSettings(newSettings: Record<string, unknown>, changedKeys: string[]) {
+    if (!changedKeys.includes(LOCAL_CONNECTION_SETTING)) return;
+
+    const { unitId } = this.getData();
+    if (newSettings[LOCAL_CONNECTION_SETTING] !== true) {
+      Registry.migrateToCloud(unitId);
+      this.getLogger().info('device.migration.cloud', 'Moved device back to the cloud connection');
+      return;
+    }
+
+    const endpoint = await Registry.discoverCloudUnitEndpoint(unitId);
+    Registry.migrateToBacnet(unitId, endpoint);
+    this.getLogger().info('device.migration.bacnet', 'Moved device to the local BACnet connection', {
+      ip: endpoint.ip,
+      bacnetPort: endpoint.bacnetPort,
+      serial: endpoint.serial,
+    });
   }
 
   private async restoreCloudToken(client: FlexitCloudClient): Promise<CloudToken | null> {
@@ -1,11 +1,16 @@
 import {
   Registry,
   FlexitDevice,
+  BBMD_ADDRESS_SETTING,
+  BBMD_TTL_SETTING,
 } from '../../lib/UnitRegistry';
 import { FlexitNordicBaseDevice } from '../../lib/FlexitNordicBaseDevice';
+import { parseForeignDeviceRegistration } from '../../lib/bacnetTransport';
+import { FlexitCloudClient, CloudToken } from '../../lib/flexitCloudClient';
 
 const CONNECTION_LABEL_SETTING_KEYS = ['ip', 'bacnetPort', 'serial', 'mac'] as const;
 const CAPABILITY_OPERATION_WARNING_MS = 5_000;
+const CLOUD_FAILOVER_PLANT_STORE_KEY = 'cloudPlantId';
 
 export = class FlexitNordicDevice extends FlexitNordicBaseDevice {
   protected getLogBindings() {
@@ -26,10 +31,84 @@ export = class FlexitNordicDevice extends FlexitNordicBaseDevice {
     } catch (e) {
       this.getLogger().error('device.registry.register.failed', 'Failed to register BACnet device with registry', e);
     }
+    this.restoreCloudFailover();
 
     this.registerSharedCapabilityListeners(unitId);
   }
 
+  /**
+   * Links the cloud credentials stored by the repair flow, so the registry can fall
+   * back to Flexit Cloud while the unit is unreachable on the LAN.
+   */
+  restoreCloudFailover(): boolean {
+    const plantId = this.getStoreValue(CLOUD_FAILOVER_PLANT_STORE_KEY) as string | null;
+    const refreshToken = this.getStoreValue('cloudRefreshToken') as string | null;
+    if (!plantId || !refreshToken) return false;
+
+    const { unitId } = this.getData();
+    const client = new FlexitCloudClient({
+      logger: this.getLogger().child({ scope: 'cloud_client' }),
+    });
+    client.restoreToken({
+      accessToken: (this.getStoreValue('cloudAccessToken') as string | null) ?? '',
+      refreshToken,
+      expiresAt: (this.getStoreValue('cloudTokenExpiresAt') as number | null) ?? 0,
+    });
+    try {
+      Registry.linkCloudFailover(unitId, { plantId, client });
+    } catch (e) {
+      this.getLogger().error('device.cloud_failover.link.failed', 'Failed to link cloud failover', e, { plantId });
+      return false;
+    }
+    client.onTokenRefreshed((token: CloudToken) => {
+      this.persistCloudToken(token);
+    });
+    this.getLogger().info('device.cloud_failover.linked', 'Linked cloud failover', { plantId });
+    return true;
+  }
+
+  protected async handleTransportSettings(newSettings: Record<string, unknown>, changedKeys: string[]) {
+    if (!changedKeys.includes(BBMD_ADDRESS_SETTING) && !changedKeys.includes(BBMD_TTL_SETTING)) return;
+
+    // Throws for a malformed address, so the settings dialog shows the error instead of saving it.
+    const registration = parseForeignDeviceRegistration(
+      newSettings[BBMD_ADDRESS_SETTING],
+      newSettings[BBMD_TTL_SETTING],
+    );
+    Registry.setForeignDeviceRegistration(this.getData().unitId, registration);
+    this.getLogger().info('device.bbmd.updated', 'Updated BBMD foreign device registration', {
+      bbmdAddress: registration?.bbmdAddress ?? null,
+      bbmdPort: registration?.bbmdPort ?? null,
+      ttlSeconds: registration?.ttlSeconds ?? null,
+    });
+  }
+
+  private persistCloudToken(token: CloudToken) {
+    this.setStoreValue('cloudAccessToken', token.accessToken).catch((err) => {
+      this.getLogger().error(
+        'device.token_persist.access.failed',
+        'Failed to persist cloud access token',
+        err,
+      );
+    });
+    if (token.refreshToken) {
+      this.setStoreValue('cloudRefreshToken', token.refreshToken).catch((err) => {
+        this.getLogger().error(
+          'device.token_persist.refresh.failed',
+          'Failed to persist cloud refresh token',
+          err,
+        );
+      });
+    }
+    this.setStoreValue('cloudTokenExpiresAt', token.expiresAt).catch((err) => {
+      this.getLogger().error(
+        'device.token_persist.expiry.failed',
+        'Failed to persist cloud token expiry',
+        err,
+      );
+    });
+  }
+
   protected async runCapabilityAction<T>(
     capability: string,
     unitId: string,
@@ -1,7 +1,40 @@
+import { isIPv4 } from 'net';
 import Homey from 'homey';
-import { discoverFlexitUnits } from '../../lib/flexitDiscovery';
+import {
+  createDiscoveryDiagnostics,
+  discoverFlexitUnits,
+  DiscoveryDiagnostics,
+  listIPv4Interfaces,
+} from '../../lib/flexitDiscovery';
+import { probeFlexitUnit } from '../../lib/flexitBacnetProbe';
+import { DiscoveredFlexitUnit, formatFirmwareComponents } from '../../lib/flexitReplyParser';
+import { FlexitCloudClient, CloudToken, CloudPlant } from '../../lib/flexitCloudClient';
 import { createRuntimeLogger, RuntimeLogger, runWithLogContext } from '../../lib/logging';
 
+const DEFAULT_BACNET_PORT = 47808;
+
+function toPairingDevice(unit: DiscoveredFlexitUnit) {
+  return {
+    name: unit.name,
+    data: {
+      id: unit.serialNormalized,
+      unitId: unit.serialNormalized,
+    },
+    settings: {
+      ip: unit.ip,
+      // Connection settings are labels, so store as strings.
+      bacnetPort: String(unit.bacnetPort),
+      serial: unit.serial,
+      mac: unit.mac ?? '',
+      netmask: unit.netmask ?? '',
+      gateway: unit.gateway ?? '',
+      platform: [unit.platformCode, unit.platformVersion].filter(Boolean).join(' '),
+      firmware: formatFirmwareComponents(unit.firmwareComponents) || (unit.fw ?? ''),
+      app_version: unit.appVersion ?? '',
+    },
+  };
+}
+
 export = class FlexitNordicDriver extends Homey.Driver {
   private runtimeLogger?: RuntimeLogger;
 
@@ -20,7 +53,8 @@ export = class FlexitNordicDriver extends Homey.Driver {
     this.getLogger().info('driver.init', 'Flexit Nordic BACnet driver initialized', { appVersion });
   }
 
-  async onPairListDevices() {
+  async onPairListDevices(options: { interfaceAddress?: string; diagnostics?: DiscoveryDiagnostics } = {}) {
+    const { interfaceAddress, diagnostics } = options;
     const timeoutMs = 5000;
     const burstCount = 10;
     const burstIntervalMs = 300;
@@ -30,6 +64,7 @@ export = class FlexitNordicDriver extends Homey.Driver {
       timeoutMs,
       burstCount,
       burstIntervalMs,
+      interfaceAddress: interfaceAddress ?? 'auto',
     });
 
     let units;
@@ -41,6 +76,9 @@ export = class FlexitNordicDriver extends Homey.Driver {
         timeoutMs,
         burstCount,
         burstIntervalMs,
+        interfaceAddress,
+        diagnostics,
+        strategies: ['multicast', 'bacnet'],
         logger: logger.child({ component: 'discovery' }),
       }));
     } catch (err) {
@@ -69,19 +107,131 @@ export = class FlexitNordicDriver extends Homey.Driver {
       })),
     });
 
-    return units.map((u) => ({
-      name: u.name,
-      data: {
-        id: u.serialNormalized,
-        unitId: u.serialNormalized,
-      },
-      settings: {
-        ip: u.ip,
-        // Connection settings are labels, so store as strings.
-        bacnetPort: String(u.bacnetPort),
-        serial: u.serial,
-        mac: u.mac ?? '',
+    return units.map(toPairingDevice);
+  }
+
+  // The first pairing view takes an optional IP address for networks where the
+  // multicast discovery does not reach the unit (VLANs, mesh Wi-Fi, IGMP snooping).
+  // Without one, the device list comes from discovery on the chosen interface, and a
+  // scan that finds nothing switches to a view that explains what the scan saw.
+  async onPair(session: any) {
+    let manualUnit: DiscoveredFlexitUnit | undefined;
+    let interfaceAddress: string | undefined;
+    let diagnostics: DiscoveryDiagnostics | undefined;
+    let devices: ReturnType<typeof toPairingDevice>[] = [];
+    session.setHandler('list_interfaces', async () => listIPv4Interfaces());
+    session.setHandler('manual_ip', async (
+      data: { ip?: string; port?: string | number; interfaceAddress?: string },
+    ) => {
+      manualUnit = undefined;
+      interfaceAddress = String(data?.interfaceAddress ?? '').trim() || undefined;
+      const ip = String(data?.ip ?? '').trim();
+      if (!ip) return false;
+      manualUnit = await this.probeManualUnit(ip, data?.port);
+      return true;
+    });
+    session.setHandler('list_devices', async () => {
+      if (manualUnit) {
+        devices = [toPairingDevice(manualUnit)];
+        return devices;
+      }
+      diagnostics = createDiscoveryDiagnostics();
+      devices = [];
+      try {
+        devices = await this.onPairListDevices({ interfaceAddress, diagnostics });
+      } catch {
+        // Logged by onPairListDevices; the diagnostics view shows what failed.
+      }
+      if (devices.length === 0) await session.showView('discovery_diagnostics');
+      return devices;
+    });
+    session.setHandler('discovery_diagnostics', async () => diagnostics ?? null);
+    // What the units reported about themselves, shown before they are added.
+    session.setHandler('unit_details', async () => devices.map(({ name, settings }) => ({ name, settings })));
+  }
+
+  private async probeManualUnit(ip: string, portInput: unknown) {
+    if (!isIPv4(ip)) throw new Error(`'${ip}' is not a valid IPv4 address.`);
+    const portText = String(portInput ?? '').trim();
+    const bacnetPort = portText ? Number(portText) : DEFAULT_BACNET_PORT;
+    if (!Number.isInteger(bacnetPort) || bacnetPort < 1 || bacnetPort > 65535) {
+      throw new Error(`'${portText}' is not a valid port.`);
+    }
+
+    const logger = this.getLogger().child({ pairing: true });
+    try {
+      const unit = await runWithLogContext({
+        operation: 'pair-manual-probe',
+        transport: 'bacnet',
+      }, () => probeFlexitUnit({
+        ip,
+        bacnetPort,
+        logger: logger.child({ component: 'probe' }),
+      }));
+      logger.info('driver.pair.manual.found', 'Found unit at manually entered address', {
+        unitId: unit.serialNormalized,
+        serial: unit.serial,
+        ip,
+        bacnetPort,
+      });
+      return unit;
+    } catch (err) {
+      logger.error('driver.pair.manual.failed', 'Manual pairing probe failed', err, { ip, bacnetPort });
+      throw err;
+    }
+  }
+
+  // Links cloud credentials to a local device so the registry can fail over to
+  // Flexit Cloud while the unit is unreachable on the LAN.
+  async onRepair(session: any, device: any) {
+    const logger = this.getLogger().child({ repair: true });
+    session.setHandler(
+      'login',
+      async (data: { username: string; password: string }) => {
+        const client = new FlexitCloudClient({
+          logger: logger.child({ component: 'cloud_client' }),
+        });
+        const { unitId } = device.getData();
+        let token: CloudToken;
+        let plants: CloudPlant[];
+        try {
+          token = await runWithLogContext({ operation: 'repair-login' }, () => client.authenticateWithPassword(
+            data.username,
+            data.password,
+          ));
+          plants = await runWithLogContext({ operation: 'repair-list-plants' }, () => client.findPlants());
+        } catch (err) {
+          logger.error('driver.repair.login.failed', 'Cloud failover authentication failed', err, { unitId });
+          throw new Error('Authentication failed. Check your credentials.');
+        } finally {
+          client.destroy();
+        }
+
+        const plant = plants.find((candidate) => candidate.serialNumber.replace(/[^0-9]/g, '') === unitId);
+        if (!plant) {
+          logger.error('driver.repair.plant.not_found', 'No cloud plant matches the local unit', undefined, {
+            unitId,
+            plantSerials: plants.map((candidate) => candidate.serialNumber),
+          });
+          throw new Error('No Flexit Cloud plant matches the serial number of this unit.');
+        }
+
+        await device.setStoreValue('cloudAccessToken', token.accessToken);
+        if (token.refreshToken) {
+          await device.setStoreValue('cloudRefreshToken', token.refreshToken);
+        }
+        await device.setStoreValue('cloudTokenExpiresAt', token.expiresAt);
+        await device.setStoreValue('cloudPlantId', plant.id);
+        if (!device.restoreCloudFailover()) {
+          throw new Error('Failed to link the Flexit Cloud account to this unit.');
+        }
+
+        logger.info('driver.repair.cloud_failover.linked', 'Linked cloud failover for local device', {
+          unitId,
+          plantId: plant.id,
+        });
+        return true;
       },
-    }));
+    );
   }
 };
@@ -1,11 +1,12 @@
 import Homey from 'homey';
-import { createRuntimeLogger, RuntimeLogger } from './logging';
+import { createRuntimeLogger, RuntimeLogger, runWithLogContext } from './logging';
 import {
   Registry,
   FlexitDevice,
   FILTER_CHANGE_INTERVAL_MONTHS_SETTING,
   FILTER_CHANGE_INTERVAL_HOURS_LEGACY_SETTING,
   FIREPLACE_DURATION_SETTING,
+  RAPID_DURATION_SETTING,
   FREE_COOLING_ENABLED_SETTING,
   FREE_COOLING_TEMPERATURE_SETPOINT_SETTING,
   FREE_COOLING_OUTSIDE_TEMPERATURE_LIMIT_SETTING,
@@ -29,21 +30,83 @@ import {
   MIN_FREE_COOLING_MIN_ON_TIME_SECONDS,
   MAX_FREE_COOLING_MIN_ON_TIME_SECONDS,
   normalizeFireplaceDurationMinutes,
+  normalizeRapidDurationMinutes,
   normalizeTargetTemperature,
   normalizeFreeCoolingTemperature,
   normalizeFreeCoolingMinOnTimeSeconds,
+  HUMIDITY_SETPOINT_MODES,
+  HUMIDITY_SETPOINT_HOME_SETTING,
+  HUMIDITY_SETPOINT_AWAY_SETTING,
+  HUMIDITY_SETPOINT_HIGH_SETTING,
+  HumiditySetpointMode,
+  normalizeHumiditySetpoint,
+  NEUTRAL_ZONE_KINDS,
+  NEUTRAL_ZONE_MODES,
+  NEUTRAL_ZONE_SETTING_KEYS,
+  NeutralZoneKind,
+  NeutralZoneMode,
+  normalizeNeutralZone,
 } from './UnitRegistry';
+import { SCHEDULE_WEEKDAYS } from './bacnetSchedule';
+import { QueuedOfflineWrite, parseStoredOfflineWrites } from './offlineWriteQueue';
+import { WriteJournalEntry, parseStoredWriteJournal } from './writeJournal';
+import {
+  SCHEDULE_SETTING_KEYS,
+  ScheduleSettingKey,
+  parseScheduleDay,
+  parseScheduleExceptions,
+  scheduleSettingKey,
+} from './flexitSchedule';
+import {
+  OperatingHourCounter,
+  OperatingHours,
+  OperatingHoursSnapshot,
+  computeOperatingHoursBreakdown,
+  isOperatingHoursPeriod,
+  recordOperatingHoursSnapshot,
+} from './flexitStatistics';
 
 const RESET_FILTER_CAPABILITY = 'button.reset_filter';
+const RESET_HEATER_ENERGY_CAPABILITY = 'button.reset_heater_energy';
+const HEATER_ENERGY_CAPABILITY = 'meter_power';
+const HEATER_ENERGY_STORE_KEY = 'heater_energy_kwh';
+// Energy samples arrive with every poll and COV notification; the meter is stored at most
+// once a minute, or right away once this much energy is unsaved.
+const HEATER_ENERGY_PERSIST_INTERVAL_MS = 60_000;
+const HEATER_ENERGY_PERSIST_STEP_KWH = 0.1;
+// Every write and every poll that verifies one changes the journal, so it is stored at
+// most this often instead of on each change.
+const WRITE_JOURNAL_PERSIST_DELAY_MS = 30_000;
+const OPERATING_HOURS_STORE_KEY = 'operating_hours';
+const OPERATING_HOURS_SNAPSHOTS_STORE_KEY = 'operating_hours_snapshots';
+const OFFLINE_WRITES_STORE_KEY = 'offline_writes';
+const WRITE_JOURNAL_STORE_KEY = 'write_journal';
 const REGISTRY_SETTING_SUPPRESSION_WINDOW_MS = 30_000;
 const SETTING_SYNC_TOLERANCE = 0.1;
+const HUMIDITY_SETPOINT_SETTINGS: Record<HumiditySetpointMode, string> = {
+  home: HUMIDITY_SETPOINT_HOME_SETTING,
+  away: HUMIDITY_SETPOINT_AWAY_SETTING,
+  high: HUMIDITY_SETPOINT_HIGH_SETTING,
+};
 const REQUIRED_CAPABILITIES = [
   'measure_temperature.exhaust',
   'dehumidification_active',
   'free_cooling_active',
+  'alarm_generic',
+  'measure_alarm_count',
   RESET_FILTER_CAPABILITY,
   'measure_fan_setpoint_percent',
   'measure_fan_setpoint_percent.extract',
+  'measure_rotor_speed_percent',
+  'measure_heat_exchanger_efficiency',
+  'heat_exchanger_health',
+  'measure_heat_recovery_efficiency',
+  'measure_heat_recovery_efficiency.exhaust',
+  'measure_recovered_power',
+  HEATER_ENERGY_CAPABILITY,
+  RESET_HEATER_ENERGY_CAPABILITY,
+  'measure_operating_hours',
+  'measure_operating_hours.heater',
 ] as const;
 
 interface SuppressedSetting {
@@ -62,6 +125,11 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
   private deferredRegistrySettings: Record<string, unknown> = {};
   private deferredFlushScheduled = false;
   private runtimeLogger?: RuntimeLogger;
+  private heaterEnergyKwh?: number;
+  private heaterEnergyPersistedKwh = 0;
+  private heaterEnergyPersistTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingWriteJournal: WriteJournalEntry[] | null = null;
+  private writeJournalPersistTimer: ReturnType<typeof setTimeout> | null = null;
 
   protected getLogBindings() {
     const data = this.getData();
@@ -81,7 +149,12 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
 
   protected async initSharedCapabilities() {
     await this.setClass('airtreatment');
-    for (const capability of REQUIRED_CAPABILITIES) {
+    await this.ensureCapabilities([...REQUIRED_CAPABILITIES]);
+  }
+
+  /** Adds capabilities that are missing on this device, e.g. room sensors detected by the registry. */
+  async ensureCapabilities(capabilities: string[]) {
+    for (const capability of capabilities) {
       if (this.hasCapability(capability)) continue;
       try {
         await this.addCapability(capability);
@@ -94,6 +167,117 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
     }
   }
 
+  /** Adds heater energy integrated by the registry and persists the running total in the store. */
+  async addHeaterEnergy(kwh: number) {
+    const total = this.getHeaterEnergyKwh() + kwh;
+    this.heaterEnergyKwh = total;
+    if (total - this.heaterEnergyPersistedKwh >= HEATER_ENERGY_PERSIST_STEP_KWH) {
+      await this.persistHeaterEnergy();
+    } else if (!this.heaterEnergyPersistTimer) {
+      this.heaterEnergyPersistTimer = setTimeout(() => {
+        this.heaterEnergyPersistTimer = null;
+        this.persistHeaterEnergy().catch((error) => {
+          this.getLogger().error('device.heater_energy.persist.failed', 'Failed to store heater energy meter', error);
+        });
+      }, HEATER_ENERGY_PERSIST_INTERVAL_MS);
+    }
+    await this.setCapabilityValue(HEATER_ENERGY_CAPABILITY, Number(total.toFixed(3)));
+  }
+
+  private async persistHeaterEnergy() {
+    this.clearHeaterEnergyPersistTimer();
+    const total = this.getHeaterEnergyKwh();
+    if (total === this.heaterEnergyPersistedKwh) return;
+    this.heaterEnergyPersistedKwh = total;
+    await this.setStoreValue(HEATER_ENERGY_STORE_KEY, total);
+  }
+
+  private clearHeaterEnergyPersistTimer() {
+    if (this.heaterEnergyPersistTimer) clearTimeout(this.heaterEnergyPersistTimer);
+    this.heaterEnergyPersistTimer = null;
+  }
+
+  async resetHeaterEnergyMeter() {
+    this.getLogger().info('device.heater_energy.reset', 'Resetting heater energy meter', {
+      previousKwh: Number(this.getHeaterEnergyKwh().toFixed(3)),
+    });
+    this.clearHeaterEnergyPersistTimer();
+    this.heaterEnergyKwh = 0;
+    this.heaterEnergyPersistedKwh = 0;
+    await this.setStoreValue(HEATER_ENERGY_STORE_KEY, 0);
+    await this.setCapabilityValue(HEATER_ENERGY_CAPABILITY, 0);
+  }
+
+  private getHeaterEnergyKwh(): number {
+    if (this.heaterEnergyKwh === undefined) {
+      const stored = Number(this.getStoreValue(HEATER_ENERGY_STORE_KEY));
+      this.heaterEnergyKwh = Number.isFinite(stored) && stored > 0 ? stored : 0;
+      this.heaterEnergyPersistedKwh = this.heaterEnergyKwh;
+    }
+    return this.heaterEnergyKwh;
+  }
+
+  /** Stores the latest operating-hour counters and the first reading of each day. */
+  async recordOperatingHours(hours: OperatingHours) {
+    const snapshots = this.getOperatingHoursSnapshots();
+    const nextSnapshots = recordOperatingHoursSnapshot(snapshots, hours, Date.now());
+    await this.setStoreValue(OPERATING_HOURS_STORE_KEY, hours);
+    if (nextSnapshots !== snapshots) {
+      await this.setStoreValue(OPERATING_HOURS_SNAPSHOTS_STORE_KEY, nextSnapshots);
+    }
+  }
+
+  async getOperatingHoursBreakdown(period: unknown): Promise<Record<OperatingHourCounter, number>> {
+    if (!isOperatingHoursPeriod(period)) {
+      throw new Error(`Unsupported period '${String(period)}'.`);
+    }
+    const current: OperatingHours = this.getStoreValue(OPERATING_HOURS_STORE_KEY) ?? {};
+    return computeOperatingHoursBreakdown(current, this.getOperatingHoursSnapshots(), period, Date.now());
+  }
+
+  /** Writes the registry queued while the unit was unavailable, restored after an app restart. */
+  loadOfflineWrites(): QueuedOfflineWrite[] {
+    return parseStoredOfflineWrites(this.getStoreValue(OFFLINE_WRITES_STORE_KEY));
+  }
+
+  async saveOfflineWrites(writes: QueuedOfflineWrite[]) {
+    await this.setStoreValue(OFFLINE_WRITES_STORE_KEY, writes);
+  }
+
+  /** The unit's write audit journal, restored after an app restart. */
+  loadWriteJournal(): WriteJournalEntry[] {
+    return this.pendingWriteJournal ?? parseStoredWriteJournal(this.getStoreValue(WRITE_JOURNAL_STORE_KEY));
+  }
+
+  async saveWriteJournal(entries: WriteJournalEntry[]) {
+    this.pendingWriteJournal = entries;
+    if (this.writeJournalPersistTimer) return;
+    this.writeJournalPersistTimer = setTimeout(() => {
+      this.writeJournalPersistTimer = null;
+      this.persistWriteJournal().catch((error) => {
+        this.getLogger().error('device.write_journal.persist.failed', 'Failed to store write journal', error);
+      });
+    }, WRITE_JOURNAL_PERSIST_DELAY_MS);
+  }
+
+  private async persistWriteJournal() {
+    this.clearWriteJournalPersistTimer();
+    const entries = this.pendingWriteJournal;
+    if (!entries) return;
+    this.pendingWriteJournal = null;
+    await this.setStoreValue(WRITE_JOURNAL_STORE_KEY, entries);
+  }
+
+  private clearWriteJournalPersistTimer() {
+    if (this.writeJournalPersistTimer) clearTimeout(this.writeJournalPersistTimer);
+    this.writeJournalPersistTimer = null;
+  }
+
+  private getOperatingHoursSnapshots(): OperatingHoursSnapshot[] {
+    const stored = this.getStoreValue(OPERATING_HOURS_SNAPSHOTS_STORE_KEY);
+    return Array.isArray(stored) ? stored : [];
+  }
+
   protected registerSharedCapabilityListeners(unitId: string) {
     this.registerCapabilityListener('target_temperature', async (value: number) => {
       const current = this.getCapabilityValue('target_temperature');
@@ -108,7 +292,7 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
         );
         return;
       }
-      await this.runCapabilityAction(
+      await this.runCapabilityWrite(
         'target_temperature',
         unitId,
         `writing setpoint ${value}`,
@@ -123,7 +307,7 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
     });
 
     this.registerCapabilityListener('fan_mode', async (value) => {
-      await this.runCapabilityAction(
+      await this.runCapabilityWrite(
         'fan_mode',
         unitId,
         `setting fan mode '${value}'`,
@@ -138,7 +322,7 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
     });
 
     this.registerCapabilityListener(RESET_FILTER_CAPABILITY, async () => {
-      await this.runCapabilityAction(
+      await this.runCapabilityWrite(
         RESET_FILTER_CAPABILITY,
         unitId,
         'resetting filter timer',
@@ -148,6 +332,23 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
         },
       );
     });
+
+    this.registerCapabilityListener(RESET_HEATER_ENERGY_CAPABILITY, async () => {
+      await this.resetHeaterEnergyMeter();
+    });
+  }
+
+  // Tags the registry writes made by the action so the write journal can attribute them.
+  private runCapabilityWrite<T>(
+    capability: string,
+    unitId: string,
+    actionDescription: string,
+    action: () => Promise<T>,
+  ): Promise<T> {
+    return runWithLogContext(
+      { writeSource: 'capability', capability },
+      () => this.runCapabilityAction(capability, unitId, actionDescription, action),
+    );
   }
 
   /**
@@ -163,7 +364,26 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
     return action();
   }
 
-  async onSettings({
+  /**
+   * Hook for subclasses to handle transport-specific settings (e.g. switching a cloud
+   * device to BACnet). Runs before the shared settings, with registry updates deferred.
+   */
+  protected async handleTransportSettings(
+    _newSettings: Record<string, unknown>,
+    _changedKeys: string[],
+  ): Promise<void> {
+    return undefined;
+  }
+
+  async onSettings(event: {
+    newSettings: Record<string, unknown>;
+    changedKeys: string[];
+  }): Promise<void> {
+    // Registry writes made for the change are journaled as coming from the settings.
+    return runWithLogContext({ writeSource: 'settings' }, () => this.applySettings(event));
+  }
+
+  private async applySettings({
     newSettings,
     changedKeys,
   }: {
@@ -173,6 +393,7 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
     this.settingsUpdateInProgress = true;
     try {
       const effectiveChangedKeys = this.filterSuppressedChangedKeys(changedKeys, newSettings);
+      await this.handleTransportSettings(newSettings, effectiveChangedKeys);
       const monthsChanged = effectiveChangedKeys.includes(FILTER_CHANGE_INTERVAL_MONTHS_SETTING);
       const legacyHoursChanged = effectiveChangedKeys.includes(
         FILTER_CHANGE_INTERVAL_HOURS_LEGACY_SETTING,
@@ -193,8 +414,12 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
       const freeCoolingMinOnTimeSecondsChanged = effectiveChangedKeys.includes(
         FREE_COOLING_MIN_ON_TIME_SECONDS_SETTING,
       );
-      const fireplaceDurationChanged = effectiveChangedKeys.includes(FIREPLACE_DURATION_SETTING);
+      const changedHumidityModes = this.getChangedHumiditySetpointModes(effectiveChangedKeys);
+      const changedNeutralZones = this.getChangedNeutralZones(effectiveChangedKeys);
+      const changedDurationKeys = [FIREPLACE_DURATION_SETTING, RAPID_DURATION_SETTING]
+        .filter((key) => effectiveChangedKeys.includes(key));
       const changedFanModes = this.getChangedFanModes(effectiveChangedKeys);
+      const changedScheduleKeys = SCHEDULE_SETTING_KEYS.filter((key) => effectiveChangedKeys.includes(key));
       if (
         !monthsChanged
         && !legacyHoursChanged
@@ -204,8 +429,11 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
         && !freeCoolingTemperatureSetpointChanged
         && !freeCoolingOutsideTemperatureLimitChanged
         && !freeCoolingMinOnTimeSecondsChanged
-        && !fireplaceDurationChanged
+        && changedHumidityModes.length === 0
+        && changedNeutralZones.length === 0
+        && changedDurationKeys.length === 0
         && changedFanModes.length === 0
+        && changedScheduleKeys.length === 0
       ) return;
 
       const { unitId } = this.getData();
@@ -244,12 +472,12 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
       await this.maybeHandleFreeCoolingMinOnTimeSetting(
         unitId, newSettings, freeCoolingMinOnTimeSecondsChanged,
       );
-      await this.maybeHandleFireplaceDurationSetting(
-        unitId, newSettings, fireplaceDurationChanged,
-      );
+      await this.maybeHandleModeSetpointSettings(unitId, newSettings, changedHumidityModes, changedNeutralZones);
+      await this.maybeHandleTemporaryDurationSettings(unitId, newSettings, changedDurationKeys);
       for (const mode of changedFanModes) {
         await this.maybeHandleFanProfileModeSetting(unitId, mode, newSettings);
       }
+      await this.maybeHandleScheduleSetting(unitId, newSettings, changedScheduleKeys);
     } finally {
       this.settingsUpdateInProgress = false;
       this.scheduleDeferredRegistrySettingsFlush();
@@ -307,6 +535,59 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
     }
   }
 
+  private async maybeHandleModeSetpointSettings(
+    unitId: string,
+    newSettings: Record<string, unknown>,
+    humidityModes: HumiditySetpointMode[],
+    neutralZones: Array<{ kind: NeutralZoneKind; mode: NeutralZoneMode }>,
+  ) {
+    for (const mode of humidityModes) {
+      await this.maybeHandleHumiditySetpointSetting(unitId, mode, newSettings);
+    }
+    for (const { kind, mode } of neutralZones) {
+      await this.maybeHandleNeutralZoneSetting(unitId, kind, mode, newSettings);
+    }
+  }
+
+  private getChangedHumiditySetpointModes(changedKeys: string[]): HumiditySetpointMode[] {
+    return HUMIDITY_SETPOINT_MODES.filter((mode) => changedKeys.includes(HUMIDITY_SETPOINT_SETTINGS[mode]));
+  }
+
+  private async maybeHandleHumiditySetpointSetting(
+    unitId: string,
+    mode: HumiditySetpointMode,
+    newSettings: Record<string, unknown>,
+  ) {
+    await this.maybeHandleNumericSetting(unitId, newSettings, true, {
+      settingKey: HUMIDITY_SETPOINT_SETTINGS[mode],
+      label: `${mode} humidity setpoint`,
+      normalize: normalizeHumiditySetpoint,
+      update: (nextValue) => Registry.setHumiditySetpoint(unitId, mode, nextValue),
+      formatValue: (nextValue) => `${nextValue}%`,
+    });
+  }
+
+  private getChangedNeutralZones(changedKeys: string[]): Array<{ kind: NeutralZoneKind; mode: NeutralZoneMode }> {
+    return NEUTRAL_ZONE_KINDS.flatMap((kind) => NEUTRAL_ZONE_MODES
+      .filter((mode) => changedKeys.includes(NEUTRAL_ZONE_SETTING_KEYS[kind][mode]))
+      .map((mode) => ({ kind, mode })));
+  }
+
+  private async maybeHandleNeutralZoneSetting(
+    unitId: string,
+    kind: NeutralZoneKind,
+    mode: NeutralZoneMode,
+    newSettings: Record<string, unknown>,
+  ) {
+    await this.maybeHandleNumericSetting(unitId, newSettings, true, {
+      settingKey: NEUTRAL_ZONE_SETTING_KEYS[kind][mode],
+      label: `${mode} ${kind} neutral zone`,
+      normalize: normalizeNeutralZone,
+      update: (nextValue) => Registry.setNeutralZone(unitId, kind, mode, nextValue),
+      formatValue: (nextValue) => `${nextValue} K`,
+    });
+  }
+
   private getChangedFanModes(changedKeys: string[]): FanProfileMode[] {
     const changedFanModes: FanProfileMode[] = [];
     for (const mode of FAN_PROFILE_MODES) {
@@ -568,6 +849,23 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
     }
   }
 
+  private async maybeHandleTemporaryDurationSettings(
+    unitId: string,
+    newSettings: Record<string, unknown>,
+    changedKeys: string[],
+  ) {
+    await this.maybeHandleFireplaceDurationSetting(
+      unitId, newSettings, changedKeys.includes(FIREPLACE_DURATION_SETTING),
+    );
+    await this.maybeHandleNumericSetting(unitId, newSettings, changedKeys.includes(RAPID_DURATION_SETTING), {
+      settingKey: RAPID_DURATION_SETTING,
+      label: 'high ventilation duration',
+      normalize: normalizeRapidDurationMinutes,
+      update: (nextValue) => Registry.setRapidVentilationDuration(unitId, nextValue),
+      formatValue: (nextValue) => `${nextValue} min`,
+    });
+  }
+
   private async maybeHandleFireplaceDurationSetting(
     unitId: string,
     newSettings: Record<string, unknown>,
@@ -605,6 +903,44 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
     }
   }
 
+  private async maybeHandleScheduleSetting(
+    unitId: string,
+    newSettings: Record<string, unknown>,
+    changedKeys: ScheduleSettingKey[],
+  ) {
+    if (changedKeys.length === 0) return;
+
+    const settingText = (key: ScheduleSettingKey) => String(newSettings[key] ?? this.getSetting(key) ?? '');
+    // Only the edited days are sent; the registry keeps the other days as the unit has them.
+    const changedDays = SCHEDULE_WEEKDAYS.filter((day) => changedKeys.includes(scheduleSettingKey(day)));
+    const exceptionsChanged = changedKeys.includes('schedule_exceptions');
+    const weekly = changedDays.length > 0
+      ? Object.fromEntries(changedDays.map((day) => [day, parseScheduleDay(settingText(scheduleSettingKey(day)))]))
+      : undefined;
+    const exceptions = exceptionsChanged
+      ? parseScheduleExceptions(settingText('schedule_exceptions'))
+      : undefined;
+
+    try {
+      this.getLogger().info('device.setting.schedule.write', 'Updating operating mode schedule setting', {
+        unitId,
+        changedKeys: changedKeys.join(','),
+      });
+      await Registry.setOperatingModeSchedule(unitId, { weekly, exceptions });
+    } catch (error) {
+      this.getLogger().error(
+        'device.setting.schedule.failed',
+        'Failed to update operating mode schedule setting',
+        error,
+        {
+          unitId,
+          changedKeys: changedKeys.join(','),
+        },
+      );
+      throw new Error('Failed to update the week schedule on the unit.');
+    }
+  }
+
   async applyRegistrySettings(settings: Record<string, unknown>): Promise<void> {
     if (this.settingsUpdateInProgress) {
       for (const [key, value] of Object.entries(settings)) {
@@ -700,7 +1036,15 @@ export abstract class FlexitNordicBaseDevice extends Homey.Device {
     return expected === actual;
   }
 
+  // Stores the energy and journal entries changed since the last batched write before the app stops.
+  async onUninit() {
+    await this.persistHeaterEnergy();
+    await this.persistWriteJournal();
+  }
+
   async onDeleted() {
+    this.clearHeaterEnergyPersistTimer();
+    this.clearWriteJournalPersistTimer();
     Registry.unregister(this.getData().unitId, this as unknown as FlexitDevice);
     this.getLogger().info('device.deleted', 'Device deleted');
   }
@@ -1,5 +1,15 @@
 /* eslint-disable max-lines */
-import { getBacnetClient, BacnetEnums, setBacnetLogger } from './bacnetClient';
+import {
+  getBacnetClient,
+  BacnetEnums,
+  setBacnetLogger,
+  setForeignDeviceRegistration,
+} from './bacnetClient';
+import {
+  ForeignDeviceRegistration,
+  parseForeignDeviceRegistration,
+  sameForeignDeviceRegistration,
+} from './bacnetTransport';
 import { discoverFlexitUnits } from './flexitDiscovery';
 import {
   FlexitCloudClient,
@@ -8,7 +18,67 @@ import {
   AuthenticationError,
   HttpError,
 } from './flexitCloudClient';
-import { createRuntimeLogger, RuntimeLogger, LogFields } from './logging';
+import {
+  createRuntimeLogger,
+  getLogContext,
+  RuntimeLogger,
+  LogFields,
+  runWithLogContext,
+} from './logging';
+import { AlarmClass, getAlarmText, normalizeAlarmCode } from './flexitAlarms';
+import {
+  EXCEPTION_SCHEDULE_PROPERTY_ID,
+  SCHEDULE_WEEKDAYS,
+  ScheduleException,
+  ScheduleRequestTarget,
+  WEEKLY_SCHEDULE_PROPERTY_ID,
+  WeeklySchedule,
+  createEmptyWeeklySchedule,
+  decodeExceptionSchedule,
+  decodeWeeklySchedule,
+  encodeExceptionSchedule,
+  encodeWeeklySchedule,
+  readScheduleProperty,
+  writeScheduleProperty,
+} from './bacnetSchedule';
+import { SCHEDULE_SETTING_KEYS, formatScheduleSettings } from './flexitSchedule';
+import { computeNordicAirflow, getNordicModelFromSerial, getNordicNominalAirflow } from './flexitModel';
+import { OPERATING_HOUR_COUNTERS, OperatingHourCounter, OperatingHours } from './flexitStatistics';
+import {
+  CatalogPoint,
+  CatalogPointUsage,
+  describeBacnetObject,
+  formatCatalogPoint,
+  getCatalogPoint,
+  isWritableCatalogPoint,
+} from './flexitPointCatalog';
+import {
+  HeatRecoverySample,
+  computeRecoveredPowerWatts,
+  computeTemperatureEfficiency,
+  smoothRecoveredPower,
+} from './heatRecovery';
+import {
+  FreeCoolingOfflineSetting,
+  OfflineWrite,
+  QueuedOfflineWrite,
+  describeOfflineWrite,
+  dropExpiredOfflineWrites,
+  enqueueOfflineWrite,
+  normalizeOfflineWriteMaxAgeMinutes,
+  offlineWriteKey,
+} from './offlineWriteQueue';
+import {
+  WriteJournalEntry,
+  WriteJournalExport,
+  WriteJournalOrigin,
+  WriteJournalOutcome,
+  appendWriteJournalEntry,
+  exportWriteJournal,
+  hasRecentOwnWrite,
+  resolveWriteJournalOrigin,
+  verifyWriteJournalEntries,
+} from './writeJournal';
 
 // Helper to clamp values
 function clamp(n: number, min: number, max: number) {
@@ -26,6 +96,13 @@ export interface FlexitDevice {
     getData(): { unitId: string };
     getSetting(key: string): string | number | boolean | null;
     applyRegistrySettings?(settings: Record<string, any>): Promise<void>;
+    ensureCapabilities?(capabilities: string[]): Promise<void>;
+    addHeaterEnergy?(kwh: number): Promise<void>;
+    recordOperatingHours?(hours: OperatingHours): Promise<void>;
+    loadOfflineWrites?(): QueuedOfflineWrite[];
+    saveOfflineWrites?(writes: QueuedOfflineWrite[]): Promise<void>;
+    loadWriteJournal?(): WriteJournalEntry[];
+    saveWriteJournal?(entries: WriteJournalEntry[]): Promise<void>;
     setSetting?(settings: Record<string, any>): Promise<void>;
     setSettings?(settings: Record<string, any>): Promise<void>;
     setCapabilityValue(cap: string, value: any): Promise<void>;
@@ -40,26 +117,70 @@ const OBJECT_TYPE = BacnetEnums.ObjectType;
 const DEFAULT_FIREPLACE_VENTILATION_MINUTES = 10;
 const DEFAULT_WRITE_PRIORITY = 13;
 const FLEXIT_GO_WRITE_PRIORITY = 16;
+export const MIN_POINT_WRITE_PRIORITY = 1;
+export const MAX_POINT_WRITE_PRIORITY = 16;
 export const MIN_TARGET_TEMPERATURE_C = 10;
 export const MAX_TARGET_TEMPERATURE_C = 30;
 const TARGET_TEMPERATURE_STEP_C = 0.5;
 export const TARGET_TEMPERATURE_HOME_SETTING = 'target_temperature_home';
 export const TARGET_TEMPERATURE_AWAY_SETTING = 'target_temperature_away';
+export const HEATING_NEUTRAL_ZONE_HOME_SETTING = 'heating_neutral_zone_home';
+export const HEATING_NEUTRAL_ZONE_AWAY_SETTING = 'heating_neutral_zone_away';
+export const COOLING_NEUTRAL_ZONE_HOME_SETTING = 'cooling_neutral_zone_home';
+export const COOLING_NEUTRAL_ZONE_AWAY_SETTING = 'cooling_neutral_zone_away';
 export const FREE_COOLING_ENABLED_SETTING = 'free_cooling_enabled';
 export const FREE_COOLING_TEMPERATURE_SETPOINT_SETTING = 'free_cooling_extract_temp_setpoint';
 export const FREE_COOLING_OUTSIDE_TEMPERATURE_LIMIT_SETTING = 'free_cooling_outside_temp_limit';
 export const FREE_COOLING_MIN_ON_TIME_SECONDS_SETTING = 'free_cooling_min_on_time_seconds';
+export const HUMIDITY_SETPOINT_HOME_SETTING = 'humidity_setpoint_home';
+export const HUMIDITY_SETPOINT_AWAY_SETTING = 'humidity_setpoint_away';
+export const HUMIDITY_SETPOINT_HIGH_SETTING = 'humidity_setpoint_high';
+const HUMIDITY_SETPOINT_PRESENT_SETTING = 'humidity_setpoint_present';
+const HUMIDITY_LIMIT_MAX_SETTING = 'humidity_limit_max';
+const HEAT_EXCHANGER_SPEED_FEEDBACK_SETTING = 'heat_exchanger_speed_feedback';
+const HEAT_EXCHANGER_DEICING_SPEED_SETTING = 'heat_exchanger_deicing_speed';
+const HEAT_EXCHANGER_MOTOR_FAILURES_SETTING = 'heat_exchanger_motor_failures';
+export const HEAT_RECOVERY_SMOOTHING_MINUTES_SETTING = 'heat_recovery_smoothing_minutes';
+export const DEFAULT_HEAT_RECOVERY_SMOOTHING_MINUTES = 5;
+export const MAX_HEAT_RECOVERY_SMOOTHING_MINUTES = 60;
 export const FIREPLACE_DURATION_SETTING = 'fireplace_duration_minutes';
+export const RAPID_DURATION_SETTING = 'rapid_duration_minutes';
 const BACNET_IP_SETTING = 'ip';
 const BACNET_PORT_SETTING = 'bacnetPort';
+export const BBMD_ADDRESS_SETTING = 'bbmd_address';
+export const BBMD_TTL_SETTING = 'bbmd_ttl_seconds';
+export type UnitTransport = 'bacnet' | 'cloud';
+const ACTIVE_TRANSPORT_SETTING = 'active_transport';
+const ACTIVE_TRANSPORT_LABELS: Record<UnitTransport, string> = {
+  bacnet: 'Local (BACnet)',
+  cloud: 'Flexit Cloud (failover)',
+};
+const CLOUD_ONLY_TRANSPORT_LABEL = 'Flexit Cloud';
+export const OFFLINE_WRITE_QUEUE_SETTING = 'offline_write_queue_enabled';
+export const OFFLINE_WRITE_MAX_AGE_SETTING = 'offline_write_queue_max_age_minutes';
+const OFFLINE_WRITE_OLDEST_SETTING = 'offline_write_queue_oldest';
+export const PENDING_WRITES_CAPABILITY = 'measure_pending_writes';
 export const MIN_FIREPLACE_DURATION_MINUTES = 1;
 export const MAX_FIREPLACE_DURATION_MINUTES = 360;
+export const MIN_RAPID_DURATION_MINUTES = 1;
+export const MAX_RAPID_DURATION_MINUTES = 360;
 export const MIN_FREE_COOLING_TEMPERATURE_C = 10;
 export const MAX_FREE_COOLING_TEMPERATURE_C = 30;
 const FREE_COOLING_TEMPERATURE_STEP_C = 0.5;
 export const MIN_FREE_COOLING_MIN_ON_TIME_SECONDS = 0;
 export const MAX_FREE_COOLING_MIN_ON_TIME_SECONDS = 18_000;
+export const MIN_HUMIDITY_SETPOINT_PERCENT = 0;
+export const MAX_HUMIDITY_SETPOINT_PERCENT = 100;
+export const HUMIDITY_SETPOINT_MODES = ['home', 'away', 'high'] as const;
+export type HumiditySetpointMode = (typeof HUMIDITY_SETPOINT_MODES)[number];
 type TargetTemperatureMode = 'home' | 'away';
+export const MIN_NEUTRAL_ZONE_K = 0;
+export const MAX_NEUTRAL_ZONE_K = 10;
+const NEUTRAL_ZONE_STEP_K = 0.5;
+export const NEUTRAL_ZONE_KINDS = ['heating', 'cooling'] as const;
+export type NeutralZoneKind = (typeof NEUTRAL_ZONE_KINDS)[number];
+export const NEUTRAL_ZONE_MODES = ['home', 'away'] as const;
+export type NeutralZoneMode = (typeof NEUTRAL_ZONE_MODES)[number];
 export const FILTER_CHANGE_INTERVAL_MONTHS_SETTING = 'filter_change_interval_months';
 export const FILTER_CHANGE_INTERVAL_HOURS_LEGACY_SETTING = 'filter_change_interval_hours';
 export const FAN_PROFILE_MODES = ['home', 'away', 'high', 'fireplace', 'cooker'] as const;
@@ -171,7 +292,28 @@ export const MAX_FILTER_CHANGE_INTERVAL_HOURS = (
   MAX_FILTER_CHANGE_INTERVAL_MONTHS * FILTER_CHANGE_INTERVAL_HOURS_PER_MONTH
 );
 
+export const POLL_TIERS = ['fast', 'settings', 'counters'] as const;
+export type PollTier = (typeof POLL_TIERS)[number];
+export type SlowPollTier = Exclude<PollTier, 'fast'>;
+// The fast tier is read on every poll; slower tiers are re-read once their interval
+// has elapsed. The device settings below override these intervals per unit.
+export const DEFAULT_POLL_TIER_INTERVALS_MS: Readonly<Record<SlowPollTier, number>> = {
+  settings: 5 * 60_000,
+  counters: 60 * 60_000,
+};
+export const POLL_TIER_INTERVAL_SETTINGS: Readonly<Record<SlowPollTier, string>> = {
+  settings: 'poll_settings_interval_minutes',
+  counters: 'poll_counters_interval_minutes',
+};
+const MAX_POLL_TIER_INTERVAL_MINUTES = 24 * 60;
+
 const POLL_INTERVAL_MS = 10_000;
+// Once COV subscriptions are active the regular poll only backs up objects
+// without COV support and catches notifications lost on the wire.
+const COV_FALLBACK_POLL_INTERVAL_MS = 60_000;
+// Heater power samples further apart than this are not integrated into the energy meter.
+const HEATER_ENERGY_MAX_GAP_MS = 5 * 60_000;
+const DEFAULT_COV_LIFETIME_SECONDS = 300;
 const CLOUD_POLL_INTERVAL_MS = 60_000;
 const CLOUD_MAX_READ_DATAPOINTS_PER_REQUEST = 24;
 const MODE_MISMATCH_GRACE_MS = 1000;
@@ -202,6 +344,12 @@ const OPERATION_MODE_VALUES = {
 };
 
 const TRIGGER_VALUE = 2;
+// The acknowledgement inputs (MSV 346/348) have no documented states. The catalog's
+// "Fault"/"Maintenance" example values are the first word of the object texts
+// ("Fault acknowledgement input"), split off by the spreadsheet export. 2 follows the
+// IDLE=1/TRIGGER=2 states documented for the other operator trigger inputs (MSV 357/360);
+// it has not been confirmed against a capture of Flexit GO acknowledging an alarm.
+const ALARM_ACKNOWLEDGE_VALUE = TRIGGER_VALUE;
 const HEATING_COIL_OFF = 0;
 const HEATING_COIL_ON = 1;
 const COOKER_HOOD_ON = 1;
@@ -220,6 +368,15 @@ const BACNET_OBJECTS = {
   freeCoolingOutsideTemperatureLimit: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1934 },
   freeCoolingTemperatureSetpoint: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 2071 },
   freeCoolingMinOnTime: { type: OBJECT_TYPE.POSITIVE_INTEGER_VALUE, instance: 296 },
+  humiditySetpointPresent: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 60 },
+  humidityLimitMax: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 2090 },
+  heatExchangerSpeed: { type: OBJECT_TYPE.ANALOG_OUTPUT, instance: 0 },
+  heatExchangerEfficiency: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 2023 },
+  heatExchangerSpeedFeedback: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 2293 },
+  heatExchangerMotorFailureCount: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 2294 },
+  heatExchangerMotorStuck: { type: OBJECT_TYPE.BINARY_VALUE, instance: 512 },
+  heatExchangerBeltBroken: { type: OBJECT_TYPE.BINARY_VALUE, instance: 513 },
+  heatExchangerDeicingSpeed: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1852 },
   rapidVentilationTrigger: { type: OBJECT_TYPE.MULTI_STATE_VALUE, instance: 357 },
   rapidVentilationRuntime: { type: OBJECT_TYPE.POSITIVE_INTEGER_VALUE, instance: 293 },
   rapidVentilationRemaining: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 2031 },
@@ -232,7 +389,15 @@ const BACNET_OBJECTS = {
   resetTempVentOp: { type: OBJECT_TYPE.BINARY_VALUE, instance: 452 },
   resetTempRapidRf: { type: OBJECT_TYPE.BINARY_VALUE, instance: 487 },
   resetTempFireplaceRf: { type: OBJECT_TYPE.BINARY_VALUE, instance: 488 },
+  presentAlarmCodeA: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1794 },
+  presentAlarmCodeB: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1846 },
+  alarmCount: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 2026 },
+  faultAcknowledge: { type: OBJECT_TYPE.MULTI_STATE_VALUE, instance: 346 },
+  maintenanceAcknowledge: { type: OBJECT_TYPE.MULTI_STATE_VALUE, instance: 348 },
+  operatingModeSchedule: { type: OBJECT_TYPE.SCHEDULE, instance: 5 },
 };
+// The operating mode scheduler drives the same STOP/AWAY/HOME/HIGH values as MSV 42.
+const OPERATING_MODE_SCHEDULE_VALUE_TAG = BacnetEnums.ApplicationTags.UNSIGNED_INTEGER;
 const FILTER_LIMIT_OBJECT = { type: OBJECT_TYPE.ANALOG_VALUE, instance: 286 };
 const TARGET_TEMPERATURE_OBJECTS: Record<TargetTemperatureMode, { type: number; instance: number }> = {
   home: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1994 },
@@ -242,17 +407,134 @@ const TARGET_TEMPERATURE_DATA_KEYS: Record<TargetTemperatureMode, string> = {
   home: 'target_temperature.home',
   away: 'target_temperature.away',
 };
+// Neutral zone around the target temperature, in K: the heater starts below
+// target - heating delta, and cooling starts above target + cooling delta.
+const NEUTRAL_ZONE_OBJECTS: Record<NeutralZoneKind, Record<NeutralZoneMode, { type: number; instance: number }>> = {
+  heating: {
+    home: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1921 },
+    away: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1987 },
+  },
+  cooling: {
+    home: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1926 },
+    away: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1992 },
+  },
+};
+export const NEUTRAL_ZONE_SETTING_KEYS: Record<NeutralZoneKind, Record<NeutralZoneMode, string>> = {
+  heating: {
+    home: HEATING_NEUTRAL_ZONE_HOME_SETTING,
+    away: HEATING_NEUTRAL_ZONE_AWAY_SETTING,
+  },
+  cooling: {
+    home: COOLING_NEUTRAL_ZONE_HOME_SETTING,
+    away: COOLING_NEUTRAL_ZONE_AWAY_SETTING,
+  },
+};
+const neutralZoneDataKey = (kind: NeutralZoneKind, mode: NeutralZoneMode) => `neutral_zone.${kind}.${mode}`;
 const TARGET_TEMPERATURE_SETTING_KEYS: Record<TargetTemperatureMode, string> = {
   home: TARGET_TEMPERATURE_HOME_SETTING,
   away: TARGET_TEMPERATURE_AWAY_SETTING,
 };
+// Per-mode dehumidification setpoints in %RH; AV 60 reports the one currently in effect.
+const HUMIDITY_SETPOINT_OBJECTS: Record<HumiditySetpointMode, { type: number; instance: number }> = {
+  high: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 61 },
+  home: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 62 },
+  away: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 63 },
+};
+const HUMIDITY_SETPOINT_DATA_KEYS: Record<HumiditySetpointMode, string> = {
+  home: 'humidity_setpoint.home',
+  away: 'humidity_setpoint.away',
+  high: 'humidity_setpoint.high',
+};
+const HUMIDITY_SETPOINT_SETTING_KEYS: Record<HumiditySetpointMode, string> = {
+  home: HUMIDITY_SETPOINT_HOME_SETTING,
+  away: HUMIDITY_SETPOINT_AWAY_SETTING,
+  high: HUMIDITY_SETPOINT_HIGH_SETTING,
+};
+// Room humidity from RF room sensors (AV 2093..2095) and VMSH room units (AI 84/87/90).
+// Units without these sensors still report the objects, so presence is detected at runtime.
+export const ROOM_HUMIDITY_SENSORS = ['room1', 'room2', 'room3', 'vmsh1', 'vmsh2', 'vmsh3'] as const;
+export type RoomHumiditySensor = (typeof ROOM_HUMIDITY_SENSORS)[number];
+const ROOM_HUMIDITY_OBJECTS: Record<RoomHumiditySensor, { type: number; instance: number }> = {
+  room1: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 2093 },
+  room2: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 2094 },
+  room3: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 2095 },
+  vmsh1: { type: OBJECT_TYPE.ANALOG_INPUT, instance: 84 },
+  vmsh2: { type: OBJECT_TYPE.ANALOG_INPUT, instance: 87 },
+  vmsh3: { type: OBJECT_TYPE.ANALOG_INPUT, instance: 90 },
+};
+const RF_ROOM_HUMIDITY_SENSORS: ReadonlySet<RoomHumiditySensor> = new Set(['room1', 'room2', 'room3']);
+// MSV 369..375 report the state of paired RF devices 1..7. MSV 368 is the
+// "remove RF device" command and carries no state, so it is not polled.
+const RF_DEVICE_STATE_OBJECTS = Array.from(
+  { length: 7 },
+  (_, index) => ({ type: OBJECT_TYPE.MULTI_STATE_VALUE, instance: 369 + index }),
+);
+const RF_DEVICE_NOT_CONNECTED_STATE = 1;
+const rfDeviceStateDataKey = (index: number) => `rf_device_state.${index + 1}`;
+const roomHumidityDataKey = (sensor: RoomHumiditySensor) => `room_humidity.${sensor}`;
+export const roomHumidityCapability = (sensor: RoomHumiditySensor) => `measure_humidity.${sensor}`;
+// Air pressures in Pa: over the fan inlets (AI 72/73), which gives the airflow, and in the
+// ducts on constant-pressure units (AI 78/79). Units without a sensor report 0.
+export const AIR_PRESSURE_SENSORS = ['fan_supply', 'fan_extract', 'duct_supply', 'duct_extract'] as const;
+export type AirPressureSensor = (typeof AIR_PRESSURE_SENSORS)[number];
+const AIR_PRESSURE_OBJECTS: Record<AirPressureSensor, { type: number; instance: number }> = {
+  fan_supply: { type: OBJECT_TYPE.ANALOG_INPUT, instance: 73 },
+  fan_extract: { type: OBJECT_TYPE.ANALOG_INPUT, instance: 72 },
+  duct_supply: { type: OBJECT_TYPE.ANALOG_INPUT, instance: 79 },
+  duct_extract: { type: OBJECT_TYPE.ANALOG_INPUT, instance: 78 },
+};
+export const AIRFLOW_FANS = ['supply', 'extract'] as const;
+export type AirflowFan = (typeof AIRFLOW_FANS)[number];
+const AIRFLOW_PRESSURE_SENSORS: Record<AirflowFan, AirPressureSensor> = {
+  supply: 'fan_supply',
+  extract: 'fan_extract',
+};
+const airPressureDataKey = (sensor: AirPressureSensor) => `air_pressure.${sensor}`;
+export const airPressureCapability = (sensor: AirPressureSensor) => `measure_air_pressure.${sensor}`;
+export const airflowCapability = (fan: AirflowFan) => `measure_airflow.${fan}`;
+// Rotary heat exchanger faults: the "motor stuck" / "belt broken" alarms (BV 512/513)
+// and increments of the motor failure counter (AV 2294).
+export const HEAT_EXCHANGER_FAULTS = ['motor_stuck', 'belt_broken', 'motor_failure'] as const;
+export type HeatExchangerFault = (typeof HEAT_EXCHANGER_FAULTS)[number];
+type HeatExchangerAlarm = Exclude<HeatExchangerFault, 'motor_failure'>;
+const HEAT_EXCHANGER_ALARMS: readonly HeatExchangerAlarm[] = ['motor_stuck', 'belt_broken'];
+const HEAT_EXCHANGER_ALARM_DATA_KEYS: Record<HeatExchangerAlarm, string> = {
+  motor_stuck: 'heat_exchanger_motor_stuck',
+  belt_broken: 'heat_exchanger_belt_broken',
+};
+const HEAT_EXCHANGER_FAULT_TEXTS: Record<HeatExchangerFault, string> = {
+  motor_stuck: 'Heat exchanger motor stuck',
+  belt_broken: 'Heat exchanger belt broken',
+  motor_failure: 'Heat exchanger motor failure',
+};
+const HEAT_EXCHANGER_MOTOR_FAILURES_DATA_KEY = 'heat_exchanger_motor_failures';
+const OPERATING_HOUR_OBJECTS: Record<OperatingHourCounter, { type: number; instance: number }> = {
+  total: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1847 },
+  stop: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1913 },
+  away: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1914 },
+  home: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1915 },
+  high: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1916 },
+  fireplace: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1814 },
+  cooker: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1820 },
+  heater: { type: OBJECT_TYPE.ANALOG_VALUE, instance: 1879 },
+};
+const operatingHoursDataKey = (counter: OperatingHourCounter) => `operating_hours.${counter}`;
+const OPERATING_HOURS_CAPABILITIES: Partial<Record<OperatingHourCounter, string>> = {
+  total: 'measure_operating_hours',
+  heater: 'measure_operating_hours.heater',
+};
 const FIREPLACE_DURATION_DATA_KEY = 'fireplace_duration_minutes';
+const RAPID_DURATION_DATA_KEY = 'rapid_duration_minutes';
 
 const objectKey = (type: number, instance: number) => `${type}:${instance}`;
 const FIREPLACE_RUNTIME_KEY = objectKey(
   BACNET_OBJECTS.fireplaceVentilationRuntime.type,
   BACNET_OBJECTS.fireplaceVentilationRuntime.instance,
 );
+const RAPID_RUNTIME_KEY = objectKey(
+  BACNET_OBJECTS.rapidVentilationRuntime.type,
+  BACNET_OBJECTS.rapidVentilationRuntime.instance,
+);
 const VENTILATION_MODE_KEY = objectKey(
   BACNET_OBJECTS.ventilationMode.type,
   BACNET_OBJECTS.ventilationMode.instance,
@@ -281,6 +563,35 @@ const COOKER_HOOD_KEY = objectKey(
 const TEMP_VENT_REMAINING_KEY = objectKey(OBJECT_TYPE.ANALOG_VALUE, 2005);
 const RAPID_REMAINING_KEY = objectKey(OBJECT_TYPE.ANALOG_VALUE, 2031);
 const FIREPLACE_REMAINING_KEY = objectKey(OBJECT_TYPE.ANALOG_VALUE, 2038);
+// Fireplace and temporary high ventilation run for a runtime and are started and stopped by
+// the same trigger; the remaining AVs report the configured runtime while the mode is idle.
+export const TIMED_MODES = ['high', 'fireplace'] as const;
+export type TimedMode = (typeof TIMED_MODES)[number];
+const TIMED_MODE_OBJECTS: Record<TimedMode, {
+  runtime: { type: number; instance: number };
+  trigger: { type: number; instance: number };
+  remainingKey: string;
+}> = {
+  high: {
+    runtime: BACNET_OBJECTS.rapidVentilationRuntime,
+    trigger: BACNET_OBJECTS.rapidVentilationTrigger,
+    remainingKey: RAPID_REMAINING_KEY,
+  },
+  fireplace: {
+    runtime: BACNET_OBJECTS.fireplaceVentilationRuntime,
+    trigger: BACNET_OBJECTS.fireplaceVentilationTrigger,
+    remainingKey: FIREPLACE_REMAINING_KEY,
+  },
+};
+const TIMED_MODE_REMAINING_DATA_KEYS: Record<TimedMode, string> = {
+  high: 'remaining_rapid_vent',
+  fireplace: 'remaining_fireplace_vent',
+};
+export const TIMED_MODE_REMAINING_CAPABILITY = 'measure_timed_mode_remaining';
+export const MIN_TIMED_MODE_EXTENSION_MINUTES = 1;
+export const MAX_TIMED_MODE_EXTENSION_MINUTES = 360;
+// Restarting a timed mode briefly stops it; polls in this window are not reported as the mode ending.
+const TIMED_MODE_RESTART_GRACE_MS = 15_000;
 const MODE_RF_INPUT_KEY = objectKey(OBJECT_TYPE.ANALOG_VALUE, 2125);
 const DEHUMIDIFICATION_FAN_CONTROL_KEY = objectKey(
   BACNET_OBJECTS.dehumidificationFanControl.type,
@@ -332,6 +643,31 @@ const MODE_SIGNAL_KEYS = [
   'remaining_temp_vent_op',
   'mode_rf_input',
 ];
+// Capabilities derived from several objects need their sibling values when a COV
+// notification or a poll of only some tiers carries just one of them.
+const DERIVED_DATA_KEY_GROUPS: ReadonlyArray<ReadonlyArray<string>> = [
+  [
+    ...MODE_SIGNAL_KEYS,
+    'away_delay_active',
+    'comfort_delay',
+    TARGET_TEMPERATURE_DATA_KEYS.home,
+    TARGET_TEMPERATURE_DATA_KEYS.away,
+    ...FAN_PROFILE_MODES.flatMap((mode) => [
+      FAN_PROFILE_DATA_KEYS[mode].supply,
+      FAN_PROFILE_DATA_KEYS[mode].exhaust,
+    ]),
+  ],
+  ['filter_time', 'filter_limit'],
+  ['dehumidification_fan_control', 'dehumidification_request_by_slope'],
+  [
+    'measure_temperature',
+    'measure_temperature.outdoor',
+    'measure_temperature.extract',
+    'measure_temperature.exhaust',
+    'measure_fan_speed_percent',
+    'measure_power',
+  ],
+];
 const CAPABILITY_MAPPINGS = [
   { dataKey: 'measure_temperature', capability: 'measure_temperature' },
   { dataKey: 'measure_temperature.outdoor', capability: 'measure_temperature.outdoor' },
@@ -343,9 +679,26 @@ const CAPABILITY_MAPPINGS = [
   { dataKey: 'measure_motor_rpm.extract', capability: 'measure_motor_rpm.extract' },
   { dataKey: 'measure_fan_speed_percent', capability: 'measure_fan_speed_percent' },
   { dataKey: 'measure_fan_speed_percent.extract', capability: 'measure_fan_speed_percent.extract' },
+  { dataKey: 'measure_rotor_speed_percent', capability: 'measure_rotor_speed_percent' },
+  { dataKey: 'measure_heat_exchanger_efficiency', capability: 'measure_heat_exchanger_efficiency' },
 ] as const;
 const DEHUMIDIFICATION_ACTIVE_CAPABILITY = 'dehumidification_active';
+const ALARM_CAPABILITY = 'alarm_generic';
+// The present alarm points only hold the latest alarm of each class; the alarm list
+// count tells how many alarms are active in total.
+const ALARM_COUNT_CAPABILITY = 'measure_alarm_count';
+const ALARM_COUNT_DATA_KEY = 'alarm_count';
+const ALARM_DATA_KEYS: Record<AlarmClass, string> = {
+  A: 'alarm_code_a',
+  B: 'alarm_code_b',
+};
 const FREE_COOLING_ACTIVE_CAPABILITY = 'free_cooling_active';
+const HEAT_EXCHANGER_HEALTH_CAPABILITY = 'heat_exchanger_health';
+const HEAT_RECOVERY_EFFICIENCY_CAPABILITIES = {
+  supply: 'measure_heat_recovery_efficiency',
+  exhaust: 'measure_heat_recovery_efficiency.exhaust',
+} as const;
+const RECOVERED_POWER_CAPABILITY = 'measure_recovered_power';
 
 const MODE_RF_INPUT_MAP: Record<number, 'home' | 'away' | 'high' | 'fireplace'> = {
   3: 'high',
@@ -485,6 +838,66 @@ export function normalizeFreeCoolingMinOnTimeSeconds(value: unknown): number {
   return rounded;
 }
 
+export function isNeutralZoneKind(value: unknown): value is NeutralZoneKind {
+  return typeof value === 'string' && (NEUTRAL_ZONE_KINDS as readonly string[]).includes(value);
+}
+
+export function isNeutralZoneMode(value: unknown): value is NeutralZoneMode {
+  return typeof value === 'string' && (NEUTRAL_ZONE_MODES as readonly string[]).includes(value);
+}
+
+export function normalizeNeutralZone(value: unknown): number {
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric)) {
+    throw new Error('Neutral zone must be numeric');
+  }
+
+  if (numeric < MIN_NEUTRAL_ZONE_K || numeric > MAX_NEUTRAL_ZONE_K) {
+    throw new Error(`Neutral zone must be between ${MIN_NEUTRAL_ZONE_K} and ${MAX_NEUTRAL_ZONE_K} K`);
+  }
+
+  const stepped = Math.round(numeric / NEUTRAL_ZONE_STEP_K) * NEUTRAL_ZONE_STEP_K;
+  return Number(stepped.toFixed(1));
+}
+
+export function isHumiditySetpointMode(value: unknown): value is HumiditySetpointMode {
+  return typeof value === 'string' && (HUMIDITY_SETPOINT_MODES as readonly string[]).includes(value);
+}
+
+export function normalizeHumiditySetpoint(value: unknown): number {
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric)) {
+    throw new Error('Humidity setpoint must be numeric');
+  }
+
+  const rounded = Math.round(numeric);
+  if (rounded < MIN_HUMIDITY_SETPOINT_PERCENT || rounded > MAX_HUMIDITY_SETPOINT_PERCENT) {
+    throw new Error(
+      `Humidity setpoint must be between ${MIN_HUMIDITY_SETPOINT_PERCENT}`
+      + ` and ${MAX_HUMIDITY_SETPOINT_PERCENT} %`,
+    );
+  }
+  return rounded;
+}
+
+// A sensor that is not connected reads 0 %RH (or an out-of-range placeholder).
+function resolveRoomHumidity(value: number | undefined): number | undefined {
+  if (value === undefined || !Number.isFinite(value)) return undefined;
+  if (value <= 0 || value > 100) return undefined;
+  return Number(value.toFixed(1));
+}
+
+function resolveRfDeviceConnected(data: Record<string, number>): boolean | undefined {
+  let observed = false;
+  for (let index = 0; index < RF_DEVICE_STATE_OBJECTS.length; index++) {
+    const state = data[rfDeviceStateDataKey(index)];
+    if (state === undefined || !Number.isFinite(state)) continue;
+    observed = true;
+    if (Math.round(state) !== RF_DEVICE_NOT_CONNECTED_STATE) return true;
+  }
+  return observed ? false : undefined;
+}
+
 function tryNormalizeValue(
   value: unknown,
   normalize: (input: unknown) => number,
@@ -515,6 +928,99 @@ export function normalizeFireplaceDurationMinutes(value: unknown): number {
   return rounded;
 }
 
+export function normalizeRapidDurationMinutes(value: unknown): number {
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric)) {
+    throw new Error('High ventilation duration must be numeric');
+  }
+
+  const rounded = Math.round(numeric);
+  if (
+    rounded < MIN_RAPID_DURATION_MINUTES
+    || rounded > MAX_RAPID_DURATION_MINUTES
+  ) {
+    throw new Error(
+      `High ventilation duration must be between ${MIN_RAPID_DURATION_MINUTES}`
+      + ` and ${MAX_RAPID_DURATION_MINUTES} minutes`,
+    );
+  }
+  return rounded;
+}
+
+function normalizeTimedModeExtensionMinutes(value: unknown): number {
+  const rounded = Math.round(Number(value));
+  if (
+    !Number.isFinite(rounded)
+    || rounded < MIN_TIMED_MODE_EXTENSION_MINUTES
+    || rounded > MAX_TIMED_MODE_EXTENSION_MINUTES
+  ) {
+    throw new Error(
+      `Extension must be between ${MIN_TIMED_MODE_EXTENSION_MINUTES}`
+      + ` and ${MAX_TIMED_MODE_EXTENSION_MINUTES} minutes`,
+    );
+  }
+  return rounded;
+}
+
+function resolveCatalogPoint(pointKey: unknown): CatalogPoint {
+  const point = typeof pointKey === 'string' ? getCatalogPoint(pointKey) : undefined;
+  if (!point) throw new Error(`Unknown point '${String(pointKey)}'.`);
+  return point;
+}
+
+// Binary objects take ENUMERATED values, multi-state and positive integer objects UNSIGNED_INTEGER.
+function resolvePointWriteTag(point: CatalogPoint): number {
+  switch (point.type) {
+    case OBJECT_TYPE.BINARY_INPUT:
+    case OBJECT_TYPE.BINARY_OUTPUT:
+    case OBJECT_TYPE.BINARY_VALUE:
+      return BacnetEnums.ApplicationTags.ENUMERATED;
+    case OBJECT_TYPE.MULTI_STATE_VALUE:
+    case OBJECT_TYPE.POSITIVE_INTEGER_VALUE:
+      return BacnetEnums.ApplicationTags.UNSIGNED_INTEGER;
+    default:
+      return BacnetEnums.ApplicationTags.REAL;
+  }
+}
+
+function normalizePointWriteValue(point: CatalogPoint, tag: number, value: unknown): number {
+  const numeric = Number(value);
+  if (typeof value !== 'number' || !Number.isFinite(numeric)) {
+    throw new Error(`Value for ${formatCatalogPoint(point)} must be numeric.`);
+  }
+  if (tag === BacnetEnums.ApplicationTags.REAL) return numeric;
+  if (!Number.isInteger(numeric) || numeric < 0) {
+    throw new Error(`Value for ${formatCatalogPoint(point)} must be a whole number of 0 or more.`);
+  }
+  if (tag === BacnetEnums.ApplicationTags.ENUMERATED && numeric > 1) {
+    throw new Error(`Value for ${formatCatalogPoint(point)} must be 0 or 1.`);
+  }
+  return numeric;
+}
+
+function normalizePointWritePriority(value: unknown): number {
+  const numeric = Number(value);
+  if (
+    !Number.isInteger(numeric)
+    || numeric < MIN_POINT_WRITE_PRIORITY
+    || numeric > MAX_POINT_WRITE_PRIORITY
+  ) {
+    throw new Error(
+      `Write priority must be a whole number between ${MIN_POINT_WRITE_PRIORITY}`
+      + ` and ${MAX_POINT_WRITE_PRIORITY}.`,
+    );
+  }
+  return numeric;
+}
+
+// Permanent HIGH (ventilation mode 4) is not timed, only rapid ventilation started by the trigger.
+function resolveTimedMode(data: Record<string, number>, mode: string): TimedMode | undefined {
+  if (mode === 'fireplace') return 'fireplace';
+  const temporaryHigh = data.rapid_active === 1
+    || Math.round(data.operation_mode ?? NaN) === OPERATION_MODE_VALUES.TEMPORARY_HIGH;
+  return mode === 'high' && temporaryHigh ? 'high' : undefined;
+}
+
 export function isFanProfileMode(value: unknown): value is FanProfileMode {
   return typeof value === 'string' && (FAN_PROFILE_MODES as readonly string[]).includes(value);
 }
@@ -578,16 +1084,36 @@ export function filterIntervalHoursToMonths(
   return clampedMonths;
 }
 
+export interface UnitSchedule {
+  weekly: WeeklySchedule;
+  exceptions: ScheduleException[];
+}
+
+export interface UnitScheduleUpdate {
+  weekly?: Partial<WeeklySchedule>;
+  exceptions?: ScheduleException[];
+}
+
 export interface CloudTransportConfig {
   plantId: string;
   client: FlexitCloudClient;
 }
 
+export interface BacnetEndpoint {
+  serial: string;
+  ip: string;
+  bacnetPort: number;
+}
+
 interface UnitState {
   unitId: string;
   serial: string;
-  transport: 'bacnet' | 'cloud';
+  // Normalized serial the unit announces on the LAN; differs from unitId for cloud-paired units.
+  discoverySerial: string;
+  transport: UnitTransport;
   cloud?: CloudTransportConfig;
+  // Local unit linked to cloud credentials: `transport` switches to cloud while the LAN path is down.
+  cloudFailover: boolean;
   unsupportedCloudPollPaths: Set<string>;
   devices: Set<FlexitDevice>;
   pollInterval: ReturnType<typeof setInterval> | null;
@@ -597,12 +1123,17 @@ interface UnitState {
   cloudPollPromise?: Promise<void>;
   ip: string;
   bacnetPort: number;
+  // BBMD the shared client on `bacnetPort` registers with, for units on another subnet.
+  foreignDevice?: ForeignDeviceRegistration;
   writeQueue: Promise<void>;
   probeValues: Map<string, number>;
   blockedWrites: Set<string>;
   pendingWriteErrors: Map<string, { value: number | null; code: number }>;
   lastWriteValues: Map<string, { value: number | null; at: number }>;
   lastPollAt?: number;
+  // Start time of the last successful read of each tier, and the last write to one of its objects.
+  pollTierReadAt: Partial<Record<PollTier, number>>;
+  pollTierWrittenAt: Partial<Record<PollTier, number>>;
   writeContext: Map<string, { value: number; mode: string; at: number }>;
   deferredMode?: 'fireplace';
   deferredSince?: number;
@@ -620,6 +1151,33 @@ interface UnitState {
   freeCoolingStateInitialized: boolean;
   heatingCoilEnabled?: boolean;
   heatingCoilStateInitialized: boolean;
+  alarmCodes: Partial<Record<AlarmClass, number>>;
+  roomHumiditySensors: Set<RoomHumiditySensor>;
+  roomHumidity: Partial<Record<RoomHumiditySensor, number>>;
+  airPressureSensors: Set<AirPressureSensor>;
+  airflow: Partial<Record<AirflowFan, number>>;
+  timedMode?: TimedMode;
+  timedModeSeen: boolean;
+  timedModeRestartUntil?: number;
+  heatExchangerAlarms: Partial<Record<HeatExchangerAlarm, boolean>>;
+  heatExchangerMotorFailures?: number;
+  heatRecoverySamples: HeatRecoverySample[];
+  heaterPowerSample?: { at: number; watts: number };
+  // Writes held while the unit is unavailable, oldest first; mirrored to the device store.
+  offlineWrites: QueuedOfflineWrite[];
+  offlineWriteReplaying: boolean;
+  liveWriteKeysDuringReplay: Set<string>;
+  // Audit trail of writes and externally observed changes; mirrored to the device store.
+  writeJournal: WriteJournalEntry[];
+  // Last successful schedule read that refreshed the schedule settings.
+  scheduleSettingsReadAt?: number;
+  scheduleSettingsReadInFlight: boolean;
+  observedData: Record<string, number>;
+  covSubscriberProcessId: number;
+  covSubscribedKeys: Set<string>;
+  covSubscribing: boolean;
+  covRenewInterval: ReturnType<typeof setInterval> | null;
+  covGeneration: number;
 }
 
 interface PollParseTarget {
@@ -680,7 +1238,7 @@ function formatCloudPathForLog(path: string): string {
   if (!Number.isFinite(objectId.type) || !Number.isFinite(objectId.instance)) {
     return path;
   }
-  return `${path} (${objectId.type}:${objectId.instance})`;
+  return `${describeBacnetObject(objectId)} at ${path}`;
 }
 
 function sampleCloudPathsForLog(paths: string[], limit = 5): string[] {
@@ -689,8 +1247,12 @@ function sampleCloudPathsForLog(paths: string[], limit = 5): string[] {
 
 interface RegistryDependencies {
   getBacnetClient(port: number): any;
+  setForeignDeviceRegistration: typeof setForeignDeviceRegistration;
   discoverFlexitUnits: typeof discoverFlexitUnits;
   writeTimeoutMs?: number;
+  covLifetimeSeconds?: number;
+  covConfirmedNotifications?: boolean;
+  pollTierIntervalsMs?: Partial<Record<SlowPollTier, number>>;
 }
 
 interface FanSetpointChangedEvent {
@@ -705,6 +1267,41 @@ interface HeatingCoilStateChangedEvent {
   enabled: boolean;
 }
 
+interface AlarmStateChangedEvent {
+  device: FlexitDevice;
+  raised: boolean;
+  alarmClass: AlarmClass;
+  code: number;
+  text: string;
+}
+
+interface RoomHumidityChangedEvent {
+  device: FlexitDevice;
+  sensor: RoomHumiditySensor;
+  previousHumidity: number;
+  humidity: number;
+}
+
+interface AirflowChangedEvent {
+  device: FlexitDevice;
+  fan: AirflowFan;
+  previousAirflow: number;
+  airflow: number;
+}
+
+interface TimedModeEndedEvent {
+  device: FlexitDevice;
+  endedMode: TimedMode;
+  currentMode: string;
+}
+
+interface HeatExchangerFaultEvent {
+  device: FlexitDevice;
+  fault: HeatExchangerFault;
+  text: string;
+  motorFailureCount: number;
+}
+
 interface DehumidificationStateChangedEvent {
   device: FlexitDevice;
   active: boolean;
@@ -722,69 +1319,108 @@ function presentValueRequest(objectId: { type: number; instance: number }) {
   };
 }
 
-// The core poll request — only objects that drive device capabilities.
-function buildPollRequest() {
-  return [
-    // Thermostat capabilities
-    presentValueRequest(TARGET_TEMPERATURE_OBJECTS.home), // Setpoint HOME
-    presentValueRequest(TARGET_TEMPERATURE_OBJECTS.away), // Setpoint AWAY
-    presentValueRequest({ type: OBJECT_TYPE.ANALOG_INPUT, instance: 4 }), // Supply Temp
-    presentValueRequest({ type: OBJECT_TYPE.ANALOG_INPUT, instance: 1 }), // Outdoor Temp
-    presentValueRequest({ type: OBJECT_TYPE.ANALOG_INPUT, instance: 11 }), // Exhaust Temp
-    presentValueRequest({
-      type: OBJECT_TYPE.ANALOG_INPUT,
-      instance: EXTRACT_AIR_TEMPERATURE_PRIMARY_INSTANCE,
-    }), // Extract Temp (primary mapping)
-    presentValueRequest({
-      type: OBJECT_TYPE.ANALOG_INPUT,
-      instance: EXTRACT_AIR_TEMPERATURE_ALT_INSTANCE,
-    }), // Extract Temp (alternate mapping)
-    presentValueRequest({ type: OBJECT_TYPE.ANALOG_INPUT, instance: 96 }), // Humidity
-    presentValueRequest({ type: OBJECT_TYPE.ANALOG_VALUE, instance: 194 }), // Heater Power
-    presentValueRequest(BACNET_OBJECTS.heatingCoilEnable), // Heating coil enable
-
-    // Fan capabilities
-    presentValueRequest({ type: OBJECT_TYPE.ANALOG_INPUT, instance: 5 }), // Fan RPM Supply
-    presentValueRequest({ type: OBJECT_TYPE.ANALOG_INPUT, instance: 12 }), // Fan RPM Extract
-    presentValueRequest({ type: OBJECT_TYPE.ANALOG_OUTPUT, instance: 3 }), // Fan Speed % Supply
-    presentValueRequest({ type: OBJECT_TYPE.ANALOG_OUTPUT, instance: 4 }), // Fan Speed % Extract
-    presentValueRequest(BACNET_OBJECTS.dehumidificationFanControl),
-    presentValueRequest(BACNET_OBJECTS.dehumidificationSlopeRequest),
-    presentValueRequest(BACNET_OBJECTS.freeCoolingEnabled),
-    presentValueRequest(BACNET_OBJECTS.freeCoolingTemperatureSetpoint),
-    presentValueRequest(BACNET_OBJECTS.freeCoolingOutsideTemperatureLimit),
-    presentValueRequest(BACNET_OBJECTS.freeCoolingMinOnTime),
-    presentValueRequest(FAN_PROFILE_OBJECTS.home.supply), // Setpoint supply HOME
-    presentValueRequest(FAN_PROFILE_OBJECTS.home.exhaust), // Setpoint exhaust HOME
-    presentValueRequest(FAN_PROFILE_OBJECTS.away.supply), // Setpoint supply AWAY
-    presentValueRequest(FAN_PROFILE_OBJECTS.away.exhaust), // Setpoint exhaust AWAY
-    presentValueRequest(FAN_PROFILE_OBJECTS.high.supply), // Setpoint supply HIGH
-    presentValueRequest(FAN_PROFILE_OBJECTS.high.exhaust), // Setpoint exhaust HIGH
-    presentValueRequest(FAN_PROFILE_OBJECTS.fireplace.supply), // Setpoint supply FIREPLACE
-    presentValueRequest(FAN_PROFILE_OBJECTS.fireplace.exhaust), // Setpoint exhaust FIREPLACE
-    presentValueRequest(FAN_PROFILE_OBJECTS.cooker.supply), // Setpoint supply COOKER
-    presentValueRequest(FAN_PROFILE_OBJECTS.cooker.exhaust), // Setpoint exhaust COOKER
-    presentValueRequest({ type: OBJECT_TYPE.ANALOG_VALUE, instance: 285 }), // Filter Time
-    presentValueRequest({ type: OBJECT_TYPE.ANALOG_VALUE, instance: 286 }), // Filter Limit
-
-    // Mode / comfort
-    presentValueRequest(BACNET_OBJECTS.comfortButton),
-    presentValueRequest(BACNET_OBJECTS.comfortButtonDelay),
-    presentValueRequest(BACNET_OBJECTS.actualVentilationMode),
-    presentValueRequest(BACNET_OBJECTS.ventilationMode),
-    presentValueRequest(BACNET_OBJECTS.operationMode),
-    presentValueRequest(BACNET_OBJECTS.rapidVentilationTrigger),
-    presentValueRequest(BACNET_OBJECTS.rapidVentilationRuntime),
-    presentValueRequest(BACNET_OBJECTS.fireplaceVentilationTrigger),
-    presentValueRequest(BACNET_OBJECTS.fireplaceVentilationRuntime),
-    presentValueRequest({ type: OBJECT_TYPE.BINARY_VALUE, instance: 15 }), // Rapid ventilation active
-    presentValueRequest(BACNET_OBJECTS.fireplaceState),
-    presentValueRequest(BACNET_OBJECTS.rapidVentilationRemaining),
-    presentValueRequest(BACNET_OBJECTS.fireplaceVentilationRemaining),
-    presentValueRequest({ type: OBJECT_TYPE.ANALOG_VALUE, instance: 2005 }), // Remaining temp vent op
-    presentValueRequest({ type: OBJECT_TYPE.ANALOG_VALUE, instance: 2125 }), // Operating mode input from RF
-    presentValueRequest({ type: OBJECT_TYPE.BINARY_VALUE, instance: 574 }), // Delay for away active
-  ];
+type PollObjectRequest = ReturnType<typeof presentValueRequest>;
+
+// The core poll request, split into tiers. Sensors, mode signals and values behind
+// capabilities or flow triggers are read on every poll; setpoints that only appear in
+// device settings and slowly rising counters are re-read once their tier interval
+// has elapsed, or on the next poll after one of their objects is written.
+function buildPollTiers(): Record<PollTier, PollObjectRequest[]> {
+  return {
+    fast: [
+      // Thermostat capabilities
+      presentValueRequest(TARGET_TEMPERATURE_OBJECTS.home), // Setpoint HOME
+      presentValueRequest(TARGET_TEMPERATURE_OBJECTS.away), // Setpoint AWAY
+      presentValueRequest({ type: OBJECT_TYPE.ANALOG_INPUT, instance: 4 }), // Supply Temp
+      presentValueRequest({ type: OBJECT_TYPE.ANALOG_INPUT, instance: 1 }), // Outdoor Temp
+      presentValueRequest({ type: OBJECT_TYPE.ANALOG_INPUT, instance: 11 }), // Exhaust Temp
+      presentValueRequest({
+        type: OBJECT_TYPE.ANALOG_INPUT,
+        instance: EXTRACT_AIR_TEMPERATURE_PRIMARY_INSTANCE,
+      }), // Extract Temp (primary mapping)
+      presentValueRequest({
+        type: OBJECT_TYPE.ANALOG_INPUT,
+        instance: EXTRACT_AIR_TEMPERATURE_ALT_INSTANCE,
+      }), // Extract Temp (alternate mapping)
+      presentValueRequest({ type: OBJECT_TYPE.ANALOG_INPUT, instance: 96 }), // Humidity
+      presentValueRequest(BACNET_OBJECTS.humiditySetpointPresent),
+      ...ROOM_HUMIDITY_SENSORS.map((sensor) => presentValueRequest(ROOM_HUMIDITY_OBJECTS[sensor])),
+      ...RF_DEVICE_STATE_OBJECTS.map((objectId) => presentValueRequest(objectId)),
+      presentValueRequest({ type: OBJECT_TYPE.ANALOG_VALUE, instance: 194 }), // Heater Power
+      presentValueRequest(BACNET_OBJECTS.heatingCoilEnable), // Heating coil enable
+
+      // Fan capabilities
+      presentValueRequest({ type: OBJECT_TYPE.ANALOG_INPUT, instance: 5 }), // Fan RPM Supply
+      presentValueRequest({ type: OBJECT_TYPE.ANALOG_INPUT, instance: 12 }), // Fan RPM Extract
+      presentValueRequest({ type: OBJECT_TYPE.ANALOG_OUTPUT, instance: 3 }), // Fan Speed % Supply
+      presentValueRequest({ type: OBJECT_TYPE.ANALOG_OUTPUT, instance: 4 }), // Fan Speed % Extract
+      presentValueRequest(BACNET_OBJECTS.dehumidificationFanControl),
+      presentValueRequest(BACNET_OBJECTS.dehumidificationSlopeRequest),
+
+      // Rotary heat exchanger
+      presentValueRequest(BACNET_OBJECTS.heatExchangerSpeed),
+      presentValueRequest(BACNET_OBJECTS.heatExchangerEfficiency),
+      presentValueRequest(BACNET_OBJECTS.heatExchangerSpeedFeedback),
+      presentValueRequest(BACNET_OBJECTS.heatExchangerMotorStuck),
+      presentValueRequest(BACNET_OBJECTS.heatExchangerBeltBroken),
+      presentValueRequest(BACNET_OBJECTS.heatExchangerMotorFailureCount),
+
+      // Fan inlet and duct pressures
+      ...AIR_PRESSURE_SENSORS.map((sensor) => presentValueRequest(AIR_PRESSURE_OBJECTS[sensor])),
+
+      // Mode / comfort
+      presentValueRequest(BACNET_OBJECTS.comfortButton),
+      presentValueRequest(BACNET_OBJECTS.actualVentilationMode),
+      presentValueRequest(BACNET_OBJECTS.ventilationMode),
+      presentValueRequest(BACNET_OBJECTS.operationMode),
+      presentValueRequest(BACNET_OBJECTS.rapidVentilationTrigger),
+      presentValueRequest(BACNET_OBJECTS.fireplaceVentilationTrigger),
+      presentValueRequest({ type: OBJECT_TYPE.BINARY_VALUE, instance: 15 }), // Rapid ventilation active
+      presentValueRequest(BACNET_OBJECTS.fireplaceState),
+      presentValueRequest(BACNET_OBJECTS.rapidVentilationRemaining),
+      presentValueRequest(BACNET_OBJECTS.fireplaceVentilationRemaining),
+      presentValueRequest({ type: OBJECT_TYPE.ANALOG_VALUE, instance: 2005 }), // Remaining temp vent op
+      presentValueRequest({ type: OBJECT_TYPE.ANALOG_VALUE, instance: 2125 }), // Operating mode input from RF
+      presentValueRequest({ type: OBJECT_TYPE.BINARY_VALUE, instance: 574 }), // Delay for away active
+
+      // Alarms
+      presentValueRequest(BACNET_OBJECTS.presentAlarmCodeA),
+      presentValueRequest(BACNET_OBJECTS.presentAlarmCodeB),
+      presentValueRequest(BACNET_OBJECTS.alarmCount),
+    ],
+    settings: [
+      ...NEUTRAL_ZONE_KINDS.flatMap((kind) => NEUTRAL_ZONE_MODES.map(
+        (mode) => presentValueRequest(NEUTRAL_ZONE_OBJECTS[kind][mode]),
+      )), // Heating/cooling neutral zones HOME/AWAY
+      presentValueRequest(HUMIDITY_SETPOINT_OBJECTS.home), // Humidity setpoint HOME
+      presentValueRequest(HUMIDITY_SETPOINT_OBJECTS.away), // Humidity setpoint AWAY
+      presentValueRequest(HUMIDITY_SETPOINT_OBJECTS.high), // Humidity setpoint HIGH
+      presentValueRequest(BACNET_OBJECTS.humidityLimitMax),
+      presentValueRequest(BACNET_OBJECTS.freeCoolingEnabled),
+      presentValueRequest(BACNET_OBJECTS.freeCoolingTemperatureSetpoint),
+      presentValueRequest(BACNET_OBJECTS.freeCoolingOutsideTemperatureLimit),
+      presentValueRequest(BACNET_OBJECTS.freeCoolingMinOnTime),
+      presentValueRequest(BACNET_OBJECTS.heatExchangerDeicingSpeed),
+      presentValueRequest(FAN_PROFILE_OBJECTS.home.supply), // Setpoint supply HOME
+      presentValueRequest(FAN_PROFILE_OBJECTS.home.exhaust), // Setpoint exhaust HOME
+      presentValueRequest(FAN_PROFILE_OBJECTS.away.supply), // Setpoint supply AWAY
+      presentValueRequest(FAN_PROFILE_OBJECTS.away.exhaust), // Setpoint exhaust AWAY
+      presentValueRequest(FAN_PROFILE_OBJECTS.high.supply), // Setpoint supply HIGH
+      presentValueRequest(FAN_PROFILE_OBJECTS.high.exhaust), // Setpoint exhaust HIGH
+      presentValueRequest(FAN_PROFILE_OBJECTS.fireplace.supply), // Setpoint supply FIREPLACE
+      presentValueRequest(FAN_PROFILE_OBJECTS.fireplace.exhaust), // Setpoint exhaust FIREPLACE
+      presentValueRequest(FAN_PROFILE_OBJECTS.cooker.supply), // Setpoint supply COOKER
+      presentValueRequest(FAN_PROFILE_OBJECTS.cooker.exhaust), // Setpoint exhaust COOKER
+      presentValueRequest({ type: OBJECT_TYPE.ANALOG_VALUE, instance: 286 }), // Filter Limit
+      presentValueRequest(BACNET_OBJECTS.comfortButtonDelay),
+      presentValueRequest(BACNET_OBJECTS.rapidVentilationRuntime),
+      presentValueRequest(BACNET_OBJECTS.fireplaceVentilationRuntime),
+    ],
+    counters: [
+      presentValueRequest({ type: OBJECT_TYPE.ANALOG_VALUE, instance: 285 }), // Filter Time
+      ...OPERATING_HOUR_COUNTERS.map((counter) => presentValueRequest(OPERATING_HOUR_OBJECTS[counter])),
+    ],
+  };
 }
 
 const POLL_VALUE_MAPPINGS: Record<string, (value: number, target: PollParseTarget) => void> = {
@@ -796,6 +1432,10 @@ const POLL_VALUE_MAPPINGS: Record<string, (value: number, target: PollParseTarge
     TARGET_TEMPERATURE_OBJECTS.away.type,
     TARGET_TEMPERATURE_OBJECTS.away.instance,
   )]: mapPollValue(TARGET_TEMPERATURE_DATA_KEYS.away),
+  ...Object.fromEntries(NEUTRAL_ZONE_KINDS.flatMap((kind) => NEUTRAL_ZONE_MODES.map((mode) => [
+    objectKey(NEUTRAL_ZONE_OBJECTS[kind][mode].type, NEUTRAL_ZONE_OBJECTS[kind][mode].instance),
+    mapPollValue(neutralZoneDataKey(kind, mode)),
+  ]))),
   [objectKey(OBJECT_TYPE.ANALOG_INPUT, 4)]: mapPollValue('measure_temperature'),
   [objectKey(OBJECT_TYPE.ANALOG_INPUT, 1)]: mapPollValue('measure_temperature.outdoor'),
   [objectKey(OBJECT_TYPE.ANALOG_INPUT, 11)]: mapPollValue('measure_temperature.exhaust'),
@@ -812,6 +1452,30 @@ const POLL_VALUE_MAPPINGS: Record<string, (value: number, target: PollParseTarge
     target.extractTempAlt = value;
   },
   [objectKey(OBJECT_TYPE.ANALOG_INPUT, 96)]: mapPollValue('measure_humidity'),
+  ...Object.fromEntries(HUMIDITY_SETPOINT_MODES.map((mode) => [
+    objectKey(HUMIDITY_SETPOINT_OBJECTS[mode].type, HUMIDITY_SETPOINT_OBJECTS[mode].instance),
+    mapPollValue(HUMIDITY_SETPOINT_DATA_KEYS[mode]),
+  ])),
+  [objectKey(
+    BACNET_OBJECTS.humiditySetpointPresent.type,
+    BACNET_OBJECTS.humiditySetpointPresent.instance,
+  )]: mapPollValue('humidity_setpoint_present'),
+  [objectKey(
+    BACNET_OBJECTS.humidityLimitMax.type,
+    BACNET_OBJECTS.humidityLimitMax.instance,
+  )]: mapPollValue('humidity_limit_max'),
+  ...Object.fromEntries(ROOM_HUMIDITY_SENSORS.map((sensor) => [
+    objectKey(ROOM_HUMIDITY_OBJECTS[sensor].type, ROOM_HUMIDITY_OBJECTS[sensor].instance),
+    mapPollValue(roomHumidityDataKey(sensor)),
+  ])),
+  ...Object.fromEntries(AIR_PRESSURE_SENSORS.map((sensor) => [
+    objectKey(AIR_PRESSURE_OBJECTS[sensor].type, AIR_PRESSURE_OBJECTS[sensor].instance),
+    mapPollValue(airPressureDataKey(sensor)),
+  ])),
+  ...Object.fromEntries(RF_DEVICE_STATE_OBJECTS.map((objectId, index) => [
+    objectKey(objectId.type, objectId.instance),
+    mapPollValue(rfDeviceStateDataKey(index)),
+  ])),
   [objectKey(OBJECT_TYPE.ANALOG_VALUE, 194)]: mapPollValue(
     'measure_power',
     (value) => value * 1000,
@@ -827,6 +1491,34 @@ const POLL_VALUE_MAPPINGS: Record<string, (value: number, target: PollParseTarge
   [FREE_COOLING_TEMPERATURE_SETPOINT_KEY]: mapPollValue('free_cooling_temperature_setpoint'),
   [FREE_COOLING_OUTSIDE_TEMPERATURE_LIMIT_KEY]: mapPollValue('free_cooling_outside_temperature_limit'),
   [FREE_COOLING_MIN_ON_TIME_KEY]: mapPollValue('free_cooling_min_on_time_seconds'),
+  [objectKey(
+    BACNET_OBJECTS.heatExchangerSpeed.type,
+    BACNET_OBJECTS.heatExchangerSpeed.instance,
+  )]: mapPollValue('measure_rotor_speed_percent'),
+  [objectKey(
+    BACNET_OBJECTS.heatExchangerEfficiency.type,
+    BACNET_OBJECTS.heatExchangerEfficiency.instance,
+  )]: mapPollValue('measure_heat_exchanger_efficiency'),
+  [objectKey(
+    BACNET_OBJECTS.heatExchangerSpeedFeedback.type,
+    BACNET_OBJECTS.heatExchangerSpeedFeedback.instance,
+  )]: mapPollValue('heat_exchanger_speed_feedback'),
+  [objectKey(
+    BACNET_OBJECTS.heatExchangerMotorFailureCount.type,
+    BACNET_OBJECTS.heatExchangerMotorFailureCount.instance,
+  )]: mapPollValue(HEAT_EXCHANGER_MOTOR_FAILURES_DATA_KEY),
+  [objectKey(
+    BACNET_OBJECTS.heatExchangerMotorStuck.type,
+    BACNET_OBJECTS.heatExchangerMotorStuck.instance,
+  )]: mapPollValue(HEAT_EXCHANGER_ALARM_DATA_KEYS.motor_stuck),
+  [objectKey(
+    BACNET_OBJECTS.heatExchangerBeltBroken.type,
+    BACNET_OBJECTS.heatExchangerBeltBroken.instance,
+  )]: mapPollValue(HEAT_EXCHANGER_ALARM_DATA_KEYS.belt_broken),
+  [objectKey(
+    BACNET_OBJECTS.heatExchangerDeicingSpeed.type,
+    BACNET_OBJECTS.heatExchangerDeicingSpeed.instance,
+  )]: mapPollValue('heat_exchanger_deicing_speed'),
   [objectKey(
     FAN_PROFILE_OBJECTS.home.supply.type,
     FAN_PROFILE_OBJECTS.home.supply.instance,
@@ -878,6 +1570,7 @@ const POLL_VALUE_MAPPINGS: Record<string, (value: number, target: PollParseTarge
     BACNET_OBJECTS.fireplaceVentilationRuntime.type,
     BACNET_OBJECTS.fireplaceVentilationRuntime.instance,
   )]: mapPollValue(FIREPLACE_DURATION_DATA_KEY),
+  [RAPID_RUNTIME_KEY]: mapPollValue(RAPID_DURATION_DATA_KEY),
   [objectKey(OBJECT_TYPE.BINARY_VALUE, 15)]: mapPollValue('rapid_active'),
   [objectKey(OBJECT_TYPE.BINARY_VALUE, 400)]: mapPollValue('fireplace_active'),
   [objectKey(OBJECT_TYPE.BINARY_VALUE, 574)]: mapPollValue('away_delay_active'),
@@ -885,9 +1578,122 @@ const POLL_VALUE_MAPPINGS: Record<string, (value: number, target: PollParseTarge
   [objectKey(OBJECT_TYPE.ANALOG_VALUE, 2031)]: mapPollValue('remaining_rapid_vent'),
   [objectKey(OBJECT_TYPE.ANALOG_VALUE, 2038)]: mapPollValue('remaining_fireplace_vent'),
   [objectKey(OBJECT_TYPE.ANALOG_VALUE, 2125)]: mapPollValue('mode_rf_input'),
+  [objectKey(
+    BACNET_OBJECTS.presentAlarmCodeA.type,
+    BACNET_OBJECTS.presentAlarmCodeA.instance,
+  )]: mapPollValue(ALARM_DATA_KEYS.A, normalizeAlarmCode),
+  [objectKey(
+    BACNET_OBJECTS.presentAlarmCodeB.type,
+    BACNET_OBJECTS.presentAlarmCodeB.instance,
+  )]: mapPollValue(ALARM_DATA_KEYS.B, normalizeAlarmCode),
+  [objectKey(BACNET_OBJECTS.alarmCount.type, BACNET_OBJECTS.alarmCount.instance)]: mapPollValue(ALARM_COUNT_DATA_KEY),
+  ...Object.fromEntries(OPERATING_HOUR_COUNTERS.map((counter) => [
+    objectKey(OPERATING_HOUR_OBJECTS[counter].type, OPERATING_HOUR_OBJECTS[counter].instance),
+    mapPollValue(operatingHoursDataKey(counter)),
+  ])),
 };
 
-const POLL_REQUEST = buildPollRequest();
+function readAlarmCount(data: Record<string, number>): number | undefined {
+  const value = data[ALARM_COUNT_DATA_KEY];
+  return value === undefined ? undefined : normalizeAlarmCode(value);
+}
+
+// Operating-hour counters are only part of the poll data when the counters tier was read.
+function readOperatingHoursData(data: Record<string, number>): OperatingHours {
+  const hours: OperatingHours = {};
+  for (const counter of OPERATING_HOUR_COUNTERS) {
+    const value = data[operatingHoursDataKey(counter)];
+    if (value !== undefined) hours[counter] = value;
+  }
+  return hours;
+}
+
+const POLL_TIER_REQUESTS = buildPollTiers();
+const POLL_REQUEST = POLL_TIERS.flatMap((tier) => POLL_TIER_REQUESTS[tier]);
+const POLL_TIER_BY_KEY = new Map<string, PollTier>(POLL_TIERS.flatMap((tier) => POLL_TIER_REQUESTS[tier].map(
+  ({ objectId }) => [objectKey(objectId.type, objectId.instance), tier] as const,
+)));
+// Writable points the poll reads; a change nobody in the app asked for is journaled as external.
+const JOURNALED_OBSERVED_KEYS = new Set(
+  Array.from(POLL_TIER_BY_KEY.keys()).filter((key) => getCatalogPoint(key)?.access === 'RW'),
+);
+
+interface PollPlan {
+  tiers: readonly PollTier[];
+  startedAt: number;
+}
+
+function pollRequestForTiers(tiers: readonly PollTier[]): PollObjectRequest[] {
+  return tiers.flatMap((tier) => POLL_TIER_REQUESTS[tier]);
+}
+
+function cloudPollPaths(unit: UnitState, tiers: readonly PollTier[]): string[] {
+  return pollRequestForTiers(tiers)
+    .map(({ objectId }) => bacnetObjectToCloudPath(objectId.type, objectId.instance))
+    .filter((path) => !unit.unsupportedCloudPollPaths.has(path));
+}
+
+// Objects the BACnet transport subscribes to with SubscribeCOV: mode signals,
+// setpoints and sensors. Everything else is left to the fallback poll.
+function buildCovObjects() {
+  return [
+    // Mode signals
+    BACNET_OBJECTS.comfortButton,
+    BACNET_OBJECTS.ventilationMode,
+    BACNET_OBJECTS.operationMode,
+    BACNET_OBJECTS.actualVentilationMode,
+    { type: OBJECT_TYPE.BINARY_VALUE, instance: 15 }, // Rapid ventilation active
+    BACNET_OBJECTS.fireplaceState,
+    BACNET_OBJECTS.rapidVentilationRemaining,
+    BACNET_OBJECTS.fireplaceVentilationRemaining,
+    { type: OBJECT_TYPE.ANALOG_VALUE, instance: 2005 }, // Remaining temp vent op
+    { type: OBJECT_TYPE.ANALOG_VALUE, instance: 2125 }, // Operating mode input from RF
+    { type: OBJECT_TYPE.BINARY_VALUE, instance: 574 }, // Delay for away active
+
+    // Setpoints
+    TARGET_TEMPERATURE_OBJECTS.home,
+    TARGET_TEMPERATURE_OBJECTS.away,
+    ...NEUTRAL_ZONE_KINDS.flatMap((kind) => NEUTRAL_ZONE_MODES.map((mode) => NEUTRAL_ZONE_OBJECTS[kind][mode])),
+    ...HUMIDITY_SETPOINT_MODES.map((mode) => HUMIDITY_SETPOINT_OBJECTS[mode]),
+    BACNET_OBJECTS.humiditySetpointPresent,
+    ...FAN_PROFILE_MODES.flatMap((mode) => [
+      FAN_PROFILE_OBJECTS[mode].supply,
+      FAN_PROFILE_OBJECTS[mode].exhaust,
+    ]),
+
+    // Sensors
+    { type: OBJECT_TYPE.ANALOG_INPUT, instance: 4 }, // Supply Temp
+    { type: OBJECT_TYPE.ANALOG_INPUT, instance: 1 }, // Outdoor Temp
+    { type: OBJECT_TYPE.ANALOG_INPUT, instance: 11 }, // Exhaust Temp
+    { type: OBJECT_TYPE.ANALOG_INPUT, instance: EXTRACT_AIR_TEMPERATURE_PRIMARY_INSTANCE },
+    { type: OBJECT_TYPE.ANALOG_INPUT, instance: EXTRACT_AIR_TEMPERATURE_ALT_INSTANCE },
+    { type: OBJECT_TYPE.ANALOG_INPUT, instance: 96 }, // Humidity
+    { type: OBJECT_TYPE.ANALOG_VALUE, instance: 194 }, // Heater Power
+    { type: OBJECT_TYPE.ANALOG_INPUT, instance: 5 }, // Fan RPM Supply
+    { type: OBJECT_TYPE.ANALOG_INPUT, instance: 12 }, // Fan RPM Extract
+    { type: OBJECT_TYPE.ANALOG_OUTPUT, instance: 3 }, // Fan Speed % Supply
+    { type: OBJECT_TYPE.ANALOG_OUTPUT, instance: 4 }, // Fan Speed % Extract
+
+    // Alarms
+    BACNET_OBJECTS.presentAlarmCodeA,
+    BACNET_OBJECTS.presentAlarmCodeB,
+    BACNET_OBJECTS.alarmCount,
+    BACNET_OBJECTS.heatExchangerMotorStuck,
+    BACNET_OBJECTS.heatExchangerBeltBroken,
+  ];
+}
+
+const COV_OBJECTS = buildCovObjects();
+
+/**
+ * Every point the registry reads, for checking against the point catalog. Written points are
+ * checked from the writes the registry actually sends to the fake unit.
+ */
+export const REGISTRY_POINT_USAGES: readonly CatalogPointUsage[] = [
+  ...POLL_REQUEST.map(({ objectId }) => ({ ...objectId, write: false })),
+  ...COV_OBJECTS.map((objectId) => ({ ...objectId, write: false })),
+  ...Object.values(BACNET_OBJECTS).map((objectId) => ({ ...objectId, write: false })),
+];
 
 export class UnitRegistry {
     private units: Map<string, UnitState> = new Map();
@@ -900,10 +1706,18 @@ export class UnitRegistry {
     private dehumidificationStateChangedHandler?: (event: DehumidificationStateChangedEvent) => void;
     private freeCoolingStateChangedHandler?: (event: FreeCoolingStateChangedEvent) => void;
     private heatingCoilStateChangedHandler?: (event: HeatingCoilStateChangedEvent) => void;
+    private alarmStateChangedHandler?: (event: AlarmStateChangedEvent) => void;
+    private roomHumidityChangedHandler?: (event: RoomHumidityChangedEvent) => void;
+    private airflowChangedHandler?: (event: AirflowChangedEvent) => void;
+    private timedModeEndedHandler?: (event: TimedModeEndedEvent) => void;
+    private heatExchangerFaultHandler?: (event: HeatExchangerFaultEvent) => void;
+    private nextCovSubscriberProcessId = 1;
+    private covListeners: Map<any, { confirmed: (event: any) => void; unconfirmed: (event: any) => void }> = new Map();
 
     constructor(dependencies?: Partial<RegistryDependencies>) {
       this.dependencies = {
         getBacnetClient,
+        setForeignDeviceRegistration,
         discoverFlexitUnits,
         ...dependencies,
       };
@@ -940,6 +1754,26 @@ export class UnitRegistry {
       this.heatingCoilStateChangedHandler = handler;
     }
 
+    setAlarmStateChangedHandler(handler?: (event: AlarmStateChangedEvent) => void) {
+      this.alarmStateChangedHandler = handler;
+    }
+
+    setRoomHumidityChangedHandler(handler?: (event: RoomHumidityChangedEvent) => void) {
+      this.roomHumidityChangedHandler = handler;
+    }
+
+    setAirflowChangedHandler(handler?: (event: AirflowChangedEvent) => void) {
+      this.airflowChangedHandler = handler;
+    }
+
+    setTimedModeEndedHandler(handler?: (event: TimedModeEndedEvent) => void) {
+      this.timedModeEndedHandler = handler;
+    }
+
+    setHeatExchangerFaultHandler(handler?: (event: HeatExchangerFaultEvent) => void) {
+      this.heatExchangerFaultHandler = handler;
+    }
+
     private syncBacnetLogger() {
       const logger = this.getLogger();
       if (typeof setBacnetLogger === 'function' && logger) {
@@ -1061,7 +1895,9 @@ export class UnitRegistry {
         unit = {
           unitId,
           serial,
+          discoverySerial: unitId,
           transport: 'bacnet' as const,
+          cloudFailover: false,
           unsupportedCloudPollPaths: new Set(),
           devices: new Set(),
           pollInterval: null,
@@ -1076,6 +1912,8 @@ export class UnitRegistry {
           pendingWriteErrors: new Map(),
           lastWriteValues: new Map(),
           lastPollAt: undefined,
+          pollTierReadAt: {},
+          pollTierWrittenAt: {},
           writeContext: new Map(),
           deferredMode: undefined,
           deferredSince: undefined,
@@ -1093,6 +1931,25 @@ export class UnitRegistry {
           freeCoolingStateInitialized: false,
           heatingCoilEnabled: undefined,
           heatingCoilStateInitialized: false,
+          alarmCodes: {},
+          roomHumiditySensors: new Set(),
+          heatExchangerAlarms: {},
+          heatRecoverySamples: [],
+          offlineWrites: [],
+          offlineWriteReplaying: false,
+          liveWriteKeysDuringReplay: new Set(),
+          writeJournal: [],
+          roomHumidity: {},
+          airPressureSensors: new Set(),
+          airflow: {},
+          timedModeSeen: false,
+          scheduleSettingsReadInFlight: false,
+          observedData: {},
+          covSubscriberProcessId: this.nextCovSubscriberProcessId++,
+          covSubscribedKeys: new Set(),
+          covSubscribing: false,
+          covRenewInterval: null,
+          covGeneration: 0,
         };
         this.units.set(unitId, unit);
         this.getLogger()?.info('registry.unit.registered', 'Registered BACnet unit with registry', {
@@ -1102,12 +1959,17 @@ export class UnitRegistry {
           bacnetPort,
           serial,
         });
+        unit.foreignDevice = this.readForeignDeviceRegistration(unit, device);
+        this.syncForeignDeviceRegistration(bacnetPort);
 
-        // Start polling immediately
+        // Start polling immediately; the interval slows down once COV subscriptions are accepted.
         this.pollUnit(unitId);
         unit.pollInterval = setInterval(() => this.pollUnit(unitId, true), POLL_INTERVAL_MS);
+        this.startCovSubscriptions(unit);
       }
       unit.devices.add(device);
+      this.restoreOfflineWrites(unit, device);
+      this.restoreWriteJournal(unit, device);
       if (!this.logger) this.syncBacnetLogger();
     }
 
@@ -1136,8 +1998,10 @@ export class UnitRegistry {
         unit = {
           unitId,
           serial: '',
+          discoverySerial: '',
           transport: 'cloud' as const,
           cloud: config,
+          cloudFailover: false,
           unsupportedCloudPollPaths: new Set(),
           devices: new Set(),
           pollInterval: null,
@@ -1152,6 +2016,8 @@ export class UnitRegistry {
           pendingWriteErrors: new Map(),
           lastWriteValues: new Map(),
           lastPollAt: undefined,
+          pollTierReadAt: {},
+          pollTierWrittenAt: {},
           writeContext: new Map(),
           deferredMode: undefined,
           deferredSince: undefined,
@@ -1169,6 +2035,25 @@ export class UnitRegistry {
           freeCoolingStateInitialized: false,
           heatingCoilEnabled: undefined,
           heatingCoilStateInitialized: false,
+          alarmCodes: {},
+          roomHumiditySensors: new Set(),
+          heatExchangerAlarms: {},
+          heatRecoverySamples: [],
+          offlineWrites: [],
+          offlineWriteReplaying: false,
+          liveWriteKeysDuringReplay: new Set(),
+          writeJournal: [],
+          roomHumidity: {},
+          airPressureSensors: new Set(),
+          airflow: {},
+          timedModeSeen: false,
+          scheduleSettingsReadInFlight: false,
+          observedData: {},
+          covSubscriberProcessId: 0,
+          covSubscribedKeys: new Set(),
+          covSubscribing: false,
+          covRenewInterval: null,
+          covGeneration: 0,
         };
         this.units.set(unitId, unit);
         this.getLogger()?.info('registry.unit.registered', 'Registered cloud unit with registry', {
@@ -1180,6 +2065,8 @@ export class UnitRegistry {
         this.startCloudPolling(unit);
       }
       unit.devices.add(device);
+      this.restoreOfflineWrites(unit, device);
+      this.restoreWriteJournal(unit, device);
       return unit.cloud!.client;
     }
 
@@ -1217,65 +2104,271 @@ export class UnitRegistry {
       }
     }
 
-    private startCloudPolling(unit: UnitState) {
-      const { unitId } = unit;
-      this.getLogger()?.info('registry.cloud_polling.started', 'Started cloud polling loop', {
-        unitId,
-        plantId: unit.cloud?.plantId,
-        intervalMs: CLOUD_POLL_INTERVAL_MS,
-      });
-      this.cloudPollUnit(unit).catch((err) => {
-        this.log(`[UnitRegistry] Cloud poll failed for ${unitId}:`, err);
-      });
-      unit.pollInterval = setInterval(() => {
-        this.cloudPollUnit(unit).catch((err) => {
-          this.log(`[UnitRegistry] Cloud poll failed for ${unitId}:`, err);
+    /**
+     * Applies changed BBMD settings for a unit. The shared client for the unit's
+     * BACnet port registers as a foreign device with the BBMD, or stops registering.
+     */
+    setForeignDeviceRegistration(unitId: string, registration: ForeignDeviceRegistration | undefined) {
+      const unit = this.units.get(unitId);
+      if (!unit) throw new Error('Unit not found');
+      unit.foreignDevice = registration;
+      this.syncForeignDeviceRegistration(unit.bacnetPort);
+    }
+
+    private readForeignDeviceRegistration(unit: UnitState, device: FlexitDevice) {
+      try {
+        return parseForeignDeviceRegistration(
+          device.getSetting(BBMD_ADDRESS_SETTING),
+          device.getSetting(BBMD_TTL_SETTING),
+        );
+      } catch (err) {
+        this.getLogger()?.error('registry.bbmd.invalid', 'Ignoring invalid BBMD setting', err, {
+          unitId: unit.unitId,
         });
-      }, CLOUD_POLL_INTERVAL_MS);
+        return undefined;
+      }
     }
 
-    unregister(unitId: string, device: FlexitDevice) {
+    // Units share one client per BACnet port, so the first unit with a BBMD decides the registration.
+    private syncForeignDeviceRegistration(bacnetPort: number) {
+      const registrations = Array.from(this.units.values())
+        .filter((unit) => unit.bacnetPort === bacnetPort && unit.foreignDevice)
+        .map((unit) => ({ unitId: unit.unitId, registration: unit.foreignDevice! }));
+      const selected = registrations[0];
+      const conflicting = registrations.filter(
+        (entry) => !sameForeignDeviceRegistration(entry.registration, selected?.registration),
+      );
+      if (conflicting.length > 0) {
+        this.getLogger()?.error(
+          'registry.bbmd.conflict',
+          'Units on the same BACnet port use different BBMD settings; using those of the first unit',
+          undefined,
+          {
+            bacnetPort,
+            unitId: selected.unitId,
+            bbmdAddress: selected.registration.bbmdAddress,
+            ignoredUnitIds: conflicting.map((entry) => entry.unitId).join(','),
+          },
+        );
+      }
+      this.dependencies.setForeignDeviceRegistration(bacnetPort, selected?.registration);
+    }
+
+    linkCloudFailover(unitId: string, config: CloudTransportConfig) {
       const unit = this.units.get(unitId);
-      if (unit) {
-        unit.devices.delete(device);
-        if (unit.devices.size === 0) {
-          if (unit.pollInterval) clearInterval(unit.pollInterval);
-          if (unit.rediscoverInterval) clearInterval(unit.rediscoverInterval);
-          this.cancelInFlightPoll(unit);
-          if (unit.transport === 'cloud' && unit.cloud) {
-            unit.cloud.client.destroy();
-          }
-          this.units.delete(unitId);
-          if (this.fallbackLoggerDevice === device) {
-            this.fallbackLogger = undefined;
-            this.fallbackLoggerDevice = undefined;
-          }
-          this.getLogger()?.info(
-            'registry.unit.unregistered',
-            'Removed unit from registry after last device was deleted',
-            {
-              unitId,
-              transport: unit.transport,
-            },
-          );
-        }
+      if (!unit || (unit.transport === 'cloud' && !unit.cloudFailover)) {
+        config.client.destroy();
+        throw new Error(`Unit ${unitId} is not a registered BACnet unit — cannot link cloud failover`);
+      }
+      if (unit.cloud && unit.cloud.client !== config.client) unit.cloud.client.destroy();
+      unit.cloud = config;
+      unit.cloudFailover = true;
+      this.getLogger()?.info('registry.cloud_failover.linked', 'Linked cloud credentials for BACnet failover', {
+        unitId,
+        plantId: config.plantId,
+        transport: unit.transport,
+      });
+
+      if (unit.transport === 'bacnet' && !unit.available) {
+        this.switchTransport(unit, 'cloud');
+      } else if (unit.transport === 'cloud' && !unit.pollInterval) {
+        this.startCloudPolling(unit);
       }
     }
 
+    getActiveTransport(unitId: string): UnitTransport | undefined {
+      return this.units.get(unitId)?.transport;
+    }
+
     /**
-     * Tear down all units — clears all intervals.
-     * Used for testing and app shutdown.
+     * Finds a cloud-paired unit on the LAN by matching its plant serial number
+     * against the BACnet discovery replies.
      */
-    destroy() {
-      for (const unit of this.units.values()) {
-        if (unit.pollInterval) clearInterval(unit.pollInterval);
-        if (unit.rediscoverInterval) clearInterval(unit.rediscoverInterval);
-        this.cancelInFlightPoll(unit);
-        if (unit.transport === 'cloud' && unit.cloud) {
-          unit.cloud.client.destroy();
+    async discoverCloudUnitEndpoint(unitId: string): Promise<BacnetEndpoint> {
+      const unit = this.units.get(unitId);
+      if (!unit?.cloud) throw new Error(`Unit ${unitId} is not a registered cloud unit`);
+
+      const { plantId } = unit.cloud;
+      const plants = await unit.cloud.client.findPlants();
+      const plant = plants.find((candidate) => candidate.id === plantId);
+      const plantSerial = String(plant?.serialNumber || '').replace(/[^0-9]/g, '');
+      if (!plantSerial) {
+        throw new Error('The Flexit Cloud plant has no serial number to match on the local network.');
+      }
+
+      const found = await this.dependencies.discoverFlexitUnits({
+        timeoutMs: 5000,
+        burstCount: 3,
+        burstIntervalMs: 300,
+        strategies: ['multicast', 'bacnet'],
+      });
+      const match = found.find((candidate) => candidate.serialNormalized === plantSerial);
+      const ip = String(match?.ip || '').trim();
+      const bacnetPort = normalizeBacnetPort(match?.bacnetPort);
+      if (!match || !ip || bacnetPort === undefined) {
+        this.getLogger()?.error('registry.migration.unit_not_found', 'Cloud unit was not found on the LAN', undefined, {
+          unitId,
+          plantId,
+          plantSerial,
+          discoveredSerials: found.map((candidate) => candidate.serialNormalized),
+        });
+        throw new Error('The unit was not found on the local network. Make sure Homey and the unit share a network.');
+      }
+      return { serial: match.serial, ip, bacnetPort };
+    }
+
+    /**
+     * Moves a cloud-paired unit to BACnet in place, keeping its devices. The cloud
+     * connection stays linked as failover while the unit is unreachable on the LAN.
+     */
+    migrateToBacnet(unitId: string, endpoint: BacnetEndpoint) {
+      const unit = this.units.get(unitId);
+      if (!unit?.cloud) throw new Error(`Unit ${unitId} is not a registered cloud unit`);
+
+      unit.serial = endpoint.serial;
+      unit.discoverySerial = endpoint.serial.replace(/[^0-9]/g, '');
+      unit.ip = endpoint.ip;
+      unit.bacnetPort = endpoint.bacnetPort;
+      unit.cloudFailover = true;
+      if (!unit.covSubscriberProcessId) unit.covSubscriberProcessId = this.nextCovSubscriberProcessId++;
+      this.getLogger()?.info('registry.migration.bacnet', 'Migrated cloud unit to BACnet transport', {
+        unitId,
+        plantId: unit.cloud.plantId,
+        ip: endpoint.ip,
+        bacnetPort: endpoint.bacnetPort,
+        serial: endpoint.serial,
+      });
+      for (const device of unit.devices) {
+        this.updateDeviceSettings(device, {
+          serial: endpoint.serial,
+          [BACNET_IP_SETTING]: endpoint.ip,
+          [BACNET_PORT_SETTING]: String(endpoint.bacnetPort),
+        }).catch((err) => {
+          this.log(`[UnitRegistry] Failed to sync connection settings for ${unitId}:`, err);
+        });
+      }
+      if (unit.transport === 'cloud') this.switchTransport(unit, 'bacnet');
+    }
+
+    // Reverse of migrateToBacnet: drops the LAN path and keeps polling the cloud only.
+    migrateToCloud(unitId: string) {
+      const unit = this.units.get(unitId);
+      if (!unit?.cloud || !unit.cloudFailover) {
+        throw new Error(`Unit ${unitId} has no linked cloud connection to migrate to`);
+      }
+
+      unit.cloudFailover = false;
+      this.stopRediscovery(unit);
+      this.stopCovSubscriptions(unit, { cancel: true });
+      this.getLogger()?.info('registry.migration.cloud', 'Migrated unit to cloud transport', {
+        unitId,
+        plantId: unit.cloud.plantId,
+        transport: unit.transport,
+      });
+      if (unit.transport === 'bacnet') this.switchTransport(unit, 'cloud');
+    }
+
+    // Moves a failover-linked unit between the LAN and the cloud. Devices stay
+    // available across the switch; the new transport's first poll confirms it.
+    private switchTransport(unit: UnitState, transport: UnitTransport) {
+      const previous = unit.transport;
+      unit.transport = transport;
+      unit.consecutiveFailures = 0;
+      this.cancelInFlightPoll(unit);
+      if (unit.pollInterval) {
+        clearInterval(unit.pollInterval);
+        unit.pollInterval = null;
+      }
+      this.log(`[UnitRegistry] Unit ${unit.unitId} switched transport from ${previous} to ${transport}`);
+      this.getLogger()?.info('registry.transport.switched', 'Switched unit transport', {
+        unitId: unit.unitId,
+        from: previous,
+        to: transport,
+        ip: unit.ip,
+        plantId: unit.cloud?.plantId,
+      });
+      const label = unit.cloudFailover ? ACTIVE_TRANSPORT_LABELS[transport] : CLOUD_ONLY_TRANSPORT_LABEL;
+      for (const device of unit.devices) {
+        this.updateDeviceSettings(device, {
+          [ACTIVE_TRANSPORT_SETTING]: label,
+        }).catch((err) => {
+          this.log(`[UnitRegistry] Failed to report active transport for ${unit.unitId}:`, err);
+        });
+      }
+
+      if (transport === 'cloud') {
+        this.startCloudPolling(unit);
+        return;
+      }
+      this.stopRediscovery(unit);
+      this.pollUnit(unit.unitId);
+      unit.pollInterval = setInterval(() => this.pollUnit(unit.unitId, true), POLL_INTERVAL_MS);
+      if (unit.available) this.startCovSubscriptions(unit);
+    }
+
+    private startCloudPolling(unit: UnitState) {
+      const { unitId } = unit;
+      this.getLogger()?.info('registry.cloud_polling.started', 'Started cloud polling loop', {
+        unitId,
+        plantId: unit.cloud?.plantId,
+        intervalMs: CLOUD_POLL_INTERVAL_MS,
+      });
+      this.cloudPollUnit(unit).catch((err) => {
+        this.log(`[UnitRegistry] Cloud poll failed for ${unitId}:`, err);
+      });
+      unit.pollInterval = setInterval(() => {
+        this.cloudPollUnit(unit).catch((err) => {
+          this.log(`[UnitRegistry] Cloud poll failed for ${unitId}:`, err);
+        });
+      }, CLOUD_POLL_INTERVAL_MS);
+    }
+
+    unregister(unitId: string, device: FlexitDevice) {
+      const unit = this.units.get(unitId);
+      if (unit) {
+        unit.devices.delete(device);
+        if (unit.devices.size === 0) {
+          if (unit.pollInterval) clearInterval(unit.pollInterval);
+          if (unit.rediscoverInterval) clearInterval(unit.rediscoverInterval);
+          this.cancelInFlightPoll(unit);
+          this.stopCovSubscriptions(unit, { cancel: true });
+          if (unit.cloud) {
+            unit.cloud.client.destroy();
+          }
+          this.units.delete(unitId);
+          if (unit.foreignDevice) this.syncForeignDeviceRegistration(unit.bacnetPort);
+          if (this.fallbackLoggerDevice === device) {
+            this.fallbackLogger = undefined;
+            this.fallbackLoggerDevice = undefined;
+          }
+          this.getLogger()?.info(
+            'registry.unit.unregistered',
+            'Removed unit from registry after last device was deleted',
+            {
+              unitId,
+              transport: unit.transport,
+            },
+          );
+        }
+      }
+    }
+
+    /**
+     * Tear down all units — clears all intervals.
+     * Used for testing and app shutdown.
+     */
+    destroy() {
+      for (const unit of this.units.values()) {
+        if (unit.pollInterval) clearInterval(unit.pollInterval);
+        if (unit.rediscoverInterval) clearInterval(unit.rediscoverInterval);
+        this.cancelInFlightPoll(unit);
+        this.stopCovSubscriptions(unit, { cancel: true });
+        if (unit.cloud) {
+          unit.cloud.client.destroy();
         }
       }
       this.units.clear();
+      this.detachCovListeners();
     }
 
     private cancelInFlightPoll(unit: UnitState) {
@@ -1303,12 +2396,14 @@ export class UnitRegistry {
       if (!unit) throw new Error('Unit not found');
 
       const mode = this.resolveTargetTemperatureModeFromProbe(unit);
+      if (this.queueOfflineWrite(unit, { kind: 'temperature_setpoint', mode, setpoint })) return undefined;
       return this.writeTemperatureSetpoint(unit, mode, setpoint);
     }
 
     async setTemperatureSetpoint(unitId: string, mode: TargetTemperatureMode, setpoint: number) {
       const unit = this.units.get(unitId);
       if (!unit) throw new Error('Unit not found');
+      if (this.queueOfflineWrite(unit, { kind: 'temperature_setpoint', mode, setpoint })) return undefined;
       return this.writeTemperatureSetpoint(unit, mode, setpoint);
     }
 
@@ -1347,6 +2442,10 @@ export class UnitRegistry {
         `[UnitRegistry] Writing ${mode} setpoint ${normalizedSetpoint} to`
         + ` ${unit.unitId} (${unit.ip})`,
       );
+      const origin = resolveWriteJournalOrigin(getLogContext());
+      const record = (outcome: WriteJournalOutcome, error?: unknown) => this.recordWrite(unit, origin, {
+        objectId, value: normalizedSetpoint, priority: writeOptions.priority, outcome, error,
+      });
 
       await this.enqueueWrite(unit, async () => new Promise<void>((resolve, reject) => {
         let handled = false;
@@ -1354,6 +2453,7 @@ export class UnitRegistry {
           if (!handled) {
             handled = true;
             this.error(`[UnitRegistry] Timeout writing ${mode} setpoint to ${unit.unitId}`);
+            record('timeout');
             reject(new Error('Timeout'));
           }
         }, this.getWriteTimeoutMs());
@@ -1372,6 +2472,7 @@ export class UnitRegistry {
 
               if (err) {
                 this.error(`[UnitRegistry] Failed to write ${mode} setpoint to ${unit.unitId}:`, err);
+                record('failed', err);
                 reject(err);
                 return;
               }
@@ -1379,6 +2480,7 @@ export class UnitRegistry {
                 `[UnitRegistry] Successfully wrote ${mode} setpoint`
                 + ` ${normalizedSetpoint} to ${unit.unitId}`,
               );
+              record('ok');
               resolve();
             },
           );
@@ -1387,6 +2489,7 @@ export class UnitRegistry {
             handled = true;
             clearTimeout(tm);
             this.error(`[UnitRegistry] Sync error writing ${mode} setpoint to ${unit.unitId}:`, e);
+            record('failed', e);
             reject(e);
           }
         }
@@ -1398,6 +2501,7 @@ export class UnitRegistry {
       if (!unit) throw new Error('Unit not found');
 
       const expectedEnabled = Boolean(enabled);
+      if (this.queueOfflineWrite(unit, { kind: 'free_cooling_enabled', enabled: expectedEnabled })) return;
       const currentEnabled = resolveFreeCoolingEnabled(unit.probeValues.get(FREE_COOLING_ENABLED_KEY));
       if (currentEnabled === expectedEnabled) {
         this.log(
@@ -1420,6 +2524,9 @@ export class UnitRegistry {
       if (!unit) throw new Error('Unit not found');
 
       const normalizedValue = normalizeFreeCoolingTemperature(value);
+      if (this.queueOfflineWrite(unit, {
+        kind: 'free_cooling', setting: 'temperature_setpoint', value: normalizedValue,
+      })) return;
       const currentValue = unit.probeValues.get(FREE_COOLING_TEMPERATURE_SETPOINT_KEY);
       const normalizedCurrentValue = currentValue !== undefined
         ? tryNormalizeValue(currentValue, normalizeFreeCoolingTemperature)
@@ -1435,7 +2542,7 @@ export class UnitRegistry {
         return;
       }
 
-      await this.writeFreeCoolingNumericSetting(unit, {
+      await this.writeNumericSetting(unit, {
         objectId: BACNET_OBJECTS.freeCoolingTemperatureSetpoint,
         settingKey: FREE_COOLING_TEMPERATURE_SETPOINT_SETTING,
         expectedValue: normalizedValue,
@@ -1450,6 +2557,9 @@ export class UnitRegistry {
       if (!unit) throw new Error('Unit not found');
 
       const normalizedValue = normalizeFreeCoolingTemperature(value);
+      if (this.queueOfflineWrite(unit, {
+        kind: 'free_cooling', setting: 'outside_temperature_limit', value: normalizedValue,
+      })) return;
       const currentValue = unit.probeValues.get(FREE_COOLING_OUTSIDE_TEMPERATURE_LIMIT_KEY);
       const normalizedCurrentValue = currentValue !== undefined
         ? tryNormalizeValue(currentValue, normalizeFreeCoolingTemperature)
@@ -1465,7 +2575,7 @@ export class UnitRegistry {
         return;
       }
 
-      await this.writeFreeCoolingNumericSetting(unit, {
+      await this.writeNumericSetting(unit, {
         objectId: BACNET_OBJECTS.freeCoolingOutsideTemperatureLimit,
         settingKey: FREE_COOLING_OUTSIDE_TEMPERATURE_LIMIT_SETTING,
         expectedValue: normalizedValue,
@@ -1480,6 +2590,9 @@ export class UnitRegistry {
       if (!unit) throw new Error('Unit not found');
 
       const normalizedValue = normalizeFreeCoolingMinOnTimeSeconds(value);
+      if (this.queueOfflineWrite(unit, {
+        kind: 'free_cooling', setting: 'min_on_time', value: normalizedValue,
+      })) return;
       const currentValue = unit.probeValues.get(FREE_COOLING_MIN_ON_TIME_KEY);
       const normalizedCurrentValue = currentValue !== undefined
         ? tryNormalizeValue(currentValue, normalizeFreeCoolingMinOnTimeSeconds)
@@ -1495,7 +2608,7 @@ export class UnitRegistry {
         return;
       }
 
-      await this.writeFreeCoolingNumericSetting(
+      await this.writeNumericSetting(
         unit,
         {
           objectId: BACNET_OBJECTS.freeCoolingMinOnTime,
@@ -1508,6 +2621,75 @@ export class UnitRegistry {
       );
     }
 
+    async setHumiditySetpoint(unitId: string, mode: HumiditySetpointMode, value: number) {
+      const unit = this.units.get(unitId);
+      if (!unit) throw new Error('Unit not found');
+      if (!isHumiditySetpointMode(mode)) throw new Error(`Unsupported humidity setpoint mode '${mode}'.`);
+
+      const normalizedValue = normalizeHumiditySetpoint(value);
+      if (this.queueOfflineWrite(unit, { kind: 'humidity_setpoint', mode, value: normalizedValue })) return;
+      const objectId = HUMIDITY_SETPOINT_OBJECTS[mode];
+      const currentValue = unit.probeValues.get(objectKey(objectId.type, objectId.instance));
+      const normalizedCurrentValue = currentValue !== undefined
+        ? tryNormalizeValue(currentValue, normalizeHumiditySetpoint)
+        : undefined;
+      if (
+        normalizedCurrentValue !== undefined
+        && valuesMatch(normalizedCurrentValue, normalizedValue)
+      ) {
+        this.log(
+          `[UnitRegistry] Skipping ${mode} humidity setpoint write — already ${normalizedValue}`
+          + ` on ${unit.unitId}`,
+        );
+        return;
+      }
+
+      await this.writeNumericSetting(unit, {
+        objectId,
+        settingKey: HUMIDITY_SETPOINT_SETTING_KEYS[mode],
+        expectedValue: normalizedValue,
+        normalize: normalizeHumiditySetpoint,
+        tag: BacnetEnums.ApplicationTags.REAL,
+        label: `${mode} humidity setpoint`,
+      });
+    }
+
+    async setNeutralZone(unitId: string, kind: NeutralZoneKind, mode: NeutralZoneMode, value: number) {
+      const unit = this.units.get(unitId);
+      if (!unit) throw new Error('Unit not found');
+      if (!isNeutralZoneKind(kind)) throw new Error(`Unsupported neutral zone '${kind}'.`);
+      if (!isNeutralZoneMode(mode)) throw new Error(`Unsupported neutral zone mode '${mode}'.`);
+
+      const normalizedValue = normalizeNeutralZone(value);
+      if (this.queueOfflineWrite(unit, {
+        kind: 'neutral_zone', zone: kind, mode, value: normalizedValue,
+      })) return;
+      const objectId = NEUTRAL_ZONE_OBJECTS[kind][mode];
+      const currentValue = unit.probeValues.get(objectKey(objectId.type, objectId.instance));
+      const normalizedCurrentValue = currentValue !== undefined
+        ? tryNormalizeValue(currentValue, normalizeNeutralZone)
+        : undefined;
+      if (
+        normalizedCurrentValue !== undefined
+        && valuesMatch(normalizedCurrentValue, normalizedValue)
+      ) {
+        this.log(
+          `[UnitRegistry] Skipping ${mode} ${kind} neutral zone write — already ${normalizedValue}`
+          + ` on ${unit.unitId}`,
+        );
+        return;
+      }
+
+      await this.writeNumericSetting(unit, {
+        objectId,
+        settingKey: NEUTRAL_ZONE_SETTING_KEYS[kind][mode],
+        expectedValue: normalizedValue,
+        normalize: normalizeNeutralZone,
+        tag: BacnetEnums.ApplicationTags.REAL,
+        label: `${mode} ${kind} neutral zone`,
+      });
+    }
+
     private async writeFreeCoolingBooleanSetting(
       unit: UnitState,
       config: {
@@ -1562,7 +2744,7 @@ export class UnitRegistry {
       });
     }
 
-    private async writeFreeCoolingNumericSetting(
+    private async writeNumericSetting(
       unit: UnitState,
       config: {
         objectId: { type: number; instance: number };
@@ -1590,7 +2772,7 @@ export class UnitRegistry {
       await this.enqueueWrite(unit, async () => {
         const context: FanModeWriteContext = {
           unit,
-          mode: `free_cooling:${settingKey}`,
+          mode: `setting:${settingKey}`,
           writeOptions,
           client: this.dependencies.getBacnetClient(unit.bacnetPort),
           ventilationModeKey: VENTILATION_MODE_KEY,
@@ -1896,9 +3078,10 @@ export class UnitRegistry {
       this.log(`[UnitRegistry] Setting fireplace duration to ${requestedMinutes} min for ${unitId}`);
       const unit = this.units.get(unitId);
       if (!unit) throw new Error('Unit not found');
+      const durationMinutes = normalizeFireplaceDurationMinutes(requestedMinutes);
+      if (this.queueOfflineWrite(unit, { kind: 'fireplace_duration', minutes: durationMinutes })) return undefined;
       if (unit.transport === 'cloud') return this.cloudSetFireplaceVentilationDuration(unit, requestedMinutes);
 
-      const durationMinutes = normalizeFireplaceDurationMinutes(requestedMinutes);
       const writeOptions: WriteOptions = {
         maxSegments: BacnetEnums.MaxSegmentsAccepted.SEGMENTS_0,
         maxApdu: BacnetEnums.MaxApduLengthAccepted.OCTETS_1476,
@@ -1943,26 +3126,48 @@ export class UnitRegistry {
       });
     }
 
-    async setFanProfileMode(
-      unitId: string,
-      mode: FanProfileMode,
-      requestedSupplyPercent: number,
-      requestedExhaustPercent: number,
-    ) {
-      if (!isFanProfileMode(mode)) throw new Error(`Unsupported fan profile mode '${mode}'`);
-      this.log(
-        `[UnitRegistry] Setting ${mode} fan profile`
-        + ` supply=${requestedSupplyPercent}% exhaust=${requestedExhaustPercent}% for ${unitId}`,
-      );
-
+    async setRapidVentilationDuration(unitId: string, requestedMinutes: number) {
       const unit = this.units.get(unitId);
       if (!unit) throw new Error('Unit not found');
-      if (unit.transport === 'cloud') {
-        return this.cloudSetFanProfileMode(unit, mode, requestedSupplyPercent, requestedExhaustPercent);
+
+      const durationMinutes = normalizeRapidDurationMinutes(requestedMinutes);
+      if (this.queueOfflineWrite(unit, { kind: 'rapid_duration', minutes: durationMinutes })) return;
+      const currentValue = unit.probeValues.get(RAPID_RUNTIME_KEY);
+      const normalizedCurrentValue = currentValue !== undefined
+        ? tryNormalizeValue(currentValue, normalizeRapidDurationMinutes)
+        : undefined;
+      if (normalizedCurrentValue !== undefined && valuesMatch(normalizedCurrentValue, durationMinutes)) {
+        this.log(
+          `[UnitRegistry] Skipping high ventilation duration write — already ${durationMinutes} min on ${unitId}`,
+        );
+        return;
       }
 
-      const supplyPercent = normalizeFanProfilePercent(requestedSupplyPercent, mode, 'supply');
-      const exhaustPercent = normalizeFanProfilePercent(requestedExhaustPercent, mode, 'exhaust');
+      this.log(`[UnitRegistry] Setting high ventilation duration to ${durationMinutes} min for ${unitId}`);
+      await this.writeNumericSetting(unit, {
+        objectId: BACNET_OBJECTS.rapidVentilationRuntime,
+        settingKey: RAPID_DURATION_SETTING,
+        expectedValue: durationMinutes,
+        normalize: normalizeRapidDurationMinutes,
+        tag: BacnetEnums.ApplicationTags.UNSIGNED_INTEGER,
+        label: 'high ventilation duration',
+      });
+    }
+
+    /**
+     * Starts temporary high ventilation for the given number of minutes.
+     * The runtime is written and verified before the trigger fires, so the unit picks it up.
+     */
+    async startRapidVentilation(unitId: string, requestedMinutes: number) {
+      const unit = this.units.get(unitId);
+      if (!unit) throw new Error('Unit not found');
+
+      const durationMinutes = normalizeRapidDurationMinutes(requestedMinutes);
+      await this.setRapidVentilationDuration(unitId, durationMinutes);
+
+      this.log(`[UnitRegistry] Starting high ventilation for ${durationMinutes} min on ${unitId}`);
+      if (unit.transport === 'cloud') return this.cloudStartRapidVentilation(unit);
+
       const writeOptions: WriteOptions = {
         maxSegments: BacnetEnums.MaxSegmentsAccepted.SEGMENTS_0,
         maxApdu: BacnetEnums.MaxApduLengthAccepted.OCTETS_1476,
@@ -1972,92 +3177,325 @@ export class UnitRegistry {
       return this.enqueueWrite(unit, async () => {
         const context: FanModeWriteContext = {
           unit,
-          mode: `fan_profile:${mode}`,
+          mode: 'high',
           writeOptions,
           client: this.dependencies.getBacnetClient(unit.bacnetPort),
           ventilationModeKey: VENTILATION_MODE_KEY,
           comfortButtonKey: COMFORT_BUTTON_KEY,
         };
-        const objects = FAN_PROFILE_OBJECTS[mode];
-
-        const supplyWriteOk = await this.writeUpdate(context, {
-          objectId: objects.supply,
-          tag: BacnetEnums.ApplicationTags.REAL,
-          value: supplyPercent,
-          priority: FLEXIT_GO_WRITE_PRIORITY,
-        });
-        if (!supplyWriteOk) throw new Error(`Failed to write supply fan profile for ${mode}`);
-
-        const exhaustWriteOk = await this.writeUpdate(context, {
-          objectId: objects.exhaust,
-          tag: BacnetEnums.ApplicationTags.REAL,
-          value: exhaustPercent,
-          priority: FLEXIT_GO_WRITE_PRIORITY,
-        });
-        if (!exhaustWriteOk) throw new Error(`Failed to write exhaust fan profile for ${mode}`);
-
-        const verifiedValues = await this.readPresentValues(
-          context.client,
-          unit,
-          [objects.supply, objects.exhaust],
-        );
-        const verifiedSupply = normalizeFanProfilePercent(
-          verifiedValues.get(objectKey(objects.supply.type, objects.supply.instance)),
-          mode,
-          'supply',
-        );
-        const verifiedExhaust = normalizeFanProfilePercent(
-          verifiedValues.get(objectKey(objects.exhaust.type, objects.exhaust.instance)),
-          mode,
-          'exhaust',
-        );
-        this.log(
-          `[UnitRegistry] Verified ${mode} fan profile`
-          + ` supply=${verifiedSupply}% exhaust=${verifiedExhaust}% for ${unitId}`,
-        );
+        const active = this.resolveActiveTemporaryModes(unit);
+        this.expectTimedModeRestart(unit, 'high');
 
-        const settingsForMode = FAN_PROFILE_SETTING_KEYS[mode];
-        for (const device of unit.devices) {
-          this.updateDeviceSettings(device, {
-            [settingsForMode.supply]: verifiedSupply,
-            [settingsForMode.exhaust]: verifiedExhaust,
-          }).catch((err) => {
-            this.log(`[UnitRegistry] Failed to sync ${mode} fan settings for ${unitId}:`, err);
-          });
-        }
+        if (active.fireplace) await this.writeFireplaceTrigger(context, TRIGGER_VALUE);
+        if (active.cooker) await this.relinquishCookerHood(context);
+        if (unit.probeValues.get(COMFORT_BUTTON_KEY) !== 1) await this.writeComfort(context, 1);
+        // The trigger toggles, so a running rapid ventilation is stopped first to restart it with the new runtime.
+        if (active.rapid) await this.writeRapidTrigger(context, TRIGGER_VALUE);
+        const triggerOk = await this.writeRapidTrigger(context, TRIGGER_VALUE);
+        if (!triggerOk) throw new Error('Failed to trigger high ventilation via MSV:357');
 
         this.pollUnit(unitId);
       });
     }
 
-    private pollUnit(unitId: string, fromInterval = false) {
+    /**
+     * Extends the running fireplace or temporary high ventilation by the given number of minutes.
+     * The mode is restarted with the remaining time plus the extension as its runtime, and the
+     * configured runtime is restored afterwards, also when the restart fails, so the saved
+     * duration is unchanged.
+     */
+    async extendTimedMode(unitId: string, requestedMinutes: number) {
       const unit = this.units.get(unitId);
-      if (!unit) return;
+      if (!unit) throw new Error('Unit not found');
+
+      const extensionMinutes = normalizeTimedModeExtensionMinutes(requestedMinutes);
+      const { timedMode } = unit;
+      if (!timedMode) throw new Error('No timed mode is running.');
+
+      const objects = TIMED_MODE_OBJECTS[timedMode];
+      const remaining = unit.probeValues.get(objects.remainingKey)
+        ?? unit.probeValues.get(TEMP_VENT_REMAINING_KEY)
+        ?? 0;
+      const runtime = clamp(Math.round(remaining) + extensionMinutes, 1, 360);
+      const configuredRuntime = unit.probeValues.get(objectKey(objects.runtime.type, objects.runtime.instance));
+      this.log(`[UnitRegistry] Extending ${timedMode} by ${extensionMinutes} min to ${runtime} min for ${unitId}`);
+      this.expectTimedModeRestart(unit, timedMode);
       if (unit.transport === 'cloud') {
-        this.cloudPollUnit(unit).catch((err) => {
-          this.log(`[UnitRegistry] Cloud poll failed for ${unitId}:`, err);
-        });
-        return;
-      }
-      if (unit.pollInFlight) {
-        if (!fromInterval) return;
-        // Previous interval poll never responded — likely a lost UDP packet.
-        // Abandon it and count a failure; the new poll starts immediately.
-        unit.pollGeneration++;
-        unit.pollInFlight = false;
-        this.handlePollFailure(unit);
+        return this.cloudExtendTimedMode(unit, timedMode, runtime, configuredRuntime);
       }
-      this.pollAttempt(unit);
-    }
 
-    private pollAttempt(unit: UnitState) {
-      if (!this.isTrackedUnit(unit)) return;
+      const writeOptions: WriteOptions = {
+        maxSegments: BacnetEnums.MaxSegmentsAccepted.SEGMENTS_0,
+        maxApdu: BacnetEnums.MaxApduLengthAccepted.OCTETS_1476,
+        priority: DEFAULT_WRITE_PRIORITY,
+      };
 
-      const client = this.dependencies.getBacnetClient(unit.bacnetPort);
-      const generation = ++unit.pollGeneration;
-      unit.pollInFlight = true;
-      try {
-        client.readPropertyMultiple(unit.ip, POLL_REQUEST, (err: any, value: any) => {
+      return this.enqueueWrite(unit, async () => {
+        const context: FanModeWriteContext = {
+          unit,
+          mode: timedMode,
+          writeOptions,
+          client: this.dependencies.getBacnetClient(unit.bacnetPort),
+          ventilationModeKey: VENTILATION_MODE_KEY,
+          comfortButtonKey: COMFORT_BUTTON_KEY,
+        };
+        const writeRuntime = (value: number) => this.writeUpdate(context, {
+          objectId: objects.runtime,
+          tag: BacnetEnums.ApplicationTags.UNSIGNED_INTEGER,
+          value,
+          priority: DEFAULT_WRITE_PRIORITY,
+        });
+        const writeTrigger = () => this.writeUpdate(context, {
+          objectId: objects.trigger,
+          tag: BacnetEnums.ApplicationTags.UNSIGNED_INTEGER,
+          value: TRIGGER_VALUE,
+          priority: DEFAULT_WRITE_PRIORITY,
+        });
+
+        if (!await writeTrigger()) throw new Error(`Failed to extend ${timedMode} ventilation`);
+        let restarted = false;
+        try {
+          restarted = await writeRuntime(runtime) && await writeTrigger();
+        } finally {
+          if (configuredRuntime !== undefined && configuredRuntime !== runtime) {
+            await writeRuntime(Math.round(configuredRuntime));
+          }
+        }
+        if (!restarted) throw new Error(`Failed to extend ${timedMode} ventilation`);
+        unit.timedModeRestartUntil = Date.now() + TIMED_MODE_RESTART_GRACE_MS;
+
+        this.pollUnit(unitId);
+      });
+    }
+
+    /**
+     * Writes the present value of any point documented as RW in the point catalog.
+     * Writes share the unit's write queue with the built-in settings.
+     */
+    async writePointValue(
+      unitId: string,
+      pointKey: string,
+      requestedValue: number,
+      requestedPriority: number = DEFAULT_WRITE_PRIORITY,
+    ) {
+      const unit = this.units.get(unitId);
+      if (!unit) throw new Error('Unit not found');
+
+      const point = resolveCatalogPoint(pointKey);
+      if (!isWritableCatalogPoint(point)) {
+        throw new Error(`${formatCatalogPoint(point)} is not writable.`);
+      }
+      const tag = resolvePointWriteTag(point);
+      const value = normalizePointWriteValue(point, tag, requestedValue);
+      const priority = normalizePointWritePriority(requestedPriority);
+      if (unit.transport === 'cloud' && priority !== DEFAULT_WRITE_PRIORITY) {
+        throw new Error(
+          `Write priority ${priority} is only supported on local BACnet connections;`
+          + ` the cloud always writes at priority ${DEFAULT_WRITE_PRIORITY}.`,
+        );
+      }
+      if (this.queueOfflineWrite(unit, {
+        kind: 'point', pointKey: point.key, value: requestedValue, priority,
+      })) return;
+      this.log(
+        `[UnitRegistry] Writing ${formatCatalogPoint(point)} = ${value}`
+        + ` at priority ${priority} for ${unitId}`,
+      );
+
+      if (unit.transport === 'cloud') {
+        const objectId = { type: point.type, instance: point.instance };
+        await this.enqueueWrite(unit, async () => {
+          const success = await this.cloudWriteDatapoint(unit, objectId, value);
+          if (!success) throw new Error(`Failed to write ${formatCatalogPoint(point)} via cloud`);
+        });
+        await this.cloudPollUnit(unit);
+        return;
+      }
+
+      await this.writeCatalogPoint(unit, point, { tag, value, priority });
+    }
+
+    /**
+     * Relinquishes (writes NULL to) a writable catalog point at the given priority, so the
+     * next lower priority in the unit's priority array takes over again.
+     * The cloud API has no way to relinquish, so this only works on local BACnet connections.
+     */
+    async relinquishPointValue(
+      unitId: string,
+      pointKey: string,
+      requestedPriority: number = DEFAULT_WRITE_PRIORITY,
+    ) {
+      const unit = this.units.get(unitId);
+      if (!unit) throw new Error('Unit not found');
+
+      const point = resolveCatalogPoint(pointKey);
+      if (!isWritableCatalogPoint(point)) {
+        throw new Error(`${formatCatalogPoint(point)} is not writable.`);
+      }
+      const priority = normalizePointWritePriority(requestedPriority);
+      if (unit.transport === 'cloud') {
+        throw new Error('Relinquishing a point is only supported on local BACnet connections.');
+      }
+      this.log(
+        `[UnitRegistry] Relinquishing ${formatCatalogPoint(point)}`
+        + ` at priority ${priority} for ${unit.unitId}`,
+      );
+
+      await this.writeCatalogPoint(unit, point, {
+        tag: resolvePointWriteTag(point),
+        value: null,
+        priority,
+      });
+    }
+
+    private async writeCatalogPoint(
+      unit: UnitState,
+      point: CatalogPoint,
+      update: { tag: number; value: number | null; priority: number },
+    ) {
+      const writeOptions: WriteOptions = {
+        maxSegments: BacnetEnums.MaxSegmentsAccepted.SEGMENTS_0,
+        maxApdu: BacnetEnums.MaxApduLengthAccepted.OCTETS_1476,
+        priority: update.priority,
+      };
+
+      await this.enqueueWrite(unit, async () => {
+        const context: FanModeWriteContext = {
+          unit,
+          mode: `point:${point.key}`,
+          writeOptions,
+          client: this.dependencies.getBacnetClient(unit.bacnetPort),
+          ventilationModeKey: VENTILATION_MODE_KEY,
+          comfortButtonKey: COMFORT_BUTTON_KEY,
+        };
+        const writeOk = await this.writeUpdate(context, {
+          ...update,
+          objectId: { type: point.type, instance: point.instance },
+        });
+        if (!writeOk) throw new Error(`Failed to write ${formatCatalogPoint(point)}`);
+      });
+      this.pollUnit(unit.unitId);
+    }
+
+    async setFanProfileMode(
+      unitId: string,
+      mode: FanProfileMode,
+      requestedSupplyPercent: number,
+      requestedExhaustPercent: number,
+    ) {
+      if (!isFanProfileMode(mode)) throw new Error(`Unsupported fan profile mode '${mode}'`);
+      this.log(
+        `[UnitRegistry] Setting ${mode} fan profile`
+        + ` supply=${requestedSupplyPercent}% exhaust=${requestedExhaustPercent}% for ${unitId}`,
+      );
+
+      const unit = this.units.get(unitId);
+      if (!unit) throw new Error('Unit not found');
+      const supplyPercent = normalizeFanProfilePercent(requestedSupplyPercent, mode, 'supply');
+      const exhaustPercent = normalizeFanProfilePercent(requestedExhaustPercent, mode, 'exhaust');
+      if (this.queueOfflineWrite(unit, {
+        kind: 'fan_profile', mode, supply: supplyPercent, exhaust: exhaustPercent,
+      })) return undefined;
+      if (unit.transport === 'cloud') {
+        return this.cloudSetFanProfileMode(unit, mode, requestedSupplyPercent, requestedExhaustPercent);
+      }
+
+      const writeOptions: WriteOptions = {
+        maxSegments: BacnetEnums.MaxSegmentsAccepted.SEGMENTS_0,
+        maxApdu: BacnetEnums.MaxApduLengthAccepted.OCTETS_1476,
+        priority: DEFAULT_WRITE_PRIORITY,
+      };
+
+      return this.enqueueWrite(unit, async () => {
+        const context: FanModeWriteContext = {
+          unit,
+          mode: `fan_profile:${mode}`,
+          writeOptions,
+          client: this.dependencies.getBacnetClient(unit.bacnetPort),
+          ventilationModeKey: VENTILATION_MODE_KEY,
+          comfortButtonKey: COMFORT_BUTTON_KEY,
+        };
+        const objects = FAN_PROFILE_OBJECTS[mode];
+
+        const supplyWriteOk = await this.writeUpdate(context, {
+          objectId: objects.supply,
+          tag: BacnetEnums.ApplicationTags.REAL,
+          value: supplyPercent,
+          priority: FLEXIT_GO_WRITE_PRIORITY,
+        });
+        if (!supplyWriteOk) throw new Error(`Failed to write supply fan profile for ${mode}`);
+
+        const exhaustWriteOk = await this.writeUpdate(context, {
+          objectId: objects.exhaust,
+          tag: BacnetEnums.ApplicationTags.REAL,
+          value: exhaustPercent,
+          priority: FLEXIT_GO_WRITE_PRIORITY,
+        });
+        if (!exhaustWriteOk) throw new Error(`Failed to write exhaust fan profile for ${mode}`);
+
+        const verifiedValues = await this.readPresentValues(
+          context.client,
+          unit,
+          [objects.supply, objects.exhaust],
+        );
+        const verifiedSupply = normalizeFanProfilePercent(
+          verifiedValues.get(objectKey(objects.supply.type, objects.supply.instance)),
+          mode,
+          'supply',
+        );
+        const verifiedExhaust = normalizeFanProfilePercent(
+          verifiedValues.get(objectKey(objects.exhaust.type, objects.exhaust.instance)),
+          mode,
+          'exhaust',
+        );
+        this.log(
+          `[UnitRegistry] Verified ${mode} fan profile`
+          + ` supply=${verifiedSupply}% exhaust=${verifiedExhaust}% for ${unitId}`,
+        );
+
+        const settingsForMode = FAN_PROFILE_SETTING_KEYS[mode];
+        for (const device of unit.devices) {
+          this.updateDeviceSettings(device, {
+            [settingsForMode.supply]: verifiedSupply,
+            [settingsForMode.exhaust]: verifiedExhaust,
+          }).catch((err) => {
+            this.log(`[UnitRegistry] Failed to sync ${mode} fan settings for ${unitId}:`, err);
+          });
+        }
+
+        this.pollUnit(unitId);
+      });
+    }
+
+    private pollUnit(unitId: string, fromInterval = false) {
+      const unit = this.units.get(unitId);
+      if (!unit) return;
+      if (unit.transport === 'cloud') {
+        this.cloudPollUnit(unit).catch((err) => {
+          this.log(`[UnitRegistry] Cloud poll failed for ${unitId}:`, err);
+        });
+        return;
+      }
+      if (unit.pollInFlight) {
+        if (!fromInterval) return;
+        // Previous interval poll never responded — likely a lost UDP packet.
+        // Abandon it and count a failure; the new poll starts immediately.
+        unit.pollGeneration++;
+        unit.pollInFlight = false;
+        this.handlePollFailure(unit);
+      }
+      this.pollAttempt(unit);
+    }
+
+    private pollAttempt(unit: UnitState) {
+      if (!this.isTrackedUnit(unit)) return;
+
+      const client = this.dependencies.getBacnetClient(unit.bacnetPort);
+      const generation = ++unit.pollGeneration;
+      const plan = this.planPoll(unit);
+      unit.pollInFlight = true;
+      try {
+        client.readPropertyMultiple(unit.ip, pollRequestForTiers(plan.tiers), (err: any, value: any) => {
           if (unit.pollGeneration !== generation) return;
           if (!this.isTrackedUnit(unit)) {
             unit.pollInFlight = false;
@@ -2069,7 +3507,7 @@ export class UnitRegistry {
             this.handlePollFailure(unit);
             return;
           }
-          this.handlePollResponse(unit, value);
+          this.handlePollResponse(unit, value, plan);
         });
       } catch (error) {
         if (unit.pollGeneration !== generation) return;
@@ -2079,7 +3517,7 @@ export class UnitRegistry {
       }
     }
 
-    private handlePollResponse(unit: UnitState, value: any) {
+    private handlePollResponse(unit: UnitState, value: any, plan?: PollPlan) {
       if (!value?.values) {
         this.error(`[UnitRegistry] Poll response missing values for ${unit.unitId}:`, value);
         this.handlePollFailure(unit);
@@ -2088,15 +3526,24 @@ export class UnitRegistry {
       try {
         this.handlePollSuccess(unit);
         unit.lastPollAt = Date.now();
-        const data = this.parsePollValues(unit, value.values, unit.lastPollAt);
-        this.distributeData(unit, data);
+        const readPlan = plan ?? { tiers: POLL_TIERS, startedAt: unit.lastPollAt };
+        this.markPollTiersRead(unit, readPlan);
+        const data = this.parsePollValues(unit, value.values, unit.lastPollAt, readPlan.startedAt);
+        this.distributeData(unit, this.expandObservedData(unit, data));
+        this.maybeSyncScheduleSettings(unit);
       } catch (e) {
         this.error(`[UnitRegistry] Parse error for ${unit.unitId}:`, e);
       }
     }
 
-    private parsePollValues(unit: UnitState, values: any[], pollTime: number): Record<string, number> {
+    private parsePollValues(
+      unit: UnitState,
+      values: any[],
+      pollTime: number,
+      readStartedAt = pollTime,
+    ): Record<string, number> {
       const target: PollParseTarget = { data: {} };
+      let journalChanged = false;
       for (const obj of values) {
         const objectId = obj?.objectId;
         if (!objectId) continue;
@@ -2108,8 +3555,11 @@ export class UnitRegistry {
         const mapper = POLL_VALUE_MAPPINGS[key];
         if (mapper) mapper(val, target);
         this.reconcileObservedWriteStatus(unit, key, val, pollTime);
+        journalChanged = this.observeWriteJournal(unit, key, val, { at: pollTime, startedAt: readStartedAt })
+          || journalChanged;
         unit.probeValues.set(key, val);
       }
+      if (journalChanged) this.saveWriteJournal(unit);
 
       const extractTemp = selectExtractTemperature(target.extractTempPrimary, target.extractTempAlt);
       if (extractTemp !== undefined) {
@@ -2147,19 +3597,31 @@ export class UnitRegistry {
 
     private handlePollFailure(unit: UnitState) {
       unit.consecutiveFailures++;
-      if (unit.consecutiveFailures >= MAX_BACNET_CONSECUTIVE_FAILURES && unit.available) {
-        unit.available = false;
+      if (unit.consecutiveFailures < MAX_BACNET_CONSECUTIVE_FAILURES || !unit.available) return;
+
+      // Energy is not integrated across the outage.
+      unit.heaterPowerSample = undefined;
+      this.stopCovSubscriptions(unit);
+      this.startRediscovery(unit);
+      if (unit.cloudFailover && unit.cloud) {
         this.log(
-          `[UnitRegistry] Unit ${unit.unitId} marked unavailable after`
-          + ` ${unit.consecutiveFailures} consecutive failures`,
+          `[UnitRegistry] Unit ${unit.unitId} unreachable at ${unit.ip} after`
+          + ` ${unit.consecutiveFailures} consecutive failures; failing over to cloud`,
+        );
+        this.switchTransport(unit, 'cloud');
+        return;
+      }
+
+      unit.available = false;
+      this.log(
+        `[UnitRegistry] Unit ${unit.unitId} marked unavailable after`
+        + ` ${unit.consecutiveFailures} consecutive failures`,
+      );
+      for (const device of unit.devices) {
+        this.logDetachedPromiseError(
+          device.setUnavailable('Device unreachable — will auto-reconnect when found'),
+          `[UnitRegistry] Failed to set device unavailable for ${unit.unitId}:`,
         );
-        for (const device of unit.devices) {
-          this.logDetachedPromiseError(
-            device.setUnavailable('Device unreachable — will auto-reconnect when found'),
-            `[UnitRegistry] Failed to set device unavailable for ${unit.unitId}:`,
-          );
-        }
-        this.startRediscovery(unit);
       }
     }
 
@@ -2185,74 +3647,567 @@ export class UnitRegistry {
             `[UnitRegistry] Failed to set device available for ${unit.unitId}:`,
           );
         }
-        if (unit.transport !== 'cloud') {
-          this.stopRediscovery(unit);
-        }
-      }
+        if (unit.transport !== 'cloud') {
+          this.stopRediscovery(unit);
+          this.startCovSubscriptions(unit);
+        }
+      }
+      this.maybeReplayOfflineWrites(unit);
+    }
+
+    private isOfflineWriteQueueEnabled(unit: UnitState) {
+      return Array.from(unit.devices).some((device) => device.getSetting(OFFLINE_WRITE_QUEUE_SETTING) === true);
+    }
+
+    private getOfflineWriteMaxAgeMinutes(unit: UnitState) {
+      const device = unit.devices.values().next().value;
+      return normalizeOfflineWriteMaxAgeMinutes(device?.getSetting(OFFLINE_WRITE_MAX_AGE_SETTING));
+    }
+
+    // Holds the write for replay instead of failing it while the unit is unavailable.
+    private queueOfflineWrite(unit: UnitState, write: OfflineWrite): boolean {
+      if (unit.available) {
+        // A live write made while the queue replays supersedes the queued write to the same target.
+        if (unit.offlineWriteReplaying && !getLogContext().offlineWriteReplay) {
+          unit.liveWriteKeysDuringReplay.add(offlineWriteKey(write));
+        }
+        return false;
+      }
+      if (!this.isOfflineWriteQueueEnabled(unit)) return false;
+
+      const now = Date.now();
+      const pending = dropExpiredOfflineWrites(unit.offlineWrites, this.getOfflineWriteMaxAgeMinutes(unit), now);
+      unit.offlineWrites = enqueueOfflineWrite(pending, write, now);
+      this.log(`[UnitRegistry] Unit ${unit.unitId} unavailable; queued ${describeOfflineWrite(write)}`);
+      this.getLogger()?.info('registry.offline_write.queued', 'Queued write while unit is unavailable', {
+        unitId: unit.unitId,
+        write: describeOfflineWrite(write),
+        queueLength: unit.offlineWrites.length,
+      });
+      this.syncOfflineWrites(unit);
+      return true;
+    }
+
+    private restoreOfflineWrites(unit: UnitState, device: FlexitDevice) {
+      if (unit.offlineWrites.length > 0 || typeof device.loadOfflineWrites !== 'function') return;
+      unit.offlineWrites = device.loadOfflineWrites();
+    }
+
+    private maybeReplayOfflineWrites(unit: UnitState) {
+      if (unit.offlineWrites.length === 0 || unit.offlineWriteReplaying || !unit.available) return;
+      unit.offlineWriteReplaying = true;
+      this.logDetachedPromiseError(
+        runWithLogContext(
+          { writeSource: 'sync', offlineWriteReplay: true },
+          () => this.replayOfflineWrites(unit),
+        ).finally(() => {
+          unit.offlineWriteReplaying = false;
+        }),
+        `[UnitRegistry] Offline write replay failed for ${unit.unitId}:`,
+      );
+    }
+
+    /**
+     * Sends queued writes in the order they were requested. Expired writes are dropped,
+     * writes superseded by a live write made during the replay are skipped, and the rest
+     * go back in the queue if the unit becomes unavailable again.
+     */
+    private async replayOfflineWrites(unit: UnitState) {
+      unit.liveWriteKeysDuringReplay.clear();
+      const queued = unit.offlineWrites;
+      const pending = this.isOfflineWriteQueueEnabled(unit)
+        ? dropExpiredOfflineWrites(queued, this.getOfflineWriteMaxAgeMinutes(unit), Date.now())
+        : [];
+      unit.offlineWrites = [];
+      this.getLogger()?.info('registry.offline_write.replay', 'Replaying writes queued while unit was unavailable', {
+        unitId: unit.unitId,
+        pending: pending.length,
+        dropped: queued.length - pending.length,
+      });
+
+      for (const [index, entry] of pending.entries()) {
+        if (!unit.available) {
+          unit.offlineWrites = [...pending.slice(index), ...unit.offlineWrites];
+          break;
+        }
+        if (unit.liveWriteKeysDuringReplay.has(offlineWriteKey(entry.write))) {
+          this.getLogger()?.info(
+            'registry.offline_write.superseded',
+            'Skipped queued write superseded by a live write',
+            { unitId: unit.unitId, write: describeOfflineWrite(entry.write) },
+          );
+          continue;
+        }
+        try {
+          await this.applyOfflineWrite(unit.unitId, entry.write);
+        } catch (err) {
+          this.getLogger()?.error('registry.offline_write.replay.failed', 'Failed to replay queued write', err, {
+            unitId: unit.unitId,
+            write: describeOfflineWrite(entry.write),
+            queuedAt: new Date(entry.queuedAt).toISOString(),
+          });
+        }
+      }
+      this.syncOfflineWrites(unit);
+    }
+
+    private applyOfflineWrite(unitId: string, write: OfflineWrite): Promise<unknown> {
+      switch (write.kind) {
+        case 'fan_mode':
+          return this.setFanMode(unitId, write.mode);
+        case 'temperature_setpoint':
+          return this.setTemperatureSetpoint(unitId, write.mode, write.setpoint);
+        case 'heating_coil':
+          return this.setHeatingCoilEnabled(unitId, write.enabled);
+        case 'fireplace_duration':
+          return this.setFireplaceVentilationDuration(unitId, write.minutes);
+        case 'rapid_duration':
+          return this.setRapidVentilationDuration(unitId, write.minutes);
+        case 'humidity_setpoint':
+          return this.setHumiditySetpoint(unitId, write.mode, write.value);
+        case 'neutral_zone':
+          return this.setNeutralZone(unitId, write.zone, write.mode, write.value);
+        case 'fan_profile':
+          return this.setFanProfileMode(unitId, write.mode, write.supply, write.exhaust);
+        case 'free_cooling_enabled':
+          return this.setFreeCoolingEnabled(unitId, write.enabled);
+        case 'free_cooling':
+          return this.applyOfflineFreeCoolingWrite(unitId, write.setting, write.value);
+        case 'schedule':
+          return this.setOperatingModeSchedule(unitId, { weekly: write.weekly, exceptions: write.exceptions });
+        default:
+          return this.writePointValue(unitId, write.pointKey, write.value, write.priority);
+      }
+    }
+
+    private applyOfflineFreeCoolingWrite(unitId: string, setting: FreeCoolingOfflineSetting, value: number) {
+      switch (setting) {
+        case 'temperature_setpoint':
+          return this.setFreeCoolingTemperatureSetpoint(unitId, value);
+        case 'outside_temperature_limit':
+          return this.setFreeCoolingOutsideTemperatureLimit(unitId, value);
+        default:
+          return this.setFreeCoolingMinOnTimeSeconds(unitId, value);
+      }
+    }
+
+    // Mirrors the queue to the device store, the pending writes capability and the oldest write setting.
+    private syncOfflineWrites(unit: UnitState) {
+      const oldest = unit.offlineWrites[0];
+      const oldestLabel = oldest
+        ? `${describeOfflineWrite(oldest.write)}, queued ${new Date(oldest.queuedAt).toISOString()}`
+        : '-';
+      for (const device of unit.devices) {
+        if (typeof device.saveOfflineWrites === 'function') {
+          this.logDetachedPromiseError(
+            device.saveOfflineWrites(unit.offlineWrites),
+            `[UnitRegistry] Failed to persist offline writes for ${unit.unitId}:`,
+          );
+        }
+        const ready = typeof device.ensureCapabilities === 'function'
+          ? device.ensureCapabilities([PENDING_WRITES_CAPABILITY])
+          : Promise.resolve();
+        this.logDetachedPromiseError(
+          ready.then(() => this.setCapability(device, PENDING_WRITES_CAPABILITY, unit.offlineWrites.length)),
+          `[UnitRegistry] Failed to report pending writes for ${unit.unitId}:`,
+        );
+        this.updateDeviceSettings(device, { [OFFLINE_WRITE_OLDEST_SETTING]: oldestLabel }).catch((err) => {
+          this.log(`[UnitRegistry] Failed to report oldest pending write for ${unit.unitId}:`, err);
+        });
+      }
+    }
+
+    getWriteJournal(unitId: string): WriteJournalExport {
+      const unit = this.units.get(unitId);
+      if (!unit) throw new Error('Unit not found');
+      return exportWriteJournal(unit.unitId, unit.writeJournal, Date.now());
+    }
+
+    getWriteJournals(): WriteJournalExport[] {
+      const now = Date.now();
+      return Array.from(this.units.values()).map((unit) => exportWriteJournal(unit.unitId, unit.writeJournal, now));
+    }
+
+    private recordWrite(unit: UnitState, origin: WriteJournalOrigin, record: {
+      objectId: { type: number; instance: number };
+      value: number | string | null;
+      priority?: number | null;
+      outcome: WriteJournalOutcome;
+      error?: unknown;
+    }) {
+      const key = objectKey(record.objectId.type, record.objectId.instance);
+      const verifiable = record.outcome === 'ok'
+        && typeof record.value === 'number'
+        && POLL_TIER_BY_KEY.has(key);
+      const entry: WriteJournalEntry = {
+        ...origin,
+        at: new Date().toISOString(),
+        object: key,
+        description: getCatalogPoint(key)?.description,
+        value: record.value,
+        transport: unit.transport,
+        outcome: record.outcome,
+        verification: verifiable ? 'pending' : 'not_applicable',
+      };
+      if (typeof record.priority === 'number') entry.priority = record.priority;
+      if (record.error !== undefined) entry.error = formatErrorMessage(record.error);
+      unit.writeJournal = appendWriteJournalEntry(unit.writeJournal, entry);
+      this.saveWriteJournal(unit);
+    }
+
+    // Resolves pending journal entries against a polled value and records changes made outside the app.
+    // `read.startedAt` is when the poll was sent; only writes recorded before it can show in the value.
+    private observeWriteJournal(
+      unit: UnitState,
+      key: string,
+      value: number,
+      read: { at: number; startedAt: number },
+    ): boolean {
+      const { at } = read;
+      const verified = verifyWriteJournalEntries(
+        unit.writeJournal,
+        key,
+        { value, readStartedAt: read.startedAt },
+        (expected) => valuesMatch(value, expected),
+      );
+      if (verified) {
+        unit.writeJournal = verified;
+        return true;
+      }
+
+      const previous = unit.probeValues.get(key);
+      if (previous === undefined || valuesMatch(value, previous) || !JOURNALED_OBSERVED_KEYS.has(key)) return false;
+      if (hasRecentOwnWrite(unit.writeJournal, key, at)) return false;
+      unit.writeJournal = appendWriteJournalEntry(unit.writeJournal, {
+        at: new Date(at).toISOString(),
+        source: 'external',
+        object: key,
+        description: getCatalogPoint(key)?.description,
+        value,
+        previousValue: previous,
+        transport: unit.transport,
+        outcome: 'observed',
+        verification: 'not_applicable',
+      });
+      this.getLogger()?.info('registry.write_journal.external_change', 'Observed a change made outside the app', {
+        unitId: unit.unitId,
+        object: key,
+        value,
+        previousValue: previous,
+      });
+      return true;
+    }
+
+    private restoreWriteJournal(unit: UnitState, device: FlexitDevice) {
+      if (unit.writeJournal.length > 0 || typeof device.loadWriteJournal !== 'function') return;
+      unit.writeJournal = device.loadWriteJournal();
+    }
+
+    private saveWriteJournal(unit: UnitState) {
+      for (const device of unit.devices) {
+        if (typeof device.saveWriteJournal !== 'function') continue;
+        this.logDetachedPromiseError(
+          device.saveWriteJournal(unit.writeJournal),
+          `[UnitRegistry] Failed to persist write journal for ${unit.unitId}:`,
+        );
+      }
+    }
+
+    private startRediscovery(unit: UnitState) {
+      if (unit.rediscoverInterval) return; // already running
+      this.log(
+        `[UnitRegistry] Starting rediscovery for ${unit.unitId} (serial ${unit.serial})`,
+      );
+
+      const doRediscovery = async () => {
+        const found = await this.dependencies.discoverFlexitUnits({
+          timeoutMs: 5000,
+          burstCount: 3,
+          burstIntervalMs: 300,
+          strategies: ['multicast', 'bacnet'],
+          bacnetPort: unit.bacnetPort,
+        });
+        const match = found.find((u) => u.serialNormalized === unit.discoverySerial);
+        if (!match) return;
+
+        const rediscoveredIp = String(match.ip || '').trim();
+        const rediscoveredPort = normalizeBacnetPort(match.bacnetPort);
+        if (!rediscoveredIp || rediscoveredPort === undefined) {
+          this.log(
+            `[UnitRegistry] Ignoring invalid rediscovered endpoint for ${unit.unitId}:`
+            + ` ${rediscoveredIp || '<empty>'}:${String(match.bacnetPort)}`,
+          );
+          return;
+        }
+
+        const ipChanged = rediscoveredIp !== unit.ip;
+        const portChanged = rediscoveredPort !== unit.bacnetPort;
+
+        if (ipChanged || portChanged) {
+          this.log(
+            `[UnitRegistry] Rediscovered ${unit.unitId} at ${rediscoveredIp}:${rediscoveredPort}`
+            + ` (was ${unit.ip}:${unit.bacnetPort})`,
+          );
+          unit.ip = rediscoveredIp;
+          unit.bacnetPort = rediscoveredPort;
+          await this.persistConnectionSettings(unit);
+        } else {
+          this.log(`[UnitRegistry] Rediscovered ${unit.unitId} at same address, retrying poll`);
+        }
+
+        if (unit.transport === 'cloud') {
+          this.switchTransport(unit, 'bacnet');
+          return;
+        }
+        // Trigger an immediate poll to verify connectivity
+        this.pollUnit(unit.unitId);
+      };
+
+      // Run immediately, then on interval
+      this.logDetachedPromiseError(
+        doRediscovery(),
+        `[UnitRegistry] Rediscovery error for ${unit.unitId}:`,
+      );
+      unit.rediscoverInterval = setInterval(() => {
+        this.logDetachedPromiseError(
+          doRediscovery(),
+          `[UnitRegistry] Rediscovery error for ${unit.unitId}:`,
+        );
+      }, REDISCOVERY_INTERVAL_MS);
+    }
+
+    private stopRediscovery(unit: UnitState) {
+      if (unit.rediscoverInterval) {
+        clearInterval(unit.rediscoverInterval);
+        unit.rediscoverInterval = null;
+      }
+    }
+
+    private setBacnetPollInterval(unit: UnitState, intervalMs: number) {
+      if (unit.pollInterval) clearInterval(unit.pollInterval);
+      unit.pollInterval = setInterval(() => this.pollUnit(unit.unitId, true), intervalMs);
+    }
+
+    private getPollTierIntervalMs(unit: UnitState, tier: SlowPollTier) {
+      const device = unit.devices.values().next().value;
+      const minutes = device?.getSetting(POLL_TIER_INTERVAL_SETTINGS[tier]);
+      if (typeof minutes === 'number' && Number.isFinite(minutes) && minutes > 0) {
+        return clamp(minutes, 1, MAX_POLL_TIER_INTERVAL_MINUTES) * 60_000;
+      }
+      return this.dependencies.pollTierIntervalsMs?.[tier] ?? DEFAULT_POLL_TIER_INTERVALS_MS[tier];
+    }
+
+    private planPoll(unit: UnitState): PollPlan {
+      const startedAt = Date.now();
+      const tiers = POLL_TIERS.filter((tier) => {
+        if (tier === 'fast') return true;
+        const readAt = unit.pollTierReadAt[tier];
+        if (readAt === undefined || (unit.pollTierWrittenAt[tier] ?? -Infinity) >= readAt) return true;
+        return startedAt - readAt >= this.getPollTierIntervalMs(unit, tier);
+      });
+      return { tiers, startedAt };
+    }
+
+    private markPollTiersRead(unit: UnitState, plan: PollPlan) {
+      for (const tier of plan.tiers) unit.pollTierReadAt[tier] = plan.startedAt;
+    }
+
+    // The next poll re-reads the tier of a written object instead of waiting for its interval.
+    private markPollTierWritten(unit: UnitState, objectId: { type: number; instance: number }) {
+      const tier = POLL_TIER_BY_KEY.get(objectKey(objectId.type, objectId.instance));
+      if (tier) unit.pollTierWrittenAt[tier] = Date.now();
+    }
+
+    private getCovLifetimeSeconds() {
+      return this.dependencies.covLifetimeSeconds ?? DEFAULT_COV_LIFETIME_SECONDS;
+    }
+
+    private startCovSubscriptions(unit: UnitState) {
+      if (unit.transport !== 'bacnet' || !this.isTrackedUnit(unit)) return;
+      const client = this.dependencies.getBacnetClient(unit.bacnetPort);
+      if (typeof client?.subscribeCOV !== 'function') return;
+      this.attachCovListeners(client);
+
+      const generation = ++unit.covGeneration;
+      const lifetimeSeconds = this.getCovLifetimeSeconds();
+      unit.covSubscribing = true;
+      Promise.all(COV_OBJECTS.map((objectId) => this.subscribeCov(client, unit, objectId, false)))
+        .then((results) => {
+          if (generation !== unit.covGeneration || !this.isTrackedUnit(unit)) return;
+          unit.covSubscribing = false;
+
+          const wasActive = unit.covSubscribedKeys.size > 0;
+          const subscribed = COV_OBJECTS.filter((_, index) => results[index]);
+          const unsupported = COV_OBJECTS.filter((_, index) => !results[index]);
+          unit.covSubscribedKeys = new Set(subscribed.map((objectId) => objectKey(objectId.type, objectId.instance)));
+
+          if (subscribed.length === 0) {
+            this.getLogger()?.info('registry.cov.unavailable', 'Unit rejected all COV subscriptions; polling instead', {
+              unitId: unit.unitId,
+              ip: unit.ip,
+              intervalMs: POLL_INTERVAL_MS,
+            });
+            this.stopCovSubscriptions(unit);
+            return;
+          }
+
+          if (!wasActive) {
+            if (unit.pollInterval) this.setBacnetPollInterval(unit, COV_FALLBACK_POLL_INTERVAL_MS);
+            this.getLogger()?.info('registry.cov.subscribed', 'Subscribed to BACnet COV notifications', {
+              unitId: unit.unitId,
+              ip: unit.ip,
+              subscribed: subscribed.length,
+              unsupported: unsupported.map((objectId) => objectKey(objectId.type, objectId.instance)),
+              lifetimeSeconds,
+              confirmed: this.dependencies.covConfirmedNotifications ?? false,
+              fallbackPollIntervalMs: COV_FALLBACK_POLL_INTERVAL_MS,
+            });
+          }
+
+          if (!unit.covRenewInterval && lifetimeSeconds > 0) {
+            // Renew well before the unit drops the subscription.
+            unit.covRenewInterval = setInterval(
+              () => this.startCovSubscriptions(unit),
+              (lifetimeSeconds * 1000) / 2,
+            );
+          }
+        })
+        .catch((err) => {
+          this.log(`[UnitRegistry] COV subscription failed for ${unit.unitId}:`, err);
+        });
+    }
+
+    private stopCovSubscriptions(unit: UnitState, opts?: { cancel?: boolean }) {
+      unit.covGeneration++;
+      if (unit.covRenewInterval) {
+        clearInterval(unit.covRenewInterval);
+        unit.covRenewInterval = null;
+      }
+      const subscribing = unit.covSubscribing;
+      unit.covSubscribing = false;
+      if (unit.covSubscribedKeys.size === 0 && !subscribing) return;
+
+      const subscribedKeys = unit.covSubscribedKeys;
+      unit.covSubscribedKeys = new Set();
+      if (opts?.cancel) {
+        // Subscriptions still in flight may already be live on the unit, so cancel them all.
+        const client = this.dependencies.getBacnetClient(unit.bacnetPort);
+        for (const objectId of COV_OBJECTS) {
+          if (!subscribing && !subscribedKeys.has(objectKey(objectId.type, objectId.instance))) continue;
+          this.logDetachedPromiseError(
+            this.subscribeCov(client, unit, objectId, true),
+            `[UnitRegistry] Failed to cancel COV subscription for ${unit.unitId}:`,
+          );
+        }
+      }
+      if (unit.pollInterval && this.isTrackedUnit(unit)) {
+        this.setBacnetPollInterval(unit, POLL_INTERVAL_MS);
+      }
+    }
+
+    private subscribeCov(
+      client: any,
+      unit: UnitState,
+      objectId: { type: number; instance: number },
+      cancel: boolean,
+    ): Promise<boolean> {
+      return new Promise<boolean>((resolve) => {
+        try {
+          client.subscribeCOV(
+            unit.ip,
+            objectId,
+            unit.covSubscriberProcessId,
+            cancel,
+            this.dependencies.covConfirmedNotifications ?? false,
+            this.getCovLifetimeSeconds(),
+            {},
+            (err: any) => resolve(!err),
+          );
+        } catch (error) {
+          this.error(
+            `[UnitRegistry] Sync error subscribing COV for ${describeBacnetObject(objectId)}:`,
+            error,
+          );
+          resolve(false);
+        }
+      });
     }
 
-    private startRediscovery(unit: UnitState) {
-      if (unit.rediscoverInterval) return; // already running
-      this.log(
-        `[UnitRegistry] Starting rediscovery for ${unit.unitId} (serial ${unit.serial})`,
-      );
-
-      const doRediscovery = async () => {
-        const found = await this.dependencies.discoverFlexitUnits({
-          timeoutMs: 5000,
-          burstCount: 3,
-          burstIntervalMs: 300,
-        });
-        const match = found.find((u) => u.serialNormalized === unit.unitId);
-        if (!match) return;
+    private attachCovListeners(client: any) {
+      if (this.covListeners.has(client) || typeof client?.on !== 'function') return;
 
-        const rediscoveredIp = String(match.ip || '').trim();
-        const rediscoveredPort = normalizeBacnetPort(match.bacnetPort);
-        if (!rediscoveredIp || rediscoveredPort === undefined) {
-          this.log(
-            `[UnitRegistry] Ignoring invalid rediscovered endpoint for ${unit.unitId}:`
-            + ` ${rediscoveredIp || '<empty>'}:${String(match.bacnetPort)}`,
+      const confirmed = (event: any) => {
+        try {
+          client.simpleAckResponse(
+            event?.address,
+            BacnetEnums.ConfirmedServiceChoice.CONFIRMED_COV_NOTIFICATION,
+            event?.invokeId,
           );
-          return;
+        } catch (error) {
+          this.error('[UnitRegistry] Failed to acknowledge COV notification:', error);
         }
+        this.handleCovNotification(event?.address, event?.request);
+      };
+      const unconfirmed = (event: any) => this.handleCovNotification(event?.address, event?.request);
+      client.on('covNotify', confirmed);
+      client.on('covNotifyUnconfirmed', unconfirmed);
+      this.covListeners.set(client, { confirmed, unconfirmed });
+    }
 
-        const ipChanged = rediscoveredIp !== unit.ip;
-        const portChanged = rediscoveredPort !== unit.bacnetPort;
+    private detachCovListeners() {
+      for (const [client, { confirmed, unconfirmed }] of this.covListeners.entries()) {
+        if (typeof client?.removeListener !== 'function') continue;
+        client.removeListener('covNotify', confirmed);
+        client.removeListener('covNotifyUnconfirmed', unconfirmed);
+      }
+      this.covListeners.clear();
+    }
 
-        if (ipChanged || portChanged) {
-          this.log(
-            `[UnitRegistry] Rediscovered ${unit.unitId} at ${rediscoveredIp}:${rediscoveredPort}`
-            + ` (was ${unit.ip}:${unit.bacnetPort})`,
-          );
-          unit.ip = rediscoveredIp;
-          unit.bacnetPort = rediscoveredPort;
-          await this.persistConnectionSettings(unit);
-        } else {
-          this.log(`[UnitRegistry] Rediscovered ${unit.unitId} at same address, retrying poll`);
+    private handleCovNotification(address: string | undefined, request: any) {
+      const processId = Number(request?.subscriberProcessId);
+      let unit: UnitState | undefined;
+      for (const candidate of this.units.values()) {
+        if (candidate.transport === 'bacnet' && candidate.covSubscriberProcessId === processId) {
+          unit = candidate;
+          break;
         }
+      }
+      if (!unit || (address && address !== unit.ip)) return;
 
-        // Trigger an immediate poll to verify connectivity
-        this.pollUnit(unit.unitId);
-      };
+      const objectId = request?.monitoredObjectId;
+      const presentValue = Array.isArray(request?.values)
+        ? request.values.find((entry: any) => entry?.property?.id === PRESENT_VALUE_ID)
+        : undefined;
+      if (!objectId || !presentValue) return;
 
-      // Run immediately, then on interval
-      this.logDetachedPromiseError(
-        doRediscovery(),
-        `[UnitRegistry] Rediscovery error for ${unit.unitId}:`,
-      );
-      unit.rediscoverInterval = setInterval(() => {
-        this.logDetachedPromiseError(
-          doRediscovery(),
-          `[UnitRegistry] Rediscovery error for ${unit.unitId}:`,
-        );
-      }, REDISCOVERY_INTERVAL_MS);
+      try {
+        const data = this.parsePollValues(unit, [{ objectId, values: [presentValue] }], Date.now());
+        if (data['measure_temperature.extract'] !== undefined) {
+          const extractTemp = selectExtractTemperature(
+            unit.probeValues.get(objectKey(OBJECT_TYPE.ANALOG_INPUT, EXTRACT_AIR_TEMPERATURE_PRIMARY_INSTANCE)),
+            unit.probeValues.get(objectKey(OBJECT_TYPE.ANALOG_INPUT, EXTRACT_AIR_TEMPERATURE_ALT_INSTANCE)),
+          );
+          if (extractTemp !== undefined) data['measure_temperature.extract'] = extractTemp;
+        }
+        if (Object.keys(data).length === 0) return;
+        this.distributeData(unit, this.expandObservedData(unit, data));
+      } catch (e) {
+        this.error(`[UnitRegistry] COV notification error for ${unit.unitId}:`, e);
+      }
     }
 
-    private stopRediscovery(unit: UnitState) {
-      if (unit.rediscoverInterval) {
-        clearInterval(unit.rediscoverInterval);
-        unit.rediscoverInterval = null;
+    private expandObservedData(unit: UnitState, data: Record<string, number>): Record<string, number> {
+      const expanded = { ...data };
+      for (const group of DERIVED_DATA_KEY_GROUPS) {
+        if (!group.some((key) => data[key] !== undefined)) continue;
+        for (const key of group) {
+          if (expanded[key] === undefined && unit.observedData[key] !== undefined) {
+            expanded[key] = unit.observedData[key];
+          }
+        }
       }
+      Object.assign(unit.observedData, data);
+      return expanded;
     }
 
     private distributeData(unit: UnitState, data: Record<string, number>) {
@@ -2261,19 +4216,29 @@ export class UnitRegistry {
       this.observeDehumidificationState(unit, dehumidificationActive);
       this.observeFreeCoolingState(unit, freeCoolingActive);
       this.observeHeatingCoilState(unit, data.heating_coil_enabled);
+      const alarmActive = this.observeAlarmState(unit, data);
+      const alarmCount = readAlarmCount(data);
+      const sensorTelemetry = this.observeSensorTelemetry(unit, data);
+      const heatTelemetry = this.observeHeatTelemetry(unit, data);
 
-      const mode = this.resolveFanMode(unit, data);
-      const setpointMode = this.resolveCurrentFanSetpointMode(data, mode);
-      const temperatureMode = this.resolveCurrentTemperatureSetpointMode(data, mode);
+      const {
+        mode, setpointMode, temperatureMode, timedMode,
+      } = this.observeModeState(unit, data);
 
       for (const device of unit.devices) {
         this.applyMappedCapabilities(device, data);
         this.applyCurrentTargetTemperatureCapability(device, data, temperatureMode);
         this.applyCurrentFanSetpointCapabilities(unit, device, data, setpointMode);
+        this.applySensorTelemetry(unit, device, sensorTelemetry);
+        this.applyHeatTelemetry(unit, device, heatTelemetry);
+        this.applyTimedModeCapability(unit, device, timedMode);
         this.syncTargetTemperatureSettings(device, data);
         this.syncFreeCoolingSettings(device, data);
+        this.syncHumiditySetpointSettings(device, data);
+        this.syncNeutralZoneSettings(device, data);
+        this.syncHeatExchangerSettings(device, data);
         this.syncFanProfileSettings(device, data);
-        this.syncFireplaceDurationSetting(device, data[FIREPLACE_DURATION_DATA_KEY]);
+        this.syncTemporaryDurationSettings(device, data);
         this.syncFilterIntervalSetting(device, data.filter_limit);
         const filterLife = this.computeFilterLife(data);
         if (filterLife !== undefined) this.setCapability(device, 'measure_hepa_filter', filterLife);
@@ -2283,8 +4248,72 @@ export class UnitRegistry {
         if (freeCoolingActive !== undefined) {
           this.setCapability(device, FREE_COOLING_ACTIVE_CAPABILITY, freeCoolingActive);
         }
+        if (alarmActive !== undefined) this.setCapability(device, ALARM_CAPABILITY, alarmActive);
+        if (alarmCount !== undefined) this.setCapability(device, ALARM_COUNT_CAPABILITY, alarmCount);
         if (mode !== undefined) this.setCapability(device, 'fan_mode', mode);
       }
+      this.applyOperatingHours(unit, readOperatingHoursData(data));
+    }
+
+    private observeModeState(unit: UnitState, data: Record<string, number>) {
+      const mode = this.resolveFanMode(unit, data);
+      return {
+        mode,
+        setpointMode: this.resolveCurrentFanSetpointMode(data, mode),
+        temperatureMode: this.resolveCurrentTemperatureSetpointMode(data, mode),
+        timedMode: this.observeTimedMode(unit, data, mode),
+      };
+    }
+
+    private observeTimedMode(unit: UnitState, data: Record<string, number>, mode: string | undefined) {
+      if (mode === undefined) return undefined;
+
+      const timedMode = resolveTimedMode(data, mode);
+      const previousTimedMode = unit.timedMode;
+      if (previousTimedMode !== undefined && timedMode !== previousTimedMode) {
+        if ((unit.timedModeRestartUntil ?? 0) > Date.now()) return undefined;
+        this.getLogger()?.info('registry.timed_mode.ended', 'Timed mode ended', {
+          unitId: unit.unitId,
+          endedMode: previousTimedMode,
+          currentMode: mode,
+        });
+        for (const device of unit.devices) {
+          this.triggerTimedModeEnded({ device, endedMode: previousTimedMode, currentMode: mode });
+        }
+      }
+      unit.timedMode = timedMode;
+      if (timedMode === undefined) return { mode: timedMode, remainingMinutes: 0 };
+
+      unit.timedModeSeen = true;
+      const remaining = data[TIMED_MODE_REMAINING_DATA_KEYS[timedMode]] ?? data.remaining_temp_vent_op;
+      const remainingMinutes = Number.isFinite(remaining) ? Math.max(0, Math.round(remaining)) : 0;
+      return { mode: timedMode, remainingMinutes };
+    }
+
+    // Added the first time a timed mode runs; reads 0 while no timed mode is running.
+    private applyTimedModeCapability(
+      unit: UnitState,
+      device: FlexitDevice,
+      timedMode: ReturnType<UnitRegistry['observeTimedMode']>,
+    ) {
+      if (!timedMode || !unit.timedModeSeen) return;
+
+      const ready = typeof device.ensureCapabilities === 'function'
+        ? device.ensureCapabilities([TIMED_MODE_REMAINING_CAPABILITY])
+        : Promise.resolve();
+      this.logDetachedPromiseError(
+        ready.then(() => this.setCapability(device, TIMED_MODE_REMAINING_CAPABILITY, timedMode.remainingMinutes)),
+        () => `[UnitRegistry] Failed to add timed mode capability for ${device.getData().unitId}:`,
+      );
+    }
+
+    private triggerTimedModeEnded(event: TimedModeEndedEvent) {
+      if (!this.timedModeEndedHandler) return;
+      try {
+        this.timedModeEndedHandler(event);
+      } catch (error) {
+        this.log('[UnitRegistry] Failed to handle timed mode ended callback:', error);
+      }
     }
 
     private resolveCurrentFanSetpointMode(
@@ -2455,57 +4484,437 @@ export class UnitRegistry {
         unit.freeCoolingStateInitialized = true;
         return;
       }
-      if (unit.freeCoolingActive === active) return;
+      if (unit.freeCoolingActive === active) return;
+
+      unit.freeCoolingActive = active;
+      for (const device of unit.devices) {
+        this.triggerFreeCoolingStateChanged({
+          device,
+          active,
+        });
+      }
+    }
+
+    private triggerFreeCoolingStateChanged(event: FreeCoolingStateChangedEvent) {
+      if (!this.freeCoolingStateChangedHandler) return;
+      try {
+        this.freeCoolingStateChangedHandler(event);
+      } catch (error) {
+        this.log('[UnitRegistry] Failed to handle free cooling state changed callback:', error);
+      }
+    }
+
+    private parseHeatingCoilEnabled(value: number): boolean {
+      return Math.round(value) !== HEATING_COIL_OFF;
+    }
+
+    private observeHeatingCoilState(unit: UnitState, rawValue: number | undefined) {
+      if (rawValue === undefined || !Number.isFinite(rawValue)) return;
+
+      const enabled = this.parseHeatingCoilEnabled(rawValue);
+      if (!unit.heatingCoilStateInitialized) {
+        unit.heatingCoilEnabled = enabled;
+        unit.heatingCoilStateInitialized = true;
+        return;
+      }
+      if (unit.heatingCoilEnabled === enabled) return;
+
+      unit.heatingCoilEnabled = enabled;
+      for (const device of unit.devices) {
+        this.triggerHeatingCoilStateChanged({
+          device,
+          enabled,
+        });
+      }
+    }
+
+    private triggerHeatingCoilStateChanged(event: HeatingCoilStateChangedEvent) {
+      if (!this.heatingCoilStateChangedHandler) return;
+      try {
+        this.heatingCoilStateChangedHandler(event);
+      } catch (error) {
+        this.log('[UnitRegistry] Failed to handle heating coil state changed callback:', error);
+      }
+    }
+
+    private observeAlarmState(unit: UnitState, data: Record<string, number>): boolean | undefined {
+      let observed = false;
+      for (const alarmClass of ['A', 'B'] as const) {
+        const code = data[ALARM_DATA_KEYS[alarmClass]];
+        if (code === undefined) continue;
+        observed = true;
+
+        const previousCode = unit.alarmCodes[alarmClass];
+        unit.alarmCodes[alarmClass] = code;
+        // Alarms already present at startup only set the capability.
+        if (previousCode === undefined || previousCode === code) continue;
+
+        if (previousCode !== 0) this.notifyAlarmStateChanged(unit, false, alarmClass, previousCode);
+        if (code !== 0) this.notifyAlarmStateChanged(unit, true, alarmClass, code);
+      }
+      const alarmCount = readAlarmCount(data);
+      if (!observed && alarmCount === undefined) return undefined;
+      return (alarmCount ?? 0) > 0 || Object.values(unit.alarmCodes).some((code) => code !== undefined && code !== 0);
+    }
+
+    private notifyAlarmStateChanged(unit: UnitState, raised: boolean, alarmClass: AlarmClass, code: number) {
+      const text = getAlarmText(code);
+      this.getLogger()?.info(
+        raised ? 'registry.alarm.raised' : 'registry.alarm.cleared',
+        raised ? 'Unit alarm raised' : 'Unit alarm cleared',
+        {
+          unitId: unit.unitId,
+          alarmClass,
+          code,
+          text,
+        },
+      );
+      for (const device of unit.devices) {
+        this.triggerAlarmStateChanged({
+          device,
+          raised,
+          alarmClass,
+          code,
+          text,
+        });
+      }
+    }
+
+    private triggerAlarmStateChanged(event: AlarmStateChangedEvent) {
+      if (!this.alarmStateChangedHandler) return;
+      try {
+        this.alarmStateChangedHandler(event);
+      } catch (error) {
+        this.log('[UnitRegistry] Failed to handle alarm state changed callback:', error);
+      }
+    }
+
+    // Room humidity and air pressure sensors, detected at runtime and observed once per unit update.
+    private observeSensorTelemetry(unit: UnitState, data: Record<string, number>) {
+      return {
+        roomHumidity: this.observeRoomHumidity(unit, data),
+        airPressure: this.observeAirPressure(unit, data),
+      };
+    }
+
+    private applySensorTelemetry(
+      unit: UnitState,
+      device: FlexitDevice,
+      telemetry: ReturnType<UnitRegistry['observeSensorTelemetry']>,
+    ) {
+      this.applyRoomHumidityCapabilities(unit, device, telemetry.roomHumidity);
+      this.applyAirPressureCapabilities(unit, device, telemetry.airPressure);
+    }
+
+    private observeRoomHumidity(
+      unit: UnitState,
+      data: Record<string, number>,
+    ): Partial<Record<RoomHumiditySensor, number>> {
+      const rfDeviceConnected = resolveRfDeviceConnected(data);
+      const readings: Partial<Record<RoomHumiditySensor, number>> = {};
+      for (const sensor of ROOM_HUMIDITY_SENSORS) {
+        const humidity = resolveRoomHumidity(data[roomHumidityDataKey(sensor)]);
+        if (humidity === undefined) continue;
+        if (RF_ROOM_HUMIDITY_SENSORS.has(sensor) && rfDeviceConnected === false) continue;
+
+        readings[sensor] = humidity;
+        if (!unit.roomHumiditySensors.has(sensor)) {
+          unit.roomHumiditySensors.add(sensor);
+          this.getLogger()?.info('registry.room_humidity.detected', 'Detected room humidity sensor', {
+            unitId: unit.unitId,
+            sensor,
+          });
+        }
+
+        const previousHumidity = unit.roomHumidity[sensor];
+        unit.roomHumidity[sensor] = humidity;
+        if (previousHumidity === undefined || previousHumidity === humidity) continue;
+        for (const device of unit.devices) {
+          this.triggerRoomHumidityChanged({
+            device,
+            sensor,
+            previousHumidity,
+            humidity,
+          });
+        }
+      }
+      return readings;
+    }
+
+    private applyRoomHumidityCapabilities(
+      unit: UnitState,
+      device: FlexitDevice,
+      readings: Partial<Record<RoomHumiditySensor, number>>,
+    ) {
+      const sensors = Object.keys(readings) as RoomHumiditySensor[];
+      if (sensors.length === 0) return;
+
+      const capabilities = Array.from(unit.roomHumiditySensors, roomHumidityCapability);
+      const ready = typeof device.ensureCapabilities === 'function'
+        ? device.ensureCapabilities(capabilities)
+        : Promise.resolve();
+      this.logDetachedPromiseError(
+        ready.then(() => {
+          for (const sensor of sensors) {
+            this.setCapability(device, roomHumidityCapability(sensor), readings[sensor] as number);
+          }
+        }),
+        () => `[UnitRegistry] Failed to add room humidity capabilities for ${device.getData().unitId}:`,
+      );
+    }
+
+    private observeAirPressure(unit: UnitState, data: Record<string, number>) {
+      const pressures: Partial<Record<AirPressureSensor, number>> = {};
+      for (const sensor of AIR_PRESSURE_SENSORS) {
+        const pressure = data[airPressureDataKey(sensor)];
+        if (pressure === undefined || !Number.isFinite(pressure)) continue;
+        if (!unit.airPressureSensors.has(sensor)) {
+          if (pressure <= 0) continue;
+          unit.airPressureSensors.add(sensor);
+          this.getLogger()?.info('registry.air_pressure.detected', 'Detected air pressure sensor', {
+            unitId: unit.unitId,
+            sensor,
+          });
+        }
+        pressures[sensor] = Number(pressure.toFixed(1));
+      }
+
+      const airflow: Partial<Record<AirflowFan, number>> = {};
+      if (Object.keys(pressures).length === 0) return { pressures, airflow };
+
+      const model = getNordicModelFromSerial(unit.serial || unit.unitId);
+      for (const fan of AIRFLOW_FANS) {
+        const pressure = pressures[AIRFLOW_PRESSURE_SENSORS[fan]];
+        const value = pressure === undefined ? null : computeNordicAirflow(model, pressure);
+        if (value === null) continue;
+        airflow[fan] = value;
+
+        const previousAirflow = unit.airflow[fan];
+        unit.airflow[fan] = value;
+        if (previousAirflow === undefined || previousAirflow === value) continue;
+        for (const device of unit.devices) {
+          this.triggerAirflowChanged({
+            device,
+            fan,
+            previousAirflow,
+            airflow: value,
+          });
+        }
+      }
+      return { pressures, airflow };
+    }
+
+    private applyAirPressureCapabilities(
+      unit: UnitState,
+      device: FlexitDevice,
+      readings: ReturnType<UnitRegistry['observeAirPressure']>,
+    ) {
+      const sensors = Object.keys(readings.pressures) as AirPressureSensor[];
+      if (sensors.length === 0) return;
+
+      const fans = Object.keys(readings.airflow) as AirflowFan[];
+      const capabilities = [
+        ...Array.from(unit.airPressureSensors, airPressureCapability),
+        ...fans.map(airflowCapability),
+      ];
+      const ready = typeof device.ensureCapabilities === 'function'
+        ? device.ensureCapabilities(capabilities)
+        : Promise.resolve();
+      this.logDetachedPromiseError(
+        ready.then(() => {
+          for (const sensor of sensors) {
+            this.setCapability(device, airPressureCapability(sensor), readings.pressures[sensor] as number);
+          }
+          for (const fan of fans) {
+            this.setCapability(device, airflowCapability(fan), readings.airflow[fan] as number);
+          }
+        }),
+        () => `[UnitRegistry] Failed to add air pressure capabilities for ${device.getData().unitId}:`,
+      );
+    }
+
+    private triggerAirflowChanged(event: AirflowChangedEvent) {
+      if (!this.airflowChangedHandler) return;
+      try {
+        this.airflowChangedHandler(event);
+      } catch (error) {
+        this.log('[UnitRegistry] Failed to handle airflow changed callback:', error);
+      }
+    }
+
+    private triggerRoomHumidityChanged(event: RoomHumidityChangedEvent) {
+      if (!this.roomHumidityChangedHandler) return;
+      try {
+        this.roomHumidityChangedHandler(event);
+      } catch (error) {
+        this.log('[UnitRegistry] Failed to handle room humidity changed callback:', error);
+      }
+    }
+
+    // Heat exchanger health, heat recovery and heater energy, observed once per unit update.
+    private observeHeatTelemetry(unit: UnitState, data: Record<string, number>) {
+      return {
+        heatExchangerHealth: this.observeHeatExchangerHealth(unit, data),
+        heatRecovery: this.observeHeatRecovery(unit, data),
+        heaterEnergyKwh: this.observeHeaterEnergy(unit, data.measure_power),
+      };
+    }
+
+    private applyHeatTelemetry(
+      unit: UnitState,
+      device: FlexitDevice,
+      telemetry: ReturnType<UnitRegistry['observeHeatTelemetry']>,
+    ) {
+      if (telemetry.heatExchangerHealth !== undefined) {
+        this.setCapability(device, HEAT_EXCHANGER_HEALTH_CAPABILITY, telemetry.heatExchangerHealth);
+      }
+      this.applyHeatRecoveryCapabilities(unit, device, telemetry.heatRecovery);
+      if (telemetry.heaterEnergyKwh !== undefined) this.applyHeaterEnergy(device, telemetry.heaterEnergyKwh);
+    }
+
+    private observeHeatExchangerHealth(unit: UnitState, data: Record<string, number>): string | undefined {
+      let observed = false;
+      for (const alarm of HEAT_EXCHANGER_ALARMS) {
+        const rawValue = data[HEAT_EXCHANGER_ALARM_DATA_KEYS[alarm]];
+        if (rawValue === undefined || !Number.isFinite(rawValue)) continue;
+        observed = true;
+
+        const active = Math.round(rawValue) !== 0;
+        const previous = unit.heatExchangerAlarms[alarm];
+        unit.heatExchangerAlarms[alarm] = active;
+        // Faults already present at startup only set the capability.
+        if (previous === false && active) this.notifyHeatExchangerFault(unit, alarm);
+      }
+
+      const failures = data[HEAT_EXCHANGER_MOTOR_FAILURES_DATA_KEY];
+      if (failures !== undefined && Number.isFinite(failures)) {
+        const count = Math.round(failures);
+        const previousCount = unit.heatExchangerMotorFailures;
+        unit.heatExchangerMotorFailures = count;
+        if (previousCount !== undefined && count > previousCount) {
+          this.notifyHeatExchangerFault(unit, 'motor_failure');
+        }
+      }
 
-      unit.freeCoolingActive = active;
+      if (!observed) return undefined;
+      return HEAT_EXCHANGER_ALARMS.find((alarm) => unit.heatExchangerAlarms[alarm]) ?? 'ok';
+    }
+
+    private notifyHeatExchangerFault(unit: UnitState, fault: HeatExchangerFault) {
+      const text = HEAT_EXCHANGER_FAULT_TEXTS[fault];
+      const motorFailureCount = unit.heatExchangerMotorFailures ?? 0;
+      this.getLogger()?.info('registry.heat_exchanger.fault', 'Heat exchanger fault detected', {
+        unitId: unit.unitId,
+        fault,
+        motorFailureCount,
+      });
       for (const device of unit.devices) {
-        this.triggerFreeCoolingStateChanged({
+        this.triggerHeatExchangerFault({
           device,
-          active,
+          fault,
+          text,
+          motorFailureCount,
         });
       }
     }
 
-    private triggerFreeCoolingStateChanged(event: FreeCoolingStateChangedEvent) {
-      if (!this.freeCoolingStateChangedHandler) return;
+    private triggerHeatExchangerFault(event: HeatExchangerFaultEvent) {
+      if (!this.heatExchangerFaultHandler) return;
       try {
-        this.freeCoolingStateChangedHandler(event);
+        this.heatExchangerFaultHandler(event);
       } catch (error) {
-        this.log('[UnitRegistry] Failed to handle free cooling state changed callback:', error);
+        this.log('[UnitRegistry] Failed to handle heat exchanger fault callback:', error);
       }
     }
 
-    private parseHeatingCoilEnabled(value: number): boolean {
-      return Math.round(value) !== HEATING_COIL_OFF;
-    }
-
-    private observeHeatingCoilState(unit: UnitState, rawValue: number | undefined) {
-      if (rawValue === undefined || !Number.isFinite(rawValue)) return;
-
-      const enabled = this.parseHeatingCoilEnabled(rawValue);
-      if (!unit.heatingCoilStateInitialized) {
-        unit.heatingCoilEnabled = enabled;
-        unit.heatingCoilStateInitialized = true;
-        return;
+    // Supply temperature includes the electric heater's contribution, so the supply-side
+    // efficiency and recovered power are withheld while the heater draws power.
+    private observeHeatRecovery(unit: UnitState, data: Record<string, number>) {
+      const outdoor = data['measure_temperature.outdoor'];
+      const supply = data.measure_temperature;
+      const extract = data['measure_temperature.extract'];
+      const exhaust = data['measure_temperature.exhaust'];
+      const heaterPower = data.measure_power;
+      if ([outdoor, supply, extract, exhaust, heaterPower].some((value) => (
+        value === undefined || !Number.isFinite(value)
+      ))) {
+        return undefined;
+      }
+
+      const heaterActive = heaterPower > 0;
+      const efficiency = computeTemperatureEfficiency({
+        outdoor, supply, extract, exhaust,
+      });
+      if (heaterActive) {
+        unit.heatRecoverySamples = [];
+        return { efficiency, heaterActive };
       }
-      if (unit.heatingCoilEnabled === enabled) return;
 
-      unit.heatingCoilEnabled = enabled;
-      for (const device of unit.devices) {
-        this.triggerHeatingCoilStateChanged({
-          device,
-          enabled,
+      const now = Date.now();
+      const airflow = getNordicNominalAirflow(getNordicModelFromSerial(unit.serial || unit.unitId));
+      const fanPercent = data.measure_fan_speed_percent;
+      if (airflow !== null && fanPercent !== undefined && Number.isFinite(fanPercent)) {
+        unit.heatRecoverySamples.push({
+          at: now,
+          watts: computeRecoveredPowerWatts((airflow * fanPercent) / 100, outdoor, supply),
         });
       }
+      const maxWindowMs = MAX_HEAT_RECOVERY_SMOOTHING_MINUTES * 60_000;
+      const firstRecent = unit.heatRecoverySamples.findIndex((sample) => now - sample.at <= maxWindowMs);
+      // The sample before the window is kept too: it held until the first sample inside it.
+      unit.heatRecoverySamples = firstRecent < 0 ? [] : unit.heatRecoverySamples.slice(Math.max(0, firstRecent - 1));
+      return { efficiency, heaterActive };
     }
 
-    private triggerHeatingCoilStateChanged(event: HeatingCoilStateChangedEvent) {
-      if (!this.heatingCoilStateChangedHandler) return;
-      try {
-        this.heatingCoilStateChangedHandler(event);
-      } catch (error) {
-        this.log('[UnitRegistry] Failed to handle heating coil state changed callback:', error);
+    private applyHeatRecoveryCapabilities(
+      unit: UnitState,
+      device: FlexitDevice,
+      heatRecovery: ReturnType<UnitRegistry['observeHeatRecovery']>,
+    ) {
+      if (!heatRecovery) return;
+      const { efficiency, heaterActive } = heatRecovery;
+      if (efficiency) {
+        this.setCapability(device, HEAT_RECOVERY_EFFICIENCY_CAPABILITIES.exhaust, efficiency.exhaust);
+      }
+      if (heaterActive) {
+        this.setCapability(device, HEAT_RECOVERY_EFFICIENCY_CAPABILITIES.supply, null);
+        this.setCapability(device, RECOVERED_POWER_CAPABILITY, null);
+        return;
       }
+      if (efficiency) {
+        this.setCapability(device, HEAT_RECOVERY_EFFICIENCY_CAPABILITIES.supply, efficiency.supply);
+      }
+
+      const setting = device.getSetting(HEAT_RECOVERY_SMOOTHING_MINUTES_SETTING);
+      const windowMinutes = typeof setting === 'number' && Number.isFinite(setting)
+        ? clamp(setting, 0, MAX_HEAT_RECOVERY_SMOOTHING_MINUTES)
+        : DEFAULT_HEAT_RECOVERY_SMOOTHING_MINUTES;
+      const recoveredPower = smoothRecoveredPower(unit.heatRecoverySamples, windowMinutes * 60_000, Date.now());
+      if (recoveredPower !== undefined) this.setCapability(device, RECOVERED_POWER_CAPABILITY, recoveredPower);
+    }
+
+    // Integrates heater power (W) between samples with the trapezoidal rule and returns the
+    // energy added since the previous sample in kWh.
+    private observeHeaterEnergy(unit: UnitState, watts: number | undefined): number | undefined {
+      if (watts === undefined || !Number.isFinite(watts)) return undefined;
+
+      const now = Date.now();
+      const previous = unit.heaterPowerSample;
+      unit.heaterPowerSample = { at: now, watts };
+      if (!previous) return undefined;
+
+      const elapsedMs = now - previous.at;
+      if (elapsedMs <= 0 || elapsedMs > HEATER_ENERGY_MAX_GAP_MS) return undefined;
+      const kwh = (((previous.watts + watts) / 2) * (elapsedMs / 3_600_000)) / 1000;
+      return kwh > 0 ? kwh : undefined;
+    }
+
+    private applyHeaterEnergy(device: FlexitDevice, kwh: number) {
+      if (typeof device.addHeaterEnergy !== 'function') return;
+      this.logDetachedPromiseError(
+        device.addHeaterEnergy(kwh),
+        () => `[UnitRegistry] Failed to update heater energy for ${device.getData().unitId}:`,
+      );
     }
 
     private computeFilterLife(data: Record<string, number>) {
@@ -2651,6 +5060,94 @@ export class UnitRegistry {
       });
     }
 
+    private syncHumiditySetpointSettings(device: FlexitDevice, data: Record<string, number>) {
+      const updates: Record<string, number | string> = {};
+
+      for (const mode of HUMIDITY_SETPOINT_MODES) {
+        const rawValue = data[HUMIDITY_SETPOINT_DATA_KEYS[mode]];
+        if (rawValue === undefined || !Number.isFinite(rawValue)) continue;
+
+        const normalized = tryNormalizeValue(rawValue, normalizeHumiditySetpoint);
+        if (normalized === undefined) continue;
+        const settingKey = HUMIDITY_SETPOINT_SETTING_KEYS[mode];
+        const current = Number(device.getSetting(settingKey));
+        if (!Number.isFinite(current) || !valuesMatch(current, normalized)) {
+          updates[settingKey] = normalized;
+        }
+      }
+
+      // The present setpoint and max limit are informational, shown as read-only labels.
+      const labels: Array<[string, number | undefined]> = [
+        [HUMIDITY_SETPOINT_PRESENT_SETTING, data.humidity_setpoint_present],
+        [HUMIDITY_LIMIT_MAX_SETTING, data.humidity_limit_max],
+      ];
+      for (const [settingKey, rawValue] of labels) {
+        if (rawValue === undefined || !Number.isFinite(rawValue)) continue;
+        const label = `${Math.round(rawValue)} %`;
+        if (device.getSetting(settingKey) !== label) updates[settingKey] = label;
+      }
+
+      if (Object.keys(updates).length === 0) return;
+
+      this.updateDeviceSettings(device, updates).catch((err) => {
+        this.log(
+          `[UnitRegistry] Failed to sync humidity setpoint settings for ${device.getData().unitId}:`,
+          err,
+        );
+      });
+    }
+
+    private syncHeatExchangerSettings(device: FlexitDevice, data: Record<string, number>) {
+      const updates: Record<string, string> = {};
+      const labels: Array<[string, number | undefined, string]> = [
+        [HEAT_EXCHANGER_SPEED_FEEDBACK_SETTING, data.heat_exchanger_speed_feedback, ''],
+        [HEAT_EXCHANGER_DEICING_SPEED_SETTING, data.heat_exchanger_deicing_speed, ' %'],
+        [HEAT_EXCHANGER_MOTOR_FAILURES_SETTING, data[HEAT_EXCHANGER_MOTOR_FAILURES_DATA_KEY], ''],
+      ];
+      for (const [settingKey, rawValue, unitSuffix] of labels) {
+        if (rawValue === undefined || !Number.isFinite(rawValue)) continue;
+        const label = `${Math.round(rawValue)}${unitSuffix}`;
+        if (device.getSetting(settingKey) !== label) updates[settingKey] = label;
+      }
+
+      if (Object.keys(updates).length === 0) return;
+
+      this.updateDeviceSettings(device, updates).catch((err) => {
+        this.log(
+          `[UnitRegistry] Failed to sync heat exchanger settings for ${device.getData().unitId}:`,
+          err,
+        );
+      });
+    }
+
+    private syncNeutralZoneSettings(device: FlexitDevice, data: Record<string, number>) {
+      const updates: Record<string, number> = {};
+
+      for (const kind of NEUTRAL_ZONE_KINDS) {
+        for (const mode of NEUTRAL_ZONE_MODES) {
+          const rawValue = data[neutralZoneDataKey(kind, mode)];
+          if (rawValue === undefined || !Number.isFinite(rawValue)) continue;
+
+          const normalized = tryNormalizeValue(rawValue, normalizeNeutralZone);
+          if (normalized === undefined) continue;
+          const settingKey = NEUTRAL_ZONE_SETTING_KEYS[kind][mode];
+          const current = Number(device.getSetting(settingKey));
+          if (!Number.isFinite(current) || !valuesMatch(current, normalized)) {
+            updates[settingKey] = normalized;
+          }
+        }
+      }
+
+      if (Object.keys(updates).length === 0) return;
+
+      this.updateDeviceSettings(device, updates).catch((err) => {
+        this.log(
+          `[UnitRegistry] Failed to sync neutral zone settings for ${device.getData().unitId}:`,
+          err,
+        );
+      });
+    }
+
     private syncFanProfileSettings(device: FlexitDevice, data: Record<string, number>) {
       const updates: Record<string, number> = {};
 
@@ -2685,6 +5182,37 @@ export class UnitRegistry {
       });
     }
 
+    private syncTemporaryDurationSettings(device: FlexitDevice, data: Record<string, number>) {
+      this.syncFireplaceDurationSetting(device, data[FIREPLACE_DURATION_DATA_KEY]);
+      this.syncRapidDurationSetting(device, data[RAPID_DURATION_DATA_KEY]);
+    }
+
+    private syncRapidDurationSetting(device: FlexitDevice, runtimeValue: number | undefined) {
+      if (runtimeValue === undefined || !Number.isFinite(runtimeValue)) return;
+
+      const normalizedRuntime = tryNormalizeValue(runtimeValue, normalizeRapidDurationMinutes);
+      if (normalizedRuntime === undefined) {
+        this.log(
+          `[UnitRegistry] Ignoring out-of-range high ventilation duration ${runtimeValue}`
+          + ` from ${device.getData().unitId}`,
+        );
+        return;
+      }
+      const currentSettingValue = Number(device.getSetting(RAPID_DURATION_SETTING));
+      if (Number.isFinite(currentSettingValue) && Math.abs(currentSettingValue - normalizedRuntime) < 0.5) {
+        return;
+      }
+
+      this.updateDeviceSettings(device, {
+        [RAPID_DURATION_SETTING]: normalizedRuntime,
+      }).catch((err) => {
+        this.log(
+          `[UnitRegistry] Failed to sync high ventilation duration setting for ${device.getData().unitId}:`,
+          err,
+        );
+      });
+    }
+
     private syncFireplaceDurationSetting(device: FlexitDevice, runtimeValue: number | undefined) {
       if (runtimeValue === undefined || !Number.isFinite(runtimeValue)) return;
 
@@ -2871,7 +5399,7 @@ export class UnitRegistry {
       }
     }
 
-    private setCapability(device: FlexitDevice, capability: string, value: number | string | boolean) {
+    private setCapability(device: FlexitDevice, capability: string, value: number | string | boolean | null) {
       this.logDetachedPromiseError(
         device.setCapabilityValue(capability, value),
         () => `[UnitRegistry] Failed to set capability '${capability}' for ${device.getData().unitId}:`,
@@ -2988,6 +5516,28 @@ export class UnitRegistry {
       return active;
     }
 
+    /** Reads the present value of any point in the point catalog directly from the unit. */
+    async readPointValue(unitId: string, pointKey: string): Promise<number> {
+      const unit = this.units.get(unitId);
+      if (!unit) throw new Error('Unit not found');
+
+      const point = resolveCatalogPoint(pointKey);
+      const objectId = { type: point.type, instance: point.instance };
+      if (unit.transport === 'cloud') {
+        const value = await this.cloudReadDatapointValue(unit, objectId);
+        if (value === undefined) throw new Error(`No value returned for ${formatCatalogPoint(point)}`);
+        return value;
+      }
+
+      const client = this.dependencies.getBacnetClient(unit.bacnetPort);
+      const value = await this.readPresentValue(client, unit, objectId);
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`No value returned for ${formatCatalogPoint(point)}`);
+      }
+      unit.probeValues.set(point.key, value);
+      return value;
+    }
+
     async getHeatingCoilEnabled(unitId: string): Promise<boolean> {
       const unit = this.units.get(unitId);
       if (!unit) throw new Error('Unit not found');
@@ -3032,6 +5582,7 @@ export class UnitRegistry {
       this.log(`[UnitRegistry] Setting heating coil ${state} for ${unitId}`);
       const unit = this.units.get(unitId);
       if (!unit) throw new Error('Unit not found');
+      if (this.queueOfflineWrite(unit, { kind: 'heating_coil', enabled })) return undefined;
       if (unit.transport === 'cloud') return this.cloudSetHeatingCoilEnabled(unit, enabled);
       const writeOptions: WriteOptions = {
         maxSegments: BacnetEnums.MaxSegmentsAccepted.SEGMENTS_0,
@@ -3061,10 +5612,199 @@ export class UnitRegistry {
       });
     }
 
+    async acknowledgeAlarms(unitId: string) {
+      this.log(`[UnitRegistry] Acknowledging alarms for ${unitId}`);
+      const unit = this.units.get(unitId);
+      if (!unit) throw new Error('Unit not found');
+      if (unit.transport === 'cloud') return this.cloudAcknowledgeAlarms(unit);
+      const writeOptions: WriteOptions = {
+        maxSegments: BacnetEnums.MaxSegmentsAccepted.SEGMENTS_0,
+        maxApdu: BacnetEnums.MaxApduLengthAccepted.OCTETS_1476,
+        priority: DEFAULT_WRITE_PRIORITY,
+      };
+
+      return this.enqueueWrite(unit, async () => {
+        const context: FanModeWriteContext = {
+          unit,
+          mode: 'alarm_acknowledge',
+          writeOptions,
+          client: this.dependencies.getBacnetClient(unit.bacnetPort),
+          ventilationModeKey: VENTILATION_MODE_KEY,
+          comfortButtonKey: COMFORT_BUTTON_KEY,
+        };
+
+        for (const objectId of [BACNET_OBJECTS.faultAcknowledge, BACNET_OBJECTS.maintenanceAcknowledge]) {
+          const writeOk = await this.writeUpdate(context, {
+            objectId,
+            tag: BacnetEnums.ApplicationTags.UNSIGNED_INTEGER,
+            value: ALARM_ACKNOWLEDGE_VALUE,
+            priority: DEFAULT_WRITE_PRIORITY,
+          });
+          if (!writeOk) throw new Error(`Failed to acknowledge alarms via ${describeBacnetObject(objectId)}`);
+        }
+
+        this.pollUnit(unitId);
+      });
+    }
+
+    async getOperatingModeSchedule(unitId: string): Promise<UnitSchedule> {
+      const unit = this.units.get(unitId);
+      if (!unit) throw new Error('Unit not found');
+      if (unit.transport === 'cloud') throw new Error('The operating mode schedule is only available over BACnet');
+      return this.readOperatingModeSchedule(unit);
+    }
+
+    /**
+     * Writes the given weekdays and/or exception schedule. Days left out keep what the
+     * unit has: the weekly schedule is read from the unit and only the given days change.
+     * Resolves with no schedule when the unit is offline and the write was queued.
+     */
+    async setOperatingModeSchedule(unitId: string, update: UnitScheduleUpdate): Promise<UnitSchedule | undefined> {
+      this.log(`[UnitRegistry] Writing operating mode schedule for ${unitId}`);
+      const unit = this.units.get(unitId);
+      if (!unit) throw new Error('Unit not found');
+      if (unit.transport === 'cloud') throw new Error('The operating mode schedule is only available over BACnet');
+      if (this.queueOfflineWrite(unit, { kind: 'schedule', ...update })) return undefined;
+
+      return this.enqueueWrite(unit, async () => {
+        const target = this.getScheduleRequestTarget(unit);
+        const writes: Array<{ propertyId: number; value: Buffer }> = [];
+        if (update.weekly && Object.keys(update.weekly).length > 0) {
+          const current = SCHEDULE_WEEKDAYS.every((day) => update.weekly?.[day])
+            ? createEmptyWeeklySchedule()
+            : decodeWeeklySchedule(
+              await readScheduleProperty(target, BACNET_OBJECTS.operatingModeSchedule, WEEKLY_SCHEDULE_PROPERTY_ID),
+            );
+          writes.push({
+            propertyId: WEEKLY_SCHEDULE_PROPERTY_ID,
+            value: encodeWeeklySchedule({ ...current, ...update.weekly }, OPERATING_MODE_SCHEDULE_VALUE_TAG),
+          });
+        }
+        if (update.exceptions) {
+          writes.push({
+            propertyId: EXCEPTION_SCHEDULE_PROPERTY_ID,
+            value: encodeExceptionSchedule(update.exceptions, OPERATING_MODE_SCHEDULE_VALUE_TAG),
+          });
+        }
+        for (const write of writes) {
+          await writeScheduleProperty(target, BACNET_OBJECTS.operatingModeSchedule, write.propertyId, write.value);
+        }
+
+        const schedule = await this.readOperatingModeSchedule(unit);
+        const readBack: Record<number, Buffer> = {
+          [WEEKLY_SCHEDULE_PROPERTY_ID]: encodeWeeklySchedule(schedule.weekly, OPERATING_MODE_SCHEDULE_VALUE_TAG),
+          [EXCEPTION_SCHEDULE_PROPERTY_ID]: encodeExceptionSchedule(
+            schedule.exceptions,
+            OPERATING_MODE_SCHEDULE_VALUE_TAG,
+          ),
+        };
+        const mismatch = writes.find((write) => !readBack[write.propertyId].equals(write.value));
+        if (mismatch) {
+          throw new Error(`Operating mode schedule property ${mismatch.propertyId} did not read back as written`);
+        }
+
+        this.getLogger()?.info('registry.schedule.write', 'Updated operating mode schedule', {
+          unitId,
+          weekdays: Object.keys(update.weekly ?? {}).join(','),
+          exceptionCount: update.exceptions?.length,
+        });
+        unit.scheduleSettingsReadAt = Date.now();
+        this.syncScheduleSettings(unit, schedule);
+        return schedule;
+      });
+    }
+
+    private getScheduleRequestTarget(unit: UnitState): ScheduleRequestTarget {
+      return {
+        client: this.dependencies.getBacnetClient(unit.bacnetPort),
+        address: unit.ip,
+        timeoutMs: this.getWriteTimeoutMs(),
+      };
+    }
+
+    private async readOperatingModeSchedule(unit: UnitState): Promise<UnitSchedule> {
+      const target = this.getScheduleRequestTarget(unit);
+      const objectId = BACNET_OBJECTS.operatingModeSchedule;
+      const weekly = await readScheduleProperty(target, objectId, WEEKLY_SCHEDULE_PROPERTY_ID);
+      const exceptions = await readScheduleProperty(target, objectId, EXCEPTION_SCHEDULE_PROPERTY_ID);
+      return {
+        weekly: decodeWeeklySchedule(weekly),
+        exceptions: decodeExceptionSchedule(exceptions),
+      };
+    }
+
+    // Refreshes the schedule settings at the settings tier interval, so changes made on the
+    // panel or in Flexit GO reach them; a failed read is retried on the next poll.
+    private maybeSyncScheduleSettings(unit: UnitState) {
+      if (unit.scheduleSettingsReadInFlight || unit.transport === 'cloud') return;
+      const readAt = unit.scheduleSettingsReadAt;
+      if (readAt !== undefined && Date.now() - readAt < this.getPollTierIntervalMs(unit, 'settings')) return;
+      // Only devices that expose the schedule settings need the initial read.
+      const hasScheduleSettings = Array.from(unit.devices).some((device) => {
+        const value = device.getSetting(SCHEDULE_SETTING_KEYS[0]);
+        return value !== null && value !== undefined;
+      });
+      if (!hasScheduleSettings) return;
+
+      unit.scheduleSettingsReadInFlight = true;
+      this.readOperatingModeSchedule(unit)
+        .then((schedule) => {
+          unit.scheduleSettingsReadAt = Date.now();
+          this.syncScheduleSettings(unit, schedule);
+        })
+        .catch((error) => {
+          this.log(`[UnitRegistry] Failed to read operating mode schedule for ${unit.unitId}:`, error);
+        })
+        .finally(() => {
+          unit.scheduleSettingsReadInFlight = false;
+        });
+    }
+
+    private syncScheduleSettings(unit: UnitState, schedule: UnitSchedule) {
+      const settings = formatScheduleSettings(schedule.weekly, schedule.exceptions);
+      for (const device of unit.devices) {
+        const updates: Record<string, string> = {};
+        for (const [key, value] of Object.entries(settings)) {
+          const current = device.getSetting(key);
+          if (current === null || current === undefined || current === value) continue;
+          updates[key] = value;
+        }
+        if (Object.keys(updates).length === 0) continue;
+
+        this.updateDeviceSettings(device, updates).catch((err) => {
+          this.log(`[UnitRegistry] Failed to sync schedule settings for ${unit.unitId}:`, err);
+        });
+      }
+    }
+
+    private applyOperatingHours(unit: UnitState, hours: OperatingHours) {
+      if (Object.keys(hours).length === 0) return;
+      for (const device of unit.devices) {
+        for (const counter of OPERATING_HOUR_COUNTERS) {
+          const capability = OPERATING_HOURS_CAPABILITIES[counter];
+          const value = hours[counter];
+          if (capability && value !== undefined) this.setCapability(device, capability, Math.round(value));
+        }
+        if (typeof device.recordOperatingHours !== 'function') continue;
+        this.logDetachedPromiseError(
+          device.recordOperatingHours(hours),
+          () => `[UnitRegistry] Failed to record operating hours for ${unit.unitId}:`,
+        );
+      }
+    }
+
     async setFanMode(unitId: string, mode: string) {
       this.log(`[UnitRegistry] Setting fan mode to '${mode}' for ${unitId}`);
       const unit = this.units.get(unitId);
       if (!unit) throw new Error('Unit not found');
+      if ((TIMED_MODES as readonly string[]).includes(mode)) {
+        // Replayed later, these would start timed ventilation nobody asked for at that time.
+        if (!unit.available && this.isOfflineWriteQueueEnabled(unit)) {
+          throw new Error(`The unit is unavailable; ${mode} ventilation is not queued.`);
+        }
+      } else if (this.queueOfflineWrite(unit, { kind: 'fan_mode', mode })) {
+        return undefined;
+      }
       if (unit.transport === 'cloud') return this.cloudSetFanMode(unit, mode);
       const writeOptions: WriteOptions = {
         maxSegments: BacnetEnums.MaxSegmentsAccepted.SEGMENTS_0,
@@ -3148,6 +5888,27 @@ export class UnitRegistry {
       }
     }
 
+    private resolveActiveTemporaryModes(unit: UnitState) {
+      const operationMode = Math.round(unit.probeValues.get(OPERATION_MODE_KEY) ?? NaN);
+      const rapidActive = (unit.probeValues.get(RAPID_ACTIVE_KEY) ?? 0) === 1;
+      const fireplaceActive = (unit.probeValues.get(FIREPLACE_ACTIVE_KEY) ?? 0) === 1;
+      return {
+        rapid: rapidActive || operationMode === OPERATION_MODE_VALUES.TEMPORARY_HIGH,
+        fireplace: fireplaceActive || operationMode === OPERATION_MODE_VALUES.FIREPLACE,
+        cooker: operationMode === OPERATION_MODE_VALUES.COOKER_HOOD
+          || this.hasPendingWriteValue(unit, COOKER_HOOD_KEY, 1),
+      };
+    }
+
+    private expectTimedModeRestart(unit: UnitState, timedMode: TimedMode) {
+      unit.deferredMode = undefined;
+      unit.deferredSince = undefined;
+      unit.expectedMode = timedMode;
+      unit.expectedModeAt = Date.now();
+      unit.lastMismatchKey = undefined;
+      unit.timedModeRestartUntil = Date.now() + TIMED_MODE_RESTART_GRACE_MS;
+    }
+
     private shouldSkipWrite(unit: UnitState, key: string, current: number | undefined, desired: number) {
       if (current === undefined || !valuesMatch(current, desired)) return false;
       const lastWrite = unit.lastWriteValues.get(key);
@@ -3179,11 +5940,12 @@ export class UnitRegistry {
       err: any,
     ): boolean {
       const now = Date.now();
+      this.markPollTierWritten(unit, update.objectId);
       if (!err) {
         unit.lastWriteValues.set(writeKey, { value: update.value, at: now });
         this.log(
           '[UnitRegistry] Successfully wrote'
-          + ` ${update.objectId.type}:${update.objectId.instance}`
+          + ` ${describeBacnetObject(update.objectId)}`
           + ` to ${formatWriteValue(update.value)}`,
         );
         return true;
@@ -3198,7 +5960,7 @@ export class UnitRegistry {
           unit.pendingWriteErrors.set(writeKey, { value: update.value, code });
         }
         this.log(
-          `[UnitRegistry] Write returned Code:37 for ${writeKey};`
+          `[UnitRegistry] Write returned Code:37 for ${describeBacnetObject(update.objectId)};`
           + ' will verify on next poll.',
         );
         return true;
@@ -3210,13 +5972,13 @@ export class UnitRegistry {
         unit.lastWriteValues.set(writeKey, { value: update.value, at: now });
         if (NEVER_BLOCK_KEYS.has(writeKey)) {
           this.log(
-            `[UnitRegistry] Write unsupported for ${writeKey},`
+            `[UnitRegistry] Write unsupported for ${describeBacnetObject(update.objectId)},`
             + ' but will keep retrying.',
           );
         } else {
           unit.blockedWrites.add(writeKey);
           this.log(
-            `[UnitRegistry] Disabling writes for ${writeKey}`
+            `[UnitRegistry] Disabling writes for ${describeBacnetObject(update.objectId)}`
             + ' (unsupported object on unit).',
           );
         }
@@ -3227,20 +5989,20 @@ export class UnitRegistry {
         unit.lastWriteValues.set(writeKey, { value: update.value, at: now });
         if (NEVER_BLOCK_KEYS.has(writeKey)) {
           this.log(
-            `[UnitRegistry] Write denied for ${writeKey},`
+            `[UnitRegistry] Write denied for ${describeBacnetObject(update.objectId)},`
             + ' but will keep retrying.',
           );
         } else {
           unit.blockedWrites.add(writeKey);
           this.log(
-            `[UnitRegistry] Disabling writes for ${writeKey}`
+            `[UnitRegistry] Disabling writes for ${describeBacnetObject(update.objectId)}`
             + ' due to device error.',
           );
         }
       } else {
         this.error(
           '[UnitRegistry] Failed to write'
-          + ` ${update.objectId.type}:${update.objectId.instance}`
+          + ` ${describeBacnetObject(update.objectId)}`
           + ` to ${formatWriteValue(update.value)}`,
           err,
         );
@@ -3251,8 +6013,18 @@ export class UnitRegistry {
     private async writeUpdate(context: FanModeWriteContext, update: WriteUpdate) {
       const { unit } = context;
       const writeKey = objectKey(update.objectId.type, update.objectId.instance);
+      const options = this.buildWriteOptions(context, update);
+      // Captured up front: the BACnet callback runs outside the caller's log context.
+      const origin = resolveWriteJournalOrigin(getLogContext());
+      const record = (outcome: WriteJournalOutcome, error?: unknown) => this.recordWrite(unit, origin, {
+        objectId: update.objectId, value: update.value, priority: options.priority, outcome, error,
+      });
       if (unit.blockedWrites.has(writeKey)) {
-        this.log(`[UnitRegistry] Skipping write ${writeKey} (write access denied previously)`);
+        this.log(
+          `[UnitRegistry] Skipping write ${describeBacnetObject(update.objectId)}`
+          + ' (write access denied previously)',
+        );
+        record('blocked');
         return false;
       }
 
@@ -3261,17 +6033,17 @@ export class UnitRegistry {
         const tm = setTimeout(() => {
           if (!handled) {
             handled = true;
-            this.error(`[UnitRegistry] Timeout writing ${update.objectId.type}:${update.objectId.instance}`);
+            this.error(`[UnitRegistry] Timeout writing ${describeBacnetObject(update.objectId)}`);
+            record('timeout');
             resolve(false);
           }
         }, this.getWriteTimeoutMs());
 
         try {
           this.log(
-            `[UnitRegistry] Writing ${update.objectId.type}:${update.objectId.instance}`
+            `[UnitRegistry] Writing ${describeBacnetObject(update.objectId)}`
             + ` = ${formatWriteValue(update.value)}`,
           );
-          const options = this.buildWriteOptions(context, update);
           const values = update.value === null
             ? [{ type: BacnetEnums.ApplicationTags.NULL, value: null }]
             : [{ type: update.tag, value: update.value }];
@@ -3286,7 +6058,9 @@ export class UnitRegistry {
               if (handled) return;
               handled = true;
               clearTimeout(tm);
-              resolve(this.handleWriteUpdateResult(unit, writeKey, update, err));
+              const accepted = this.handleWriteUpdateResult(unit, writeKey, update, err);
+              record(accepted ? 'ok' : 'failed', err ?? undefined);
+              resolve(accepted);
             },
           );
         } catch (e) {
@@ -3294,9 +6068,10 @@ export class UnitRegistry {
             handled = true;
             clearTimeout(tm);
             this.error(
-              `[UnitRegistry] Sync error writing ${update.objectId.type}:${update.objectId.instance}:`,
+              `[UnitRegistry] Sync error writing ${describeBacnetObject(update.objectId)}:`,
               e,
             );
+            record('failed', e);
             resolve(false);
           }
         }
@@ -3441,7 +6216,7 @@ export class UnitRegistry {
         const tm = setTimeout(() => {
           if (!handled) {
             handled = true;
-            reject(new Error(`Timeout reading ${objectIds.map((obj) => `${obj.type}:${obj.instance}`).join(', ')}`));
+            reject(new Error(`Timeout reading ${objectIds.map(describeBacnetObject).join(', ')}`));
           }
         }, 5000);
 
@@ -3479,7 +6254,7 @@ export class UnitRegistry {
             for (const objectId of objectIds) {
               const key = objectKey(objectId.type, objectId.instance);
               if (!extracted.has(key)) {
-                reject(new Error(`Missing present value for ${objectId.type}:${objectId.instance}`));
+                reject(new Error(`Missing present value for ${describeBacnetObject(objectId)}`));
                 return;
               }
             }
@@ -3527,19 +6302,16 @@ export class UnitRegistry {
 
       const { plantId } = unit.cloud;
 
-      const paths = POLL_REQUEST.map((req: any) => {
-        const objId = req.objectId;
-        return bacnetObjectToCloudPath(objId.type, objId.instance);
-      }).filter((path) => !unit.unsupportedCloudPollPaths.has(path));
-
-      if (paths.length === 0) {
+      const plan = this.planPoll(unit);
+      const paths = cloudPollPaths(unit, plan.tiers);
+      if (paths.length === 0 && cloudPollPaths(unit, POLL_TIERS).length === 0) {
         this.stopCloudPollingDueToNoSupportedDatapoints(unit);
         return;
       }
 
-      let values: Record<string, any>;
+      let values: Record<string, any> = {};
       try {
-        values = await this.readCloudPollDatapoints(unit, plantId, paths);
+        if (paths.length > 0) values = await this.readCloudPollDatapoints(unit, plantId, paths);
       } catch (err) {
         unit.pollInFlight = false;
         if (err instanceof AuthenticationError) {
@@ -3569,8 +6341,9 @@ export class UnitRegistry {
       try {
         this.handlePollSuccess(unit);
         unit.lastPollAt = Date.now();
-        const data = this.parseCloudPollValues(unit, values);
-        this.distributeData(unit, data);
+        this.markPollTiersRead(unit, plan);
+        const data = this.parseCloudPollValues(unit, values, plan.startedAt);
+        this.distributeData(unit, this.expandObservedData(unit, data));
       } catch (e) {
         this.error(`[UnitRegistry] Cloud parse error for ${unit.unitId}:`, e);
       } finally {
@@ -3679,6 +6452,7 @@ export class UnitRegistry {
       unit.consecutiveFailures++;
       if (unit.consecutiveFailures >= MAX_CLOUD_CONSECUTIVE_FAILURES && unit.available) {
         unit.available = false;
+        unit.heaterPowerSample = undefined;
         this.log(
           `[UnitRegistry] Cloud unit ${unit.unitId} marked unavailable after`
           + ` ${unit.consecutiveFailures} consecutive failures`,
@@ -3695,9 +6469,12 @@ export class UnitRegistry {
     private parseCloudPollValues(
       unit: UnitState,
       values: Record<string, any>,
+      readStartedAt: number,
     ): Record<string, number> {
       const target: PollParseTarget = { data: {} };
       const { plantId } = unit.cloud!;
+      const pollTime = Date.now();
+      let journalChanged = false;
 
       for (const [fullPath, entry] of Object.entries(values)) {
         const pathPart = fullPath.startsWith(plantId)
@@ -3715,8 +6492,11 @@ export class UnitRegistry {
         const key = objectKey(objectType, instance);
         const mapper = POLL_VALUE_MAPPINGS[key];
         if (mapper) mapper(val, target);
+        journalChanged = this.observeWriteJournal(unit, key, val, { at: pollTime, startedAt: readStartedAt })
+          || journalChanged;
         unit.probeValues.set(key, val);
       }
+      if (journalChanged) this.saveWriteJournal(unit);
 
       const extractTemp = selectExtractTemperature(target.extractTempPrimary, target.extractTempAlt);
       if (extractTemp !== undefined) {
@@ -3733,9 +6513,12 @@ export class UnitRegistry {
       if (!unit.cloud) return false;
       const { plantId, client } = unit.cloud;
       const path = bacnetObjectToCloudPath(objectId.type, objectId.instance);
+      const origin = resolveWriteJournalOrigin(getLogContext());
 
       try {
         const success = await client.writeDatapoint(plantId, path, value);
+        this.markPollTierWritten(unit, objectId);
+        this.recordWrite(unit, origin, { objectId, value, outcome: success ? 'ok' : 'failed' });
         if (!success) {
           this.error(
             `[UnitRegistry] Cloud writeDatapoint returned unsuccessful response for ${unit.unitId}`
@@ -3744,6 +6527,7 @@ export class UnitRegistry {
         }
         return success;
       } catch (err) {
+        this.recordWrite(unit, origin, { objectId, value, outcome: 'failed', error: err });
         if (err instanceof AuthenticationError) {
           throw err;
         }
@@ -3898,6 +6682,53 @@ export class UnitRegistry {
       );
     }
 
+    private async cloudStartRapidVentilation(unit: UnitState) {
+      const active = this.resolveActiveTemporaryModes(unit);
+      this.expectTimedModeRestart(unit, 'high');
+
+      if (active.fireplace) {
+        await this.cloudWriteDatapoint(unit, BACNET_OBJECTS.fireplaceVentilationTrigger, TRIGGER_VALUE);
+      }
+      if (active.cooker) await this.cloudWriteDatapoint(unit, BACNET_OBJECTS.cookerHood, null);
+      if (unit.probeValues.get(COMFORT_BUTTON_KEY) !== 1) {
+        await this.cloudWriteDatapoint(unit, BACNET_OBJECTS.comfortButton, 1);
+      }
+      if (active.rapid) {
+        await this.cloudWriteDatapoint(unit, BACNET_OBJECTS.rapidVentilationTrigger, TRIGGER_VALUE);
+      }
+      const success = await this.cloudWriteDatapoint(
+        unit, BACNET_OBJECTS.rapidVentilationTrigger, TRIGGER_VALUE,
+      );
+      if (!success) throw new Error('Failed to trigger high ventilation via cloud');
+
+      await this.cloudPollUnit(unit);
+    }
+
+    private async cloudExtendTimedMode(
+      unit: UnitState,
+      timedMode: TimedMode,
+      runtime: number,
+      configuredRuntime: number | undefined,
+    ) {
+      const objects = TIMED_MODE_OBJECTS[timedMode];
+      if (!await this.cloudWriteDatapoint(unit, objects.trigger, TRIGGER_VALUE)) {
+        throw new Error(`Failed to extend ${timedMode} ventilation via cloud`);
+      }
+      let restarted = false;
+      try {
+        restarted = await this.cloudWriteDatapoint(unit, objects.runtime, runtime)
+          && await this.cloudWriteDatapoint(unit, objects.trigger, TRIGGER_VALUE);
+      } finally {
+        if (configuredRuntime !== undefined && configuredRuntime !== runtime) {
+          await this.cloudWriteDatapoint(unit, objects.runtime, Math.round(configuredRuntime));
+        }
+      }
+      if (!restarted) throw new Error(`Failed to extend ${timedMode} ventilation via cloud`);
+      unit.timedModeRestartUntil = Date.now() + TIMED_MODE_RESTART_GRACE_MS;
+
+      await this.cloudPollUnit(unit);
+    }
+
     private async cloudSetFanMode(unit: UnitState, mode: string) {
       this.log(`[UnitRegistry] Cloud: setting fan mode to '${mode}' for ${unit.unitId}`);
 
@@ -3987,6 +6818,15 @@ export class UnitRegistry {
 
       await this.cloudPollUnit(unit);
     }
+
+    private async cloudAcknowledgeAlarms(unit: UnitState) {
+      this.log(`[UnitRegistry] Cloud: acknowledging alarms for ${unit.unitId}`);
+      for (const objectId of [BACNET_OBJECTS.faultAcknowledge, BACNET_OBJECTS.maintenanceAcknowledge]) {
+        const success = await this.cloudWriteDatapoint(unit, objectId, ALARM_ACKNOWLEDGE_VALUE);
+        if (!success) throw new Error('Failed to acknowledge alarms via cloud');
+      }
+      await this.cloudPollUnit(unit);
+    }
 }
 
 export const Registry = new UnitRegistry();
@@ -4,6 +4,7 @@
  */
 import Bacnet from 'bacstack';
 import { RuntimeLogger } from './logging';
+import { BacnetIpTransport, ForeignDeviceRegistration } from './bacnetTransport';
 
 type BacnetClient = any;
 type BacnetLogger = RuntimeLogger;
@@ -12,11 +13,15 @@ type BacnetModule = {
     port: number;
     apduTimeout: number;
     apduSize: number;
+    transport?: BacnetIpTransport;
   }): BacnetClient;
   enum: Record<string, any>;
 };
 
+const DEFAULT_BROADCAST_ADDRESS = '255.255.255.255';
 const clientsByPort = new Map<number, BacnetClient>();
+const transportsByPort = new Map<number, BacnetIpTransport>();
+const foreignDeviceRegistrations = new Map<number, ForeignDeviceRegistration>();
 let bacnetLogger: BacnetLogger | undefined;
 const defaultBacnetModule = Bacnet as unknown as BacnetModule;
 let bacnetModule = defaultBacnetModule;
@@ -27,12 +32,16 @@ export function setBacnetLogger(logger: BacnetLogger) {
 
 export function setBacnetModuleForTests(module: BacnetModule) {
   clientsByPort.clear();
+  transportsByPort.clear();
+  foreignDeviceRegistrations.clear();
   bacnetLogger = undefined;
   bacnetModule = module;
 }
 
 export function resetBacnetClientStateForTests() {
   clientsByPort.clear();
+  transportsByPort.clear();
+  foreignDeviceRegistrations.clear();
   bacnetLogger = undefined;
   bacnetModule = defaultBacnetModule;
 }
@@ -43,11 +52,19 @@ export function getBacnetClient(port: number): BacnetClient {
   const existing = clientsByPort.get(p);
   if (existing) return existing;
 
+  const transport = new BacnetIpTransport({
+    port: p,
+    broadcastAddress: DEFAULT_BROADCAST_ADDRESS,
+    getLogger: () => bacnetLogger,
+  });
+  transport.setForeignDeviceRegistration(foreignDeviceRegistrations.get(p));
+
   const BacnetModule = bacnetModule;
   const client = new BacnetModule({
     port: p,
     apduTimeout: 15000,
     apduSize: 1476, // typical max ethernet APDU
+    transport,
   });
 
   // Prevent unhandled error events from crashing the app
@@ -59,9 +76,25 @@ export function getBacnetClient(port: number): BacnetClient {
   });
 
   clientsByPort.set(p, client);
+  transportsByPort.set(p, transport);
   return client;
 }
 
+/**
+ * Registers the client on `port` as a foreign device with a BBMD, or stops the
+ * registration when `registration` is undefined. Broadcasts from that client, such
+ * as discovery Who-Is, are then distributed by the BBMD.
+ */
+export function setForeignDeviceRegistration(port: number, registration: ForeignDeviceRegistration | undefined) {
+  const p = Number(port) || 47808;
+  if (registration) {
+    foreignDeviceRegistrations.set(p, registration);
+  } else {
+    foreignDeviceRegistrations.delete(p);
+  }
+  transportsByPort.get(p)?.setForeignDeviceRegistration(registration);
+}
+
 export const BacnetEnums = new Proxy({} as Record<string, any>, {
   get(_target, property) {
     return bacnetModule.enum?.[property as keyof typeof bacnetModule.enum];
@@ -0,0 +1,631 @@
+/**
+ * Weekly- and exception-schedule support for BACnet SCHEDULE objects.
+ *
+ * bacstack cannot encode or decode the constructed BACnetDailySchedule and
+ * BACnetSpecialEvent values, so schedule reads and writes frame their own
+ * ReadProperty/WriteProperty requests and pass the raw property bytes through
+ * the small ASN.1 codec below.
+ */
+import BacnetApdu from 'bacstack/lib/apdu';
+import BacnetBvlc from 'bacstack/lib/bvlc';
+import BacnetNpdu from 'bacstack/lib/npdu';
+import { BacnetEnums } from './bacnetClient';
+
+export const SCHEDULE_WEEKDAYS = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+] as const;
+export type ScheduleWeekday = (typeof SCHEDULE_WEEKDAYS)[number];
+
+export interface ScheduleTimeValue {
+  /** Local time of day, `HH:MM` or `HH:MM:SS`. */
+  time: string;
+  /** Scheduled value; `null` relinquishes back to the schedule default. */
+  value: number | null;
+}
+
+export type WeeklySchedule = Record<ScheduleWeekday, ScheduleTimeValue[]>;
+
+/**
+ * Dates use `YYYY-MM-DD`; any field may be `*` to match every year, month or
+ * day, as BACnet allows (e.g. `*-12-24`).
+ */
+export type ScheduleExceptionPeriod =
+  | { kind: 'date'; date: string }
+  | { kind: 'dateRange'; startDate: string; endDate: string }
+  | { kind: 'weekNDay'; month: number | null; weekOfMonth: number | null; dayOfWeek: number | null }
+  | { kind: 'calendar'; calendarInstance: number };
+
+export interface ScheduleException {
+  period: ScheduleExceptionPeriod;
+  timeValues: ScheduleTimeValue[];
+  /** BACnet event priority, 1 (highest) to 16. */
+  priority: number;
+}
+
+export const WEEKLY_SCHEDULE_PROPERTY_ID = 123;
+export const EXCEPTION_SCHEDULE_PROPERTY_ID = 38;
+
+const TAG = {
+  NULL: 0,
+  BOOLEAN: 1,
+  UNSIGNED_INTEGER: 2,
+  SIGNED_INTEGER: 3,
+  REAL: 4,
+  ENUMERATED: 9,
+  DATE: 10,
+  TIME: 11,
+};
+const UNSPECIFIED = 0xff;
+const MIN_EVENT_PRIORITY = 1;
+const MAX_EVENT_PRIORITY = 16;
+const CALENDAR_OBJECT_TYPE = 6;
+
+type ScheduleObjectId = { type: number; instance: number };
+
+interface DecodedTag {
+  tagNumber: number;
+  context: boolean;
+  opening: boolean;
+  closing: boolean;
+  length: number;
+  headerLength: number;
+}
+
+class AsnReader {
+  offset: number;
+
+  constructor(private readonly buffer: Buffer, offset = 0, private readonly end = buffer.length) {
+    this.offset = offset;
+  }
+
+  atEnd() {
+    return this.offset >= this.end;
+  }
+
+  peekTag(): DecodedTag {
+    if (this.atEnd()) throw new Error('Unexpected end of schedule data');
+    const first = this.buffer[this.offset];
+    let headerLength = 1;
+    let tagNumber = first >> 4;
+    if (tagNumber === 0x0f) {
+      tagNumber = this.buffer[this.offset + headerLength];
+      headerLength += 1;
+    }
+    const context = (first & 0x08) !== 0;
+    const lvt = first & 0x07;
+    if (context && lvt === 6) {
+      return {
+        tagNumber, context, opening: true, closing: false, length: 0, headerLength,
+      };
+    }
+    if (context && lvt === 7) {
+      return {
+        tagNumber, context, opening: false, closing: true, length: 0, headerLength,
+      };
+    }
+
+    let length = lvt;
+    if (!context && tagNumber === TAG.BOOLEAN) {
+      // Application booleans carry their value in the length field.
+      length = 0;
+    } else if (lvt === 5) {
+      length = this.buffer[this.offset + headerLength];
+      headerLength += 1;
+      if (length === 254) {
+        length = this.buffer.readUInt16BE(this.offset + headerLength);
+        headerLength += 2;
+      } else if (length === 255) {
+        length = this.buffer.readUInt32BE(this.offset + headerLength);
+        headerLength += 4;
+      }
+    }
+    return {
+      tagNumber, context, opening: false, closing: false, length, headerLength,
+    };
+  }
+
+  isOpening(tagNumber: number) {
+    if (this.atEnd()) return false;
+    const tag = this.peekTag();
+    return tag.opening && tag.tagNumber === tagNumber;
+  }
+
+  isClosing(tagNumber: number) {
+    if (this.atEnd()) return false;
+    const tag = this.peekTag();
+    return tag.closing && tag.tagNumber === tagNumber;
+  }
+
+  isContext(tagNumber: number) {
+    if (this.atEnd()) return false;
+    const tag = this.peekTag();
+    return tag.context && !tag.opening && !tag.closing && tag.tagNumber === tagNumber;
+  }
+
+  expectOpening(tagNumber: number) {
+    if (!this.isOpening(tagNumber)) throw new Error(`Expected opening tag ${tagNumber} in schedule data`);
+    this.offset += this.peekTag().headerLength;
+  }
+
+  expectClosing(tagNumber: number) {
+    if (!this.isClosing(tagNumber)) throw new Error(`Expected closing tag ${tagNumber} in schedule data`);
+    this.offset += this.peekTag().headerLength;
+  }
+
+  readContext(tagNumber: number): Buffer {
+    if (!this.isContext(tagNumber)) throw new Error(`Expected context tag ${tagNumber} in schedule data`);
+    return this.readContent(this.peekTag());
+  }
+
+  readApplication(): { tag: DecodedTag; content: Buffer; raw: number } {
+    const tag = this.peekTag();
+    if (tag.context) throw new Error(`Unexpected context tag ${tag.tagNumber} in schedule data`);
+    const raw = this.buffer[this.offset] & 0x07;
+    return { tag, content: this.readContent(tag), raw };
+  }
+
+  /** Skips one complete element, including any constructed content. */
+  skipElement() {
+    const tag = this.peekTag();
+    if (!tag.opening) {
+      this.readContent(tag);
+      return;
+    }
+    this.offset += tag.headerLength;
+    while (!this.isClosing(tag.tagNumber)) this.skipElement();
+    this.expectClosing(tag.tagNumber);
+  }
+
+  private readContent(tag: DecodedTag): Buffer {
+    const start = this.offset + tag.headerLength;
+    const stop = start + tag.length;
+    if (stop > this.end) throw new Error('Truncated schedule data');
+    this.offset = stop;
+    return this.buffer.subarray(start, stop);
+  }
+}
+
+class AsnWriter {
+  private readonly bytes: number[] = [];
+
+  toBuffer() {
+    return Buffer.from(this.bytes);
+  }
+
+  opening(tagNumber: number) {
+    this.bytes.push((tagNumber << 4) | 0x0e);
+  }
+
+  closing(tagNumber: number) {
+    this.bytes.push((tagNumber << 4) | 0x0f);
+  }
+
+  tagged(tagNumber: number, context: boolean, content: number[]) {
+    const classBit = context ? 0x08 : 0;
+    if (content.length < 5) {
+      this.bytes.push((tagNumber << 4) | classBit | content.length);
+    } else {
+      this.bytes.push((tagNumber << 4) | classBit | 5, content.length);
+    }
+    this.bytes.push(...content);
+  }
+
+  boolean(value: boolean) {
+    // Application booleans carry their value in the length field.
+    this.bytes.push((TAG.BOOLEAN << 4) | (value ? 1 : 0));
+  }
+
+  raw(bytes: Buffer) {
+    this.bytes.push(...bytes);
+  }
+}
+
+function unsignedBytes(value: number): number[] {
+  const out: number[] = [];
+  let remaining = value;
+  do {
+    out.unshift(remaining & 0xff);
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0);
+  return out;
+}
+
+function signedBytes(value: number): number[] {
+  for (const size of [1, 2, 3, 4]) {
+    const limit = 2 ** (size * 8 - 1);
+    if (value >= -limit && value < limit) {
+      const buffer = Buffer.alloc(4);
+      buffer.writeInt32BE(value);
+      return [...buffer.subarray(4 - size)];
+    }
+  }
+  throw new Error(`Signed schedule value ${value} is out of range`);
+}
+
+function objectIdBytes(objectId: ScheduleObjectId): number[] {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(((objectId.type & 0x3ff) * 2 ** 22) + (objectId.instance & 0x3fffff));
+  return [...buffer];
+}
+
+function readUnsigned(content: Buffer): number {
+  let value = 0;
+  for (const byte of content) value = (value * 256) + byte;
+  return value;
+}
+
+function readSigned(content: Buffer): number {
+  if (content.length === 0) return 0;
+  return content.readIntBE(0, content.length);
+}
+
+function pad2(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+function decodeTime(content: Buffer): string {
+  if (content.length !== 4) throw new Error('Invalid schedule time');
+  const [hour, minute, second] = [...content].map((part) => (part === UNSPECIFIED ? 0 : part));
+  const base = `${pad2(hour)}:${pad2(minute)}`;
+  return second > 0 ? `${base}:${pad2(second)}` : base;
+}
+
+export function normalizeScheduleTime(time: string): string {
+  const match = String(time).trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) throw new Error(`Invalid schedule time "${time}"; expected HH:MM`);
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  const second = match[3] === undefined ? 0 : Number(match[3]);
+  if (hour > 23 || minute > 59 || second > 59) throw new Error(`Invalid schedule time "${time}"`);
+  const base = `${pad2(hour)}:${pad2(minute)}`;
+  return second > 0 ? `${base}:${pad2(second)}` : base;
+}
+
+function encodeTime(time: string): number[] {
+  const [hour, minute, second = 0] = normalizeScheduleTime(time).split(':').map(Number);
+  return [hour, minute, second, 0];
+}
+
+function decodeDate(content: Buffer): string {
+  if (content.length !== 4) throw new Error('Invalid schedule date');
+  const [year, month, day] = content;
+  const yearText = year === UNSPECIFIED ? '*' : String(1900 + year);
+  const monthText = month === UNSPECIFIED ? '*' : pad2(month);
+  const dayText = day === UNSPECIFIED ? '*' : pad2(day);
+  return `${yearText}-${monthText}-${dayText}`;
+}
+
+export function normalizeScheduleDate(date: string): string {
+  return decodeDate(Buffer.from(encodeDate(date)));
+}
+
+function encodeDate(date: string): number[] {
+  const match = String(date).trim().match(/^(\*|\d{4})-(\*|\d{1,2})-(\*|\d{1,2})$/);
+  if (!match) throw new Error(`Invalid schedule date "${date}"; expected YYYY-MM-DD`);
+  const year = match[1] === '*' ? UNSPECIFIED : Number(match[1]) - 1900;
+  const month = match[2] === '*' ? UNSPECIFIED : Number(match[2]);
+  const day = match[3] === '*' ? UNSPECIFIED : Number(match[3]);
+  if (year !== UNSPECIFIED && (year < 0 || year > 254)) throw new Error(`Invalid schedule year in "${date}"`);
+  if (month !== UNSPECIFIED && (month < 1 || month > 12)) throw new Error(`Invalid schedule month in "${date}"`);
+  if (day !== UNSPECIFIED && (day < 1 || day > 31)) throw new Error(`Invalid schedule day in "${date}"`);
+
+  let dayOfWeek = UNSPECIFIED;
+  if (year !== UNSPECIFIED && month !== UNSPECIFIED && day !== UNSPECIFIED) {
+    const jsDay = new Date(Date.UTC(1900 + year, month - 1, day)).getUTCDay();
+    dayOfWeek = jsDay === 0 ? 7 : jsDay;
+  }
+  return [year, month, day, dayOfWeek];
+}
+
+function decodeScheduleValue(reader: AsnReader): number | null {
+  const { tag, content, raw } = reader.readApplication();
+  switch (tag.tagNumber) {
+    case TAG.NULL:
+      return null;
+    case TAG.BOOLEAN:
+      return raw ? 1 : 0;
+    case TAG.UNSIGNED_INTEGER:
+    case TAG.ENUMERATED:
+      return readUnsigned(content);
+    case TAG.SIGNED_INTEGER:
+      return readSigned(content);
+    case TAG.REAL:
+      return content.readFloatBE(0);
+    default:
+      throw new Error(`Unsupported schedule value tag ${tag.tagNumber}`);
+  }
+}
+
+function encodeScheduleValue(writer: AsnWriter, value: number | null, valueTag: number) {
+  if (value === null) {
+    writer.tagged(TAG.NULL, false, []);
+    return;
+  }
+  if (!Number.isFinite(value)) throw new Error(`Schedule value ${value} must be numeric`);
+  switch (valueTag) {
+    case TAG.BOOLEAN:
+      writer.boolean(value !== 0);
+      return;
+    case TAG.UNSIGNED_INTEGER:
+    case TAG.ENUMERATED:
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`Schedule value ${value} must be a non-negative integer`);
+      }
+      writer.tagged(valueTag, false, unsignedBytes(value));
+      return;
+    case TAG.SIGNED_INTEGER:
+      if (!Number.isInteger(value)) throw new Error(`Schedule value ${value} must be an integer`);
+      writer.tagged(valueTag, false, signedBytes(value));
+      return;
+    case TAG.REAL: {
+      const buffer = Buffer.alloc(4);
+      buffer.writeFloatBE(value);
+      writer.tagged(valueTag, false, [...buffer]);
+      return;
+    }
+    default:
+      throw new Error(`Unsupported schedule value tag ${valueTag}`);
+  }
+}
+
+function decodeTimeValues(reader: AsnReader, closingTag: number): ScheduleTimeValue[] {
+  const entries: ScheduleTimeValue[] = [];
+  while (!reader.isClosing(closingTag)) {
+    const { tag, content } = reader.readApplication();
+    if (tag.tagNumber !== TAG.TIME) throw new Error('Expected time in schedule time-value list');
+    entries.push({ time: decodeTime(content), value: decodeScheduleValue(reader) });
+  }
+  return entries;
+}
+
+function encodeTimeValues(writer: AsnWriter, entries: ScheduleTimeValue[], valueTag: number) {
+  const sorted = [...entries].sort((a, b) => (
+    normalizeScheduleTime(a.time).localeCompare(normalizeScheduleTime(b.time))
+  ));
+  for (const entry of sorted) {
+    writer.tagged(TAG.TIME, false, encodeTime(entry.time));
+    encodeScheduleValue(writer, entry.value, valueTag);
+  }
+}
+
+export function createEmptyWeeklySchedule(): WeeklySchedule {
+  return {
+    monday: [],
+    tuesday: [],
+    wednesday: [],
+    thursday: [],
+    friday: [],
+    saturday: [],
+    sunday: [],
+  };
+}
+
+export function decodeWeeklySchedule(data: Buffer): WeeklySchedule {
+  const reader = new AsnReader(data);
+  const schedule = createEmptyWeeklySchedule();
+  let dayIndex = 0;
+  while (!reader.atEnd()) {
+    if (dayIndex >= SCHEDULE_WEEKDAYS.length) throw new Error('Weekly schedule has more than seven days');
+    reader.expectOpening(0);
+    schedule[SCHEDULE_WEEKDAYS[dayIndex]] = decodeTimeValues(reader, 0);
+    reader.expectClosing(0);
+    dayIndex += 1;
+  }
+  return schedule;
+}
+
+export function encodeWeeklySchedule(schedule: WeeklySchedule, valueTag: number): Buffer {
+  const writer = new AsnWriter();
+  for (const day of SCHEDULE_WEEKDAYS) {
+    writer.opening(0);
+    encodeTimeValues(writer, schedule[day] ?? [], valueTag);
+    writer.closing(0);
+  }
+  return writer.toBuffer();
+}
+
+function decodeExceptionPeriod(reader: AsnReader): ScheduleExceptionPeriod {
+  if (reader.isContext(1)) {
+    const objectId = readUnsigned(reader.readContext(1));
+    return { kind: 'calendar', calendarInstance: objectId & 0x3fffff };
+  }
+
+  reader.expectOpening(0);
+  let period: ScheduleExceptionPeriod;
+  if (reader.isContext(0)) {
+    period = { kind: 'date', date: decodeDate(reader.readContext(0)) };
+  } else if (reader.isOpening(1)) {
+    reader.expectOpening(1);
+    const start = reader.readApplication();
+    const end = reader.readApplication();
+    if (start.tag.tagNumber !== TAG.DATE || end.tag.tagNumber !== TAG.DATE) {
+      throw new Error('Expected dates in schedule date range');
+    }
+    reader.expectClosing(1);
+    period = { kind: 'dateRange', startDate: decodeDate(start.content), endDate: decodeDate(end.content) };
+  } else {
+    const [month, weekOfMonth, dayOfWeek] = reader.readContext(2);
+    period = {
+      kind: 'weekNDay',
+      month: month === UNSPECIFIED ? null : month,
+      weekOfMonth: weekOfMonth === UNSPECIFIED ? null : weekOfMonth,
+      dayOfWeek: dayOfWeek === UNSPECIFIED ? null : dayOfWeek,
+    };
+  }
+  reader.expectClosing(0);
+  return period;
+}
+
+function encodeExceptionPeriod(writer: AsnWriter, period: ScheduleExceptionPeriod) {
+  if (period.kind === 'calendar') {
+    writer.tagged(1, true, objectIdBytes({ type: CALENDAR_OBJECT_TYPE, instance: period.calendarInstance }));
+    return;
+  }
+
+  writer.opening(0);
+  if (period.kind === 'date') {
+    writer.tagged(0, true, encodeDate(period.date));
+  } else if (period.kind === 'dateRange') {
+    writer.opening(1);
+    writer.tagged(TAG.DATE, false, encodeDate(period.startDate));
+    writer.tagged(TAG.DATE, false, encodeDate(period.endDate));
+    writer.closing(1);
+  } else {
+    writer.tagged(2, true, [
+      period.month ?? UNSPECIFIED,
+      period.weekOfMonth ?? UNSPECIFIED,
+      period.dayOfWeek ?? UNSPECIFIED,
+    ]);
+  }
+  writer.closing(0);
+}
+
+export function decodeExceptionSchedule(data: Buffer): ScheduleException[] {
+  const reader = new AsnReader(data);
+  const exceptions: ScheduleException[] = [];
+  while (!reader.atEnd()) {
+    const period = decodeExceptionPeriod(reader);
+    reader.expectOpening(2);
+    const timeValues = decodeTimeValues(reader, 2);
+    reader.expectClosing(2);
+    const priority = readUnsigned(reader.readContext(3));
+    exceptions.push({ period, timeValues, priority });
+  }
+  return exceptions;
+}
+
+export function encodeExceptionSchedule(exceptions: ScheduleException[], valueTag: number): Buffer {
+  const writer = new AsnWriter();
+  for (const exception of exceptions) {
+    const priority = Math.round(exception.priority);
+    if (!Number.isFinite(priority) || priority < MIN_EVENT_PRIORITY || priority > MAX_EVENT_PRIORITY) {
+      throw new Error(
+        `Schedule exception priority must be between ${MIN_EVENT_PRIORITY} and ${MAX_EVENT_PRIORITY}`,
+      );
+    }
+    encodeExceptionPeriod(writer, exception.period);
+    writer.opening(2);
+    encodeTimeValues(writer, exception.timeValues, valueTag);
+    writer.closing(2);
+    writer.tagged(3, true, unsignedBytes(priority));
+  }
+  return writer.toBuffer();
+}
+
+export interface ScheduleRequestTarget {
+  /** A bacstack client; requests reuse its socket and invoke-id bookkeeping. */
+  client: any;
+  address: string;
+  timeoutMs: number;
+}
+
+function sendConfirmedRequest(
+  target: ScheduleRequestTarget,
+  service: number,
+  payload: Buffer,
+): Promise<{ buffer: Buffer; offset: number; length: number } | undefined> {
+  const { client, address, timeoutMs } = target;
+  return new Promise((resolve, reject) => {
+    let handled = false;
+    const tm = setTimeout(() => {
+      if (handled) return;
+      handled = true;
+      reject(new Error('Timeout'));
+    }, timeoutMs);
+
+    try {
+      const invokeId = client._getInvokeId();
+      const buffer = client._getBuffer();
+      BacnetNpdu.encode(
+        buffer,
+        BacnetEnums.NpduControlPriority.NORMAL_MESSAGE | BacnetEnums.NpduControlBits.EXPECTING_REPLY,
+        address,
+        null,
+        0xff,
+        BacnetEnums.NetworkLayerMessageType.WHO_IS_ROUTER_TO_NETWORK,
+        0,
+      );
+      BacnetApdu.encodeConfirmedServiceRequest(
+        buffer,
+        BacnetEnums.PduTypes.CONFIRMED_REQUEST | BacnetEnums.PduConReqBits.SEGMENTED_RESPONSE_ACCEPTED,
+        service,
+        BacnetEnums.MaxSegmentsAccepted.SEGMENTS_65,
+        BacnetEnums.MaxApduLengthAccepted.OCTETS_1476,
+        invokeId,
+        0,
+        0,
+      );
+      payload.copy(buffer.buffer, buffer.offset);
+      buffer.offset += payload.length;
+      BacnetBvlc.encode(buffer.buffer, BacnetEnums.BvlcResultPurpose.ORIGINAL_UNICAST_NPDU, buffer.offset);
+      client._addCallback(invokeId, (err: any, data: any) => {
+        if (handled) return;
+        handled = true;
+        clearTimeout(tm);
+        if (err) reject(err);
+        else resolve(data);
+      });
+      client._transport.send(buffer.buffer, buffer.offset, address);
+    } catch (error) {
+      if (handled) return;
+      handled = true;
+      clearTimeout(tm);
+      reject(error);
+    }
+  });
+}
+
+function encodePropertyReference(writer: AsnWriter, objectId: ScheduleObjectId, propertyId: number) {
+  writer.tagged(0, true, objectIdBytes(objectId));
+  writer.tagged(1, true, unsignedBytes(propertyId));
+}
+
+/** Reads a schedule property and returns the raw bytes inside the property-value tag. */
+export async function readScheduleProperty(
+  target: ScheduleRequestTarget,
+  objectId: ScheduleObjectId,
+  propertyId: number,
+): Promise<Buffer> {
+  const request = new AsnWriter();
+  encodePropertyReference(request, objectId, propertyId);
+  const data = await sendConfirmedRequest(
+    target,
+    BacnetEnums.ConfirmedServiceChoice.READ_PROPERTY,
+    request.toBuffer(),
+  );
+  if (!data) throw new Error('Empty schedule read response');
+
+  const reader = new AsnReader(data.buffer, data.offset, data.offset + data.length);
+  reader.readContext(0);
+  reader.readContext(1);
+  if (reader.isContext(2)) reader.readContext(2);
+  reader.expectOpening(3);
+  const start = reader.offset;
+  while (!reader.isClosing(3)) reader.skipElement();
+  return Buffer.from(data.buffer.subarray(start, reader.offset));
+}
+
+/** Writes raw schedule property bytes, wrapped in the property-value tag. */
+export async function writeScheduleProperty(
+  target: ScheduleRequestTarget,
+  objectId: ScheduleObjectId,
+  propertyId: number,
+  value: Buffer,
+): Promise<void> {
+  const request = new AsnWriter();
+  encodePropertyReference(request, objectId, propertyId);
+  request.opening(3);
+  request.raw(value);
+  request.closing(3);
+  await sendConfirmedRequest(
+    target,
+    BacnetEnums.ConfirmedServiceChoice.WRITE_PROPERTY,
+    request.toBuffer(),
+  );
+}
@@ -0,0 +1,256 @@
+/**
+ * BACnet/IP transport for the shared bacstack clients. Behaves like bacstack's own
+ * UDP transport, and can register as a foreign device with a BBMD (ASHRAE 135 Annex J.5)
+ * so units on another subnet or VLAN are reachable, including by broadcast.
+ */
+import dgram from 'dgram';
+import { EventEmitter } from 'events';
+import { isIPv4 } from 'net';
+import { RuntimeLogger } from './logging';
+
+export interface ForeignDeviceRegistration {
+  bbmdAddress: string;
+  bbmdPort: number;
+  ttlSeconds: number;
+}
+
+export type ForeignDeviceRegistrationState = 'disabled' | 'pending' | 'registered' | 'rejected' | 'timeout';
+
+export interface BacnetIpTransportSettings {
+  port: number;
+  interface?: string;
+  broadcastAddress: string;
+  getLogger?: () => RuntimeLogger | undefined;
+  registrationResponseTimeoutMs?: number;
+}
+
+export const DEFAULT_FOREIGN_DEVICE_TTL_SECONDS = 300;
+const MIN_FOREIGN_DEVICE_TTL_SECONDS = 30;
+const MAX_FOREIGN_DEVICE_TTL_SECONDS = 65535;
+const DEFAULT_BBMD_PORT = 47808;
+
+const BVLL_TYPE_BACNET_IP = 0x81;
+const BVLC_RESULT = 0x00;
+const BVLC_FORWARDED_NPDU = 0x04;
+const BVLC_REGISTER_FOREIGN_DEVICE = 0x05;
+const BVLC_DISTRIBUTE_BROADCAST_TO_NETWORK = 0x09;
+const BVLC_RESULT_SUCCESSFUL_COMPLETION = 0x0000;
+const BVLC_RESULT_REGISTER_FOREIGN_DEVICE_NAK = 0x0030;
+const FORWARDED_NPDU_HEADER_LENGTH = 10;
+
+const MAX_PAYLOAD = 1482;
+const DEFAULT_REGISTRATION_RESPONSE_TIMEOUT_MS = 5000;
+const REGISTRATION_RETRY_MS = 60_000;
+// The BBMD drops an entry 30 s after its TTL; renew well before that.
+const REGISTRATION_RENEW_MARGIN_SECONDS = 30;
+
+/**
+ * Parses the BBMD device settings. Returns undefined when no BBMD is configured and
+ * throws when the address is not an IPv4 address with an optional port.
+ */
+export function parseForeignDeviceRegistration(
+  address: unknown,
+  ttlSeconds: unknown,
+): ForeignDeviceRegistration | undefined {
+  const text = typeof address === 'string' ? address.trim() : '';
+  if (!text) return undefined;
+
+  const [host, portText, ...rest] = text.split(':');
+  const port = portText === undefined ? DEFAULT_BBMD_PORT : Number(portText);
+  if (rest.length > 0 || !isIPv4(host) || !Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`BBMD address "${text}" is not an IPv4 address with an optional port, e.g. 192.168.10.1:47808.`);
+  }
+
+  const ttl = Number(ttlSeconds);
+  return {
+    bbmdAddress: host,
+    bbmdPort: port,
+    ttlSeconds: Number.isFinite(ttl)
+      ? Math.min(MAX_FOREIGN_DEVICE_TTL_SECONDS, Math.max(MIN_FOREIGN_DEVICE_TTL_SECONDS, Math.round(ttl)))
+      : DEFAULT_FOREIGN_DEVICE_TTL_SECONDS,
+  };
+}
+
+export function sameForeignDeviceRegistration(
+  a: ForeignDeviceRegistration | undefined,
+  b: ForeignDeviceRegistration | undefined,
+): boolean {
+  return a?.bbmdAddress === b?.bbmdAddress && a?.bbmdPort === b?.bbmdPort && a?.ttlSeconds === b?.ttlSeconds;
+}
+
+function renewDelayMs(ttlSeconds: number): number {
+  return Math.max(ttlSeconds / 2, ttlSeconds - REGISTRATION_RENEW_MARGIN_SECONDS) * 1000;
+}
+
+export class BacnetIpTransport extends EventEmitter {
+  private readonly settings: BacnetIpTransportSettings;
+
+  private socket: dgram.Socket | null = null;
+
+  private listening = false;
+
+  private registration: ForeignDeviceRegistration | undefined;
+
+  private registrationState: ForeignDeviceRegistrationState = 'disabled';
+
+  private registrationTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private responseTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(settings: BacnetIpTransportSettings) {
+    super();
+    this.settings = settings;
+  }
+
+  getBroadcastAddress() {
+    return this.settings.broadcastAddress;
+  }
+
+  getMaxPayload() {
+    return MAX_PAYLOAD;
+  }
+
+  getForeignDeviceRegistrationState(): ForeignDeviceRegistrationState {
+    return this.registrationState;
+  }
+
+  send(buffer: Buffer, offset: number, receiver: string) {
+    if (!this.socket) return;
+    if (this.registration && receiver === this.settings.broadcastAddress) {
+      // A foreign device has no broadcast domain of its own; the BBMD broadcasts on its behalf.
+      buffer[1] = BVLC_DISTRIBUTE_BROADCAST_TO_NETWORK;
+      this.socket.send(buffer, 0, offset, this.registration.bbmdPort, this.registration.bbmdAddress);
+      return;
+    }
+    this.socket.send(buffer, 0, offset, this.settings.port, receiver);
+  }
+
+  open() {
+    if (this.socket) return;
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    socket.on('message', (message, rinfo) => this.receive(message, rinfo));
+    socket.on('error', (error) => this.emit('error', error));
+    socket.bind(this.settings.port, this.settings.interface, () => {
+      socket.setBroadcast(true);
+      this.listening = true;
+      this.register();
+    });
+    this.socket = socket;
+  }
+
+  close() {
+    this.clearRegistrationTimers();
+    this.listening = false;
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  /** Starts, changes or stops (with undefined) the foreign device registration. */
+  setForeignDeviceRegistration(registration: ForeignDeviceRegistration | undefined) {
+    if (sameForeignDeviceRegistration(this.registration, registration)) return;
+    this.clearRegistrationTimers();
+    this.registration = registration;
+    this.registrationState = registration ? 'pending' : 'disabled';
+    if (this.listening) this.register();
+  }
+
+  private register() {
+    const { registration, socket } = this;
+    if (!registration || !socket) return;
+
+    const request = Buffer.from([
+      BVLL_TYPE_BACNET_IP, BVLC_REGISTER_FOREIGN_DEVICE, 0x00, 0x06,
+      (registration.ttlSeconds >> 8) & 0xFF, registration.ttlSeconds & 0xFF,
+    ]);
+    socket.send(request, 0, request.length, registration.bbmdPort, registration.bbmdAddress);
+
+    if (this.responseTimer) clearTimeout(this.responseTimer);
+    this.responseTimer = setTimeout(() => {
+      this.responseTimer = null;
+      this.registrationState = 'timeout';
+      this.settings.getLogger?.()?.error(
+        'bacnet.bbmd.registration.timeout',
+        'BBMD did not answer the foreign device registration; broadcasts will not reach the remote network',
+        undefined,
+        this.registrationLogFields(registration),
+      );
+      this.scheduleRegistration(Math.min(REGISTRATION_RETRY_MS, renewDelayMs(registration.ttlSeconds)));
+    }, this.settings.registrationResponseTimeoutMs ?? DEFAULT_REGISTRATION_RESPONSE_TIMEOUT_MS);
+  }
+
+  private scheduleRegistration(delayMs: number) {
+    if (this.registrationTimer) clearTimeout(this.registrationTimer);
+    this.registrationTimer = setTimeout(() => {
+      this.registrationTimer = null;
+      this.register();
+    }, delayMs);
+  }
+
+  private clearRegistrationTimers() {
+    if (this.registrationTimer) clearTimeout(this.registrationTimer);
+    if (this.responseTimer) clearTimeout(this.responseTimer);
+    this.registrationTimer = null;
+    this.responseTimer = null;
+  }
+
+  private receive(message: Buffer, rinfo: dgram.RemoteInfo) {
+    if (message.length >= 4 && message[0] === BVLL_TYPE_BACNET_IP) {
+      if (message[1] === BVLC_RESULT) {
+        this.handleBvlcResult(message, rinfo);
+        return;
+      }
+      if (message[1] === BVLC_FORWARDED_NPDU && message.length >= FORWARDED_NPDU_HEADER_LENGTH) {
+        // The BBMD relays the frame; report the device that originally sent it.
+        this.emit('message', message, `${message[4]}.${message[5]}.${message[6]}.${message[7]}`);
+        return;
+      }
+    }
+    this.emit('message', message, rinfo.address);
+  }
+
+  private handleBvlcResult(message: Buffer, rinfo: dgram.RemoteInfo) {
+    const { registration } = this;
+    if (!registration || !this.responseTimer || message.length < 6) return;
+    if (rinfo.address !== registration.bbmdAddress) return;
+
+    const resultCode = message.readUInt16BE(4);
+    if (resultCode !== BVLC_RESULT_SUCCESSFUL_COMPLETION && resultCode !== BVLC_RESULT_REGISTER_FOREIGN_DEVICE_NAK) {
+      return;
+    }
+    clearTimeout(this.responseTimer);
+    this.responseTimer = null;
+
+    const logger = this.settings.getLogger?.();
+    if (resultCode === BVLC_RESULT_REGISTER_FOREIGN_DEVICE_NAK) {
+      this.registrationState = 'rejected';
+      logger?.error(
+        'bacnet.bbmd.registration.rejected',
+        'BBMD rejected the foreign device registration; check that it accepts foreign devices',
+        undefined,
+        this.registrationLogFields(registration),
+      );
+      this.scheduleRegistration(Math.min(REGISTRATION_RETRY_MS, renewDelayMs(registration.ttlSeconds)));
+      return;
+    }
+
+    if (this.registrationState !== 'registered') {
+      logger?.info(
+        'bacnet.bbmd.registered',
+        'Registered as a foreign device with the BBMD',
+        this.registrationLogFields(registration),
+      );
+    }
+    this.registrationState = 'registered';
+    this.scheduleRegistration(renewDelayMs(registration.ttlSeconds));
+  }
+
+  private registrationLogFields(registration: ForeignDeviceRegistration) {
+    return {
+      component: 'bacnet',
+      port: this.settings.port,
+      bbmdAddress: registration.bbmdAddress,
+      bbmdPort: registration.bbmdPort,
+      ttlSeconds: registration.ttlSeconds,
+    };
+  }
+}
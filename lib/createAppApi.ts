@@ -0,0 +1,23 @@
+type ApiDependencies = {
+  registry: any;
+};
+
+type ApiRequest = {
+  params?: Record<string, string | undefined>;
+};
+
+export function createFlexitAppApi({ registry }: ApiDependencies) {
+  return {
+    /** GET /write-journal: the write journal of every unit. */
+    async getWriteJournals() {
+      return registry.getWriteJournals();
+    },
+
+    /** GET /units/:unitId/write-journal: one unit's write journal as a JSON export. */
+    async getWriteJournal({ params }: ApiRequest) {
+      const unitId = String(params?.unitId ?? '').trim();
+      if (!unitId) throw new Error('Unit id is missing.');
+      return registry.getWriteJournal(unitId);
+    },
+  };
+}
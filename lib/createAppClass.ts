@@ -1,4 +1,5 @@
 import { createRuntimeLogger, RuntimeLogger, runWithLogContext } from './logging';
+import { CatalogPoint, searchCatalogPoints } from './flexitPointCatalog';
 
 type HomeyAppBase = new (...args: any[]) => {
   homey: any;
@@ -50,13 +51,25 @@ export function createFlexitAppClass({
       this.registerHeatingCoilStateFlowTrigger();
       this.registerDehumidificationStateFlowTrigger();
       this.registerFreeCoolingStateFlowTrigger();
+      this.registerAlarmStateFlowTrigger();
+      this.registerRoomHumidityFlowTriggers();
+      this.registerAirflowFlowTrigger();
+      this.registerHeatExchangerFaultFlowTrigger();
+      this.registerTimedModeEndedFlowTrigger();
       this.registerGlobalErrorHandlers();
       this.registerFanProfileActionCard();
       this.registerFireplaceDurationActionCard();
+      this.registerRapidVentilationActionCards();
+      this.registerExtendTimedModeActionCard();
+      this.registerHumiditySetpointActionCard();
+      this.registerNeutralZoneActionCard();
       this.registerHeatingCoilActionCards();
       this.registerHeatingCoilConditionCard();
       this.registerDehumidificationConditionCard();
       this.registerFreeCoolingConditionCard();
+      this.registerAlarmActionCard();
+      this.registerOperatingHoursActionCard();
+      this.registerPointCards();
     }
 
     private registerGlobalErrorHandlers() {
@@ -184,9 +197,165 @@ export function createFlexitAppClass({
       });
     }
 
+    private registerAlarmStateFlowTrigger() {
+      const alarmRaisedCard = this.homey.flow.getDeviceTriggerCard('alarm_raised');
+      const alarmClearedCard = this.homey.flow.getDeviceTriggerCard('alarm_cleared');
+      registry.setAlarmStateChangedHandler((event: any) => {
+        runWithLogContext({
+          unitId: this.resolveUnitId(event.device),
+          raised: event.raised,
+          alarmClass: event.alarmClass,
+          code: event.code,
+        }, () => {
+          const card = event.raised
+            ? alarmRaisedCard
+            : alarmClearedCard;
+          card.trigger(
+            event.device,
+            { code: event.code, text: event.text },
+          ).catch((error: unknown) => {
+            this.getLogger().error(
+              'app.flow.trigger.alarm_state.failed',
+              'Failed to trigger alarm state flow',
+              error,
+              { code: event.code },
+            );
+          });
+        });
+      });
+    }
+
+    private registerRoomHumidityFlowTriggers() {
+      const roseAboveCard = this.homey.flow.getDeviceTriggerCard('room_humidity_rose_above');
+      roseAboveCard.registerRunListener(async (args: any, state: any) => {
+        const threshold = Number(args?.threshold);
+        return args?.sensor === state?.sensor
+          && state.previousHumidity <= threshold
+          && state.humidity > threshold;
+      });
+      const fellBelowCard = this.homey.flow.getDeviceTriggerCard('room_humidity_fell_below');
+      fellBelowCard.registerRunListener(async (args: any, state: any) => {
+        const threshold = Number(args?.threshold);
+        return args?.sensor === state?.sensor
+          && state.previousHumidity >= threshold
+          && state.humidity < threshold;
+      });
+
+      registry.setRoomHumidityChangedHandler((event: any) => {
+        runWithLogContext({
+          unitId: this.resolveUnitId(event.device),
+          sensor: event.sensor,
+        }, () => {
+          const state = {
+            sensor: event.sensor,
+            previousHumidity: event.previousHumidity,
+            humidity: event.humidity,
+          };
+          const card = event.humidity > event.previousHumidity ? roseAboveCard : fellBelowCard;
+          card.trigger(
+            event.device,
+            { humidity: event.humidity },
+            state,
+          ).catch((error: unknown) => {
+            this.getLogger().error(
+              'app.flow.trigger.room_humidity.failed',
+              'Failed to trigger room humidity flow',
+              error,
+              { sensor: event.sensor, humidity: event.humidity },
+            );
+          });
+        });
+      });
+    }
+
+    private registerAirflowFlowTrigger() {
+      const fellBelowCard = this.homey.flow.getDeviceTriggerCard('airflow_fell_below');
+      fellBelowCard.registerRunListener(async (args: any, state: any) => {
+        const threshold = Number(args?.threshold);
+        return args?.fan === state?.fan
+          && state.previousAirflow >= threshold
+          && state.airflow < threshold;
+      });
+
+      registry.setAirflowChangedHandler((event: any) => {
+        if (event.airflow >= event.previousAirflow) return;
+        runWithLogContext({
+          unitId: this.resolveUnitId(event.device),
+          fan: event.fan,
+        }, () => {
+          fellBelowCard.trigger(
+            event.device,
+            { airflow: event.airflow },
+            { fan: event.fan, previousAirflow: event.previousAirflow, airflow: event.airflow },
+          ).catch((error: unknown) => {
+            this.getLogger().error(
+              'app.flow.trigger.airflow.failed',
+              'Failed to trigger airflow flow',
+              error,
+              { fan: event.fan, airflow: event.airflow },
+            );
+          });
+        });
+      });
+    }
+
+    private registerHeatExchangerFaultFlowTrigger() {
+      const heatExchangerFaultCard = this.homey.flow.getDeviceTriggerCard('heat_exchanger_fault');
+      registry.setHeatExchangerFaultHandler((event: any) => {
+        runWithLogContext({
+          unitId: this.resolveUnitId(event.device),
+          fault: event.fault,
+        }, () => {
+          heatExchangerFaultCard.trigger(
+            event.device,
+            { fault: event.text, motor_failures: event.motorFailureCount },
+          ).catch((error: unknown) => {
+            this.getLogger().error(
+              'app.flow.trigger.heat_exchanger_fault.failed',
+              'Failed to trigger heat exchanger fault flow',
+              error,
+              { fault: event.fault },
+            );
+          });
+        });
+      });
+    }
+
+    private registerTimedModeEndedFlowTrigger() {
+      const timedModeEndedCard = this.homey.flow.getDeviceTriggerCard('timed_mode_ended');
+      registry.setTimedModeEndedHandler((event: any) => {
+        runWithLogContext({
+          unitId: this.resolveUnitId(event.device),
+          endedMode: event.endedMode,
+          currentMode: event.currentMode,
+        }, () => {
+          timedModeEndedCard.trigger(
+            event.device,
+            { ended_mode: event.endedMode, current_mode: event.currentMode },
+          ).catch((error: unknown) => {
+            this.getLogger().error(
+              'app.flow.trigger.timed_mode_ended.failed',
+              'Failed to trigger timed mode ended flow',
+              error,
+              { endedMode: event.endedMode },
+            );
+          });
+        });
+      });
+    }
+
+    // Registry writes made by the card are journaled with its id.
+    private registerWriteActionCard(id: string, listener: (args: any) => Promise<unknown>) {
+      const card = this.homey.flow.getActionCard(id);
+      card.registerRunListener((args: any) => runWithLogContext(
+        { writeSource: 'flow', flowCardId: id },
+        () => listener(args),
+      ));
+      return card;
+    }
+
     private registerFanProfileActionCard() {
-      const setFanProfileModeCard = this.homey.flow.getActionCard('set_fan_profile_mode');
-      setFanProfileModeCard.registerRunListener(async (args: any) => {
+      this.registerWriteActionCard('set_fan_profile_mode', async (args: any) => {
         const modeRaw = String(args?.mode ?? '').trim();
         if (!isFanProfileMode(modeRaw)) {
           throw new Error(`Unsupported mode '${modeRaw}'.`);
@@ -213,8 +382,7 @@ export function createFlexitAppClass({
     }
 
     private registerFireplaceDurationActionCard() {
-      const setFireplaceDurationCard = this.homey.flow.getActionCard('set_fireplace_duration');
-      setFireplaceDurationCard.registerRunListener(async (args: any) => {
+      this.registerWriteActionCard('set_fireplace_duration', async (args: any) => {
         const requestedMinutes = normalizeFireplaceDurationMinutes(args?.minutes);
         const unitId = this.resolveUnitId(args?.device);
         await registry.setFireplaceVentilationDuration(unitId, requestedMinutes);
@@ -222,23 +390,86 @@ export function createFlexitAppClass({
       });
     }
 
+    private registerRapidVentilationActionCards() {
+      const parseMinutes = (args: any) => {
+        const minutes = Number(args?.minutes);
+        if (!Number.isFinite(minutes)) {
+          throw new Error('High ventilation duration must be numeric.');
+        }
+        return minutes;
+      };
+
+      this.registerWriteActionCard('set_rapid_duration', async (args: any) => {
+        const minutes = parseMinutes(args);
+        const unitId = this.resolveUnitId(args?.device);
+        await registry.setRapidVentilationDuration(unitId, minutes);
+        return true;
+      });
+
+      this.registerWriteActionCard('start_rapid_ventilation', async (args: any) => {
+        const minutes = parseMinutes(args);
+        const unitId = this.resolveUnitId(args?.device);
+        await registry.startRapidVentilation(unitId, minutes);
+        return true;
+      });
+    }
+
+    private registerExtendTimedModeActionCard() {
+      this.registerWriteActionCard('extend_timed_mode', async (args: any) => {
+        const minutes = Number(args?.minutes);
+        if (!Number.isFinite(minutes)) {
+          throw new Error('Extension must be numeric.');
+        }
+
+        const unitId = this.resolveUnitId(args?.device);
+        await registry.extendTimedMode(unitId, minutes);
+        return true;
+      });
+    }
+
+    private registerHumiditySetpointActionCard() {
+      this.registerWriteActionCard('set_humidity_setpoint', async (args: any) => {
+        const modeRaw = String(args?.mode ?? '').trim();
+        const percent = Number(args?.percent);
+        if (!Number.isFinite(percent)) {
+          throw new Error('Humidity setpoint must be numeric.');
+        }
+
+        const unitId = this.resolveUnitId(args?.device);
+        await registry.setHumiditySetpoint(unitId, modeRaw, percent);
+        return true;
+      });
+    }
+
+    private registerNeutralZoneActionCard() {
+      this.registerWriteActionCard('set_neutral_zone', async (args: any) => {
+        const kindRaw = String(args?.kind ?? '').trim();
+        const modeRaw = String(args?.mode ?? '').trim();
+        const delta = Number(args?.delta);
+        if (!Number.isFinite(delta)) {
+          throw new Error('Neutral zone must be numeric.');
+        }
+
+        const unitId = this.resolveUnitId(args?.device);
+        await registry.setNeutralZone(unitId, kindRaw, modeRaw, delta);
+        return true;
+      });
+    }
+
     private registerHeatingCoilActionCards() {
-      const turnHeatingCoilOnCard = this.homey.flow.getActionCard('turn_heating_coil_on');
-      turnHeatingCoilOnCard.registerRunListener(async (args: any) => {
+      this.registerWriteActionCard('turn_heating_coil_on', async (args: any) => {
         const unitId = this.resolveUnitId(args?.device);
         await registry.setHeatingCoilEnabled(unitId, true);
         return true;
       });
 
-      const turnHeatingCoilOffCard = this.homey.flow.getActionCard('turn_heating_coil_off');
-      turnHeatingCoilOffCard.registerRunListener(async (args: any) => {
+      this.registerWriteActionCard('turn_heating_coil_off', async (args: any) => {
         const unitId = this.resolveUnitId(args?.device);
         await registry.setHeatingCoilEnabled(unitId, false);
         return true;
       });
 
-      const toggleHeatingCoilCard = this.homey.flow.getActionCard('toggle_heating_coil_onoff');
-      toggleHeatingCoilCard.registerRunListener(async (args: any) => {
+      this.registerWriteActionCard('toggle_heating_coil_onoff', async (args: any) => {
         const unitId = this.resolveUnitId(args?.device);
         await registry.toggleHeatingCoilEnabled(unitId);
         return true;
@@ -268,5 +499,91 @@ export function createFlexitAppClass({
         return registry.getFreeCoolingActive(unitId);
       });
     }
+
+    private registerAlarmActionCard() {
+      this.registerWriteActionCard('acknowledge_alarms', async (args: any) => {
+        const unitId = this.resolveUnitId(args?.device);
+        await registry.acknowledgeAlarms(unitId);
+        return true;
+      });
+    }
+
+    private registerOperatingHoursActionCard() {
+      const getOperatingHoursCard = this.homey.flow.getActionCard('get_operating_hours');
+      getOperatingHoursCard.registerRunListener(async (args: any) => {
+        const device = args?.device;
+        if (typeof device?.getOperatingHoursBreakdown !== 'function') {
+          throw new Error('Operating hours are not available for this device.');
+        }
+        const hours = await device.getOperatingHoursBreakdown(args?.period);
+        return {
+          total_hours: hours.total,
+          stop_hours: hours.stop,
+          away_hours: hours.away,
+          home_hours: hours.home,
+          high_hours: hours.high,
+          fireplace_hours: hours.fireplace,
+          cooker_hours: hours.cooker,
+          heater_hours: hours.heater,
+        };
+      });
+    }
+
+    private registerPointCards() {
+      const toAutocompleteResult = (point: CatalogPoint) => ({
+        name: point.description,
+        description: `${point.key} (${point.access})`,
+        id: point.key,
+      });
+      const resolvePointKey = (args: any) => String(args?.point?.id ?? '');
+
+      const writePointCard = this.registerWriteActionCard('write_point', async (args: any) => {
+        const value = Number(args?.value);
+        if (!Number.isFinite(value)) {
+          throw new Error('Point value must be numeric.');
+        }
+
+        const unitId = this.resolveUnitId(args?.device);
+        await registry.writePointValue(unitId, resolvePointKey(args), value, Number(args?.priority));
+        return true;
+      });
+      writePointCard.registerArgumentAutocompleteListener('point', async (query: string) => (
+        searchCatalogPoints(query, { writableOnly: true }).map(toAutocompleteResult)
+      ));
+
+      const relinquishPointCard = this.registerWriteActionCard('relinquish_point', async (args: any) => {
+        const unitId = this.resolveUnitId(args?.device);
+        await registry.relinquishPointValue(unitId, resolvePointKey(args), Number(args?.priority));
+        return true;
+      });
+      relinquishPointCard.registerArgumentAutocompleteListener('point', async (query: string) => (
+        searchCatalogPoints(query, { writableOnly: true }).map(toAutocompleteResult)
+      ));
+
+      const readPointCard = this.homey.flow.getActionCard('read_point');
+      readPointCard.registerArgumentAutocompleteListener('point', async (query: string) => (
+        searchCatalogPoints(query).map(toAutocompleteResult)
+      ));
+      readPointCard.registerRunListener(async (args: any) => {
+        const unitId = this.resolveUnitId(args?.device);
+        const value = await registry.readPointValue(unitId, resolvePointKey(args));
+        return { value };
+      });
+
+      const pointValueAboveCard = this.homey.flow.getConditionCard('point_value_above');
+      pointValueAboveCard.registerArgumentAutocompleteListener('point', async (query: string) => (
+        searchCatalogPoints(query).map(toAutocompleteResult)
+      ));
+      pointValueAboveCard.registerRunListener(async (args: any) => {
+        const threshold = Number(args?.threshold);
+        if (!Number.isFinite(threshold)) {
+          throw new Error('Threshold must be numeric.');
+        }
+
+        const unitId = this.resolveUnitId(args?.device);
+        const value = await registry.readPointValue(unitId, resolvePointKey(args));
+        return value > threshold;
+      });
+    }
   };
 }
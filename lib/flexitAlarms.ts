@@ -0,0 +1,14 @@
+import { FLEXIT_ALARM_TEXTS } from './flexitPointCatalogData';
+
+export type AlarmClass = 'A' | 'B';
+
+export function normalizeAlarmCode(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(0, Math.round(value));
+}
+
+// Texts for the codes a Nordic unit reports in its present A/B alarm points (AV 1794/1846),
+// taken from the point catalog. Codes the catalog has no text for show the raw code.
+export function getAlarmText(code: number): string {
+  return FLEXIT_ALARM_TEXTS[code] ?? `Alarm ${code}`;
+}
@@ -0,0 +1,251 @@
+import { getBacnetClient } from './bacnetClient';
+import { getNordicModelFromSerial } from './flexitModel';
+import { DiscoveredFlexitUnit, isNordicSerial } from './flexitReplyParser';
+import { RuntimeLogger } from './logging';
+
+const DEVICE_OBJECT_TYPE = 8;
+const DESCRIPTION_ID = 28;
+const FIRMWARE_REVISION_ID = 44;
+const MODEL_NAME_ID = 70;
+const OBJECT_NAME_ID = 77;
+// Flexit GO reads the unit serial from the description of this device instance.
+const FLEXIT_GO_DEVICE_INSTANCE = 2;
+// A device answers requests for this instance as if they named its own device object.
+const WILDCARD_DEVICE_INSTANCE = 4194303;
+const SERIAL_PATTERN = /\b\d{6}-\d{6}\b/;
+
+const DEFAULT_READ_TIMEOUT_MS = 3000;
+
+type ProbeOptions = {
+  ip: string;
+  bacnetPort: number;
+  timeoutMs?: number;
+  logger?: RuntimeLogger;
+};
+
+type BacnetDiscoveryOptions = {
+  broadcastAddresses: string[];
+  bacnetPort: number;
+  timeoutMs: number;
+  logger?: RuntimeLogger;
+};
+
+type DeviceIdentity = {
+  deviceId?: number;
+  objectName?: string;
+  description?: string;
+  modelName?: string;
+  firmware?: string;
+};
+
+function requestIAm(client: any, ip: string, timeoutMs: number): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const pending: { timer?: NodeJS.Timeout; onIAm?: (device: any) => void } = {};
+    const finish = (deviceId: number | undefined) => {
+      clearTimeout(pending.timer);
+      client.removeListener('iAm', pending.onIAm);
+      resolve(deviceId);
+    };
+    pending.onIAm = (device: any) => {
+      if (device?.address === ip && Number.isInteger(device?.deviceId)) finish(device.deviceId);
+    };
+    pending.timer = setTimeout(() => finish(undefined), timeoutMs);
+    client.on('iAm', pending.onIAm);
+    try {
+      client.whoIs({ address: ip });
+    } catch {
+      finish(undefined);
+    }
+  });
+}
+
+function readDeviceIdentity(
+  client: any,
+  ip: string,
+  deviceId: number,
+  timeoutMs: number,
+): Promise<DeviceIdentity> {
+  const properties = [OBJECT_NAME_ID, DESCRIPTION_ID, MODEL_NAME_ID, FIRMWARE_REVISION_ID];
+  const request = [{
+    objectId: { type: DEVICE_OBJECT_TYPE, instance: deviceId },
+    properties: properties.map((id) => ({ id })),
+  }];
+  return new Promise((resolve, reject) => {
+    let handled = false;
+    const tm = setTimeout(() => {
+      if (handled) return;
+      handled = true;
+      reject(new Error(`Timed out reading the BACnet device object from ${ip}.`));
+    }, timeoutMs);
+    client.readPropertyMultiple(ip, request, (err: any, value: any) => {
+      if (handled) return;
+      handled = true;
+      clearTimeout(tm);
+      if (err) {
+        reject(err);
+        return;
+      }
+      const deviceId = value?.values?.[0]?.objectId?.instance;
+      const read = (id: number) => {
+        const property = value?.values?.[0]?.values?.find((entry: any) => entry?.id === id);
+        const text = property?.value?.[0]?.value;
+        return typeof text === 'string' && text.trim() ? text.trim() : undefined;
+      };
+      resolve({
+        deviceId: Number.isInteger(deviceId) ? deviceId : undefined,
+        objectName: read(OBJECT_NAME_ID),
+        description: read(DESCRIPTION_ID),
+        modelName: read(MODEL_NAME_ID),
+        firmware: read(FIRMWARE_REVISION_ID),
+      });
+    });
+  });
+}
+
+/**
+ * Finds the device instance of a unit whose I-Am never reached us, e.g. because the
+ * network drops its broadcast: reads the device object through the wildcard instance,
+ * then through the Flexit GO instance.
+ */
+async function readDeviceInstance(client: any, ip: string, timeoutMs: number): Promise<number | undefined> {
+  try {
+    const { deviceId } = await readDeviceIdentity(client, ip, WILDCARD_DEVICE_INSTANCE, timeoutMs);
+    if (deviceId !== undefined && deviceId !== WILDCARD_DEVICE_INSTANCE) return deviceId;
+  } catch {
+    // Not every device supports the wildcard instance; try the Flexit GO instance.
+  }
+  return readDeviceIdentity(client, ip, FLEXIT_GO_DEVICE_INSTANCE, timeoutMs)
+    .then(() => FLEXIT_GO_DEVICE_INSTANCE, () => undefined);
+}
+
+type DeviceEndpoint = {
+  ip: string;
+  bacnetPort: number;
+  deviceId: number;
+};
+
+/**
+ * Reads the device object a BACnet device answered the Who-Is with and builds the
+ * unit record. The serial comes from its description, or from the Flexit GO device
+ * instance when the description does not carry one.
+ */
+async function identifyFlexitUnit(
+  client: any,
+  endpoint: DeviceEndpoint,
+  timeoutMs: number,
+  logger?: RuntimeLogger,
+): Promise<DiscoveredFlexitUnit> {
+  const { ip, bacnetPort, deviceId } = endpoint;
+  const identity = await readDeviceIdentity(client, ip, deviceId, timeoutMs);
+  let serial = identity.description?.match(SERIAL_PATTERN)?.[0];
+  if (!serial && deviceId !== FLEXIT_GO_DEVICE_INSTANCE) {
+    const flexitGoIdentity = await readDeviceIdentity(client, ip, FLEXIT_GO_DEVICE_INSTANCE, timeoutMs)
+      .catch(() => ({} as DeviceIdentity));
+    serial = flexitGoIdentity.description?.match(SERIAL_PATTERN)?.[0];
+  }
+  logger?.info('probe.device.read', 'Read BACnet device object', {
+    ip, bacnetPort, ...identity, deviceId, serial,
+  });
+  if (!serial) {
+    throw new Error(`The BACnet device at ${ip}:${bacnetPort} does not report a Flexit serial number.`);
+  }
+
+  const serialNormalized = serial.replace(/[^0-9]/g, '');
+  if (!isNordicSerial(serialNormalized)) {
+    throw new Error(`The BACnet device at ${ip}:${bacnetPort} (serial ${serial}) is not a Flexit Nordic unit.`);
+  }
+  const model = getNordicModelFromSerial(serialNormalized);
+  return {
+    name: model ? `Nordic ${model}` : identity.objectName ?? 'Flexit Unit',
+    model: model ?? undefined,
+    serial,
+    serialNormalized,
+    ip,
+    bacnetPort,
+    fw: identity.firmware,
+  };
+}
+
+/**
+ * Checks that a Flexit Nordic unit answers BACnet at `ip:bacnetPort`, for pairing
+ * without the multicast discovery: sends a unicast Who-Is, then identifies the
+ * device that answered. Units answer the Who-Is with a broadcast I-Am, so when none
+ * arrives the device object is read directly instead.
+ */
+export async function probeFlexitUnit(opts: ProbeOptions): Promise<DiscoveredFlexitUnit> {
+  const { ip, bacnetPort } = opts;
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_READ_TIMEOUT_MS;
+  const client = getBacnetClient(bacnetPort);
+
+  let deviceId = await requestIAm(client, ip, timeoutMs);
+  if (deviceId === undefined) {
+    opts.logger?.info('probe.who_is.no_answer', 'No I-Am received for the unicast Who-Is; reading the device object', {
+      ip, bacnetPort, timeoutMs,
+    });
+    deviceId = await readDeviceInstance(client, ip, timeoutMs);
+  }
+  if (deviceId === undefined) {
+    throw new Error(`No BACnet device answered at ${ip}:${bacnetPort}.`);
+  }
+  return identifyFlexitUnit(client, { ip, bacnetPort, deviceId }, timeoutMs, opts.logger);
+}
+
+/**
+ * Broadcasts a Who-Is to each address, collects the I-Am answers for `timeoutMs`
+ * and identifies every responder. Devices that are not Flexit Nordic units, or
+ * that do not answer the device object read, are skipped.
+ */
+export async function discoverBacnetFlexitUnits(
+  client: any,
+  opts: BacnetDiscoveryOptions,
+): Promise<DiscoveredFlexitUnit[]> {
+  const { bacnetPort, logger } = opts;
+  const responders = new Map<string, number>();
+  const onIAm = (device: any) => {
+    if (typeof device?.address !== 'string' || !Number.isInteger(device?.deviceId)) return;
+    if (!responders.has(device.address)) {
+      logger?.info('discovery.bacnet.i_am', 'Received BACnet I-Am', {
+        remote: device.address,
+        deviceId: device.deviceId,
+        vendorId: device.vendorId,
+      });
+    }
+    responders.set(device.address, device.deviceId);
+  };
+
+  client.on('iAm', onIAm);
+  try {
+    // Who-Is goes out twice; a single lost broadcast should not hide a unit.
+    for (let i = 0; i < 2; i++) {
+      for (const address of opts.broadcastAddresses) {
+        try {
+          client.whoIs({ address });
+        } catch (err) {
+          logger?.error('discovery.bacnet.who_is.failed', 'Failed to send BACnet Who-Is', err, {
+            address,
+            bacnetPort,
+          });
+        }
+      }
+      await sleep(opts.timeoutMs / 2);
+    }
+  } finally {
+    client.removeListener('iAm', onIAm);
+  }
+
+  const units = await Promise.all(Array.from(responders, ([ip, deviceId]) => (
+    identifyFlexitUnit(client, { ip, bacnetPort, deviceId }, DEFAULT_READ_TIMEOUT_MS, logger).catch((err) => {
+      logger?.info('discovery.bacnet.responder.skipped', 'Skipped BACnet responder that is not a Nordic unit', {
+        remote: ip,
+        deviceId,
+        reason: err instanceof Error ? err.message : String(err),
+      });
+      return undefined;
+    })
+  )));
+  return units.filter((unit): unit is DiscoveredFlexitUnit => unit !== undefined);
+}
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
@@ -1,7 +1,11 @@
 import dgram from 'dgram';
 import os from 'os';
 import { randomUUID } from 'crypto';
-import { DiscoveredFlexitUnit, parseFlexitReply } from './flexitReplyParser';
+import { getBacnetClient } from './bacnetClient';
+import { discoverBacnetFlexitUnits } from './flexitBacnetProbe';
+import {
+  DiscoveredFlexitUnit, findReplySerial, isNordicSerial, parseFlexitReply,
+} from './flexitReplyParser';
 import { createRuntimeLogger, RuntimeLogger } from './logging';
 
 const TX_GROUP = '224.0.0.180';
@@ -9,15 +13,46 @@ const TX_PORT = 30000;
 
 const RX_GROUP = '224.0.0.181';
 const RX_PORT = 30001;
+const DEFAULT_BACNET_PORT = 47808;
+const LIMITED_BROADCAST_ADDRESS = '255.255.255.255';
+
+/**
+ * `multicast` is the proprietary Flexit discovery protocol; `bacnet` is a standard
+ * Who-Is broadcast, which also finds units whose multicast replies get lost.
+ */
+export type DiscoveryStrategy = 'multicast' | 'bacnet';
 
 type IPv4Interface = { name: string; address: string };
+/**
+ * What a discovery run did, filled in when the caller passes `diagnostics`. Pairing
+ * shows it to explain a scan that found nothing. Interfaces are keyed as `name=address`.
+ */
+export type DiscoveryDiagnostics = {
+  interfaces: string[];
+  socketsBound: string[];
+  socketErrors: string[];
+  burstsSent: Record<string, number>;
+  sendFailures: Record<string, number>;
+  repliesReceived: number;
+  // Replies carrying a serial that is not a Nordic one, once per sender and serial.
+  repliesRejected: Array<{ remote: string; serial: string }>;
+  repliesUnreadable: number;
+  bacnetBroadcastAddresses: string[];
+  bacnetFailed: boolean;
+  unitCount: number;
+  suggestions: string[];
+};
 type SendLogContext = {
   loggedSendInterfaces: Set<string>;
   loggedSendFailures: Set<string>;
   logger?: RuntimeLogger;
+  diagnostics?: DiscoveryDiagnostics;
 };
 type DiscoveryOptions = {
   interfaceAddress?: string;
+  diagnostics?: DiscoveryDiagnostics;
+  strategies?: DiscoveryStrategy[];
+  bacnetPort?: number;
   timeoutMs?: number;
   burstCount?: number;
   burstIntervalMs?: number;
@@ -30,6 +65,13 @@ type DiscoveryDependencies = {
   createSocket: typeof dgram.createSocket;
   randomUUID: typeof randomUUID;
   parseFlexitReply: typeof parseFlexitReply;
+  getBacnetClient: typeof getBacnetClient;
+  discoverBacnetFlexitUnits: typeof discoverBacnetFlexitUnits;
+};
+type MulticastTiming = {
+  timeoutMs: number;
+  burstCount: number;
+  burstIntervalMs: number;
 };
 
 const defaultDiscoveryDependencies: DiscoveryDependencies = {
@@ -37,6 +79,8 @@ const defaultDiscoveryDependencies: DiscoveryDependencies = {
   createSocket: dgram.createSocket.bind(dgram),
   randomUUID,
   parseFlexitReply,
+  getBacnetClient,
+  discoverBacnetFlexitUnits,
 };
 
 let discoveryDependencies = defaultDiscoveryDependencies;
@@ -52,6 +96,23 @@ export function resetFlexitDiscoveryDependenciesForTests() {
   discoveryDependencies = defaultDiscoveryDependencies;
 }
 
+export function createDiscoveryDiagnostics(): DiscoveryDiagnostics {
+  return {
+    interfaces: [],
+    socketsBound: [],
+    socketErrors: [],
+    burstsSent: {},
+    sendFailures: {},
+    repliesReceived: 0,
+    repliesRejected: [],
+    repliesUnreadable: 0,
+    bacnetBroadcastAddresses: [],
+    bacnetFailed: false,
+    unitCount: 0,
+    suggestions: [],
+  };
+}
+
 export function listIPv4Interfaces(): IPv4Interface[] {
   const out: IPv4Interface[] = [];
   const nics = discoveryDependencies.networkInterfaces();
@@ -78,38 +139,67 @@ export async function discoverFlexitUnits(opts: DiscoveryOptions): Promise<Disco
       }, { component: 'discovery' })
       : undefined
   );
+  const { diagnostics } = opts;
   const allInterfaces = listIPv4Interfaces();
   const interfaces = pickInterfaces(allInterfaces, opts.interfaceAddress);
 
   logInterfaceSelection(allInterfaces, interfaces, opts.interfaceAddress, logger);
-  if (interfaces.length === 0) {
-    logger?.info('discovery.interfaces.none_selected', 'No candidate interfaces available for discovery', {
-      interfaceAddress: opts.interfaceAddress ?? 'auto',
-    });
-    return [];
+  if (diagnostics) diagnostics.interfaces = interfaces.map(formatInterface);
+  try {
+    if (interfaces.length === 0) {
+      logger?.info('discovery.interfaces.none_selected', 'No candidate interfaces available for discovery', {
+        interfaceAddress: opts.interfaceAddress ?? 'auto',
+      });
+      return [];
+    }
+
+    const strategies = new Set(opts.strategies ?? ['multicast']);
+    const bacnetPort = opts.bacnetPort ?? DEFAULT_BACNET_PORT;
+    const [multicastUnits, bacnetUnits] = await Promise.all([
+      strategies.has('multicast')
+        ? discoverViaMulticast(interfaces, { timeoutMs, burstCount, burstIntervalMs }, logger, diagnostics)
+        : [],
+      strategies.has('bacnet')
+        ? discoverViaBacnet(interfaces, { bacnetPort, timeoutMs }, logger, diagnostics)
+        : [],
+    ]);
+    const units = mergeDiscoveredUnits(multicastUnits, bacnetUnits, logger);
+    if (diagnostics) diagnostics.unitCount = units.length;
+    return units;
+  } finally {
+    if (diagnostics) diagnostics.suggestions = suggestDiscoveryFixes(diagnostics, allInterfaces.length);
   }
+}
 
+async function discoverViaMulticast(
+  interfaces: IPv4Interface[],
+  timing: MulticastTiming,
+  logger?: RuntimeLogger,
+  diagnostics?: DiscoveryDiagnostics,
+): Promise<DiscoveredFlexitUnit[]> {
+  const { timeoutMs, burstCount, burstIntervalMs } = timing;
   const rx = discoveryDependencies.createSocket({ type: 'udp4', reuseAddr: true });
   const tx = discoveryDependencies.createSocket({ type: 'udp4', reuseAddr: true });
 
   const found = new Map<string, DiscoveredFlexitUnit>();
 
   try {
-    await bindSocket(rx, RX_PORT);
+    await bindDiscoverySocket(rx, 'rx', RX_PORT, diagnostics);
     logger?.info('discovery.socket.rx_bound', 'Bound discovery RX socket', {
       bindAddress: '0.0.0.0',
       port: RX_PORT,
     });
     joinReplyMulticast(rx, interfaces, logger);
-    attachReplyHandler(rx, found, logger);
+    attachReplyHandler(rx, found, logger, diagnostics);
 
-    await bindSocket(tx, TX_PORT);
+    await bindDiscoverySocket(tx, 'tx', TX_PORT, diagnostics);
     configureTxSocket(tx, logger);
     const request = buildDiscoverRequest();
     const sendLogContext: SendLogContext = {
       loggedSendInterfaces: new Set<string>(),
       loggedSendFailures: new Set<string>(),
       logger,
+      diagnostics,
     };
 
     const start = Date.now();
@@ -130,6 +220,126 @@ export async function discoverFlexitUnits(opts: DiscoveryOptions): Promise<Disco
   }
 }
 
+async function discoverViaBacnet(
+  interfaces: IPv4Interface[],
+  { bacnetPort, timeoutMs }: { bacnetPort: number; timeoutMs: number },
+  logger?: RuntimeLogger,
+  diagnostics?: DiscoveryDiagnostics,
+): Promise<DiscoveredFlexitUnit[]> {
+  const broadcastAddresses = listBroadcastAddresses(interfaces);
+  if (diagnostics) diagnostics.bacnetBroadcastAddresses = broadcastAddresses;
+  logger?.info('discovery.bacnet.start', 'Broadcasting BACnet Who-Is', { broadcastAddresses, bacnetPort });
+  try {
+    const client = discoveryDependencies.getBacnetClient(bacnetPort);
+    return await discoveryDependencies.discoverBacnetFlexitUnits(client, {
+      broadcastAddresses,
+      bacnetPort,
+      timeoutMs,
+      logger,
+    });
+  } catch (err) {
+    logger?.error('discovery.bacnet.failed', 'BACnet Who-Is discovery failed', err, { bacnetPort });
+    if (diagnostics) diagnostics.bacnetFailed = true;
+    return [];
+  }
+}
+
+function definedFields(unit: DiscoveredFlexitUnit): Partial<DiscoveredFlexitUnit> {
+  return Object.fromEntries(Object.entries(unit).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * De-duplicates units found by both strategies by serial. The multicast reply wins
+ * where both report a field (it carries the endpoint the unit advertises, and its
+ * MAC address); the BACnet device object fills in the rest.
+ */
+function mergeDiscoveredUnits(
+  multicastUnits: DiscoveredFlexitUnit[],
+  bacnetUnits: DiscoveredFlexitUnit[],
+  logger?: RuntimeLogger,
+): DiscoveredFlexitUnit[] {
+  const merged = new Map(multicastUnits.map((unit) => [unit.serialNormalized, unit]));
+  for (const unit of bacnetUnits) {
+    const existing = merged.get(unit.serialNormalized);
+    merged.set(unit.serialNormalized, existing ? { ...unit, ...definedFields(existing) } : unit);
+  }
+  if (bacnetUnits.length > 0) {
+    logger?.info('discovery.merged', 'Merged multicast and BACnet discovery results', {
+      multicastUnitCount: multicastUnits.length,
+      bacnetUnitCount: bacnetUnits.length,
+      unitCount: merged.size,
+    });
+  }
+  return [...merged.values()];
+}
+
+// Only called for scans that found nothing; ordered from most to least specific.
+function suggestDiscoveryFixes(diagnostics: DiscoveryDiagnostics, availableInterfaceCount: number): string[] {
+  if (diagnostics.unitCount > 0) return [];
+  if (diagnostics.interfaces.length === 0) {
+    return [availableInterfaceCount === 0
+      ? 'Homey has no IPv4 network connection. Check its network settings.'
+      : 'The selected network interface is not available. Search on all interfaces instead.'];
+  }
+
+  const suggestions: string[] = [];
+  if (diagnostics.socketErrors.length > 0) {
+    suggestions.push(`The search could not open UDP ports ${TX_PORT}-${RX_PORT}. Restart the app and try again.`);
+  }
+  const failedInterfaces = diagnostics.interfaces.filter((nic) => !diagnostics.burstsSent[nic]
+    && (diagnostics.sendFailures[nic] ?? 0) > 0);
+  if (failedInterfaces.length > 0) {
+    suggestions.push(`Search requests could not be sent on ${failedInterfaces.join(', ')}. Choose another interface.`);
+  }
+  if (diagnostics.repliesRejected.length > 0) {
+    suggestions.push('Flexit units answered, but only Nordic units (serial numbers starting with 8001, 8002 '
+      + 'or 8003) are supported.');
+  }
+  if (diagnostics.repliesReceived === 0) {
+    suggestions.push('No unit answered. Check that the unit is powered on and connected to the same network '
+      + 'as Homey, or enter its IP address on the first screen.');
+    if (diagnostics.interfaces.length > 1) {
+      suggestions.push('Homey has several network interfaces. Try searching only on the one connected to the unit.');
+    }
+  }
+  if (diagnostics.bacnetFailed) {
+    suggestions.push('The BACnet search could not start. Another app may be using UDP port 47808.');
+  }
+  return suggestions;
+}
+
+function parseIPv4(address: string): number | undefined {
+  const parts = address.split('.').map(Number);
+  if (parts.length !== 4 || parts.some((part) => !Number.isInteger(part) || part < 0 || part > 255)) {
+    return undefined;
+  }
+  return parts.reduce((value, part) => ((value << 8) | part) >>> 0, 0);
+}
+
+function formatIPv4(value: number) {
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 0xff).join('.');
+}
+
+// Directed broadcast address of each interface's subnet, so Who-Is goes out on every selected interface.
+function listBroadcastAddresses(interfaces: IPv4Interface[]): string[] {
+  const netmasks = new Map<string, string>();
+  for (const infos of Object.values(discoveryDependencies.networkInterfaces())) {
+    for (const info of infos ?? []) {
+      if (info.family === 'IPv4') netmasks.set(info.address, info.netmask);
+    }
+  }
+
+  const addresses = new Set<string>();
+  for (const nic of interfaces) {
+    const address = parseIPv4(nic.address);
+    const netmask = parseIPv4(netmasks.get(nic.address) ?? '');
+    addresses.add(address === undefined || netmask === undefined
+      ? LIMITED_BROADCAST_ADDRESS
+      : formatIPv4((address & netmask) | (~netmask >>> 0)));
+  }
+  return [...addresses];
+}
+
 function pickInterfaces(all: IPv4Interface[], interfaceAddress?: string) {
   if (!interfaceAddress || interfaceAddress === 'auto') return all;
   return all.filter((i) => i.address === interfaceAddress);
@@ -173,10 +383,13 @@ function attachReplyHandler(
   rx: dgram.Socket,
   found: Map<string, DiscoveredFlexitUnit>,
   logger?: RuntimeLogger,
+  diagnostics?: DiscoveryDiagnostics,
 ) {
   rx.on('message', (msg, rinfo) => {
     const parsed = discoveryDependencies.parseFlexitReply(msg, rinfo.address);
+    if (diagnostics) diagnostics.repliesReceived += 1;
     if (!parsed) {
+      if (diagnostics) recordIgnoredReply(diagnostics, msg, formatRemote(rinfo));
       logger?.info('discovery.reply.ignored', 'Ignored discovery reply because parser returned null', {
         remote: formatRemote(rinfo),
         payloadLength: msg.length,
@@ -198,6 +411,17 @@ function attachReplyHandler(
   });
 }
 
+function recordIgnoredReply(diagnostics: DiscoveryDiagnostics, msg: Buffer, remote: string) {
+  const serial = findReplySerial(msg);
+  if (!serial || isNordicSerial(serial)) {
+    diagnostics.repliesUnreadable += 1;
+    return;
+  }
+  if (!diagnostics.repliesRejected.some((reply) => reply.remote === remote && reply.serial === serial)) {
+    diagnostics.repliesRejected.push({ remote, serial });
+  }
+}
+
 function configureTxSocket(tx: dgram.Socket, logger?: RuntimeLogger) {
   tx.setMulticastTTL(1); // link-local only
   tx.setMulticastLoopback(false);
@@ -231,12 +455,20 @@ function sendDiscoverViaInterface(
   try {
     tx.setMulticastInterface(nic.address);
     tx.send(request, TX_PORT, TX_GROUP);
+    countPerInterface(context.diagnostics?.burstsSent, nic);
     logDiscoverSend(nic, context.loggedSendInterfaces, context.logger);
   } catch (err) {
+    countPerInterface(context.diagnostics?.sendFailures, nic);
     logDiscoverSendError(nic, context.loggedSendFailures, context.logger, err);
   }
 }
 
+function countPerInterface(counts: Record<string, number> | undefined, nic: IPv4Interface) {
+  if (!counts) return;
+  const key = formatInterface(nic);
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
 function logDiscoverSend(
   nic: IPv4Interface,
   loggedSendInterfaces: Set<string>,
@@ -345,6 +577,21 @@ function bindSocket(sock: dgram.Socket, port: number) {
   });
 }
 
+async function bindDiscoverySocket(
+  sock: dgram.Socket,
+  label: string,
+  port: number,
+  diagnostics?: DiscoveryDiagnostics,
+) {
+  try {
+    await bindSocket(sock, port);
+  } catch (err) {
+    diagnostics?.socketErrors.push(`${label} 0.0.0.0:${port}: ${err instanceof Error ? err.message : String(err)}`);
+    throw err;
+  }
+  diagnostics?.socketsBound.push(`${label} 0.0.0.0:${port}`);
+}
+
 function safeClose(sock: dgram.Socket, label: string, logger?: RuntimeLogger) {
   try {
     sock.close();
@@ -21,3 +21,47 @@ export function getNordicModelFromSerial(serial: string): string | null {
   const modelKey = Number(normalized.slice(0, 6));
   return NORDIC_MODELS[modelKey] ?? null;
 }
+
+interface NordicModelSize {
+  /** Maximum airflow in m³/h, used as the airflow at 100 % fan speed. */
+  nominalAirflowM3h: number;
+  /**
+   * Fan inlet k-factor in m³/h per √Pa. The controller reports the differential
+   * pressure over each fan inlet (AI 72/73), and airflow = k × √Δp.
+   */
+  fanKFactor: number;
+}
+
+// Per model size (the first word of the model name). Both values come from the model's
+// Flexit installation and user manual: the airflow is the maximum from its technical data
+// table and the k-factor is from its airflow measurement section. Check the current
+// manual revision there before changing a value or adding a size.
+const NORDIC_MODEL_SIZES: Record<string, NordicModelSize> = {
+  S2: { nominalAirflowM3h: 290, fanKFactor: 48 },
+  S3: { nominalAirflowM3h: 400, fanKFactor: 60 },
+  S4: { nominalAirflowM3h: 560, fanKFactor: 76 },
+  CL2: { nominalAirflowM3h: 230, fanKFactor: 48 },
+  CL3: { nominalAirflowM3h: 320, fanKFactor: 48 },
+  CL4: { nominalAirflowM3h: 430, fanKFactor: 60 },
+  KS3: { nominalAirflowM3h: 360, fanKFactor: 60 },
+};
+
+function getNordicModelSize(model: string | null): NordicModelSize | null {
+  if (!model) return null;
+  return NORDIC_MODEL_SIZES[model.split(' ')[0]] ?? null;
+}
+
+export function getNordicNominalAirflow(model: string | null): number | null {
+  return getNordicModelSize(model)?.nominalAirflowM3h ?? null;
+}
+
+export function getNordicFanKFactor(model: string | null): number | null {
+  return getNordicModelSize(model)?.fanKFactor ?? null;
+}
+
+/** Airflow in m³/h from the fan inlet differential pressure, or null for unknown models. */
+export function computeNordicAirflow(model: string | null, pressurePa: number): number | null {
+  const kFactor = getNordicFanKFactor(model);
+  if (kFactor === null || !Number.isFinite(pressurePa)) return null;
+  return Math.round(kFactor * Math.sqrt(Math.max(0, pressurePa)));
+}
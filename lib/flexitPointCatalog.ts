@@ -0,0 +1,84 @@
+import { CatalogPointData, FLEXIT_POINT_CATALOG_DATA } from './flexitPointCatalogData';
+
+export interface CatalogPoint extends CatalogPointData {
+  key: string;
+}
+
+/** A point the app reads or writes, checked against the catalog by `findCatalogMismatches`. */
+export interface CatalogPointUsage {
+  type: number;
+  instance: number;
+  write: boolean;
+}
+
+const MAX_SEARCH_RESULTS = 30;
+
+export const catalogPointKey = (type: number, instance: number) => `${type}:${instance}`;
+
+const CATALOG_POINTS: readonly CatalogPoint[] = FLEXIT_POINT_CATALOG_DATA.map((point) => ({
+  ...point,
+  key: catalogPointKey(point.type, point.instance),
+}));
+const CATALOG_POINTS_BY_KEY = new Map(CATALOG_POINTS.map((point) => [point.key, point]));
+
+export function getCatalogPoint(key: string): CatalogPoint | undefined {
+  return CATALOG_POINTS_BY_KEY.get(key.trim());
+}
+
+/** Only points documented as RW may be written from flows. */
+export function isWritableCatalogPoint(point: CatalogPoint): boolean {
+  return point.access === 'RW';
+}
+
+export function formatCatalogPoint(point: CatalogPoint): string {
+  return `${point.description} (${point.key})`;
+}
+
+/** Log label for a BACnet object, e.g. `Supply air temperature (0:4)`, or just the key if undocumented. */
+export function describeBacnetObject(objectId: { type: number; instance: number }): string {
+  const key = catalogPointKey(objectId.type, objectId.instance);
+  const point = CATALOG_POINTS_BY_KEY.get(key);
+  return point ? formatCatalogPoint(point) : key;
+}
+
+/**
+ * Describes each usage whose point is missing from the catalog, or is written although the
+ * catalog documents it as read-only and does not flag it as an observed Flexit GO write.
+ * Points of unknown access are accepted either way.
+ */
+export function findCatalogMismatches(usages: readonly CatalogPointUsage[]): string[] {
+  const mismatches = new Set<string>();
+  for (const usage of usages) {
+    const key = catalogPointKey(usage.type, usage.instance);
+    const point = CATALOG_POINTS_BY_KEY.get(key);
+    if (!point) {
+      mismatches.add(`${key} is not in the point catalog`);
+    } else if (usage.write && point.access === 'R' && !point.observedWrite) {
+      mismatches.add(`${formatCatalogPoint(point)} is written but documented as read-only`);
+    }
+  }
+  return [...mismatches];
+}
+
+/**
+ * Points whose description or key contains every word of the query, e.g. `supply temp`
+ * or `2:1836`. Descriptions starting with the query are listed first.
+ */
+export function searchCatalogPoints(
+  query: string,
+  options: { writableOnly?: boolean } = {},
+): CatalogPoint[] {
+  const normalizedQuery = query.trim().toLowerCase();
+  const words = normalizedQuery.split(/\s+/).filter(Boolean);
+  const matches = CATALOG_POINTS.filter((point) => {
+    if (options.writableOnly && !isWritableCatalogPoint(point)) return false;
+    const haystack = `${point.description} ${point.key}`.toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+
+  const startsWithQuery = (point: CatalogPoint) => point.description.toLowerCase().startsWith(normalizedQuery);
+  return [
+    ...matches.filter(startsWithQuery),
+    ...matches.filter((point) => !startsWithQuery(point)),
+  ].slice(0, MAX_SEARCH_RESULTS);
+}
@@ -0,0 +1,1506 @@
+// Generated by scripts/generate-point-catalog.js from docs/bacnet_point_catalog.json. Do not edit.
+/* eslint-disable */
+export type PointAccess = 'R' | 'RW' | 'unknown';
+export type PointValueType = 'real' | 'enum' | 'unsigned' | 'unknown';
+
+export interface CatalogPointData {
+  type: number;
+  instance: number;
+  access: PointAccess;
+  valueType: PointValueType;
+  description: string;
+  /** BACnet object name, e.g. `R(1)'TSu`. */
+  name?: string;
+  /** Engineering units, e.g. `degC` or `%`. */
+  units?: string;
+  enumValues?: Readonly<Record<string, number>>;
+  /** Flexit GO was observed writing this point although the documentation marks it read-only. */
+  observedWrite?: boolean;
+  /** Observed Flexit GO behaviour that differs from the documentation. */
+  notes?: readonly string[];
+}
+
+export const FLEXIT_POINT_CATALOG_DATA: readonly CatalogPointData[] = [
+  { type: 0, instance: 1, access: 'R', valueType: 'real', description: "Outside air temperature", name: "R(1)'TOa", units: 'degC' },
+  { type: 0, instance: 4, access: 'R', valueType: 'real', description: "Supply air temperature", name: "R(1)'TSu", units: 'degC' },
+  { type: 0, instance: 5, access: 'R', valueType: 'real', description: "Tacho, supply fan", name: "R(1)'FanSuSpdFb", units: 'rpm' },
+  { type: 0, instance: 11, access: 'R', valueType: 'real', description: "Exhaust air temperature", name: "R(1)'TEh", units: 'degC' },
+  { type: 0, instance: 12, access: 'R', valueType: 'real', description: "Tacho, exhaust fan", name: "R(1)'FanEhSpdFb", units: 'rpm' },
+  { type: 0, instance: 71, access: 'unknown', valueType: 'unknown', description: "Temperature, supply air after rotor", name: "R(1)'IOExtnDevEcul'TSuAfHExg", units: 'degC' },
+  { type: 0, instance: 72, access: 'R', valueType: 'real', description: "Air flow, pressure exhaust fan", name: "R(1)'IOExtnDevEcul'DiffPFanEh", units: 'Pa' },
+  { type: 0, instance: 73, access: 'R', valueType: 'real', description: "Air flow, pressure supply fan", name: "R(1)'IOExtnDevEcul'DiffPFanSu", units: 'Pa' },
+  { type: 0, instance: 75, access: 'R', valueType: 'real', description: "Room temperature", name: "R(1)'ROpUnDev'TR", units: 'degC' },
+  { type: 0, instance: 77, access: 'unknown', valueType: 'unknown', description: "Air quality, input value", name: "R(1)'IOExtnDevEcul'AQualRIn", units: 'ppm' },
+  { type: 0, instance: 78, access: 'unknown', valueType: 'unknown', description: "Extract air pressure", name: "R(1)'PDuctDevQbm'PEx", units: 'Pa' },
+  { type: 0, instance: 79, access: 'unknown', valueType: 'unknown', description: "Supply air pressure", name: "R(1)'PDuctDevQbm'PSu", units: 'Pa' },
+  { type: 0, instance: 80, access: 'unknown', valueType: 'unknown', description: "Maximum room temperature RF system", name: "R(1)'FanNodeDev'TRMaxRfqs", units: 'degC' },
+  { type: 0, instance: 81, access: 'unknown', valueType: 'unknown', description: "Maximum room air humidity RF system", name: "R(1)'FanNodeDev'HuRMaxRfqs", units: '%RH' },
+  { type: 0, instance: 82, access: 'unknown', valueType: 'unknown', description: "Maximum room air quality RF system", name: "R(1)'FanNodeDev'AQualRMaxRfqs", units: 'ppm' },
+  { type: 0, instance: 83, access: 'unknown', valueType: 'unknown', description: "Room temperature VMSH 1", name: "R(1)'ROpUnDevVmsh1'TRVmsh1", units: 'degC' },
+  { type: 0, instance: 84, access: 'unknown', valueType: 'unknown', description: "Room air humidity VMSH 1", name: "R(1)'ROpUnDevVmsh1'HuRVmsh1", units: '%RH' },
+  { type: 0, instance: 85, access: 'unknown', valueType: 'unknown', description: "Room dew point temperature VMSH 1", name: "R(1)'ROpUnDevVmsh1'TDwpRVmsh1", units: 'degC' },
+  { type: 0, instance: 86, access: 'unknown', valueType: 'unknown', description: "Room temperature VMSH 2", name: "R(1)'ROpUnDevVmsh2'TRVmsh2", units: 'degC' },
+  { type: 0, instance: 87, access: 'unknown', valueType: 'unknown', description: "Room air humidity VMSH 2", name: "R(1)'ROpUnDevVmsh2'HuRVmsh2", units: '%RH' },
+  { type: 0, instance: 88, access: 'unknown', valueType: 'unknown', description: "Room dew point temperature VMSH 2", name: "R(1)'ROpUnDevVmsh2'TDwpRVmsh2", units: 'degC' },
+  { type: 0, instance: 89, access: 'unknown', valueType: 'unknown', description: "Room temperature VMSH 3", name: "R(1)'ROpUnDevVmsh3'TRVmsh3", units: 'degC' },
+  { type: 0, instance: 90, access: 'unknown', valueType: 'unknown', description: "Room air humidity VMSH 3", name: "R(1)'ROpUnDevVmsh3'HuRVmsh3", units: '%RH' },
+  { type: 0, instance: 91, access: 'unknown', valueType: 'unknown', description: "Room dew point temperature VMSH 3", name: "R(1)'ROpUnDevVmsh3'TDwpRVmsh3", units: 'degC' },
+  { type: 0, instance: 92, access: 'unknown', valueType: 'unknown', description: "Air quality, max value RF", name: "R(1)'ROpUnDevVmsc'AQualRVmsc", units: 'ppm' },
+  { type: 0, instance: 93, access: 'unknown', valueType: 'unknown', description: "Inputs state VMC", name: "R(1)'IOExtnDevVmc'InStaVmc" },
+  { type: 0, instance: 95, access: 'R', valueType: 'real', description: "Extract air temperature", name: "R(1)'TEx", units: 'degC' },
+  { type: 0, instance: 96, access: 'R', valueType: 'real', description: "Humidity", name: "R(1)'HuRelEx", units: '%RH' },
+  { type: 1, instance: 0, access: 'R', valueType: 'real', description: "Rotating heat exchanger", name: "R(1)'RotHExgSpd", units: '%' },
+  { type: 1, instance: 3, access: 'R', valueType: 'real', description: "Fan speed, supply air", name: "R(1)'FanSuSpd", units: '%' },
+  { type: 1, instance: 4, access: 'R', valueType: 'real', description: "Fan speed, exhaust air", name: "R(1)'FanEhSpd", units: '%' },
+  { type: 1, instance: 28, access: 'unknown', valueType: 'unknown', description: "Cooling, valve position", name: "R(1)'IOExtnDevEcul'CclVlvPos(1)", units: '%' },
+  { type: 1, instance: 29, access: 'R', valueType: 'real', description: "Heating battery, electrical", name: "R(1)'HclElPos", units: '%' },
+  { type: 2, instance: 0, access: 'unknown', valueType: 'unknown', description: "Diagnostics for automation station", name: "Infra'DiagAs" },
+  { type: 2, instance: 3, access: 'unknown', valueType: 'unknown', description: "Diagnostics for KNX PL-Link bus", name: "PlnkBus'DiagPlnkBus" },
+  { type: 2, instance: 5, access: 'unknown', valueType: 'unknown', description: "Result of room temperature", name: "R(1)'RHvacCoo'TRCol'TRRs", units: 'degC' },
+  { type: 2, instance: 8, access: 'unknown', valueType: 'unknown', description: "Alarm, code type A", name: "R(1)'RHvacCoo'AlmFnct'AalmCode" },
+  { type: 2, instance: 56, access: 'unknown', valueType: 'unknown', description: "Fire alarm, limit supply air", name: "R(1)'RHvacCoo'SftyCtl'TSuFireAlmLm", units: 'degC' },
+  { type: 2, instance: 57, access: 'unknown', valueType: 'unknown', description: "Maint.alarm, max limit supply air", name: "R(1)'RHvacCoo'SftyCtl'TSuHiAlmLm", units: 'degC' },
+  { type: 2, instance: 58, access: 'unknown', valueType: 'unknown', description: "Maint.alarm, min limit supply air", name: "R(1)'RHvacCoo'SftyCtl'TSuLoAlmLm", units: 'degC' },
+  { type: 2, instance: 59, access: 'unknown', valueType: 'unknown', description: "Fire alarm, limit extract air", name: "R(1)'RHvacCoo'SftyCtl'TExFireAlmLm", units: 'degC' },
+  { type: 2, instance: 60, access: 'unknown', valueType: 'unknown', description: "Humidity, present setpoint", name: "R(1)'RHvacCoo'DhuCtl'PrSpDhu", units: '%RH' },
+  { type: 2, instance: 61, access: 'unknown', valueType: 'unknown', description: "Humidity, setpoint HIGH", name: "R(1)'RHvacCoo'DhuCtl'SpHuRelRCmf", units: '%RH' },
+  { type: 2, instance: 62, access: 'unknown', valueType: 'unknown', description: "Humidity, setpoint HOME", name: "R(1)'RHvacCoo'DhuCtl'SpHuRelRPcf", units: '%RH' },
+  { type: 2, instance: 63, access: 'unknown', valueType: 'unknown', description: "Humidity, setpoint AWAY", name: "R(1)'RHvacCoo'DhuCtl'SpHuRelREco", units: '%RH' },
+  { type: 2, instance: 66, access: 'unknown', valueType: 'unknown', description: "Humidity, Kp", name: "R(1)'RHvacCoo'DhuCtl'GainDhuCtr" },
+  { type: 2, instance: 69, access: 'unknown', valueType: 'unknown', description: "Present cooling setpoint for comfort", name: "R(1)'RHvacCoo'TCtlC'PrSpCCmf", units: 'degC' },
+  { type: 2, instance: 70, access: 'unknown', valueType: 'unknown', description: "Present cooling setpoint for pre-comfort", name: "R(1)'RHvacCoo'TCtlC'PrSpCPcf", units: 'degC' },
+  { type: 2, instance: 71, access: 'unknown', valueType: 'unknown', description: "Present cooling setpoint for economy", name: "R(1)'RHvacCoo'TCtlC'PrSpCEco", units: 'degC' },
+  { type: 2, instance: 72, access: 'unknown', valueType: 'unknown', description: "Present cooling setpoint for protection", name: "R(1)'RHvacCoo'TCtlC'PrSpCPrt", units: 'degC' },
+  { type: 2, instance: 73, access: 'unknown', valueType: 'unknown', description: "Present cooling setpoint", name: "R(1)'RHvacCoo'TCtlC'PrSpC", units: 'degC' },
+  { type: 2, instance: 75, access: 'unknown', valueType: 'unknown', description: "Cooling, setpoint end value shift", name: "R(1)'RHvacCoo'TCtlC'EndSpShftC", units: 'degC' },
+  { type: 2, instance: 76, access: 'unknown', valueType: 'unknown', description: "Cooling, outdoor air limit for release", name: "R(1)'RHvacCoo'TCtlC'CLmCmf", units: 'degC' },
+  { type: 2, instance: 78, access: 'unknown', valueType: 'unknown', description: "Cooling setpoint start value shift", name: "R(1)'RHvacCoo'TCtlC'SttSpShftC", units: 'degC' },
+  { type: 2, instance: 79, access: 'unknown', valueType: 'unknown', description: "Cooling, setpoint for shift", name: "R(1)'RHvacCoo'TCtlC'SpShftC", units: 'K' },
+  { type: 2, instance: 96, access: 'unknown', valueType: 'unknown', description: "Present heating setpoint for comfort", name: "R(1)'RHvacCoo'TCtlH'PrSpHCmf", units: 'degC' },
+  { type: 2, instance: 97, access: 'unknown', valueType: 'unknown', description: "Present heating setpoint for pre-comfort", name: "R(1)'RHvacCoo'TCtlH'PrSpHPcf", units: 'degC' },
+  { type: 2, instance: 98, access: 'unknown', valueType: 'unknown', description: "Present heating setpoint for economy", name: "R(1)'RHvacCoo'TCtlH'PrSpHEco", units: 'degC' },
+  { type: 2, instance: 99, access: 'unknown', valueType: 'unknown', description: "Present heating setpoint for protection", name: "R(1)'RHvacCoo'TCtlH'PrSpHPrt", units: 'degC' },
+  { type: 2, instance: 100, access: 'unknown', valueType: 'unknown', description: "Present heating setpoint", name: "R(1)'RHvacCoo'TCtlH'PrSpH", units: 'degC' },
+  { type: 2, instance: 102, access: 'unknown', valueType: 'unknown', description: "Heating, setpoint end value shift", name: "R(1)'RHvacCoo'TCtlH'EndSpShftH", units: 'degC' },
+  { type: 2, instance: 103, access: 'unknown', valueType: 'unknown', description: "Heating limit comfort", name: "R(1)'RHvacCoo'TCtlH'HLmCmf", units: 'degC' },
+  { type: 2, instance: 104, access: 'unknown', valueType: 'unknown', description: "Outs.air temp.limit to start correction", name: "R(1)'RHvacCoo'TCtlH'TOaLmSttCorr", units: 'degC' },
+  { type: 2, instance: 106, access: 'unknown', valueType: 'unknown', description: "Heating, setpoint start value shift", name: "R(1)'RHvacCoo'TCtlH'SttSpShftH", units: 'degC' },
+  { type: 2, instance: 107, access: 'unknown', valueType: 'unknown', description: "Heating, setpoint for shift", name: "R(1)'RHvacCoo'TCtlH'SpShftH", units: 'K' },
+  { type: 2, instance: 126, access: 'unknown', valueType: 'unknown', description: "Room temperature setpoint", name: "R(1)'RHvacCoo'SpTRDtr'SpTR", units: 'degC' },
+  { type: 2, instance: 127, access: 'unknown', valueType: 'unknown', description: "Room temperature setpoint shift", name: "R(1)'RHvacCoo'SpTRDtr'SpTRShft", units: 'K' },
+  { type: 2, instance: 130, access: 'unknown', valueType: 'unknown', description: "Alarm, state code B", name: "R(1)'RHvacCoo'MntnFnct'BalmCode" },
+  { type: 2, instance: 131, access: 'unknown', valueType: 'unknown', description: "Effective room temperature", name: "R(1)'HVAC'TREff", units: 'degC' },
+  { type: 2, instance: 132, access: 'unknown', valueType: 'unknown', description: "Present setpoint supply temperature", name: "R(1)'HVAC'PrSpTSu", units: 'degC' },
+  { type: 2, instance: 134, access: 'unknown', valueType: 'unknown', description: "Rotating heat exchanger, cooling Kp", name: "R(1)'HVAC'Erc'GainRotHxCtrC" },
+  { type: 2, instance: 135, access: 'unknown', valueType: 'unknown', description: "Rotating heat exchanger, heating Kp", name: "R(1)'HVAC'Erc'GainRotHxCtrH" },
+  { type: 2, instance: 136, access: 'unknown', valueType: 'unknown', description: "Cooling, dT B3-B4 start", name: "R(1)'HVAC'Erc'DiffTRTOaMinC", units: 'K' },
+  { type: 2, instance: 140, access: 'unknown', valueType: 'unknown', description: "De-icing, humidity comp. Start", name: "R(1)'HVAC'Erc'SstHuCmpDeic", units: '%RH' },
+  { type: 2, instance: 142, access: 'unknown', valueType: 'unknown', description: "De-icing, humidity comp. End", name: "R(1)'HVAC'Erc'EndHuCmpDeic", units: '%RH' },
+  { type: 2, instance: 144, access: 'unknown', valueType: 'unknown', description: "Rotary heat exchanger heating request", name: "R(1)'HVAC'Erc'RotHExgHReq", units: '%' },
+  { type: 2, instance: 145, access: 'unknown', valueType: 'unknown', description: "Rotary heat exchanger cooling request", name: "R(1)'HVAC'Erc'RotHExgCReq", units: '%' },
+  { type: 2, instance: 147, access: 'unknown', valueType: 'unknown', description: "Rotating heat exchanger , min speed", name: "R(1)'HVAC'Erc'RotHExgSpdMin", units: '%' },
+  { type: 2, instance: 148, access: 'unknown', valueType: 'unknown', description: "Rotating heat exchanger , max speed", name: "R(1)'HVAC'Erc'RotHExgSpdMax", units: '%' },
+  { type: 2, instance: 189, access: 'unknown', valueType: 'unknown', description: "Switch-on point for air flow hold heat.", name: "R(1)'HVAC'Hcl'SwiOnAirFlHldH", units: '%' },
+  { type: 2, instance: 190, access: 'unknown', valueType: 'unknown', description: "Electric heater, nom. Power", name: "R(1)'HVAC'Hcl'NomElPwr", units: 'kW' },
+  { type: 2, instance: 194, access: 'R', valueType: 'real', description: "Heating coil electric power", name: "R(1)'HVAC'Hcl'HclElPwr", units: 'kW' },
+  { type: 2, instance: 195, access: 'unknown', valueType: 'unknown', description: "Heating coil heating request minimum", name: "R(1)'HVAC'Hcl'HclHReqMin", units: '%' },
+  { type: 2, instance: 196, access: 'unknown', valueType: 'unknown', description: "Heating coil heating request", name: "R(1)'HVAC'Hcl'HclHReq", units: '%' },
+  { type: 2, instance: 197, access: 'unknown', valueType: 'unknown', description: "Supply, heater, Kp zone 2", name: "R(1)'HVAC'Hcl'GainHclTSuCtrH" },
+  { type: 2, instance: 285, access: 'R', valueType: 'real', description: "Air filter, operating time", name: "R(1)'HVAC'AlmBdl'TiOpFil", units: 'h', observedWrite: true, notes: ["Observed Flexit GO writes AV:285 presentValue=0 with priority 16 on filter change; treated as compatibility reset write despite read-only docs.","Flexit GO sends writeProperty presentValue=0 (priority 16) when replacing filters, even though documentation marks the point as read-only."] },
+  { type: 2, instance: 286, access: 'RW', valueType: 'real', description: "Air filter, time period for exchange", name: "R(1)'HVAC'AlmBdl'TiOpFilRpc", units: 'h', notes: ["Observed Flexit GO UI uses months but writes AV:286 in hours (example: 5 months => presentValue=3660) with priority 16.","Flexit GO shows filter interval in months (3..12), but writes/reads this point in hours."] },
+  { type: 2, instance: 296, access: 'unknown', valueType: 'unknown', description: "Diagnostics for Modbus", name: "ModBus'DiagModBus" },
+  { type: 2, instance: 297, access: 'unknown', valueType: 'unknown', description: "Diagnostics for I/O bus", name: "IOBus'DiagIOBus" },
+  { type: 2, instance: 1794, access: 'unknown', valueType: 'unknown', description: "Present A-Alarm code", name: "R(1)'RHvacCoo'AlmFnct'PrAalmCode" },
+  { type: 2, instance: 1796, access: 'unknown', valueType: 'unknown', description: "Diagnostics for ECUL", name: "R(1)'IOExtnDevEcul'DiagEcul" },
+  { type: 2, instance: 1814, access: 'unknown', valueType: 'unknown', description: "Time counter, FIRE", name: "R(1)'RHvacCoo'FplcVntOp'OphFplcVnt", units: 'h' },
+  { type: 2, instance: 1820, access: 'unknown', valueType: 'unknown', description: "Time counter, cooker hood", name: "R(1)'RHvacCoo'FhVntOp'OphFhVnt", units: 'h' },
+  { type: 2, instance: 1831, access: 'unknown', valueType: 'unknown', description: "Air quality, present setpoint", name: "R(1)'RHvacCoo'VntCtl'PrSpVnt", units: 'ppm' },
+  { type: 2, instance: 1832, access: 'unknown', valueType: 'unknown', description: "Air quality, setpoint HIGH", name: "R(1)'RHvacCoo'VntCtl'SpAQualRCmf", units: 'ppm' },
+  { type: 2, instance: 1833, access: 'unknown', valueType: 'unknown', description: "Air quality, setpoint HOME", name: "R(1)'RHvacCoo'VntCtl'SpAQualRPcf", units: 'ppm' },
+  { type: 2, instance: 1834, access: 'unknown', valueType: 'unknown', description: "Air quality, setpoint AWAY", name: "R(1)'RHvacCoo'VntCtl'SpAQualREco", units: 'ppm' },
+  { type: 2, instance: 1835, access: 'RW', valueType: 'real', description: "Linear, setpoint supply air HIGH", name: "R(1)'RHvacCoo'VntCtl'SpFanSuSpdHi", units: '%', notes: ["Observed Flexit GO writes these fan-profile AV points as REAL presentValue with priority 16."] },
+  { type: 2, instance: 1836, access: 'RW', valueType: 'real', description: "Linear, setpoint supply air HOME", name: "R(1)'RHvacCoo'VntCtl'SpFanSuSpdHome", units: '%' },
+  { type: 2, instance: 1837, access: 'RW', valueType: 'real', description: "Linear, setpoint supply air AWAY", name: "R(1)'RHvacCoo'VntCtl'SpFanSuSpdAway", units: '%' },
+  { type: 2, instance: 1838, access: 'RW', valueType: 'real', description: "Linear, setpoint supply air FIRE", name: "R(1)'RHvacCoo'VntCtl'SpFanSuSpdFplc", units: '%' },
+  { type: 2, instance: 1839, access: 'RW', valueType: 'real', description: "Linear, setpoint supply air COOKER", name: "R(1)'RHvacCoo'VntCtl'SpFanSuSpdCkr", units: '%' },
+  { type: 2, instance: 1840, access: 'RW', valueType: 'real', description: "Linear, setpoint exhaust air HIGH", name: "R(1)'RHvacCoo'VntCtl'SpFanEhSpdHi", units: '%' },
+  { type: 2, instance: 1841, access: 'RW', valueType: 'real', description: "Linear, setpoint exhaust air HOME", name: "R(1)'RHvacCoo'VntCtl'SpFanEhSpdHome", units: '%' },
+  { type: 2, instance: 1842, access: 'RW', valueType: 'real', description: "Linear, setpoint exhaust air AWAY", name: "R(1)'RHvacCoo'VntCtl'SpFanEhSpdAway", units: '%' },
+  { type: 2, instance: 1843, access: 'RW', valueType: 'real', description: "Linear, setpoint exhaust air FIRE", name: "R(1)'RHvacCoo'VntCtl'SpFanEhSpdFplc", units: '%' },
+  { type: 2, instance: 1844, access: 'RW', valueType: 'real', description: "Linear, setpoint exhaust air COOKER", name: "R(1)'RHvacCoo'VntCtl'SpFanEhSpdCkr", units: '%' },
+  { type: 2, instance: 1845, access: 'unknown', valueType: 'unknown', description: "Gain for ventilation controller", name: "R(1)'RHvacCoo'VntCtl'GainVntCtr" },
+  { type: 2, instance: 1846, access: 'unknown', valueType: 'unknown', description: "Present B-Alarm code", name: "R(1)'RHvacCoo'MntnFnct'PrBalmCode" },
+  { type: 2, instance: 1847, access: 'unknown', valueType: 'unknown', description: "Operating hours, total time", name: "R(1)'HVAC'AlmBdl'OphDev", units: 'h' },
+  { type: 2, instance: 1849, access: 'unknown', valueType: 'unknown', description: "De-icing, humidity comp. Delta", name: "R(1)'HVAC'Erc'DiffTHuCmpDeic", units: 'K' },
+  { type: 2, instance: 1850, access: 'unknown', valueType: 'unknown', description: "Belt broken, delta B3-B6", name: "R(1)'HVAC'Erc'DTRotHxBltFlt", units: 'K' },
+  { type: 2, instance: 1851, access: 'unknown', valueType: 'unknown', description: "Time counter, op. time RMC", name: "R(1)'HVAC'Erc'OphErc", units: 'h' },
+  { type: 2, instance: 1852, access: 'unknown', valueType: 'unknown', description: "De-icing, rotor speed", name: "R(1)'HVAC'Erc'RotHExgSpdDeic", units: '%' },
+  { type: 2, instance: 1869, access: 'unknown', valueType: 'unknown', description: "Air quality, present fan control", name: "R(1)'HVAC'FanSu'FanVntReq", units: '%' },
+  { type: 2, instance: 1870, access: 'unknown', valueType: 'unknown', description: "Humidity, present fan control", name: "R(1)'HVAC'FanSu'FanDhuReq", units: '%' },
+  { type: 2, instance: 1878, access: 'unknown', valueType: 'unknown', description: "De-icing, setpoint supply fan speed", name: "R(1)'HVAC'FanSu'SpFanSuSpdDeic", units: '%' },
+  { type: 2, instance: 1879, access: 'unknown', valueType: 'unknown', description: "Time counter, op. time - El. heater", name: "R(1)'HVAC'Hcl'OphHcl", units: 'h' },
+  { type: 2, instance: 1913, access: 'unknown', valueType: 'unknown', description: "Time counter, STOP", name: "R(1)'ROpModDtr'OphStop", units: 'h' },
+  { type: 2, instance: 1914, access: 'unknown', valueType: 'unknown', description: "Time counter, AWAY", name: "R(1)'ROpModDtr'OphAway", units: 'h' },
+  { type: 2, instance: 1915, access: 'unknown', valueType: 'unknown', description: "Time counter, HOME", name: "R(1)'ROpModDtr'OphHome", units: 'h' },
+  { type: 2, instance: 1916, access: 'unknown', valueType: 'unknown', description: "Time counter, HIGH", name: "R(1)'ROpModDtr'OphHi", units: 'h' },
+  { type: 2, instance: 1919, access: 'unknown', valueType: 'unknown', description: "Air quality, max value", name: "R(1)'RHvacCoo'AQualRCol'AQualRRs", units: 'ppm' },
+  { type: 2, instance: 1920, access: 'unknown', valueType: 'unknown', description: "Air temp., setpoint", name: "R(1)'RHvacCoo'TCtlH'SpTHrv", units: 'degC' },
+  { type: 2, instance: 1921, access: 'unknown', valueType: 'unknown', description: "Air temp., delta setpoint heating HOME", name: "R(1)'RHvacCoo'TCtlH'DSpHHome", units: 'K', notes: ["Flexit GO additional-heating menu reads this point as heating neutral-zone value for HOME mode."] },
+  { type: 2, instance: 1922, access: 'unknown', valueType: 'unknown', description: "Supply, delta HOME", name: "R(1)'RHvacCoo'TCtlH'NzTHrv", units: 'K' },
+  { type: 2, instance: 1926, access: 'unknown', valueType: 'unknown', description: "Air temp., delta setpoint cooling HOME", name: "R(1)'RHvacCoo'TCtlC'DSpCHome", units: 'K' },
+  { type: 2, instance: 1933, access: 'unknown', valueType: 'unknown', description: "Free cooling, d B3-setpoint start", name: "R(1)'RHvacCoo'FreeCDtr'HysSpTR", units: 'K' },
+  { type: 2, instance: 1934, access: 'unknown', valueType: 'unknown', description: "Outside air temp.limit", name: "R(1)'RHvacCoo'FreeCDtr'TOaLm", units: 'degC' },
+  { type: 2, instance: 1935, access: 'unknown', valueType: 'unknown', description: "Free cooling, d B4-setpoint", name: "R(1)'RHvacCoo'FreeCDtr'HysTOaLm", units: 'K' },
+  { type: 2, instance: 1936, access: 'unknown', valueType: 'unknown', description: "Free cooling, dT B3-B4 start", name: "R(1)'RHvacCoo'FreeCDtr'DiffTRTOaSwiOn", units: 'K' },
+  { type: 2, instance: 1937, access: 'unknown', valueType: 'unknown', description: "Free cooling, dT B3-B4 stop", name: "R(1)'RHvacCoo'FreeCDtr'DiffTRTOaSwiOf", units: 'K' },
+  { type: 2, instance: 1938, access: 'unknown', valueType: 'unknown', description: "De-icing, setpoint fan start", name: "R(1)'HVAC'Erc'SpTDeicFan", units: 'degC' },
+  { type: 2, instance: 1939, access: 'unknown', valueType: 'unknown', description: "De-icing, setpoint rotor start", name: "R(1)'HVAC'Erc'SpTDeicHExg", units: 'degC' },
+  { type: 2, instance: 1940, access: 'unknown', valueType: 'unknown', description: "Heat exchanger, skip speed end", name: "R(1)'HVAC'Erc'RotHxSkipSpdHi", units: '%' },
+  { type: 2, instance: 1941, access: 'unknown', valueType: 'unknown', description: "Heat exchanger, skip speed start", name: "R(1)'HVAC'Erc'RotHxSkipSpdLo", units: '%' },
+  { type: 2, instance: 1942, access: 'unknown', valueType: 'unknown', description: "Heat exchanger, ramp down start", name: "R(1)'HVAC'Erc'TDeicTiOffStt", units: 'degC' },
+  { type: 2, instance: 1943, access: 'unknown', valueType: 'unknown', description: "Heat exchanger, ramp down end", name: "R(1)'HVAC'Erc'TDeicTiOffEnd", units: 'degC' },
+  { type: 2, instance: 1948, access: 'unknown', valueType: 'unknown', description: "Tacho, alarm limit fan speed", name: "R(1)'HVAC'FanSu'FanSpdFbFltLm", units: 'rpm' },
+  { type: 2, instance: 1958, access: 'unknown', valueType: 'unknown', description: "De-icing, setpoint exhaust fan speed", name: "R(1)'HVAC'FanEh'SpFanEhSpdDeic", units: '%' },
+  { type: 2, instance: 1977, access: 'unknown', valueType: 'unknown', description: "Supply air, setpoint for heating", name: "R(1)'HVAC'Hcl'SpTSuHcl", units: 'degC' },
+  { type: 2, instance: 1978, access: 'unknown', valueType: 'unknown', description: "Belt broken, delta B3-B4", name: "R(1)'HVAC'Erc'DiffTExTOaMin", units: 'K' },
+  { type: 2, instance: 1983, access: 'unknown', valueType: 'unknown', description: "Diagnostics value", name: "R(1)'HVAC'DiagVal" },
+  { type: 2, instance: 1984, access: 'unknown', valueType: 'unknown', description: "Heating, present setpoint shift", name: "R(1)'RHvacCoo'TCtlH'PrSpShftH", units: 'K' },
+  { type: 2, instance: 1985, access: 'RW', valueType: 'real', description: "Air temp., setpoint AWAY", name: "R(1)'RHvacCoo'TCtlH'SpTAway", units: 'degC' },
+  { type: 2, instance: 1986, access: 'unknown', valueType: 'unknown', description: "Supply, delta AWAY", name: "R(1)'RHvacCoo'TCtlH'NzTAway", units: 'K' },
+  { type: 2, instance: 1987, access: 'unknown', valueType: 'unknown', description: "Air temp., delta setpoint heating AWAY", name: "R(1)'RHvacCoo'TCtlH'DSpHAway", units: 'K', notes: ["Flexit GO additional-heating menu reads this point as heating neutral-zone value for AWAY mode."] },
+  { type: 2, instance: 1991, access: 'unknown', valueType: 'unknown', description: "Cooling, present setpoint shift", name: "R(1)'RHvacCoo'TCtlC'PrSpShftC", units: 'K' },
+  { type: 2, instance: 1992, access: 'unknown', valueType: 'unknown', description: "Air temp., delta setpoint cooling AWAY", name: "R(1)'RHvacCoo'TCtlC'DSpCAway", units: 'K' },
+  { type: 2, instance: 1994, access: 'RW', valueType: 'real', description: "Air temp., setpoint HOME", name: "R(1)'RHvacCoo'TCtlH'SpTHome", units: 'degC' },
+  { type: 2, instance: 1997, access: 'unknown', valueType: 'unknown', description: "Heating coil position", name: "R(1)'HVAC'HclPos", units: '%' },
+  { type: 2, instance: 2004, access: 'unknown', valueType: 'unknown', description: "Time for temporary rapid ventilation", name: "R(1)'ROpUnDev'TiTmpRpdVnt" },
+  { type: 2, instance: 2005, access: 'R', valueType: 'real', description: "Remaining time temporary ventilation op.", name: "R(1)'ROpUnDev'TiRmgTmpVntOp" },
+  { type: 2, instance: 2006, access: 'unknown', valueType: 'unknown', description: "Pres.setp.temp.for room operator unit", name: "R(1)'ROpUnDev'PrSpTRu", units: 'degC' },
+  { type: 2, instance: 2007, access: 'unknown', valueType: 'unknown', description: "Time for temporary fireplace ventilation", name: "R(1)'ROpUnDev'TiTmpFplcVnt" },
+  { type: 2, instance: 2023, access: 'unknown', valueType: 'unknown', description: "Rotating heat exchanger, efficiency", name: "R(1)'HVAC'Erc'PrHExgEfcy", units: '%' },
+  { type: 2, instance: 2025, access: 'unknown', valueType: 'unknown', description: "Alarm, no of displayed alarms in list", name: "R(1)'RHvacCoo'AlmBdl'FltListNum" },
+  { type: 2, instance: 2026, access: 'unknown', valueType: 'unknown', description: "Alarm, no of alarms in list", name: "R(1)'RHvacCoo'AlmBdl'FltCnt" },
+  { type: 2, instance: 2027, access: 'unknown', valueType: 'unknown', description: "Alarm, error code", name: "R(1)'RHvacCoo'AlmBdl'DspyFltList" },
+  { type: 2, instance: 2028, access: 'unknown', valueType: 'unknown', description: "Fault counter 1", name: "R(1)'RHvacCoo'AlmBdl'FltCnt1" },
+  { type: 2, instance: 2031, access: 'R', valueType: 'real', description: "Forced ventilation, remaining time", name: "R(1)'RHvacCoo'RpdVntOp'TiRmgRpdVnt", units: 'min' },
+  { type: 2, instance: 2038, access: 'R', valueType: 'real', description: "Speed FIRE, remaining time", name: "R(1)'RHvacCoo'FplcVntOp'TiRmgFplcVnt", units: 'min' },
+  { type: 2, instance: 2039, access: 'unknown', valueType: 'unknown', description: "Fault code for room operator unit", name: "R(1)'ROpUnDev'FltCodeRu" },
+  { type: 2, instance: 2040, access: 'unknown', valueType: 'unknown', description: "Maintenance code for room operator unit", name: "R(1)'ROpUnDev'MntnCodeRu" },
+  { type: 2, instance: 2042, access: 'unknown', valueType: 'unknown', description: "Room air quality", name: "R(1)'Modbus'AQualR(2)", units: 'ppm' },
+  { type: 2, instance: 2053, access: 'unknown', valueType: 'unknown', description: "Diagnostics for QBM", name: "R(1)'PDuctDevQbm'DiagQbm" },
+  { type: 2, instance: 2064, access: 'unknown', valueType: 'unknown', description: "Relative setpoint f.supply air fan speed", name: "R(1)'HVAC'FanSu'SpFanSuSpdRel", units: '%' },
+  { type: 2, instance: 2071, access: 'unknown', valueType: 'unknown', description: "Free cooling, setpoint room", name: "R(1)'RHvacCoo'TCtlH'SpTRFreeC", units: 'degC' },
+  { type: 2, instance: 2076, access: 'unknown', valueType: 'unknown', description: "Setp.supply air temp.rotary heat exch.", name: "R(1)'HVAC'Erc'SpTSuRotHExg", units: 'degC' },
+  { type: 2, instance: 2078, access: 'unknown', valueType: 'unknown', description: "Diagnostics BRDG", name: "R(1)'ComItfDevBrdg'DiagBrdg" },
+  { type: 2, instance: 2080, access: 'unknown', valueType: 'unknown', description: "Diagnostics FAN node", name: "R(1)'FanNodeDev'DiagFanNode" },
+  { type: 2, instance: 2081, access: 'unknown', valueType: 'unknown', description: "Time for tmp.op.mode outp.for RF system", name: "R(1)'FanNodeDev'TiTmpOpMOutRfq", units: 'min' },
+  { type: 2, instance: 2082, access: 'unknown', valueType: 'unknown', description: "Diagnostics VMN 1", name: "R(1)'PshBtnDevVmn1'DiagVmn1" },
+  { type: 2, instance: 2083, access: 'unknown', valueType: 'unknown', description: "Diagnostics VMN 2", name: "R(1)'PshBtnDevVmn2'DiagVmn2" },
+  { type: 2, instance: 2084, access: 'unknown', valueType: 'unknown', description: "Diagnostics VMN 3", name: "R(1)'PshBtnDevVmn3'DiagVmn3" },
+  { type: 2, instance: 2085, access: 'unknown', valueType: 'unknown', description: "Diagnostics VMSH 1", name: "R(1)'ROpUnDevVmsh1'DiagVmsh1" },
+  { type: 2, instance: 2086, access: 'unknown', valueType: 'unknown', description: "Diagnostics VMSH 2", name: "R(1)'ROpUnDevVmsh2'DiagVmsh2" },
+  { type: 2, instance: 2087, access: 'unknown', valueType: 'unknown', description: "Diagnostics VMSH 3", name: "R(1)'ROpUnDevVmsh3'DiagVmsh3" },
+  { type: 2, instance: 2088, access: 'unknown', valueType: 'unknown', description: "Diagnostics VMSC", name: "R(1)'ROpUnDevVmsc'DiagVmsc" },
+  { type: 2, instance: 2089, access: 'unknown', valueType: 'unknown', description: "Diagnostics VMC", name: "R(1)'IOExtnDevVmc'DiagVmc" },
+  { type: 2, instance: 2090, access: 'unknown', valueType: 'unknown', description: "Humidity, limit max value", name: "R(1)'RHvacCoo'HuRelMax", units: '%RH' },
+  { type: 2, instance: 2091, access: 'unknown', valueType: 'unknown', description: "Fan speed, min", name: "R(1)'HVAC'FanSu'FanSpdMinRel", units: '%' },
+  { type: 2, instance: 2093, access: 'R', valueType: 'real', description: "Room air humidity 1", name: "R(1)'Modbus'RfqSysFnct'HuR1", units: '%RH' },
+  { type: 2, instance: 2094, access: 'R', valueType: 'real', description: "Room air humidity 2", name: "R(1)'Modbus'RfqSysFnct'HuR2", units: '%RH' },
+  { type: 2, instance: 2095, access: 'R', valueType: 'real', description: "Room air humidity 3", name: "R(1)'Modbus'RfqSysFnct'HuR3", units: '%RH' },
+  { type: 2, instance: 2096, access: 'unknown', valueType: 'unknown', description: "Room air quality 1", name: "R(1)'Modbus'RfqSysFnct'AQualR1", units: 'ppm' },
+  { type: 2, instance: 2097, access: 'unknown', valueType: 'unknown', description: "RF system fault code", name: "R(1)'Modbus'RfqSysFnct'RfqsFltCode" },
+  { type: 2, instance: 2098, access: 'unknown', valueType: 'unknown', description: "Process val.1 for room air qual,on-board", name: "R(1)'PrpyExtdCnf'AQualROnbPrcv1(OnbIO)", units: 'ppm' },
+  { type: 2, instance: 2099, access: 'unknown', valueType: 'unknown', description: "Process val.2 for room air qual,on-board", name: "R(1)'PrpyExtdCnf'AQualROnbPrcv2(OnbIO)", units: 'ppm' },
+  { type: 2, instance: 2100, access: 'unknown', valueType: 'unknown', description: "Signal val.1 for room air qual.,on-board", name: "R(1)'PrpyExtdCnf'AQualROnbSigv1(OnbIO)", units: 'V' },
+  { type: 2, instance: 2101, access: 'unknown', valueType: 'unknown', description: "Signal val.2 for room air qual.,on-board", name: "R(1)'PrpyExtdCnf'AQualROnbSigv2(OnbIO)", units: 'V' },
+  { type: 2, instance: 2102, access: 'unknown', valueType: 'unknown', description: "Process val.1 for room air quality, ECU", name: "R(1)'PrpyExtdCnf'AQualREcuPrcv1(Ecu)", units: 'ppm' },
+  { type: 2, instance: 2103, access: 'unknown', valueType: 'unknown', description: "Process val.2 for room air quality, ECU", name: "R(1)'PrpyExtdCnf'AQualREcuPrcv2(Ecu)", units: 'ppm' },
+  { type: 2, instance: 2104, access: 'unknown', valueType: 'unknown', description: "Signal value 1 for room air quality, ECU", name: "R(1)'PrpyExtdCnf'AQualREcuSigv1(Ecu)", units: 'mV' },
+  { type: 2, instance: 2105, access: 'unknown', valueType: 'unknown', description: "Signal value 2 for room air quality, ECU", name: "R(1)'PrpyExtdCnf'AQualREcuSigv2(Ecu)", units: 'mV' },
+  { type: 2, instance: 2106, access: 'unknown', valueType: 'unknown', description: "Process val.1 for rel.humidity extr.air", name: "R(1)'PrpyExtdCnf'HuRelExPrcv1", units: '%RH' },
+  { type: 2, instance: 2107, access: 'unknown', valueType: 'unknown', description: "Process val.2 for rel.humidity extr.air", name: "R(1)'PrpyExtdCnf'HuRelExPrcv2", units: '%RH' },
+  { type: 2, instance: 2108, access: 'unknown', valueType: 'unknown', description: "Signal value 1 for rel.humidity extr.air", name: "R(1)'PrpyExtdCnf'HuRelExSigv1", units: 'V' },
+  { type: 2, instance: 2109, access: 'unknown', valueType: 'unknown', description: "Signal value 2 for rel.humidity extr.air", name: "R(1)'PrpyExtdCnf'HuRelExSigv2", units: 'V' },
+  { type: 2, instance: 2113, access: 'unknown', valueType: 'unknown', description: "Actual configuration of control funct.1", name: "R(1)'RHvacCoo'ActlCnfCtl1" },
+  { type: 2, instance: 2114, access: 'unknown', valueType: 'unknown', description: "Actual configuration of control funct.2", name: "R(1)'HVAC'ActlCnfCtl2" },
+  { type: 2, instance: 2115, access: 'unknown', valueType: 'unknown', description: "Actual configuration of control funct.3", name: "R(1)'HVAC'ActlCnfCtl3" },
+  { type: 2, instance: 2118, access: 'unknown', valueType: 'unknown', description: "Actual hardware configuration 1", name: "R(1)'HdwCnf'ActlHdwCnf1" },
+  { type: 2, instance: 2119, access: 'unknown', valueType: 'unknown', description: "Actual hardware configuration 2", name: "R(1)'HdwCnf'ActlHdwCnf2" },
+  { type: 2, instance: 2120, access: 'unknown', valueType: 'unknown', description: "Actual hardware configuration 3", name: "R(1)'HdwCnf'ActlHdwCnf3" },
+  { type: 2, instance: 2121, access: 'unknown', valueType: 'unknown', description: "Actual hardware configuration 4", name: "R(1)'HdwCnf'ActlHdwCnf4" },
+  { type: 2, instance: 2122, access: 'unknown', valueType: 'unknown', description: "Actual hardware configuration 5", name: "R(1)'HdwCnf'ActlHdwCnf5" },
+  { type: 2, instance: 2125, access: 'R', valueType: 'real', description: "Operating mode input from RF system", name: "R(1)'FanNodeDev'OpModInRfqs", enumValues: {"RF_AWAY":2,"RF_HOME":24,"RF_HIGH":13,"RF_FIREPLACE":26} },
+  { type: 2, instance: 2197, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1001'AlmCode" },
+  { type: 2, instance: 2198, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1002'AlmCode" },
+  { type: 2, instance: 2199, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1003'AlmCode" },
+  { type: 2, instance: 2200, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1004'AlmCode" },
+  { type: 2, instance: 2201, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1005'AlmCode" },
+  { type: 2, instance: 2202, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1006'AlmCode" },
+  { type: 2, instance: 2203, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1007'AlmCode" },
+  { type: 2, instance: 2204, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1008'AlmCode" },
+  { type: 2, instance: 2205, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1009'AlmCode" },
+  { type: 2, instance: 2206, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1010'AlmCode" },
+  { type: 2, instance: 2207, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1011'AlmCode" },
+  { type: 2, instance: 2208, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1020'AlmCode" },
+  { type: 2, instance: 2209, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1032'AlmCode" },
+  { type: 2, instance: 2210, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1033'AlmCode" },
+  { type: 2, instance: 2211, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1034'AlmCode" },
+  { type: 2, instance: 2212, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1035'AlmCode" },
+  { type: 2, instance: 2213, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1040'AlmCode" },
+  { type: 2, instance: 2214, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2001'AlmCode" },
+  { type: 2, instance: 2215, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2002'AlmCode" },
+  { type: 2, instance: 2216, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2003'AlmCode" },
+  { type: 2, instance: 2217, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2004'AlmCode" },
+  { type: 2, instance: 2218, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2005'AlmCode" },
+  { type: 2, instance: 2219, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2007'AlmCode" },
+  { type: 2, instance: 2220, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2010'AlmCode" },
+  { type: 2, instance: 2221, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm3001'AlmCode" },
+  { type: 2, instance: 2222, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm3002'AlmCode" },
+  { type: 2, instance: 2223, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm3003'AlmCode" },
+  { type: 2, instance: 2224, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm3004'AlmCode" },
+  { type: 2, instance: 2225, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm3006'AlmCode" },
+  { type: 2, instance: 2226, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm3007'AlmCode" },
+  { type: 2, instance: 2227, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2008'AlmCode" },
+  { type: 2, instance: 2228, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2009'AlmCode" },
+  { type: 2, instance: 2229, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2011'AlmCode" },
+  { type: 2, instance: 2230, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2014'AlmCode" },
+  { type: 2, instance: 2232, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2016'AlmCode" },
+  { type: 2, instance: 2233, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9001'AlmCode" },
+  { type: 2, instance: 2234, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9002'AlmCode" },
+  { type: 2, instance: 2235, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9003'AlmCode" },
+  { type: 2, instance: 2236, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9004'AlmCode" },
+  { type: 2, instance: 2237, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9005'AlmCode" },
+  { type: 2, instance: 2238, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9006'AlmCode" },
+  { type: 2, instance: 2239, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9007'AlmCode" },
+  { type: 2, instance: 2240, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9008'AlmCode" },
+  { type: 2, instance: 2241, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9009'AlmCode" },
+  { type: 2, instance: 2242, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9010'AlmCode" },
+  { type: 2, instance: 2243, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9011'AlmCode" },
+  { type: 2, instance: 2244, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9012'AlmCode" },
+  { type: 2, instance: 2245, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9013'AlmCode" },
+  { type: 2, instance: 2246, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9014'AlmCode" },
+  { type: 2, instance: 2247, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9015'AlmCode" },
+  { type: 2, instance: 2248, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9016'AlmCode" },
+  { type: 2, instance: 2249, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9017'AlmCode" },
+  { type: 2, instance: 2250, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9018'AlmCode" },
+  { type: 2, instance: 2251, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9019'AlmCode" },
+  { type: 2, instance: 2252, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9020'AlmCode" },
+  { type: 2, instance: 2253, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9021'AlmCode" },
+  { type: 2, instance: 2254, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9022'AlmCode" },
+  { type: 2, instance: 2255, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9023'AlmCode" },
+  { type: 2, instance: 2256, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9024'AlmCode" },
+  { type: 2, instance: 2257, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9025'AlmCode" },
+  { type: 2, instance: 2258, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9026'AlmCode" },
+  { type: 2, instance: 2259, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9027'AlmCode" },
+  { type: 2, instance: 2260, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm9028'AlmCode" },
+  { type: 2, instance: 2261, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1022'AlmCode" },
+  { type: 2, instance: 2262, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1023'AlmCode" },
+  { type: 2, instance: 2263, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1024'AlmCode" },
+  { type: 2, instance: 2264, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1025'AlmCode" },
+  { type: 2, instance: 2265, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1026'AlmCode" },
+  { type: 2, instance: 2266, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1027'AlmCode" },
+  { type: 2, instance: 2267, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1028'AlmCode" },
+  { type: 2, instance: 2268, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1029'AlmCode" },
+  { type: 2, instance: 2269, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1030'AlmCode" },
+  { type: 2, instance: 2270, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1036'AlmCode" },
+  { type: 2, instance: 2275, access: 'unknown', valueType: 'unknown', description: "State 1", name: "R(1)'HdwCnf'Sta1" },
+  { type: 2, instance: 2276, access: 'unknown', valueType: 'unknown', description: "State 2", name: "R(1)'HdwCnf'Sta2" },
+  { type: 2, instance: 2277, access: 'unknown', valueType: 'unknown', description: "State 3", name: "R(1)'HdwCnf'Sta3" },
+  { type: 2, instance: 2278, access: 'unknown', valueType: 'unknown', description: "State 4", name: "R(1)'HdwCnf'Sta4" },
+  { type: 2, instance: 2279, access: 'unknown', valueType: 'unknown', description: "State 5", name: "R(1)'HdwCnf'Sta5" },
+  { type: 2, instance: 2280, access: 'unknown', valueType: 'unknown', description: "State 6", name: "R(1)'HdwCnf'Sta6" },
+  { type: 2, instance: 2281, access: 'unknown', valueType: 'unknown', description: "State 7", name: "R(1)'HdwCnf'Sta7" },
+  { type: 2, instance: 2282, access: 'unknown', valueType: 'unknown', description: "State 8", name: "R(1)'HdwCnf'Sta8" },
+  { type: 2, instance: 2283, access: 'unknown', valueType: 'unknown', description: "State 9", name: "R(1)'HdwCnf'Sta9" },
+  { type: 2, instance: 2284, access: 'unknown', valueType: 'unknown', description: "State 10", name: "R(1)'HdwCnf'Sta10" },
+  { type: 2, instance: 2285, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2013'AlmCode" },
+  { type: 2, instance: 2289, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2018'AlmCode" },
+  { type: 2, instance: 2290, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2019'AlmCode" },
+  { type: 2, instance: 2291, access: 'unknown', valueType: 'unknown', description: "Dehumidification outside temp.limit", name: "R(1)'RHvacCoo'DhuCtl'DhuTOaLim", units: 'degC' },
+  { type: 2, instance: 2292, access: 'unknown', valueType: 'unknown', description: "Dehumidification slope switch-off point", name: "R(1)'RHvacCoo'DhuCtl'DhuSlpSwiOffPt" },
+  { type: 2, instance: 2293, access: 'unknown', valueType: 'unknown', description: "Rotary heat exchanger speed feedback", name: "R(1)'HVAC'Erc'RotHExgSpdFb" },
+  { type: 2, instance: 2294, access: 'unknown', valueType: 'unknown', description: "Rot.heat exchanger motor failure count", name: "R(1)'HVAC'Erc'RotHExgFailCnt" },
+  { type: 2, instance: 2295, access: 'unknown', valueType: 'unknown', description: "Dehumidification slope switch-on point", name: "R(1)'RHvacCoo'DhuCtl'DhuSlpSwiOnPt" },
+  { type: 2, instance: 2297, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm1039'AlmCode" },
+  { type: 2, instance: 2299, access: 'unknown', valueType: 'unknown', description: "Monitor BA to DAQ value", name: "RotHExgSpdcmdRPM" },
+  { type: 2, instance: 2300, access: 'unknown', valueType: 'unknown', description: "Monitor host MCU HAL speed value", name: "RotHExgSpdABIRPM" },
+  { type: 2, instance: 2301, access: 'unknown', valueType: 'unknown', description: "Monitor host MCU and motor MCU communication count", name: "RotHExgSpdCOMUpCnt" },
+  { type: 2, instance: 2302, access: 'unknown', valueType: 'unknown', description: "Monitor motor short loop state", name: "RotHExgShortLoopState" },
+  { type: 2, instance: 2303, access: 'unknown', valueType: 'unknown', description: "Monitor DRV8305 register 1", name: "RotHExg8305R1" },
+  { type: 2, instance: 2304, access: 'unknown', valueType: 'unknown', description: "Monitor DRV8305 register 2", name: "RotHExg8305R2" },
+  { type: 2, instance: 2305, access: 'unknown', valueType: 'unknown', description: "Monitor DRV8305 register 3", name: "RotHExg8305R3" },
+  { type: 2, instance: 2306, access: 'unknown', valueType: 'unknown', description: "Monitor DRV8305 register 4", name: "RotHExg8305R4" },
+  { type: 2, instance: 2307, access: 'unknown', valueType: 'unknown', description: "Monitor Motor MCU running time", name: "RotHExgFWRnTm" },
+  { type: 2, instance: 2308, access: 'unknown', valueType: 'unknown', description: "Dehumidification calculated slope", name: "R(1)'RHvacCoo'DhuCtl'DhuCalcSlp" },
+  { type: 2, instance: 2309, access: 'unknown', valueType: 'unknown', description: "Motor driver IC 8305 had happened critical fault", name: "RotHExg8305_ICShutdown" },
+  { type: 2, instance: 2312, access: 'unknown', valueType: 'unknown', description: "Rot.exch.motor, pres.coil current", name: "R(1)'PrpyExtdCnf'RoxPrCoilCur", units: 'mA' },
+  { type: 2, instance: 2313, access: 'unknown', valueType: 'unknown', description: "Rot.exch.stuck, calc.aver.current", name: "R(1)'PrpyExtdCnf'RoxSkdrAvrCur", units: 'mA' },
+  { type: 2, instance: 2314, access: 'unknown', valueType: 'unknown', description: "Rot.exch.stuck, total event counter", name: "R(1)'PrpyExtdCnf'RoxSkdrTotEvt" },
+  { type: 2, instance: 2315, access: 'unknown', valueType: 'unknown', description: "Rot.exch.stuck, present event counter", name: "R(1)'PrpyExtdCnf'RoxSkdrPrEvt" },
+  { type: 2, instance: 2316, access: 'unknown', valueType: 'unknown', description: "Rot.exch.motor, present speed", name: "R(1)'PrpyExtdCnf'RoxPrSpd", units: 'rpm' },
+  { type: 2, instance: 2336, access: 'unknown', valueType: 'unknown', description: "Allowed difference temperature expected", name: "R(1)'RHvacCoo'SftyCtl'DTSuExp", units: 'degC' },
+  { type: 2, instance: 2337, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2020'AlmCode" },
+  { type: 2, instance: 2345, access: 'unknown', valueType: 'unknown', description: "RotHExg_ADC", name: "RotHExg_ADC" },
+  { type: 2, instance: 2346, access: 'unknown', valueType: 'unknown', description: "RotHExg8305R1_Tmp1", name: "RotHExg8305R1_Tmp1" },
+  { type: 2, instance: 2347, access: 'unknown', valueType: 'unknown', description: "RotHExg8305R2_Tmp1", name: "RotHExg8305R2_Tmp1" },
+  { type: 2, instance: 2348, access: 'unknown', valueType: 'unknown', description: "RotHExg8305R3_Tmp1", name: "RotHExg8305R3_Tmp1" },
+  { type: 2, instance: 2349, access: 'unknown', valueType: 'unknown', description: "RotHExg8305R4_Tmp1", name: "RotHExg8305R4_Tmp1" },
+  { type: 2, instance: 2350, access: 'unknown', valueType: 'unknown', description: "RotHExg8305R1_Tmp2", name: "RotHExg8305R1_Tmp2" },
+  { type: 2, instance: 2351, access: 'unknown', valueType: 'unknown', description: "RotHExg8305R2_Tmp2", name: "RotHExg8305R2_Tmp2" },
+  { type: 2, instance: 2352, access: 'unknown', valueType: 'unknown', description: "RotHExg8305R3_Tmp2", name: "RotHExg8305R3_Tmp2" },
+  { type: 2, instance: 2353, access: 'unknown', valueType: 'unknown', description: "RotHExg8305R4_Tmp2", name: "RotHExg8305R4_Tmp2" },
+  { type: 2, instance: 2354, access: 'unknown', valueType: 'unknown', description: "RotHExg_TimeStamp_F1", name: "RotHExg_TimeStamp_F1" },
+  { type: 2, instance: 2355, access: 'unknown', valueType: 'unknown', description: "RotHExg_TimeStamp_F2", name: "RotHExg_TimeStamp_F2" },
+  { type: 2, instance: 2357, access: 'unknown', valueType: 'unknown', description: "RotHExg_FWVersion", name: "RotHExg_FWVersion" },
+  { type: 2, instance: 2358, access: 'unknown', valueType: 'unknown', description: "RotHExg_FailComCnt", name: "RotHExg_FailComCnt" },
+  { type: 2, instance: 2359, access: 'unknown', valueType: 'unknown', description: "RotHExg_TimeStamp_Op", name: "RotHExg_TimeStamp_Op" },
+  { type: 2, instance: 2360, access: 'unknown', valueType: 'unknown', description: "Dev_TLRst_Cnt", name: "Dev_TLRst_Cnt" },
+  { type: 2, instance: 2361, access: 'unknown', valueType: 'unknown', description: "DevSysRunTm_Min", name: "DevSysRunTm_Min" },
+  { type: 2, instance: 2364, access: 'unknown', valueType: 'unknown', description: "Room temperature 1", name: "R(1)'Modbus'RfqSysFnct'TR1", units: 'degC' },
+  { type: 2, instance: 2365, access: 'unknown', valueType: 'unknown', description: "Room temperature 2", name: "R(1)'Modbus'RfqSysFnct'TR2", units: 'degC' },
+  { type: 2, instance: 2366, access: 'unknown', valueType: 'unknown', description: "Room temperature 3", name: "R(1)'Modbus'RfqSysFnct'TR3", units: 'degC' },
+  { type: 2, instance: 2367, access: 'unknown', valueType: 'unknown', description: "ERC Maintenance outside temp. limit", name: "R(1)'HVAC'Erc'ErcMntnTOaLim", units: 'degC' },
+  { type: 2, instance: 2368, access: 'unknown', valueType: 'unknown', description: "ERC Maintenance exhaust temp. diff.", name: "R(1)'HVAC'Erc'ErcMntnTEhDiff", units: 'K' },
+  { type: 2, instance: 2369, access: 'unknown', valueType: 'unknown', description: "EHcl Maintenance supply temp. diff.", name: "R(1)'HVAC'Hcl'EHclMntnTSuDiff", units: 'K' },
+  { type: 2, instance: 2370, access: 'unknown', valueType: 'unknown', description: "Analog calculated value", name: "R(1)'HVAC'AppIntVer" },
+  { type: 2, instance: 2371, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2024'AlmCode" },
+  { type: 2, instance: 2372, access: 'unknown', valueType: 'unknown', description: "Alarm code", name: "R(1)'AlmHdl'Alm2025'AlmCode" },
+  { type: 2, instance: 2375, access: 'unknown', valueType: 'unknown', description: "ERC maint. diff. TEx TOa", name: "R(1)'HVAC'Erc'ErcMntnDiffTExTOa", units: 'degC' },
+  { type: 2, instance: 2376, access: 'unknown', valueType: 'unknown', description: "ERC maintenance min. speed", name: "R(1)'HVAC'Erc'ErcMntnMinSpd", units: '%' },
+  { type: 2, instance: 2377, access: 'unknown', valueType: 'unknown', description: "Min. supply air temp. for heater supervision", name: "R(1)'RHvacCoo'SftyCtl'TSuMinHtrSprv" },
+  { type: 2, instance: 2384, access: 'unknown', valueType: 'unknown', description: "Min speed for freezing RMC during el. heater maintenance", name: "R(1)'HVAC'Erc'HceMntnMinFrz", units: '%' },
+  { type: 2, instance: 2386, access: 'unknown', valueType: 'unknown', description: "Min outside temp. for enable ERC off time", name: "R(1)'HVAC'Erc'TOaMinErcTiOff", units: 'degC' },
+  { type: 2, instance: 2387, access: 'unknown', valueType: 'unknown', description: "StateMachine", name: "R(1)'HVAC'Erc'Analyse" },
+  { type: 3, instance: 23, access: 'unknown', valueType: 'unknown', description: "hood ventilation input", name: "R(1)'FhVntIn" },
+  { type: 3, instance: 33, access: 'unknown', valueType: 'unknown', description: "thermostat, state", name: "R(1)'HclOvrTDet" },
+  { type: 3, instance: 82, access: 'unknown', valueType: 'unknown', description: "HIGH activate DI", name: "R(1)'High" },
+  { type: 3, instance: 96, access: 'unknown', valueType: 'unknown', description: "hood ventilation input", name: "R(1)'FhVntInX8" },
+  { type: 4, instance: 18, access: 'unknown', valueType: 'unknown', description: "outside air", name: "R(1)'DmpOaCmd" },
+  { type: 4, instance: 20, access: 'unknown', valueType: 'unknown', description: "common output", name: "R(1)'CmnAlmIndOut" },
+  { type: 4, instance: 71, access: 'unknown', valueType: 'unknown', description: "pump state", name: "R(1)'IOExtnDevEcul'CclPuCmd(1)" },
+  { type: 5, instance: 11, access: 'unknown', valueType: 'unknown', description: "alarm", name: "R(1)'RHvacCoo'SftyCtl'FireAlm" },
+  { type: 5, instance: 15, access: 'R', valueType: 'enum', description: "ventilation", name: "R(1)'RHvacCoo'RpdVntOp'RpdVntOp", enumValues: {"INACTIVE":0,"ACTIVE":1} },
+  { type: 5, instance: 16, access: 'unknown', valueType: 'unknown', description: "linear outside temp.compensation", name: "R(1)'RHvacCoo'TCtlH'EnLinTOaCmp" },
+  { type: 5, instance: 17, access: 'unknown', valueType: 'unknown', description: "down request", name: "R(1)'RHvacCoo'PltModDtr'CoolDwnReq" },
+  { type: 5, instance: 18, access: 'unknown', valueType: 'unknown', description: "request", name: "R(1)'RHvacCoo'PltModDtr'WarmUpReq" },
+  { type: 5, instance: 22, access: 'unknown', valueType: 'unknown', description: "heat exchanger , demand mode", name: "R(1)'HVAC'Erc'HExgEcmSta" },
+  { type: 5, instance: 25, access: 'unknown', valueType: 'unknown', description: "heat exchanger available f.heat.", name: "R(1)'HVAC'Erc'RotHExgAvlH" },
+  { type: 5, instance: 26, access: 'unknown', valueType: 'unknown', description: "heat exchanger available f.cool.", name: "R(1)'HVAC'Erc'RotHExgAvlC" },
+  { type: 5, instance: 38, access: 'unknown', valueType: 'unknown', description: "coil available for heating", name: "R(1)'HVAC'Hcl'HclAvlH" },
+  { type: 5, instance: 50, access: 'RW', valueType: 'enum', description: "button status", name: "R(1)'ROpModDtr'CmfBtn", enumValues: {"AWAY":0,"HOME":1} },
+  { type: 5, instance: 62, access: 'unknown', valueType: 'unknown', description: "mode", name: "R(1)'IOExtnDevEcul'DevMod" },
+  { type: 5, instance: 395, access: 'unknown', valueType: 'unknown', description: "activate", name: "R(1)'HVAC'MntnCmd" },
+  { type: 5, instance: 400, access: 'R', valueType: 'enum', description: "state DI", name: "R(1)'RHvacCoo'FplcVntOp'FplcVnt", enumValues: {"INACTIVE":0,"ACTIVE":1} },
+  { type: 5, instance: 402, access: 'RW', valueType: 'enum', description: "hood, activate", name: "R(1)'RHvacCoo'FhVntOp'FhVnt" },
+  { type: 5, instance: 403, access: 'unknown', valueType: 'unknown', description: "control, sensor selection", name: "R(1)'RHvacCoo'EnTExCtl" },
+  { type: 5, instance: 404, access: 'unknown', valueType: 'unknown', description: "rotor active", name: "R(1)'HVAC'Erc'DeicReqHExg" },
+  { type: 5, instance: 405, access: 'unknown', valueType: 'unknown', description: "fan active", name: "R(1)'HVAC'Erc'DeicReqFan" },
+  { type: 5, instance: 406, access: 'unknown', valueType: 'unknown', description: "enable", name: "R(1)'HVAC'Erc'EnDeic" },
+  { type: 5, instance: 409, access: 'unknown', valueType: 'unknown', description: "available for ventilation", name: "R(1)'HVAC'FanSu'FanAvlVnt" },
+  { type: 5, instance: 410, access: 'unknown', valueType: 'unknown', description: "available for dehumidification", name: "R(1)'HVAC'FanSu'FanAvlDhu" },
+  { type: 5, instance: 428, access: 'unknown', valueType: 'unknown', description: "enable", name: "R(1)'HVAC'FanSu'EnFanSpdFbIn" },
+  { type: 5, instance: 429, access: 'unknown', valueType: 'unknown', description: "pressure calibration trigger ECU", name: "R(1)'IOExtnDevEcul'ZePClbTrgEcu" },
+  { type: 5, instance: 430, access: 'unknown', valueType: 'unknown', description: "damper, alarm", name: "R(1)'RHvacCoo'SftyCtl'FdpAlm" },
+  { type: 5, instance: 431, access: 'unknown', valueType: 'unknown', description: "air temperature fire alarm", name: "R(1)'RHvacCoo'SftyCtl'TDuctFireAlm" },
+  { type: 5, instance: 434, access: 'unknown', valueType: 'unknown', description: "air fan fault", name: "R(1)'HVAC'FanEhFlt" },
+  { type: 5, instance: 435, access: 'unknown', valueType: 'unknown', description: "air fan fault", name: "R(1)'HVAC'FanSuFlt" },
+  { type: 5, instance: 436, access: 'unknown', valueType: 'unknown', description: "recovery belt broken", name: "R(1)'HVAC'ErcBltBrk" },
+  { type: 5, instance: 438, access: 'unknown', valueType: 'unknown', description: "heat exchanger speed state", name: "R(1)'HVAC'Erc'RotHExgSpmaSta" },
+  { type: 5, instance: 440, access: 'unknown', valueType: 'unknown', description: "coil state", name: "R(1)'HVAC'HclSta" },
+  { type: 5, instance: 445, access: 'unknown', valueType: 'unknown', description: "heater, OFF/ON", name: "R(1)'HVAC'Hcl'EnHclEl", notes: ["Flexit GO additional-heating menu reads presentValue and proprietary property 5093; observed writes use priority 13."] },
+  { type: 5, instance: 452, access: 'unknown', valueType: 'unknown', description: "temporary ventilation operation", name: "R(1)'ROpUnDev'RstTmpVntOp" },
+  { type: 5, instance: 453, access: 'unknown', valueType: 'unknown', description: "fireplace ventilation", name: "R(1)'ROpUnDev'TmpFplcVnt" },
+  { type: 5, instance: 454, access: 'unknown', valueType: 'unknown', description: "rapid ventilation", name: "R(1)'ROpUnDev'TmpRpdVnt" },
+  { type: 5, instance: 455, access: 'unknown', valueType: 'unknown', description: "button for room operator unit", name: "R(1)'ROpUnDev'PscBtnRu" },
+  { type: 5, instance: 456, access: 'unknown', valueType: 'unknown', description: "button input value", name: "R(1)'ROpUnDev'PscBtnIn" },
+  { type: 5, instance: 466, access: 'unknown', valueType: 'unknown', description: "acknowledgement type B", name: "R(1)'RHvacCoo'MntnFnct'BalmAckd" },
+  { type: 5, instance: 467, access: 'unknown', valueType: 'unknown', description: "list reset", name: "R(1)'RHvacCoo'AlmBdl'FltListRst" },
+  { type: 5, instance: 468, access: 'unknown', valueType: 'unknown', description: "acknowledged", name: "R(1)'RHvacCoo'AlmFnct'AalmAckd" },
+  { type: 5, instance: 469, access: 'unknown', valueType: 'unknown', description: "reset", name: "R(1)'RHvacCoo'AlmFnct'AalmRst" },
+  { type: 5, instance: 473, access: 'unknown', valueType: 'unknown', description: "pressure calibration trigger QBM", name: "R(1)'PDuctDevQbm'ZePClbTrgQbm" },
+  { type: 5, instance: 474, access: 'unknown', valueType: 'unknown', description: "override", name: "R(1)'ROpModDtr'SchedRstManCnf" },
+  { type: 5, instance: 475, access: 'unknown', valueType: 'unknown', description: "or fume hood ventilation input", name: "R(1)'ROpModDtr'FplcOrFhVntIn" },
+  { type: 5, instance: 476, access: 'unknown', valueType: 'unknown', description: "of comfort button", name: "R(1)'ROpModDtr'BckpCmfBtn" },
+  { type: 5, instance: 478, access: 'unknown', valueType: 'unknown', description: "free cooling", name: "R(1)'RHvacCoo'FreeCDtr'EnFreeC" },
+  { type: 5, instance: 485, access: 'unknown', valueType: 'unknown', description: "rapid ventilation from RF", name: "R(1)'Modbus'RfqSysFnct'TmpRpdVntRfqs" },
+  { type: 5, instance: 486, access: 'unknown', valueType: 'unknown', description: "fire place ventilation from RF", name: "R(1)'Modbus'RfqSysFnct'TmpFplcVntRfqs" },
+  { type: 5, instance: 487, access: 'unknown', valueType: 'unknown', description: "temporary rapid ventilation from RF", name: "R(1)'Modbus'RfqSysFnct'RstTmpRpdvRfqs" },
+  { type: 5, instance: 488, access: 'unknown', valueType: 'unknown', description: "temporary fireplace ventilation from RF", name: "R(1)'Modbus'RfqSysFnct'RstTmpFpvRfqs" },
+  { type: 5, instance: 489, access: 'unknown', valueType: 'unknown', description: "for IO extension ECUL", name: "R(1)'Modbus'IOExtnEcul'IOExtnEculCnf" },
+  { type: 5, instance: 491, access: 'unknown', valueType: 'unknown', description: "stuck, stop before retry", name: "R(1)'PrpyExtdCnf'RoxStopBfRetry" },
+  { type: 5, instance: 492, access: 'unknown', valueType: 'unknown', description: "for RF system function", name: "R(1)'Modbus'RfqSysFnct'RfqSysFnctCnf" },
+  { type: 5, instance: 493, access: 'unknown', valueType: 'unknown', description: "hood state VMC", name: "R(1)'Modbus'RfqSysFnct'FhStaVmc" },
+  { type: 5, instance: 494, access: 'unknown', valueType: 'unknown', description: "1 state VMC", name: "R(1)'Modbus'RfqSysFnct'In1StaVmc" },
+  { type: 5, instance: 495, access: 'unknown', valueType: 'unknown', description: "off activated", name: "R(1)'RHvacCoo'AlmBdl'Alm2001" },
+  { type: 5, instance: 496, access: 'unknown', valueType: 'unknown', description: "detector tripped", name: "R(1)'RHvacCoo'AlmBdl'Alm2002" },
+  { type: 5, instance: 497, access: 'unknown', valueType: 'unknown', description: "detector tripped", name: "R(1)'RHvacCoo'AlmBdl'Alm2003" },
+  { type: 5, instance: 498, access: 'unknown', valueType: 'unknown', description: "alarm activated", name: "R(1)'RHvacCoo'AlmBdl'Alm2004" },
+  { type: 5, instance: 499, access: 'unknown', valueType: 'unknown', description: "damper, position feedback fault", name: "R(1)'RHvacCoo'AlmBdl'Alm1009" },
+  { type: 5, instance: 500, access: 'unknown', valueType: 'unknown', description: "air temp., operat.limits exceeded", name: "R(1)'RHvacCoo'AlmBdl'Alm2005" },
+  { type: 5, instance: 501, access: 'unknown', valueType: 'unknown', description: "air temperature, sensor fault", name: "R(1)'HVAC'AlmBdl'Alm1001" },
+  { type: 5, instance: 502, access: 'unknown', valueType: 'unknown', description: "prot.temp.heat.coil, sensor fault", name: "R(1)'HVAC'AlmBdl'Alm1005" },
+  { type: 5, instance: 503, access: 'unknown', valueType: 'unknown', description: "air fan, speed feedback fault", name: "R(1)'HVAC'AlmBdl'Alm1010" },
+  { type: 5, instance: 504, access: 'unknown', valueType: 'unknown', description: "air fan, speed feedback fault", name: "R(1)'HVAC'AlmBdl'Alm1011" },
+  { type: 5, instance: 505, access: 'unknown', valueType: 'unknown', description: "coil, frost warning", name: "R(1)'HVAC'AlmBdl'Alm2007" },
+  { type: 5, instance: 506, access: 'unknown', valueType: 'unknown', description: "coil zone, overtemperature", name: "R(1)'HVAC'AlmBdl'Alm2009" },
+  { type: 5, instance: 507, access: 'unknown', valueType: 'unknown', description: "coil, overtemperature", name: "R(1)'HVAC'AlmBdl'Alm2010" },
+  { type: 5, instance: 508, access: 'unknown', valueType: 'unknown', description: "coil zone, frost warning", name: "R(1)'HVAC'AlmBdl'Alm2011" },
+  { type: 5, instance: 509, access: 'unknown', valueType: 'unknown', description: "pump air damper stops air flow", name: "R(1)'HVAC'AlmBdl'Alm2014" },
+  { type: 5, instance: 510, access: 'unknown', valueType: 'unknown', description: "prot.temp.reheat.zone,sensor fault", name: "R(1)'HVAC'AlmBdl'Alm1029" },
+  { type: 5, instance: 511, access: 'unknown', valueType: 'unknown', description: "air temperature, sensor fault", name: "R(1)'HVAC'AlmBdl'Alm1004" },
+  { type: 5, instance: 512, access: 'unknown', valueType: 'unknown', description: "heat exchanger, motor stuck", name: "R(1)'HVAC'AlmBdl'Alm1007" },
+  { type: 5, instance: 513, access: 'unknown', valueType: 'unknown', description: "heat exchanger, belt broken", name: "R(1)'HVAC'AlmBdl'Alm1008" },
+  { type: 5, instance: 514, access: 'unknown', valueType: 'unknown', description: "pump, common alarm", name: "R(1)'HVAC'AlmBdl'Alm2015" },
+  { type: 5, instance: 515, access: 'unknown', valueType: 'unknown', description: "pump controller, Modbus comm.error", name: "R(1)'HVAC'AlmBdl'Alm3001" },
+  { type: 5, instance: 516, access: 'unknown', valueType: 'unknown', description: "exten.module 1, Modbus comm.error", name: "R(1)'HVAC'AlmBdl'Alm3002" },
+  { type: 5, instance: 517, access: 'unknown', valueType: 'unknown', description: "exten.module 2, Modbus comm.error", name: "R(1)'HVAC'AlmBdl'Alm3003" },
+  { type: 5, instance: 518, access: 'unknown', valueType: 'unknown', description: "sensor, Modbus comm.error", name: "R(1)'HVAC'AlmBdl'Alm3004" },
+  { type: 5, instance: 519, access: 'unknown', valueType: 'unknown', description: "air temperature, sensor fault", name: "R(1)'HVAC'AlmBdl'Alm1002" },
+  { type: 5, instance: 520, access: 'unknown', valueType: 'unknown', description: "air temperature, sensor fault", name: "R(1)'HVAC'AlmBdl'Alm1003" },
+  { type: 5, instance: 521, access: 'unknown', valueType: 'unknown', description: "extract air, sensor fault", name: "R(1)'HVAC'AlmBdl'Alm1006" },
+  { type: 5, instance: 522, access: 'unknown', valueType: 'unknown', description: "filter polluted", name: "R(1)'HVAC'AlmBdl'Alm1020" },
+  { type: 5, instance: 523, access: 'unknown', valueType: 'unknown', description: "supply air temp., sensor fault", name: "R(1)'HVAC'AlmBdl'Alm1030" },
+  { type: 5, instance: 524, access: 'unknown', valueType: 'unknown', description: "air pressure, sensor fault", name: "R(1)'HVAC'AlmBdl'Alm1032" },
+  { type: 5, instance: 525, access: 'unknown', valueType: 'unknown', description: "air pressure, sensor fault", name: "R(1)'HVAC'AlmBdl'Alm1033" },
+  { type: 5, instance: 526, access: 'unknown', valueType: 'unknown', description: "air fan, sensor fault", name: "R(1)'HVAC'AlmBdl'Alm1034" },
+  { type: 5, instance: 527, access: 'unknown', valueType: 'unknown', description: "air fan, sensor fault", name: "R(1)'HVAC'AlmBdl'Alm1035" },
+  { type: 5, instance: 528, access: 'unknown', valueType: 'unknown', description: "interface device, Modbus comm.error", name: "R(1)'HVAC'AlmBdl'Alm3006" },
+  { type: 5, instance: 529, access: 'unknown', valueType: 'unknown', description: "communication error", name: "R(1)'HVAC'AlmBdl'Alm3007" },
+  { type: 5, instance: 530, access: 'unknown', valueType: 'unknown', description: "device, battery low", name: "R(1)'HVAC'AlmBdl'Alm1040" },
+  { type: 5, instance: 574, access: 'R', valueType: 'enum', description: "for away active", name: "R(1)'ROpModDtr'DlyAwayAct", enumValues: {"INACTIVE":0,"ACTIVE":1} },
+  { type: 5, instance: 575, access: 'unknown', valueType: 'unknown', description: "operating mode", name: "R(1)'ROpUnDev'NxOpMod" },
+  { type: 5, instance: 576, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'ROpModDtr'SchedRstManTrg" },
+  { type: 5, instance: 577, access: 'unknown', valueType: 'unknown', description: "room op,mode RF triggered", name: "R(1)'Modbus'RfqSysFnct'TmpROpMRfqsTrg" },
+  { type: 5, instance: 580, access: 'unknown', valueType: 'unknown', description: "air damper stops air flow", name: "R(1)'HVAC'AlmBdl'Alm2013" },
+  { type: 5, instance: 581, access: 'unknown', valueType: 'unknown', description: "shutdown", name: "R(1)'HVAC'PltShdn" },
+  { type: 5, instance: 587, access: 'unknown', valueType: 'unknown', description: "heat exch. motor short circuit", name: "R(1)'HVAC'AlmBdl'Alm1039" },
+  { type: 5, instance: 589, access: 'unknown', valueType: 'unknown', description: "heat exchanger motor reset", name: "R(1)'HVAC'Erc'RotHExgSpdRst" },
+  { type: 5, instance: 590, access: 'unknown', valueType: 'unknown', description: "exchanger stop if belt broken", name: "R(1)'HVAC'Erc'RotHExgStpBlb" },
+  { type: 5, instance: 591, access: 'unknown', valueType: 'unknown', description: "enable PID control", name: "R(1)'RHvacCoo'DhuCtl'DhuEnPIDCtl" },
+  { type: 5, instance: 632, access: 'unknown', valueType: 'unknown', description: "configuration heater supervision", name: "R(1)'RHvacCoo'SftyCtl'AlmCnfHtrSprv" },
+  { type: 5, instance: 634, access: 'unknown', valueType: 'unknown', description: "exchange. lose control", name: "R(1)'HVAC'AlmBdl'Alm2025" },
+  { type: 5, instance: 635, access: 'unknown', valueType: 'unknown', description: "coil, lose control", name: "R(1)'HVAC'AlmBdl'Alm2024" },
+  { type: 5, instance: 636, access: 'unknown', valueType: 'unknown', description: "ERC Maintenance check", name: "R(1)'HVAC'Erc'EnErcMntnChk" },
+  { type: 5, instance: 638, access: 'unknown', valueType: 'unknown', description: "electr. heat. coil maintenence check", name: "R(1)'HVAC'Hcl'EnEHclMntnChk" },
+  { type: 5, instance: 642, access: 'unknown', valueType: 'unknown', description: "warm restart", name: "R(1)'HVAC'AlmBdl'DevWrmRst" },
+  { type: 5, instance: 643, access: 'unknown', valueType: 'unknown', description: "heat. coil maintenance error", name: "R(1)'HVAC'Hcl'EHclMntnErr" },
+  { type: 5, instance: 644, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'RHvacCoo'SftyCtl'HceSprvAlm" },
+  { type: 5, instance: 649, access: 'unknown', valueType: 'unknown', description: "on/off control", name: "R(1)'HVAC'Erc'ErcOnOffCtl" },
+  { type: 5, instance: 650, access: 'unknown', valueType: 'unknown', description: "short circuit alarm retry flag", name: "R(1)'HVAC'Erc'ErcShrtCrcRetry" },
+  { type: 5, instance: 653, access: 'unknown', valueType: 'unknown', description: "request is caused by slope", name: "R(1)'RHvacCoo'DhuCtl'DhuBySlope" },
+  { type: 17, instance: 4, access: 'unknown', valueType: 'unknown', description: "scheduler", name: "R(1)'MntnSched" },
+  { type: 17, instance: 5, access: 'unknown', valueType: 'unknown', description: "operating mode scheduler", name: "R(1)'ROpModSched" },
+  { type: 19, instance: 2, access: 'unknown', valueType: 'unknown', description: "bus management", name: "IOBus'IOBusMgmt" },
+  { type: 19, instance: 4, access: 'unknown', valueType: 'unknown', description: "PL-Link bus management", name: "PlnkBus'PlnkBusMgmt" },
+  { type: 19, instance: 7, access: 'unknown', valueType: 'unknown', description: "state type A", name: "R(1)'RHvacCoo'AlmFnct'AalmSta" },
+  { type: 19, instance: 12, access: 'unknown', valueType: 'unknown', description: "air temperature state", name: "R(1)'RHvacCoo'SftyCtl'TSuSta" },
+  { type: 19, instance: 13, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'RHvacCoo'HCStaDtr'HCSta" },
+  { type: 19, instance: 14, access: 'unknown', valueType: 'unknown', description: "operating mode", name: "R(1)'RHvacCoo'PltModDtr'PltOpMod" },
+  { type: 19, instance: 16, access: 'unknown', valueType: 'unknown', description: "quality, indication", name: "R(1)'RHvacCoo'AQualRInd" },
+  { type: 19, instance: 17, access: 'unknown', valueType: 'unknown', description: "demand", name: "R(1)'RHvacCoo'HCDmd" },
+  { type: 19, instance: 18, access: 'unknown', valueType: 'unknown', description: "state type B", name: "R(1)'RHvacCoo'MntnFnct'BalmSta" },
+  { type: 19, instance: 19, access: 'unknown', valueType: 'unknown', description: "ventilation mode", name: "R(1)'HVAC'PrPltOpMod" },
+  { type: 19, instance: 20, access: 'unknown', valueType: 'unknown', description: "air damper device mode", name: "R(1)'HVAC'DmpOa'DmpOaDevMod" },
+  { type: 19, instance: 21, access: 'unknown', valueType: 'unknown', description: "heat exchanger , operating mode", name: "R(1)'HVAC'Erc'RotHExgDevMod" },
+  { type: 19, instance: 26, access: 'unknown', valueType: 'unknown', description: "heater mode", name: "R(1)'HVAC'Hcl'HclDevMod" },
+  { type: 19, instance: 41, access: 'unknown', valueType: 'unknown', description: "operating mode", name: "R(1)'ROpModDtr'PrOpMod" },
+  { type: 19, instance: 42, access: 'RW', valueType: 'enum', description: "ventilation mode", name: "R(1)'ROpModDtr'ROpMod", enumValues: {"STOP":1,"AWAY":2,"HOME":3,"HIGH":4} },
+  { type: 19, instance: 43, access: 'unknown', valueType: 'unknown', description: "operation condition", name: "R(1)'ROpModDtr'ManOpCnd" },
+  { type: 19, instance: 44, access: 'unknown', valueType: 'unknown', description: "condition trigger", name: "R(1)'ROpModDtr'CenCndTrg" },
+  { type: 19, instance: 45, access: 'unknown', valueType: 'unknown', description: "condition trigger", name: "R(1)'ROpModDtr'CmfCndTrg" },
+  { type: 19, instance: 46, access: 'unknown', valueType: 'unknown', description: "efficiency condition trigger", name: "R(1)'ROpModDtr'EefCndTrg" },
+  { type: 19, instance: 60, access: 'unknown', valueType: 'unknown', description: "management", name: "ModBus'ModBusMgmt" },
+  { type: 19, instance: 61, access: 'unknown', valueType: 'unknown', description: "module", name: "OnbMdl4UI'OnbMdl" },
+  { type: 19, instance: 62, access: 'unknown', valueType: 'unknown', description: "module", name: "OnbMdl3AO'OnbMdl" },
+  { type: 19, instance: 63, access: 'unknown', valueType: 'unknown', description: "module", name: "OnbMdl4AI1UI'OnbMdl" },
+  { type: 19, instance: 64, access: 'unknown', valueType: 'unknown', description: "module", name: "OnbMdl4BI'OnbMdl" },
+  { type: 19, instance: 65, access: 'unknown', valueType: 'unknown', description: "module", name: "OnbMdl4BO'OnbMdl" },
+  { type: 19, instance: 66, access: 'unknown', valueType: 'unknown', description: "module", name: "OnbMTR-V000517B0040" },
+  { type: 19, instance: 284, access: 'unknown', valueType: 'unknown', description: "extension module ECUL", name: "R(1)'IOExtnDevEcul'IOExtnEcul" },
+  { type: 19, instance: 288, access: 'unknown', valueType: 'unknown', description: "fan, operating mode", name: "R(1)'HVAC'FanSu'FanSuDevMod" },
+  { type: 19, instance: 289, access: 'unknown', valueType: 'unknown', description: "air fan air demand for plant mode", name: "R(1)'HVAC'FanSu'FanSuAirDmd" },
+  { type: 19, instance: 293, access: 'unknown', valueType: 'unknown', description: "fan, operating mode", name: "R(1)'HVAC'FanEh'FanEhDevMod" },
+  { type: 19, instance: 294, access: 'unknown', valueType: 'unknown', description: "operating mode", name: "R(1)'HVAC'PrMntnSta" },
+  { type: 19, instance: 295, access: 'unknown', valueType: 'unknown', description: "diff.pressure supply air fan", name: "R(1)'IOExtnDevEcul'DiffPFanSuRlb" },
+  { type: 19, instance: 296, access: 'unknown', valueType: 'unknown', description: "diff.pressure exhaust air fan", name: "R(1)'IOExtnDevEcul'DiffPFanEhRlb" },
+  { type: 19, instance: 307, access: 'unknown', valueType: 'unknown', description: "of room air quality", name: "R(1)'IOExtnDevEcul'AQualRRlb" },
+  { type: 19, instance: 319, access: 'unknown', valueType: 'unknown', description: "ventilation operation", name: "R(1)'ROpUnDev'TmpVntOp" },
+  { type: 19, instance: 320, access: 'unknown', valueType: 'unknown', description: "climate op.mode for room op.unit", name: "R(1)'ROpUnDev'RClmOpModRu" },
+  { type: 19, instance: 323, access: 'unknown', valueType: 'unknown', description: "indication for room op.unit", name: "R(1)'ROpUnDev'MntnIndRu" },
+  { type: 19, instance: 326, access: 'unknown', valueType: 'unknown', description: "indication for room operator unit", name: "R(1)'ROpUnDev'FltIndRu" },
+  { type: 19, instance: 327, access: 'unknown', valueType: 'unknown', description: "operator unit", name: "R(1)'ROpUnDev'ROpUn" },
+  { type: 19, instance: 328, access: 'unknown', valueType: 'unknown', description: "climate operating mode input value", name: "R(1)'ROpUnDev'RClmOpModIn" },
+  { type: 19, instance: 333, access: 'unknown', valueType: 'unknown', description: "XCU modbus", name: "R(1)'HVAC'AlmBdl'AlmCnfXcu" },
+  { type: 19, instance: 334, access: 'unknown', valueType: 'unknown', description: "ECU modbus", name: "R(1)'HVAC'AlmBdl'AlmCnfEcu" },
+  { type: 19, instance: 335, access: 'unknown', valueType: 'unknown', description: "ECUL modbus", name: "R(1)'HVAC'AlmBdl'AlmCnfEcul" },
+  { type: 19, instance: 336, access: 'unknown', valueType: 'unknown', description: "QBM modbus", name: "R(1)'HVAC'AlmBdl'AlmCnfQbm" },
+  { type: 19, instance: 337, access: 'unknown', valueType: 'unknown', description: "B4 selection", name: "R(1)'HVAC'AlmBdl'AlmCnfTOa" },
+  { type: 19, instance: 338, access: 'unknown', valueType: 'unknown', description: "heat exchanger selection", name: "R(1)'HVAC'AlmBdl'AlmCnfRotHExg" },
+  { type: 19, instance: 339, access: 'unknown', valueType: 'unknown', description: "HP selection", name: "R(1)'HVAC'AlmBdl'AlmCnfHpu" },
+  { type: 19, instance: 340, access: 'unknown', valueType: 'unknown', description: "indication type B", name: "R(1)'RHvacCoo'MntnFnct'BalmInd" },
+  { type: 19, instance: 341, access: 'unknown', valueType: 'unknown', description: "acknowledgement state type B", name: "R(1)'RHvacCoo'MntnFnct'BalmAck" },
+  { type: 19, instance: 342, access: 'unknown', valueType: 'unknown', description: "operation of alarms list", name: "R(1)'RHvacCoo'AlmBdl'FltListOp" },
+  { type: 19, instance: 343, access: 'unknown', valueType: 'unknown', description: "indication type A", name: "R(1)'RHvacCoo'AlmFnct'AalmInd" },
+  { type: 19, instance: 344, access: 'unknown', valueType: 'unknown', description: "acknowledgement state type A", name: "R(1)'RHvacCoo'AlmFnct'AalmAck" },
+  { type: 19, instance: 345, access: 'unknown', valueType: 'unknown', description: "panel, fault state", name: "R(1)'ROpUnDev'FltStaRu" },
+  { type: 19, instance: 346, access: 'unknown', valueType: 'unknown', description: "acknowledgement input", name: "R(1)'ROpUnDev'FltAckIn" },
+  { type: 19, instance: 347, access: 'unknown', valueType: 'unknown', description: "state for room operator unit", name: "R(1)'ROpUnDev'MntnStaRu" },
+  { type: 19, instance: 348, access: 'unknown', valueType: 'unknown', description: "acknowledgement input", name: "R(1)'ROpUnDev'MntnAckIn" },
+  { type: 19, instance: 349, access: 'unknown', valueType: 'unknown', description: "supply air temp.af.heat exch.", name: "R(1)'IOExtnDevEcul'TSuAfHExgRlb" },
+  { type: 19, instance: 352, access: 'unknown', valueType: 'unknown', description: "pressure sensor QBM", name: "R(1)'PDuctDevQbm'PDuctQbm" },
+  { type: 19, instance: 353, access: 'unknown', valueType: 'unknown', description: "of supply air pressure", name: "R(1)'PDuctDevQbm'PSuRlb" },
+  { type: 19, instance: 354, access: 'unknown', valueType: 'unknown', description: "of extract air pressure", name: "R(1)'PDuctDevQbm'PExRlb" },
+  { type: 19, instance: 357, access: 'RW', valueType: 'enum', description: "ventilation, state", name: "R(1)'RHvacCoo'RpdVntOp'TmpRpdVntTrg", enumValues: {"IDLE":1,"TRIGGER":2} },
+  { type: 19, instance: 360, access: 'RW', valueType: 'enum', description: "FIRE, trigger APP", name: "R(1)'RHvacCoo'FplcVntOp'TmpFplcVntTrg", enumValues: {"IDLE":1,"TRIGGER":2}, notes: ["Observed on a real Nordic unit: writing TRIGGER (2) to the fireplace trigger while fireplace ventilation is already active resets AV 2:2038 to the configured runtime and returns the unit to its base HOME/AWAY mode instead of leaving fireplace active."] },
+  { type: 19, instance: 361, access: 'R', valueType: 'enum', description: "heat exchanger, state", name: "R(1)'ROpModDtr'HrvSta", enumValues: {"OFF":1,"AWAY":2,"HOME":3,"HIGH":4,"COOKER_HOOD":5,"FIREPLACE":6,"TEMPORARY_HIGH":7} },
+  { type: 19, instance: 364, access: 'unknown', valueType: 'unknown', description: "interface BRDG", name: "R(1)'ComItfDevBrdg'ComItfBrdg" },
+  { type: 19, instance: 365, access: 'unknown', valueType: 'unknown', description: "state RF system", name: "R(1)'ComItfDevBrdg'ComStaRfqs" },
+  { type: 19, instance: 366, access: 'unknown', valueType: 'unknown', description: "state RF system", name: "R(1)'ComItfDevBrdg'BattStaRfqs" },
+  { type: 19, instance: 367, access: 'unknown', valueType: 'unknown', description: "state RF system", name: "R(1)'ComItfDevBrdg'FltStaRfqs" },
+  { type: 19, instance: 368, access: 'unknown', valueType: 'unknown', description: "RF device", name: "R(1)'ComItfDevBrdg'RmvRfqDev" },
+  { type: 19, instance: 369, access: 'unknown', valueType: 'unknown', description: "RF device 1", name: "R(1)'ComItfDevBrdg'CnctdRfqDev1" },
+  { type: 19, instance: 370, access: 'unknown', valueType: 'unknown', description: "RF device 2", name: "R(1)'ComItfDevBrdg'CnctdRfqDev2" },
+  { type: 19, instance: 371, access: 'unknown', valueType: 'unknown', description: "RF device 3", name: "R(1)'ComItfDevBrdg'CnctdRfqDev3" },
+  { type: 19, instance: 372, access: 'unknown', valueType: 'unknown', description: "RF device 4", name: "R(1)'ComItfDevBrdg'CnctdRfqDev4" },
+  { type: 19, instance: 373, access: 'unknown', valueType: 'unknown', description: "RF device 5", name: "R(1)'ComItfDevBrdg'CnctdRfqDev5" },
+  { type: 19, instance: 374, access: 'unknown', valueType: 'unknown', description: "RF device 6", name: "R(1)'ComItfDevBrdg'CnctdRfqDev6" },
+  { type: 19, instance: 375, access: 'unknown', valueType: 'unknown', description: "RF device 7", name: "R(1)'ComItfDevBrdg'CnctdRfqDev7" },
+  { type: 19, instance: 376, access: 'unknown', valueType: 'unknown', description: "RF device 8", name: "R(1)'ComItfDevBrdg'CnctdRfqDev8" },
+  { type: 19, instance: 377, access: 'unknown', valueType: 'unknown', description: "RF device 9", name: "R(1)'ComItfDevBrdg'CnctdRfqDev9" },
+  { type: 19, instance: 378, access: 'unknown', valueType: 'unknown', description: "RF device 10", name: "R(1)'ComItfDevBrdg'CnctdRfqDev10" },
+  { type: 19, instance: 379, access: 'unknown', valueType: 'unknown', description: "device address output", name: "R(1)'ComItfDevBrdg'RfqDevAddrOut" },
+  { type: 19, instance: 381, access: 'unknown', valueType: 'unknown', description: "device address input", name: "R(1)'ComItfDevBrdg'RfqDevAddrIn" },
+  { type: 19, instance: 382, access: 'unknown', valueType: 'unknown', description: "state input", name: "R(1)'ComItfDevBrdg'BdgStaIn" },
+  { type: 19, instance: 384, access: 'unknown', valueType: 'unknown', description: "node", name: "R(1)'FanNodeDev'FanNode" },
+  { type: 19, instance: 386, access: 'unknown', valueType: 'unknown', description: "mode output for RF system", name: "R(1)'FanNodeDev'OpModOutRfqs" },
+  { type: 19, instance: 387, access: 'unknown', valueType: 'unknown', description: "command", name: "R(1)'FanNodeDev'BdgCmd" },
+  { type: 19, instance: 388, access: 'unknown', valueType: 'unknown', description: "VMN 1", name: "R(1)'PshBtnDevVmn1'PshBtnVmn1" },
+  { type: 19, instance: 389, access: 'unknown', valueType: 'unknown', description: "state VMN 1", name: "R(1)'PshBtnDevVmn1'BattStaVmn1" },
+  { type: 19, instance: 390, access: 'unknown', valueType: 'unknown', description: "VMN 2", name: "R(1)'PshBtnDevVmn2'PshBtnVmn2" },
+  { type: 19, instance: 391, access: 'unknown', valueType: 'unknown', description: "state VMN 2", name: "R(1)'PshBtnDevVmn2'BattStaVmn2" },
+  { type: 19, instance: 392, access: 'unknown', valueType: 'unknown', description: "VMN 3", name: "R(1)'PshBtnDevVmn3'PshBtnVmn3" },
+  { type: 19, instance: 393, access: 'unknown', valueType: 'unknown', description: "state VMN 3", name: "R(1)'PshBtnDevVmn3'BattStaVmn3" },
+  { type: 19, instance: 394, access: 'unknown', valueType: 'unknown', description: "operator unit VMSH 1", name: "R(1)'ROpUnDevVmsh1'ROpUnVmsh1" },
+  { type: 19, instance: 395, access: 'unknown', valueType: 'unknown', description: "state VMSH 1", name: "R(1)'ROpUnDevVmsh1'BattStaVmsh1" },
+  { type: 19, instance: 396, access: 'unknown', valueType: 'unknown', description: "operator unit VMSH 2", name: "R(1)'ROpUnDevVmsh2'ROpUnVmsh2" },
+  { type: 19, instance: 397, access: 'unknown', valueType: 'unknown', description: "state VMSH 2", name: "R(1)'ROpUnDevVmsh2'BattStaVmsh2" },
+  { type: 19, instance: 398, access: 'unknown', valueType: 'unknown', description: "operator unit VMSH 3", name: "R(1)'ROpUnDevVmsh3'ROpUnVmsh3" },
+  { type: 19, instance: 399, access: 'unknown', valueType: 'unknown', description: "state VMSH 3", name: "R(1)'ROpUnDevVmsh3'BattStaVmsh3" },
+  { type: 19, instance: 400, access: 'unknown', valueType: 'unknown', description: "operator unit VMSC", name: "R(1)'ROpUnDevVmsc'ROpUnVmsc" },
+  { type: 19, instance: 401, access: 'unknown', valueType: 'unknown', description: "extension module VMC", name: "R(1)'IOExtnDevVmc'IOExtnVmc" },
+  { type: 19, instance: 412, access: 'unknown', valueType: 'unknown', description: "RF node FAN", name: "R(1)'Modbus'RfqSysFnct'FanNodeRfqSta" },
+  { type: 19, instance: 413, access: 'unknown', valueType: 'unknown', description: "RF device VMN1", name: "R(1)'Modbus'RfqSysFnct'PshBtnStaVmn1" },
+  { type: 19, instance: 414, access: 'unknown', valueType: 'unknown', description: "RF device VMN2", name: "R(1)'Modbus'RfqSysFnct'PshBtnStaVmn2" },
+  { type: 19, instance: 415, access: 'unknown', valueType: 'unknown', description: "RF device VMN3", name: "R(1)'Modbus'RfqSysFnct'PshBtnStaVmn3" },
+  { type: 19, instance: 416, access: 'unknown', valueType: 'unknown', description: "RF device VMSH1", name: "R(1)'Modbus'RfqSysFnct'ROpUnStaVmsh1" },
+  { type: 19, instance: 417, access: 'unknown', valueType: 'unknown', description: "RF device VMSH2", name: "R(1)'Modbus'RfqSysFnct'ROpUnStaVmsh2" },
+  { type: 19, instance: 418, access: 'unknown', valueType: 'unknown', description: "RF device VMSH3", name: "R(1)'Modbus'RfqSysFnct'ROpUnStaVmsh3" },
+  { type: 19, instance: 419, access: 'unknown', valueType: 'unknown', description: "RF device VMSC", name: "R(1)'Modbus'RfqSysFnct'ROpUnStaVmsc" },
+  { type: 19, instance: 420, access: 'unknown', valueType: 'unknown', description: "RF device VMC", name: "R(1)'Modbus'RfqSysFnct'IOExtnStaVmc" },
+  { type: 19, instance: 421, access: 'unknown', valueType: 'unknown', description: "RF device", name: "R(1)'Modbus'RfqSysFnct'AddRfqDev" },
+  { type: 19, instance: 434, access: 'unknown', valueType: 'unknown', description: "acknowledgement", name: "R(1)'AlmHdl'AlmAck" },
+  { type: 19, instance: 435, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1001'AlmSta" },
+  { type: 19, instance: 436, access: 'unknown', valueType: 'unknown', description: "type", name: "R(1)'AlmHdl'Alm1001'AlmType" },
+  { type: 19, instance: 437, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1002'AlmSta" },
+  { type: 19, instance: 438, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1002'AlmType" },
+  { type: 19, instance: 439, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1003'AlmSta" },
+  { type: 19, instance: 440, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1003'AlmType" },
+  { type: 19, instance: 441, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1004'AlmSta" },
+  { type: 19, instance: 442, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1004'AlmType" },
+  { type: 19, instance: 443, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1005'AlmSta" },
+  { type: 19, instance: 444, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1005'AlmType" },
+  { type: 19, instance: 445, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1006'AlmSta" },
+  { type: 19, instance: 446, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1006'AlmType" },
+  { type: 19, instance: 447, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1007'AlmSta" },
+  { type: 19, instance: 448, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1007'AlmType" },
+  { type: 19, instance: 449, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1008'AlmSta" },
+  { type: 19, instance: 450, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1008'AlmType" },
+  { type: 19, instance: 451, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1009'AlmSta" },
+  { type: 19, instance: 452, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1009'AlmType" },
+  { type: 19, instance: 453, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1010'AlmSta" },
+  { type: 19, instance: 454, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1010'AlmType" },
+  { type: 19, instance: 455, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1011'AlmSta" },
+  { type: 19, instance: 456, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1011'AlmType" },
+  { type: 19, instance: 457, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1020'AlmSta" },
+  { type: 19, instance: 458, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1020'AlmType" },
+  { type: 19, instance: 459, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1032'AlmSta" },
+  { type: 19, instance: 460, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1032'AlmType" },
+  { type: 19, instance: 461, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1033'AlmSta" },
+  { type: 19, instance: 462, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1033'AlmType" },
+  { type: 19, instance: 463, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1034'AlmSta" },
+  { type: 19, instance: 464, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1034'AlmType" },
+  { type: 19, instance: 465, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1035'AlmSta" },
+  { type: 19, instance: 466, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1035'AlmType" },
+  { type: 19, instance: 467, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1040'AlmSta" },
+  { type: 19, instance: 468, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1040'AlmType" },
+  { type: 19, instance: 469, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2001'AlmSta" },
+  { type: 19, instance: 470, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm2001'AlmType" },
+  { type: 19, instance: 471, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2002'AlmSta" },
+  { type: 19, instance: 472, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm2002'AlmType" },
+  { type: 19, instance: 473, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2003'AlmSta" },
+  { type: 19, instance: 474, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm2003'AlmType" },
+  { type: 19, instance: 475, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2004'AlmSta" },
+  { type: 19, instance: 476, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm2004'AlmType" },
+  { type: 19, instance: 477, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2005'AlmSta" },
+  { type: 19, instance: 478, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm2005'AlmType" },
+  { type: 19, instance: 479, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2007'AlmSta" },
+  { type: 19, instance: 480, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm2007'AlmType" },
+  { type: 19, instance: 481, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2010'AlmSta" },
+  { type: 19, instance: 482, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm2010'AlmType" },
+  { type: 19, instance: 483, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm3001'AlmSta" },
+  { type: 19, instance: 484, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm3001'AlmType" },
+  { type: 19, instance: 485, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm3002'AlmSta" },
+  { type: 19, instance: 486, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm3002'AlmType" },
+  { type: 19, instance: 487, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm3003'AlmSta" },
+  { type: 19, instance: 488, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm3003'AlmType" },
+  { type: 19, instance: 489, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm3004'AlmSta" },
+  { type: 19, instance: 490, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm3004'AlmType" },
+  { type: 19, instance: 491, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm3006'AlmSta" },
+  { type: 19, instance: 492, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm3006'AlmType" },
+  { type: 19, instance: 493, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm3007'AlmSta" },
+  { type: 19, instance: 494, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm3007'AlmType" },
+  { type: 19, instance: 495, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2008'AlmSta" },
+  { type: 19, instance: 496, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm2008'AlmType" },
+  { type: 19, instance: 497, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2009'AlmSta" },
+  { type: 19, instance: 498, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm2009'AlmType" },
+  { type: 19, instance: 499, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2011'AlmSta" },
+  { type: 19, instance: 500, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm2011'AlmType" },
+  { type: 19, instance: 501, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2014'AlmSta" },
+  { type: 19, instance: 502, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm2014'AlmType" },
+  { type: 19, instance: 505, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2016'AlmSta" },
+  { type: 19, instance: 506, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm2016'AlmType" },
+  { type: 19, instance: 507, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9001'AlmSta" },
+  { type: 19, instance: 508, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9001'AlmType" },
+  { type: 19, instance: 509, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9002'AlmSta" },
+  { type: 19, instance: 510, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9002'AlmType" },
+  { type: 19, instance: 511, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9003'AlmSta" },
+  { type: 19, instance: 512, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9003'AlmType" },
+  { type: 19, instance: 513, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9004'AlmSta" },
+  { type: 19, instance: 514, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9004'AlmType" },
+  { type: 19, instance: 515, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9005'AlmSta" },
+  { type: 19, instance: 516, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9005'AlmType" },
+  { type: 19, instance: 517, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9006'AlmSta" },
+  { type: 19, instance: 518, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9006'AlmType" },
+  { type: 19, instance: 519, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9007'AlmSta" },
+  { type: 19, instance: 520, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9007'AlmType" },
+  { type: 19, instance: 521, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9008'AlmSta" },
+  { type: 19, instance: 522, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9008'AlmType" },
+  { type: 19, instance: 523, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9009'AlmSta" },
+  { type: 19, instance: 524, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9009'AlmType" },
+  { type: 19, instance: 525, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9010'AlmSta" },
+  { type: 19, instance: 526, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9010'AlmType" },
+  { type: 19, instance: 527, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9011'AlmSta" },
+  { type: 19, instance: 528, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9011'AlmType" },
+  { type: 19, instance: 529, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9012'AlmSta" },
+  { type: 19, instance: 530, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9012'AlmType" },
+  { type: 19, instance: 531, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9013'AlmSta" },
+  { type: 19, instance: 532, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9013'AlmType" },
+  { type: 19, instance: 533, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9014'AlmSta" },
+  { type: 19, instance: 534, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9014'AlmType" },
+  { type: 19, instance: 535, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9015'AlmSta" },
+  { type: 19, instance: 536, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9015'AlmType" },
+  { type: 19, instance: 537, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9016'AlmSta" },
+  { type: 19, instance: 538, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9016'AlmType" },
+  { type: 19, instance: 539, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9017'AlmSta" },
+  { type: 19, instance: 540, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9017'AlmType" },
+  { type: 19, instance: 541, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9018'AlmSta" },
+  { type: 19, instance: 542, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9018'AlmType" },
+  { type: 19, instance: 543, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9019'AlmSta" },
+  { type: 19, instance: 544, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9019'AlmType" },
+  { type: 19, instance: 545, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9020'AlmSta" },
+  { type: 19, instance: 546, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9020'AlmType" },
+  { type: 19, instance: 547, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9021'AlmSta" },
+  { type: 19, instance: 548, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9021'AlmType" },
+  { type: 19, instance: 549, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9022'AlmSta" },
+  { type: 19, instance: 550, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9022'AlmType" },
+  { type: 19, instance: 551, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9023'AlmSta" },
+  { type: 19, instance: 552, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9023'AlmType" },
+  { type: 19, instance: 553, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9024'AlmSta" },
+  { type: 19, instance: 554, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9024'AlmType" },
+  { type: 19, instance: 555, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9025'AlmSta" },
+  { type: 19, instance: 556, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9025'AlmType" },
+  { type: 19, instance: 557, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9026'AlmSta" },
+  { type: 19, instance: 558, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9026'AlmType" },
+  { type: 19, instance: 559, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9027'AlmSta" },
+  { type: 19, instance: 560, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9027'AlmType" },
+  { type: 19, instance: 561, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm9028'AlmSta" },
+  { type: 19, instance: 562, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm9028'AlmType" },
+  { type: 19, instance: 563, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1022'AlmSta" },
+  { type: 19, instance: 564, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1022'AlmType" },
+  { type: 19, instance: 565, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1023'AlmSta" },
+  { type: 19, instance: 566, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1023'AlmType" },
+  { type: 19, instance: 567, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1024'AlmSta" },
+  { type: 19, instance: 568, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1024'AlmType" },
+  { type: 19, instance: 569, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1025'AlmSta" },
+  { type: 19, instance: 570, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1025'AlmType" },
+  { type: 19, instance: 571, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1026'AlmSta" },
+  { type: 19, instance: 572, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1026'AlmType" },
+  { type: 19, instance: 573, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1027'AlmSta" },
+  { type: 19, instance: 574, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1027'AlmType" },
+  { type: 19, instance: 575, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1028'AlmSta" },
+  { type: 19, instance: 576, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1028'AlmType" },
+  { type: 19, instance: 577, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1029'AlmSta" },
+  { type: 19, instance: 578, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1029'AlmType" },
+  { type: 19, instance: 579, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1030'AlmSta" },
+  { type: 19, instance: 580, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1030'AlmType" },
+  { type: 19, instance: 581, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1036'AlmSta" },
+  { type: 19, instance: 582, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1036'AlmType" },
+  { type: 19, instance: 583, access: 'unknown', valueType: 'unknown', description: "room operating mode", name: "R(1)'ROpUnDev'NxROpMod" },
+  { type: 19, instance: 584, access: 'unknown', valueType: 'unknown', description: "op.mode determ.for room op.unit", name: "R(1)'ROpUnDev'ROpModDtrRu" },
+  { type: 19, instance: 585, access: 'unknown', valueType: 'unknown', description: "room operating mode input", name: "R(1)'ROpUnDev'TmpROpModIn" },
+  { type: 19, instance: 586, access: 'unknown', valueType: 'unknown', description: "1", name: "R(1)'Modbus'RfqSysFnct'Lct1" },
+  { type: 19, instance: 596, access: 'unknown', valueType: 'unknown', description: "2", name: "R(1)'Modbus'RfqSysFnct'Lct2" },
+  { type: 19, instance: 597, access: 'unknown', valueType: 'unknown', description: "3", name: "R(1)'Modbus'RfqSysFnct'Lct3" },
+  { type: 19, instance: 598, access: 'unknown', valueType: 'unknown', description: "4", name: "R(1)'Modbus'RfqSysFnct'Lct4" },
+  { type: 19, instance: 599, access: 'unknown', valueType: 'unknown', description: "5", name: "R(1)'Modbus'RfqSysFnct'Lct5" },
+  { type: 19, instance: 600, access: 'unknown', valueType: 'unknown', description: "6", name: "R(1)'Modbus'RfqSysFnct'Lct6" },
+  { type: 19, instance: 601, access: 'unknown', valueType: 'unknown', description: "7", name: "R(1)'Modbus'RfqSysFnct'Lct7" },
+  { type: 19, instance: 602, access: 'unknown', valueType: 'unknown', description: "8", name: "R(1)'Modbus'RfqSysFnct'Lct8" },
+  { type: 19, instance: 605, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2013'AlmSta" },
+  { type: 19, instance: 606, access: 'unknown', valueType: 'unknown', description: "type", name: "R(1)'AlmHdl'Alm2013'AlmType" },
+  { type: 19, instance: 607, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2018'AlmSta" },
+  { type: 19, instance: 608, access: 'unknown', valueType: 'unknown', description: "type", name: "R(1)'AlmHdl'Alm2018'AlmType" },
+  { type: 19, instance: 609, access: 'RW', valueType: 'enum', description: "filter replace timer reset", name: "R(1)'HVAC'AlmBdl'FilRpcRst", enumValues: {"IDLE":1,"TRIGGER":2} },
+  { type: 19, instance: 610, access: 'unknown', valueType: 'unknown', description: "type", name: "R(1)'AlmHdl'Alm2019'AlmType" },
+  { type: 19, instance: 611, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm1039'AlmSta" },
+  { type: 19, instance: 614, access: 'unknown', valueType: 'unknown', description: "config.for fan speed feedback", name: "R(1)'HVAC'AlmBdl'AlmCnfFanFb" },
+  { type: 19, instance: 616, access: 'unknown', valueType: 'unknown', description: "calculated value", name: "R(1)'AlmHdl'Alm1039'AlmType" },
+  { type: 19, instance: 617, access: 'unknown', valueType: 'unknown', description: "low power", name: "R(1)'HdwCnf'DevLwPwr" },
+  { type: 19, instance: 618, access: 'unknown', valueType: 'unknown', description: "heat exchanger motor reset", name: "R(1)'HVAC'Erc'RotHExgMotRst" },
+  { type: 19, instance: 619, access: 'unknown', valueType: 'unknown', description: "motor MCU state", name: "RotHExgSpdState" },
+  { type: 19, instance: 620, access: 'unknown', valueType: 'unknown', description: "enable slope control", name: "R(1)'RHvacCoo'DhuCtl'DhuEnSlpCtl" },
+  { type: 19, instance: 622, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2019'AlmSta" },
+  { type: 19, instance: 623, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'HVAC'PltSta" },
+  { type: 19, instance: 624, access: 'unknown', valueType: 'unknown', description: "operating mode state", name: "R(1)'ROpModDtr'ROpModSta" },
+  { type: 19, instance: 625, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2020'AlmSta" },
+  { type: 19, instance: 626, access: 'unknown', valueType: 'unknown', description: "type", name: "R(1)'AlmHdl'Alm2020'AlmType" },
+  { type: 19, instance: 628, access: 'unknown', valueType: 'unknown', description: "warm restart trigger", name: "R(1)'HVAC'AlmBdl'DevWrmRstTrg" },
+  { type: 19, instance: 629, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2024'AlmSta" },
+  { type: 19, instance: 630, access: 'unknown', valueType: 'unknown', description: "type", name: "R(1)'AlmHdl'Alm2024'AlmType" },
+  { type: 19, instance: 631, access: 'unknown', valueType: 'unknown', description: "state", name: "R(1)'AlmHdl'Alm2025'AlmSta" },
+  { type: 19, instance: 632, access: 'unknown', valueType: 'unknown', description: "type", name: "R(1)'AlmHdl'Alm2025'AlmType" },
+  { type: 19, instance: 633, access: 'unknown', valueType: 'unknown', description: "maintenance state", name: "R(1)'HVAC'Erc'ErcMntnSta" },
+  { type: 19, instance: 634, access: 'unknown', valueType: 'unknown', description: "heating coil maint. check state", name: "R(1)'HVAC'Hcl'EHclMntnSta" },
+  { type: 48, instance: 7, access: 'unknown', valueType: 'unknown', description: "Humidity, Tn", name: "R(1)'RHvacCoo'DhuCtl'TnDhuCtr", units: 'sec' },
+  { type: 48, instance: 15, access: 'unknown', valueType: 'unknown', description: "Switch-on delay for heat/cool.changeover", name: "R(1)'RHvacCoo'HCStaDtr'DlyOnHCChovr", units: 'sec' },
+  { type: 48, instance: 16, access: 'unknown', valueType: 'unknown', description: "Outside air damper, delat time", name: "R(1)'HVAC'DmpOa'DlyOnAflVntReq", units: 'sec' },
+  { type: 48, instance: 17, access: 'unknown', valueType: 'unknown', description: "Rotating heat exchanger, cooling Tn", name: "R(1)'HVAC'Erc'TnRotHxCtrC", units: 'sec' },
+  { type: 48, instance: 18, access: 'unknown', valueType: 'unknown', description: "Rotating heat exchanger, heating Tn", name: "R(1)'HVAC'Erc'TnRotHxCtrH", units: 'sec' },
+  { type: 48, instance: 21, access: 'unknown', valueType: 'unknown', description: "Fall time for deicing request", name: "R(1)'HVAC'Erc'TiFaDeicReq", units: 'sec' },
+  { type: 48, instance: 22, access: 'unknown', valueType: 'unknown', description: "Tn for rotary heat.exch.exhaust temp.ctr", name: "R(1)'HVAC'Erc'TnRotHxCtrTEh", units: 'sec' },
+  { type: 48, instance: 23, access: 'unknown', valueType: 'unknown', description: "Rise time for deicing request", name: "R(1)'HVAC'Erc'TiRiDeicReq", units: 'sec' },
+  { type: 48, instance: 24, access: 'unknown', valueType: 'unknown', description: "Delay time, bypass damper", name: "R(1)'HVAC'Erc'DlyOnDmpbHExg", units: 'sec' },
+  { type: 48, instance: 25, access: 'unknown', valueType: 'unknown', description: "Rotating heat exchanger , ramp up/down", name: "R(1)'HVAC'Erc'TiRiRotHExg", units: 'sec' },
+  { type: 48, instance: 34, access: 'unknown', valueType: 'unknown', description: "Electrical heater, fan switch off delay", name: "R(1)'HVAC'Hcl'DlyOffAflHldH", units: 'sec' },
+  { type: 48, instance: 35, access: 'unknown', valueType: 'unknown', description: "Supply, heater, Tn zone 2", name: "R(1)'HVAC'Hcl'TnHclTSuCtrH", units: 'sec' },
+  { type: 48, instance: 260, access: 'unknown', valueType: 'unknown', description: "RUB version", name: "R(1)'RHvacCoo'ROpUnItf'RUBver" },
+  { type: 48, instance: 261, access: 'unknown', valueType: 'unknown', description: "Dehumidification slope resolution", name: "R(1)'RHvacCoo'DhuCtl'DhuSlpRsl", units: 'min' },
+  { type: 48, instance: 262, access: 'unknown', valueType: 'unknown', description: "Dehumidification switch-off delay", name: "R(1)'RHvacCoo'DhuCtl'DhuDlySwiOff", units: 'min' },
+  { type: 48, instance: 263, access: 'unknown', valueType: 'unknown', description: "Dehumidification maximum runtime", name: "R(1)'RHvacCoo'DhuCtl'DhuTiRunMax", units: 'min' },
+  { type: 48, instance: 265, access: 'unknown', valueType: 'unknown', description: "Humidity, periodic on time above range", name: "R(1)'RHvacCoo'DhuCtl'TiRnDhuCtl", units: 'sec' },
+  { type: 48, instance: 266, access: 'unknown', valueType: 'unknown', description: "Humidity, periodic off time above range", name: "R(1)'RHvacCoo'DhuCtl'TiIrptDhuCtl", units: 'sec' },
+  { type: 48, instance: 270, access: 'RW', valueType: 'unsigned', description: "Speed FIRE, duration", name: "R(1)'RHvacCoo'FplcVntOp'TiRnFplcVnt", units: 'min' },
+  { type: 48, instance: 271, access: 'unknown', valueType: 'unknown', description: "Tn for ventilation controller", name: "R(1)'RHvacCoo'VntCtl'TnVntCtr", units: 'sec' },
+  { type: 48, instance: 272, access: 'unknown', valueType: 'unknown', description: "De-icing, activation time", name: "R(1)'HVAC'Erc'TiDeic", units: 'sec' },
+  { type: 48, instance: 277, access: 'unknown', valueType: 'unknown', description: "Startup seq, time dt5", name: "R(1)'HVAC'FanSu'DlyOnAirFlSta", units: 'sec' },
+  { type: 48, instance: 278, access: 'unknown', valueType: 'unknown', description: "Supply fan, ramp up time", name: "R(1)'HVAC'FanSu'TiRiFanSuSpd", units: 'sec' },
+  { type: 48, instance: 279, access: 'unknown', valueType: 'unknown', description: "Supply fan, ramp down time", name: "R(1)'HVAC'FanSu'TiFaFanSuSpd", units: 'sec' },
+  { type: 48, instance: 286, access: 'unknown', valueType: 'unknown', description: "Exhaust fan, ramp up time", name: "R(1)'HVAC'FanEh'TiRiFanEhSpd", units: 'sec' },
+  { type: 48, instance: 287, access: 'unknown', valueType: 'unknown', description: "Exhaust fan, ramp down time", name: "R(1)'HVAC'FanEh'TiFaFanEhSpd", units: 'sec' },
+  { type: 48, instance: 288, access: 'unknown', valueType: 'unknown', description: "Startup seq, time dt3", name: "R(1)'HVAC'FanEh'DlyOnAflEhSta", units: 'sec' },
+  { type: 48, instance: 289, access: 'unknown', valueType: 'unknown', description: "Comm. Error, delay time", name: "R(1)'HVAC'AlmBdl'DlyComErr", units: 'sec' },
+  { type: 48, instance: 293, access: 'RW', valueType: 'unsigned', description: "Forced ventilation, duration", name: "R(1)'RHvacCoo'RpdVntOp'TiRnRpdVnt", units: 'min' },
+  { type: 48, instance: 296, access: 'unknown', valueType: 'unknown', description: "Free cooling, min duty time", name: "R(1)'RHvacCoo'FreeCDtr'TiPreCoolMin", units: 'sec' },
+  { type: 48, instance: 297, access: 'unknown', valueType: 'unknown', description: "Belt broken, delay time", name: "R(1)'HVAC'Erc'TiDlyBltFlt", units: 'sec' },
+  { type: 48, instance: 298, access: 'unknown', valueType: 'unknown', description: "De-icing, max periodic OFF time", name: "R(1)'HVAC'Erc'TiOffDeicMax", units: 'sec' },
+  { type: 48, instance: 299, access: 'unknown', valueType: 'unknown', description: "De-icing, min periodic OFF time", name: "R(1)'HVAC'Erc'TiOffDeicMin", units: 'sec' },
+  { type: 48, instance: 302, access: 'unknown', valueType: 'unknown', description: "Startup seq, time dt4", name: "R(1)'HVAC'FanSu'TiSttUpSpdVnt", units: 'sec' },
+  { type: 48, instance: 303, access: 'unknown', valueType: 'unknown', description: "Power up delay heat recovery ventilation", name: "R(1)'HVAC'DlyPwrUpHrv", units: 'sec' },
+  { type: 48, instance: 312, access: 'unknown', valueType: 'unknown', description: "Diagnostic item number", name: "R(1)'HVAC'DiagItemNr" },
+  { type: 48, instance: 318, access: 'RW', valueType: 'unsigned', description: "Delay time, enter AWAY mode", name: "R(1)'ROpModDtr'DlyOnAway", units: 'min' },
+  { type: 48, instance: 326, access: 'unknown', valueType: 'unknown', description: "Backup of room operating mode", name: "R(1)'ROpModDtr'BckpROpMod" },
+  { type: 48, instance: 329, access: 'unknown', valueType: 'unknown', description: "Rapid vent.runtime for room op.unit", name: "R(1)'RHvacCoo'ROpUnItf'TiRnRpdVntRu", units: 'min' },
+  { type: 48, instance: 330, access: 'unknown', valueType: 'unknown', description: "Fireplace vent.runtime for room op.unit", name: "R(1)'RHvacCoo'ROpUnItf'TiRnFplcVntRu", units: 'min' },
+  { type: 48, instance: 332, access: 'unknown', valueType: 'unknown', description: "Heating coil electric pulse period", name: "R(1)'PrpyExtdCnf'HclElPlsPrd", units: 'sec' },
+  { type: 48, instance: 333, access: 'unknown', valueType: 'unknown', description: "Heating coil electr.min.switch-off time", name: "R(1)'PrpyExtdCnf'HclElTiOffMin" },
+  { type: 48, instance: 334, access: 'unknown', valueType: 'unknown', description: "Heating coil electric min.switch-on time", name: "R(1)'PrpyExtdCnf'HclElTiOnMin" },
+  { type: 48, instance: 335, access: 'unknown', valueType: 'unknown', description: "Rot.exch.motor stuck, retry interval", name: "R(1)'PrpyExtdCnf'RoxRetryIvl", units: 'sec' },
+  { type: 48, instance: 336, access: 'unknown', valueType: 'unknown', description: "Rot.exch.stuck determ., retry threshold", name: "R(1)'PrpyExtdCnf'RoxSkdrRryTsh" },
+  { type: 48, instance: 337, access: 'unknown', valueType: 'unknown', description: "Rot.exch.stuck determ., calculation time", name: "R(1)'PrpyExtdCnf'RoxSkdrTiCal", units: 'sec' },
+  { type: 48, instance: 340, access: 'unknown', valueType: 'unknown', description: "Rot.exch.motor stuck, coil max.current", name: "R(1)'PrpyExtdCnf'RoxCoilMaxCur", units: 'mA' },
+  { type: 48, instance: 341, access: 'unknown', valueType: 'unknown', description: "Rot.exch.stuck determ., aver.curr.limit", name: "R(1)'PrpyExtdCnf'RoxSkdrAvrCurm", units: 'mA' },
+  { type: 48, instance: 342, access: 'unknown', valueType: 'unknown', description: "Rot.exch.stuck determ., pres.curr.limit", name: "R(1)'PrpyExtdCnf'RoxSkdrPrCurm", units: 'mA' },
+  { type: 48, instance: 347, access: 'unknown', valueType: 'unknown', description: "Present selection for D1", name: "R(1)'PrD1Sel" },
+  { type: 48, instance: 351, access: 'unknown', valueType: 'unknown', description: "Present selection for D2", name: "R(1)'PrD2Sel" },
+  { type: 48, instance: 358, access: 'unknown', valueType: 'unknown', description: "Present selection for Q1", name: "R(1)'PrQ1Sel" },
+  { type: 48, instance: 368, access: 'unknown', valueType: 'unknown', description: "Present selection for Q2", name: "R(1)'PrQ2Sel" },
+  { type: 48, instance: 382, access: 'unknown', valueType: 'unknown', description: "Present selection for Y1", name: "R(1)'PrY1Sel" },
+  { type: 48, instance: 386, access: 'unknown', valueType: 'unknown', description: "Present selection for X4", name: "R(1)'PrX4Sel" },
+  { type: 48, instance: 432, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1001'EvnTiStampDate1" },
+  { type: 48, instance: 433, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1001'EvnTiStampDate2" },
+  { type: 48, instance: 434, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1001'EvnTiStampDate3" },
+  { type: 48, instance: 435, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1001'EvnTiStampDate4" },
+  { type: 48, instance: 436, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1001'EvnTiStampDate5" },
+  { type: 48, instance: 437, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1001'EvnTiStampTime1" },
+  { type: 48, instance: 438, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1001'EvnTiStampTime2" },
+  { type: 48, instance: 439, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1001'EvnTiStampTime3" },
+  { type: 48, instance: 440, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1001'EvnTiStampTime4" },
+  { type: 48, instance: 441, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1001'EvnTiStampTime5" },
+  { type: 48, instance: 442, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1002'EvnTiStampDate1" },
+  { type: 48, instance: 443, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1002'EvnTiStampDate2" },
+  { type: 48, instance: 444, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1002'EvnTiStampDate3" },
+  { type: 48, instance: 445, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1002'EvnTiStampDate4" },
+  { type: 48, instance: 446, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1002'EvnTiStampDate5" },
+  { type: 48, instance: 447, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1002'EvnTiStampTime1" },
+  { type: 48, instance: 448, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1002'EvnTiStampTime2" },
+  { type: 48, instance: 449, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1002'EvnTiStampTime3" },
+  { type: 48, instance: 450, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1002'EvnTiStampTime4" },
+  { type: 48, instance: 451, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1002'EvnTiStampTime5" },
+  { type: 48, instance: 452, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1003'EvnTiStampDate1" },
+  { type: 48, instance: 453, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1003'EvnTiStampDate2" },
+  { type: 48, instance: 454, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1003'EvnTiStampDate3" },
+  { type: 48, instance: 455, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1003'EvnTiStampDate4" },
+  { type: 48, instance: 456, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1003'EvnTiStampDate5" },
+  { type: 48, instance: 457, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1003'EvnTiStampTime1" },
+  { type: 48, instance: 458, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1003'EvnTiStampTime2" },
+  { type: 48, instance: 459, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1003'EvnTiStampTime3" },
+  { type: 48, instance: 460, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1003'EvnTiStampTime4" },
+  { type: 48, instance: 461, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1003'EvnTiStampTime5" },
+  { type: 48, instance: 462, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1004'EvnTiStampDate1" },
+  { type: 48, instance: 463, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1004'EvnTiStampDate2" },
+  { type: 48, instance: 464, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1004'EvnTiStampDate3" },
+  { type: 48, instance: 465, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1004'EvnTiStampDate4" },
+  { type: 48, instance: 466, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1004'EvnTiStampDate5" },
+  { type: 48, instance: 467, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1004'EvnTiStampTime1" },
+  { type: 48, instance: 468, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1004'EvnTiStampTime2" },
+  { type: 48, instance: 469, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1004'EvnTiStampTime3" },
+  { type: 48, instance: 470, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1004'EvnTiStampTime4" },
+  { type: 48, instance: 471, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1004'EvnTiStampTime5" },
+  { type: 48, instance: 472, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1005'EvnTiStampDate1" },
+  { type: 48, instance: 473, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1005'EvnTiStampDate2" },
+  { type: 48, instance: 474, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1005'EvnTiStampDate3" },
+  { type: 48, instance: 475, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1005'EvnTiStampDate4" },
+  { type: 48, instance: 476, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1005'EvnTiStampDate5" },
+  { type: 48, instance: 477, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1005'EvnTiStampTime1" },
+  { type: 48, instance: 478, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1005'EvnTiStampTime2" },
+  { type: 48, instance: 479, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1005'EvnTiStampTime3" },
+  { type: 48, instance: 480, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1005'EvnTiStampTime4" },
+  { type: 48, instance: 481, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1005'EvnTiStampTime5" },
+  { type: 48, instance: 482, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1006'EvnTiStampDate1" },
+  { type: 48, instance: 483, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1006'EvnTiStampDate2" },
+  { type: 48, instance: 484, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1006'EvnTiStampDate3" },
+  { type: 48, instance: 485, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1006'EvnTiStampDate4" },
+  { type: 48, instance: 486, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1006'EvnTiStampDate5" },
+  { type: 48, instance: 487, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1006'EvnTiStampTime1" },
+  { type: 48, instance: 488, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1006'EvnTiStampTime2" },
+  { type: 48, instance: 489, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1006'EvnTiStampTime3" },
+  { type: 48, instance: 490, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1006'EvnTiStampTime4" },
+  { type: 48, instance: 491, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1006'EvnTiStampTime5" },
+  { type: 48, instance: 492, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1007'EvnTiStampDate1" },
+  { type: 48, instance: 493, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1007'EvnTiStampDate2" },
+  { type: 48, instance: 494, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1007'EvnTiStampDate3" },
+  { type: 48, instance: 495, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1007'EvnTiStampDate4" },
+  { type: 48, instance: 496, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1007'EvnTiStampDate5" },
+  { type: 48, instance: 497, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1007'EvnTiStampTime1" },
+  { type: 48, instance: 498, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1007'EvnTiStampTime2" },
+  { type: 48, instance: 499, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1007'EvnTiStampTime3" },
+  { type: 48, instance: 500, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1007'EvnTiStampTime4" },
+  { type: 48, instance: 501, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1007'EvnTiStampTime5" },
+  { type: 48, instance: 502, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1008'EvnTiStampDate1" },
+  { type: 48, instance: 503, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1008'EvnTiStampDate2" },
+  { type: 48, instance: 504, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1008'EvnTiStampDate3" },
+  { type: 48, instance: 505, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1008'EvnTiStampDate4" },
+  { type: 48, instance: 506, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1008'EvnTiStampDate5" },
+  { type: 48, instance: 507, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1008'EvnTiStampTime1" },
+  { type: 48, instance: 508, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1008'EvnTiStampTime2" },
+  { type: 48, instance: 509, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1008'EvnTiStampTime3" },
+  { type: 48, instance: 510, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1008'EvnTiStampTime4" },
+  { type: 48, instance: 511, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1008'EvnTiStampTime5" },
+  { type: 48, instance: 512, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1009'EvnTiStampDate1" },
+  { type: 48, instance: 513, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1009'EvnTiStampDate2" },
+  { type: 48, instance: 514, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1009'EvnTiStampDate3" },
+  { type: 48, instance: 515, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1009'EvnTiStampDate4" },
+  { type: 48, instance: 516, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1009'EvnTiStampDate5" },
+  { type: 48, instance: 517, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1009'EvnTiStampTime1" },
+  { type: 48, instance: 518, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1009'EvnTiStampTime2" },
+  { type: 48, instance: 519, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1009'EvnTiStampTime3" },
+  { type: 48, instance: 520, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1009'EvnTiStampTime4" },
+  { type: 48, instance: 521, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1009'EvnTiStampTime5" },
+  { type: 48, instance: 522, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1010'EvnTiStampDate1" },
+  { type: 48, instance: 523, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1010'EvnTiStampDate2" },
+  { type: 48, instance: 524, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1010'EvnTiStampDate3" },
+  { type: 48, instance: 525, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1010'EvnTiStampDate4" },
+  { type: 48, instance: 526, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1010'EvnTiStampDate5" },
+  { type: 48, instance: 527, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1010'EvnTiStampTime1" },
+  { type: 48, instance: 528, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1010'EvnTiStampTime2" },
+  { type: 48, instance: 529, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1010'EvnTiStampTime3" },
+  { type: 48, instance: 530, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1010'EvnTiStampTime4" },
+  { type: 48, instance: 531, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1010'EvnTiStampTime5" },
+  { type: 48, instance: 532, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1011'EvnTiStampDate1" },
+  { type: 48, instance: 533, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1011'EvnTiStampDate2" },
+  { type: 48, instance: 534, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1011'EvnTiStampDate3" },
+  { type: 48, instance: 535, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1011'EvnTiStampDate4" },
+  { type: 48, instance: 536, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1011'EvnTiStampDate5" },
+  { type: 48, instance: 537, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1011'EvnTiStampTime1" },
+  { type: 48, instance: 538, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1011'EvnTiStampTime2" },
+  { type: 48, instance: 539, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1011'EvnTiStampTime3" },
+  { type: 48, instance: 540, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1011'EvnTiStampTime4" },
+  { type: 48, instance: 541, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1011'EvnTiStampTime5" },
+  { type: 48, instance: 542, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1020'EvnTiStampDate1" },
+  { type: 48, instance: 543, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1020'EvnTiStampDate2" },
+  { type: 48, instance: 544, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1020'EvnTiStampDate3" },
+  { type: 48, instance: 545, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1020'EvnTiStampDate4" },
+  { type: 48, instance: 546, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1020'EvnTiStampDate5" },
+  { type: 48, instance: 547, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1020'EvnTiStampTime1" },
+  { type: 48, instance: 548, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1020'EvnTiStampTime2" },
+  { type: 48, instance: 549, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1020'EvnTiStampTime3" },
+  { type: 48, instance: 550, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1020'EvnTiStampTime4" },
+  { type: 48, instance: 551, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1020'EvnTiStampTime5" },
+  { type: 48, instance: 552, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1032'EvnTiStampDate1" },
+  { type: 48, instance: 553, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1032'EvnTiStampDate2" },
+  { type: 48, instance: 554, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1032'EvnTiStampDate3" },
+  { type: 48, instance: 555, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1032'EvnTiStampDate4" },
+  { type: 48, instance: 556, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1032'EvnTiStampDate5" },
+  { type: 48, instance: 557, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1032'EvnTiStampTime1" },
+  { type: 48, instance: 558, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1032'EvnTiStampTime2" },
+  { type: 48, instance: 559, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1032'EvnTiStampTime3" },
+  { type: 48, instance: 560, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1032'EvnTiStampTime4" },
+  { type: 48, instance: 561, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1032'EvnTiStampTime5" },
+  { type: 48, instance: 562, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1033'EvnTiStampDate1" },
+  { type: 48, instance: 563, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1033'EvnTiStampDate2" },
+  { type: 48, instance: 564, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1033'EvnTiStampDate3" },
+  { type: 48, instance: 565, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1033'EvnTiStampDate4" },
+  { type: 48, instance: 566, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1033'EvnTiStampDate5" },
+  { type: 48, instance: 567, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1033'EvnTiStampTime1" },
+  { type: 48, instance: 568, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1033'EvnTiStampTime2" },
+  { type: 48, instance: 569, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1033'EvnTiStampTime3" },
+  { type: 48, instance: 570, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1033'EvnTiStampTime4" },
+  { type: 48, instance: 571, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1033'EvnTiStampTime5" },
+  { type: 48, instance: 572, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1034'EvnTiStampDate1" },
+  { type: 48, instance: 573, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1034'EvnTiStampDate2" },
+  { type: 48, instance: 574, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1034'EvnTiStampDate3" },
+  { type: 48, instance: 575, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1034'EvnTiStampDate4" },
+  { type: 48, instance: 576, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1034'EvnTiStampDate5" },
+  { type: 48, instance: 577, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1034'EvnTiStampTime1" },
+  { type: 48, instance: 578, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1034'EvnTiStampTime2" },
+  { type: 48, instance: 579, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1034'EvnTiStampTime3" },
+  { type: 48, instance: 580, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1034'EvnTiStampTime4" },
+  { type: 48, instance: 581, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1034'EvnTiStampTime5" },
+  { type: 48, instance: 582, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1035'EvnTiStampDate1" },
+  { type: 48, instance: 583, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1035'EvnTiStampDate2" },
+  { type: 48, instance: 584, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1035'EvnTiStampDate3" },
+  { type: 48, instance: 585, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1035'EvnTiStampDate4" },
+  { type: 48, instance: 586, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1035'EvnTiStampDate5" },
+  { type: 48, instance: 587, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1035'EvnTiStampTime1" },
+  { type: 48, instance: 588, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1035'EvnTiStampTime2" },
+  { type: 48, instance: 589, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1035'EvnTiStampTime3" },
+  { type: 48, instance: 590, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1035'EvnTiStampTime4" },
+  { type: 48, instance: 591, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1035'EvnTiStampTime5" },
+  { type: 48, instance: 592, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1040'EvnTiStampDate1" },
+  { type: 48, instance: 593, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1040'EvnTiStampDate2" },
+  { type: 48, instance: 594, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1040'EvnTiStampDate3" },
+  { type: 48, instance: 595, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1040'EvnTiStampDate4" },
+  { type: 48, instance: 596, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1040'EvnTiStampDate5" },
+  { type: 48, instance: 597, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1040'EvnTiStampTime1" },
+  { type: 48, instance: 598, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1040'EvnTiStampTime2" },
+  { type: 48, instance: 599, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1040'EvnTiStampTime3" },
+  { type: 48, instance: 600, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1040'EvnTiStampTime4" },
+  { type: 48, instance: 601, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm1040'EvnTiStampTime5" },
+  { type: 48, instance: 602, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2001'EvnTiStampDate1" },
+  { type: 48, instance: 603, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2001'EvnTiStampDate2" },
+  { type: 48, instance: 604, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2001'EvnTiStampDate3" },
+  { type: 48, instance: 605, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2001'EvnTiStampDate4" },
+  { type: 48, instance: 606, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2001'EvnTiStampDate5" },
+  { type: 48, instance: 607, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2001'EvnTiStampTime1" },
+  { type: 48, instance: 608, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2001'EvnTiStampTime2" },
+  { type: 48, instance: 609, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2001'EvnTiStampTime3" },
+  { type: 48, instance: 610, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2001'EvnTiStampTime4" },
+  { type: 48, instance: 611, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2001'EvnTiStampTime5" },
+  { type: 48, instance: 612, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2002'EvnTiStampDate1" },
+  { type: 48, instance: 613, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2002'EvnTiStampDate2" },
+  { type: 48, instance: 614, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2002'EvnTiStampDate3" },
+  { type: 48, instance: 615, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2002'EvnTiStampDate4" },
+  { type: 48, instance: 616, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2002'EvnTiStampDate5" },
+  { type: 48, instance: 617, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2002'EvnTiStampTime1" },
+  { type: 48, instance: 618, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2002'EvnTiStampTime2" },
+  { type: 48, instance: 619, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2002'EvnTiStampTime3" },
+  { type: 48, instance: 620, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2002'EvnTiStampTime4" },
+  { type: 48, instance: 621, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2002'EvnTiStampTime5" },
+  { type: 48, instance: 622, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2003'EvnTiStampDate1" },
+  { type: 48, instance: 623, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2003'EvnTiStampDate2" },
+  { type: 48, instance: 624, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2003'EvnTiStampDate3" },
+  { type: 48, instance: 625, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2003'EvnTiStampDate4" },
+  { type: 48, instance: 626, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2003'EvnTiStampDate5" },
+  { type: 48, instance: 627, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2003'EvnTiStampTime1" },
+  { type: 48, instance: 628, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2003'EvnTiStampTime2" },
+  { type: 48, instance: 629, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2003'EvnTiStampTime3" },
+  { type: 48, instance: 630, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2003'EvnTiStampTime4" },
+  { type: 48, instance: 631, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2003'EvnTiStampTime5" },
+  { type: 48, instance: 632, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2004'EvnTiStampDate1" },
+  { type: 48, instance: 633, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2004'EvnTiStampDate2" },
+  { type: 48, instance: 634, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2004'EvnTiStampDate3" },
+  { type: 48, instance: 635, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2004'EvnTiStampDate4" },
+  { type: 48, instance: 636, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2004'EvnTiStampDate5" },
+  { type: 48, instance: 637, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2004'EvnTiStampTime1" },
+  { type: 48, instance: 638, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2004'EvnTiStampTime2" },
+  { type: 48, instance: 639, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2004'EvnTiStampTime3" },
+  { type: 48, instance: 640, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2004'EvnTiStampTime4" },
+  { type: 48, instance: 641, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2004'EvnTiStampTime5" },
+  { type: 48, instance: 642, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2005'EvnTiStampDate1" },
+  { type: 48, instance: 643, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2005'EvnTiStampDate2" },
+  { type: 48, instance: 644, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2005'EvnTiStampDate3" },
+  { type: 48, instance: 645, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2005'EvnTiStampDate4" },
+  { type: 48, instance: 646, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2005'EvnTiStampDate5" },
+  { type: 48, instance: 647, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2005'EvnTiStampTime1" },
+  { type: 48, instance: 648, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2005'EvnTiStampTime2" },
+  { type: 48, instance: 649, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2005'EvnTiStampTime3" },
+  { type: 48, instance: 650, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2005'EvnTiStampTime4" },
+  { type: 48, instance: 651, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2005'EvnTiStampTime5" },
+  { type: 48, instance: 652, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2007'EvnTiStampDate1" },
+  { type: 48, instance: 653, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2007'EvnTiStampDate2" },
+  { type: 48, instance: 654, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2007'EvnTiStampDate3" },
+  { type: 48, instance: 655, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2007'EvnTiStampDate4" },
+  { type: 48, instance: 656, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2007'EvnTiStampDate5" },
+  { type: 48, instance: 657, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2007'EvnTiStampTime1" },
+  { type: 48, instance: 658, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2007'EvnTiStampTime2" },
+  { type: 48, instance: 659, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2007'EvnTiStampTime3" },
+  { type: 48, instance: 660, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2007'EvnTiStampTime4" },
+  { type: 48, instance: 661, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2007'EvnTiStampTime5" },
+  { type: 48, instance: 662, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2010'EvnTiStampDate1" },
+  { type: 48, instance: 663, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2010'EvnTiStampDate2" },
+  { type: 48, instance: 664, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2010'EvnTiStampDate3" },
+  { type: 48, instance: 665, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2010'EvnTiStampDate4" },
+  { type: 48, instance: 666, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2010'EvnTiStampDate5" },
+  { type: 48, instance: 667, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2010'EvnTiStampTime1" },
+  { type: 48, instance: 668, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2010'EvnTiStampTime2" },
+  { type: 48, instance: 669, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2010'EvnTiStampTime3" },
+  { type: 48, instance: 670, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2010'EvnTiStampTime4" },
+  { type: 48, instance: 671, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2010'EvnTiStampTime5" },
+  { type: 48, instance: 672, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3001'EvnTiStampDate1" },
+  { type: 48, instance: 673, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3001'EvnTiStampDate2" },
+  { type: 48, instance: 674, access: 'unknown', valueType: 'unknown', description: "configuration value", name: "R(1)'AlmHdl'Alm3001'EvnTiStampDate3" },
+  { type: 48, instance: 675, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3001'EvnTiStampDate4" },
+  { type: 48, instance: 676, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3001'EvnTiStampDate5" },
+  { type: 48, instance: 677, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3001'EvnTiStampTime1" },
+  { type: 48, instance: 678, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3001'EvnTiStampTime2" },
+  { type: 48, instance: 679, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3001'EvnTiStampTime3" },
+  { type: 48, instance: 680, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3001'EvnTiStampTime4" },
+  { type: 48, instance: 681, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3001'EvnTiStampTime5" },
+  { type: 48, instance: 682, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3002'EvnTiStampDate1" },
+  { type: 48, instance: 683, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3002'EvnTiStampDate2" },
+  { type: 48, instance: 684, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3002'EvnTiStampDate3" },
+  { type: 48, instance: 685, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3002'EvnTiStampDate4" },
+  { type: 48, instance: 686, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3002'EvnTiStampDate5" },
+  { type: 48, instance: 687, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3002'EvnTiStampTime1" },
+  { type: 48, instance: 688, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3002'EvnTiStampTime2" },
+  { type: 48, instance: 689, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3002'EvnTiStampTime3" },
+  { type: 48, instance: 690, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3002'EvnTiStampTime4" },
+  { type: 48, instance: 691, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3002'EvnTiStampTime5" },
+  { type: 48, instance: 692, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3003'EvnTiStampDate1" },
+  { type: 48, instance: 693, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3003'EvnTiStampDate2" },
+  { type: 48, instance: 694, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3003'EvnTiStampDate3" },
+  { type: 48, instance: 695, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3003'EvnTiStampDate4" },
+  { type: 48, instance: 696, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3003'EvnTiStampDate5" },
+  { type: 48, instance: 697, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3003'EvnTiStampTime1" },
+  { type: 48, instance: 698, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3003'EvnTiStampTime2" },
+  { type: 48, instance: 699, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3003'EvnTiStampTime3" },
+  { type: 48, instance: 700, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3003'EvnTiStampTime4" },
+  { type: 48, instance: 701, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3003'EvnTiStampTime5" },
+  { type: 48, instance: 702, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3004'EvnTiStampDate1" },
+  { type: 48, instance: 703, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3004'EvnTiStampDate2" },
+  { type: 48, instance: 704, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3004'EvnTiStampDate3" },
+  { type: 48, instance: 705, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3004'EvnTiStampDate4" },
+  { type: 48, instance: 706, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3004'EvnTiStampDate5" },
+  { type: 48, instance: 707, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3004'EvnTiStampTime1" },
+  { type: 48, instance: 708, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3004'EvnTiStampTime2" },
+  { type: 48, instance: 709, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3004'EvnTiStampTime3" },
+  { type: 48, instance: 710, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3004'EvnTiStampTime4" },
+  { type: 48, instance: 711, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3004'EvnTiStampTime5" },
+  { type: 48, instance: 712, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3006'EvnTiStampDate1" },
+  { type: 48, instance: 713, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3006'EvnTiStampDate2" },
+  { type: 48, instance: 714, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3006'EvnTiStampDate3" },
+  { type: 48, instance: 715, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3006'EvnTiStampDate4" },
+  { type: 48, instance: 716, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3006'EvnTiStampDate5" },
+  { type: 48, instance: 717, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3006'EvnTiStampTime1" },
+  { type: 48, instance: 718, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3006'EvnTiStampTime2" },
+  { type: 48, instance: 719, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3006'EvnTiStampTime3" },
+  { type: 48, instance: 720, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3006'EvnTiStampTime4" },
+  { type: 48, instance: 721, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3006'EvnTiStampTime5" },
+  { type: 48, instance: 722, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3007'EvnTiStampDate1" },
+  { type: 48, instance: 723, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3007'EvnTiStampDate2" },
+  { type: 48, instance: 724, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3007'EvnTiStampDate3" },
+  { type: 48, instance: 725, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3007'EvnTiStampDate4" },
+  { type: 48, instance: 726, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3007'EvnTiStampDate5" },
+  { type: 48, instance: 727, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3007'EvnTiStampTime1" },
+  { type: 48, instance: 728, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3007'EvnTiStampTime2" },
+  { type: 48, instance: 729, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3007'EvnTiStampTime3" },
+  { type: 48, instance: 730, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3007'EvnTiStampTime4" },
+  { type: 48, instance: 731, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm3007'EvnTiStampTime5" },
+  { type: 48, instance: 732, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2008'EvnTiStampDate1" },
+  { type: 48, instance: 733, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2008'EvnTiStampDate2" },
+  { type: 48, instance: 734, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2008'EvnTiStampDate3" },
+  { type: 48, instance: 735, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2008'EvnTiStampDate4" },
+  { type: 48, instance: 736, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2008'EvnTiStampDate5" },
+  { type: 48, instance: 737, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2008'EvnTiStampTime1" },
+  { type: 48, instance: 738, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2008'EvnTiStampTime2" },
+  { type: 48, instance: 739, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2008'EvnTiStampTime3" },
+  { type: 48, instance: 740, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2008'EvnTiStampTime4" },
+  { type: 48, instance: 741, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2008'EvnTiStampTime5" },
+  { type: 48, instance: 742, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2009'EvnTiStampDate1" },
+  { type: 48, instance: 743, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2009'EvnTiStampDate2" },
+  { type: 48, instance: 744, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2009'EvnTiStampDate3" },
+  { type: 48, instance: 745, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2009'EvnTiStampDate4" },
+  { type: 48, instance: 746, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2009'EvnTiStampDate5" },
+  { type: 48, instance: 747, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2009'EvnTiStampTime1" },
+  { type: 48, instance: 748, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2009'EvnTiStampTime2" },
+  { type: 48, instance: 749, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2009'EvnTiStampTime3" },
+  { type: 48, instance: 750, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2009'EvnTiStampTime4" },
+  { type: 48, instance: 751, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2009'EvnTiStampTime5" },
+  { type: 48, instance: 752, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2011'EvnTiStampDate1" },
+  { type: 48, instance: 753, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2011'EvnTiStampDate2" },
+  { type: 48, instance: 754, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2011'EvnTiStampDate3" },
+  { type: 48, instance: 755, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2011'EvnTiStampDate4" },
+  { type: 48, instance: 756, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2011'EvnTiStampDate5" },
+  { type: 48, instance: 757, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2011'EvnTiStampTime1" },
+  { type: 48, instance: 758, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2011'EvnTiStampTime2" },
+  { type: 48, instance: 759, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2011'EvnTiStampTime3" },
+  { type: 48, instance: 760, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2011'EvnTiStampTime4" },
+  { type: 48, instance: 761, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2011'EvnTiStampTime5" },
+  { type: 48, instance: 762, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2014'EvnTiStampDate1" },
+  { type: 48, instance: 763, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2014'EvnTiStampDate2" },
+  { type: 48, instance: 764, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2014'EvnTiStampDate3" },
+  { type: 48, instance: 765, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2014'EvnTiStampDate4" },
+  { type: 48, instance: 766, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2014'EvnTiStampDate5" },
+  { type: 48, instance: 767, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2014'EvnTiStampTime1" },
+  { type: 48, instance: 768, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2014'EvnTiStampTime2" },
+  { type: 48, instance: 769, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2014'EvnTiStampTime3" },
+  { type: 48, instance: 770, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2014'EvnTiStampTime4" },
+  { type: 48, instance: 771, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2014'EvnTiStampTime5" },
+  { type: 48, instance: 782, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2016'EvnTiStampDate1" },
+  { type: 48, instance: 783, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2016'EvnTiStampDate2" },
+  { type: 48, instance: 784, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2016'EvnTiStampDate3" },
+  { type: 48, instance: 785, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2016'EvnTiStampDate4" },
+  { type: 48, instance: 786, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2016'EvnTiStampDate5" },
+  { type: 48, instance: 787, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2016'EvnTiStampTime1" },
+  { type: 48, instance: 788, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2016'EvnTiStampTime2" },
+  { type: 48, instance: 789, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2016'EvnTiStampTime3" },
+  { type: 48, instance: 790, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2016'EvnTiStampTime4" },
+  { type: 48, instance: 791, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm2016'EvnTiStampTime5" },
+  { type: 48, instance: 792, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9001'EvnTiStampDate1" },
+  { type: 48, instance: 793, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9001'EvnTiStampDate2" },
+  { type: 48, instance: 794, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9001'EvnTiStampDate3" },
+  { type: 48, instance: 795, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9001'EvnTiStampDate4" },
+  { type: 48, instance: 796, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9001'EvnTiStampDate5" },
+  { type: 48, instance: 797, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9001'EvnTiStampTime1" },
+  { type: 48, instance: 798, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9001'EvnTiStampTime2" },
+  { type: 48, instance: 799, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9001'EvnTiStampTime3" },
+  { type: 48, instance: 800, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9001'EvnTiStampTime4" },
+  { type: 48, instance: 801, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9001'EvnTiStampTime5" },
+  { type: 48, instance: 802, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9002'EvnTiStampDate1" },
+  { type: 48, instance: 803, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9002'EvnTiStampDate2" },
+  { type: 48, instance: 804, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9002'EvnTiStampDate3" },
+  { type: 48, instance: 805, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9002'EvnTiStampDate4" },
+  { type: 48, instance: 806, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9002'EvnTiStampDate5" },
+  { type: 48, instance: 807, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9002'EvnTiStampTime1" },
+  { type: 48, instance: 808, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9002'EvnTiStampTime2" },
+  { type: 48, instance: 809, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9002'EvnTiStampTime3" },
+  { type: 48, instance: 810, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9002'EvnTiStampTime4" },
+  { type: 48, instance: 811, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9002'EvnTiStampTime5" },
+  { type: 48, instance: 812, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9003'EvnTiStampDate1" },
+  { type: 48, instance: 813, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9003'EvnTiStampDate2" },
+  { type: 48, instance: 814, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9003'EvnTiStampDate3" },
+  { type: 48, instance: 815, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9003'EvnTiStampDate4" },
+  { type: 48, instance: 816, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9003'EvnTiStampDate5" },
+  { type: 48, instance: 817, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9003'EvnTiStampTime1" },
+  { type: 48, instance: 818, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9003'EvnTiStampTime2" },
+  { type: 48, instance: 819, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9003'EvnTiStampTime3" },
+  { type: 48, instance: 820, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9003'EvnTiStampTime4" },
+  { type: 48, instance: 821, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9003'EvnTiStampTime5" },
+  { type: 48, instance: 822, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9004'EvnTiStampDate1" },
+  { type: 48, instance: 823, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9004'EvnTiStampDate2" },
+  { type: 48, instance: 824, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9004'EvnTiStampDate3" },
+  { type: 48, instance: 825, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9004'EvnTiStampDate4" },
+  { type: 48, instance: 826, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9004'EvnTiStampDate5" },
+  { type: 48, instance: 827, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9004'EvnTiStampTime1" },
+  { type: 48, instance: 828, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9004'EvnTiStampTime2" },
+  { type: 48, instance: 829, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9004'EvnTiStampTime3" },
+  { type: 48, instance: 830, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9004'EvnTiStampTime4" },
+  { type: 48, instance: 831, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9004'EvnTiStampTime5" },
+  { type: 48, instance: 832, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9005'EvnTiStampDate1" },
+  { type: 48, instance: 833, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9005'EvnTiStampDate2" },
+  { type: 48, instance: 834, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9005'EvnTiStampDate3" },
+  { type: 48, instance: 835, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9005'EvnTiStampDate4" },
+  { type: 48, instance: 836, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9005'EvnTiStampDate5" },
+  { type: 48, instance: 837, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9005'EvnTiStampTime1" },
+  { type: 48, instance: 838, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9005'EvnTiStampTime2" },
+  { type: 48, instance: 839, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9005'EvnTiStampTime3" },
+  { type: 48, instance: 840, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9005'EvnTiStampTime4" },
+  { type: 48, instance: 841, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9005'EvnTiStampTime5" },
+  { type: 48, instance: 842, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9006'EvnTiStampDate1" },
+  { type: 48, instance: 843, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9006'EvnTiStampDate2" },
+  { type: 48, instance: 844, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9006'EvnTiStampDate3" },
+  { type: 48, instance: 845, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9006'EvnTiStampDate4" },
+  { type: 48, instance: 846, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9006'EvnTiStampDate5" },
+  { type: 48, instance: 847, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9006'EvnTiStampTime1" },
+  { type: 48, instance: 848, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9006'EvnTiStampTime2" },
+  { type: 48, instance: 849, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9006'EvnTiStampTime3" },
+  { type: 48, instance: 850, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9006'EvnTiStampTime4" },
+  { type: 48, instance: 851, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9006'EvnTiStampTime5" },
+  { type: 48, instance: 852, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9007'EvnTiStampDate1" },
+  { type: 48, instance: 853, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9007'EvnTiStampDate2" },
+  { type: 48, instance: 854, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9007'EvnTiStampDate3" },
+  { type: 48, instance: 855, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9007'EvnTiStampDate4" },
+  { type: 48, instance: 856, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9007'EvnTiStampDate5" },
+  { type: 48, instance: 857, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9007'EvnTiStampTime1" },
+  { type: 48, instance: 858, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9007'EvnTiStampTime2" },
+  { type: 48, instance: 859, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9007'EvnTiStampTime3" },
+  { type: 48, instance: 860, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9007'EvnTiStampTime4" },
+  { type: 48, instance: 861, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9007'EvnTiStampTime5" },
+  { type: 48, instance: 862, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9008'EvnTiStampDate1" },
+  { type: 48, instance: 863, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9008'EvnTiStampDate2" },
+  { type: 48, instance: 864, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9008'EvnTiStampDate3" },
+  { type: 48, instance: 865, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9008'EvnTiStampDate4" },
+  { type: 48, instance: 866, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9008'EvnTiStampDate5" },
+  { type: 48, instance: 867, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9008'EvnTiStampTime1" },
+  { type: 48, instance: 868, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9008'EvnTiStampTime2" },
+  { type: 48, instance: 869, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9008'EvnTiStampTime3" },
+  { type: 48, instance: 870, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9008'EvnTiStampTime4" },
+  { type: 48, instance: 871, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9008'EvnTiStampTime5" },
+  { type: 48, instance: 872, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9009'EvnTiStampDate1" },
+  { type: 48, instance: 873, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9009'EvnTiStampDate2" },
+  { type: 48, instance: 874, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9009'EvnTiStampDate3" },
+  { type: 48, instance: 875, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9009'EvnTiStampDate4" },
+  { type: 48, instance: 876, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9009'EvnTiStampDate5" },
+  { type: 48, instance: 877, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9009'EvnTiStampTime1" },
+  { type: 48, instance: 878, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9009'EvnTiStampTime2" },
+  { type: 48, instance: 879, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9009'EvnTiStampTime3" },
+  { type: 48, instance: 880, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9009'EvnTiStampTime4" },
+  { type: 48, instance: 881, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9009'EvnTiStampTime5" },
+  { type: 48, instance: 882, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9010'EvnTiStampDate1" },
+  { type: 48, instance: 883, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9010'EvnTiStampDate2" },
+  { type: 48, instance: 884, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9010'EvnTiStampDate3" },
+  { type: 48, instance: 885, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9010'EvnTiStampDate4" },
+  { type: 48, instance: 886, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9010'EvnTiStampDate5" },
+  { type: 48, instance: 887, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9010'EvnTiStampTime1" },
+  { type: 48, instance: 888, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9010'EvnTiStampTime2" },
+  { type: 48, instance: 889, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9010'EvnTiStampTime3" },
+  { type: 48, instance: 890, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9010'EvnTiStampTime4" },
+  { type: 48, instance: 891, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9010'EvnTiStampTime5" },
+  { type: 48, instance: 892, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9011'EvnTiStampDate1" },
+  { type: 48, instance: 893, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9011'EvnTiStampDate2" },
+  { type: 48, instance: 894, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9011'EvnTiStampDate3" },
+  { type: 48, instance: 895, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9011'EvnTiStampDate4" },
+  { type: 48, instance: 896, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9011'EvnTiStampDate5" },
+  { type: 48, instance: 897, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9011'EvnTiStampTime1" },
+  { type: 48, instance: 898, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9011'EvnTiStampTime2" },
+  { type: 48, instance: 899, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9011'EvnTiStampTime3" },
+  { type: 48, instance: 900, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9011'EvnTiStampTime4" },
+  { type: 48, instance: 901, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9011'EvnTiStampTime5" },
+  { type: 48, instance: 902, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9012'EvnTiStampDate1" },
+  { type: 48, instance: 903, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9012'EvnTiStampDate2" },
+  { type: 48, instance: 904, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9012'EvnTiStampDate3" },
+  { type: 48, instance: 905, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9012'EvnTiStampDate4" },
+  { type: 48, instance: 906, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9012'EvnTiStampDate5" },
+  { type: 48, instance: 907, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9012'EvnTiStampTime1" },
+  { type: 48, instance: 908, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9012'EvnTiStampTime2" },
+  { type: 48, instance: 909, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9012'EvnTiStampTime3" },
+  { type: 48, instance: 910, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9012'EvnTiStampTime4" },
+  { type: 48, instance: 911, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9012'EvnTiStampTime5" },
+  { type: 48, instance: 912, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9013'EvnTiStampDate1" },
+  { type: 48, instance: 913, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9013'EvnTiStampDate2" },
+  { type: 48, instance: 914, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9013'EvnTiStampDate3" },
+  { type: 48, instance: 915, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9013'EvnTiStampDate4" },
+  { type: 48, instance: 916, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9013'EvnTiStampDate5" },
+  { type: 48, instance: 917, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9013'EvnTiStampTime1" },
+  { type: 48, instance: 918, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9013'EvnTiStampTime2" },
+  { type: 48, instance: 919, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9013'EvnTiStampTime3" },
+  { type: 48, instance: 920, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9013'EvnTiStampTime4" },
+  { type: 48, instance: 921, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9013'EvnTiStampTime5" },
+  { type: 48, instance: 922, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9014'EvnTiStampDate1" },
+  { type: 48, instance: 923, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9014'EvnTiStampDate2" },
+  { type: 48, instance: 924, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9014'EvnTiStampDate3" },
+  { type: 48, instance: 925, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9014'EvnTiStampDate4" },
+  { type: 48, instance: 926, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9014'EvnTiStampDate5" },
+  { type: 48, instance: 927, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9014'EvnTiStampTime1" },
+  { type: 48, instance: 928, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9014'EvnTiStampTime2" },
+  { type: 48, instance: 929, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9014'EvnTiStampTime3" },
+  { type: 48, instance: 930, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9014'EvnTiStampTime4" },
+  { type: 48, instance: 931, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9014'EvnTiStampTime5" },
+  { type: 48, instance: 932, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9015'EvnTiStampDate1" },
+  { type: 48, instance: 933, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9015'EvnTiStampDate2" },
+  { type: 48, instance: 934, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9015'EvnTiStampDate3" },
+  { type: 48, instance: 935, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9015'EvnTiStampDate4" },
+  { type: 48, instance: 936, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9015'EvnTiStampDate5" },
+  { type: 48, instance: 937, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9015'EvnTiStampTime1" },
+  { type: 48, instance: 938, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9015'EvnTiStampTime2" },
+  { type: 48, instance: 939, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9015'EvnTiStampTime3" },
+  { type: 48, instance: 940, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9015'EvnTiStampTime4" },
+  { type: 48, instance: 941, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9015'EvnTiStampTime5" },
+  { type: 48, instance: 942, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9016'EvnTiStampDate1" },
+  { type: 48, instance: 943, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9016'EvnTiStampDate2" },
+  { type: 48, instance: 944, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9016'EvnTiStampDate3" },
+  { type: 48, instance: 945, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9016'EvnTiStampDate4" },
+  { type: 48, instance: 946, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9016'EvnTiStampDate5" },
+  { type: 48, instance: 947, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9016'EvnTiStampTime1" },
+  { type: 48, instance: 948, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9016'EvnTiStampTime2" },
+  { type: 48, instance: 949, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9016'EvnTiStampTime3" },
+  { type: 48, instance: 950, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9016'EvnTiStampTime4" },
+  { type: 48, instance: 951, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9016'EvnTiStampTime5" },
+  { type: 48, instance: 952, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9017'EvnTiStampDate1" },
+  { type: 48, instance: 953, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9017'EvnTiStampDate2" },
+  { type: 48, instance: 954, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9017'EvnTiStampDate3" },
+  { type: 48, instance: 955, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9017'EvnTiStampDate4" },
+  { type: 48, instance: 956, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9017'EvnTiStampDate5" },
+  { type: 48, instance: 957, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9017'EvnTiStampTime1" },
+  { type: 48, instance: 958, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9017'EvnTiStampTime2" },
+  { type: 48, instance: 959, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9017'EvnTiStampTime3" },
+  { type: 48, instance: 960, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9017'EvnTiStampTime4" },
+  { type: 48, instance: 961, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9017'EvnTiStampTime5" },
+  { type: 48, instance: 962, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9018'EvnTiStampDate1" },
+  { type: 48, instance: 963, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9018'EvnTiStampDate2" },
+  { type: 48, instance: 964, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9018'EvnTiStampDate3" },
+  { type: 48, instance: 965, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9018'EvnTiStampDate4" },
+  { type: 48, instance: 966, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9018'EvnTiStampDate5" },
+  { type: 48, instance: 967, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9018'EvnTiStampTime1" },
+  { type: 48, instance: 968, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9018'EvnTiStampTime2" },
+  { type: 48, instance: 969, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9018'EvnTiStampTime3" },
+  { type: 48, instance: 970, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9018'EvnTiStampTime4" },
+  { type: 48, instance: 971, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9018'EvnTiStampTime5" },
+  { type: 48, instance: 972, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9019'EvnTiStampDate1" },
+  { type: 48, instance: 973, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9019'EvnTiStampDate2" },
+  { type: 48, instance: 974, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9019'EvnTiStampDate3" },
+  { type: 48, instance: 975, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9019'EvnTiStampDate4" },
+  { type: 48, instance: 976, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9019'EvnTiStampDate5" },
+  { type: 48, instance: 977, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9019'EvnTiStampTime1" },
+  { type: 48, instance: 978, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9019'EvnTiStampTime2" },
+  { type: 48, instance: 979, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9019'EvnTiStampTime3" },
+  { type: 48, instance: 980, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9019'EvnTiStampTime4" },
+  { type: 48, instance: 981, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9019'EvnTiStampTime5" },
+  { type: 48, instance: 982, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9020'EvnTiStampDate1" },
+  { type: 48, instance: 983, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9020'EvnTiStampDate2" },
+  { type: 48, instance: 984, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9020'EvnTiStampDate3" },
+  { type: 48, instance: 985, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9020'EvnTiStampDate4" },
+  { type: 48, instance: 986, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9020'EvnTiStampDate5" },
+  { type: 48, instance: 987, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9020'EvnTiStampTime1" },
+  { type: 48, instance: 988, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9020'EvnTiStampTime2" },
+  { type: 48, instance: 989, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9020'EvnTiStampTime3" },
+  { type: 48, instance: 990, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9020'EvnTiStampTime4" },
+  { type: 48, instance: 991, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9020'EvnTiStampTime5" },
+  { type: 48, instance: 992, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9021'EvnTiStampDate1" },
+  { type: 48, instance: 993, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9021'EvnTiStampDate2" },
+  { type: 48, instance: 994, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9021'EvnTiStampDate3" },
+  { type: 48, instance: 995, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9021'EvnTiStampDate4" },
+  { type: 48, instance: 996, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9021'EvnTiStampDate5" },
+  { type: 48, instance: 997, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9021'EvnTiStampTime1" },
+  { type: 48, instance: 998, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9021'EvnTiStampTime2" },
+  { type: 48, instance: 999, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9021'EvnTiStampTime3" },
+  { type: 48, instance: 1000, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9021'EvnTiStampTime4" },
+  { type: 48, instance: 1001, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9021'EvnTiStampTime5" },
+  { type: 48, instance: 1002, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9022'EvnTiStampDate1" },
+  { type: 48, instance: 1003, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9022'EvnTiStampDate2" },
+  { type: 48, instance: 1004, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9022'EvnTiStampDate3" },
+  { type: 48, instance: 1005, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9022'EvnTiStampDate4" },
+  { type: 48, instance: 1006, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9022'EvnTiStampDate5" },
+  { type: 48, instance: 1007, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9022'EvnTiStampTime1" },
+  { type: 48, instance: 1008, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9022'EvnTiStampTime2" },
+  { type: 48, instance: 1009, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9022'EvnTiStampTime3" },
+  { type: 48, instance: 1010, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9022'EvnTiStampTime4" },
+  { type: 48, instance: 1011, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9022'EvnTiStampTime5" },
+  { type: 48, instance: 1012, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9023'EvnTiStampDate1" },
+  { type: 48, instance: 1013, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9023'EvnTiStampDate2" },
+  { type: 48, instance: 1014, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9023'EvnTiStampDate3" },
+  { type: 48, instance: 1015, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9023'EvnTiStampDate4" },
+  { type: 48, instance: 1016, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9023'EvnTiStampDate5" },
+  { type: 48, instance: 1017, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9023'EvnTiStampTime1" },
+  { type: 48, instance: 1018, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9023'EvnTiStampTime2" },
+  { type: 48, instance: 1019, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9023'EvnTiStampTime3" },
+  { type: 48, instance: 1020, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9023'EvnTiStampTime4" },
+  { type: 48, instance: 1021, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9023'EvnTiStampTime5" },
+  { type: 48, instance: 1022, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9024'EvnTiStampDate1" },
+  { type: 48, instance: 1023, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9024'EvnTiStampDate2" },
+  { type: 48, instance: 1024, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9024'EvnTiStampDate3" },
+  { type: 48, instance: 1025, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9024'EvnTiStampDate4" },
+  { type: 48, instance: 1026, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9024'EvnTiStampDate5" },
+  { type: 48, instance: 1027, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9024'EvnTiStampTime1" },
+  { type: 48, instance: 1028, access: 'unknown', valueType: 'unknown', description: "Unsigned configuration value", name: "R(1)'AlmHdl'Alm9024'EvnTiStampTime2" },
+];
+
+/** Alarm texts by alarm code, from the R(1)'AlmHdl'Alm<code> structured view objects. */
+export const FLEXIT_ALARM_TEXTS: Readonly<Record<number, string>> = {
+  1001: "Supply air temperature, sensor fault",
+  1002: "Exhaust air temperature, sensor fault",
+  1003: "Extract air temperature, sensor fault",
+  1004: "Outside air temperature, sensor fault",
+  1005: "Frost prot.temp.heat.coil, sensor fault",
+  1006: "Rel.humidity extract air, sensor fault",
+  1007: "Rotary heat exchanger, motor stuck",
+  1008: "Rotary heat exchanger, belt broken",
+  1009: "Fire damper, position feedback fault",
+  1010: "Supply air fan, speed feedback fault",
+  1011: "Exhaust air fan, speed feedback fault",
+  1020: "Air filter polluted",
+  1022: "DHW storage tank temp.top, sensor fault",
+  1023: "DHW storage tank temp.mid, sensor fault",
+  1024: "Flow temp.heating circuit, sensor fault",
+  1025: "Return temp.heat.circuit, sensor fault",
+  1026: "Flow temp.reheating coil, sensor fault",
+  1027: "Return temp.storage tank, sensor fault",
+  1028: "DHW stor.tank temp.bottom, sensor fault",
+  1029: "Frost prot.temp.reheat.zone,sensor fault",
+  1030: "Zone supply air temp., sensor fault",
+  1032: "Supply air pressure, sensor fault",
+  1033: "Extract air pressure, sensor fault",
+  1034: "Diff.press.supply air fan, sensor fault",
+  1035: "Diff.press.exhaust air fan, sensor fault",
+  1036: "DHW storage tank temp., sensor fault",
+  1039: "Rotary heat exch. motor short circuit",
+  1040: "RF device, battery low",
+  2001: "Emergency off activated",
+  2002: "Smoke detector tripped",
+  2003: "CO detector tripped",
+  2004: "Fire alarm activated",
+  2005: "Supply air temp., operat.limits exceeded",
+  2007: "Heating coil, frost warning",
+  2008: "Reheat.coil heat pump, overtemperature",
+  2009: "Reheating coil zone, overtemperature",
+  2010: "Heating coil, overtemperature",
+  2011: "Reheating coil zone, frost warning",
+  2013: "Outside air damper stops air flow",
+  2014: "Heat pump air damper stops air flow",
+  2016: "Heat pump, limescale warning",
+  2018: "Heat pump unable to start",
+  2019: "Heat pump high return temperature",
+  2020: "Water pump unable to start",
+  2024: "Heating coil lose control",
+  2025: "Rotary heat exch. lose control",
+  3001: "Heat pump controller, Modbus comm.error",
+  3002: "I/O exten.module 1, Modbus comm.error",
+  3003: "I/O exten.module 2, Modbus comm.error",
+  3004: "Diff.pressure sensor, Modbus comm.error",
+  3006: "RF interface device, Modbus comm.error",
+  3007: "RF communication error",
+  9001: "Inlet water temperature, sensor fault",
+  9002: "Outlet water tempertaure, sensor fault",
+  9003: "Inlet air temperature, sensor fault",
+  9004: "Defrosting tempertaure, sensor fault",
+  9005: "Discharge temperature, sensor fault",
+  9006: "Outlet water temperature too high",
+  9007: "Outlet water temperature too low",
+  9008: "CO2 discharge temperature too high",
+  9009: "CO2 discharge temperature too low",
+  9010: "High pressure switch fault",
+  9011: "High air temperature defrosting error",
+  9012: "Fan motor fault",
+  9013: "Water pump fault",
+  9014: "Inverter, communication error",
+  9015: "Inverter, motor control fault",
+  9016: "Inverter, overcurrent fault",
+  9017: "Inverter, current detection fault",
+  9018: "Inverter, overvoltage fault",
+  9019: "Inverter, undervoltage fault",
+  9020: "Inverter, power supply fault",
+  9021: "Inverter, voltage detection fault",
+  9022: "Inverter, heatsink temperature fault",
+  9023: "Inverter, overload fault",
+  9025: "Mixing valve fault",
+  9026: "Three way valve fault",
+};
@@ -0,0 +1,68 @@
+/**
+ * Decoder for the structured (binary) Flexit discovery reply. After a header naming
+ * the message (`identification` for replies) the payload is a list of numbered
+ * sections holding typed fields:
+ *
+ *   80 01 00 <kind> <u32 name length> <name> <u32 0>   header
+ *   0c <u16 section id>                                 starts a section
+ *   0b <u16 field id> <u32 length> <ascii>              string field
+ *   08 <u16 field id> <u32 value>                       integer field
+ *   00                                                  end of section / padding
+ */
+
+export type StructuredReplyField = string | number;
+
+export interface StructuredReply {
+  name: string;
+  sections: Map<number, Map<number, StructuredReplyField>>;
+}
+
+const HEADER_LENGTH = 12;
+const TAG_END = 0x00;
+const TAG_INT = 0x08;
+const TAG_STRING = 0x0b;
+const TAG_SECTION = 0x0c;
+
+/**
+ * Returns null for payloads that are not in the structured format, or that use a tag
+ * this decoder does not know, so the caller can fall back to scraping the text.
+ */
+export function decodeStructuredReply(payload: Buffer): StructuredReply | null {
+  if (payload.length < HEADER_LENGTH || payload[0] !== 0x80 || payload[1] !== 0x01) return null;
+  const nameLength = payload.readUInt32BE(4);
+  let offset = 8 + nameLength + 4;
+  if (offset > payload.length) return null;
+
+  const name = payload.toString('latin1', 8, 8 + nameLength);
+  const sections = new Map<number, Map<number, StructuredReplyField>>();
+  let section: Map<number, StructuredReplyField> | undefined;
+  while (offset < payload.length) {
+    const tag = payload[offset];
+    if (tag === TAG_END) {
+      offset += 1;
+      continue;
+    }
+    if (offset + 3 > payload.length) return null;
+    const id = payload.readUInt16BE(offset + 1);
+    offset += 3;
+
+    if (tag === TAG_SECTION) {
+      section = new Map();
+      sections.set(id, section);
+    } else if (!section || offset + 4 > payload.length) {
+      return null;
+    } else if (tag === TAG_INT) {
+      section.set(id, payload.readUInt32BE(offset));
+      offset += 4;
+    } else if (tag === TAG_STRING) {
+      const length = payload.readUInt32BE(offset);
+      offset += 4;
+      if (offset + length > payload.length) return null;
+      section.set(id, payload.toString('latin1', offset, offset + length));
+      offset += length;
+    } else {
+      return null;
+    }
+  }
+  return { name, sections };
+}
@@ -1,4 +1,5 @@
 import { getNordicModelFromSerial } from './flexitModel';
+import { decodeStructuredReply, StructuredReply } from './flexitReplyDecoder';
 
 export interface DiscoveredFlexitUnit {
   name: string;
@@ -9,36 +10,124 @@ export interface DiscoveredFlexitUnit {
   bacnetPort: number;
   mac?: string;
   fw?: string;
+  // Only in structured multicast replies.
+  platformCode?: string;
+  platformVersion?: string;
+  firmwareComponents?: Record<string, string>;
+  appVersion?: string;
+  interfaceName?: string;
+  netmask?: string;
+  gateway?: string;
 }
 
 const NORDIC_SERIAL_PREFIXES = ['8001', '8002', '8003'];
+const SERIAL_PATTERN = /\b\d{6}-\d{6}\b/;
+const ENDPOINT_PATTERN = /\b(\d{1,3}(?:\.\d{1,3}){3}):(\d{2,5})\b/;
 
-function isNordicSerial(serialNormalized: string) {
+// Sections and fields of the structured reply, as Nordic units fill them.
+const PLATFORM_SECTION = 4; // 1: platform code, 2: platform version
+const DEVICE_SECTION = 5; // 2: device name, 4: firmware components, 5: BACnet endpoint
+const SERIAL_SECTION = 6; // 1: serial
+const NETWORK_SECTION = 7; // 1: interface name, 3: IP address, 4: netmask, 5: gateway, 7: MAC address
+const APP_SECTION = 12; // 2: app version
+
+export function isNordicSerial(serialNormalized: string) {
   return NORDIC_SERIAL_PREFIXES.some((prefix) => serialNormalized.startsWith(prefix));
 }
 
+function toReplyAscii(payload: Buffer) {
+  // Replace non-printable bytes with spaces so regex works reliably.
+  return payload
+    .toString('latin1')
+    .replace(/[^\x20-\x7E]+/g, ' ')
+    .trim();
+}
+
 /**
- * Best-effort parsing from the proprietary multicast reply payload.
- * We primarily need serial + BACnet endpoint.
+ * Normalized serial in a multicast reply, Nordic or not. Discovery uses it to tell
+ * replies from other Flexit units apart from payloads it could not read at all.
+ */
+export function findReplySerial(payload: Buffer): string | undefined {
+  return toReplyAscii(payload).match(SERIAL_PATTERN)?.[0].replace(/[^0-9]/g, '');
+}
+
+/**
+ * Splits the firmware field of a structured reply, e.g.
+ * `FW=03.39.03.38:BL=00.05.02.0003;SVS-300.4:SBC=13.24;`, into components by name.
+ */
+export function parseFirmwareComponents(text: string | undefined): Record<string, string> | undefined {
+  const components: Record<string, string> = {};
+  for (const token of (text ?? '').split(/[;:]/)) {
+    const match = token.trim().match(/^([A-Za-z]+)[=-](.+)$/);
+    if (match) components[match[1]] = match[2];
+  }
+  return Object.keys(components).length > 0 ? components : undefined;
+}
+
+export function formatFirmwareComponents(components: Record<string, string> | undefined): string {
+  return Object.entries(components ?? {}).map(([name, version]) => `${name} ${version}`).join(', ');
+}
+
+/**
+ * Parses a multicast discovery reply: decodes the structured format where the unit
+ * sends it, and scrapes the text of anything else.
+ */
+export function parseFlexitReply(payload: Buffer, rinfoAddress: string): DiscoveredFlexitUnit | null {
+  const structured = decodeStructuredReply(payload);
+  return (structured && parseStructuredReply(structured, rinfoAddress)) ?? parseTextReply(payload, rinfoAddress);
+}
+
+function parseStructuredReply(reply: StructuredReply, rinfoAddress: string): DiscoveredFlexitUnit | null {
+  const text = (sectionId: number, fieldId: number) => {
+    const value = reply.sections.get(sectionId)?.get(fieldId);
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+
+  const serial = text(SERIAL_SECTION, 1)?.match(SERIAL_PATTERN)?.[0];
+  if (!serial) return null;
+  const serialNormalized = serial.replace(/[^0-9]/g, '');
+  if (!isNordicSerial(serialNormalized)) return null;
+  const model = getNordicModelFromSerial(serialNormalized);
+
+  const endpointMatch = text(DEVICE_SECTION, 5)?.match(ENDPOINT_PATTERN);
+  const firmwareComponents = parseFirmwareComponents(text(DEVICE_SECTION, 4));
+  return {
+    name: model ? `Nordic ${model}` : text(DEVICE_SECTION, 2) ?? 'Flexit Unit',
+    model: model ?? undefined,
+    serial,
+    serialNormalized,
+    ip: endpointMatch?.[1] ?? text(NETWORK_SECTION, 3) ?? rinfoAddress,
+    bacnetPort: endpointMatch ? Number(endpointMatch[2]) : 47808,
+    mac: text(NETWORK_SECTION, 7),
+    fw: firmwareComponents?.FW,
+    platformCode: text(PLATFORM_SECTION, 1),
+    platformVersion: text(PLATFORM_SECTION, 2),
+    firmwareComponents,
+    appVersion: text(APP_SECTION, 2),
+    interfaceName: text(NETWORK_SECTION, 1),
+    netmask: text(NETWORK_SECTION, 4),
+    gateway: text(NETWORK_SECTION, 5),
+  };
+}
+
+/**
+ * Best-effort parsing from the text of a multicast reply payload, for replies that
+ * are not in the structured format. We primarily need serial + BACnet endpoint.
  *
  * Serial regex per your prompt: \b\d{6}-\d{6}\b
  * Endpoint regex per your prompt: \b(\d{1,3}(?:\.\d{1,3}){3}):(\d{2,5})\b
  */
-export function parseFlexitReply(payload: Buffer, rinfoAddress: string): DiscoveredFlexitUnit | null {
-  // Replace non-printable bytes with spaces so regex works reliably.
-  const ascii = payload
-    .toString('latin1')
-    .replace(/[^\x20-\x7E]+/g, ' ')
-    .trim();
+function parseTextReply(payload: Buffer, rinfoAddress: string): DiscoveredFlexitUnit | null {
+  const ascii = toReplyAscii(payload);
 
-  const serialMatch = ascii.match(/\b\d{6}-\d{6}\b/);
+  const serialMatch = ascii.match(SERIAL_PATTERN);
   if (!serialMatch) return null;
   const serial = serialMatch[0];
   const serialNormalized = serial.replace(/[^0-9]/g, '');
   if (!isNordicSerial(serialNormalized)) return null;
   const model = getNordicModelFromSerial(serialNormalized);
 
-  const endpointMatch = ascii.match(/\b(\d{1,3}(?:\.\d{1,3}){3}):(\d{2,5})\b/);
+  const endpointMatch = ascii.match(ENDPOINT_PATTERN);
   const ip = endpointMatch?.[1] ?? rinfoAddress;
   const bacnetPort = endpointMatch ? Number(endpointMatch[2]) : 47808;
 
@@ -0,0 +1,164 @@
+import {
+  SCHEDULE_WEEKDAYS,
+  ScheduleException,
+  ScheduleExceptionPeriod,
+  ScheduleTimeValue,
+  ScheduleWeekday,
+  WeeklySchedule,
+  normalizeScheduleDate,
+  normalizeScheduleTime,
+} from './bacnetSchedule';
+
+// Operating mode values used by the unit's operating mode scheduler (SCHEDULE 17:5).
+// They match the ventilation mode MSV, so `home` in a schedule is the same HOME as the mode selector.
+const OPERATING_MODE_SCHEDULE_VALUES: Record<string, number> = {
+  stop: 1,
+  away: 2,
+  home: 3,
+  high: 4,
+};
+const RELINQUISH_KEYWORD = 'none';
+const DEFAULT_EXCEPTION_PRIORITY = 16;
+
+export type ScheduleSettingKey = `schedule_${ScheduleWeekday}` | 'schedule_exceptions';
+
+export function scheduleSettingKey(day: ScheduleWeekday): ScheduleSettingKey {
+  return `schedule_${day}`;
+}
+
+export const SCHEDULE_SETTING_KEYS: ScheduleSettingKey[] = [
+  ...SCHEDULE_WEEKDAYS.map(scheduleSettingKey),
+  'schedule_exceptions',
+];
+
+function formatScheduleValue(value: number | null): string {
+  if (value === null) return RELINQUISH_KEYWORD;
+  const name = Object.keys(OPERATING_MODE_SCHEDULE_VALUES)
+    .find((key) => OPERATING_MODE_SCHEDULE_VALUES[key] === value);
+  return name ?? String(value);
+}
+
+function parseScheduleValue(text: string): number | null {
+  const normalized = text.trim().toLowerCase();
+  if (normalized === RELINQUISH_KEYWORD) return null;
+  if (normalized in OPERATING_MODE_SCHEDULE_VALUES) return OPERATING_MODE_SCHEDULE_VALUES[normalized];
+  const modes = Object.keys(OPERATING_MODE_SCHEDULE_VALUES).join(', ');
+  throw new Error(`Unknown schedule mode '${text.trim()}'. Use ${modes} or ${RELINQUISH_KEYWORD}.`);
+}
+
+function formatTimeValue(entry: ScheduleTimeValue): string {
+  return `${normalizeScheduleTime(entry.time)} ${formatScheduleValue(entry.value)}`;
+}
+
+// Formats one day of the schedule as "06:30 home, 08:00 away".
+export function formatScheduleDay(entries: ScheduleTimeValue[]): string {
+  return entries.map(formatTimeValue).join(', ');
+}
+
+export function parseScheduleDay(text: string): ScheduleTimeValue[] {
+  const entries = String(text ?? '')
+    .split(/[,;\n]/)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      const match = /^(\S+)\s+(\S+)$/.exec(part);
+      if (!match) throw new Error(`Invalid schedule entry '${part}'. Use 'HH:MM mode'.`);
+      return { time: normalizeScheduleTime(match[1]), value: parseScheduleValue(match[2]) };
+    });
+  const times = new Set(entries.map((entry) => entry.time));
+  if (times.size !== entries.length) throw new Error('A schedule day cannot switch twice at the same time.');
+  return entries.sort((a, b) => a.time.localeCompare(b.time));
+}
+
+function formatWildcard(value: number | null): string {
+  return value === null ? '*' : String(value);
+}
+
+function parseWildcard(text: string, label: string, max: number): number | null {
+  if (text === '*') return null;
+  const value = Number(text);
+  if (!Number.isInteger(value) || value < 1 || value > max) {
+    throw new Error(`Invalid ${label} '${text}' in schedule exception.`);
+  }
+  return value;
+}
+
+function formatExceptionPeriod(period: ScheduleExceptionPeriod): string {
+  switch (period.kind) {
+    case 'date':
+      return period.date;
+    case 'dateRange':
+      return `${period.startDate}..${period.endDate}`;
+    case 'weekNDay':
+      return `weekday ${[period.month, period.weekOfMonth, period.dayOfWeek].map(formatWildcard).join('/')}`;
+    case 'calendar':
+      return `calendar ${period.calendarInstance}`;
+    default:
+      return '';
+  }
+}
+
+function parseExceptionPeriod(text: string): ScheduleExceptionPeriod {
+  const weekNDay = /^weekday\s+(\S+)\/(\S+)\/(\S+)$/i.exec(text);
+  if (weekNDay) {
+    return {
+      kind: 'weekNDay',
+      month: parseWildcard(weekNDay[1], 'month', 14),
+      weekOfMonth: parseWildcard(weekNDay[2], 'week of month', 6),
+      dayOfWeek: parseWildcard(weekNDay[3], 'day of week', 7),
+    };
+  }
+  const calendar = /^calendar\s+(\d+)$/i.exec(text);
+  if (calendar) return { kind: 'calendar', calendarInstance: Number(calendar[1]) };
+  const range = /^(\S+)\.\.(\S+)$/.exec(text);
+  if (range) {
+    return {
+      kind: 'dateRange',
+      startDate: normalizeScheduleDate(range[1]),
+      endDate: normalizeScheduleDate(range[2]),
+    };
+  }
+  return { kind: 'date', date: normalizeScheduleDate(text) };
+}
+
+// Formats the exception schedule with one special event per line:
+// "2026-12-24..2026-12-26 p10: 07:00 home, 23:00 away".
+export function formatScheduleExceptions(exceptions: ScheduleException[]): string {
+  return exceptions
+    .map((exception) => {
+      const priority = exception.priority === DEFAULT_EXCEPTION_PRIORITY ? '' : ` p${exception.priority}`;
+      return `${formatExceptionPeriod(exception.period)}${priority}: ${formatScheduleDay(exception.timeValues)}`;
+    })
+    .join('\n');
+}
+
+export function parseScheduleExceptions(text: string): ScheduleException[] {
+  return String(text ?? '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const match = /^(.+?)(?:\s+p(\d+))?\s*:(.*)$/i.exec(line);
+      if (!match) throw new Error(`Invalid schedule exception '${line}'. Use 'YYYY-MM-DD: HH:MM mode, ...'.`);
+      const priority = match[2] === undefined ? DEFAULT_EXCEPTION_PRIORITY : Number(match[2]);
+      if (priority < 1 || priority > 16) {
+        throw new Error(`Schedule exception priority must be between 1 and 16, got ${priority}.`);
+      }
+      return {
+        period: parseExceptionPeriod(match[1].trim()),
+        timeValues: parseScheduleDay(match[3]),
+        priority,
+      };
+    });
+}
+
+export function formatScheduleSettings(
+  weekly: WeeklySchedule,
+  exceptions: ScheduleException[],
+): Record<ScheduleSettingKey, string> {
+  const settings = { schedule_exceptions: formatScheduleExceptions(exceptions) } as Record<ScheduleSettingKey, string>;
+  for (const day of SCHEDULE_WEEKDAYS) {
+    settings[scheduleSettingKey(day)] = formatScheduleDay(weekly[day]);
+  }
+  return settings;
+}
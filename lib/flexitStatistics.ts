@@ -0,0 +1,83 @@
+// Operating-hour counters kept by the controller (AV 1847, 1913–1916, 1814, 1820, 1879), in hours.
+export const OPERATING_HOUR_COUNTERS = [
+  'total',
+  'stop',
+  'away',
+  'home',
+  'high',
+  'fireplace',
+  'cooker',
+  'heater',
+] as const;
+export type OperatingHourCounter = (typeof OPERATING_HOUR_COUNTERS)[number];
+export type OperatingHours = Partial<Record<OperatingHourCounter, number>>;
+
+export const OPERATING_HOURS_PERIODS = ['total', 'today', 'week', 'month'] as const;
+export type OperatingHoursPeriod = (typeof OPERATING_HOURS_PERIODS)[number];
+
+export interface OperatingHoursSnapshot {
+  date: string;
+  hours: OperatingHours;
+}
+
+// Days covered by each period, counting today.
+const PERIOD_DAYS: Record<Exclude<OperatingHoursPeriod, 'total'>, number> = {
+  today: 1,
+  week: 7,
+  month: 30,
+};
+const MAX_SNAPSHOTS = 35;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isOperatingHoursPeriod(value: unknown): value is OperatingHoursPeriod {
+  return typeof value === 'string' && (OPERATING_HOURS_PERIODS as readonly string[]).includes(value);
+}
+
+/** Snapshot dates are UTC calendar days, e.g. `2026-10-19`. */
+export function snapshotDate(at: number): string {
+  return new Date(at).toISOString().slice(0, 10);
+}
+
+/**
+ * Records the first reading of each day as that day's baseline.
+ * Returns the snapshot list unchanged when today already has one.
+ */
+export function recordOperatingHoursSnapshot(
+  snapshots: OperatingHoursSnapshot[],
+  hours: OperatingHours,
+  at: number,
+): OperatingHoursSnapshot[] {
+  const date = snapshotDate(at);
+  if (snapshots.some((snapshot) => snapshot.date === date)) return snapshots;
+  return [...snapshots, { date, hours: { ...hours } }]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-MAX_SNAPSHOTS);
+}
+
+/**
+ * Hours per counter within the period. Uses the oldest snapshot inside the period as
+ * the baseline, so a period longer than the recorded history covers what is available.
+ */
+export function computeOperatingHoursBreakdown(
+  current: OperatingHours,
+  snapshots: OperatingHoursSnapshot[],
+  period: OperatingHoursPeriod,
+  at: number,
+): Record<OperatingHourCounter, number> {
+  let baseline: OperatingHours = {};
+  if (period !== 'total') {
+    const startDate = snapshotDate(at - (PERIOD_DAYS[period] - 1) * DAY_MS);
+    const inPeriod = snapshots
+      .filter((snapshot) => snapshot.date >= startDate)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    baseline = inPeriod[0]?.hours ?? current;
+  }
+
+  const breakdown = {} as Record<OperatingHourCounter, number>;
+  for (const counter of OPERATING_HOUR_COUNTERS) {
+    const value = current[counter];
+    const start = baseline[counter] ?? 0;
+    breakdown[counter] = value === undefined ? 0 : Math.max(0, Number((value - start).toFixed(1)));
+  }
+  return breakdown;
+}
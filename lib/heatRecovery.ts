@@ -0,0 +1,77 @@
+// Air density (kg/m³) times specific heat capacity (J/(kg·K)), at room conditions.
+const AIR_VOLUMETRIC_HEAT_CAPACITY_J_PER_M3K = 1.2 * 1005;
+// Below this extract/outdoor difference the efficiency ratio is dominated by sensor noise.
+const MIN_EFFICIENCY_TEMPERATURE_DELTA_C = 3;
+
+export interface HeatRecoveryTemperatures {
+  outdoor: number;
+  supply: number;
+  extract: number;
+  exhaust: number;
+}
+
+export interface HeatRecoverySample {
+  at: number;
+  watts: number;
+}
+
+function clampPercent(value: number): number {
+  return Math.min(100, Math.max(0, value));
+}
+
+/**
+ * Temperature efficiency on the supply and exhaust side, in percent.
+ * Returns undefined when outdoor and extract are too close for a meaningful ratio.
+ */
+export function computeTemperatureEfficiency(
+  temperatures: HeatRecoveryTemperatures,
+): { supply: number; exhaust: number } | undefined {
+  const {
+    outdoor, supply, extract, exhaust,
+  } = temperatures;
+  const delta = extract - outdoor;
+  if (!Number.isFinite(delta) || Math.abs(delta) < MIN_EFFICIENCY_TEMPERATURE_DELTA_C) return undefined;
+
+  return {
+    supply: Number(clampPercent(((supply - outdoor) / delta) * 100).toFixed(1)),
+    exhaust: Number(clampPercent(((extract - exhaust) / delta) * 100).toFixed(1)),
+  };
+}
+
+/** Heat moved into the supply air, in W, for the given airflow. Negative when cooling. */
+export function computeRecoveredPowerWatts(
+  airflowM3h: number,
+  outdoor: number,
+  supply: number,
+): number {
+  return (AIR_VOLUMETRIC_HEAT_CAPACITY_J_PER_M3K * airflowM3h * (supply - outdoor)) / 3600;
+}
+
+/**
+ * Time-weighted average over the last `windowMs`: each sample counts for as long as it
+ * was the latest reading, so irregular poll intervals do not skew the result. Uses the
+ * latest sample when the window is 0, and returns undefined when no sample falls within
+ * the window. Samples must be sorted by time.
+ */
+export function smoothRecoveredPower(
+  samples: HeatRecoverySample[],
+  windowMs: number,
+  now: number,
+): number | undefined {
+  if (samples.length === 0) return undefined;
+  const latest = samples[samples.length - 1];
+  if (windowMs <= 0) return Math.round(latest.watts);
+
+  const windowStart = now - windowMs;
+  if (latest.at < windowStart) return undefined;
+  let weightedTotal = 0;
+  let totalMs = 0;
+  samples.forEach((sample, index) => {
+    const from = Math.max(sample.at, windowStart);
+    const to = Math.min(samples[index + 1]?.at ?? now, now);
+    if (to <= from) return;
+    weightedTotal += sample.watts * (to - from);
+    totalMs += to - from;
+  });
+  return Math.round(totalMs > 0 ? weightedTotal / totalMs : latest.watts);
+}
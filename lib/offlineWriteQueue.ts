@@ -0,0 +1,136 @@
+import { ScheduleException, WeeklySchedule } from './bacnetSchedule';
+
+export type FreeCoolingOfflineSetting = 'temperature_setpoint' | 'outside_temperature_limit' | 'min_on_time';
+
+/**
+ * Writes requested while a unit is unavailable, kept in the device store until the unit is back.
+ * Only writes that set a value are queued. Starting or extending timed ventilation
+ * (including the high and fireplace fan modes) and acknowledging alarms act on the unit's
+ * state at the time of the request, so replaying them later could start ventilation or
+ * clear alarms nobody saw; those writes still fail.
+ */
+export type OfflineWrite =
+  | { kind: 'fan_mode'; mode: string }
+  | { kind: 'temperature_setpoint'; mode: 'home' | 'away'; setpoint: number }
+  | { kind: 'heating_coil'; enabled: boolean }
+  | { kind: 'point'; pointKey: string; value: number; priority: number }
+  | { kind: 'fireplace_duration'; minutes: number }
+  | { kind: 'rapid_duration'; minutes: number }
+  | { kind: 'humidity_setpoint'; mode: 'home' | 'away' | 'high'; value: number }
+  | { kind: 'neutral_zone'; zone: 'heating' | 'cooling'; mode: 'home' | 'away'; value: number }
+  | {
+    kind: 'fan_profile';
+    mode: 'home' | 'away' | 'high' | 'fireplace' | 'cooker';
+    supply: number;
+    exhaust: number;
+  }
+  | { kind: 'free_cooling_enabled'; enabled: boolean }
+  | { kind: 'free_cooling'; setting: FreeCoolingOfflineSetting; value: number }
+  | { kind: 'schedule'; weekly?: Partial<WeeklySchedule>; exceptions?: ScheduleException[] };
+
+export interface QueuedOfflineWrite {
+  write: OfflineWrite;
+  queuedAt: number;
+}
+
+export const DEFAULT_OFFLINE_WRITE_MAX_AGE_MINUTES = 60;
+export const MIN_OFFLINE_WRITE_MAX_AGE_MINUTES = 1;
+export const MAX_OFFLINE_WRITE_MAX_AGE_MINUTES = 24 * 60;
+const MAX_QUEUED_WRITES = 50;
+
+/** Writes with the same key target the same object, so a newer one supersedes the older. */
+export function offlineWriteKey(write: OfflineWrite): string {
+  switch (write.kind) {
+    case 'temperature_setpoint':
+      return `temperature_setpoint:${write.mode}`;
+    case 'point':
+      return `point:${write.pointKey}`;
+    case 'humidity_setpoint':
+    case 'fan_profile':
+      return `${write.kind}:${write.mode}`;
+    case 'neutral_zone':
+      return `neutral_zone:${write.zone}:${write.mode}`;
+    case 'free_cooling':
+      return `free_cooling:${write.setting}`;
+    case 'schedule':
+      // Schedule writes only replace the days they carry, so only an edit of the same days supersedes one.
+      return `schedule:${Object.keys(write.weekly ?? {}).sort().join(',')}:${write.exceptions ? 'exceptions' : ''}`;
+    default:
+      return write.kind;
+  }
+}
+
+/** Short label for the device settings, e.g. `fan mode away`. */
+export function describeOfflineWrite(write: OfflineWrite): string {
+  switch (write.kind) {
+    case 'fan_mode':
+      return `fan mode ${write.mode}`;
+    case 'temperature_setpoint':
+      return `${write.mode} target temperature ${write.setpoint} degC`;
+    case 'heating_coil':
+      return `heating coil ${write.enabled ? 'on' : 'off'}`;
+    case 'fireplace_duration':
+      return `fireplace duration ${write.minutes} min`;
+    case 'rapid_duration':
+      return `high ventilation duration ${write.minutes} min`;
+    case 'humidity_setpoint':
+      return `${write.mode} humidity setpoint ${write.value} %`;
+    case 'neutral_zone':
+      return `${write.zone} neutral zone ${write.mode} ${write.value} K`;
+    case 'fan_profile':
+      return `${write.mode} fan profile ${write.supply}/${write.exhaust} %`;
+    case 'free_cooling_enabled':
+      return `free cooling ${write.enabled ? 'on' : 'off'}`;
+    case 'free_cooling':
+      return `free cooling ${write.setting.replace(/_/g, ' ')} ${write.value}`;
+    case 'schedule':
+      return `schedule ${[...Object.keys(write.weekly ?? {}), ...(write.exceptions ? ['exceptions'] : [])].join(', ')}`;
+    default:
+      return `point ${write.pointKey} = ${write.value}`;
+  }
+}
+
+/**
+ * Appends a write, dropping any queued write to the same object so replay order
+ * follows the latest request. The oldest writes are dropped beyond the queue limit.
+ */
+export function enqueueOfflineWrite(
+  queue: readonly QueuedOfflineWrite[],
+  write: OfflineWrite,
+  at: number,
+): QueuedOfflineWrite[] {
+  const key = offlineWriteKey(write);
+  return [
+    ...queue.filter((entry) => offlineWriteKey(entry.write) !== key),
+    { write, queuedAt: at },
+  ].slice(-MAX_QUEUED_WRITES);
+}
+
+export function dropExpiredOfflineWrites(
+  queue: readonly QueuedOfflineWrite[],
+  maxAgeMinutes: number,
+  at: number,
+): QueuedOfflineWrite[] {
+  const cutoff = at - maxAgeMinutes * 60_000;
+  return queue.filter((entry) => entry.queuedAt >= cutoff);
+}
+
+export function normalizeOfflineWriteMaxAgeMinutes(value: unknown): number {
+  const minutes = Number(value);
+  if (!Number.isFinite(minutes)) return DEFAULT_OFFLINE_WRITE_MAX_AGE_MINUTES;
+  return Math.min(
+    MAX_OFFLINE_WRITE_MAX_AGE_MINUTES,
+    Math.max(MIN_OFFLINE_WRITE_MAX_AGE_MINUTES, Math.round(minutes)),
+  );
+}
+
+/** Restores a queue read back from the device store, skipping malformed entries. */
+export function parseStoredOfflineWrites(stored: unknown): QueuedOfflineWrite[] {
+  if (!Array.isArray(stored)) return [];
+  return stored.filter((entry): entry is QueuedOfflineWrite => (
+    typeof entry === 'object'
+    && entry !== null
+    && Number.isFinite(entry.queuedAt)
+    && typeof entry.write?.kind === 'string'
+  ));
+}
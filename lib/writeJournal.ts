@@ -0,0 +1,123 @@
+import { LogFields } from './logging';
+
+// Audit trail of writes to a unit, kept in the device store and exported through the app API.
+export type WriteJournalSource = 'capability' | 'flow' | 'settings' | 'sync' | 'external';
+export type WriteJournalOutcome = 'ok' | 'failed' | 'timeout' | 'blocked' | 'observed';
+export type WriteJournalVerification = 'pending' | 'confirmed' | 'mismatch' | 'not_applicable';
+
+export interface WriteJournalOrigin {
+  source: WriteJournalSource;
+  flowCardId?: string;
+  capability?: string;
+}
+
+export interface WriteJournalEntry extends WriteJournalOrigin {
+  at: string;
+  object: string;
+  description?: string;
+  value: number | string | null;
+  previousValue?: number;
+  priority?: number;
+  transport: 'bacnet' | 'cloud';
+  outcome: WriteJournalOutcome;
+  verification: WriteJournalVerification;
+  observedValue?: number;
+  error?: string;
+}
+
+export interface WriteJournalExport {
+  unitId: string;
+  exportedAt: string;
+  entries: WriteJournalEntry[];
+}
+
+const MAX_JOURNAL_ENTRIES = 200;
+// A changed value this soon after one of our own writes to the object is the echo of that write.
+const OWN_WRITE_ECHO_MS = 2 * 60_000;
+const WRITE_SOURCES = new Set<string>(['capability', 'flow', 'settings', 'sync']);
+
+/**
+ * Reads the write origin set with `runWithLogContext` by the capability listener,
+ * flow card or settings handler that started the write. Anything else is the app
+ * keeping the unit in sync, e.g. an offline write replay or a mode restore.
+ */
+export function resolveWriteJournalOrigin(context: LogFields): WriteJournalOrigin {
+  const source = String(context.writeSource ?? '');
+  const origin: WriteJournalOrigin = {
+    source: WRITE_SOURCES.has(source) ? source as WriteJournalSource : 'sync',
+  };
+  if (typeof context.flowCardId === 'string') origin.flowCardId = context.flowCardId;
+  if (typeof context.capability === 'string') origin.capability = context.capability;
+  return origin;
+}
+
+/** Appends an entry, dropping the oldest beyond the journal limit. */
+export function appendWriteJournalEntry(
+  journal: readonly WriteJournalEntry[],
+  entry: WriteJournalEntry,
+): WriteJournalEntry[] {
+  return [...journal, entry].slice(-MAX_JOURNAL_ENTRIES);
+}
+
+/**
+ * Resolves pending entries for `object` against a value read by a poll that started at
+ * `readStartedAt`. Entries written after that may not be reflected yet and stay pending.
+ * Returns the updated journal, or undefined when no entry was resolved.
+ */
+export function verifyWriteJournalEntries(
+  journal: readonly WriteJournalEntry[],
+  object: string,
+  observed: { value: number; readStartedAt: number },
+  matches: (expected: number) => boolean,
+): WriteJournalEntry[] | undefined {
+  let changed = false;
+  const updated = journal.map((entry) => {
+    if (entry.object !== object || entry.verification !== 'pending') return entry;
+    if (Date.parse(entry.at) >= observed.readStartedAt) return entry;
+    changed = true;
+    const expected = Number(entry.value);
+    return {
+      ...entry,
+      verification: matches(expected) ? 'confirmed' as const : 'mismatch' as const,
+      observedValue: observed.value,
+    };
+  });
+  return changed ? updated : undefined;
+}
+
+/** True when the journal holds one of our own writes to `object` recent enough to explain a change. */
+export function hasRecentOwnWrite(
+  journal: readonly WriteJournalEntry[],
+  object: string,
+  at: number,
+): boolean {
+  return journal.some((entry) => (
+    entry.object === object
+    && entry.source !== 'external'
+    && at - Date.parse(entry.at) < OWN_WRITE_ECHO_MS
+  ));
+}
+
+export function exportWriteJournal(
+  unitId: string,
+  journal: readonly WriteJournalEntry[],
+  at: number,
+): WriteJournalExport {
+  return {
+    unitId,
+    exportedAt: new Date(at).toISOString(),
+    entries: [...journal],
+  };
+}
+
+/** Restores a journal read back from the device store, skipping malformed entries. */
+export function parseStoredWriteJournal(stored: unknown): WriteJournalEntry[] {
+  if (!Array.isArray(stored)) return [];
+  return stored.filter((entry): entry is WriteJournalEntry => (
+    typeof entry === 'object'
+    && entry !== null
+    && typeof entry.at === 'string'
+    && typeof entry.object === 'string'
+    && typeof entry.source === 'string'
+  )).slice(-MAX_JOURNAL_ENTRIES);
+}
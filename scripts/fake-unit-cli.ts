@@ -17,6 +17,8 @@ export function usage() {
   console.log('  filter age <hours>');
   console.log('  filter limit <hours>');
   console.log('  filter replace');
+  console.log('  alarm raise <code> [A|B]');
+  console.log('  alarm clear [code]');
   console.log('');
   console.log('Debug commands:');
   console.log('  state');
@@ -99,6 +101,9 @@ export function printSummary(payload: any) {
     `Timers: rapid=${summary.timers.rapidMinutes}m fireplace=${summary.timers.fireplaceMinutes}m`
     + ` away-delay=${summary.timers.awayDelayMinutes}m`,
   );
+  if (summary.alarms) {
+    console.log(`Alarms: A=[${summary.alarms.A.join(', ')}] B=[${summary.alarms.B.join(', ')}]`);
+  }
 }
 
 export async function printLatestSummary(apiBase: string) {
@@ -178,6 +183,26 @@ export async function runFeatureCommand(apiBase: string, command: string, args:
     throw new Error(`Unknown filter command: ${sub}`);
   }
 
+  if (command === 'alarm') {
+    const sub = args[0];
+    if (sub === 'raise') {
+      const code = parseNumber(args[1], 'code');
+      const alarmClass = args[2] === undefined ? 'A' : args[2].toUpperCase();
+      await callApi(apiBase, { method: 'POST', path: '/feature/alarm/raise', body: { code, class: alarmClass } });
+      await printLatestSummary(apiBase);
+      return true;
+    }
+
+    if (sub === 'clear') {
+      const code = args[1] === undefined ? undefined : parseNumber(args[1], 'code');
+      await callApi(apiBase, { method: 'POST', path: '/feature/alarm/clear', body: { code } });
+      await printLatestSummary(apiBase);
+      return true;
+    }
+
+    throw new Error(`Unknown alarm command: ${sub}`);
+  }
+
   return false;
 }
 
@@ -43,6 +43,7 @@ export interface CliOptions {
   timeScale: number;
   periodicIAmMs: number;
   tickMs: number;
+  bbmd?: boolean;
 }
 
 interface InterfaceInfo {
@@ -187,6 +188,7 @@ export function parseArgs(argv: string[]): CliOptions {
     timeScale: parseNumber(args.get('--time-scale'), 1),
     periodicIAmMs: parseNumber(args.get('--periodic-iam-ms'), 20000),
     tickMs: parseNumber(args.get('--tick-ms'), 1000),
+    bbmd: args.get('--bbmd') === 'true',
   };
 }
 
@@ -216,6 +218,7 @@ export function printUsage() {
   console.log('  --mac <aa:bb:cc:dd:ee:ff>  MAC in discovery reply');
   console.log('  --time-scale <n>           Sim speed (default 1=real, 60=1 min/s)');
   console.log('  --periodic-iam-ms <ms>     Periodic I-Am broadcast interval');
+  console.log('  --bbmd                     Act as a BBMD that accepts foreign device registrations');
 }
 
 export async function startFakeUnit(options: CliOptions, registerSignalHandlers = true): Promise<RunningFakeUnit> {
@@ -266,6 +269,7 @@ export async function startFakeUnit(options: CliOptions, registerSignalHandlers
     discoveryAppVersion: options.discoveryAppVersion,
     logTraffic: options.logTraffic,
     periodicIAmMs: options.periodicIAmMs,
+    bbmd: options.bbmd ? {} : undefined,
   });
   bacnetServer.start();
 
@@ -297,6 +297,33 @@ export class FakeApiServer {
       return;
     }
 
+    await this.routeAlarm(method, pathname, req, res);
+  }
+
+  private async routeAlarm(method: string, pathname: string, req: IncomingMessage, res: ServerResponse) {
+    if (method === 'POST' && pathname === '/feature/alarm/raise') {
+      const body = await readJson(req);
+      const code = toNumber(body.code);
+      const alarmClass = body.class === undefined ? 'A' : body.class;
+      if (code === null || (alarmClass !== 'A' && alarmClass !== 'B')) {
+        sendJson(res, 400, { ok: false, error: 'code must be numeric and class must be A or B' });
+        return;
+      }
+      sendResultState(res, this.state, this.state.raiseAlarm(code, alarmClass));
+      return;
+    }
+
+    if (method === 'POST' && pathname === '/feature/alarm/clear') {
+      const body = await readJson(req);
+      const code = body.code === undefined ? undefined : toNumber(body.code);
+      if (code === null) {
+        sendJson(res, 400, { ok: false, error: 'code must be numeric when provided' });
+        return;
+      }
+      sendResultState(res, this.state, this.state.clearAlarm(code));
+      return;
+    }
+
     sendJson(res, 404, { ok: false, error: 'not_found' });
   }
 }
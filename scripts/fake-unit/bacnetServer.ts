@@ -15,8 +15,11 @@ import {
   PROPERTY_ID,
   SUPPORTED_DEVICE_PROPERTIES,
   SUPPORTED_POINT_PROPERTY_IDS,
+  SCHEDULE_PROPERTY_IDS,
   SUPPORTED_POINTS,
 } from './manifest';
+import { FakeBbmd } from './bbmd';
+import { decodeScheduleWriteRequest, ScheduleWriteRequest, sendScheduleReadResponse } from './schedule';
 import { FakeNordicUnitState, valueTagForRead, valueToWriteNumber } from './state';
 
 const require = createRequire(import.meta.url);
@@ -72,6 +75,20 @@ interface DecodedPrivateTransfer extends PrivateTransferFrameInfo {
   data: number[];
 }
 
+// Labels used for `units` in the manifest and the point catalog.
+const ENGINEERING_UNITS_BY_LABEL: Record<string, number> = {
+  degC: BacnetEnums.EngineeringUnits.DEGREES_CELSIUS,
+  K: BacnetEnums.EngineeringUnits.DEGREES_KELVIN,
+  '%': BacnetEnums.EngineeringUnits.PERCENT,
+  '%RH': BacnetEnums.EngineeringUnits.PERCENT_RELATIVE_HUMIDITY,
+  rpm: BacnetEnums.EngineeringUnits.REVOLUTIONS_PER_MINUTE,
+  Pa: BacnetEnums.EngineeringUnits.PASCALS,
+  sec: BacnetEnums.EngineeringUnits.SECONDS,
+  min: BacnetEnums.EngineeringUnits.MINUTES,
+  h: BacnetEnums.EngineeringUnits.HOURS,
+  kW: BacnetEnums.EngineeringUnits.KILOWATTS,
+  ppm: BacnetEnums.EngineeringUnits.PARTS_PER_MILLION,
+};
 const FLEXIT_GO_BROADCAST = '255.255.255.255';
 const FLEXIT_SIEMENS_VENDOR_ID = 7;
 const FLEXIT_DISCOVERY_SERVICE = 515;
@@ -223,8 +240,28 @@ export interface FakeBacnetServerOptions {
   discoveryAppVersion?: string;
   logTraffic?: boolean;
   periodicIAmMs?: number;
+  // Where I-Am answers go; defaults to the limited broadcast, which loopback test clients do not receive.
+  broadcastAddress?: string;
+  covCheckIntervalMs?: number;
+  covUnsupportedPoints?: string[];
+  // Minimal BBMD role: accepts foreign devices, runs their distributed broadcasts and forwards ours to them.
+  bbmd?: { rejectRegistrations?: boolean };
 }
 
+interface CovSubscription {
+  address: string;
+  subscriberProcessId: number;
+  objectId: { type: number; instance: number };
+  issueConfirmedNotifications: boolean;
+  expiresAt: number | null;
+  lastNotifiedValue?: number;
+}
+
+const DEFAULT_COV_CHECK_INTERVAL_MS = 1000;
+// Analog points only notify once the value has moved by at least this much,
+// mirroring the COV_Increment behaviour of real controllers.
+const COV_REAL_INCREMENT = 0.1;
+
 function bacnetErrorValue(errorClass: number, errorCode: number) {
   return [{
     type: APPLICATION_TAG.ERROR,
@@ -257,6 +294,13 @@ export class FakeBacnetServer {
 
   private readonly observedExternalSerials = new Set<string>();
 
+  private readonly covSubscriptions = new Map<string, CovSubscription>();
+
+  private covCheckTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Set when started with the `bbmd` option.
+  private bbmd: FakeBbmd | null = null;
+
   private readonly onRawMessage = (message: Buffer, rinfo: dgram.RemoteInfo) => {
     this.handleRawBacnetMessage(message, rinfo);
   };
@@ -273,6 +317,7 @@ export class FakeBacnetServer {
     this.client = new Bacnet({
       port: this.options.port,
       interface: this.options.bindAddress,
+      broadcastAddress: this.options.broadcastAddress,
       apduTimeout: 3000,
       apduSize: 1476,
     });
@@ -286,9 +331,11 @@ export class FakeBacnetServer {
     this.client.on('readProperty', (request: any) => this.handleReadProperty(request));
     this.client.on('writeProperty', (request: any) => this.handleWriteProperty(request));
     this.client.on('writePropertyMultiple', (request: any) => this.handleWritePropertyMultiple(request));
+    this.client.on('subscribeCOV', (request: any) => this.handleSubscribeCov(request));
 
     const transportSocket = this.getTransportSocket();
     transportSocket?.on('message', this.onRawMessage);
+    if (this.options.bbmd && transportSocket) this.bbmd = new FakeBbmd(this.client, transportSocket, this.options);
 
     this.log(
       `[FakeBacnet] Listening on ${this.options.bindAddress ?? '0.0.0.0'}:${this.options.port}`
@@ -303,6 +350,11 @@ export class FakeBacnetServer {
         this.client?.iAmResponse(identity.deviceId, BacnetEnums.Segmentation.NO_SEGMENTATION, identity.vendorId);
       }, periodicMs);
     }
+
+    const covCheckMs = this.options.covCheckIntervalMs ?? DEFAULT_COV_CHECK_INTERVAL_MS;
+    if (covCheckMs > 0) {
+      this.covCheckTimer = setInterval(() => this.checkCovSubscriptions(), covCheckMs);
+    }
   }
 
   stop() {
@@ -311,6 +363,12 @@ export class FakeBacnetServer {
       this.periodicIAmTimer = null;
     }
 
+    if (this.covCheckTimer) {
+      clearInterval(this.covCheckTimer);
+      this.covCheckTimer = null;
+    }
+    this.covSubscriptions.clear();
+
     const transportSocket = this.getTransportSocket();
     transportSocket?.off('message', this.onRawMessage);
 
@@ -320,6 +378,10 @@ export class FakeBacnetServer {
     }
   }
 
+  getCovSubscriptionCount(): number {
+    return this.covSubscriptions.size;
+  }
+
   private log(message: string) {
     if (this.options.logTraffic === false) return;
     console.log(message);
@@ -545,6 +607,17 @@ export class FakeBacnetServer {
   }
 
   private handleRawBacnetMessage(message: Buffer, rinfo: dgram.RemoteInfo) {
+    let scheduleWrite: ScheduleWriteRequest | null = null;
+    try {
+      scheduleWrite = decodeScheduleWriteRequest(message);
+    } catch (_error) {
+      scheduleWrite = null;
+    }
+    if (scheduleWrite) {
+      this.handleScheduleWrite(scheduleWrite, rinfo.address);
+      return;
+    }
+
     const transfer = this.decodeUnconfirmedPrivateTransfer(message);
     if (!transfer) {
       try {
@@ -805,6 +878,11 @@ export class FakeBacnetServer {
       return;
     }
 
+    if (objectId.type === OBJECT_TYPE.SCHEDULE && SCHEDULE_PROPERTY_IDS.includes(property.id)) {
+      this.handleScheduleRead(request, remote, objectId, property.id);
+      return;
+    }
+
     const result = this.readPropertyValue(objectId, property.id, property.index);
     if (!result.ok) {
       this.log(
@@ -881,6 +959,9 @@ export class FakeBacnetServer {
       return;
     }
 
+    // Schedule writes carry constructed values and are answered from the raw frame.
+    if (objectId.type === OBJECT_TYPE.SCHEDULE) return;
+
     const nullWrite = isNullWriteValue(valueNode);
     const numeric = nullWrite ? null : valueToWriteNumber(valueNode);
     if (numeric === null && !nullWrite) {
@@ -933,6 +1014,66 @@ export class FakeBacnetServer {
       request.invokeId,
     );
     this.log(`[FakeBacnet] TX simpleAck writeProperty to ${remote} invokeId=${request.invokeId}`);
+    this.checkCovSubscriptions();
+  }
+
+  private handleScheduleRead(request: any, remote: string, objectId: any, propertyId: number) {
+    if (!this.client) return;
+
+    const result = this.state.readScheduleProperty(objectId.instance, propertyId);
+    if (!result.ok) {
+      this.client.errorResponse(
+        request.address,
+        BacnetEnums.ConfirmedServiceChoice.READ_PROPERTY,
+        request.invokeId,
+        result.errorClass,
+        result.errorCode,
+      );
+      this.log(
+        `[FakeBacnet] TX errorResponse readProperty to ${remote}`
+        + ` invokeId=${request.invokeId} err=${result.errorClass}:${result.errorCode}`,
+      );
+      return;
+    }
+
+    sendScheduleReadResponse(this.client, request, objectId, propertyId, result.value);
+    this.log(
+      `[FakeBacnet] TX schedule readPropertyResponse to ${remote}`
+      + ` invokeId=${request.invokeId} len=${result.value.length}`,
+    );
+  }
+
+  private handleScheduleWrite(write: ScheduleWriteRequest, address: string) {
+    if (!this.client) return;
+
+    this.log(
+      `[FakeBacnet] RX schedule writeProperty from ${address}`
+      + ` obj=${objectTypeName(write.objectId.type)}:${write.objectId.instance}`
+      + ` prop=${propertyIdName(write.propertyId)}(${write.propertyId})`
+      + ` len=${write.value.length}`,
+    );
+    const result = this.state.writeScheduleProperty(write.objectId.instance, write.propertyId, write.value);
+    if (!result.ok) {
+      this.log(
+        `[FakeBacnet]  schedule writeProperty rejected: ${result.errorClass}:${result.errorCode}`
+        + ` (${result.message})`,
+      );
+      this.client.errorResponse(
+        address,
+        BacnetEnums.ConfirmedServiceChoice.WRITE_PROPERTY,
+        write.invokeId,
+        result.errorClass,
+        result.errorCode,
+      );
+      return;
+    }
+
+    this.client.simpleAckResponse(
+      address,
+      BacnetEnums.ConfirmedServiceChoice.WRITE_PROPERTY,
+      write.invokeId,
+    );
+    this.log(`[FakeBacnet] TX simpleAck schedule writeProperty to ${address} invokeId=${write.invokeId}`);
   }
 
   private handleWritePropertyMultiple(request: any) {
@@ -1051,6 +1192,180 @@ export class FakeBacnetServer {
       request.invokeId,
     );
     this.log(`[FakeBacnet] TX simpleAck writePropertyMultiple to ${remote} invokeId=${request.invokeId}`);
+    this.checkCovSubscriptions();
+  }
+
+  private handleSubscribeCov(request: any) {
+    if (!this.client) return;
+
+    const requestPort = typeof request?.port === 'number' ? request.port : undefined;
+    const remote = `${request.address}${requestPort ? `:${requestPort}` : ''}`;
+    const body = request?.request ?? {};
+    const objectId = body.monitoredObjectId;
+    const subscriberProcessId = Number(body.subscriberProcessId);
+
+    this.log(
+      `[FakeBacnet] RX subscribeCOV from ${remote}`
+      + ` obj=${objectTypeName(objectId?.type)}:${objectId?.instance ?? '-'}`
+      + ` process=${Number.isFinite(subscriberProcessId) ? subscriberProcessId : '-'}`
+      + ` cancel=${body.cancellationRequest === true}`
+      + ` confirmed=${body.issueConfirmedNotifications === true}`
+      + ` lifetime=${body.lifetime ?? '-'}`,
+    );
+
+    const point = objectId ? this.state.getPoint(objectId.type, objectId.instance) : undefined;
+    if (!point || !Number.isFinite(subscriberProcessId)) {
+      this.sendSubscribeCovError(request, remote, BacnetEnums.ErrorClass.OBJECT, BacnetEnums.ErrorCode.UNKNOWN_OBJECT);
+      return;
+    }
+    if (this.options.covUnsupportedPoints?.includes(point.name)) {
+      this.sendSubscribeCovError(
+        request,
+        remote,
+        BacnetEnums.ErrorClass.OBJECT,
+        BacnetEnums.ErrorCode.OPTIONAL_FUNCTIONALITY_NOT_SUPPORTED,
+      );
+      return;
+    }
+
+    const key = `${request.address}|${subscriberProcessId}|${objectKey(objectId.type, objectId.instance)}`;
+    if (body.cancellationRequest) {
+      this.covSubscriptions.delete(key);
+    } else {
+      const lifetime = Number(body.lifetime);
+      const subscription: CovSubscription = {
+        address: request.address,
+        subscriberProcessId,
+        objectId: { type: objectId.type, instance: objectId.instance },
+        issueConfirmedNotifications: body.issueConfirmedNotifications === true,
+        expiresAt: Number.isFinite(lifetime) && lifetime > 0 ? Date.now() + (lifetime * 1000) : null,
+      };
+      this.covSubscriptions.set(key, subscription);
+    }
+
+    this.client.simpleAckResponse(
+      request.address,
+      BacnetEnums.ConfirmedServiceChoice.SUBSCRIBE_COV,
+      request.invokeId,
+    );
+    this.log(`[FakeBacnet] TX simpleAck subscribeCOV to ${remote} invokeId=${request.invokeId}`);
+
+    // A new or renewed subscription always gets an initial notification.
+    const subscription = this.covSubscriptions.get(key);
+    if (subscription) this.sendCovNotification(subscription);
+  }
+
+  private sendSubscribeCovError(request: any, remote: string, errorClass: number, errorCode: number) {
+    this.log(`[FakeBacnet]  subscribeCOV rejected: ${errorClass}:${errorCode}`);
+    this.client?.errorResponse(
+      request.address,
+      BacnetEnums.ConfirmedServiceChoice.SUBSCRIBE_COV,
+      request.invokeId,
+      errorClass,
+      errorCode,
+    );
+    this.log(
+      `[FakeBacnet] TX errorResponse subscribeCOV to ${remote}`
+      + ` invokeId=${request.invokeId} err=${errorClass}:${errorCode}`,
+    );
+  }
+
+  private checkCovSubscriptions() {
+    if (!this.client || this.covSubscriptions.size === 0) return;
+    this.state.tick();
+
+    const now = Date.now();
+    for (const [key, subscription] of this.covSubscriptions.entries()) {
+      if (subscription.expiresAt !== null && subscription.expiresAt <= now) {
+        this.log(
+          `[FakeBacnet] COV subscription expired for ${subscription.address}`
+          + ` obj=${objectKey(subscription.objectId.type, subscription.objectId.instance)}`,
+        );
+        this.covSubscriptions.delete(key);
+        continue;
+      }
+
+      const read = this.state.readPresentValue(
+        subscription.objectId.type,
+        subscription.objectId.instance,
+        PROPERTY_ID.PRESENT_VALUE,
+      );
+      if (!read.ok) continue;
+      const previous = subscription.lastNotifiedValue;
+      const increment = read.value.point.kind === 'real' ? COV_REAL_INCREMENT : 0;
+      if (previous !== undefined && Math.abs(read.value.value - previous) <= increment) continue;
+      this.sendCovNotification(subscription);
+    }
+  }
+
+  private sendCovNotification(subscription: CovSubscription) {
+    if (!this.client) return;
+
+    const presentValue = this.readPropertyValue(subscription.objectId, PROPERTY_ID.PRESENT_VALUE);
+    const statusFlags = this.readPropertyValue(subscription.objectId, PROPERTY_ID.STATUS_FLAGS);
+    if (!presentValue.ok || !statusFlags.ok) return;
+
+    const numericValue = Number(presentValue.values[0]?.value);
+    subscription.lastNotifiedValue = Number.isFinite(numericValue) ? numericValue : undefined;
+    const timeRemaining = subscription.expiresAt === null
+      ? 0
+      : Math.max(0, Math.round((subscription.expiresAt - Date.now()) / 1000));
+
+    const packet = {
+      buffer: Buffer.alloc(1482),
+      offset: 4,
+    };
+    const confirmed = subscription.issueConfirmedNotifications;
+    Npdu.encode(
+      packet,
+      BacnetEnums.NpduControlPriority.NORMAL_MESSAGE
+      | (confirmed ? BacnetEnums.NpduControlBits.EXPECTING_REPLY : 0),
+      subscription.address,
+    );
+    let invokeId: number | undefined;
+    if (confirmed) {
+      invokeId = this.client._getInvokeId();
+      Apdu.encodeConfirmedServiceRequest(
+        packet,
+        BacnetEnums.PduTypes.CONFIRMED_REQUEST,
+        BacnetEnums.ConfirmedServiceChoice.CONFIRMED_COV_NOTIFICATION,
+        BacnetEnums.MaxSegmentsAccepted.SEGMENTS_0,
+        BacnetEnums.MaxApduLengthAccepted.OCTETS_1476,
+        invokeId,
+        0,
+        0,
+      );
+    } else {
+      Apdu.encodeUnconfirmedServiceRequest(
+        packet,
+        BacnetEnums.PduTypes.UNCONFIRMED_REQUEST,
+        BacnetEnums.UnconfirmedServiceChoice.UNCONFIRMED_COV_NOTIFICATION,
+      );
+    }
+    Services.covNotify.encode(
+      packet,
+      subscription.subscriberProcessId,
+      this.state.getIdentity().deviceId,
+      subscription.objectId,
+      timeRemaining,
+      [
+        { property: { id: PROPERTY_ID.PRESENT_VALUE }, value: presentValue.values },
+        { property: { id: PROPERTY_ID.STATUS_FLAGS }, value: statusFlags.values },
+      ],
+    );
+    Bvlc.encode(packet.buffer, BacnetEnums.BvlcResultPurpose.ORIGINAL_UNICAST_NPDU, packet.offset);
+
+    if (invokeId !== undefined) {
+      this.client._addCallback(invokeId, (err: unknown) => {
+        if (err) this.log(`[FakeBacnet] COV notification to ${subscription.address} not acknowledged: ${String(err)}`);
+      });
+    }
+    this.client._transport.send(packet.buffer, packet.offset, subscription.address);
+    this.log(
+      `[FakeBacnet] TX ${confirmed ? 'confirmed' : 'unconfirmed'} COV notification to ${subscription.address}`
+      + ` obj=${objectTypeName(subscription.objectId.type)}:${subscription.objectId.instance}`
+      + ` value=${this.formatLogValue(presentValue.values[0]?.value)}`,
+    );
   }
 
   private buildReadAccessResult(spec: any) {
@@ -1122,26 +1437,7 @@ export class FakeBacnetServer {
 
   private engineeringUnitsForPoint(units?: string): number | null {
     if (!units) return null;
-    switch (units) {
-      case 'degC':
-        return BacnetEnums.EngineeringUnits.DEGREES_CELSIUS;
-      case '%':
-        return BacnetEnums.EngineeringUnits.PERCENT;
-      case 'rpm':
-        return BacnetEnums.EngineeringUnits.REVOLUTIONS_PER_MINUTE;
-      case 'Pa':
-        return BacnetEnums.EngineeringUnits.PASCALS;
-      case 'min':
-        return BacnetEnums.EngineeringUnits.MINUTES;
-      case 'h':
-        return BacnetEnums.EngineeringUnits.HOURS;
-      case 'kW':
-        return BacnetEnums.EngineeringUnits.KILOWATTS;
-      case 'ppm':
-        return BacnetEnums.EngineeringUnits.PARTS_PER_MILLION;
-      default:
-        return null;
-    }
+    return ENGINEERING_UNITS_BY_LABEL[units] ?? null;
   }
 
   private readPropertyValue(
@@ -1527,6 +1823,7 @@ export class FakeBacnetServer {
           BacnetEnums.ServicesSupported.READ_PROPERTY_MULTIPLE,
           BacnetEnums.ServicesSupported.WRITE_PROPERTY,
           BacnetEnums.ServicesSupported.WRITE_PROPERTY_MULTIPLE,
+          BacnetEnums.ServicesSupported.SUBSCRIBE_COV,
           BacnetEnums.ServicesSupported.UNCONFIRMED_PRIVATE_TRANSFER,
         ];
         const bitsUsed = Math.max(...supported) + 1;
@@ -0,0 +1,133 @@
+import dgram from 'dgram';
+
+const BVLL_TYPE_BACNET_IP = 0x81;
+const BVLC_RESULT = 0x00;
+const BVLC_FORWARDED_NPDU = 0x04;
+const BVLC_REGISTER_FOREIGN_DEVICE = 0x05;
+const BVLC_DISTRIBUTE_BROADCAST_TO_NETWORK = 0x09;
+const BVLC_ORIGINAL_BROADCAST_NPDU = 0x0B;
+const BVLC_RESULT_SUCCESSFUL_COMPLETION = 0x0000;
+const BVLC_RESULT_REGISTER_FOREIGN_DEVICE_NAK = 0x0030;
+const BVLC_RESULT_DISTRIBUTE_BROADCAST_TO_NETWORK_NAK = 0x0060;
+// Annex J.5.2.3: a BBMD keeps foreign devices 30 s past their TTL.
+const FOREIGN_DEVICE_GRACE_SECONDS = 30;
+
+// The subset of the fake BACnet server options the BBMD role uses.
+export interface FakeBbmdOptions {
+  port: number;
+  bindAddress?: string;
+  advertiseAddress?: string;
+  logTraffic?: boolean;
+  bbmd?: { rejectRegistrations?: boolean };
+}
+
+interface ForeignDeviceEntry {
+  address: string;
+  port: number;
+  expiresAt: number;
+}
+
+/**
+ * Minimal BBMD role for the fake unit: keeps a foreign device table, runs broadcasts
+ * the foreign devices distribute through it, and forwards the unit's own broadcasts
+ * (e.g. I-Am) to them. There is no broadcast distribution table; the unit is the only peer.
+ */
+export class FakeBbmd {
+  private readonly options: FakeBbmdOptions;
+
+  private readonly foreignDevices = new Map<string, ForeignDeviceEntry>();
+
+  // Hooks into the fake unit's bacstack client and its UDP socket.
+  constructor(client: any, socket: dgram.Socket, options: FakeBbmdOptions) {
+    this.options = options;
+    socket.on('message', (message, rinfo) => this.handleMessage(message, rinfo, client, socket));
+    this.forwardBroadcasts(client, socket);
+  }
+
+  getForeignDeviceCount(): number {
+    this.pruneForeignDevices();
+    return this.foreignDevices.size;
+  }
+
+  // Wraps the bacstack transport so broadcasts also reach the registered foreign devices.
+  private forwardBroadcasts(client: any, socket: dgram.Socket) {
+    const transport = client._transport;
+    const send = transport.send.bind(transport);
+    transport.send = (buffer: Buffer, offset: number, receiver: string) => {
+      send(buffer, offset, receiver);
+      if (receiver === transport.getBroadcastAddress()) this.forward(buffer.subarray(4, offset), socket);
+    };
+  }
+
+  // bacstack drops these BVLC functions, so they are handled here alongside it.
+  private handleMessage(message: Buffer, rinfo: dgram.RemoteInfo, client: any, socket: dgram.Socket) {
+    if (message.length < 4 || message[0] !== BVLL_TYPE_BACNET_IP) return;
+
+    if (message[1] === BVLC_REGISTER_FOREIGN_DEVICE && message.length >= 6) {
+      const ttlSeconds = message.readUInt16BE(4);
+      const rejected = this.options.bbmd?.rejectRegistrations === true;
+      if (!rejected) {
+        this.foreignDevices.set(`${rinfo.address}:${rinfo.port}`, {
+          address: rinfo.address,
+          port: rinfo.port,
+          expiresAt: Date.now() + (ttlSeconds + FOREIGN_DEVICE_GRACE_SECONDS) * 1000,
+        });
+      }
+      sendBvlcResult(
+        socket,
+        rejected ? BVLC_RESULT_REGISTER_FOREIGN_DEVICE_NAK : BVLC_RESULT_SUCCESSFUL_COMPLETION,
+        rinfo,
+      );
+      this.log(
+        `[FakeBbmd] RX register foreign device from ${rinfo.address}:${rinfo.port}`
+        + ` ttl=${ttlSeconds}s ${rejected ? 'rejected' : 'accepted'}`,
+      );
+      return;
+    }
+
+    if (message[1] === BVLC_DISTRIBUTE_BROADCAST_TO_NETWORK) {
+      this.pruneForeignDevices();
+      if (!this.foreignDevices.has(`${rinfo.address}:${rinfo.port}`)) {
+        sendBvlcResult(socket, BVLC_RESULT_DISTRIBUTE_BROADCAST_TO_NETWORK_NAK, rinfo);
+        return;
+      }
+      // Handle the request as if it had been broadcast on this network.
+      const local = Buffer.from(message);
+      local[1] = BVLC_ORIGINAL_BROADCAST_NPDU;
+      client._receiveData(local, rinfo.address);
+    }
+  }
+
+  private forward(npdu: Buffer, socket: dgram.Socket) {
+    this.pruneForeignDevices();
+    // Forwarded frames name the fake unit as their origin.
+    const { port } = this.options;
+    const origin = this.options.advertiseAddress ?? this.options.bindAddress ?? '127.0.0.1';
+    const header = Buffer.from([
+      BVLL_TYPE_BACNET_IP, BVLC_FORWARDED_NPDU, 0x00, 0x00,
+      ...origin.split('.').map(Number), port >> 8, port & 0xFF,
+    ]);
+    const frame = Buffer.concat([header, npdu]);
+    frame.writeUInt16BE(frame.length, 2);
+    for (const device of this.foreignDevices.values()) {
+      socket.send(frame, device.port, device.address);
+    }
+  }
+
+  private log(message: string) {
+    if (this.options.logTraffic === false) return;
+    console.log(message);
+  }
+
+  private pruneForeignDevices() {
+    const now = Date.now();
+    for (const [key, device] of this.foreignDevices) {
+      if (device.expiresAt <= now) this.foreignDevices.delete(key);
+    }
+  }
+}
+
+function sendBvlcResult(socket: dgram.Socket, resultCode: number, rinfo: dgram.RemoteInfo) {
+  const result = Buffer.from([BVLL_TYPE_BACNET_IP, BVLC_RESULT, 0x00, 0x06, resultCode >> 8, resultCode & 0xFF]);
+  socket.send(result, rinfo.port, rinfo.address);
+}
@@ -128,7 +128,7 @@ function buildDiscoveryReply(options: DiscoveryResponderOptions): Buffer {
   return Buffer.from(fields.join(' '), 'ascii');
 }
 
-function buildStructuredDiscoveryReply(options: DiscoveryResponderOptions, requestMessage: Buffer): Buffer {
+export function buildStructuredDiscoveryReply(options: DiscoveryResponderOptions, requestMessage: Buffer): Buffer {
   const discoveryClientToken = extractDiscoveryClientToken(requestMessage);
   const discoveryPlatformCode = options.discoveryPlatformCode ?? DEFAULT_DISCOVERY_PLATFORM_CODE;
   const discoveryPlatformVersion = options.discoveryPlatformVersion ?? DEFAULT_DISCOVERY_PLATFORM_VERSION;
@@ -1,4 +1,6 @@
+/* eslint-disable max-lines */
 import { createRequire } from 'module';
+import { getCatalogPoint } from '../../lib/flexitPointCatalog';
 
 const require = createRequire(import.meta.url);
 const Bacnet = require('bacstack');
@@ -54,9 +56,12 @@ function point(
     requiresPriority13?: boolean;
   },
 ): SupportedPoint {
+  const type = objectType(typeName);
+  // Engineering units come from the point catalog; opts.units only covers undocumented points.
+  const documented = getCatalogPoint(pointKey(type, instance));
   return {
     key,
-    type: objectType(typeName),
+    type,
     instance,
     kind,
     access,
@@ -64,7 +69,7 @@ function point(
     description,
     min: opts?.min,
     max: opts?.max,
-    units: opts?.units,
+    units: documented?.units ?? opts?.units,
     requiresPriority13: opts?.requiresPriority13,
     name: key,
   };
@@ -129,7 +134,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'RW',
     'observed',
     'Additional heating neutral-zone delta HOME',
-    { units: 'degC' },
   ),
   point(
     'setpoint_away',
@@ -142,7 +146,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 10,
       max: 30,
-      units: 'degC',
       requiresPriority13: true,
     },
   ),
@@ -154,7 +157,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'RW',
     'observed',
     'Additional heating neutral-zone delta AWAY',
-    { units: 'degC' },
   ),
   point(
     'setpoint_home',
@@ -167,7 +169,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 10,
       max: 30,
-      units: 'degC',
       requiresPriority13: true,
     },
   ),
@@ -179,7 +180,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Remaining time of fireplace ventilation',
-    { min: 0, max: 360, units: 'min' },
+    { min: 0, max: 360 },
   ),
   point(
     'remaining_rapid',
@@ -189,7 +190,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Remaining time of rapid ventilation',
-    { min: 0, max: 360, units: 'min' },
+    { min: 0, max: 360 },
   ),
   point(
     'runtime_fireplace',
@@ -199,7 +200,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'RW',
     'xlsx',
     'Fireplace ventilation runtime',
-    { min: 1, max: 360, units: 'min' },
+    { min: 1, max: 360 },
   ),
   point(
     'runtime_rapid',
@@ -209,7 +210,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'RW',
     'xlsx',
     'Rapid ventilation runtime',
-    { min: 1, max: 360, units: 'min' },
+    { min: 1, max: 360 },
   ),
   point(
     'trigger_fireplace',
@@ -249,7 +250,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'RW',
     'xlsx',
     'Away delay timer duration',
-    { min: 0, max: 600, units: 'min' },
+    { min: 0, max: 600 },
   ),
   point(
     'fan_rpm_extract',
@@ -259,7 +260,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Exhaust air fan speed feedback',
-    { min: 0, max: 18000, units: 'rpm' },
+    { min: 0, max: 18000 },
   ),
   point(
     'fan_rpm_supply',
@@ -269,7 +270,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Supply air fan speed feedback',
-    { min: 0, max: 18000, units: 'rpm' },
+    { min: 0, max: 18000 },
   ),
   point(
     'dehumidification_request_by_slope',
@@ -289,7 +290,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'observed',
     'Humidity present fan control',
-    { min: 0, max: 100, units: '%' },
+    { min: 0, max: 100 },
   ),
   point(
     'free_cooling_enabled',
@@ -316,7 +317,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 10,
       max: 30,
-      units: 'degC',
       requiresPriority13: true,
     },
   ),
@@ -331,7 +331,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 10,
       max: 30,
-      units: 'degC',
       requiresPriority13: true,
     },
   ),
@@ -346,29 +345,48 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 0,
       max: 18000,
-      units: 'sec',
       requiresPriority13: true,
     },
   ),
   point(
-    'extract_pressure',
+    'fan_pressure_extract',
     'ANALOG_INPUT',
     72,
     'real',
     'R',
     'xlsx',
-    'Extract air pressure',
-    { min: -3000, max: 3000, units: 'Pa' },
+    'Air flow, pressure exhaust fan',
+    { min: -3000, max: 3000 },
   ),
   point(
-    'supply_pressure',
+    'fan_pressure_supply',
     'ANALOG_INPUT',
     73,
     'real',
     'R',
     'xlsx',
+    'Air flow, pressure supply fan',
+    { min: -3000, max: 3000 },
+  ),
+  point(
+    'duct_pressure_extract',
+    'ANALOG_INPUT',
+    78,
+    'real',
+    'R',
+    'xlsx',
+    'Extract air pressure',
+    { min: -3000, max: 3000 },
+  ),
+  point(
+    'duct_pressure_supply',
+    'ANALOG_INPUT',
+    79,
+    'real',
+    'R',
+    'xlsx',
     'Supply air pressure',
-    { min: -3000, max: 3000, units: 'Pa' },
+    { min: -3000, max: 3000 },
   ),
   point(
     'temp_exhaust',
@@ -378,7 +396,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Exhaust air temperature',
-    { min: -50, max: 80, units: 'degC' },
+    { min: -50, max: 80 },
   ),
   point(
     'temp_extract_doc',
@@ -408,7 +426,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Outside air temperature',
-    { min: -50, max: 50, units: 'degC' },
+    { min: -50, max: 50 },
   ),
   point(
     'temp_room',
@@ -418,7 +436,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Room temperature',
-    { min: 0, max: 50, units: 'degC' },
+    { min: 0, max: 50 },
   ),
   point(
     'humidity_room_1',
@@ -428,7 +446,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Room air humidity 1',
-    { min: 0, max: 100, units: '%' },
+    { min: 0, max: 100 },
   ),
   point(
     'humidity_room_2',
@@ -438,7 +456,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Room air humidity 2',
-    { min: 0, max: 100, units: '%' },
+    { min: 0, max: 100 },
   ),
   point(
     'humidity_room_3',
@@ -448,7 +466,107 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Room air humidity 3',
-    { min: 0, max: 100, units: '%' },
+    { min: 0, max: 100 },
+  ),
+  point(
+    'humidity_room_vmsh_1',
+    'ANALOG_INPUT',
+    84,
+    'real',
+    'R',
+    'xlsx',
+    'Room air humidity VMSH 1',
+    { min: 0, max: 100 },
+  ),
+  point(
+    'humidity_room_vmsh_2',
+    'ANALOG_INPUT',
+    87,
+    'real',
+    'R',
+    'xlsx',
+    'Room air humidity VMSH 2',
+    { min: 0, max: 100 },
+  ),
+  point(
+    'humidity_room_vmsh_3',
+    'ANALOG_INPUT',
+    90,
+    'real',
+    'R',
+    'xlsx',
+    'Room air humidity VMSH 3',
+    { min: 0, max: 100 },
+  ),
+  point(
+    'rf_device_1_state',
+    'MULTI_STATE_VALUE',
+    369,
+    'enum',
+    'R',
+    'xlsx',
+    'RF device 1 connection state',
+    { min: 1, max: 2 },
+  ),
+  point(
+    'rf_device_2_state',
+    'MULTI_STATE_VALUE',
+    370,
+    'enum',
+    'R',
+    'xlsx',
+    'RF device 2 connection state',
+    { min: 1, max: 2 },
+  ),
+  point(
+    'rf_device_3_state',
+    'MULTI_STATE_VALUE',
+    371,
+    'enum',
+    'R',
+    'xlsx',
+    'RF device 3 connection state',
+    { min: 1, max: 2 },
+  ),
+  point(
+    'rf_device_4_state',
+    'MULTI_STATE_VALUE',
+    372,
+    'enum',
+    'R',
+    'xlsx',
+    'RF device 4 connection state',
+    { min: 1, max: 2 },
+  ),
+  point(
+    'rf_device_5_state',
+    'MULTI_STATE_VALUE',
+    373,
+    'enum',
+    'R',
+    'xlsx',
+    'RF device 5 connection state',
+    { min: 1, max: 2 },
+  ),
+  point(
+    'rf_device_6_state',
+    'MULTI_STATE_VALUE',
+    374,
+    'enum',
+    'R',
+    'xlsx',
+    'RF device 6 connection state',
+    { min: 1, max: 2 },
+  ),
+  point(
+    'rf_device_7_state',
+    'MULTI_STATE_VALUE',
+    375,
+    'enum',
+    'R',
+    'xlsx',
+    'RF device 7 connection state',
+    { min: 1, max: 2 },
   ),
   point(
     'air_quality_input',
@@ -468,7 +586,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Supply air temperature',
-    { min: -50, max: 80, units: 'degC' },
+    { min: -50, max: 80 },
   ),
   point(
     'fan_speed_extract_percent',
@@ -478,7 +596,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Exhaust air fan speed',
-    { min: 0, max: 100, units: '%' },
+    { min: 0, max: 100 },
   ),
   point(
     'fan_speed_supply_percent',
@@ -488,7 +606,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Supply air fan speed',
-    { min: 0, max: 100, units: '%' },
+    { min: 0, max: 100 },
   ),
   point(
     'fan_profile_supply_high',
@@ -501,7 +619,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 80,
       max: 100,
-      units: '%',
       requiresPriority13: true,
     },
   ),
@@ -516,7 +633,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 56,
       max: 100,
-      units: '%',
       requiresPriority13: true,
     },
   ),
@@ -531,7 +647,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 30,
       max: 80,
-      units: '%',
       requiresPriority13: true,
     },
   ),
@@ -546,7 +661,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 30,
       max: 100,
-      units: '%',
       requiresPriority13: true,
     },
   ),
@@ -561,7 +675,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 30,
       max: 100,
-      units: '%',
       requiresPriority13: true,
     },
   ),
@@ -576,7 +689,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 79,
       max: 100,
-      units: '%',
       requiresPriority13: true,
     },
   ),
@@ -591,7 +703,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 55,
       max: 99,
-      units: '%',
       requiresPriority13: true,
     },
   ),
@@ -606,7 +717,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 30,
       max: 79,
-      units: '%',
       requiresPriority13: true,
     },
   ),
@@ -621,7 +731,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 30,
       max: 100,
-      units: '%',
       requiresPriority13: true,
     },
   ),
@@ -636,7 +745,6 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     {
       min: 30,
       max: 100,
-      units: '%',
       requiresPriority13: true,
     },
   ),
@@ -648,7 +756,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Heating coil electric position',
-    { min: 0, max: 100, units: '%' },
+    { min: 0, max: 100 },
   ),
   point(
     'heater_valve_position_percent',
@@ -668,7 +776,147 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Rotary heat exchanger speed',
-    { min: 0, max: 100, units: '%' },
+    { min: 0, max: 100 },
+  ),
+  point(
+    'rotor_efficiency',
+    'ANALOG_VALUE',
+    2023,
+    'real',
+    'R',
+    'xlsx',
+    'Rotary heat exchanger efficiency',
+    { min: 0, max: 100 },
+  ),
+  point(
+    'rotor_speed_feedback',
+    'ANALOG_VALUE',
+    2293,
+    'real',
+    'R',
+    'xlsx',
+    'Rotary heat exchanger speed feedback',
+    { min: 0, max: 100 },
+  ),
+  point(
+    'rotor_motor_failure_count',
+    'ANALOG_VALUE',
+    2294,
+    'real',
+    'R',
+    'xlsx',
+    'Rotary heat exchanger motor failure count',
+    { min: 0, max: 65535 },
+  ),
+  point(
+    'rotor_motor_stuck',
+    'BINARY_VALUE',
+    512,
+    'enum',
+    'R',
+    'xlsx',
+    'Rotary heat exchanger motor stuck alarm',
+    { min: 0, max: 1 },
+  ),
+  point(
+    'rotor_belt_broken',
+    'BINARY_VALUE',
+    513,
+    'enum',
+    'R',
+    'xlsx',
+    'Rotary heat exchanger belt broken alarm',
+    { min: 0, max: 1 },
+  ),
+  point(
+    'rotor_deicing_speed',
+    'ANALOG_VALUE',
+    1852,
+    'real',
+    'R',
+    'xlsx',
+    'De-icing rotor speed',
+    { min: 0, max: 100 },
+  ),
+  point(
+    'operating_time_total',
+    'ANALOG_VALUE',
+    1847,
+    'real',
+    'R',
+    'xlsx',
+    'Total operating time',
+    { min: 0, max: 1000000 },
+  ),
+  point(
+    'operating_time_stop',
+    'ANALOG_VALUE',
+    1913,
+    'real',
+    'R',
+    'xlsx',
+    'Operating time in Stop',
+    { min: 0, max: 1000000 },
+  ),
+  point(
+    'operating_time_away',
+    'ANALOG_VALUE',
+    1914,
+    'real',
+    'R',
+    'xlsx',
+    'Operating time in Away',
+    { min: 0, max: 1000000 },
+  ),
+  point(
+    'operating_time_home',
+    'ANALOG_VALUE',
+    1915,
+    'real',
+    'R',
+    'xlsx',
+    'Operating time in Home',
+    { min: 0, max: 1000000 },
+  ),
+  point(
+    'operating_time_high',
+    'ANALOG_VALUE',
+    1916,
+    'real',
+    'R',
+    'xlsx',
+    'Operating time in High',
+    { min: 0, max: 1000000 },
+  ),
+  point(
+    'operating_time_fireplace',
+    'ANALOG_VALUE',
+    1814,
+    'real',
+    'R',
+    'xlsx',
+    'Operating time in Fireplace',
+    { min: 0, max: 1000000 },
+  ),
+  point(
+    'operating_time_cooker',
+    'ANALOG_VALUE',
+    1820,
+    'real',
+    'R',
+    'xlsx',
+    'Operating time in Cooker hood',
+    { min: 0, max: 1000000 },
+  ),
+  point(
+    'operating_time_heater',
+    'ANALOG_VALUE',
+    1879,
+    'real',
+    'R',
+    'xlsx',
+    'Electric heater operating time',
+    { min: 0, max: 1000000 },
   ),
   point(
     'filter_operating_time',
@@ -678,7 +926,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'xlsx',
     'Operating time filter',
-    { min: 0, max: 99999, units: 'h' },
+    { min: 0, max: 99999 },
   ),
   point(
     'filter_exchange_limit',
@@ -688,7 +936,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'RW',
     'xlsx',
     'Operating time for filter replacement',
-    { min: 1, max: 99990, units: 'h' },
+    { min: 1, max: 99990 },
   ),
   point(
     'filter_replace_timer_reset',
@@ -720,7 +968,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'observed',
     'Extract air temperature (observed)',
-    { min: -50, max: 80, units: 'degC' },
+    { min: -50, max: 80 },
   ),
   point(
     'humidity_extract',
@@ -730,7 +978,105 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'observed',
     'Relative humidity for extract air (observed)',
-    { min: 0, max: 100, units: '%' },
+    { min: 0, max: 100 },
+  ),
+  point(
+    'humidity_setpoint_high',
+    'ANALOG_VALUE',
+    61,
+    'real',
+    'RW',
+    'observed',
+    'Humidity, setpoint HIGH',
+    {
+      min: 0,
+      max: 100,
+      requiresPriority13: true,
+    },
+  ),
+  point(
+    'heating_neutral_zone_home',
+    'ANALOG_VALUE',
+    1921,
+    'real',
+    'RW',
+    'xlsx',
+    'Air temp., delta setpoint heating HOME',
+    {
+      min: 0,
+      max: 10,
+      requiresPriority13: true,
+    },
+  ),
+  point(
+    'heating_neutral_zone_away',
+    'ANALOG_VALUE',
+    1987,
+    'real',
+    'RW',
+    'xlsx',
+    'Air temp., delta setpoint heating AWAY',
+    {
+      min: 0,
+      max: 10,
+      requiresPriority13: true,
+    },
+  ),
+  point(
+    'cooling_neutral_zone_home',
+    'ANALOG_VALUE',
+    1926,
+    'real',
+    'RW',
+    'xlsx',
+    'Air temp., delta setpoint cooling HOME',
+    {
+      min: 0,
+      max: 10,
+      requiresPriority13: true,
+    },
+  ),
+  point(
+    'cooling_neutral_zone_away',
+    'ANALOG_VALUE',
+    1992,
+    'real',
+    'RW',
+    'xlsx',
+    'Air temp., delta setpoint cooling AWAY',
+    {
+      min: 0,
+      max: 10,
+      requiresPriority13: true,
+    },
+  ),
+  point(
+    'humidity_setpoint_home',
+    'ANALOG_VALUE',
+    62,
+    'real',
+    'RW',
+    'observed',
+    'Humidity, setpoint HOME',
+    {
+      min: 0,
+      max: 100,
+      requiresPriority13: true,
+    },
+  ),
+  point(
+    'humidity_setpoint_away',
+    'ANALOG_VALUE',
+    63,
+    'real',
+    'RW',
+    'observed',
+    'Humidity, setpoint AWAY',
+    {
+      min: 0,
+      max: 100,
+      requiresPriority13: true,
+    },
   ),
   point(
     'heater_power_kw',
@@ -740,7 +1086,7 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'R',
     'observed',
     'Heating coil electric power',
-    { min: 0, max: 10, units: 'kW' },
+    { min: 0, max: 10 },
   ),
   point(
     'rapid_active',
@@ -802,12 +1148,89 @@ export const SUPPORTED_POINTS: SupportedPoint[] = [
     'Cooker hood active',
     { min: 0, max: 1, requiresPriority13: true },
   ),
+  point(
+    'present_alarm_code_a',
+    'ANALOG_VALUE',
+    1794,
+    'real',
+    'R',
+    'xlsx',
+    'Present A-Alarm code',
+    { min: 0, max: 9999 },
+  ),
+  point(
+    'present_alarm_code_b',
+    'ANALOG_VALUE',
+    1846,
+    'real',
+    'R',
+    'xlsx',
+    'Present B-Alarm code',
+    { min: 0, max: 9999 },
+  ),
+  point(
+    'alarm_list_displayed_count',
+    'ANALOG_VALUE',
+    2025,
+    'real',
+    'R',
+    'xlsx',
+    'Alarm, no of displayed alarms in list',
+    { min: 0, max: 100 },
+  ),
+  point(
+    'alarm_list_count',
+    'ANALOG_VALUE',
+    2026,
+    'real',
+    'R',
+    'xlsx',
+    'Alarm, no of alarms in list',
+    { min: 0, max: 100 },
+  ),
+  point(
+    'alarm_fault_acknowledge',
+    'MULTI_STATE_VALUE',
+    346,
+    'enum',
+    'RW',
+    'xlsx',
+    'Fault acknowledgement input',
+    { min: 1, max: 2 },
+  ),
+  point(
+    'alarm_maintenance_acknowledge',
+    'MULTI_STATE_VALUE',
+    348,
+    'enum',
+    'RW',
+    'xlsx',
+    'Maintenance acknowledgement input',
+    { min: 1, max: 2 },
+  ),
 ];
 
 const dedup = new Map<string, SupportedPoint>();
 for (const pointDef of SUPPORTED_POINTS) dedup.set(pointKey(pointDef.type, pointDef.instance), pointDef);
 export const POINTS_BY_OBJECT = dedup;
 
+export interface SupportedSchedule {
+  key: string;
+  instance: number;
+  description: string;
+}
+
+// SCHEDULE objects keep their weekly/exception programs as constructed values,
+// so they are modelled separately from the present-value points above.
+export const SUPPORTED_SCHEDULES: SupportedSchedule[] = [
+  { key: 'scheduler', instance: 4, description: 'Scheduler' },
+  { key: 'operating_mode_scheduler', instance: 5, description: 'Operating mode scheduler' },
+];
+export const SCHEDULE_PROPERTY_IDS = [
+  PROPERTY_ID.WEEKLY_SCHEDULE,
+  PROPERTY_ID.EXCEPTION_SCHEDULE,
+] as number[];
+
 export const DEFAULT_VENDOR_ID = 783;
 export const DEFAULT_VENDOR_NAME = 'Flexit';
 export const DEFAULT_DEVICE_NAME = 'HvacFnct21y_A';
@@ -897,6 +1320,8 @@ export const DEFAULT_POINT_VALUES: Record<string, number> = {
   [key('POSITIVE_INTEGER_VALUE', 296)]: 600,
   [key('ANALOG_INPUT', 72)]: 0,
   [key('ANALOG_INPUT', 73)]: 0,
+  [key('ANALOG_INPUT', 78)]: 0,
+  [key('ANALOG_INPUT', 79)]: 0,
   [key('ANALOG_INPUT', 11)]: 17,
   [key('ANALOG_INPUT', 59)]: 21,
   [key('ANALOG_INPUT', 31)]: 5,
@@ -905,6 +1330,16 @@ export const DEFAULT_POINT_VALUES: Record<string, number> = {
   [key('ANALOG_VALUE', 2093)]: 35,
   [key('ANALOG_VALUE', 2094)]: 36,
   [key('ANALOG_VALUE', 2095)]: 37,
+  [key('ANALOG_INPUT', 84)]: 0,
+  [key('ANALOG_INPUT', 87)]: 0,
+  [key('ANALOG_INPUT', 90)]: 0,
+  [key('MULTI_STATE_VALUE', 369)]: 2,
+  [key('MULTI_STATE_VALUE', 370)]: 1,
+  [key('MULTI_STATE_VALUE', 371)]: 1,
+  [key('MULTI_STATE_VALUE', 372)]: 1,
+  [key('MULTI_STATE_VALUE', 373)]: 1,
+  [key('MULTI_STATE_VALUE', 374)]: 1,
+  [key('MULTI_STATE_VALUE', 375)]: 1,
   [key('ANALOG_INPUT', 50)]: 700,
   [key('ANALOG_INPUT', 4)]: 19.5,
   [key('ANALOG_OUTPUT', 4)]: 79,
@@ -922,12 +1357,33 @@ export const DEFAULT_POINT_VALUES: Record<string, number> = {
   [key('ANALOG_OUTPUT', 29)]: 30,
   [key('ANALOG_OUTPUT', 12)]: 0,
   [key('ANALOG_OUTPUT', 0)]: 55,
+  [key('ANALOG_VALUE', 2023)]: 74,
+  [key('ANALOG_VALUE', 2293)]: 55,
+  [key('ANALOG_VALUE', 2294)]: 0,
+  [key('BINARY_VALUE', 512)]: 0,
+  [key('BINARY_VALUE', 513)]: 0,
+  [key('ANALOG_VALUE', 1852)]: 10,
+  [key('ANALOG_VALUE', 1847)]: 12836,
+  [key('ANALOG_VALUE', 1913)]: 0,
+  [key('ANALOG_VALUE', 1914)]: 2028,
+  [key('ANALOG_VALUE', 1915)]: 10764,
+  [key('ANALOG_VALUE', 1916)]: 16,
+  [key('ANALOG_VALUE', 1814)]: 3,
+  [key('ANALOG_VALUE', 1820)]: 25,
+  [key('ANALOG_VALUE', 1879)]: 2328,
   [key('ANALOG_VALUE', 285)]: 1200,
   [key('ANALOG_VALUE', 286)]: 4380,
   [key('MULTI_STATE_VALUE', 613)]: 1,
   [key('MULTI_STATE_VALUE', 609)]: 1,
   [key('ANALOG_INPUT', 95)]: 21,
   [key('ANALOG_INPUT', 96)]: 34,
+  [key('ANALOG_VALUE', 61)]: 100,
+  [key('ANALOG_VALUE', 62)]: 70,
+  [key('ANALOG_VALUE', 1921)]: 1,
+  [key('ANALOG_VALUE', 1987)]: 1,
+  [key('ANALOG_VALUE', 1926)]: 2,
+  [key('ANALOG_VALUE', 1992)]: 6,
+  [key('ANALOG_VALUE', 63)]: 80,
   [key('ANALOG_VALUE', 194)]: 0.3,
   [key('BINARY_VALUE', 15)]: 0,
   [key('BINARY_VALUE', 400)]: 0,
@@ -935,6 +1391,12 @@ export const DEFAULT_POINT_VALUES: Record<string, number> = {
   [key('ANALOG_VALUE', 2125)]: MODE_RF_VALUES.home,
   [key('BINARY_VALUE', 574)]: 0,
   [key('BINARY_VALUE', 402)]: 0,
+  [key('ANALOG_VALUE', 1794)]: 0,
+  [key('ANALOG_VALUE', 1846)]: 0,
+  [key('ANALOG_VALUE', 2025)]: 0,
+  [key('ANALOG_VALUE', 2026)]: 0,
+  [key('MULTI_STATE_VALUE', 346)]: 1,
+  [key('MULTI_STATE_VALUE', 348)]: 1,
 };
 
 export interface DevicePropertyDefinition {
@@ -0,0 +1,188 @@
+import { createRequire } from 'module';
+
+import { BacnetObjectId, OBJECT_TYPE, PROPERTY_ID } from './manifest';
+
+const require = createRequire(import.meta.url);
+const Bacnet = require('bacstack');
+const Asn1 = require('bacstack/lib/asn1');
+const Bvlc = require('bacstack/lib/bvlc');
+const Npdu = require('bacstack/lib/npdu');
+const Apdu = require('bacstack/lib/apdu');
+
+const BacnetEnums = Bacnet.enum;
+
+const DAYS_PER_WEEK = 7;
+const APPLICATION_BOOLEAN_TAG = 1;
+
+// Seven empty BACnetDailySchedule entries: [0] { } repeated Monday..Sunday.
+export const EMPTY_WEEKLY_SCHEDULE = Buffer.from(
+  Array.from({ length: DAYS_PER_WEEK }, () => [0x0e, 0x0f]).flat(),
+);
+export const EMPTY_EXCEPTION_SCHEDULE = Buffer.alloc(0);
+
+interface TagHeader {
+  tagNumber: number;
+  context: boolean;
+  opening: boolean;
+  closing: boolean;
+  length: number;
+  headerLength: number;
+}
+
+function readTagHeader(buffer: Buffer, offset: number): TagHeader | null {
+  if (offset >= buffer.length) return null;
+  const first = buffer[offset];
+  let headerLength = 1;
+  let tagNumber = first >> 4;
+  if (tagNumber === 0x0f) {
+    tagNumber = buffer[offset + headerLength];
+    headerLength += 1;
+  }
+  const context = (first & 0x08) !== 0;
+  const lvt = first & 0x07;
+  if (context && (lvt === 6 || lvt === 7)) {
+    return {
+      tagNumber, context, opening: lvt === 6, closing: lvt === 7, length: 0, headerLength,
+    };
+  }
+
+  let length = lvt;
+  if (!context && tagNumber === APPLICATION_BOOLEAN_TAG) {
+    length = 0;
+  } else if (lvt === 5) {
+    length = buffer[offset + headerLength];
+    headerLength += 1;
+    if (length === 254) {
+      length = buffer.readUInt16BE(offset + headerLength);
+      headerLength += 2;
+    } else if (length === 255) {
+      length = buffer.readUInt32BE(offset + headerLength);
+      headerLength += 4;
+    }
+  }
+  if (offset + headerLength + length > buffer.length) return null;
+  return {
+    tagNumber, context, opening: false, closing: false, length, headerLength,
+  };
+}
+
+/**
+ * Walks a constructed property value and returns the number of top-level
+ * elements, or null when the tags are truncated or unbalanced.
+ */
+function countTopLevelElements(value: Buffer): number | null {
+  let offset = 0;
+  let depth = 0;
+  let count = 0;
+  while (offset < value.length) {
+    const tag = readTagHeader(value, offset);
+    if (!tag) return null;
+    if (tag.opening) {
+      if (depth === 0) count += 1;
+      depth += 1;
+    } else if (tag.closing) {
+      depth -= 1;
+      if (depth < 0) return null;
+    } else if (depth === 0) {
+      count += 1;
+    }
+    offset += tag.headerLength + tag.length;
+  }
+  return depth === 0 ? count : null;
+}
+
+/** Returns an error message when a written schedule property value is malformed. */
+export function validateScheduleValue(propertyId: number, value: Buffer): string | null {
+  const elements = countTopLevelElements(value);
+  if (elements === null) return 'Malformed schedule value';
+  if (propertyId === PROPERTY_ID.WEEKLY_SCHEDULE && elements !== DAYS_PER_WEEK) {
+    return `Weekly schedule must contain ${DAYS_PER_WEEK} days, got ${elements}`;
+  }
+  return null;
+}
+
+export interface ScheduleWriteRequest {
+  invokeId: number;
+  objectId: BacnetObjectId;
+  propertyId: number;
+  value: Buffer;
+}
+
+/**
+ * Decodes a confirmed WriteProperty request aimed at a SCHEDULE object.
+ * bacstack flattens constructed values when it decodes WriteProperty itself,
+ * so schedule writes are taken from the raw frame instead.
+ */
+export function decodeScheduleWriteRequest(message: Buffer): ScheduleWriteRequest | null {
+  const bvlc = Bvlc.decode(message, 0);
+  if (!bvlc) return null;
+  const npdu = Npdu.decode(message, bvlc.len);
+  if (!npdu || (npdu.funct & BacnetEnums.NpduControlBits.NETWORK_LAYER_MESSAGE)) return null;
+  let offset = bvlc.len + npdu.len;
+  if ((message[offset] & BacnetEnums.PDU_TYPE_MASK) !== BacnetEnums.PduTypes.CONFIRMED_REQUEST) return null;
+  const apdu = Apdu.decodeConfirmedServiceRequest(message, offset);
+  if (apdu.service !== BacnetEnums.ConfirmedServiceChoice.WRITE_PROPERTY) return null;
+  offset += apdu.len;
+
+  const objectTag = readTagHeader(message, offset);
+  if (!objectTag || !objectTag.context || objectTag.tagNumber !== 0) return null;
+  const { objectType: type, instance } = Asn1.decodeObjectId(message, offset + objectTag.headerLength);
+  if (type !== OBJECT_TYPE.SCHEDULE) return null;
+  offset += objectTag.headerLength + objectTag.length;
+
+  const propertyTag = readTagHeader(message, offset);
+  if (!propertyTag || !propertyTag.context || propertyTag.tagNumber !== 1) return null;
+  const propertyId = Asn1.decodeUnsigned(message, offset + propertyTag.headerLength, propertyTag.length).value;
+  offset += propertyTag.headerLength + propertyTag.length;
+
+  let tag = readTagHeader(message, offset);
+  if (tag && tag.context && tag.tagNumber === 2 && !tag.opening) {
+    offset += tag.headerLength + tag.length;
+    tag = readTagHeader(message, offset);
+  }
+  if (!tag || !tag.opening || tag.tagNumber !== 3) return null;
+  offset += tag.headerLength;
+  const start = offset;
+  let depth = 0;
+  for (;;) {
+    tag = readTagHeader(message, offset);
+    if (!tag) return null;
+    if (tag.closing && depth === 0) break;
+    if (tag.opening) depth += 1;
+    if (tag.closing) depth -= 1;
+    offset += tag.headerLength + tag.length;
+  }
+
+  return {
+    invokeId: apdu.invokeId,
+    objectId: { type, instance },
+    propertyId,
+    value: Buffer.from(message.subarray(start, offset)),
+  };
+}
+
+/** Answers a ReadProperty request with a raw constructed schedule value. */
+export function sendScheduleReadResponse(
+  client: any,
+  request: { address: string; invokeId: number },
+  objectId: BacnetObjectId,
+  propertyId: number,
+  value: Buffer,
+) {
+  const buffer = client._getBuffer();
+  Npdu.encode(buffer, BacnetEnums.NpduControlPriority.NORMAL_MESSAGE, request.address);
+  Apdu.encodeComplexAck(
+    buffer,
+    BacnetEnums.PduTypes.COMPLEX_ACK,
+    BacnetEnums.ConfirmedServiceChoice.READ_PROPERTY,
+    request.invokeId,
+  );
+  Asn1.encodeContextObjectId(buffer, 0, objectId.type, objectId.instance);
+  Asn1.encodeContextEnumerated(buffer, 1, propertyId);
+  Asn1.encodeOpeningTag(buffer, 3);
+  value.copy(buffer.buffer, buffer.offset);
+  buffer.offset += value.length;
+  Asn1.encodeClosingTag(buffer, 3);
+  Bvlc.encode(buffer.buffer, BacnetEnums.BvlcResultPurpose.ORIGINAL_UNICAST_NPDU, buffer.offset);
+  client._transport.send(buffer.buffer, buffer.offset, request.address);
+}
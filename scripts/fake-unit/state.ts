@@ -10,12 +10,15 @@ import {
   OPERATION_MODE_VALUES,
   POINTS_BY_OBJECT,
   PROPERTY_ID,
+  SCHEDULE_PROPERTY_IDS,
   SUPPORTED_POINTS,
+  SUPPORTED_SCHEDULES,
   SupportedPoint,
   VENTILATION_MODE_VALUES,
   clamp,
   pointKey,
 } from './manifest';
+import { EMPTY_EXCEPTION_SCHEDULE, EMPTY_WEEKLY_SCHEDULE, validateScheduleValue } from './schedule';
 
 const require = createRequire(import.meta.url);
 const Bacnet = require('bacstack');
@@ -41,6 +44,8 @@ export interface FakeUnitIdentity {
   vendorId: number;
 }
 
+export type FakeAlarmClass = 'A' | 'B';
+
 export interface FakeUnitOptions {
   identity: FakeUnitIdentity;
   timeScale: number;
@@ -108,6 +113,7 @@ export interface FakeUnitSummary {
     fireplaceMinutes: number;
     awayDelayMinutes: number;
   };
+  alarms: Record<FakeAlarmClass, number[]>;
 }
 
 function roundTo(value: number, decimals: number) {
@@ -146,6 +152,10 @@ export class FakeNordicUnitState {
 
   private fireplaceRuntimePrimedUntilMs = 0;
 
+  private readonly activeAlarms: Record<FakeAlarmClass, number[]> = { A: [], B: [] };
+
+  private readonly scheduleValues = new Map<string, Buffer>();
+
   constructor(options: FakeUnitOptions) {
     this.identity = options.identity;
     this.timeScale = Math.max(0.1, options.timeScale);
@@ -160,6 +170,17 @@ export class FakeNordicUnitState {
       this.values.set(key, typeof value === 'number' ? value : 0);
     }
 
+    for (const schedule of SUPPORTED_SCHEDULES) {
+      this.scheduleValues.set(
+        this.scheduleValueKey(schedule.instance, PROPERTY_ID.WEEKLY_SCHEDULE),
+        EMPTY_WEEKLY_SCHEDULE,
+      );
+      this.scheduleValues.set(
+        this.scheduleValueKey(schedule.instance, PROPERTY_ID.EXCEPTION_SCHEDULE),
+        EMPTY_EXCEPTION_SCHEDULE,
+      );
+    }
+
     const cookerHood = this.getPointByName('cooker_hood');
     if (cookerHood) {
       const initialCookerHood = this.values.get(pointKey(cookerHood.type, cookerHood.instance));
@@ -488,6 +509,7 @@ export class FakeNordicUnitState {
         fireplaceMinutes: roundTo(this.fireplaceRemainingMinutes, 2),
         awayDelayMinutes: roundTo(this.awayDelayRemainingMinutes, 2),
       },
+      alarms: this.getActiveAlarms(),
     };
   }
 
@@ -530,6 +552,70 @@ export class FakeNordicUnitState {
     return { ok: true, value: null };
   }
 
+  raiseAlarm(code: number, alarmClass: FakeAlarmClass = 'A'): BacnetResult<null> {
+    if (!Number.isInteger(code) || code <= 0 || code > 9999) {
+      return this.failure(ERROR_CLASS.PROPERTY, ERROR_CODE.VALUE_OUT_OF_RANGE, `Invalid alarm code ${code}`);
+    }
+    const alarms = this.activeAlarms[alarmClass];
+    if (!alarms.includes(code)) alarms.push(code);
+    this.syncAlarmPoints();
+    return { ok: true, value: null };
+  }
+
+  clearAlarm(code?: number): BacnetResult<null> {
+    for (const alarmClass of ['A', 'B'] as const) {
+      this.activeAlarms[alarmClass] = code === undefined
+        ? []
+        : this.activeAlarms[alarmClass].filter((entry) => entry !== code);
+    }
+    this.syncAlarmPoints();
+    return { ok: true, value: null };
+  }
+
+  getActiveAlarms(): Record<FakeAlarmClass, number[]> {
+    return {
+      A: [...this.activeAlarms.A],
+      B: [...this.activeAlarms.B],
+    };
+  }
+
+  hasSchedule(instance: number): boolean {
+    return SUPPORTED_SCHEDULES.some((schedule) => schedule.instance === instance);
+  }
+
+  readScheduleProperty(instance: number, propertyId: number): BacnetResult<Buffer> {
+    if (!this.hasSchedule(instance)) {
+      return this.failure(ERROR_CLASS.OBJECT, ERROR_CODE.UNKNOWN_OBJECT, `Unknown schedule ${instance}`);
+    }
+    const value = this.scheduleValues.get(this.scheduleValueKey(instance, propertyId));
+    if (!value) {
+      return this.failure(
+        ERROR_CLASS.PROPERTY,
+        ERROR_CODE.UNKNOWN_PROPERTY,
+        `Unsupported schedule property ${propertyId}`,
+      );
+    }
+    return { ok: true, value: Buffer.from(value) };
+  }
+
+  writeScheduleProperty(instance: number, propertyId: number, value: Buffer): BacnetResult<null> {
+    if (!this.hasSchedule(instance)) {
+      return this.failure(ERROR_CLASS.OBJECT, ERROR_CODE.UNKNOWN_OBJECT, `Unknown schedule ${instance}`);
+    }
+    if (!SCHEDULE_PROPERTY_IDS.includes(propertyId)) {
+      return this.failure(
+        ERROR_CLASS.PROPERTY,
+        ERROR_CODE.WRITE_ACCESS_DENIED,
+        `Schedule property ${propertyId} is not writable`,
+      );
+    }
+    const problem = validateScheduleValue(propertyId, value);
+    if (problem) return this.failure(ERROR_CLASS.PROPERTY, ERROR_CODE.INVALID_DATA_TYPE, problem);
+
+    this.scheduleValues.set(this.scheduleValueKey(instance, propertyId), Buffer.from(value));
+    return { ok: true, value: null };
+  }
+
   getFilterStatus() {
     const operatingHours = roundTo(this.getByName('filter_operating_time'), 3);
     const limitHours = roundTo(this.getByName('filter_exchange_limit'), 3);
@@ -590,7 +676,12 @@ export class FakeNordicUnitState {
     this.setByName('fan_speed_extract_percent', fanTargets.extract);
     this.setByName('fan_rpm_supply', fanTargets.supply * 39);
     this.setByName('fan_rpm_extract', fanTargets.extract * 39);
-    this.setByName('rotor_speed_percent', this.mode === 'away' ? 40 : 65);
+    // Fan inlet pressure grows with the square of the airflow; about 44 Pa at full speed.
+    this.setByName('fan_pressure_supply', roundTo(44 * (fanTargets.supply / 100) ** 2, 3));
+    this.setByName('fan_pressure_extract', roundTo(44 * (fanTargets.extract / 100) ** 2, 3));
+    const rotorSpeed = this.mode === 'away' ? 40 : 65;
+    this.setByName('rotor_speed_percent', rotorSpeed);
+    this.setByName('rotor_speed_feedback', rotorSpeed);
 
     const currentOutside = this.getByName('temp_outside');
     const outsideDrift = (Math.random() - 0.5) * 0.02 * elapsedSimSeconds;
@@ -629,8 +720,6 @@ export class FakeNordicUnitState {
     this.setByName('heater_electric_position_percent', roundTo((heaterPowerKw / 0.8) * 100, 3));
     this.setByName('heater_valve_position_percent', 0);
     this.setByName('temp_frost_protection', 5 + (heaterPowerKw * 2));
-    this.setByName('extract_pressure', 0);
-    this.setByName('supply_pressure', 0);
 
     const filterHours = this.getByName('filter_operating_time');
     const filterHoursIncrement = elapsedSimSeconds / (SECONDS_PER_MINUTE * MINUTES_PER_HOUR);
@@ -750,6 +839,17 @@ export class FakeNordicUnitState {
       return;
     }
 
+    if (
+      (point.name === 'alarm_fault_acknowledge' || point.name === 'alarm_maintenance_acknowledge')
+      && asInteger(value) === 2
+    ) {
+      // The simulated causes are gone once acknowledged, so the alarms clear right away.
+      this.activeAlarms[point.name === 'alarm_fault_acknowledge' ? 'A' : 'B'] = [];
+      this.syncAlarmPoints();
+      this.setByName(point.name, 1);
+      return;
+    }
+
     if (point.name === 'runtime_rapid') {
       this.setByName('runtime_rapid', clamp(asInteger(value), point.min, point.max));
       return;
@@ -791,6 +891,15 @@ export class FakeNordicUnitState {
     this.setByName('reset_temporary_ventilation_operation', 0);
   }
 
+  private syncAlarmPoints() {
+    const { A: alarmsA, B: alarmsB } = this.activeAlarms;
+    const total = alarmsA.length + alarmsB.length;
+    this.setByName('present_alarm_code_a', alarmsA[alarmsA.length - 1] ?? 0);
+    this.setByName('present_alarm_code_b', alarmsB[alarmsB.length - 1] ?? 0);
+    this.setByName('alarm_list_count', total);
+    this.setByName('alarm_list_displayed_count', total);
+  }
+
   private setCookerHoodPriority(priority: number, value: number | null) {
     const cookerHood = this.getPointByName('cooker_hood');
     if (!cookerHood) return;
@@ -870,6 +979,10 @@ export class FakeNordicUnitState {
     this.values.set(pointKey(point.type, point.instance), next);
   }
 
+  private scheduleValueKey(instance: number, propertyId: number): string {
+    return `${instance}:${propertyId}`;
+  }
+
   private getPointByName(name: string): SupportedPoint | undefined {
     return this.pointsByName.get(name);
   }
@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+const fs = require('node:fs');
+const path = require('node:path');
+
+// Regenerates lib/flexitPointCatalogData.ts from docs/bacnet_point_catalog.json.
+// docs/ is not shipped with the app, so the runtime reads this generated copy instead.
+const rootDir = path.join(__dirname, '..');
+const sourcePath = path.join(rootDir, 'docs', 'bacnet_point_catalog.json');
+const outputPath = path.join(rootDir, 'lib', 'flexitPointCatalogData.ts');
+
+// Object types with a presentValue that can be read or written: analog, binary,
+// multi-state and positive integer values, plus schedules.
+const VALUE_OBJECT_TYPES = new Set([0, 1, 2, 3, 4, 5, 17, 19, 48]);
+// Only analog and positive integer objects carry engineering units; the unit column
+// of binary and multi-state objects holds state texts instead.
+const UNIT_OBJECT_TYPES = new Set([0, 1, 2, 48]);
+// BACnet engineering unit codes used by the catalog, labelled like the fake unit manifest.
+const ENGINEERING_UNIT_LABELS = {
+  2: 'mA',
+  5: 'V',
+  29: '%RH',
+  48: 'kW',
+  53: 'Pa',
+  62: 'degC',
+  63: 'K',
+  71: 'h',
+  72: 'min',
+  73: 'sec',
+  96: 'ppm',
+  98: '%',
+  104: 'rpm',
+  124: 'mV',
+};
+
+function collectNotes(point, learnedNotes) {
+  return [
+    ...(point.note ? [point.note] : []),
+    ...(point.notes ?? []),
+    ...learnedNotes.filter((entry) => entry.point === point.key).map((entry) => entry.note),
+  ];
+}
+
+function formatPoint(point, learnedNotes) {
+  const fields = [
+    `type: ${point.objectType}`,
+    `instance: ${point.instance}`,
+    `access: '${point.access}'`,
+    `valueType: '${point.valueType}'`,
+    `description: ${JSON.stringify(point.description)}`,
+  ];
+  if (point.name) fields.push(`name: ${JSON.stringify(point.name)}`);
+  const units = UNIT_OBJECT_TYPES.has(point.objectType) ? ENGINEERING_UNIT_LABELS[point.unit] : undefined;
+  if (units) fields.push(`units: '${units}'`);
+  if (point.enumValues) fields.push(`enumValues: ${JSON.stringify(point.enumValues)}`);
+  if (point.observedWrite) fields.push('observedWrite: true');
+  const notes = collectNotes(point, learnedNotes);
+  if (notes.length > 0) fields.push(`notes: ${JSON.stringify(notes)}`);
+  return `  { ${fields.join(', ')} },`;
+}
+
+// Alarm texts come from the alarm handler's structured view objects, named
+// R(1)'AlmHdl'Alm<code>. The spreadsheet export splits each text over the unit,
+// example value and description columns, so the three are joined back together.
+const ALARM_VIEW_NAME = /^R\(1\)'AlmHdl'Alm(\d{4})$/;
+const STRUCTURED_VIEW_TYPE = 29;
+
+function collectAlarmTexts(points) {
+  return points
+    .filter((point) => point.objectType === STRUCTURED_VIEW_TYPE && ALARM_VIEW_NAME.test(point.name ?? ''))
+    .map((point) => ({
+      code: Number(ALARM_VIEW_NAME.exec(point.name)[1]),
+      text: [point.unit, point.exampleValue, point.description].filter(Boolean).join(' '),
+    }))
+    .sort((a, b) => a.code - b.code);
+}
+
+function generate() {
+  const catalog = JSON.parse(fs.readFileSync(sourcePath, 'utf8'));
+  const learnedNotes = catalog.learnedBehaviorNotes ?? [];
+  const points = catalog.points
+    .filter((point) => VALUE_OBJECT_TYPES.has(point.objectType))
+    .sort((a, b) => a.objectType - b.objectType || a.instance - b.instance);
+  const alarmTexts = collectAlarmTexts(catalog.points);
+
+  const lines = [
+    '// Generated by scripts/generate-point-catalog.js from docs/bacnet_point_catalog.json. Do not edit.',
+    '/* eslint-disable */',
+    "export type PointAccess = 'R' | 'RW' | 'unknown';",
+    "export type PointValueType = 'real' | 'enum' | 'unsigned' | 'unknown';",
+    '',
+    'export interface CatalogPointData {',
+    '  type: number;',
+    '  instance: number;',
+    '  access: PointAccess;',
+    '  valueType: PointValueType;',
+    '  description: string;',
+    '  /** BACnet object name, e.g. `R(1)\'TSu`. */',
+    '  name?: string;',
+    '  /** Engineering units, e.g. `degC` or `%`. */',
+    '  units?: string;',
+    '  enumValues?: Readonly<Record<string, number>>;',
+    '  /** Flexit GO was observed writing this point although the documentation marks it read-only. */',
+    '  observedWrite?: boolean;',
+    '  /** Observed Flexit GO behaviour that differs from the documentation. */',
+    '  notes?: readonly string[];',
+    '}',
+    '',
+    'export const FLEXIT_POINT_CATALOG_DATA: readonly CatalogPointData[] = [',
+    ...points.map((point) => formatPoint(point, learnedNotes)),
+    '];',
+    '',
+    '/** Alarm texts by alarm code, from the R(1)\'AlmHdl\'Alm<code> structured view objects. */',
+    'export const FLEXIT_ALARM_TEXTS: Readonly<Record<number, string>> = {',
+    ...alarmTexts.map(({ code, text }) => `  ${code}: ${JSON.stringify(text)},`),
+    '};',
+    '',
+  ];
+  fs.writeFileSync(outputPath, lines.join('\n'));
+  console.log(
+    `Wrote ${points.length} points and ${alarmTexts.length} alarm texts to ${path.relative(rootDir, outputPath)}`,
+  );
+}
+
+generate();
@@ -13,12 +13,15 @@ class MockHomeyApp {
       flow: {
         getActionCard: sinon.stub().returns({
           registerRunListener: sinon.stub(),
+          registerArgumentAutocompleteListener: sinon.stub(),
         }),
         getConditionCard: sinon.stub().returns({
           registerRunListener: sinon.stub(),
+          registerArgumentAutocompleteListener: sinon.stub(),
         }),
         getDeviceTriggerCard: sinon.stub().returns({
           trigger: sinon.stub().resolves(),
+          registerRunListener: sinon.stub(),
         }),
       },
     };
@@ -32,13 +35,26 @@ function createRegistryStub(overrides: Record<string, any> = {}) {
     setDehumidificationStateChangedHandler: sinon.stub(),
     setFreeCoolingStateChangedHandler: sinon.stub(),
     setHeatingCoilStateChangedHandler: sinon.stub(),
+    setAlarmStateChangedHandler: sinon.stub(),
+    setRoomHumidityChangedHandler: sinon.stub(),
+    setAirflowChangedHandler: sinon.stub(),
+    setHeatExchangerFaultHandler: sinon.stub(),
+    setTimedModeEndedHandler: sinon.stub(),
     setFanProfileMode: sinon.stub().resolves(),
     setFireplaceVentilationDuration: sinon.stub().resolves(),
+    setHumiditySetpoint: sinon.stub().resolves(),
+    setNeutralZone: sinon.stub().resolves(),
+    setRapidVentilationDuration: sinon.stub().resolves(),
+    startRapidVentilation: sinon.stub().resolves(),
+    extendTimedMode: sinon.stub().resolves(),
     getDehumidificationActive: sinon.stub().resolves(true),
     getFreeCoolingActive: sinon.stub().resolves(true),
     setHeatingCoilEnabled: sinon.stub().resolves(),
     toggleHeatingCoilEnabled: sinon.stub().resolves(true),
     getHeatingCoilEnabled: sinon.stub().resolves(true),
+    acknowledgeAlarms: sinon.stub().resolves(),
+    writePointValue: sinon.stub().resolves(),
+    readPointValue: sinon.stub().resolves(21.5),
     ...overrides,
   };
 }
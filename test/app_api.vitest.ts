@@ -0,0 +1,36 @@
+import {
+  afterEach, describe, expect, it, vi,
+} from 'vitest';
+import { createFlexitAppApi } from '../lib/createAppApi';
+
+describe('app api', () => {
+  afterEach(() => {
+    vi.resetModules();
+  });
+
+  it('returns write journals from the registry', async () => {
+    const journal = { unitId: 'unit-1', exportedAt: '2026-10-19T12:00:00.000Z', entries: [] };
+    const registry = {
+      getWriteJournal: vi.fn(() => journal),
+      getWriteJournals: vi.fn(() => [journal]),
+    };
+    const api = createFlexitAppApi({ registry });
+
+    await expect(api.getWriteJournal({ params: { unitId: ' unit-1 ' } })).resolves.toBe(journal);
+    expect(registry.getWriteJournal).toHaveBeenCalledWith('unit-1');
+    await expect(api.getWriteJournals()).resolves.toEqual([journal]);
+  });
+
+  it('rejects a write journal request without a unit id', async () => {
+    const api = createFlexitAppApi({ registry: {} });
+
+    await expect(api.getWriteJournal({ params: {} })).rejects.toThrow('Unit id is missing.');
+  });
+
+  it('builds the Homey web api on the shared registry', async () => {
+    const apiModule = await import('../api');
+    const unitRegistry = await import('../lib/UnitRegistry');
+
+    await expect(apiModule.default.getWriteJournals()).resolves.toEqual(unitRegistry.Registry.getWriteJournals());
+  });
+});
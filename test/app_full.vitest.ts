@@ -13,12 +13,15 @@ class MockHomeyApp {
       flow: {
         getActionCard: sinon.stub().returns({
           registerRunListener: sinon.stub(),
+          registerArgumentAutocompleteListener: sinon.stub(),
         }),
         getConditionCard: sinon.stub().returns({
           registerRunListener: sinon.stub(),
+          registerArgumentAutocompleteListener: sinon.stub(),
         }),
         getDeviceTriggerCard: sinon.stub().returns({
           trigger: sinon.stub().resolves(),
+          registerRunListener: sinon.stub(),
         }),
       },
     };
@@ -32,13 +35,27 @@ function createRegistryStub(overrides: Record<string, any> = {}) {
     setDehumidificationStateChangedHandler: sinon.stub(),
     setFreeCoolingStateChangedHandler: sinon.stub(),
     setHeatingCoilStateChangedHandler: sinon.stub(),
+    setAlarmStateChangedHandler: sinon.stub(),
+    setRoomHumidityChangedHandler: sinon.stub(),
+    setAirflowChangedHandler: sinon.stub(),
+    setHeatExchangerFaultHandler: sinon.stub(),
+    setTimedModeEndedHandler: sinon.stub(),
     setFanProfileMode: sinon.stub().resolves(),
     setFireplaceVentilationDuration: sinon.stub().resolves(),
+    setHumiditySetpoint: sinon.stub().resolves(),
+    setNeutralZone: sinon.stub().resolves(),
+    setRapidVentilationDuration: sinon.stub().resolves(),
+    startRapidVentilation: sinon.stub().resolves(),
+    extendTimedMode: sinon.stub().resolves(),
     getDehumidificationActive: sinon.stub().resolves(true),
     getFreeCoolingActive: sinon.stub().resolves(true),
     setHeatingCoilEnabled: sinon.stub().resolves(),
     toggleHeatingCoilEnabled: sinon.stub().resolves(true),
     getHeatingCoilEnabled: sinon.stub().resolves(true),
+    acknowledgeAlarms: sinon.stub().resolves(),
+    writePointValue: sinon.stub().resolves(),
+    relinquishPointValue: sinon.stub().resolves(),
+    readPointValue: sinon.stub().resolves(21.5),
     ...overrides,
   };
 }
@@ -69,14 +86,25 @@ function createCards() {
     action: {
       setFanProfileMode: { registerRunListener: sinon.stub() },
       setFireplaceDuration: { registerRunListener: sinon.stub() },
+      setHumiditySetpoint: { registerRunListener: sinon.stub() },
+      setNeutralZone: { registerRunListener: sinon.stub() },
+      setRapidDuration: { registerRunListener: sinon.stub() },
+      startRapidVentilation: { registerRunListener: sinon.stub() },
+      extendTimedMode: { registerRunListener: sinon.stub() },
       turnHeatingCoilOn: { registerRunListener: sinon.stub() },
       turnHeatingCoilOff: { registerRunListener: sinon.stub() },
       toggleHeatingCoilOnOff: { registerRunListener: sinon.stub() },
+      acknowledgeAlarms: { registerRunListener: sinon.stub() },
+      getOperatingHours: { registerRunListener: sinon.stub() },
+      writePoint: { registerRunListener: sinon.stub(), registerArgumentAutocompleteListener: sinon.stub() },
+      readPoint: { registerRunListener: sinon.stub(), registerArgumentAutocompleteListener: sinon.stub() },
+      relinquishPoint: { registerRunListener: sinon.stub(), registerArgumentAutocompleteListener: sinon.stub() },
     },
     condition: {
       dehumidificationIsActive: { registerRunListener: sinon.stub() },
       freeCoolingIsActive: { registerRunListener: sinon.stub() },
       heatingCoilIsOn: { registerRunListener: sinon.stub() },
+      pointValueAbove: { registerRunListener: sinon.stub(), registerArgumentAutocompleteListener: sinon.stub() },
     },
     trigger: {
       dehumidificationActivated: { trigger: sinon.stub().resolves() },
@@ -87,6 +115,13 @@ function createCards() {
       extractFanSetpointChanged: { trigger: sinon.stub().resolves() },
       heatingCoilTurnedOn: { trigger: sinon.stub().resolves() },
       heatingCoilTurnedOff: { trigger: sinon.stub().resolves() },
+      alarmRaised: { trigger: sinon.stub().resolves() },
+      alarmCleared: { trigger: sinon.stub().resolves() },
+      roomHumidityRoseAbove: { trigger: sinon.stub().resolves(), registerRunListener: sinon.stub() },
+      roomHumidityFellBelow: { trigger: sinon.stub().resolves(), registerRunListener: sinon.stub() },
+      airflowFellBelow: { trigger: sinon.stub().resolves(), registerRunListener: sinon.stub() },
+      heatExchangerFault: { trigger: sinon.stub().resolves() },
+      timedModeEnded: { trigger: sinon.stub().resolves() },
     },
   };
 }
@@ -94,9 +129,19 @@ function createCards() {
 function wireCards(app: any, cards: ReturnType<typeof createCards>) {
   app.homey.flow.getActionCard.withArgs('set_fan_profile_mode').returns(cards.action.setFanProfileMode);
   app.homey.flow.getActionCard.withArgs('set_fireplace_duration').returns(cards.action.setFireplaceDuration);
+  app.homey.flow.getActionCard.withArgs('set_humidity_setpoint').returns(cards.action.setHumiditySetpoint);
+  app.homey.flow.getActionCard.withArgs('set_neutral_zone').returns(cards.action.setNeutralZone);
+  app.homey.flow.getActionCard.withArgs('set_rapid_duration').returns(cards.action.setRapidDuration);
+  app.homey.flow.getActionCard.withArgs('start_rapid_ventilation').returns(cards.action.startRapidVentilation);
+  app.homey.flow.getActionCard.withArgs('extend_timed_mode').returns(cards.action.extendTimedMode);
   app.homey.flow.getActionCard.withArgs('turn_heating_coil_on').returns(cards.action.turnHeatingCoilOn);
   app.homey.flow.getActionCard.withArgs('turn_heating_coil_off').returns(cards.action.turnHeatingCoilOff);
   app.homey.flow.getActionCard.withArgs('toggle_heating_coil_onoff').returns(cards.action.toggleHeatingCoilOnOff);
+  app.homey.flow.getActionCard.withArgs('acknowledge_alarms').returns(cards.action.acknowledgeAlarms);
+  app.homey.flow.getActionCard.withArgs('get_operating_hours').returns(cards.action.getOperatingHours);
+  app.homey.flow.getActionCard.withArgs('write_point').returns(cards.action.writePoint);
+  app.homey.flow.getActionCard.withArgs('read_point').returns(cards.action.readPoint);
+  app.homey.flow.getActionCard.withArgs('relinquish_point').returns(cards.action.relinquishPoint);
 
   app.homey.flow.getConditionCard
     .withArgs('dehumidification_is_active')
@@ -105,6 +150,7 @@ function wireCards(app: any, cards: ReturnType<typeof createCards>) {
     .withArgs('free_cooling_is_active')
     .returns(cards.condition.freeCoolingIsActive);
   app.homey.flow.getConditionCard.withArgs('heating_coil_is_on').returns(cards.condition.heatingCoilIsOn);
+  app.homey.flow.getConditionCard.withArgs('point_value_above').returns(cards.condition.pointValueAbove);
 
   app.homey.flow.getDeviceTriggerCard
     .withArgs('dehumidification_activated')
@@ -130,6 +176,27 @@ function wireCards(app: any, cards: ReturnType<typeof createCards>) {
   app.homey.flow.getDeviceTriggerCard
     .withArgs('heating_coil_turned_off')
     .returns(cards.trigger.heatingCoilTurnedOff);
+  app.homey.flow.getDeviceTriggerCard
+    .withArgs('alarm_raised')
+    .returns(cards.trigger.alarmRaised);
+  app.homey.flow.getDeviceTriggerCard
+    .withArgs('alarm_cleared')
+    .returns(cards.trigger.alarmCleared);
+  app.homey.flow.getDeviceTriggerCard
+    .withArgs('room_humidity_rose_above')
+    .returns(cards.trigger.roomHumidityRoseAbove);
+  app.homey.flow.getDeviceTriggerCard
+    .withArgs('room_humidity_fell_below')
+    .returns(cards.trigger.roomHumidityFellBelow);
+  app.homey.flow.getDeviceTriggerCard
+    .withArgs('airflow_fell_below')
+    .returns(cards.trigger.airflowFellBelow);
+  app.homey.flow.getDeviceTriggerCard
+    .withArgs('heat_exchanger_fault')
+    .returns(cards.trigger.heatExchangerFault);
+  app.homey.flow.getDeviceTriggerCard
+    .withArgs('timed_mode_ended')
+    .returns(cards.trigger.timedModeEnded);
 }
 
 describe('App flow registration', () => {
@@ -296,6 +363,255 @@ describe('App flow registration', () => {
     expect(cards.trigger.heatingCoilTurnedOff.trigger.calledOnce).toBe(true);
   });
 
+  it('forwards alarm state changes to flow triggers and acknowledges alarms', async () => {
+    const registryStub = createRegistryStub();
+    const cards = createCards();
+    const AppClass = createAppClass(registryStub);
+    const app = new AppClass();
+    wireCards(app, cards);
+    await app.onInit();
+
+    expect(registryStub.setAlarmStateChangedHandler.calledOnce).toBe(true);
+    const alarmStateChangedHandler = registryStub.setAlarmStateChangedHandler.firstCall.args[0];
+    const device = { getData: () => ({ unitId: 'unit-1' }) };
+    alarmStateChangedHandler({
+      device,
+      raised: true,
+      alarmClass: 'B',
+      code: 1020,
+      text: 'Air filter polluted',
+    });
+    alarmStateChangedHandler({
+      device,
+      raised: false,
+      alarmClass: 'B',
+      code: 1020,
+      text: 'Air filter polluted',
+    });
+    expect(cards.trigger.alarmRaised.trigger.calledOnceWithExactly(
+      device,
+      { code: 1020, text: 'Air filter polluted' },
+    )).toBe(true);
+    expect(cards.trigger.alarmCleared.trigger.calledOnceWithExactly(
+      device,
+      { code: 1020, text: 'Air filter polluted' },
+    )).toBe(true);
+
+    const acknowledgeListener = cards.action.acknowledgeAlarms.registerRunListener.firstCall.args[0];
+    const acknowledgeResult = await acknowledgeListener({ device });
+    expect(acknowledgeResult).toBe(true);
+    expect(registryStub.acknowledgeAlarms.calledOnceWithExactly('unit-1')).toBe(true);
+  });
+
+  it('triggers room humidity cards only when the selected sensor crosses the threshold', async () => {
+    const registryStub = createRegistryStub();
+    const cards = createCards();
+    const AppClass = createAppClass(registryStub);
+    const app = new AppClass();
+    wireCards(app, cards);
+    await app.onInit();
+
+    const roomHumidityChangedHandler = registryStub.setRoomHumidityChangedHandler.firstCall.args[0];
+    const device = { getData: () => ({ unitId: 'unit-1' }) };
+    roomHumidityChangedHandler({
+      device, sensor: 'room1', previousHumidity: 55, humidity: 72,
+    });
+    roomHumidityChangedHandler({
+      device, sensor: 'vmsh2', previousHumidity: 60, humidity: 48,
+    });
+
+    const riseState = { sensor: 'room1', previousHumidity: 55, humidity: 72 };
+    const fallState = { sensor: 'vmsh2', previousHumidity: 60, humidity: 48 };
+    expect(cards.trigger.roomHumidityRoseAbove.trigger.calledOnceWithExactly(
+      device,
+      { humidity: 72 },
+      riseState,
+    )).toBe(true);
+    expect(cards.trigger.roomHumidityFellBelow.trigger.calledOnceWithExactly(
+      device,
+      { humidity: 48 },
+      fallState,
+    )).toBe(true);
+
+    const roseAboveListener = cards.trigger.roomHumidityRoseAbove.registerRunListener.firstCall.args[0];
+    expect(await roseAboveListener({ sensor: 'room1', threshold: 70 }, riseState)).toBe(true);
+    expect(await roseAboveListener({ sensor: 'room1', threshold: 50 }, riseState)).toBe(false);
+    expect(await roseAboveListener({ sensor: 'room2', threshold: 70 }, riseState)).toBe(false);
+
+    const fellBelowListener = cards.trigger.roomHumidityFellBelow.registerRunListener.firstCall.args[0];
+    expect(await fellBelowListener({ sensor: 'vmsh2', threshold: 50 }, fallState)).toBe(true);
+    expect(await fellBelowListener({ sensor: 'vmsh2', threshold: 45 }, fallState)).toBe(false);
+  });
+
+  it('triggers the airflow card only when the selected fan drops below the threshold', async () => {
+    const registryStub = createRegistryStub();
+    const cards = createCards();
+    const AppClass = createAppClass(registryStub);
+    const app = new AppClass();
+    wireCards(app, cards);
+    await app.onInit();
+
+    const airflowChangedHandler = registryStub.setAirflowChangedHandler.firstCall.args[0];
+    const device = { getData: () => ({ unitId: 'unit-1' }) };
+    airflowChangedHandler({
+      device, fan: 'supply', previousAirflow: 200, airflow: 240,
+    });
+    airflowChangedHandler({
+      device, fan: 'supply', previousAirflow: 240, airflow: 150,
+    });
+
+    const fallState = { fan: 'supply', previousAirflow: 240, airflow: 150 };
+    expect(cards.trigger.airflowFellBelow.trigger.calledOnceWithExactly(
+      device,
+      { airflow: 150 },
+      fallState,
+    )).toBe(true);
+
+    const fellBelowListener = cards.trigger.airflowFellBelow.registerRunListener.firstCall.args[0];
+    expect(await fellBelowListener({ fan: 'supply', threshold: 180 }, fallState)).toBe(true);
+    expect(await fellBelowListener({ fan: 'supply', threshold: 120 }, fallState)).toBe(false);
+    expect(await fellBelowListener({ fan: 'extract', threshold: 180 }, fallState)).toBe(false);
+  });
+
+  it('triggers the heat exchanger fault card with fault text and failure count', async () => {
+    const registryStub = createRegistryStub();
+    const cards = createCards();
+    const AppClass = createAppClass(registryStub);
+    const app = new AppClass();
+    wireCards(app, cards);
+    await app.onInit();
+
+    const heatExchangerFaultHandler = registryStub.setHeatExchangerFaultHandler.firstCall.args[0];
+    const device = { getData: () => ({ unitId: 'unit-1' }) };
+    heatExchangerFaultHandler({
+      device,
+      fault: 'belt_broken',
+      text: 'Heat exchanger belt broken',
+      motorFailureCount: 2,
+    });
+
+    expect(cards.trigger.heatExchangerFault.trigger.calledOnceWithExactly(
+      device,
+      { fault: 'Heat exchanger belt broken', motor_failures: 2 },
+    )).toBe(true);
+  });
+
+  it('triggers the timed mode ended card with the ended and current mode', async () => {
+    const registryStub = createRegistryStub();
+    const cards = createCards();
+    const AppClass = createAppClass(registryStub);
+    const app = new AppClass();
+    wireCards(app, cards);
+    await app.onInit();
+
+    const timedModeEndedHandler = registryStub.setTimedModeEndedHandler.firstCall.args[0];
+    const device = { getData: () => ({ unitId: 'unit-1' }) };
+    timedModeEndedHandler({ device, endedMode: 'fireplace', currentMode: 'away' });
+
+    expect(cards.trigger.timedModeEnded.trigger.calledOnceWithExactly(
+      device,
+      { ended_mode: 'fireplace', current_mode: 'away' },
+    )).toBe(true);
+  });
+
+  it('forwards extend timed mode actions and rejects non-numeric minutes', async () => {
+    const registryStub = createRegistryStub();
+    const cards = createCards();
+    const AppClass = createAppClass(registryStub);
+    const app = new AppClass();
+    wireCards(app, cards);
+    await app.onInit();
+
+    const device = { getData: () => ({ unitId: 'unit-1' }) };
+    const listener = cards.action.extendTimedMode.registerRunListener.firstCall.args[0];
+
+    expect(await listener({ device, minutes: '15' })).toBe(true);
+    await expect(listener({ device, minutes: 'later' })).rejects.toThrow('Extension must be numeric.');
+    expect(registryStub.extendTimedMode.calledOnceWithExactly('unit-1', 15)).toBe(true);
+  });
+
+  it('autocompletes points from the catalog, offering only writable points for writes', async () => {
+    const registryStub = createRegistryStub();
+    const cards = createCards();
+    const AppClass = createAppClass(registryStub);
+    const app = new AppClass();
+    wireCards(app, cards);
+    await app.onInit();
+
+    const writeAutocomplete = cards.action.writePoint.registerArgumentAutocompleteListener.firstCall.args[1];
+    const relinquishAutocomplete = cards.action.relinquishPoint.registerArgumentAutocompleteListener.firstCall.args[1];
+    const readAutocomplete = cards.action.readPoint.registerArgumentAutocompleteListener.firstCall.args[1];
+
+    expect(await readAutocomplete('supply air temperature')).toContainEqual({
+      name: 'Supply air temperature',
+      description: '0:4 (R)',
+      id: '0:4',
+    });
+    expect(await writeAutocomplete('supply air temperature')).toEqual([]);
+    expect((await writeAutocomplete('delay time away')).map((result: any) => result.id)).toEqual(['48:318']);
+    expect(await relinquishAutocomplete('supply air temperature')).toEqual([]);
+  });
+
+  it('forwards point reads and writes and compares point values in the condition', async () => {
+    const registryStub = createRegistryStub();
+    const cards = createCards();
+    const AppClass = createAppClass(registryStub);
+    const app = new AppClass();
+    wireCards(app, cards);
+    await app.onInit();
+
+    const device = { getData: () => ({ unitId: 'unit-1' }) };
+    const point = { id: '2:1994', name: 'Air temp., setpoint HOME' };
+    const write = cards.action.writePoint.registerRunListener.firstCall.args[0];
+    const read = cards.action.readPoint.registerRunListener.firstCall.args[0];
+    const relinquish = cards.action.relinquishPoint.registerRunListener.firstCall.args[0];
+    const above = cards.condition.pointValueAbove.registerRunListener.firstCall.args[0];
+
+    expect(await write({
+      device, point, value: '20.5', priority: 12,
+    })).toBe(true);
+    await expect(write({ device, point, value: 'warm' })).rejects.toThrow('Point value must be numeric.');
+    expect(registryStub.writePointValue.calledOnceWithExactly('unit-1', '2:1994', 20.5, 12)).toBe(true);
+    expect(await relinquish({ device, point, priority: 12 })).toBe(true);
+    expect(registryStub.relinquishPointValue.calledOnceWithExactly('unit-1', '2:1994', 12)).toBe(true);
+    expect(await read({ device, point })).toEqual({ value: 21.5 });
+    expect(await above({ device, point, threshold: 21 })).toBe(true);
+    expect(await above({ device, point, threshold: 22 })).toBe(false);
+    await expect(above({ device, point, threshold: 'x' })).rejects.toThrow('Threshold must be numeric.');
+  });
+
+  it('returns operating hours by mode as flow tokens', async () => {
+    const registryStub = createRegistryStub();
+    const cards = createCards();
+    const AppClass = createAppClass(registryStub);
+    const app = new AppClass();
+    wireCards(app, cards);
+    await app.onInit();
+
+    const listener = cards.action.getOperatingHours.registerRunListener.firstCall.args[0];
+    const device = {
+      getData: () => ({ unitId: 'unit-1' }),
+      getOperatingHoursBreakdown: sinon.stub().resolves({
+        total: 168, stop: 0, away: 40, home: 110, high: 12, fireplace: 4, cooker: 2, heater: 30,
+      }),
+    };
+    const tokens = await listener({ device, period: 'week' });
+
+    expect(device.getOperatingHoursBreakdown.calledOnceWithExactly('week')).toBe(true);
+    expect(tokens).toEqual({
+      total_hours: 168,
+      stop_hours: 0,
+      away_hours: 40,
+      home_hours: 110,
+      high_hours: 12,
+      fireplace_hours: 4,
+      cooker_hours: 2,
+      heater_hours: 30,
+    });
+    await expect(listener({ device: { getData: () => ({ unitId: 'unit-1' }) }, period: 'week' }))
+      .rejects.toThrow('Operating hours are not available for this device.');
+  });
+
   it('rejects unsupported flow mode values', async () => {
     const registryStub = createRegistryStub();
     const cards = createCards();
@@ -466,6 +782,89 @@ describe('App flow registration', () => {
     expect(registryStub.setFireplaceVentilationDuration.called).toBe(false);
   });
 
+  it('forwards humidity setpoint actions to the registry', async () => {
+    const registryStub = createRegistryStub();
+    const cards = createCards();
+    const AppClass = createAppClass(registryStub);
+    const app = new AppClass();
+    wireCards(app, cards);
+    await app.onInit();
+
+    const listener = cards.action.setHumiditySetpoint.registerRunListener.firstCall.args[0];
+    const result = await listener({
+      device: { getData: () => ({ unitId: 'unit-1' }) },
+      mode: ' away ',
+      percent: '65',
+    });
+
+    expect(result).toBe(true);
+    expect(registryStub.setHumiditySetpoint.calledOnceWithExactly('unit-1', 'away', 65)).toBe(true);
+  });
+
+  it('rejects non-numeric humidity setpoint values', async () => {
+    const registryStub = createRegistryStub();
+    const cards = createCards();
+    const AppClass = createAppClass(registryStub);
+    const app = new AppClass();
+    wireCards(app, cards);
+    await app.onInit();
+
+    const listener = cards.action.setHumiditySetpoint.registerRunListener.firstCall.args[0];
+    await expect(listener({
+      device: { getData: () => ({ unitId: 'unit-1' }) },
+      mode: 'home',
+      percent: 'invalid',
+    })).rejects.toThrow('Humidity setpoint must be numeric.');
+    expect(registryStub.setHumiditySetpoint.called).toBe(false);
+  });
+
+  it('forwards neutral zone actions to the registry', async () => {
+    const registryStub = createRegistryStub();
+    const cards = createCards();
+    const AppClass = createAppClass(registryStub);
+    const app = new AppClass();
+    wireCards(app, cards);
+    await app.onInit();
+
+    const listener = cards.action.setNeutralZone.registerRunListener.firstCall.args[0];
+    const result = await listener({
+      device: { getData: () => ({ unitId: 'unit-1' }) },
+      kind: 'heating',
+      mode: ' away ',
+      delta: '1.5',
+    });
+
+    expect(result).toBe(true);
+    expect(registryStub.setNeutralZone.calledOnceWithExactly('unit-1', 'heating', 'away', 1.5)).toBe(true);
+    await expect(listener({
+      device: { getData: () => ({ unitId: 'unit-1' }) },
+      kind: 'cooling',
+      mode: 'home',
+      delta: 'invalid',
+    })).rejects.toThrow('Neutral zone must be numeric.');
+    expect(registryStub.setNeutralZone.calledOnce).toBe(true);
+  });
+
+  it('forwards high ventilation duration and start actions to the registry', async () => {
+    const registryStub = createRegistryStub();
+    const cards = createCards();
+    const AppClass = createAppClass(registryStub);
+    const app = new AppClass();
+    wireCards(app, cards);
+    await app.onInit();
+
+    const device = { getData: () => ({ unitId: 'unit-1' }) };
+    const setDuration = cards.action.setRapidDuration.registerRunListener.firstCall.args[0];
+    const start = cards.action.startRapidVentilation.registerRunListener.firstCall.args[0];
+
+    expect(await setDuration({ device, minutes: '20' })).toBe(true);
+    expect(await start({ device, minutes: 45 })).toBe(true);
+    await expect(start({ device, minutes: 'soon' })).rejects.toThrow('High ventilation duration must be numeric.');
+
+    expect(registryStub.setRapidVentilationDuration.calledOnceWithExactly('unit-1', 20)).toBe(true);
+    expect(registryStub.startRapidVentilation.calledOnceWithExactly('unit-1', 45)).toBe(true);
+  });
+
   it('logs trigger-card failures without throwing back into the registry callbacks', async () => {
     const registryStub = createRegistryStub();
     const cards = createCards();
@@ -0,0 +1,14 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+
+const manifest = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'app.json'), 'utf8'));
+
+describe('app manifest', () => {
+  it.each(['nordic', 'nordic-cloud'])('reports the %s heating coil meter to Homey Energy', (driverId) => {
+    const driver = manifest.drivers.find((entry: { id: string }) => entry.id === driverId);
+
+    expect(driver.capabilities).toContain('meter_power');
+    expect(driver.energy).toEqual({ meterPowerImportedCapability: 'meter_power' });
+  });
+});
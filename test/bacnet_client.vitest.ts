@@ -6,7 +6,9 @@ import {
   resetBacnetClientStateForTests,
   setBacnetLogger,
   setBacnetModuleForTests,
+  setForeignDeviceRegistration,
 } from '../lib/bacnetClient.ts';
+import { BacnetIpTransport } from '../lib/bacnetTransport.ts';
 import { createRuntimeLogger } from '../lib/logging';
 import { findStructuredLog } from './logging_test_utils';
 
@@ -40,11 +42,13 @@ describe('bacnetClient (vitest)', () => {
       port: 47808,
       apduTimeout: 15000,
       apduSize: 1476,
+      transport: expect.any(BacnetIpTransport),
     });
     expect(BacnetStub.secondCall.args[0]).toEqual({
       port: 47809,
       apduTimeout: 15000,
       apduSize: 1476,
+      transport: expect.any(BacnetIpTransport),
     });
     expect(BacnetEnums.ApplicationTags).toBe(BacnetStub.enum.ApplicationTags);
   });
@@ -74,4 +78,25 @@ describe('bacnetClient (vitest)', () => {
     expect(log?.port).toBe(47810);
     expect(log?.error?.message).toBe('socket failed');
   });
+
+  it('hands BBMD registrations to the transport of the client on that port', () => {
+    const BacnetStub: any = sinon.stub().callsFake(() => ({ on: sinon.stub() }));
+    BacnetStub.enum = {};
+    setBacnetModuleForTests(BacnetStub);
+    const registration = { bbmdAddress: '10.20.0.1', bbmdPort: 47808, ttlSeconds: 300 };
+
+    setForeignDeviceRegistration(47811, registration);
+    getBacnetClient(47811);
+    getBacnetClient(47812);
+    const registeredTransport: BacnetIpTransport = BacnetStub.firstCall.args[0].transport;
+    const otherTransport: BacnetIpTransport = BacnetStub.secondCall.args[0].transport;
+
+    expect(registeredTransport.getForeignDeviceRegistrationState()).toBe('pending');
+    expect(otherTransport.getForeignDeviceRegistrationState()).toBe('disabled');
+
+    setForeignDeviceRegistration(47812, registration);
+    setForeignDeviceRegistration(47811, undefined);
+    expect(registeredTransport.getForeignDeviceRegistrationState()).toBe('disabled');
+    expect(otherTransport.getForeignDeviceRegistrationState()).toBe('pending');
+  });
 });
@@ -0,0 +1,115 @@
+/* eslint-disable import/extensions */
+import { describe, expect, it } from 'vitest';
+import {
+  createEmptyWeeklySchedule,
+  decodeExceptionSchedule,
+  decodeWeeklySchedule,
+  encodeExceptionSchedule,
+  encodeWeeklySchedule,
+  normalizeScheduleDate,
+  normalizeScheduleTime,
+} from '../lib/bacnetSchedule.ts';
+
+const UNSIGNED_TAG = 2;
+const SIGNED_TAG = 3;
+const REAL_TAG = 4;
+const ENUMERATED_TAG = 9;
+const BOOLEAN_TAG = 1;
+
+describe('bacnetSchedule', () => {
+  it('encodes a weekly schedule as seven daily schedules sorted by time', () => {
+    const weekly = createEmptyWeeklySchedule();
+    weekly.monday = [{ time: '22:00', value: 2 }, { time: '6:30', value: 3 }];
+
+    const encoded = encodeWeeklySchedule(weekly, UNSIGNED_TAG);
+
+    expect(encoded.toString('hex')).toBe(
+      `0e${'b4061e0000'}2103${'b416000000'}21020f${'0e0f'.repeat(6)}`,
+    );
+    expect(decodeWeeklySchedule(encoded)).toEqual({
+      ...createEmptyWeeklySchedule(),
+      monday: [{ time: '06:30', value: 3 }, { time: '22:00', value: 2 }],
+    });
+  });
+
+  it('round-trips every supported value type', () => {
+    const cases: Array<[number, number | null]> = [
+      [ENUMERATED_TAG, 7],
+      [SIGNED_TAG, -3],
+      [REAL_TAG, 21.5],
+      [BOOLEAN_TAG, 1],
+      [BOOLEAN_TAG, 0],
+      [UNSIGNED_TAG, null],
+      [UNSIGNED_TAG, 70000],
+    ];
+    for (const [valueTag, value] of cases) {
+      const weekly = createEmptyWeeklySchedule();
+      weekly.sunday = [{ time: '12:00:30', value }];
+      expect(decodeWeeklySchedule(encodeWeeklySchedule(weekly, valueTag)).sunday).toEqual([
+        { time: '12:00:30', value },
+      ]);
+    }
+  });
+
+  it('round-trips exception periods of every kind', () => {
+    const exceptions = [
+      {
+        period: { kind: 'date' as const, date: '2026-12-24' },
+        timeValues: [{ time: '07:00', value: 3 }],
+        priority: 16,
+      },
+      {
+        period: { kind: 'dateRange' as const, startDate: '2026-07-01', endDate: '2026-07-31' },
+        timeValues: [{ time: '00:00', value: 2 }],
+        priority: 1,
+      },
+      {
+        period: {
+          kind: 'weekNDay' as const, month: null, weekOfMonth: 6, dayOfWeek: 5,
+        },
+        timeValues: [],
+        priority: 8,
+      },
+      {
+        period: { kind: 'calendar' as const, calendarInstance: 3 },
+        timeValues: [{ time: '10:00', value: null }],
+        priority: 12,
+      },
+    ];
+
+    const encoded = encodeExceptionSchedule(exceptions, UNSIGNED_TAG);
+
+    expect(decodeExceptionSchedule(encoded)).toEqual(exceptions);
+    expect(decodeExceptionSchedule(Buffer.alloc(0))).toEqual([]);
+  });
+
+  it('rejects exception priorities outside 1 to 16', () => {
+    expect(() => encodeExceptionSchedule([{
+      period: { kind: 'date', date: '2026-01-01' },
+      timeValues: [],
+      priority: 17,
+    }], UNSIGNED_TAG)).toThrow('between 1 and 16');
+  });
+
+  it('rejects values the chosen value tag cannot carry', () => {
+    const weekly = createEmptyWeeklySchedule();
+    weekly.monday = [{ time: '08:00', value: -1 }];
+    expect(() => encodeWeeklySchedule(weekly, UNSIGNED_TAG)).toThrow('non-negative integer');
+    weekly.monday = [{ time: '08:00', value: 1.5 }];
+    expect(() => encodeWeeklySchedule(weekly, SIGNED_TAG)).toThrow('must be an integer');
+  });
+
+  it('normalizes times and wildcard dates', () => {
+    expect(normalizeScheduleTime('7:05')).toBe('07:05');
+    expect(normalizeScheduleTime('07:05:00')).toBe('07:05');
+    expect(() => normalizeScheduleTime('24:00')).toThrow('Invalid schedule time');
+    expect(normalizeScheduleDate('*-12-*')).toBe('*-12-*');
+    expect(normalizeScheduleDate('2026-1-2')).toBe('2026-01-02');
+    expect(() => normalizeScheduleDate('2026-13-01')).toThrow('Invalid schedule month');
+  });
+
+  it('rejects truncated or oversized weekly schedules', () => {
+    expect(() => decodeWeeklySchedule(Buffer.from('0eb406', 'hex'))).toThrow();
+    expect(() => decodeWeeklySchedule(Buffer.from('0e0f'.repeat(8), 'hex'))).toThrow('more than seven days');
+  });
+});
@@ -0,0 +1,111 @@
+/* eslint-disable import/extensions */
+import dgram from 'dgram';
+import { AddressInfo } from 'net';
+import sinon from 'sinon';
+import {
+  afterEach, describe, expect, it, vi,
+} from 'vitest';
+import { BacnetIpTransport, parseForeignDeviceRegistration } from '../lib/bacnetTransport.ts';
+import { createRuntimeLogger } from '../lib/logging.ts';
+import { findStructuredLog } from './logging_test_utils.ts';
+import { getFreePort } from './test_utils.ts';
+
+// Lets loopback UDP traffic through while timers are faked.
+async function waitForIo(condition: () => boolean) {
+  for (let attempt = 0; attempt < 5000; attempt += 1) {
+    if (condition()) return;
+    await new Promise((resolve) => { setImmediate(resolve); });
+  }
+  throw new Error('Timed out waiting for UDP traffic');
+}
+
+async function startBbmd(answer: boolean) {
+  const socket = dgram.createSocket('udp4');
+  const registrations: number[] = [];
+  socket.on('message', (message, rinfo) => {
+    registrations.push(message.readUInt16BE(4));
+    if (answer) socket.send(Buffer.from([0x81, 0x00, 0x00, 0x06, 0x00, 0x00]), rinfo.port, rinfo.address);
+  });
+  await new Promise<void>((resolve) => { socket.bind(0, '127.0.0.1', resolve); });
+  return { socket, registrations, port: (socket.address() as AddressInfo).port };
+}
+
+describe('bacnetTransport', () => {
+  let transport: BacnetIpTransport | undefined;
+  let bbmd: dgram.Socket | undefined;
+
+  afterEach(() => {
+    transport?.close();
+    bbmd?.close();
+    transport = undefined;
+    bbmd = undefined;
+    vi.useRealTimers();
+  });
+
+  async function openTransport(bbmdPort: number, sink: { log: sinon.SinonStub; error: sinon.SinonStub }) {
+    const logger = createRuntimeLogger(sink, { component: 'bacnet' });
+    transport = new BacnetIpTransport({
+      port: await getFreePort(),
+      interface: '127.0.0.1',
+      broadcastAddress: '255.255.255.255',
+      getLogger: () => logger,
+      registrationResponseTimeoutMs: 1000,
+    });
+    transport.setForeignDeviceRegistration({ bbmdAddress: '127.0.0.1', bbmdPort, ttlSeconds: 60 });
+    transport.open();
+    return transport;
+  }
+
+  it('parses the BBMD address and lifetime settings', () => {
+    expect(parseForeignDeviceRegistration('  ', 300)).toBeUndefined();
+    expect(parseForeignDeviceRegistration(null, 300)).toBeUndefined();
+    expect(parseForeignDeviceRegistration('10.20.0.1', 'abc')).toEqual({
+      bbmdAddress: '10.20.0.1', bbmdPort: 47808, ttlSeconds: 300,
+    });
+    expect(parseForeignDeviceRegistration(' 10.20.0.1:47809 ', 5)).toEqual({
+      bbmdAddress: '10.20.0.1', bbmdPort: 47809, ttlSeconds: 30,
+    });
+    expect(parseForeignDeviceRegistration('10.20.0.1', 100000)?.ttlSeconds).toBe(65535);
+    expect(() => parseForeignDeviceRegistration('bbmd.local', 300)).toThrow('is not an IPv4 address');
+    expect(() => parseForeignDeviceRegistration('10.20.0.1:0', 300)).toThrow('is not an IPv4 address');
+  });
+
+  it('renews the foreign device registration before the TTL runs out', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const server = await startBbmd(true);
+    bbmd = server.socket;
+    const sink = { log: sinon.stub(), error: sinon.stub() };
+    const opened = await openTransport(server.port, sink);
+
+    await waitForIo(() => opened.getForeignDeviceRegistrationState() === 'registered');
+    expect(server.registrations).toEqual([60]);
+    expect(findStructuredLog(sink.log, 'bacnet.bbmd.registered')).toMatchObject({ bbmdPort: server.port });
+
+    vi.advanceTimersByTime(29_000);
+    await new Promise((resolve) => { setImmediate(resolve); });
+    expect(server.registrations).toEqual([60]);
+
+    vi.advanceTimersByTime(1_000);
+    await waitForIo(() => server.registrations.length === 2);
+    expect(sink.error.called).toBe(false);
+  });
+
+  it('logs and retries a registration the BBMD does not answer', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const server = await startBbmd(false);
+    bbmd = server.socket;
+    const sink = { log: sinon.stub(), error: sinon.stub() };
+    const opened = await openTransport(server.port, sink);
+
+    await waitForIo(() => server.registrations.length === 1);
+    vi.advanceTimersByTime(1_000);
+    expect(opened.getForeignDeviceRegistrationState()).toBe('timeout');
+    expect(findStructuredLog(sink.error, 'bacnet.bbmd.registration.timeout')).toMatchObject({
+      bbmdAddress: '127.0.0.1',
+      ttlSeconds: 60,
+    });
+
+    vi.advanceTimersByTime(30_000);
+    await waitForIo(() => server.registrations.length === 2);
+  });
+});
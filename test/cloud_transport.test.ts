@@ -714,7 +714,7 @@ describe('Cloud transport – UnitRegistry integration', () => {
 
     expect(mock.device.setUnavailable.called).to.equal(false);
     expect(logger.error.calledWithMatch(
-      `[UnitRegistry] Cloud datapoint ${unsupportedPath} (48:318) returned 404`
+      `[UnitRegistry] Cloud datapoint Delay time, enter AWAY mode (48:318) at ${unsupportedPath} returned 404`
       + ` for ${UNIT_ID} (plant ${PLANT_ID}); excluding it from future polls`
       + ' until we have a cloud-compatible read path for it',
     )).to.equal(true);
@@ -126,15 +126,38 @@ function defaultSensorValues(): Array<{ type: number; instance: number; value: n
     { type: OBJ.ANALOG_VALUE, instance: 2071, value: 22 }, // free cooling room setpoint
     { type: OBJ.POSITIVE_INTEGER_VALUE, instance: 296, value: 600 }, // free cooling minimum on-time
     { type: OBJ.MULTI_STATE_VALUE, instance: 19, value: 3 }, // actual ventilation mode
+    { type: OBJ.ANALOG_VALUE, instance: 60, value: 70 }, // humidity present setpoint
+    { type: OBJ.ANALOG_VALUE, instance: 61, value: 100 }, // humidity setpoint HIGH
+    { type: OBJ.ANALOG_VALUE, instance: 62, value: 70 }, // humidity setpoint HOME
+    { type: OBJ.ANALOG_VALUE, instance: 63, value: 80 }, // humidity setpoint AWAY
+    { type: OBJ.ANALOG_VALUE, instance: 2090, value: 30.5 }, // humidity limit max
+    { type: OBJ.ANALOG_VALUE, instance: 1921, value: 1 }, // heating neutral zone HOME
+    { type: OBJ.ANALOG_VALUE, instance: 1987, value: 1 }, // heating neutral zone AWAY
+    { type: OBJ.ANALOG_VALUE, instance: 1926, value: 2 }, // cooling neutral zone HOME
+    { type: OBJ.ANALOG_VALUE, instance: 1992, value: 6 }, // cooling neutral zone AWAY
+
+    // Rotary heat exchanger
+    { type: OBJ.ANALOG_OUTPUT, instance: 0, value: 65 }, // rotor speed
+    { type: OBJ.ANALOG_VALUE, instance: 2023, value: 74.01 }, // efficiency
+    { type: OBJ.ANALOG_VALUE, instance: 2293, value: 65 }, // speed feedback
+    { type: OBJ.ANALOG_VALUE, instance: 2294, value: 0 }, // motor failure count
+    { type: OBJ.BINARY_VALUE, instance: 512, value: 0 }, // motor stuck
+    { type: OBJ.BINARY_VALUE, instance: 513, value: 0 }, // belt broken
+    { type: OBJ.ANALOG_VALUE, instance: 1852, value: 10 }, // de-icing rotor speed
 
     // Fireplace / rapid
     { type: OBJ.POSITIVE_INTEGER_VALUE, instance: 270, value: 10 }, // fireplace runtime
+    { type: OBJ.POSITIVE_INTEGER_VALUE, instance: 293, value: 10 }, // rapid runtime
     { type: OBJ.BINARY_VALUE, instance: 15, value: 0 }, // rapid active
     { type: OBJ.BINARY_VALUE, instance: 400, value: 0 }, // fireplace state
     { type: OBJ.ANALOG_VALUE, instance: 2005, value: 0 }, // remaining temp vent
     { type: OBJ.ANALOG_VALUE, instance: 2031, value: 0 }, // rapid remaining
     { type: OBJ.ANALOG_VALUE, instance: 2038, value: 0 }, // fireplace remaining
     { type: OBJ.ANALOG_VALUE, instance: 2125, value: 0 }, // mode RF input
+
+    // Alarms
+    { type: OBJ.ANALOG_VALUE, instance: 1794, value: 0 }, // present A alarm code
+    { type: OBJ.ANALOG_VALUE, instance: 1846, value: 0 }, // present B alarm code
   ];
 }
 
@@ -368,11 +391,63 @@ describe('Cloud transport – UnitRegistry integration', () => {
     expect(requestedBatchSizes.every((size: number) => size <= 24)).toBe(true);
   });
 
+  it('re-reads settings and counter datapoints only when their poll tier is due', async () => {
+    const clock = sinon.useFakeTimers({ now: 1_000_000, toFake: ['Date'] });
+    const supplyTempPath = bacnetObjectToCloudPath(0, 4);
+    const filterLimitPath = bacnetObjectToCloudPath(2, 286);
+    const filterTimePath = bacnetObjectToCloudPath(2, 285);
+    const readPaths = () => mockClient.readDatapoints.getCalls().flatMap((call: any) => call.args[1]);
+    try {
+      registry.registerCloud(UNIT_ID, mock.device, {
+        plantId: PLANT_ID,
+        client: mockClient,
+      });
+      await sleep(50);
+      expect(readPaths()).toEqual(expect.arrayContaining([supplyTempPath, filterLimitPath, filterTimePath]));
+
+      mockClient.readDatapoints.resetHistory();
+      await (registry as any).cloudPollUnit((registry as any).units.get(UNIT_ID));
+      expect(readPaths()).toContain(supplyTempPath);
+      expect(readPaths()).not.toContain(filterLimitPath);
+      expect(readPaths()).not.toContain(filterTimePath);
+
+      mockClient.readDatapoints.resetHistory();
+      clock.tick(5 * 60_000);
+      await (registry as any).cloudPollUnit((registry as any).units.get(UNIT_ID));
+      expect(readPaths()).toContain(filterLimitPath);
+      expect(readPaths()).not.toContain(filterTimePath);
+
+      mockClient.readDatapoints.resetHistory();
+      clock.tick(55 * 60_000);
+      await (registry as any).cloudPollUnit((registry as any).units.get(UNIT_ID));
+      expect(readPaths()).toEqual(expect.arrayContaining([filterLimitPath, filterTimePath]));
+    } finally {
+      clock.restore();
+    }
+  });
+
+  it('re-reads the settings tier right after a cloud write', async () => {
+    registry.registerCloud(UNIT_ID, mock.device, {
+      plantId: PLANT_ID,
+      client: mockClient,
+    });
+    await sleep(50);
+
+    mockClient.readDatapoints.resetHistory();
+    await registry.setFilterChangeInterval(UNIT_ID, 6 * FILTER_CHANGE_INTERVAL_HOURS_PER_MONTH);
+
+    const readPaths = mockClient.readDatapoints.getCalls().flatMap((call: any) => call.args[1]);
+    expect(readPaths).toContain(bacnetObjectToCloudPath(2, 286));
+    expect(readPaths).not.toContain(bacnetObjectToCloudPath(2, 285));
+  });
+
   it('excludes unsupported cloud datapoints after a 404 and continues polling', async () => {
     const unsupportedPath = bacnetObjectToCloudPath(48, 318);
     const partiallySupportedClient = makeMockCloudClient({
       unsupportedReadPaths: [unsupportedPath],
     });
+    const errorLog = sinon.stub();
+    registry.setLogger({ log: () => {}, error: errorLog, warn: () => {} });
 
     registry.registerCloud(UNIT_ID, mock.device, {
       plantId: PLANT_ID,
@@ -380,6 +455,9 @@ describe('Cloud transport – UnitRegistry integration', () => {
     });
     await sleep(100);
 
+    expect(errorLog.calledWithMatch(
+      `[UnitRegistry] Cloud datapoint Delay time, enter AWAY mode (48:318) at ${unsupportedPath} returned 404`,
+    )).toBe(true);
     const unit = (registry as any).units.get(UNIT_ID);
     expect(unit.unsupportedCloudPollPaths.has(unsupportedPath)).toBe(true);
     expect(unit.consecutiveFailures).toBe(0);
@@ -415,6 +493,9 @@ describe('Cloud transport – UnitRegistry integration', () => {
     expect(mock.capabilityValues['measure_motor_rpm.extract']).toBe(1180);
     expect(mock.capabilityValues['measure_fan_speed_percent']).toBe(75);
     expect(mock.capabilityValues['measure_fan_speed_percent.extract']).toBe(74);
+    expect(mock.capabilityValues['measure_rotor_speed_percent']).toBe(65);
+    expect(mock.capabilityValues['measure_heat_exchanger_efficiency']).toBe(74.01);
+    expect(mock.capabilityValues['heat_exchanger_health']).toBe('ok');
     expect(mock.capabilityValues['target_temperature']).toBe(20);
     expect(mock.capabilityValues['fan_mode']).toBe('home');
     expect(mock.capabilityValues['free_cooling_active']).toBe(false);
@@ -749,6 +830,77 @@ describe('Cloud transport – UnitRegistry integration', () => {
     expect(dehumidificationHandler.firstCall.args[0].active).toBe(true);
   });
 
+  it('triggers alarm raised and cleared from present alarm codes', async () => {
+    const alarmHandler = sinon.stub();
+    registry.setAlarmStateChangedHandler(alarmHandler);
+
+    registry.registerCloud(UNIT_ID, mock.device, {
+      plantId: PLANT_ID,
+      client: mockClient,
+    });
+    await sleep(100);
+    expect(alarmHandler.called).toBe(false);
+    expect(mock.capabilityValues.alarm_generic).toBe(false);
+
+    const withBAlarm = (code: number) => defaultSensorValues().map((v) => (
+      v.type === OBJ.ANALOG_VALUE && v.instance === 1846 ? { ...v, value: code } : v
+    ));
+    mockClient.readDatapoints.callsFake(
+      async (plantId: string) => buildCloudSensorResponse(plantId, withBAlarm(1020)),
+    );
+    await registry.writeSetpoint(UNIT_ID, 21);
+    await sleep(100);
+
+    expect(alarmHandler.calledOnce).toBe(true);
+    expect(alarmHandler.firstCall.args[0]).toMatchObject({
+      raised: true,
+      alarmClass: 'B',
+      code: 1020,
+      text: 'Air filter polluted',
+    });
+    expect(mock.capabilityValues.alarm_generic).toBe(true);
+
+    mockClient.readDatapoints.callsFake(
+      async (plantId: string) => buildCloudSensorResponse(plantId, withBAlarm(0)),
+    );
+    await registry.writeSetpoint(UNIT_ID, 21);
+    await sleep(100);
+
+    expect(alarmHandler.calledTwice).toBe(true);
+    expect(alarmHandler.secondCall.args[0]).toMatchObject({ raised: false, alarmClass: 'B', code: 1020 });
+    expect(mock.capabilityValues.alarm_generic).toBe(false);
+  });
+
+  it('acknowledges alarms via cloud', async () => {
+    registry.registerCloud(UNIT_ID, mock.device, {
+      plantId: PLANT_ID,
+      client: mockClient,
+    });
+    await sleep(50);
+
+    await registry.acknowledgeAlarms(UNIT_ID);
+
+    expect(mockClient.writeDatapoint.callCount).toBe(2);
+    // fault acknowledge = MSV:346, maintenance acknowledge = MSV:348
+    expect(mockClient.writeDatapoint.getCall(0).args[1]).toBe(bacnetObjectToCloudPath(19, 346));
+    expect(mockClient.writeDatapoint.getCall(0).args[2]).toBe(2);
+    expect(mockClient.writeDatapoint.getCall(1).args[1]).toBe(bacnetObjectToCloudPath(19, 348));
+    expect(mockClient.writeDatapoint.getCall(1).args[2]).toBe(2);
+  });
+
+  it('refuses operating mode schedule access for cloud units', async () => {
+    registry.registerCloud(UNIT_ID, mock.device, {
+      plantId: PLANT_ID,
+      client: mockClient,
+    });
+    await sleep(50);
+
+    await expect(registry.getOperatingModeSchedule(UNIT_ID)).rejects.toThrow('only available over BACnet');
+    await expect(registry.setOperatingModeSchedule(UNIT_ID, { exceptions: [] }))
+      .rejects.toThrow('only available over BACnet');
+    expect(mockClient.writeDatapoint.called).toBe(false);
+  });
+
   it('detects change in free cooling state from actual ventilation mode', async () => {
     const freeCoolingHandler = sinon.stub();
     registry.setFreeCoolingStateChangedHandler(freeCoolingHandler);
@@ -817,6 +969,155 @@ describe('Cloud transport – UnitRegistry integration', () => {
     expect(settingsCalls.some((value: any) => value?.free_cooling_min_on_time_seconds === 1200)).toBe(true);
   });
 
+  it('writes and verifies humidity setpoints via cloud', async () => {
+    registry.registerCloud(UNIT_ID, mock.device, {
+      plantId: PLANT_ID,
+      client: mockClient,
+    });
+    await sleep(50);
+
+    expect(mock.setSettings.getCalls().some((call: any) => (
+      call.args[0]?.humidity_setpoint_away === 80
+      && call.args[0]?.humidity_setpoint_present === '70 %'
+    ))).toBe(true);
+
+    await registry.setHumiditySetpoint(UNIT_ID, 'away', 55);
+
+    expect(mockClient.writeDatapoint.calledOnceWithExactly(
+      PLANT_ID,
+      bacnetObjectToCloudPath(2, 63),
+      55,
+    )).toBe(true);
+    const settingsCalls = mock.setSettings.getCalls().map((call: any) => call.args[0]);
+    expect(settingsCalls.some((value: any) => value?.humidity_setpoint_away === 55)).toBe(true);
+  });
+
+  it('syncs and writes neutral zones via cloud', async () => {
+    registry.registerCloud(UNIT_ID, mock.device, {
+      plantId: PLANT_ID,
+      client: mockClient,
+    });
+    await sleep(50);
+
+    expect(mock.setSettings.getCalls().some((call: any) => (
+      call.args[0]?.cooling_neutral_zone_away === 6
+    ))).toBe(true);
+
+    await registry.setNeutralZone(UNIT_ID, 'heating', 'home', 2);
+
+    expect(mockClient.writeDatapoint.calledOnceWithExactly(
+      PLANT_ID,
+      bacnetObjectToCloudPath(2, 1921),
+      2,
+    )).toBe(true);
+    const settingsCalls = mock.setSettings.getCalls().map((call: any) => call.args[0]);
+    expect(settingsCalls.some((value: any) => value?.heating_neutral_zone_home === 2)).toBe(true);
+  });
+
+  it('writes the high ventilation runtime before triggering rapid ventilation via cloud', async () => {
+    registry.registerCloud(UNIT_ID, mock.device, {
+      plantId: PLANT_ID,
+      client: mockClient,
+    });
+    await sleep(50);
+
+    expect(mock.setSettings.getCalls().some((call: any) => call.args[0]?.rapid_duration_minutes === 10)).toBe(true);
+
+    await registry.startRapidVentilation(UNIT_ID, 30);
+
+    const runtimePath = bacnetObjectToCloudPath(48, 293);
+    const triggerPath = bacnetObjectToCloudPath(19, 357);
+    const writes = mockClient.writeDatapoint.getCalls()
+      .map((call: any) => call.args)
+      .filter((args: any[]) => args[1] === runtimePath || args[1] === triggerPath)
+      .map((args: any[]) => [args[1], args[2]]);
+    expect(writes).toEqual([[runtimePath, 30], [triggerPath, 2]]);
+    const settingsCalls = mock.setSettings.getCalls().map((call: any) => call.args[0]);
+    expect(settingsCalls.some((value: any) => value?.rapid_duration_minutes === 30)).toBe(true);
+  });
+
+  it('extends running fireplace via cloud and restores the configured runtime', async () => {
+    const sensorValues = defaultSensorValues().map((entry) => ({ ...entry }));
+    const overrides: Array<[number, number, number]> = [
+      [OBJ.MULTI_STATE_VALUE, 361, 6], // operation mode fireplace
+      [OBJ.BINARY_VALUE, 400, 1], // fireplace state
+      [OBJ.ANALOG_VALUE, 2038, 4.8], // fireplace remaining
+    ];
+    for (const [type, instance, value] of overrides) {
+      const entry = sensorValues.find((candidate) => candidate.type === type && candidate.instance === instance);
+      if (!entry) throw new Error(`Expected default sensor value ${type}:${instance}`);
+      entry.value = value;
+    }
+
+    mockClient = makeMockCloudClient({ sensorValues });
+    registry.registerCloud(UNIT_ID, mock.device, {
+      plantId: PLANT_ID,
+      client: mockClient,
+    });
+    await sleep(50);
+
+    await registry.extendTimedMode(UNIT_ID, 30);
+
+    const writes = mockClient.writeDatapoint.getCalls().map((call: any) => [call.args[1], call.args[2]]);
+    expect(writes).toEqual([
+      [bacnetObjectToCloudPath(19, 360), 2],
+      [bacnetObjectToCloudPath(48, 270), 35],
+      [bacnetObjectToCloudPath(19, 360), 2],
+      [bacnetObjectToCloudPath(48, 270), 10],
+    ]);
+  });
+
+  it('restores the configured runtime via cloud when restarting the extended mode fails', async () => {
+    const sensorValues = defaultSensorValues().map((entry) => ({ ...entry }));
+    const fireplaceRemaining = sensorValues.find((entry) => entry.type === OBJ.ANALOG_VALUE && entry.instance === 2038);
+    if (!fireplaceRemaining) throw new Error('Expected default sensor value for fireplace remaining');
+    fireplaceRemaining.value = 4.8;
+
+    mockClient = makeMockCloudClient({ sensorValues });
+    registry.registerCloud(UNIT_ID, mock.device, {
+      plantId: PLANT_ID,
+      client: mockClient,
+    });
+    await sleep(50);
+    (registry as any).units.get(UNIT_ID).timedMode = 'fireplace';
+    mockClient.writeDatapoint.onCall(2).resolves(false);
+
+    await expect(registry.extendTimedMode(UNIT_ID, 30)).rejects.toThrow(
+      'Failed to extend fireplace ventilation via cloud',
+    );
+
+    const writes = mockClient.writeDatapoint.getCalls().map((call: any) => [call.args[1], call.args[2]]);
+    expect(writes).toEqual([
+      [bacnetObjectToCloudPath(19, 360), 2],
+      [bacnetObjectToCloudPath(48, 270), 35],
+      [bacnetObjectToCloudPath(19, 360), 2],
+      [bacnetObjectToCloudPath(48, 270), 10],
+    ]);
+  });
+
+  it('writes and reads catalog points through their cloud paths', async () => {
+    registry.registerCloud(UNIT_ID, mock.device, {
+      plantId: PLANT_ID,
+      client: mockClient,
+    });
+    await sleep(50);
+
+    await expect(registry.writePointValue(UNIT_ID, '48:318', 45, 12)).rejects.toThrow(
+      'Write priority 12 is only supported on local BACnet connections; the cloud always writes at priority 13.',
+    );
+    await expect(registry.relinquishPointValue(UNIT_ID, '48:318', 13)).rejects.toThrow(
+      'Relinquishing a point is only supported on local BACnet connections.',
+    );
+    await registry.writePointValue(UNIT_ID, '48:318', 45, 13);
+
+    const writes = mockClient.writeDatapoint.getCalls().map((call: any) => [call.args[1], call.args[2]]);
+    expect(writes).toEqual([[bacnetObjectToCloudPath(48, 318), 45]]);
+    expect(await registry.readPointValue(UNIT_ID, '48:318')).toBe(45);
+    await expect(registry.readPointValue(UNIT_ID, '19:609')).rejects.toThrow(
+      'No value returned for filter replace timer reset (19:609)',
+    );
+  });
+
   it('computes filter life correctly from cloud data', async () => {
     registry.registerCloud(UNIT_ID, mock.device, {
       plantId: PLANT_ID,
@@ -1091,6 +1392,55 @@ describe('Cloud transport – UnitRegistry integration', () => {
       expect(err.name).toBe('AuthenticationError');
     }
   });
+
+  it('migrates a cloud unit to the BACnet endpoint matching its plant serial and back', async () => {
+    const discoverFlexitUnits = sinon.stub().resolves([
+      {
+        name: 'Other', serial: '800199-999999', serialNormalized: '800199999999', ip: '192.0.2.20', bacnetPort: 47808,
+      },
+      {
+        name: 'Nordic', serial: '123-456', serialNormalized: '123456', ip: '192.0.2.10', bacnetPort: 47809,
+      },
+    ]);
+    (registry as any).dependencies.discoverFlexitUnits = discoverFlexitUnits;
+    registry.registerCloud(UNIT_ID, mock.device, { plantId: PLANT_ID, client: mockClient });
+    await sleep(50);
+
+    const endpoint = await registry.discoverCloudUnitEndpoint(UNIT_ID);
+    expect(endpoint).toEqual({ serial: '123-456', ip: '192.0.2.10', bacnetPort: 47809 });
+
+    registry.migrateToBacnet(UNIT_ID, endpoint);
+    expect(registry.getActiveTransport(UNIT_ID)).toBe('bacnet');
+    expect(mock.setSettings.calledWithMatch({ serial: '123-456', ip: '192.0.2.10', bacnetPort: '47809' })).toBe(true);
+    expect(mock.setSettings.calledWithMatch({ active_transport: 'Local (BACnet)' })).toBe(true);
+    const unit = (registry as any).units.get(UNIT_ID);
+    expect(unit.discoverySerial).toBe('123456');
+    expect(unit.cloudFailover).toBe(true);
+
+    mockClient.readDatapoints.resetHistory();
+    registry.migrateToCloud(UNIT_ID);
+    await sleep(50);
+    expect(registry.getActiveTransport(UNIT_ID)).toBe('cloud');
+    expect(unit.cloudFailover).toBe(false);
+    expect(mockClient.readDatapoints.called).toBe(true);
+    expect(mock.setSettings.calledWithMatch({ active_transport: 'Flexit Cloud' })).toBe(true);
+    expect(() => registry.migrateToCloud(UNIT_ID)).toThrow('has no linked cloud connection');
+  });
+
+  it('refuses to migrate a cloud unit that is not found on the LAN', async () => {
+    registry.registerCloud(UNIT_ID, mock.device, { plantId: PLANT_ID, client: mockClient });
+    await sleep(50);
+
+    await expect(registry.discoverCloudUnitEndpoint(UNIT_ID))
+      .rejects.toThrow('The unit was not found on the local network.');
+    mockClient.findPlants.resolves([{
+      id: PLANT_ID, name: 'Test Plant', serialNumber: '', isOnline: true,
+    }]);
+    await expect(registry.discoverCloudUnitEndpoint(UNIT_ID))
+      .rejects.toThrow('The Flexit Cloud plant has no serial number');
+    await expect(registry.discoverCloudUnitEndpoint('missing')).rejects.toThrow('is not a registered cloud unit');
+    expect(registry.getActiveTransport(UNIT_ID)).toBe('cloud');
+  });
 });
 
 describe('Cloud transport – FlexitCloudClient', () => {
@@ -313,6 +313,45 @@ describe('fake-unit api server (vitest)', () => {
     }
   });
 
+  it('raises and clears simulated alarms', async () => {
+    const state = createState();
+    const port = await getFreePort();
+    const server = new FakeApiServer(state, { host: '127.0.0.1', port });
+    await server.start();
+    const baseUrl = `http://127.0.0.1:${port}`;
+
+    try {
+      const raised = await request(baseUrl, 'POST', '/feature/alarm/raise', { code: 1020, class: 'B' });
+      expect(raised.response.status).toBe(200);
+      expect(state.getActiveAlarms()).toEqual({ A: [], B: [1020] });
+
+      const defaultClass = await request(baseUrl, 'POST', '/feature/alarm/raise', { code: 1007 });
+      expect(defaultClass.response.status).toBe(200);
+      expect(state.getActiveAlarms().A).toEqual([1007]);
+
+      const invalidClass = await request(baseUrl, 'POST', '/feature/alarm/raise', { code: 1007, class: 'C' });
+      expect(invalidClass.response.status).toBe(400);
+      const invalidCode = await request(baseUrl, 'POST', '/feature/alarm/raise', { code: -5 });
+      expect(invalidCode.response.status).toBe(409);
+
+      const clearedOne = await request(baseUrl, 'POST', '/feature/alarm/clear', { code: 1007 });
+      expect(clearedOne.response.status).toBe(200);
+      expect(state.getActiveAlarms()).toEqual({ A: [], B: [1020] });
+
+      const invalidClear = await request(baseUrl, 'POST', '/feature/alarm/clear', { code: 'x' });
+      expect(invalidClear.response.status).toBe(400);
+
+      const clearedAll = await request(baseUrl, 'POST', '/feature/alarm/clear');
+      expect(clearedAll.response.status).toBe(200);
+      expect(state.getActiveAlarms()).toEqual({ A: [], B: [] });
+
+      const unknown = await request(baseUrl, 'POST', '/feature/alarm/unknown');
+      expect(unknown.response.status).toBe(404);
+    } finally {
+      server.stop();
+    }
+  });
+
   it('returns 409 for action routes when state operations fail and start/stop stay idempotent', async () => {
     const failure = {
       ok: false,
@@ -184,6 +184,44 @@ describe('fake-unit cli', () => {
     expect(requests.find((request) => request.path === '/feature/fireplace/start')?.body).toEqual({});
   });
 
+  it('sends alarm raise and clear commands with default class and optional code', async () => {
+    const requests: Array<{ path: string; body?: any }> = [];
+    global.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+      requests.push({ path: url.pathname, body });
+      if (url.pathname === '/summary') {
+        return new Response(JSON.stringify({
+          ...sampleSummaryPayload(),
+          summary: { ...sampleSummaryPayload().summary, alarms: { A: [1007], B: [] } },
+        }), {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+        });
+      }
+      return new Response(JSON.stringify({ ok: true }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+      });
+    }) as typeof fetch;
+
+    const base = 'http://127.0.0.1:18080';
+    expect(await cli.runFeatureCommand(base, 'alarm', ['raise', '1007'])).toBe(true);
+    expect(await cli.runFeatureCommand(base, 'alarm', ['raise', '1020', 'b'])).toBe(true);
+    expect(await cli.runFeatureCommand(base, 'alarm', ['clear', '1020'])).toBe(true);
+    expect(await cli.runFeatureCommand(base, 'alarm', ['clear'])).toBe(true);
+    await expect(cli.runFeatureCommand(base, 'alarm', ['reset'])).rejects.toThrow('Unknown alarm command: reset');
+
+    const alarmRequests = requests.filter((request) => request.path.startsWith('/feature/alarm/'));
+    expect(alarmRequests).toEqual([
+      { path: '/feature/alarm/raise', body: { code: 1007, class: 'A' } },
+      { path: '/feature/alarm/raise', body: { code: 1020, class: 'B' } },
+      { path: '/feature/alarm/clear', body: { code: 1020 } },
+      { path: '/feature/alarm/clear', body: {} },
+    ]);
+    expect(consoleLogStub.args.some((args) => String(args[0]).includes('Alarms: A=[1007] B=[]'))).toBe(true);
+  });
+
   it('routes debug commands through main()', async () => {
     const requests: Array<{ path: string; body?: any }> = [];
     global.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
@@ -11,6 +11,7 @@ import {
   PROPERTY_ID,
   SUPPORTED_POINTS,
 } from '../scripts/fake-unit/manifest.ts';
+import { getCatalogPoint } from '../lib/flexitPointCatalog.ts';
 
 function findCompatObject(type: number, instance: number) {
   return FLEXIT_GO_PROPRIETARY_COMPAT.objects.find((obj) => obj.objectType === type && obj.instance === instance);
@@ -30,6 +31,20 @@ describe('fake-unit manifest (vitest)', () => {
     }
   });
 
+  it('matches documented points to the point catalog access and engineering units', () => {
+    for (const point of SUPPORTED_POINTS) {
+      const documented = getCatalogPoint(`${point.type}:${point.instance}`);
+      if (!documented) continue;
+      if (documented.access !== 'unknown') {
+        expect(point.access, `Access of ${point.key}`).toBe(documented.access);
+      }
+      if (documented.units) {
+        expect(point.units, `Units of ${point.key}`).toBe(documented.units);
+      }
+    }
+    expect(SUPPORTED_POINTS.find((point) => point.key === 'humidity_room_1')?.units).toBe('%RH');
+  });
+
   it('contains probed AV 1835..1844 present/min/max compatibility values', () => {
     const expected = [
       { instance: 1835, present: 100, max: 100, min: 80 },
@@ -147,6 +147,7 @@ describe('fake-unit runtime script (vitest)', () => {
       '--time-scale', '120',
       '--periodic-iam-ms', '5000',
       '--tick-ms', '250',
+      '--bbmd',
     ]);
 
     expect(options.advertiseAddress).toBe('198.51.100.20');
@@ -156,6 +157,7 @@ describe('fake-unit runtime script (vitest)', () => {
     expect(options.timeScale).toBe(120);
     expect(options.periodicIAmMs).toBe(5000);
     expect(options.tickMs).toBe(250);
+    expect(options.bbmd).toBe(true);
   });
 
   it('falls back to bind address and ignores positional argv entries in parseArgs', () => {
@@ -183,6 +183,64 @@ describe('fake-unit state', () => {
     expect(state.getFilterStatus().operatingHours).toBe(0);
   });
 
+  it('stores schedule programs as raw constructed values and rejects malformed writes', () => {
+    const state = createState();
+    const weekly = state.readScheduleProperty(5, PROPERTY_ID.WEEKLY_SCHEDULE);
+    expect(weekly.ok && weekly.value.toString('hex')).toBe('0e0f'.repeat(7));
+    const exceptions = state.readScheduleProperty(4, PROPERTY_ID.EXCEPTION_SCHEDULE);
+    expect(exceptions.ok && exceptions.value.length).toBe(0);
+
+    const program = Buffer.from(`0eb4061e00002103${'0f0e'.repeat(6)}0f`, 'hex');
+    expect(state.writeScheduleProperty(5, PROPERTY_ID.WEEKLY_SCHEDULE, program).ok).toBe(true);
+    const stored = state.readScheduleProperty(5, PROPERTY_ID.WEEKLY_SCHEDULE);
+    expect(stored.ok && stored.value.equals(program)).toBe(true);
+
+    const tooFewDays = state.writeScheduleProperty(5, PROPERTY_ID.WEEKLY_SCHEDULE, Buffer.from('0e0f', 'hex'));
+    expect(tooFewDays.ok).toBe(false);
+    expect(!tooFewDays.ok && tooFewDays.message).toContain('must contain 7 days');
+    const unbalanced = state.writeScheduleProperty(5, PROPERTY_ID.EXCEPTION_SCHEDULE, Buffer.from('0e', 'hex'));
+    expect(!unbalanced.ok && unbalanced.message).toBe('Malformed schedule value');
+    expect(state.writeScheduleProperty(9, PROPERTY_ID.WEEKLY_SCHEDULE, program).ok).toBe(false);
+    expect(state.writeScheduleProperty(5, PROPERTY_ID.PRESENT_VALUE, program).ok).toBe(false);
+    expect(state.readScheduleProperty(5, PROPERTY_ID.PRESENT_VALUE).ok).toBe(false);
+    expect(state.readScheduleProperty(9, PROPERTY_ID.WEEKLY_SCHEDULE).ok).toBe(false);
+  });
+
+  it('raises, clears, and acknowledges simulated alarms through the present alarm points', () => {
+    const state = createState();
+    const readCode = (instance: number) => {
+      const result = state.readPresentValue(OBJECT_TYPE.ANALOG_VALUE, instance, PROPERTY_ID.PRESENT_VALUE);
+      expect(result.ok).toBe(true);
+      return result.ok ? result.value.value : undefined;
+    };
+
+    expect(state.raiseAlarm(0).ok).toBe(false);
+    expect(state.raiseAlarm(1007, 'A').ok).toBe(true);
+    expect(state.raiseAlarm(1020, 'B').ok).toBe(true);
+    expect(state.raiseAlarm(3007, 'B').ok).toBe(true);
+    expect(readCode(1794)).toBe(1007);
+    expect(readCode(1846)).toBe(3007);
+    expect(state.summary().alarms).toEqual({ A: [1007], B: [1020, 3007] });
+
+    expect(state.clearAlarm(3007).ok).toBe(true);
+    expect(readCode(1846)).toBe(1020);
+
+    const acknowledgeFaults = state.writePresentValue(
+      OBJECT_TYPE.MULTI_STATE_VALUE,
+      346,
+      PROPERTY_ID.PRESENT_VALUE,
+      2,
+      13,
+    );
+    expect(acknowledgeFaults.ok).toBe(true);
+    expect(readCode(1794)).toBe(0);
+    expect(readCode(1846)).toBe(1020);
+    expect(state.getActiveAlarms()).toEqual({ A: [], B: [1020] });
+
+    expect(state.clearAlarm().ok).toBe(true);
+    expect(readCode(1846)).toBe(0);
+  });
+
   it('accepts observed Flexit GO compatibility reset write for AV:285', () => {
     const state = createState();
     expect(state.setFilterOperatingHours(220).ok).toBe(true);
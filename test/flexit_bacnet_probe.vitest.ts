@@ -0,0 +1,156 @@
+import { EventEmitter } from 'events';
+import sinon from 'sinon';
+import {
+  beforeEach, describe, expect, it, vi,
+} from 'vitest';
+
+const probeMocks = vi.hoisted(() => ({
+  client: undefined as any,
+}));
+
+vi.mock('../lib/bacnetClient', () => ({
+  getBacnetClient: () => probeMocks.client,
+}));
+
+function deviceObjectReply(instance: number, properties: Record<number, string>) {
+  return {
+    values: [{
+      objectId: { type: 8, instance },
+      values: Object.entries(properties).map(([id, value]) => ({
+        id: Number(id),
+        value: [{ type: 7, value }],
+      })),
+    }],
+  };
+}
+
+function makeClient(opts: { deviceId?: number; replies?: Record<number, any> } = {}) {
+  const client = Object.assign(new EventEmitter(), {
+    whoIs: sinon.stub(),
+    readPropertyMultiple: sinon.stub().callsFake((_ip: string, request: any[], next: any) => {
+      const reply = opts.replies?.[request[0].objectId.instance];
+      setImmediate(() => (reply ? next(null, reply) : next(new Error('BacnetError Class:1 Code:31'))));
+    }),
+  });
+  client.whoIs.callsFake(({ address }: { address: string }) => {
+    if (opts.deviceId === undefined) return;
+    setImmediate(() => {
+      client.emit('iAm', { address: '192.0.2.99', deviceId: 7 });
+      client.emit('iAm', { address, deviceId: opts.deviceId });
+    });
+  });
+  return client;
+}
+
+describe('probeFlexitUnit', () => {
+  let probeFlexitUnit: typeof import('../lib/flexitBacnetProbe').probeFlexitUnit;
+  let discoverBacnetFlexitUnits: typeof import('../lib/flexitBacnetProbe').discoverBacnetFlexitUnits;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    ({ probeFlexitUnit, discoverBacnetFlexitUnits } = await import('../lib/flexitBacnetProbe'));
+  });
+
+  it('identifies a Nordic unit from the device object that answered the Who-Is', async () => {
+    probeMocks.client = makeClient({
+      deviceId: 2,
+      replies: {
+        2: deviceObjectReply(2, { 77: 'HvacFnct21y_A', 28: '800131-000001', 44: '2.1.0' }),
+      },
+    });
+
+    const unit = await probeFlexitUnit({ ip: '198.51.100.7', bacnetPort: 47808 });
+
+    expect(probeMocks.client.whoIs.firstCall.args[0]).toEqual({ address: '198.51.100.7' });
+    expect(probeMocks.client.listenerCount('iAm')).toBe(0);
+    expect(unit).toEqual({
+      name: 'Nordic S4 REL',
+      model: 'S4 REL',
+      serial: '800131-000001',
+      serialNormalized: '800131000001',
+      ip: '198.51.100.7',
+      bacnetPort: 47808,
+      fw: '2.1.0',
+    });
+  });
+
+  it('reads the serial from the Flexit GO device instance when the description lacks one', async () => {
+    probeMocks.client = makeClient({
+      deviceId: 1001,
+      replies: {
+        1001: deviceObjectReply(1001, { 77: 'Ventilation', 28: 'Air handling unit' }),
+        2: deviceObjectReply(2, { 28: '800299-000042' }),
+      },
+    });
+
+    const unit = await probeFlexitUnit({ ip: '198.51.100.7', bacnetPort: 47809 });
+
+    expect(unit.serialNormalized).toBe('800299000042');
+    expect(unit.name).toBe('Ventilation');
+    expect(unit.bacnetPort).toBe(47809);
+  });
+
+  it('reads the device object directly when the I-Am broadcast is not delivered', async () => {
+    const identity = { 77: 'HvacFnct21y_A', 28: '800131-000001' };
+    probeMocks.client = makeClient({
+      replies: { 4194303: deviceObjectReply(1001, identity), 1001: deviceObjectReply(1001, identity) },
+    });
+
+    const unit = await probeFlexitUnit({ ip: '198.51.100.7', bacnetPort: 47808, timeoutMs: 20 });
+
+    const readInstances = probeMocks.client.readPropertyMultiple.getCalls()
+      .map((call: any) => call.args[1][0].objectId.instance);
+    expect(readInstances).toEqual([4194303, 1001]);
+    expect(unit.serial).toBe('800131-000001');
+
+    probeMocks.client = makeClient({ replies: { 2: deviceObjectReply(2, identity) } });
+    await expect(probeFlexitUnit({ ip: '198.51.100.7', bacnetPort: 47808, timeoutMs: 20 }))
+      .resolves.toMatchObject({ serial: '800131-000001' });
+  });
+
+  it('rejects addresses without a BACnet device or with another kind of device', async () => {
+    probeMocks.client = makeClient();
+    await expect(probeFlexitUnit({ ip: '198.51.100.7', bacnetPort: 47808, timeoutMs: 20 }))
+      .rejects.toThrow('No BACnet device answered at 198.51.100.7:47808.');
+
+    probeMocks.client = makeClient({
+      deviceId: 5,
+      replies: { 5: deviceObjectReply(5, { 28: 'Heat pump 123456-654321' }) },
+    });
+    await expect(probeFlexitUnit({ ip: '198.51.100.7', bacnetPort: 47808 }))
+      .rejects.toThrow('(serial 123456-654321) is not a Flexit Nordic unit.');
+
+    probeMocks.client = makeClient({ deviceId: 5, replies: { 5: deviceObjectReply(5, { 77: 'Boiler' }) } });
+    await expect(probeFlexitUnit({ ip: '198.51.100.7', bacnetPort: 47808 }))
+      .rejects.toThrow('does not report a Flexit serial number.');
+  });
+
+  it('identifies Nordic units among the devices answering a broadcast Who-Is', async () => {
+    const client = makeClient();
+    client.readPropertyMultiple.callsFake((ip: string, request: any[], next: any) => {
+      const { instance } = request[0].objectId;
+      const reply = ip === '192.0.2.20'
+        ? deviceObjectReply(instance, { 28: '800131-000001' })
+        : deviceObjectReply(instance, { 77: 'Heat pump' });
+      setImmediate(() => next(null, reply));
+    });
+    client.whoIs.callsFake(() => setImmediate(() => {
+      client.emit('iAm', { address: '192.0.2.20', deviceId: 2 });
+      client.emit('iAm', { address: '192.0.2.20', deviceId: 2 });
+      client.emit('iAm', { address: '192.0.2.99', deviceId: 7 });
+      client.emit('iAm', { address: '192.0.2.98' });
+    }));
+
+    const units = await discoverBacnetFlexitUnits(client, {
+      broadcastAddresses: ['192.0.2.255', '198.51.100.255'],
+      bacnetPort: 47808,
+      timeoutMs: 20,
+    });
+
+    expect(client.whoIs.args.map((args: any[]) => args[0].address)).toEqual([
+      '192.0.2.255', '198.51.100.255', '192.0.2.255', '198.51.100.255',
+    ]);
+    expect(client.listenerCount('iAm')).toBe(0);
+    expect(units).toEqual([expect.objectContaining({ serialNormalized: '800131000001', ip: '192.0.2.20' })]);
+  });
+});
@@ -3,6 +3,7 @@ import sinon from 'sinon';
 import { afterEach, describe, expect, it } from 'vitest';
 import { findStructuredLog } from './logging_test_utils';
 import {
+  createDiscoveryDiagnostics,
   discoverFlexitUnits,
   listIPv4Interfaces,
   resetFlexitDiscoveryDependenciesForTests,
@@ -202,4 +203,151 @@ describe('flexitDiscovery (vitest)', () => {
     expect(selectionLog?.availableInterfaces).toEqual(['eth0=192.0.2.10', 'eth1=192.0.2.11']);
     expect(selectionLog?.selectedInterfaces).toEqual(['eth0=192.0.2.10', 'eth1=192.0.2.11']);
   });
+
+  it('collects diagnostics and suggestions for a scan that finds nothing', async () => {
+    const rxSocket = createMockSocket();
+    const txSocket = createMockSocket();
+    txSocket.setMulticastInterface.callsFake((address: string) => {
+      if (address === '192.0.2.11') throw new Error('interface failed');
+    });
+    txSocket.send.callsFake(() => {
+      rxSocket.emit('message', Buffer.from('EcoNordic 900501-123456', 'ascii'), { address: '192.0.2.40', port: 30000 });
+      rxSocket.emit('message', Buffer.from('garbage', 'ascii'), { address: '192.0.2.41', port: 30000 });
+    });
+    installDiscoveryDependencies({
+      networkInterfaces: {
+        eth0: [{ family: 'IPv4', internal: false, address: '192.0.2.10' }],
+        eth1: [{ family: 'IPv4', internal: false, address: '192.0.2.11' }],
+      },
+      createSocket: sinon.stub().onFirstCall().returns(rxSocket).onSecondCall().returns(txSocket),
+    });
+    const diagnostics = createDiscoveryDiagnostics();
+
+    const units = await discoverFlexitUnits({
+      timeoutMs: 0,
+      burstCount: 2,
+      burstIntervalMs: 0,
+      diagnostics,
+    });
+
+    expect(units).toEqual([]);
+    expect(diagnostics).toMatchObject({
+      interfaces: ['eth0=192.0.2.10', 'eth1=192.0.2.11'],
+      socketsBound: ['rx 0.0.0.0:30001', 'tx 0.0.0.0:30000'],
+      socketErrors: [],
+      burstsSent: { 'eth0=192.0.2.10': 2 },
+      sendFailures: { 'eth1=192.0.2.11': 2 },
+      repliesReceived: 4,
+      repliesRejected: [{ remote: '192.0.2.40:30000', serial: '900501123456' }],
+      repliesUnreadable: 2,
+      unitCount: 0,
+    });
+    expect(diagnostics.suggestions).toEqual([
+      expect.stringContaining('could not be sent on eth1=192.0.2.11'),
+      expect.stringContaining('only Nordic units'),
+    ]);
+  });
+
+  it('records socket bind failures and suggests a fix when no interface is selected', async () => {
+    const rxSocket = createMockSocket();
+    rxSocket.bind = sinon.stub().callsFake(() => rxSocket.emit('error', new Error('EADDRINUSE')));
+    installDiscoveryDependencies({
+      networkInterfaces: { eth0: [{ family: 'IPv4', internal: false, address: '192.0.2.10' }] },
+      createSocket: sinon.stub().returns(rxSocket),
+    });
+    const diagnostics = createDiscoveryDiagnostics();
+
+    await expect(discoverFlexitUnits({ timeoutMs: 0, diagnostics })).rejects.toThrow('EADDRINUSE');
+    expect(diagnostics.socketErrors).toEqual(['rx 0.0.0.0:30001: EADDRINUSE']);
+    expect(diagnostics.suggestions).toEqual([
+      expect.stringContaining('could not open UDP ports 30000-30001'),
+      expect.stringContaining('No unit answered'),
+    ]);
+
+    const unmatched = createDiscoveryDiagnostics();
+    await discoverFlexitUnits({ interfaceAddress: '198.51.100.9', diagnostics: unmatched });
+    expect(unmatched.suggestions).toEqual([expect.stringContaining('Search on all interfaces instead')]);
+  });
+
+  it('merges BACnet Who-Is results with multicast replies by serial', async () => {
+    const rxSocket = createMockSocket();
+    const txSocket = createMockSocket();
+    const multicastUnit = {
+      name: 'Flexit A',
+      serial: '800131-000001',
+      serialNormalized: '800131000001',
+      ip: '192.0.2.20',
+      bacnetPort: 47808,
+      mac: '00:11:22:33:44:55',
+      fw: undefined,
+    };
+    txSocket.send.callsFake(() => {
+      rxSocket.emit('message', Buffer.from('reply', 'ascii'), { address: '192.0.2.20' });
+    });
+    const bacnetClient = { whoIs: sinon.stub() };
+    const getBacnetClient = sinon.stub().returns(bacnetClient);
+    const discoverBacnetFlexitUnits = sinon.stub().resolves([
+      { ...multicastUnit, name: 'Nordic S4 REL', mac: undefined, fw: '2.1.0' },
+      {
+        name: 'Nordic S3 REL',
+        serial: '800120-000009',
+        serialNormalized: '800120000009',
+        ip: '198.51.100.30',
+        bacnetPort: 47809,
+      },
+    ]);
+    setFlexitDiscoveryDependenciesForTests({
+      networkInterfaces: sinon.stub().returns({
+        eth0: [{
+          family: 'IPv4', internal: false, address: '192.0.2.10', netmask: '255.255.255.0',
+        }],
+        wlan0: [{ family: 'IPv4', internal: false, address: '198.51.100.10' }],
+      }),
+      createSocket: sinon.stub().onFirstCall().returns(rxSocket).onSecondCall().returns(txSocket),
+      randomUUID: sinon.stub().returns('11111111-2222-3333-4444-555555555555'),
+      parseFlexitReply: sinon.stub().returns(multicastUnit),
+      getBacnetClient,
+      discoverBacnetFlexitUnits,
+    });
+
+    const units = await discoverFlexitUnits({
+      timeoutMs: 0,
+      burstCount: 1,
+      burstIntervalMs: 0,
+      strategies: ['multicast', 'bacnet'],
+      bacnetPort: 47809,
+    });
+
+    expect(getBacnetClient.calledOnceWithExactly(47809)).toBe(true);
+    expect(discoverBacnetFlexitUnits.firstCall.args[0]).toBe(bacnetClient);
+    expect(discoverBacnetFlexitUnits.firstCall.args[1]).toMatchObject({
+      broadcastAddresses: ['192.0.2.255', '255.255.255.255'],
+      bacnetPort: 47809,
+      timeoutMs: 0,
+    });
+    expect(units).toEqual([
+      { ...multicastUnit, fw: '2.1.0' },
+      expect.objectContaining({ serialNormalized: '800120000009', ip: '198.51.100.30' }),
+    ]);
+  });
+
+  it('logs BACnet Who-Is discovery failures and returns no units', async () => {
+    const error = sinon.stub();
+    setFlexitDiscoveryDependenciesForTests({
+      networkInterfaces: sinon.stub().returns({
+        eth0: [{ family: 'IPv4', internal: false, address: '192.0.2.10' }],
+      }),
+      getBacnetClient: sinon.stub().throws(new Error('EADDRINUSE')),
+    });
+
+    const units = await discoverFlexitUnits({
+      timeoutMs: 0,
+      strategies: ['bacnet'],
+      log: sinon.stub(),
+      error,
+    });
+
+    expect(units).toEqual([]);
+    expect(findStructuredLog(error, 'discovery.bacnet.failed')?.bacnetPort).toBe(47808);
+  });
 });
@@ -4,7 +4,11 @@ import { describe, expect, it } from 'vitest';
 
 const require = createRequire(import.meta.url);
 // eslint-disable-next-line @typescript-eslint/no-var-requires
-const { getNordicModelFromSerial } = require('../lib/flexitModel.ts');
+const {
+  computeNordicAirflow,
+  getNordicModelFromSerial,
+  getNordicNominalAirflow,
+} = require('../lib/flexitModel.ts');
 
 describe('flexitModel (vitest)', () => {
   it('returns a known model for recognized serial prefixes', () => {
@@ -15,4 +19,19 @@ describe('flexitModel (vitest)', () => {
     expect(getNordicModelFromSerial('8001')).toBeNull();
     expect(getNordicModelFromSerial('899999-123456')).toBeNull();
   });
+
+  it('looks up nominal airflow by model size', () => {
+    expect(getNordicNominalAirflow('S4 REL')).toBe(560);
+    expect(getNordicNominalAirflow('CL3 RER')).toBe(320);
+    expect(getNordicNominalAirflow('X9 REL')).toBeNull();
+    expect(getNordicNominalAirflow(null)).toBeNull();
+  });
+
+  it('computes airflow from fan inlet pressure with the model k-factor', () => {
+    expect(computeNordicAirflow('S4 REL', 25)).toBe(380);
+    expect(computeNordicAirflow('S3 RER', 44.4)).toBe(400);
+    expect(computeNordicAirflow('S3 RER', -2)).toBe(0);
+    expect(computeNordicAirflow('X9 REL', 25)).toBeNull();
+    expect(computeNordicAirflow(null, 25)).toBeNull();
+  });
 });
@@ -0,0 +1,91 @@
+/* eslint-disable import/extensions */
+import { describe, expect, it } from 'vitest';
+import {
+  catalogPointKey,
+  describeBacnetObject,
+  findCatalogMismatches,
+  formatCatalogPoint,
+  getCatalogPoint,
+  isWritableCatalogPoint,
+  searchCatalogPoints,
+} from '../lib/flexitPointCatalog.ts';
+import { getAlarmText } from '../lib/flexitAlarms.ts';
+import { REGISTRY_POINT_USAGES } from '../lib/UnitRegistry.ts';
+
+// Points the registry reads that the Flexit documentation does not list. AI:59 is polled as
+// the primary extract air temperature; units that leave it unset report it on AI:95.
+const KNOWN_UNDOCUMENTED_READS = ['0:59'];
+
+describe('flexitPointCatalog', () => {
+  it('looks up points by object key and formats them with their description', () => {
+    const point = getCatalogPoint(' 0:4 ');
+
+    expect(point).toMatchObject({ type: 0, instance: 4, access: 'R' });
+    expect(formatCatalogPoint(point!)).toBe('Supply air temperature (0:4)');
+    expect(isWritableCatalogPoint(point!)).toBe(false);
+    expect(getCatalogPoint('9:9999')).toBeUndefined();
+  });
+
+  it('matches every query word and lists descriptions starting with the query first', () => {
+    const results = searchCatalogPoints('supply air temp');
+
+    expect(results.length).toBeGreaterThan(0);
+    expect(results[0].description.toLowerCase().startsWith('supply air temp')).toBe(true);
+    expect(results.every((point) => /supply/i.test(point.description) && /temp/i.test(point.description)))
+      .toBe(true);
+    expect(searchCatalogPoints('48:318').map((point) => point.key)).toEqual(['48:318']);
+  });
+
+  it('limits writable searches to RW points and caps the result count', () => {
+    const writable = searchCatalogPoints('setpoint', { writableOnly: true });
+
+    expect(writable.length).toBeGreaterThan(0);
+    expect(writable.every(isWritableCatalogPoint)).toBe(true);
+    expect(searchCatalogPoints('').length).toBe(30);
+  });
+
+  it('carries object names, engineering units, enum values and observed-behaviour notes', () => {
+    expect(getCatalogPoint('0:4')).toMatchObject({ name: "R(1)'TSu", units: 'degC' });
+    expect(getCatalogPoint('2:1921')?.units).toBe('K');
+    expect(getCatalogPoint('5:50')?.enumValues).toEqual({ AWAY: 0, HOME: 1 });
+    expect(getCatalogPoint('5:50')?.units).toBeUndefined();
+    expect(getCatalogPoint('2:285')?.notes?.length).toBeGreaterThan(0);
+  });
+
+  it('takes alarm texts from the alarm structured views and shows unknown codes raw', () => {
+    expect(getAlarmText(1001)).toBe('Supply air temperature, sensor fault');
+    expect(getAlarmText(3007)).toBe('RF communication error');
+    expect(getAlarmText(2015)).toBe('Alarm 2015');
+  });
+
+  it('describes BACnet objects for logs by catalog description', () => {
+    expect(describeBacnetObject({ type: 0, instance: 4 })).toBe('Supply air temperature (0:4)');
+    expect(describeBacnetObject({ type: 2, instance: 99999 })).toBe('2:99999');
+  });
+
+  it('flags undocumented points and writes to read-only points not flagged as observed writes', () => {
+    expect(findCatalogMismatches([
+      { type: 0, instance: 4, write: false },
+      { type: 2, instance: 99999, write: false },
+      { type: 0, instance: 4, write: true },
+      { type: 2, instance: 285, write: true },
+      { type: 2, instance: 1921, write: true },
+    ])).toEqual([
+      '2:99999 is not in the point catalog',
+      'Supply air temperature (0:4) is written but documented as read-only',
+    ]);
+  });
+
+  it('documents every point the registry reads apart from the known undocumented reads', () => {
+    const documentedUsages = REGISTRY_POINT_USAGES.filter((usage) => (
+      !KNOWN_UNDOCUMENTED_READS.includes(catalogPointKey(usage.type, usage.instance))
+    ));
+
+    expect(documentedUsages.length).toBeGreaterThan(100);
+    expect(findCatalogMismatches(documentedUsages)).toEqual([]);
+    for (const key of KNOWN_UNDOCUMENTED_READS) {
+      expect(getCatalogPoint(key), `${key} is documented now`).toBeUndefined();
+      expect(REGISTRY_POINT_USAGES.some((usage) => catalogPointKey(usage.type, usage.instance) === key)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,42 @@
+/* eslint-disable import/extensions */
+import { describe, expect, it } from 'vitest';
+import { decodeStructuredReply } from '../lib/flexitReplyDecoder.ts';
+import { buildStructuredDiscoveryReply } from '../scripts/fake-unit/discoveryResponder.ts';
+
+const RESPONDER_OPTIONS = {
+  advertiseAddress: '192.0.2.20',
+  bacnetPort: 47808,
+  serial: '800131-000001',
+  deviceName: 'HvacFnct21y_A',
+  firmware: '03.39.03.38',
+  mac: '02:00:00:00:00:01',
+};
+
+describe('flexitReplyDecoder (vitest)', () => {
+  it('decodes the sections and typed fields of a structured reply', () => {
+    const reply = decodeStructuredReply(buildStructuredDiscoveryReply(RESPONDER_OPTIONS, Buffer.alloc(0)));
+
+    expect(reply?.name).toBe('identification');
+    expect([...reply!.sections.keys()]).toEqual([1, 4, 5, 6, 7, 12]);
+    expect(Object.fromEntries(reply!.sections.get(5)!)).toEqual({
+      1: 2,
+      2: 'HvacFnct21y_A',
+      3: 0,
+      4: 'FW=03.39.03.38:BL=00.05.02.0003;SVS-300.4:SBC=13.24;',
+      5: '192.0.2.20:47808',
+      6: 0,
+    });
+    expect(reply!.sections.get(12)?.get(2)).toBe('2.11.0');
+  });
+
+  it('rejects payloads that are not structured or are cut short', () => {
+    const payload = buildStructuredDiscoveryReply(RESPONDER_OPTIONS, Buffer.alloc(0));
+    const header = payload.subarray(0, 26);
+
+    expect(decodeStructuredReply(Buffer.from('HvacFnct21y_A 800131-000001 192.0.2.20:47808', 'ascii'))).toBe(null);
+    expect(decodeStructuredReply(payload.subarray(0, payload.length - 10))).toBe(null);
+    expect(decodeStructuredReply(Buffer.concat([header, Buffer.from([0x0c, 0x00, 0x01, 0x42, 0x00, 0x01])])))
+      .toBe(null);
+    expect(decodeStructuredReply(Buffer.concat([header, Buffer.from([0x08, 0x00, 0x01, 0, 0, 0, 1])]))).toBe(null);
+  });
+});
@@ -1,6 +1,7 @@
 /* eslint-disable import/extensions */
 import { describe, expect, it } from 'vitest';
-import { parseFlexitReply } from '../lib/flexitReplyParser.ts';
+import { findReplySerial, parseFirmwareComponents, parseFlexitReply } from '../lib/flexitReplyParser.ts';
+import { buildStructuredDiscoveryReply } from '../scripts/fake-unit/discoveryResponder.ts';
 
 describe('flexitReplyParser (vitest)', () => {
   it('uses model-based name when serial maps to a known model', () => {
@@ -51,4 +52,42 @@ describe('flexitReplyParser (vitest)', () => {
     const parsed = parseFlexitReply(payload, '198.51.100.23');
     expect(parsed).toBe(null);
   });
+
+  it('finds the serial in replies it does not parse', () => {
+    expect(findReplySerial(Buffer.from('EcoNordic\x00900501-123456 FW9.9.9', 'latin1'))).toBe('900501123456');
+    expect(findReplySerial(Buffer.from('no serial here', 'ascii'))).toBeUndefined();
+  });
+
+  it('reads unit details from a structured reply', () => {
+    const payload = buildStructuredDiscoveryReply({
+      advertiseAddress: '192.0.2.20',
+      bacnetPort: 47809,
+      serial: '800131-000001',
+      deviceName: 'HvacFnct21y_A',
+      firmware: '03.39.03.38',
+      mac: '02:00:00:00:00:01',
+      gateway: '192.0.2.254',
+    }, Buffer.alloc(0));
+
+    expect(parseFlexitReply(payload, '192.0.2.99')).toEqual({
+      name: 'Nordic S4 REL',
+      model: 'S4 REL',
+      serial: '800131-000001',
+      serialNormalized: '800131000001',
+      ip: '192.0.2.20',
+      bacnetPort: 47809,
+      mac: '02:00:00:00:00:01',
+      fw: '03.39.03.38',
+      platformCode: '160100F2C5',
+      platformVersion: 'POS3.67',
+      firmwareComponents: {
+        FW: '03.39.03.38', BL: '00.05.02.0003', SVS: '300.4', SBC: '13.24',
+      },
+      appVersion: '2.11.0',
+      interfaceName: 'Eth',
+      netmask: '255.255.255.0',
+      gateway: '192.0.2.254',
+    });
+    expect(parseFirmwareComponents(';;')).toBeUndefined();
+  });
 });
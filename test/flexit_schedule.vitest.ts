@@ -0,0 +1,72 @@
+/* eslint-disable import/extensions */
+import { describe, expect, it } from 'vitest';
+import { createEmptyWeeklySchedule } from '../lib/bacnetSchedule.ts';
+import {
+  formatScheduleDay,
+  formatScheduleExceptions,
+  formatScheduleSettings,
+  parseScheduleDay,
+  parseScheduleExceptions,
+} from '../lib/flexitSchedule.ts';
+
+describe('flexitSchedule', () => {
+  it('parses a day of mode switches in any order and case', () => {
+    expect(parseScheduleDay('22:00 Away; 6:30 home,\n12:00 none')).toEqual([
+      { time: '06:30', value: 3 },
+      { time: '12:00', value: null },
+      { time: '22:00', value: 2 },
+    ]);
+    expect(parseScheduleDay('  ')).toEqual([]);
+  });
+
+  it('rejects malformed schedule days', () => {
+    expect(() => parseScheduleDay('06:30')).toThrow("Use 'HH:MM mode'");
+    expect(() => parseScheduleDay('06:30 turbo')).toThrow("Unknown schedule mode 'turbo'");
+    expect(() => parseScheduleDay('06:30 home, 6:30 away')).toThrow('switch twice');
+  });
+
+  it('formats unknown values as numbers', () => {
+    expect(formatScheduleDay([{ time: '08:00', value: 1 }, { time: '09:00', value: 9 }])).toBe('08:00 stop, 09:00 9');
+  });
+
+  it('round-trips exception lines of every period kind', () => {
+    const text = [
+      '2026-12-24: 07:00 home',
+      '2026-07-01..2026-07-31 p4: 00:00 away',
+      'weekday */6/5 p12: 16:00 high',
+      'calendar 2: ',
+    ].join('\n');
+
+    const exceptions = parseScheduleExceptions(text);
+
+    expect(exceptions.map((exception) => exception.period.kind)).toEqual([
+      'date', 'dateRange', 'weekNDay', 'calendar',
+    ]);
+    expect(exceptions[2].period).toEqual({
+      kind: 'weekNDay', month: null, weekOfMonth: 6, dayOfWeek: 5,
+    });
+    expect(formatScheduleExceptions(exceptions)).toBe(text);
+  });
+
+  it('rejects malformed exception lines', () => {
+    expect(() => parseScheduleExceptions('christmas')).toThrow('Invalid schedule exception');
+    expect(() => parseScheduleExceptions('2026-12-24 p17: 07:00 home')).toThrow('between 1 and 16');
+    expect(() => parseScheduleExceptions('weekday 15/1/1: 07:00 home')).toThrow("Invalid month '15'");
+  });
+
+  it('formats every schedule setting', () => {
+    const weekly = createEmptyWeeklySchedule();
+    weekly.friday = [{ time: '17:00', value: 4 }];
+
+    expect(formatScheduleSettings(weekly, [])).toEqual({
+      schedule_monday: '',
+      schedule_tuesday: '',
+      schedule_wednesday: '',
+      schedule_thursday: '',
+      schedule_friday: '17:00 high',
+      schedule_saturday: '',
+      schedule_sunday: '',
+      schedule_exceptions: '',
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/* eslint-disable import/extensions */
+import { describe, expect, it } from 'vitest';
+import {
+  computeOperatingHoursBreakdown,
+  isOperatingHoursPeriod,
+  recordOperatingHoursSnapshot,
+  snapshotDate,
+} from '../lib/flexitStatistics.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+describe('flexitStatistics', () => {
+  it('records only the first reading of each day and keeps snapshots sorted', () => {
+    const first = recordOperatingHoursSnapshot([], { total: 100, high: 5 }, NOW - DAY_MS);
+    const second = recordOperatingHoursSnapshot(first, { total: 110, high: 6 }, NOW);
+    const sameDay = recordOperatingHoursSnapshot(second, { total: 111, high: 7 }, NOW + 1000);
+
+    expect(second.map((snapshot) => snapshot.date)).toEqual(['2026-10-18', '2026-10-19']);
+    expect(sameDay).toBe(second);
+    expect(second[1].hours).toEqual({ total: 110, high: 6 });
+  });
+
+  it('caps stored snapshots to the most recent days', () => {
+    let snapshots: any[] = [];
+    for (let day = 0; day < 40; day++) {
+      snapshots = recordOperatingHoursSnapshot(snapshots, { total: day }, NOW - (39 - day) * DAY_MS);
+    }
+    expect(snapshots.length).toBe(35);
+    expect(snapshots[snapshots.length - 1].date).toBe(snapshotDate(NOW));
+  });
+
+  it('computes mode hours per period from the oldest snapshot inside it', () => {
+    const snapshots = [
+      { date: snapshotDate(NOW - 10 * DAY_MS), hours: { total: 1000, high: 10, heater: 200 } },
+      { date: snapshotDate(NOW - 6 * DAY_MS), hours: { total: 1100, high: 12, heater: 210 } },
+      { date: snapshotDate(NOW), hours: { total: 1240, high: 20, heater: 230 } },
+    ];
+    const current = { total: 1250, high: 21, heater: 231 };
+
+    expect(computeOperatingHoursBreakdown(current, snapshots, 'today', NOW)).toMatchObject({
+      total: 10, high: 1, heater: 1, away: 0,
+    });
+    expect(computeOperatingHoursBreakdown(current, snapshots, 'week', NOW)).toMatchObject({
+      total: 150, high: 9, heater: 21,
+    });
+    expect(computeOperatingHoursBreakdown(current, snapshots, 'month', NOW)).toMatchObject({ total: 250 });
+    expect(computeOperatingHoursBreakdown(current, snapshots, 'total', NOW)).toMatchObject({ total: 1250 });
+    expect(computeOperatingHoursBreakdown(current, [], 'week', NOW)).toMatchObject({ total: 0 });
+  });
+
+  it('recognizes supported periods', () => {
+    expect(isOperatingHoursPeriod('week')).toBe(true);
+    expect(isOperatingHoursPeriod('year')).toBe(false);
+  });
+});
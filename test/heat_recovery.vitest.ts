@@ -0,0 +1,56 @@
+/* eslint-disable import/extensions */
+import { describe, expect, it } from 'vitest';
+import {
+  computeRecoveredPowerWatts,
+  computeTemperatureEfficiency,
+  smoothRecoveredPower,
+} from '../lib/heatRecovery.ts';
+
+describe('heatRecovery', () => {
+  it('computes supply and exhaust temperature efficiency', () => {
+    expect(computeTemperatureEfficiency({
+      outdoor: 0, supply: 16, extract: 21, exhaust: 5,
+    })).toEqual({ supply: 76.2, exhaust: 76.2 });
+  });
+
+  it('skips efficiency when extract and outdoor are too close and clamps outliers', () => {
+    expect(computeTemperatureEfficiency({
+      outdoor: 20, supply: 21, extract: 22, exhaust: 20.5,
+    })).toBeUndefined();
+    expect(computeTemperatureEfficiency({
+      outdoor: 0, supply: 24, extract: 20, exhaust: 22,
+    })).toEqual({ supply: 100, exhaust: 0 });
+  });
+
+  it('estimates recovered power from airflow and supply temperature rise', () => {
+    expect(Math.round(computeRecoveredPowerWatts(300, 0, 16))).toBe(1608);
+    expect(computeRecoveredPowerWatts(300, 25, 22)).toBeLessThan(0);
+  });
+
+  it('averages recovered power over the smoothing window weighted by how long each sample held', () => {
+    const samples = [
+      { at: 0, watts: 900 },
+      { at: 60_000, watts: 1000 },
+      { at: 120_000, watts: 1200 },
+    ];
+    // 900 W for 30 s of the window, 1000 W for 60 s and 1200 W for the last 30 s.
+    expect(smoothRecoveredPower(samples, 120_000, 150_000)).toBe(1025);
+    expect(smoothRecoveredPower(samples, 0, 120_000)).toBe(1200);
+    expect(smoothRecoveredPower(samples, 60_000, 120_000)).toBe(1000);
+    expect(smoothRecoveredPower([{ at: 120_000, watts: 1200 }], 60_000, 120_000)).toBe(1200);
+    expect(smoothRecoveredPower(samples, 1_000, 500_000)).toBeUndefined();
+    expect(smoothRecoveredPower([], 60_000, 0)).toBeUndefined();
+  });
+
+  it('does not let a burst of polls outweigh a longer steady period', () => {
+    const samples = [
+      { at: 0, watts: 1000 },
+      { at: 50_000, watts: 2000 },
+      { at: 51_000, watts: 2000 },
+      { at: 52_000, watts: 2000 },
+      { at: 53_000, watts: 1000 },
+    ];
+    // Averaged by count this would be 1600 W; 2000 W only held for 3 of the 60 s.
+    expect(smoothRecoveredPower(samples, 60_000, 60_000)).toBe(1050);
+  });
+});
@@ -10,6 +10,7 @@ class MockCloudBaseDevice {
   getData = sinon.stub().returns({ unitId: 'unit-1', plantId: 'plant-1' });
   getName = sinon.stub().returns('Test Cloud Nordic');
   getStoreValue = sinon.stub().returns(undefined);
+  getSetting = sinon.stub().returns(undefined);
   setStoreValue = sinon.stub().resolves();
   setUnavailable = sinon.stub().resolves();
   log = sinon.stub();
@@ -263,4 +264,75 @@ describe('Nordic cloud device (vitest)', () => {
       findStructuredLog(device.error, 'device.token_persist.expiry.failed')?.error?.message,
     ).toBe('expiry failed');
   });
+
+  it('restores a saved local connection after registering the cloud unit', async () => {
+    const migrateToBacnet = sinon.stub();
+    setCloudDeviceMocks({
+      clients: [1, 2, 3].map(() => ({ restoreToken: sinon.stub() })),
+      registry: {
+        registerCloud: sinon.stub().returns({ onTokenRefreshed: sinon.stub() }),
+        migrateToBacnet,
+      },
+    });
+    vi.resetModules();
+    const mod = await import('../drivers/nordic-cloud/device.ts');
+    DeviceClass = mod.default ?? mod;
+
+    const device = new DeviceClass();
+    device.getStoreValue.withArgs('cloudRefreshToken').returns('refresh-token');
+    device.getSetting.withArgs('local_connection').returns(true);
+    device.getSetting.withArgs('serial').returns('800199-000001');
+    device.getSetting.withArgs('ip').returns('192.0.2.10');
+    device.getSetting.withArgs('bacnetPort').returns('47808');
+
+    await device.onInit();
+
+    expect(migrateToBacnet.calledOnceWithExactly('unit-1', {
+      serial: '800199-000001',
+      ip: '192.0.2.10',
+      bacnetPort: 47808,
+    })).toBe(true);
+
+    migrateToBacnet.throws(new Error('not registered'));
+    await device.onInit();
+    expect(findStructuredLog(device.error, 'device.migration.restore.failed')?.error?.message).toBe('not registered');
+
+    device.getSetting.withArgs('ip').returns('-');
+    device.getSetting.withArgs('bacnetPort').returns('-');
+    await device.onInit();
+    expect(migrateToBacnet.callCount).toBe(2);
+    expect(findStructuredLog(device.error, 'device.migration.restore.invalid_endpoint')).toBeTruthy();
+  });
+
+  it('migrates between cloud and local BACnet when the local connection setting changes', async () => {
+    const endpoint = { serial: '800199-000001', ip: '192.0.2.10', bacnetPort: 47808 };
+    setCloudDeviceMocks({
+      registry: {
+        registerCloud: sinon.stub(),
+        discoverCloudUnitEndpoint: sinon.stub().resolves(endpoint),
+        migrateToBacnet: sinon.stub(),
+        migrateToCloud: sinon.stub(),
+      },
+    });
+    vi.resetModules();
+    const mod = await import('../drivers/nordic-cloud/device.ts');
+    DeviceClass = mod.default ?? mod;
+    const device = new DeviceClass();
+    const registry = nordicCloudDeviceMocks.registryStub;
+
+    await device.handleTransportSettings({ local_connection: true }, ['filter_change_interval_months']);
+    expect(registry.discoverCloudUnitEndpoint.called).toBe(false);
+
+    await device.handleTransportSettings({ local_connection: true }, ['local_connection']);
+    expect(registry.discoverCloudUnitEndpoint.calledOnceWithExactly('unit-1')).toBe(true);
+    expect(registry.migrateToBacnet.calledOnceWithExactly('unit-1', endpoint)).toBe(true);
+
+    await device.handleTransportSettings({ local_connection: false }, ['local_connection']);
+    expect(registry.migrateToCloud.calledOnceWithExactly('unit-1')).toBe(true);
+
+    registry.discoverCloudUnitEndpoint.rejects(new Error('The unit was not found on the local network.'));
+    await expect(device.handleTransportSettings({ local_connection: true }, ['local_connection']))
+      .rejects.toThrow('The unit was not found on the local network.');
+    expect(registry.migrateToBacnet.calledOnce).toBe(true);
+  });
 });
@@ -6,6 +6,7 @@ const EXHAUST_TEMP_CAPABILITY = 'measure_temperature.exhaust';
 const DEHUMIDIFICATION_ACTIVE_CAPABILITY = 'dehumidification_active';
 const FREE_COOLING_ACTIVE_CAPABILITY = 'free_cooling_active';
 const RESET_FILTER_CAPABILITY = 'button.reset_filter';
+const RESET_HEATER_ENERGY_CAPABILITY = 'button.reset_heater_energy';
 
 class MockHomeyDevice {
   setClass = sinon.stub().resolves();
@@ -15,6 +16,9 @@ class MockHomeyDevice {
   getSetting = sinon.stub().returns(undefined);
   registerCapabilityListener = sinon.stub();
   getCapabilityValue = sinon.stub().returns(undefined);
+  setCapabilityValue = sinon.stub().resolves();
+  getStoreValue = sinon.stub().returns(undefined);
+  setStoreValue = sinon.stub().resolves();
   getData = sinon.stub().returns({ unitId: 'test_unit' });
   getName = sinon.stub().returns('Test Nordic');
   log = sinon.stub();
@@ -40,6 +44,7 @@ describe('Nordic device', () => {
     registryStub = {
       register: sinon.stub(),
       unregister: sinon.stub(),
+      linkCloudFailover: sinon.stub(),
       writeSetpoint: sinon.stub().resolves(),
       setTemperatureSetpoint: sinon.stub().resolves(),
       setFanMode: sinon.stub().resolves(),
@@ -51,6 +56,11 @@ describe('Nordic device', () => {
       setFreeCoolingTemperatureSetpoint: sinon.stub().resolves(),
       setFreeCoolingOutsideTemperatureLimit: sinon.stub().resolves(),
       setFreeCoolingMinOnTimeSeconds: sinon.stub().resolves(),
+      setOperatingModeSchedule: sinon.stub().resolves(),
+      setHumiditySetpoint: sinon.stub().resolves(),
+      setNeutralZone: sinon.stub().resolves(),
+      setRapidVentilationDuration: sinon.stub().resolves(),
+      setForeignDeviceRegistration: sinon.stub(),
     };
 
     const unitRegistryModuleStub = {
@@ -64,6 +74,19 @@ describe('Nordic device', () => {
       FREE_COOLING_OUTSIDE_TEMPERATURE_LIMIT_SETTING: 'free_cooling_outside_temp_limit',
       FREE_COOLING_MIN_ON_TIME_SECONDS_SETTING: 'free_cooling_min_on_time_seconds',
       FIREPLACE_DURATION_SETTING: 'fireplace_duration_minutes',
+      RAPID_DURATION_SETTING: 'rapid_duration_minutes',
+      BBMD_ADDRESS_SETTING: 'bbmd_address',
+      BBMD_TTL_SETTING: 'bbmd_ttl_seconds',
+      HUMIDITY_SETPOINT_MODES: ['home', 'away', 'high'],
+      HUMIDITY_SETPOINT_HOME_SETTING: 'humidity_setpoint_home',
+      HUMIDITY_SETPOINT_AWAY_SETTING: 'humidity_setpoint_away',
+      HUMIDITY_SETPOINT_HIGH_SETTING: 'humidity_setpoint_high',
+      NEUTRAL_ZONE_KINDS: ['heating', 'cooling'],
+      NEUTRAL_ZONE_MODES: ['home', 'away'],
+      NEUTRAL_ZONE_SETTING_KEYS: {
+        heating: { home: 'heating_neutral_zone_home', away: 'heating_neutral_zone_away' },
+        cooling: { home: 'cooling_neutral_zone_home', away: 'cooling_neutral_zone_away' },
+      },
       MIN_TARGET_TEMPERATURE_C: 10,
       MAX_TARGET_TEMPERATURE_C: 30,
       MIN_FREE_COOLING_TEMPERATURE_C: 10,
@@ -97,6 +120,13 @@ describe('Nordic device', () => {
         }
         return rounded;
       },
+      normalizeRapidDurationMinutes: (value: unknown) => {
+        const rounded = Math.round(Number(value));
+        if (!Number.isFinite(rounded) || rounded < 1 || rounded > 360) {
+          throw new Error('High ventilation duration must be between 1 and 360 minutes');
+        }
+        return rounded;
+      },
       normalizeFreeCoolingTemperature: (value: unknown) => {
         const numeric = Number(value);
         if (!Number.isFinite(numeric)) {
@@ -118,6 +148,20 @@ describe('Nordic device', () => {
         }
         return rounded;
       },
+      normalizeHumiditySetpoint: (value: unknown) => {
+        const rounded = Math.round(Number(value));
+        if (rounded < 0 || rounded > 100) {
+          throw new Error('Humidity setpoint must be between 0 and 100 %');
+        }
+        return rounded;
+      },
+      normalizeNeutralZone: (value: unknown) => {
+        const numeric = Number(value);
+        if (numeric < 0 || numeric > 10) {
+          throw new Error('Neutral zone must be between 0 and 10 K');
+        }
+        return Math.round(numeric * 2) / 2;
+      },
       normalizeFanProfilePercent: (value: number, mode: string, fan: string) => {
         const rounded = Math.round(value);
         const ranges: Record<string, Record<string, { min: number; max: number }>> = {
@@ -202,6 +246,104 @@ describe('Nordic device', () => {
     expect(registryStub.register.calledOnceWithExactly('test_unit', device)).toBe(true);
   });
 
+  it('adds registry-detected capabilities that are missing', async () => {
+    const device = new DeviceClass();
+    device.hasCapability.withArgs('measure_humidity.room1').returns(true);
+    device.hasCapability.withArgs('measure_humidity.vmsh2').returns(false);
+
+    await device.ensureCapabilities(['measure_humidity.room1', 'measure_humidity.vmsh2']);
+
+    expect(device.addCapability.calledOnceWithExactly('measure_humidity.vmsh2')).toBe(true);
+  });
+
+  it('accumulates heater energy on top of the stored total and resets it from the maintenance button', async () => {
+    const device = new DeviceClass();
+    device.getStoreValue.withArgs('heater_energy_kwh').returns(12.5);
+    await device.onInit();
+
+    await device.addHeaterEnergy(0.25);
+    await device.addHeaterEnergy(0.0004);
+
+    expect(device.setStoreValue.withArgs('heater_energy_kwh').callCount).toBe(1);
+    expect(device.setStoreValue.lastCall.args).toEqual(['heater_energy_kwh', 12.75]);
+    expect(device.setCapabilityValue.calledWith('meter_power', 12.75)).toBe(true);
+
+    await device.onUninit();
+    expect(device.setStoreValue.lastCall.args[1]).toBeCloseTo(12.7504);
+
+    const resetListener = device.registerCapabilityListener.getCall(3).args[1];
+    await resetListener(true);
+    expect(device.setStoreValue.lastCall.args).toEqual(['heater_energy_kwh', 0]);
+    expect(device.setCapabilityValue.lastCall.args).toEqual(['meter_power', 0]);
+    expect(findStructuredLog(device.log, 'device.heater_energy.reset')?.previousKwh).toBe(12.75);
+  });
+
+  it('batches heater energy store writes until a minute passes', async () => {
+    const clock = sinon.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const device = new DeviceClass();
+    device.getStoreValue.withArgs('heater_energy_kwh').returns(1);
+
+    await device.addHeaterEnergy(0.01);
+    await device.addHeaterEnergy(0.02);
+    expect(device.setStoreValue.called).toBe(false);
+    expect(device.setCapabilityValue.lastCall.args).toEqual(['meter_power', 1.03]);
+
+    await clock.tickAsync(60_000);
+    clock.restore();
+
+    expect(device.setStoreValue.callCount).toBe(1);
+    expect(device.setStoreValue.lastCall.args[1]).toBeCloseTo(1.03);
+  });
+
+  it('stores the write journal at most every 30 seconds and on uninit', async () => {
+    const clock = sinon.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const device = new DeviceClass();
+    const entry = (value: number) => ({ at: '2026-10-19T12:00:00.000Z', object: '2:1994', value }) as any;
+
+    await device.saveWriteJournal([entry(20)]);
+    await device.saveWriteJournal([entry(20), entry(21)]);
+    expect(device.setStoreValue.called).toBe(false);
+    expect(device.loadWriteJournal()).toEqual([entry(20), entry(21)]);
+
+    await clock.tickAsync(30_000);
+    expect(device.setStoreValue.callCount).toBe(1);
+    expect(device.setStoreValue.lastCall.args).toEqual(['write_journal', [entry(20), entry(21)]]);
+
+    await device.saveWriteJournal([entry(22)]);
+    await device.onUninit();
+    await clock.tickAsync(30_000);
+    clock.restore();
+
+    expect(device.setStoreValue.callCount).toBe(2);
+    expect(device.setStoreValue.lastCall.args).toEqual(['write_journal', [entry(22)]]);
+  });
+
+  it('stores daily operating-hour snapshots and reports the breakdown for a period', async () => {
+    const clock = sinon.useFakeTimers({ now: Date.UTC(2026, 9, 19, 12), toFake: ['Date'] });
+    const device = new DeviceClass();
+    const store: Record<string, unknown> = {
+      operating_hours_snapshots: [{ date: '2026-10-15', hours: { total: 1000, high: 10 } }],
+    };
+    device.getStoreValue.callsFake((key: string) => store[key]);
+    device.setStoreValue.callsFake(async (key: string, value: unknown) => {
+      store[key] = value;
+    });
+
+    await device.recordOperatingHours({ total: 1090, high: 14 });
+    await device.recordOperatingHours({ total: 1091, high: 15 });
+    const week = await device.getOperatingHoursBreakdown('week');
+    const today = await device.getOperatingHoursBreakdown('today');
+    clock.restore();
+
+    expect((store.operating_hours_snapshots as any[]).map((snapshot) => snapshot.date)).toEqual([
+      '2026-10-15',
+      '2026-10-19',
+    ]);
+    expect(week).toMatchObject({ total: 91, high: 5 });
+    expect(today).toMatchObject({ total: 1, high: 1 });
+    await expect(device.getOperatingHoursBreakdown('year')).rejects.toThrow("Unsupported period 'year'.");
+  });
+
   it('logs capability migration errors and continues initialization', async () => {
     const device = new DeviceClass();
     const err = new Error('add failed');
@@ -227,10 +369,11 @@ describe('Nordic device', () => {
 
     await device.onInit();
 
-    expect(device.registerCapabilityListener.calledThrice).toBe(true);
+    expect(device.registerCapabilityListener.callCount).toBe(4);
     expect(device.registerCapabilityListener.firstCall.args[0]).toBe('target_temperature');
     expect(device.registerCapabilityListener.secondCall.args[0]).toBe('fan_mode');
     expect(device.registerCapabilityListener.thirdCall.args[0]).toBe(RESET_FILTER_CAPABILITY);
+    expect(device.registerCapabilityListener.getCall(3).args[0]).toBe(RESET_HEATER_ENERGY_CAPABILITY);
 
     const targetListener = device.registerCapabilityListener.firstCall.args[1];
     const fanModeListener = device.registerCapabilityListener.secondCall.args[1];
@@ -427,6 +570,52 @@ describe('Nordic device', () => {
     expect(registryStub.register.calledOnceWithExactly('test_unit', device)).toBe(true);
   });
 
+  it('links stored cloud credentials for failover during init', async () => {
+    const device = new DeviceClass();
+    const store: Record<string, unknown> = {
+      cloudPlantId: 'plant-1',
+      cloudAccessToken: 'access-token',
+      cloudRefreshToken: 'refresh-token',
+      cloudTokenExpiresAt: 1_700_000_000_000,
+    };
+    device.getStoreValue.callsFake((key: string) => store[key]);
+
+    await device.onInit();
+
+    expect(registryStub.linkCloudFailover.calledOnce).toBe(true);
+    const [unitId, config] = registryStub.linkCloudFailover.firstCall.args;
+    expect(unitId).toBe('test_unit');
+    expect(config.plantId).toBe('plant-1');
+    expect(config.client.getToken()).toEqual({
+      accessToken: 'access-token',
+      refreshToken: 'refresh-token',
+      expiresAt: 1_700_000_000_000,
+    });
+    expect(findStructuredLog(device.log, 'device.cloud_failover.linked')?.plantId).toBe('plant-1');
+
+    config.client.notifyTokenRefreshed();
+    expect(device.setStoreValue.getCalls().map((call: any) => call.args)).toEqual([
+      ['cloudAccessToken', 'access-token'],
+      ['cloudRefreshToken', 'refresh-token'],
+      ['cloudTokenExpiresAt', 1_700_000_000_000],
+    ]);
+  });
+
+  it('skips cloud failover without stored credentials and logs link failures', async () => {
+    const device = new DeviceClass();
+
+    expect(device.restoreCloudFailover()).toBe(false);
+    expect(registryStub.linkCloudFailover.called).toBe(false);
+
+    device.getStoreValue.callsFake((key: string) => (
+      key === 'cloudPlantId' ? 'plant-1' : key === 'cloudRefreshToken' ? 'refresh-token' : undefined
+    ));
+    registryStub.linkCloudFailover.throws(new Error('Unit test_unit is not a registered BACnet unit'));
+
+    expect(device.restoreCloudFailover()).toBe(false);
+    expect(findStructuredLog(device.error, 'device.cloud_failover.link.failed')?.plantId).toBe('plant-1');
+  });
+
   it('unregisters device on deletion', async () => {
     const device = new DeviceClass();
 
@@ -484,6 +673,29 @@ describe('Nordic device', () => {
     expect(registryStub.setFilterChangeInterval.calledOnceWithExactly('test_unit', 5000)).toBe(true);
   });
 
+  it('applies BBMD settings to the registry and rejects malformed addresses', async () => {
+    const device = new DeviceClass();
+    await device.onInit();
+
+    await device.onSettings({
+      newSettings: { bbmd_address: '10.20.0.1:47809', bbmd_ttl_seconds: 600 },
+      changedKeys: ['bbmd_address', 'bbmd_ttl_seconds'],
+    });
+    await device.onSettings({
+      newSettings: { bbmd_address: '', bbmd_ttl_seconds: 600 },
+      changedKeys: ['bbmd_address'],
+    });
+    await expect(device.onSettings({
+      newSettings: { bbmd_address: '10.20.0', bbmd_ttl_seconds: 600 },
+      changedKeys: ['bbmd_address'],
+    })).rejects.toThrow('is not an IPv4 address');
+
+    expect(registryStub.setForeignDeviceRegistration.args).toEqual([
+      ['test_unit', { bbmdAddress: '10.20.0.1', bbmdPort: 47809, ttlSeconds: 600 }],
+      ['test_unit', undefined],
+    ]);
+  });
+
   it('rejects month values outside 3..12', async () => {
     const device = new DeviceClass();
     device.hasCapability.withArgs(EXHAUST_TEMP_CAPABILITY).returns(true);
@@ -628,6 +840,77 @@ describe('Nordic device', () => {
     expect(registryStub.setFreeCoolingMinOnTimeSeconds.called).toBe(false);
   });
 
+  it('writes changed humidity setpoints per mode', async () => {
+    const device = new DeviceClass();
+    device.hasCapability.withArgs(EXHAUST_TEMP_CAPABILITY).returns(true);
+    device.hasCapability.withArgs(RESET_FILTER_CAPABILITY).returns(true);
+    device.getSetting.withArgs('humidity_setpoint_home').returns(70);
+    device.getSetting.withArgs('humidity_setpoint_away').returns(80);
+    await device.onInit();
+
+    await device.onSettings({
+      newSettings: {
+        humidity_setpoint_home: 70,
+        humidity_setpoint_away: 64.6,
+        humidity_setpoint_high: 90,
+      },
+      changedKeys: ['humidity_setpoint_home', 'humidity_setpoint_away', 'humidity_setpoint_high'],
+    });
+
+    expect(registryStub.setHumiditySetpoint.callCount).toBe(2);
+    expect(registryStub.setHumiditySetpoint.calledWithExactly('test_unit', 'away', 65)).toBe(true);
+    expect(registryStub.setHumiditySetpoint.calledWithExactly('test_unit', 'high', 90)).toBe(true);
+  });
+
+  it('rejects out-of-range humidity setpoint settings', async () => {
+    const device = new DeviceClass();
+    device.hasCapability.withArgs(EXHAUST_TEMP_CAPABILITY).returns(true);
+    device.hasCapability.withArgs(RESET_FILTER_CAPABILITY).returns(true);
+    await device.onInit();
+
+    await expect(device.onSettings({
+      newSettings: { humidity_setpoint_home: 101 },
+      changedKeys: ['humidity_setpoint_home'],
+    })).rejects.toThrow('between 0 and 100');
+    expect(registryStub.setHumiditySetpoint.called).toBe(false);
+  });
+
+  it('writes changed neutral zone settings per kind and mode', async () => {
+    const device = new DeviceClass();
+    device.hasCapability.withArgs(EXHAUST_TEMP_CAPABILITY).returns(true);
+    device.hasCapability.withArgs(RESET_FILTER_CAPABILITY).returns(true);
+    device.getSetting.withArgs('heating_neutral_zone_home').returns(1);
+    await device.onInit();
+
+    await device.onSettings({
+      newSettings: {
+        heating_neutral_zone_home: 1,
+        heating_neutral_zone_away: 2.4,
+        cooling_neutral_zone_away: 6,
+      },
+      changedKeys: ['heating_neutral_zone_home', 'heating_neutral_zone_away', 'cooling_neutral_zone_away'],
+    });
+
+    expect(registryStub.setNeutralZone.callCount).toBe(2);
+    expect(registryStub.setNeutralZone.calledWithExactly('test_unit', 'heating', 'away', 2.5)).toBe(true);
+    expect(registryStub.setNeutralZone.calledWithExactly('test_unit', 'cooling', 'away', 6)).toBe(true);
+  });
+
+  it('suppresses onSettings neutral zone writes for registry-originated sync', async () => {
+    const device = new DeviceClass();
+    device.hasCapability.withArgs(EXHAUST_TEMP_CAPABILITY).returns(true);
+    device.hasCapability.withArgs(RESET_FILTER_CAPABILITY).returns(true);
+    await device.onInit();
+
+    await device.applyRegistrySettings({ cooling_neutral_zone_home: 3 });
+    await device.onSettings({
+      newSettings: { cooling_neutral_zone_home: 3 },
+      changedKeys: ['cooling_neutral_zone_home'],
+    });
+
+    expect(registryStub.setNeutralZone.called).toBe(false);
+  });
+
   it('writes changed fan profile settings by mode', async () => {
     const device = new DeviceClass();
     device.hasCapability.withArgs(EXHAUST_TEMP_CAPABILITY).returns(true);
@@ -664,6 +947,26 @@ describe('Nordic device', () => {
     expect(registryStub.setFireplaceVentilationDuration.calledOnceWithExactly('test_unit', 25)).toBe(true);
   });
 
+  it('writes changed high ventilation duration and rejects out-of-range minutes', async () => {
+    const device = new DeviceClass();
+    device.hasCapability.withArgs(EXHAUST_TEMP_CAPABILITY).returns(true);
+    device.hasCapability.withArgs(RESET_FILTER_CAPABILITY).returns(true);
+    device.getSetting.withArgs('rapid_duration_minutes').returns(10);
+    await device.onInit();
+
+    await device.onSettings({
+      newSettings: { rapid_duration_minutes: 40 },
+      changedKeys: ['rapid_duration_minutes'],
+    });
+    await expect(device.onSettings({
+      newSettings: { rapid_duration_minutes: 400 },
+      changedKeys: ['rapid_duration_minutes'],
+    })).rejects.toThrow('High ventilation duration must be between 1 and 360 minutes');
+
+    expect(registryStub.setRapidVentilationDuration.calledOnceWithExactly('test_unit', 40)).toBe(true);
+    expect(registryStub.setFireplaceVentilationDuration.called).toBe(false);
+  });
+
   it('rejects fireplace duration outside supported range', async () => {
     const device = new DeviceClass();
     device.hasCapability.withArgs(EXHAUST_TEMP_CAPABILITY).returns(true);
@@ -687,6 +990,83 @@ describe('Nordic device', () => {
     expect(registryStub.setFireplaceVentilationDuration.called).toBe(false);
   });
 
+  it('sends only the changed schedule days to the registry', async () => {
+    const device = new DeviceClass();
+    device.hasCapability.withArgs(EXHAUST_TEMP_CAPABILITY).returns(true);
+    device.hasCapability.withArgs(RESET_FILTER_CAPABILITY).returns(true);
+    device.getSetting.withArgs('schedule_friday').returns('07:00 home');
+    await device.onInit();
+
+    await device.onSettings({
+      newSettings: {
+        schedule_monday: '16:00 Home, 6:30 away',
+      },
+      changedKeys: ['schedule_monday'],
+    });
+
+    expect(registryStub.setOperatingModeSchedule.calledOnce).toBe(true);
+    const [unitId, update] = registryStub.setOperatingModeSchedule.firstCall.args;
+    expect(unitId).toBe('test_unit');
+    expect(update.exceptions).toBe(undefined);
+    expect(update.weekly).toEqual({
+      monday: [{ time: '06:30', value: 2 }, { time: '16:00', value: 3 }],
+    });
+  });
+
+  it('writes schedule exceptions without touching the weekly schedule', async () => {
+    const device = new DeviceClass();
+    device.hasCapability.withArgs(EXHAUST_TEMP_CAPABILITY).returns(true);
+    device.hasCapability.withArgs(RESET_FILTER_CAPABILITY).returns(true);
+    await device.onInit();
+
+    await device.onSettings({
+      newSettings: {
+        schedule_exceptions: '*-12-24 p8: 08:00 home',
+      },
+      changedKeys: ['schedule_exceptions'],
+    });
+
+    expect(registryStub.setOperatingModeSchedule.calledOnceWithExactly('test_unit', {
+      weekly: undefined,
+      exceptions: [{
+        period: { kind: 'date', date: '*-12-24' },
+        timeValues: [{ time: '08:00', value: 3 }],
+        priority: 8,
+      }],
+    })).toBe(true);
+  });
+
+  it('rejects schedule settings with unknown modes before writing', async () => {
+    const device = new DeviceClass();
+    device.hasCapability.withArgs(EXHAUST_TEMP_CAPABILITY).returns(true);
+    device.hasCapability.withArgs(RESET_FILTER_CAPABILITY).returns(true);
+    await device.onInit();
+
+    await expect(device.onSettings({
+      newSettings: {
+        schedule_tuesday: '07:00 party',
+      },
+      changedKeys: ['schedule_tuesday'],
+    })).rejects.toThrow("Unknown schedule mode 'party'");
+    expect(registryStub.setOperatingModeSchedule.called).toBe(false);
+  });
+
+  it('reports a generic error when the schedule write fails', async () => {
+    const device = new DeviceClass();
+    device.hasCapability.withArgs(EXHAUST_TEMP_CAPABILITY).returns(true);
+    device.hasCapability.withArgs(RESET_FILTER_CAPABILITY).returns(true);
+    registryStub.setOperatingModeSchedule.rejects(new Error('Timeout'));
+    await device.onInit();
+
+    await expect(device.onSettings({
+      newSettings: {
+        schedule_wednesday: '07:00 home',
+      },
+      changedKeys: ['schedule_wednesday'],
+    })).rejects.toThrow('Failed to update the week schedule on the unit.');
+    expect(findStructuredLog(device.error, 'device.setting.schedule.failed')).not.toBe(undefined);
+  });
+
   it('defers registry setting updates until onSettings is complete', async () => {
     const clock = sinon.useFakeTimers();
     const device = new DeviceClass();
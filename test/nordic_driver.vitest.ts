@@ -10,8 +10,21 @@ class MockHomeyDriver {
   getDevices = sinon.stub().returns([]);
 }
 
+function createSession() {
+  const handlers = new Map<string, any>();
+  return {
+    handlers,
+    setHandler: sinon.stub().callsFake((name: string, handler: any) => {
+      handlers.set(name, handler);
+    }),
+    showView: sinon.stub().resolves(),
+  };
+}
+
 const nordicDriverMocks = vi.hoisted(() => ({
   discoverStub: undefined as any,
+  probeStub: undefined as any,
+  clients: [] as any[],
 }));
 
 vi.mock('homey', () => ({
@@ -20,16 +33,31 @@ vi.mock('homey', () => ({
 
 vi.mock('../lib/flexitDiscovery', () => ({
   discoverFlexitUnits: (...args: any[]) => nordicDriverMocks.discoverStub(...args),
+  createDiscoveryDiagnostics: () => ({ suggestions: [] }),
+  listIPv4Interfaces: () => [{ name: 'eth0', address: '192.0.2.10' }],
+}));
+
+vi.mock('../lib/flexitBacnetProbe', () => ({
+  probeFlexitUnit: (...args: any[]) => nordicDriverMocks.probeStub(...args),
+}));
+
+vi.mock('../lib/flexitCloudClient', () => ({
+  FlexitCloudClient: function MockedFlexitCloudClient(this: any) {
+    return nordicDriverMocks.clients.shift();
+  },
 }));
 
 describe('Nordic driver (vitest)', () => {
   let DriverClass: any;
   let discoverStub: sinon.SinonStub;
+  let probeStub: sinon.SinonStub;
 
   beforeEach(async () => {
     vi.resetModules();
     discoverStub = sinon.stub();
+    probeStub = sinon.stub();
     nordicDriverMocks.discoverStub = discoverStub;
+    nordicDriverMocks.probeStub = probeStub;
     const mod = await import('../drivers/nordic/driver.ts');
     DriverClass = mod.default ?? mod;
   });
@@ -73,6 +101,13 @@ describe('Nordic driver (vitest)', () => {
         bacnetPort: 47808,
         serial: '800131-000001',
         mac: '02:00:00:00:00:01',
+        fw: '03.39.03.38',
+        platformCode: '160100F2C5',
+        platformVersion: 'POS3.67',
+        firmwareComponents: { FW: '03.39.03.38', BL: '00.05.02.0003' },
+        appVersion: '2.11.0',
+        netmask: '255.255.255.0',
+        gateway: '192.0.2.1',
       },
     ]);
     const driver = new DriverClass();
@@ -111,6 +146,11 @@ describe('Nordic driver (vitest)', () => {
           bacnetPort: '47808',
           serial: '800131-000001',
           mac: '02:00:00:00:00:01',
+          netmask: '255.255.255.0',
+          gateway: '192.0.2.1',
+          platform: '160100F2C5 POS3.67',
+          firmware: 'FW 03.39.03.38, BL 00.05.02.0003',
+          app_version: '2.11.0',
         },
       },
     ]);
@@ -164,4 +204,165 @@ describe('Nordic driver (vitest)', () => {
     expect(failureLog?.msg).toBe('BACnet pairing discovery failed');
     expect(failureLog?.error?.message).toBe('socket bind failed');
   });
+
+  it('pairs the unit found by probing a manually entered IP address', async () => {
+    probeStub.resolves({
+      name: 'Nordic S4 REL',
+      serial: '800131-000001',
+      serialNormalized: '800131000001',
+      ip: '198.51.100.7',
+      bacnetPort: 47809,
+      fw: '2.1.0',
+    });
+    const session = createSession();
+    const driver = new DriverClass();
+    await driver.onPair(session);
+
+    await expect(session.handlers.get('manual_ip')({ ip: ' 198.51.100.7 ', port: '47809' })).resolves.toBe(true);
+    const devices = await session.handlers.get('list_devices')();
+
+    expect(probeStub.firstCall.args[0]).toMatchObject({ ip: '198.51.100.7', bacnetPort: 47809 });
+    expect(discoverStub.called).toBe(false);
+    expect(devices).toEqual([
+      {
+        name: 'Nordic S4 REL',
+        data: { id: '800131000001', unitId: '800131000001' },
+        settings: {
+          ip: '198.51.100.7',
+          bacnetPort: '47809',
+          serial: '800131-000001',
+          mac: '',
+          netmask: '',
+          gateway: '',
+          platform: '',
+          firmware: '2.1.0',
+          app_version: '',
+        },
+      },
+    ]);
+    expect(findStructuredLog(driver.log, 'driver.pair.manual.found')?.unitId).toBe('800131000001');
+    await expect(session.handlers.get('unit_details')()).resolves.toEqual([
+      { name: 'Nordic S4 REL', settings: devices[0].settings },
+    ]);
+  });
+
+  it('lists discovered units when no IP address is entered during pairing', async () => {
+    discoverStub.resolves([]);
+    const session = createSession();
+    const driver = new DriverClass();
+    await driver.onPair(session);
+
+    await expect(session.handlers.get('manual_ip')({ ip: '', port: '47808' })).resolves.toBe(false);
+    await expect(session.handlers.get('list_devices')()).resolves.toEqual([]);
+
+    expect(probeStub.called).toBe(false);
+    expect(discoverStub.calledOnce).toBe(true);
+    expect(session.showView.calledOnceWithExactly('discovery_diagnostics')).toBe(true);
+  });
+
+  it('discovers on the chosen interface and explains a failed scan', async () => {
+    discoverStub.callsFake(async (options: any) => {
+      options.diagnostics.suggestions.push('No unit answered.');
+      throw new Error('socket bind failed');
+    });
+    const session = createSession();
+    const driver = new DriverClass();
+    await driver.onPair(session);
+
+    await expect(session.handlers.get('discovery_diagnostics')()).resolves.toBe(null);
+    await expect(session.handlers.get('list_interfaces')()).resolves.toEqual([{ name: 'eth0', address: '192.0.2.10' }]);
+    await session.handlers.get('manual_ip')({ ip: '', interfaceAddress: ' 192.0.2.10 ' });
+    await expect(session.handlers.get('list_devices')()).resolves.toEqual([]);
+
+    expect(discoverStub.firstCall.args[0].interfaceAddress).toBe('192.0.2.10');
+    expect(session.showView.calledOnceWithExactly('discovery_diagnostics')).toBe(true);
+    await expect(session.handlers.get('discovery_diagnostics')()).resolves.toEqual({
+      suggestions: ['No unit answered.'],
+    });
+    expect(findStructuredLog(driver.error, 'driver.pair.discovery.failed')?.error?.message).toBe('socket bind failed');
+  });
+
+  it('rejects invalid manual addresses and failed probes', async () => {
+    probeStub.rejects(new Error('No BACnet device answered at 198.51.100.7:47808.'));
+    const session = createSession();
+    const driver = new DriverClass();
+    await driver.onPair(session);
+    const manualIp = session.handlers.get('manual_ip');
+
+    await expect(manualIp({ ip: 'flexit.local' })).rejects.toThrow("'flexit.local' is not a valid IPv4 address.");
+    await expect(manualIp({ ip: '198.51.100.7', port: '70000' })).rejects.toThrow("'70000' is not a valid port.");
+    await expect(manualIp({ ip: '198.51.100.7' })).rejects.toThrow('No BACnet device answered');
+
+    expect(probeStub.firstCall.args[0].bacnetPort).toBe(47808);
+    expect(findStructuredLog(driver.error, 'driver.pair.manual.failed')?.ip).toBe('198.51.100.7');
+  });
+
+  it('links cloud failover during repair using the plant that matches the unit serial', async () => {
+    const token = {
+      accessToken: 'access-token',
+      refreshToken: 'refresh-token',
+      expiresAt: 1_700_000_000_000,
+    };
+    const authClient = {
+      authenticateWithPassword: sinon.stub().resolves(token),
+      findPlants: sinon.stub().resolves([
+        { id: 'plant-other', serialNumber: '800131-000002' },
+        { id: 'plant-1', serialNumber: '800131-000001' },
+      ]),
+      destroy: sinon.stub(),
+    };
+    nordicDriverMocks.clients = [authClient];
+    const session = createSession();
+    const device = {
+      getData: sinon.stub().returns({ unitId: '800131000001' }),
+      setStoreValue: sinon.stub().resolves(),
+      restoreCloudFailover: sinon.stub().returns(true),
+    };
+    const driver = new DriverClass();
+    await driver.onRepair(session, device);
+
+    const result = await session.handlers.get('login')({ username: 'user@example.com', password: 'secret' });
+
+    expect(result).toBe(true);
+    expect(authClient.destroy.calledOnce).toBe(true);
+    expect(device.setStoreValue.getCalls().map((call: any) => call.args)).toEqual([
+      ['cloudAccessToken', 'access-token'],
+      ['cloudRefreshToken', 'refresh-token'],
+      ['cloudTokenExpiresAt', token.expiresAt],
+      ['cloudPlantId', 'plant-1'],
+    ]);
+    expect(device.restoreCloudFailover.calledOnce).toBe(true);
+    expect(findStructuredLog(driver.log, 'driver.repair.cloud_failover.linked')?.plantId).toBe('plant-1');
+  });
+
+  it('rejects failover repair when login fails or no cloud plant matches the unit', async () => {
+    const failingClient = {
+      authenticateWithPassword: sinon.stub().rejects(new Error('401')),
+      destroy: sinon.stub(),
+    };
+    const unmatchedClient = {
+      authenticateWithPassword: sinon.stub().resolves({ accessToken: 'a', refreshToken: 'r', expiresAt: 0 }),
+      findPlants: sinon.stub().resolves([{ id: 'plant-other', serialNumber: '800131-000002' }]),
+      destroy: sinon.stub(),
+    };
+    nordicDriverMocks.clients = [failingClient, unmatchedClient];
+    const session = createSession();
+    const device = {
+      getData: sinon.stub().returns({ unitId: '800131000001' }),
+      setStoreValue: sinon.stub().resolves(),
+      restoreCloudFailover: sinon.stub().returns(true),
+    };
+    const driver = new DriverClass();
+    await driver.onRepair(session, device);
+    const login = session.handlers.get('login');
+
+    await expect(login({ username: 'user', password: 'bad' })).rejects.toThrow(
+      'Authentication failed. Check your credentials.',
+    );
+    await expect(login({ username: 'user', password: 'secret' })).rejects.toThrow(
+      'No Flexit Cloud plant matches the serial number of this unit.',
+    );
+    expect(device.setStoreValue.called).toBe(false);
+    expect(findStructuredLog(driver.error, 'driver.repair.plant.not_found')?.plantSerials).toEqual(['800131-000002']);
+  });
 });
@@ -0,0 +1,96 @@
+/* eslint-disable import/extensions */
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_OFFLINE_WRITE_MAX_AGE_MINUTES,
+  describeOfflineWrite,
+  dropExpiredOfflineWrites,
+  enqueueOfflineWrite,
+  normalizeOfflineWriteMaxAgeMinutes,
+  parseStoredOfflineWrites,
+} from '../lib/offlineWriteQueue.ts';
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+const MINUTE_MS = 60_000;
+
+describe('offlineWriteQueue', () => {
+  it('replaces a queued write to the same object and moves it to the end', () => {
+    let queue = enqueueOfflineWrite([], { kind: 'fan_mode', mode: 'away' }, NOW);
+    queue = enqueueOfflineWrite(queue, { kind: 'temperature_setpoint', mode: 'home', setpoint: 20 }, NOW + 1);
+    queue = enqueueOfflineWrite(queue, { kind: 'temperature_setpoint', mode: 'away', setpoint: 17 }, NOW + 2);
+    queue = enqueueOfflineWrite(queue, { kind: 'fan_mode', mode: 'high' }, NOW + 3);
+
+    expect(queue.map((entry) => describeOfflineWrite(entry.write))).toEqual([
+      'home target temperature 20 degC',
+      'away target temperature 17 degC',
+      'fan mode high',
+    ]);
+    expect(queue[2].queuedAt).toBe(NOW + 3);
+  });
+
+  it('keeps point writes to different objects and caps the queue length', () => {
+    let queue = enqueueOfflineWrite([], { kind: 'heating_coil', enabled: false }, NOW);
+    for (let instance = 0; instance < 60; instance++) {
+      queue = enqueueOfflineWrite(queue, {
+        kind: 'point', pointKey: `2:${instance}`, value: instance, priority: 13,
+      }, NOW + instance);
+    }
+
+    expect(queue.length).toBe(50);
+    expect(describeOfflineWrite(queue[0].write)).toBe('point 2:10 = 10');
+    expect(describeOfflineWrite({ kind: 'heating_coil', enabled: true })).toBe('heating coil on');
+  });
+
+  it('keys setting writes by the value they set and schedule writes by the days they carry', () => {
+    let queue = enqueueOfflineWrite([], { kind: 'humidity_setpoint', mode: 'home', value: 40 }, NOW);
+    queue = enqueueOfflineWrite(queue, { kind: 'humidity_setpoint', mode: 'away', value: 30 }, NOW);
+    queue = enqueueOfflineWrite(queue, {
+      kind: 'neutral_zone', zone: 'heating', mode: 'home', value: 1,
+    }, NOW);
+    queue = enqueueOfflineWrite(queue, { kind: 'schedule', weekly: { monday: [], tuesday: [] } }, NOW);
+    queue = enqueueOfflineWrite(queue, { kind: 'schedule', exceptions: [] }, NOW);
+    queue = enqueueOfflineWrite(queue, { kind: 'free_cooling', setting: 'min_on_time', value: 600 }, NOW);
+    queue = enqueueOfflineWrite(queue, { kind: 'humidity_setpoint', mode: 'home', value: 45 }, NOW);
+    queue = enqueueOfflineWrite(queue, { kind: 'schedule', weekly: { tuesday: [], monday: [] } }, NOW);
+
+    expect(queue.map((entry) => describeOfflineWrite(entry.write))).toEqual([
+      'away humidity setpoint 30 %',
+      'heating neutral zone home 1 K',
+      'schedule exceptions',
+      'free cooling min on time 600',
+      'home humidity setpoint 45 %',
+      'schedule tuesday, monday',
+    ]);
+    expect([
+      { kind: 'fireplace_duration' as const, minutes: 15 },
+      { kind: 'rapid_duration' as const, minutes: 30 },
+      { kind: 'fan_profile' as const, mode: 'cooker' as const, supply: 60, exhaust: 90 },
+      { kind: 'free_cooling_enabled' as const, enabled: true },
+    ].map(describeOfflineWrite)).toEqual([
+      'fireplace duration 15 min',
+      'high ventilation duration 30 min',
+      'cooker fan profile 60/90 %',
+      'free cooling on',
+    ]);
+  });
+
+  it('drops writes older than the maximum age', () => {
+    const queue = [
+      { write: { kind: 'fan_mode' as const, mode: 'away' }, queuedAt: NOW - 61 * MINUTE_MS },
+      { write: { kind: 'heating_coil' as const, enabled: true }, queuedAt: NOW - 60 * MINUTE_MS },
+    ];
+
+    expect(dropExpiredOfflineWrites(queue, 60, NOW)).toEqual([queue[1]]);
+  });
+
+  it('normalizes the maximum age and stored queues', () => {
+    expect(normalizeOfflineWriteMaxAgeMinutes('abc')).toBe(DEFAULT_OFFLINE_WRITE_MAX_AGE_MINUTES);
+    expect(normalizeOfflineWriteMaxAgeMinutes(0)).toBe(1);
+    expect(normalizeOfflineWriteMaxAgeMinutes(5000)).toBe(1440);
+    expect(normalizeOfflineWriteMaxAgeMinutes(30.4)).toBe(30);
+
+    const valid = { write: { kind: 'fan_mode', mode: 'away' }, queuedAt: NOW };
+    expect(parseStoredOfflineWrites(null)).toEqual([]);
+    expect(parseStoredOfflineWrites([valid, null, { queuedAt: 'x', write: {} }, { queuedAt: NOW }]))
+      .toEqual([valid]);
+  });
+});
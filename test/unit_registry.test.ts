@@ -60,6 +60,7 @@ const unitRegistryMocks = vi.hoisted(() => ({
     throw new Error('discoverFlexitUnits mock not initialized');
   }) as any,
   setBacnetLogger: vi.fn(),
+  setForeignDeviceRegistration: vi.fn(),
   bacnetEnums: {
     ApplicationTags: {
       NULL: 0,
@@ -87,6 +88,7 @@ vi.mock('../lib/bacnetClient', () => ({
   getBacnetClient: (...args: any[]) => unitRegistryMocks.getBacnetClientImpl(...args),
   BacnetEnums: unitRegistryMocks.bacnetEnums,
   setBacnetLogger: unitRegistryMocks.setBacnetLogger,
+  setForeignDeviceRegistration: unitRegistryMocks.setForeignDeviceRegistration,
 }));
 
 vi.mock('../lib/flexitDiscovery', () => ({
@@ -110,6 +112,7 @@ describe('UnitRegistry', () => {
   beforeEach(async () => {
     vi.resetModules();
     unitRegistryMocks.setBacnetLogger.mockReset();
+    unitRegistryMocks.setForeignDeviceRegistration.mockReset();
 
     mockClient = {
       writeProperty: sinon.stub().yields(null, {}),
@@ -849,6 +852,74 @@ describe('UnitRegistry', () => {
     expect(mockClient.writeProperty.called).to.equal(false);
   });
 
+  it('writes the high ventilation duration to PIV:293 before firing the rapid trigger', async () => {
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+
+    const unit = (registry as any).units.get('test_unit');
+    unit.probeValues.set('5:50', 1); // comfort_button home
+    unit.probeValues.set('48:293', 10); // rapid runtime
+    mockClient.readPropertyMultiple.resetBehavior();
+    mockClient.readPropertyMultiple.callsFake((_ip: string, request: any[], cb: any) => {
+      const requestedObjects = request
+        .map((entry) => `${entry?.objectId?.type}:${entry?.objectId?.instance}`)
+        .sort()
+        .join(',');
+      if (requestedObjects === '48:293') {
+        cb(null, { values: [makeReadObject(BACNET_ENUMS.ObjectType.POSITIVE_INTEGER_VALUE, 293, 30)] });
+        return;
+      }
+      cb(null, { values: [] });
+    });
+
+    await registry.startRapidVentilation('test_unit', 30);
+
+    const writes = mockClient.writeProperty.getCalls().map((call: any) => call.args);
+    expect(writes.map((args: any) => `${args[1].type}:${args[1].instance}=${args[3][0].value}`))
+      .to.deep.equal(['48:293=30', '19:357=2']);
+    expect(writes[0][3][0].type).to.equal(BACNET_ENUMS.ApplicationTags.UNSIGNED_INTEGER);
+    expect(writes[0][4].priority).to.equal(13);
+    expect(writes[1][4].priority).to.equal(13);
+    expect(mockDevice.setSettings.calledWithMatch({ rapid_duration_minutes: 30 })).to.equal(true);
+  });
+
+  it('restarts running high ventilation so a new duration takes effect', async () => {
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+
+    const unit = (registry as any).units.get('test_unit');
+    unit.probeValues.set('5:50', 1); // comfort_button home
+    unit.probeValues.set('19:361', 7); // operation_mode temporary high
+    unit.probeValues.set('5:15', 1); // rapid_active
+    unit.probeValues.set('48:293', 45); // rapid runtime already matches
+
+    await registry.startRapidVentilation('test_unit', 45);
+
+    const writes = mockClient.writeProperty.getCalls().map((call: any) => call.args);
+    expect(writes.map((args: any) => `${args[1].type}:${args[1].instance}=${args[3][0].value}`))
+      .to.deep.equal(['19:357=2', '19:357=2']);
+  });
+
+  it('rejects high ventilation durations outside 1..360 minutes before writing', async () => {
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+
+    const errors: string[] = [];
+    for (const minutes of [0, 361]) {
+      try {
+        await registry.startRapidVentilation('test_unit', minutes);
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+    }
+
+    expect(errors).to.deep.equal([
+      'High ventilation duration must be between 1 and 360 minutes',
+      'High ventilation duration must be between 1 and 360 minutes',
+    ]);
+    expect(mockClient.writeProperty.called).to.equal(false);
+  });
+
   it('writes high mode via ventilation mode when available', async () => {
     const mockDevice = makeMockDevice();
     registry.register('test_unit', mockDevice);
@@ -1417,6 +1488,614 @@ describe('UnitRegistry', () => {
     expect(syncedKeys.includes('free_cooling_min_on_time_seconds')).to.equal(false);
   });
 
+  it('syncs humidity setpoints and informational humidity labels into settings', () => {
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+
+    const unit = { unitId: 'test_unit', devices: new Set([mockDevice]) };
+    (registry as any).distributeData(unit, {
+      'humidity_setpoint.home': 70.2,
+      'humidity_setpoint.away': 80,
+      'humidity_setpoint.high': 140,
+      humidity_setpoint_present: 70,
+      humidity_limit_max: 30.51,
+    });
+
+    expect(mockDevice.setSettings.calledWithMatch({
+      humidity_setpoint_home: 70,
+      humidity_setpoint_away: 80,
+      humidity_setpoint_present: '70 %',
+      humidity_limit_max: '31 %',
+    })).to.equal(true);
+    const syncedKeys = mockDevice.setSettings.getCalls()
+      .flatMap((call) => Object.keys(call.args[0] ?? {}));
+    expect(syncedKeys.includes('humidity_setpoint_high')).to.equal(false);
+  });
+
+  it('adds room humidity capabilities only for connected sensors', async () => {
+    const mockDevice: any = makeMockDevice();
+    mockDevice.ensureCapabilities = sinon.stub().resolves();
+    registry.register('test_unit', mockDevice);
+
+    const unit = (registry as any).units.get('test_unit');
+    (registry as any).distributeData(unit, {
+      'room_humidity.room1': 48.26,
+      'room_humidity.room2': 0,
+      'room_humidity.vmsh1': 51,
+      'room_humidity.vmsh2': 0,
+      'rf_device_state.1': 2,
+      'rf_device_state.2': 1,
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(mockDevice.ensureCapabilities.calledWith([
+      'measure_humidity.room1',
+      'measure_humidity.vmsh1',
+    ])).to.equal(true);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_humidity.room1', 48.3)).to.equal(true);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_humidity.vmsh1', 51)).to.equal(true);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_humidity.room2')).to.equal(false);
+  });
+
+  it('adds pressure and airflow capabilities only for sensors that report pressure', async () => {
+    const mockDevice: any = makeMockDevice({ settings: { serial: '800131-123456' } });
+    mockDevice.ensureCapabilities = sinon.stub().resolves();
+    registry.register('test_unit', mockDevice);
+
+    const unit = (registry as any).units.get('test_unit');
+    (registry as any).distributeData(unit, {
+      'air_pressure.fan_supply': 25,
+      'air_pressure.fan_extract': 30.25,
+      'air_pressure.duct_supply': 0,
+      'air_pressure.duct_extract': 0,
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(mockDevice.ensureCapabilities.calledWith([
+      'measure_air_pressure.fan_supply',
+      'measure_air_pressure.fan_extract',
+      'measure_airflow.supply',
+      'measure_airflow.extract',
+    ])).to.equal(true);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_air_pressure.fan_extract', 30.3)).to.equal(true);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_airflow.supply', 380)).to.equal(true);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_airflow.extract', 418)).to.equal(true);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_air_pressure.duct_supply')).to.equal(false);
+  });
+
+  it('reports airflow changes and skips airflow for unknown models', () => {
+    const handler = sinon.stub();
+    registry.setAirflowChangedHandler(handler);
+    const knownDevice = makeMockDevice({ settings: { serial: '800131-123456' } });
+    registry.register('test_unit', knownDevice);
+
+    const unit = (registry as any).units.get('test_unit');
+    (registry as any).distributeData(unit, { 'air_pressure.fan_supply': 25 });
+    (registry as any).distributeData(unit, { 'air_pressure.fan_supply': 25 });
+    expect(handler.called).to.equal(false);
+
+    (registry as any).distributeData(unit, { 'air_pressure.fan_supply': 16 });
+    expect(handler.calledOnce).to.equal(true);
+    expect(handler.firstCall.args[0]).to.deep.include({
+      device: knownDevice,
+      fan: 'supply',
+      previousAirflow: 380,
+      airflow: 304,
+    });
+
+    const unknownDevice = makeMockDevice({ unitId: 'other_unit' });
+    registry.register('other_unit', unknownDevice);
+    const otherUnit = (registry as any).units.get('other_unit');
+    (registry as any).distributeData(otherUnit, { 'air_pressure.fan_supply': 25 });
+    expect(otherUnit.airPressureSensors.has('fan_supply')).to.equal(true);
+    expect(otherUnit.airflow).to.deep.equal({});
+    registry.setAirflowChangedHandler(undefined);
+  });
+
+  it('shows remaining minutes while fireplace runs and reports when it ends', async () => {
+    const handler = sinon.stub();
+    registry.setTimedModeEndedHandler(handler);
+    const mockDevice: any = makeMockDevice();
+    mockDevice.ensureCapabilities = sinon.stub().resolves();
+    registry.register('test_unit', mockDevice);
+
+    const unit = (registry as any).units.get('test_unit');
+    (registry as any).distributeData(unit, {
+      comfort_button: 1, operation_mode: 3, rapid_active: 0, fireplace_active: 0, remaining_fireplace_vent: 10,
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(mockDevice.ensureCapabilities.calledWith(['measure_timed_mode_remaining'])).to.equal(false);
+
+    (registry as any).distributeData(unit, {
+      comfort_button: 1, operation_mode: 6, fireplace_active: 1, remaining_fireplace_vent: 7.6,
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(mockDevice.setCapabilityValue.calledWith('measure_timed_mode_remaining', 8)).to.equal(true);
+    expect(handler.called).to.equal(false);
+
+    (registry as any).distributeData(unit, {
+      comfort_button: 0, operation_mode: 2, fireplace_active: 0, remaining_fireplace_vent: 10,
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(handler.calledOnce).to.equal(true);
+    expect(handler.firstCall.args[0]).to.deep.include({
+      device: mockDevice,
+      endedMode: 'fireplace',
+      currentMode: 'away',
+    });
+    expect(mockDevice.setCapabilityValue.calledWith('measure_timed_mode_remaining', 0)).to.equal(true);
+    registry.setTimedModeEndedHandler(undefined);
+  });
+
+  it('treats only rapid ventilation as timed high and ignores ends while a timed mode restarts', () => {
+    const handler = sinon.stub();
+    registry.setTimedModeEndedHandler(handler);
+    registry.register('test_unit', makeMockDevice());
+
+    const unit = (registry as any).units.get('test_unit');
+    (registry as any).distributeData(unit, { comfort_button: 1, ventilation_mode: 4, operation_mode: 5 });
+    expect(unit.timedMode).to.equal(undefined);
+
+    (registry as any).distributeData(unit, { comfort_button: 1, operation_mode: 7, rapid_active: 1 });
+    expect(unit.timedMode).to.equal('high');
+
+    unit.timedModeRestartUntil = Date.now() + 60_000;
+    (registry as any).distributeData(unit, { comfort_button: 1, operation_mode: 3, rapid_active: 0 });
+    expect(unit.timedMode).to.equal('high');
+
+    unit.timedModeRestartUntil = undefined;
+    (registry as any).distributeData(unit, { comfort_button: 1, operation_mode: 3, rapid_active: 0 });
+    expect(unit.timedMode).to.equal(undefined);
+    expect(handler.calledOnce).to.equal(true);
+    expect(handler.firstCall.args[0]).to.deep.include({ endedMode: 'high', currentMode: 'home' });
+    registry.setTimedModeEndedHandler(undefined);
+  });
+
+  it('extends fireplace by restarting it with the adjusted runtime and restoring the configured one', async () => {
+    registry.register('test_unit', makeMockDevice());
+
+    const unit = (registry as any).units.get('test_unit');
+    unit.timedMode = 'fireplace';
+    unit.probeValues.set('2:2038', 8.2); // remaining fireplace ventilation
+    unit.probeValues.set('48:270', 10); // fireplace runtime
+
+    await registry.extendTimedMode('test_unit', 15);
+
+    const writes = mockClient.writeProperty.getCalls().map((call: any) => call.args);
+    expect(writes.map((args: any) => `${args[1].type}:${args[1].instance}=${args[3][0].value}`))
+      .to.deep.equal(['19:360=2', '48:270=23', '19:360=2', '48:270=10']);
+    expect(writes.every((args: any) => args[4].priority === 13)).to.equal(true);
+  });
+
+  it('restores the configured runtime when restarting the extended mode fails', async () => {
+    registry.register('test_unit', makeMockDevice());
+
+    const unit = (registry as any).units.get('test_unit');
+    unit.timedMode = 'fireplace';
+    unit.probeValues.set('2:2038', 8.2); // remaining fireplace ventilation
+    unit.probeValues.set('48:270', 10); // fireplace runtime
+    mockClient.writeProperty.onCall(2).yields(new Error('Network error'));
+
+    let error: Error | undefined;
+    try {
+      await registry.extendTimedMode('test_unit', 15);
+    } catch (err) {
+      error = err as Error;
+    }
+
+    expect(error?.message).to.equal('Failed to extend fireplace ventilation');
+    const writes = mockClient.writeProperty.getCalls().map((call: any) => call.args);
+    expect(writes.map((args: any) => `${args[1].type}:${args[1].instance}=${args[3][0].value}`))
+      .to.deep.equal(['19:360=2', '48:270=23', '19:360=2', '48:270=10']);
+  });
+
+  it('rejects extending when no timed mode runs or the extension is out of range', async () => {
+    registry.register('test_unit', makeMockDevice());
+
+    const errors: string[] = [];
+    for (const minutes of [10, 0]) {
+      try {
+        await registry.extendTimedMode('test_unit', minutes);
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+    }
+
+    expect(errors).to.deep.equal([
+      'No timed mode is running.',
+      'Extension must be between 1 and 360 minutes',
+    ]);
+    expect(mockClient.writeProperty.called).to.equal(false);
+  });
+
+  it('writes a catalog point through the write queue with the requested priority and tag', async () => {
+    registry.register('test_unit', makeMockDevice());
+
+    await registry.writePointValue('test_unit', '2:1994', 21.5, 10);
+    await registry.writePointValue('test_unit', '48:318', 60);
+
+    const writes = mockClient.writeProperty.getCalls().map((call: any) => call.args);
+    expect(writes.map((args: any) => `${args[1].type}:${args[1].instance}=${args[3][0].value}`))
+      .to.deep.equal(['2:1994=21.5', '48:318=60']);
+    expect(writes[0][3][0].type).to.equal(BACNET_ENUMS.ApplicationTags.REAL);
+    expect(writes[0][4].priority).to.equal(10);
+    expect(writes[1][3][0].type).to.equal(BACNET_ENUMS.ApplicationTags.UNSIGNED_INTEGER);
+    expect(writes[1][4].priority).to.equal(13);
+  });
+
+  it('relinquishes a catalog point by writing NULL at the requested priority', async () => {
+    registry.register('test_unit', makeMockDevice());
+
+    await registry.relinquishPointValue('test_unit', '2:1994', 10);
+    await registry.relinquishPointValue('test_unit', '48:318');
+
+    const writes = mockClient.writeProperty.getCalls().map((call: any) => call.args);
+    expect(writes.map((args: any) => `${args[1].type}:${args[1].instance}@${args[4].priority}`))
+      .to.deep.equal(['2:1994@10', '48:318@13']);
+    expect(writes[0][3]).to.deep.equal([{ type: BACNET_ENUMS.ApplicationTags.NULL, value: null }]);
+    let error: Error | undefined;
+    try {
+      await registry.relinquishPointValue('test_unit', '0:4', 13);
+    } catch (err) {
+      error = err as Error;
+    }
+    expect(error?.message).to.equal('Supply air temperature (0:4) is not writable.');
+  });
+
+  it('rejects point writes to unknown or read-only points and invalid values or priorities', async () => {
+    registry.register('test_unit', makeMockDevice());
+
+    const errors: string[] = [];
+    const attempts: Array<[string, number, number]> = [
+      ['9:9999', 1, 13],
+      ['0:4', 20, 13],
+      ['5:50', 2, 13],
+      ['48:318', 1.5, 13],
+      ['2:1994', 20, 17],
+    ];
+    for (const [pointKey, value, priority] of attempts) {
+      try {
+        await registry.writePointValue('test_unit', pointKey, value, priority);
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+    }
+
+    expect(errors).to.deep.equal([
+      "Unknown point '9:9999'.",
+      'Supply air temperature (0:4) is not writable.',
+      'Value for button status (5:50) must be 0 or 1.',
+      'Value for Delay time, enter AWAY mode (48:318) must be a whole number of 0 or more.',
+      'Write priority must be a whole number between 1 and 16.',
+    ]);
+    expect(mockClient.writeProperty.called).to.equal(false);
+  });
+
+  it('reads a catalog point value directly from the unit', async () => {
+    registry.register('test_unit', makeMockDevice());
+    mockClient.readPropertyMultiple.resetBehavior();
+    mockClient.readPropertyMultiple.callsFake((_ip: string, _request: any[], cb: any) => {
+      cb(null, { values: [makeReadObject(BACNET_ENUMS.ObjectType.ANALOG_INPUT, 4, 19.5)] });
+    });
+
+    const value = await registry.readPointValue('test_unit', '0:4');
+
+    expect(value).to.equal(19.5);
+    expect((registry as any).units.get('test_unit').probeValues.get('0:4')).to.equal(19.5);
+  });
+
+  it('ignores RF room humidity readings when no RF device is connected', () => {
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+
+    const unit = (registry as any).units.get('test_unit');
+    (registry as any).distributeData(unit, {
+      'room_humidity.room1': 35,
+      'room_humidity.vmsh3': 44,
+      ...Object.fromEntries(Array.from({ length: 7 }, (_, index) => [`rf_device_state.${index + 1}`, 1])),
+    });
+
+    expect(Array.from(unit.roomHumiditySensors)).to.deep.equal(['vmsh3']);
+  });
+
+  it('reports room humidity changes after the first reading', () => {
+    const mockDevice = makeMockDevice();
+    const handler = sinon.stub();
+    registry.setRoomHumidityChangedHandler(handler);
+    registry.register('test_unit', mockDevice);
+
+    const unit = (registry as any).units.get('test_unit');
+    (registry as any).distributeData(unit, { 'room_humidity.room2': 55 });
+    (registry as any).distributeData(unit, { 'room_humidity.room2': 55 });
+    expect(handler.called).to.equal(false);
+
+    (registry as any).distributeData(unit, { 'room_humidity.room2': 71.5 });
+    expect(handler.calledOnce).to.equal(true);
+    expect(handler.firstCall.args[0]).to.deep.include({
+      device: mockDevice,
+      sensor: 'room2',
+      previousHumidity: 55,
+      humidity: 71.5,
+    });
+    registry.setRoomHumidityChangedHandler(undefined);
+  });
+
+  it('publishes rotor telemetry and heat exchanger health from polled data', () => {
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+
+    const unit = (registry as any).units.get('test_unit');
+    (registry as any).distributeData(unit, {
+      measure_rotor_speed_percent: 62,
+      measure_heat_exchanger_efficiency: 74.01,
+      heat_exchanger_speed_feedback: 61.6,
+      heat_exchanger_deicing_speed: 10,
+      heat_exchanger_motor_failures: 3,
+      heat_exchanger_motor_stuck: 0,
+      heat_exchanger_belt_broken: 1,
+    });
+
+    expect(mockDevice.setCapabilityValue.calledWith('measure_rotor_speed_percent', 62)).to.equal(true);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_heat_exchanger_efficiency', 74.01)).to.equal(true);
+    expect(mockDevice.setCapabilityValue.calledWith('heat_exchanger_health', 'belt_broken')).to.equal(true);
+    expect(mockDevice.setSettings.calledWithMatch({
+      heat_exchanger_speed_feedback: '62',
+      heat_exchanger_deicing_speed: '10 %',
+      heat_exchanger_motor_failures: '3',
+    })).to.equal(true);
+  });
+
+  it('reports heat exchanger faults that appear after the first reading', () => {
+    const mockDevice = makeMockDevice();
+    const handler = sinon.stub();
+    registry.setHeatExchangerFaultHandler(handler);
+    registry.register('test_unit', mockDevice);
+
+    const unit = (registry as any).units.get('test_unit');
+    (registry as any).distributeData(unit, {
+      heat_exchanger_motor_stuck: 0,
+      heat_exchanger_belt_broken: 1,
+      heat_exchanger_motor_failures: 1,
+    });
+    expect(handler.called).to.equal(false);
+
+    (registry as any).distributeData(unit, {
+      heat_exchanger_motor_stuck: 1,
+      heat_exchanger_belt_broken: 1,
+      heat_exchanger_motor_failures: 2,
+    });
+    expect(handler.callCount).to.equal(2);
+    expect(handler.firstCall.args[0]).to.deep.include({
+      device: mockDevice,
+      fault: 'motor_stuck',
+      text: 'Heat exchanger motor stuck',
+    });
+    expect(handler.secondCall.args[0]).to.deep.include({
+      fault: 'motor_failure',
+      motorFailureCount: 2,
+    });
+    expect(mockDevice.setCapabilityValue.calledWith('heat_exchanger_health', 'motor_stuck')).to.equal(true);
+    registry.setHeatExchangerFaultHandler(undefined);
+  });
+
+  it('publishes heat recovery efficiency and smoothed recovered power', () => {
+    const clock = sinon.useFakeTimers({ now: 1_000_000, toFake: ['Date'] });
+    const mockDevice = makeMockDevice({ settings: { serial: '800131-123456', heat_recovery_smoothing_minutes: 5 } });
+    registry.register('test_unit', mockDevice);
+
+    const unit = (registry as any).units.get('test_unit');
+    const data = {
+      'measure_temperature.outdoor': 0,
+      measure_temperature: 16,
+      'measure_temperature.extract': 21,
+      'measure_temperature.exhaust': 5,
+      measure_fan_speed_percent: 50,
+      measure_power: 0,
+    };
+    (registry as any).distributeData(unit, data);
+    clock.tick(60_000);
+    (registry as any).distributeData(unit, { ...data, measure_temperature: 18 });
+    clock.tick(60_000);
+    (registry as any).distributeData(unit, { ...data, measure_temperature: 18 });
+    clock.restore();
+
+    expect(mockDevice.setCapabilityValue.calledWith('measure_heat_recovery_efficiency', 76.2)).to.equal(true);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_heat_recovery_efficiency.exhaust', 76.2)).to.equal(true);
+    // S4 nominal airflow 560 m3/h at 50 % -> 280 m3/h; 16 K -> 1501 W, 18 K -> 1688 W, each held for a minute.
+    expect(mockDevice.setCapabilityValue.calledWith('measure_recovered_power', 1501)).to.equal(true);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_recovered_power', 1595)).to.equal(true);
+  });
+
+  it('withholds recovered power while the electric heater is contributing', () => {
+    const mockDevice = makeMockDevice({ settings: { serial: '800131-123456' } });
+    registry.register('test_unit', mockDevice);
+
+    const unit = (registry as any).units.get('test_unit');
+    (registry as any).distributeData(unit, {
+      'measure_temperature.outdoor': -10,
+      measure_temperature: 18,
+      'measure_temperature.extract': 21,
+      'measure_temperature.exhaust': 0,
+      measure_fan_speed_percent: 60,
+      measure_power: 800,
+    });
+
+    expect(mockDevice.setCapabilityValue.calledWith('measure_recovered_power', null)).to.equal(true);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_heat_recovery_efficiency', null)).to.equal(true);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_heat_recovery_efficiency.exhaust', 67.7)).to.equal(true);
+    expect(unit.heatRecoverySamples).to.deep.equal([]);
+  });
+
+  it('integrates heater power into energy and skips gaps across an outage', () => {
+    const clock = sinon.useFakeTimers({ now: 1_000_000, toFake: ['Date'] });
+    const mockDevice: any = makeMockDevice();
+    mockDevice.addHeaterEnergy = sinon.stub().resolves();
+    registry.register('test_unit', mockDevice);
+
+    const unit = (registry as any).units.get('test_unit');
+    (registry as any).distributeData(unit, { measure_power: 1000 });
+    clock.tick(60_000);
+    (registry as any).distributeData(unit, { measure_power: 2000 });
+    expect(mockDevice.addHeaterEnergy.calledOnce).to.equal(true);
+    expect(mockDevice.addHeaterEnergy.firstCall.args[0]).to.be.closeTo(0.025, 1e-9);
+
+    clock.tick(10 * 60_000);
+    (registry as any).distributeData(unit, { measure_power: 2000 });
+    expect(mockDevice.addHeaterEnergy.calledOnce).to.equal(true);
+
+    unit.available = true;
+    unit.consecutiveFailures = 100;
+    (registry as any).handlePollFailure(unit);
+    expect(unit.heaterPowerSample).to.equal(undefined);
+    clock.restore();
+  });
+
+  it('reads operating-hour counters with the counters tier and forwards them to devices', async () => {
+    const clock = sinon.useFakeTimers({ now: 1_000_000, toFake: ['Date'] });
+    const mockDevice: any = makeMockDevice();
+    mockDevice.recordOperatingHours = sinon.stub().resolves();
+    const counters: Record<number, number> = {
+      1847: 12836, 1913: 0, 1914: 2028, 1915: 10764, 1916: 16, 1814: 3, 1820: 25, 1879: 2328,
+    };
+    mockClient.readPropertyMultiple.resetBehavior();
+    mockClient.readPropertyMultiple.callsFake((_ip: string, request: any[], cb: any) => {
+      setImmediate(() => cb(null, {
+        values: request.map(({ objectId }) => makeReadObject(
+          objectId.type,
+          objectId.instance,
+          counters[objectId.instance] ?? 0,
+        )),
+      }));
+    });
+    registry.register('test_unit', mockDevice);
+    await flushAsyncWork();
+    const counterReads = () => mockClient.readPropertyMultiple.getCalls().filter((call: any) => call.args[1].some(
+      (entry: any) => entry.objectId.instance === 1847,
+    )).length;
+
+    expect(counterReads()).to.equal(1);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_operating_hours', 12836)).to.equal(true);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_operating_hours.heater', 2328)).to.equal(true);
+    expect(mockDevice.recordOperatingHours.firstCall.args[0]).to.deep.include({ high: 16, cooker: 25 });
+
+    (registry as any).pollUnit('test_unit', true);
+    await flushAsyncWork();
+    expect(counterReads()).to.equal(1);
+    expect(mockDevice.recordOperatingHours.callCount).to.equal(1);
+
+    clock.tick(60 * 60_000);
+    (registry as any).pollUnit('test_unit', true);
+    await flushAsyncWork();
+    expect(counterReads()).to.equal(2);
+    expect(mockDevice.recordOperatingHours.callCount).to.equal(2);
+    clock.restore();
+  });
+
+  it('takes slow tier intervals from the device settings', async () => {
+    const clock = sinon.useFakeTimers({ now: 1_000_000, toFake: ['Date'] });
+    const mockDevice = makeMockDevice({
+      settings: { poll_settings_interval_minutes: 2, poll_counters_interval_minutes: 10 },
+    });
+    registry.register('test_unit', mockDevice);
+    await flushAsyncWork();
+    const lastPollInstances = () => mockClient.readPropertyMultiple.getCalls()
+      .map((call: any) => call.args[1].map((entry: any) => `${entry.objectId.type}:${entry.objectId.instance}`))
+      .filter((instances: string[]) => instances.includes('0:4'))
+      .pop();
+
+    clock.tick(2 * 60_000);
+    (registry as any).pollUnit('test_unit', true);
+    expect(lastPollInstances()).to.include.members(['2:286', '2:2294']);
+    expect(lastPollInstances()).to.not.include('2:1847');
+
+    clock.tick(8 * 60_000);
+    (registry as any).pollUnit('test_unit', true);
+    expect(lastPollInstances()).to.include.members(['2:286', '2:1847']);
+    clock.restore();
+  });
+
+  it('polls slow tiers on their configured interval and after a write to one of their objects', async () => {
+    const clock = sinon.useFakeTimers({ now: 1_000_000, toFake: ['Date'] });
+    registry.destroy();
+    registry = new UnitRegistryClass({
+      writeTimeoutMs: TEST_WRITE_TIMEOUT_MS,
+      pollTierIntervalsMs: { settings: 60_000 },
+    });
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+    await flushAsyncWork();
+    const lastPollInstances = () => mockClient.readPropertyMultiple.getCalls()
+      .map((call: any) => call.args[1].map((entry: any) => `${entry.objectId.type}:${entry.objectId.instance}`))
+      .filter((instances: string[]) => instances.includes('0:4'))
+      .pop();
+    expect(lastPollInstances()).to.include.members(['0:4', '2:286', '2:285']);
+
+    (registry as any).pollUnit('test_unit');
+    expect(lastPollInstances()).to.include('0:4');
+    expect(lastPollInstances()).to.not.include.members(['2:286']);
+    expect(lastPollInstances()).to.not.include.members(['2:285']);
+
+    clock.tick(60_000);
+    (registry as any).pollUnit('test_unit');
+    expect(lastPollInstances()).to.include('2:286');
+    expect(lastPollInstances()).to.not.include('2:285');
+
+    await registry.resetFilterTimer('test_unit');
+    expect(lastPollInstances()).to.include('2:285');
+    expect(lastPollInstances()).to.not.include('2:286');
+    clock.restore();
+  });
+
+  it('keeps derived capabilities complete when a poll skips the settings tier', () => {
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+    const unit = (registry as any).units.get('test_unit');
+    (registry as any).handlePollResponse(unit, {
+      values: [makeReadObject(2, 285, 500), makeReadObject(2, 286, 1000)],
+    });
+    mockDevice.setCapabilityValue.resetHistory();
+
+    (registry as any).handlePollResponse(
+      unit,
+      { values: [makeReadObject(2, 285, 750)] },
+      { tiers: ['fast', 'counters'], startedAt: Date.now() },
+    );
+
+    expect(mockDevice.setCapabilityValue.calledWith('measure_hepa_filter', 25)).to.equal(true);
+  });
+
+  it('syncs heating and cooling neutral zones into settings', () => {
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+
+    const unit = { unitId: 'test_unit', devices: new Set([mockDevice]) };
+    (registry as any).distributeData(unit, {
+      'neutral_zone.heating.home': 1.1,
+      'neutral_zone.heating.away': 1,
+      'neutral_zone.cooling.home': 2,
+      'neutral_zone.cooling.away': 25,
+    });
+
+    expect(mockDevice.setSettings.calledWithMatch({
+      heating_neutral_zone_home: 1,
+      heating_neutral_zone_away: 1,
+      cooling_neutral_zone_home: 2,
+    })).to.equal(true);
+    const syncedKeys = mockDevice.setSettings.getCalls()
+      .flatMap((call) => Object.keys(call.args[0] ?? {}));
+    expect(syncedKeys.includes('cooling_neutral_zone_away')).to.equal(false);
+  });
+
+  it('syncs the polled high ventilation runtime into settings', () => {
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+
+    const unit = { unitId: 'test_unit', devices: new Set([mockDevice]) };
+    (registry as any).distributeData(unit, { rapid_duration_minutes: 25 });
+
+    expect(mockDevice.setSettings.calledWithMatch({ rapid_duration_minutes: 25 })).to.equal(true);
+  });
+
   it('falls back to slope request when dehumidification fan control is unavailable', () => {
     const mockDevice = makeMockDevice();
     registry.register('test_unit', mockDevice);
@@ -1644,6 +2323,97 @@ describe('UnitRegistry', () => {
     })).to.equal(true);
   });
 
+  it('writes humidity setpoints per mode with priority 13 and verifies the value', async () => {
+    const mockDevice = makeMockDevice();
+    mockClient.readPropertyMultiple.resetBehavior();
+    mockClient.readPropertyMultiple.callsFake((_ip: string, request: any[], cb: any) => {
+      const requestedObjects = request
+        .map((entry) => `${entry?.objectId?.type}:${entry?.objectId?.instance}`)
+        .sort()
+        .join(',');
+      if (requestedObjects === '2:62') {
+        cb(null, { values: [makeReadObject(BACNET_ENUMS.ObjectType.ANALOG_VALUE, 62, 65)] });
+        return;
+      }
+      cb(null, { values: [] });
+    });
+
+    registry.register('test_unit', mockDevice);
+    await registry.setHumiditySetpoint('test_unit', 'home', 64.6);
+
+    const writeArgs = mockClient.writeProperty.firstCall.args;
+    expect(writeArgs[1]).to.deep.equal({ type: 2, instance: 62 });
+    expect(writeArgs[3][0].value).to.equal(65);
+    expect(writeArgs[4].priority).to.equal(13);
+    expect(mockDevice.setSettings.calledWithMatch({ humidity_setpoint_home: 65 })).to.equal(true);
+  });
+
+  it('writes neutral zones with priority 13 and verifies the value', async () => {
+    const mockDevice = makeMockDevice();
+    mockClient.readPropertyMultiple.resetBehavior();
+    mockClient.readPropertyMultiple.callsFake((_ip: string, request: any[], cb: any) => {
+      const requestedObjects = request
+        .map((entry) => `${entry?.objectId?.type}:${entry?.objectId?.instance}`)
+        .sort()
+        .join(',');
+      if (requestedObjects === '2:1987') {
+        cb(null, { values: [makeReadObject(BACNET_ENUMS.ObjectType.ANALOG_VALUE, 1987, 1.5)] });
+        return;
+      }
+      cb(null, { values: [] });
+    });
+
+    registry.register('test_unit', mockDevice);
+    await registry.setNeutralZone('test_unit', 'heating', 'away', 1.4);
+
+    const writeArgs = mockClient.writeProperty.firstCall.args;
+    expect(writeArgs[1]).to.deep.equal({ type: 2, instance: 1987 });
+    expect(writeArgs[3][0].value).to.equal(1.5);
+    expect(writeArgs[4].priority).to.equal(13);
+    expect(mockDevice.setSettings.calledWithMatch({ heating_neutral_zone_away: 1.5 })).to.equal(true);
+  });
+
+  it('rejects unsupported neutral zones and out-of-range values before writing', async () => {
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+
+    const errors: string[] = [];
+    for (const [kind, mode, value] of [['defrost', 'home', 1], ['cooling', 'high', 1], ['cooling', 'home', 12]]) {
+      try {
+        await registry.setNeutralZone('test_unit', kind as any, mode as any, value as number);
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+    }
+
+    expect(errors[0]).to.contain("Unsupported neutral zone 'defrost'");
+    expect(errors[1]).to.contain("Unsupported neutral zone mode 'high'");
+    expect(errors[2]).to.contain('between 0 and 10 K');
+    expect(mockClient.writeProperty.called).to.equal(false);
+  });
+
+  it('rejects unsupported humidity setpoint modes and values before writing', async () => {
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+
+    let modeError: Error | null = null;
+    try {
+      await registry.setHumiditySetpoint('test_unit', 'fireplace' as any, 50);
+    } catch (error) {
+      modeError = error as Error;
+    }
+    let rangeError: Error | null = null;
+    try {
+      await registry.setHumiditySetpoint('test_unit', 'away', 120);
+    } catch (error) {
+      rangeError = error as Error;
+    }
+
+    expect(modeError?.message).to.contain("Unsupported humidity setpoint mode 'fireplace'");
+    expect(rangeError?.message).to.contain('between 0 and 100');
+    expect(mockClient.writeProperty.called).to.equal(false);
+  });
+
   it('marks BACnet device unavailable after 3 consecutive poll failures', () => {
     const mockDevice = makeMockDevice();
     registry.register('test_unit', mockDevice);
@@ -1709,6 +2479,319 @@ describe('UnitRegistry', () => {
     expect(record.error.message).to.equal('setAvailable failed');
   });
 
+  it('queues writes while the unit is unavailable and replays them in order once it is back', async () => {
+    const mockDevice = Object.assign(makeMockDevice({ settings: { offline_write_queue_enabled: true } }), {
+      saveOfflineWrites: sinon.stub().resolves(),
+    });
+    registry.register('test_unit', mockDevice);
+    await flushAsyncWork();
+    const unit = (registry as any).units.get('test_unit');
+    unit.available = false;
+    mockClient.writeProperty.resetHistory();
+
+    await registry.setFanMode('test_unit', 'away');
+    await registry.setHeatingCoilEnabled('test_unit', false);
+    await registry.setFanMode('test_unit', 'home');
+
+    expect(mockClient.writeProperty.called).to.equal(false);
+    expect(unit.offlineWrites.map((entry: any) => entry.write)).to.deep.equal([
+      { kind: 'heating_coil', enabled: false },
+      { kind: 'fan_mode', mode: 'home' },
+    ]);
+    expect(mockDevice.saveOfflineWrites.lastCall.args[0]).to.equal(unit.offlineWrites);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_pending_writes', 2)).to.equal(true);
+    expect(mockDevice.settings.offline_write_queue_oldest).to.match(/^heating coil off, queued \d{4}-/);
+
+    const setFanMode = sinon.spy(registry, 'setFanMode');
+    const setHeatingCoilEnabled = sinon.spy(registry, 'setHeatingCoilEnabled');
+    (registry as any).handlePollSuccess(unit);
+    for (let i = 0; i < 5; i++) await flushAsyncWork();
+
+    expect(setHeatingCoilEnabled.calledOnceWithExactly('test_unit', false)).to.equal(true);
+    expect(setFanMode.calledOnceWithExactly('test_unit', 'home')).to.equal(true);
+    expect(setHeatingCoilEnabled.calledBefore(setFanMode)).to.equal(true);
+    expect(mockClient.writeProperty.called).to.equal(true);
+    expect(unit.offlineWrites).to.deep.equal([]);
+    expect(mockDevice.setCapabilityValue.calledWith('measure_pending_writes', 0)).to.equal(true);
+    expect(mockDevice.settings.offline_write_queue_oldest).to.equal('-');
+  });
+
+  it('replays stored offline writes after a restart and drops expired ones', async () => {
+    const now = Date.now();
+    const mockDevice = Object.assign(makeMockDevice({
+      settings: { offline_write_queue_enabled: true, offline_write_queue_max_age_minutes: 30 },
+    }), {
+      loadOfflineWrites: sinon.stub().returns([
+        { write: { kind: 'heating_coil', enabled: true }, queuedAt: now - 31 * 60_000 },
+        { write: { kind: 'fan_mode', mode: 'away' }, queuedAt: now - 60_000 },
+      ]),
+      saveOfflineWrites: sinon.stub().resolves(),
+    });
+    const setFanMode = sinon.spy(registry, 'setFanMode');
+    const setHeatingCoilEnabled = sinon.spy(registry, 'setHeatingCoilEnabled');
+    mockClient.readPropertyMultiple = sinon.stub().yieldsAsync(null, { values: [] });
+
+    registry.register('test_unit', mockDevice);
+    for (let i = 0; i < 5; i++) await flushAsyncWork();
+
+    expect(setFanMode.calledOnceWithExactly('test_unit', 'away')).to.equal(true);
+    expect(setHeatingCoilEnabled.called).to.equal(false);
+    expect(mockDevice.saveOfflineWrites.lastCall.args[0]).to.deep.equal([]);
+  });
+
+  it('queues setting and schedule writes while the unit is unavailable and replays them', async () => {
+    const mockDevice = Object.assign(makeMockDevice({ settings: { offline_write_queue_enabled: true } }), {
+      saveOfflineWrites: sinon.stub().resolves(),
+    });
+    registry.register('test_unit', mockDevice);
+    await flushAsyncWork();
+    const unit = (registry as any).units.get('test_unit');
+    unit.available = false;
+    mockClient.writeProperty.resetHistory();
+    const exceptions = [{ period: { kind: 'date' as const, date: '2026-12-24' }, timeValues: [], priority: 16 }];
+
+    await registry.setHumiditySetpoint('test_unit', 'home', 45);
+    await registry.setFreeCoolingMinOnTimeSeconds('test_unit', 600);
+    const schedule = await registry.setOperatingModeSchedule('test_unit', { exceptions });
+
+    expect(schedule).to.equal(undefined);
+    expect(mockClient.writeProperty.called).to.equal(false);
+    expect(unit.offlineWrites.map((entry: any) => entry.write)).to.deep.equal([
+      { kind: 'humidity_setpoint', mode: 'home', value: 45 },
+      { kind: 'free_cooling', setting: 'min_on_time', value: 600 },
+      { kind: 'schedule', exceptions },
+    ]);
+
+    const setHumiditySetpoint = sinon.stub(registry, 'setHumiditySetpoint').resolves();
+    const setMinOnTime = sinon.stub(registry, 'setFreeCoolingMinOnTimeSeconds').resolves();
+    const setSchedule = sinon.stub(registry, 'setOperatingModeSchedule').resolves(undefined);
+    (registry as any).handlePollSuccess(unit);
+    for (let i = 0; i < 5; i++) await flushAsyncWork();
+
+    expect(setHumiditySetpoint.calledOnceWithExactly('test_unit', 'home', 45)).to.equal(true);
+    expect(setMinOnTime.calledOnceWithExactly('test_unit', 600)).to.equal(true);
+    expect(setSchedule.calledOnceWithExactly('test_unit', { weekly: undefined, exceptions })).to.equal(true);
+    expect(unit.offlineWrites).to.deep.equal([]);
+  });
+
+  it('rejects high and fireplace mode while the unit is unavailable instead of queueing them', async () => {
+    const mockDevice = Object.assign(makeMockDevice({ settings: { offline_write_queue_enabled: true } }), {
+      saveOfflineWrites: sinon.stub().resolves(),
+    });
+    registry.register('test_unit', mockDevice);
+    await flushAsyncWork();
+    const unit = (registry as any).units.get('test_unit');
+    unit.available = false;
+    mockClient.writeProperty.resetHistory();
+
+    for (const mode of ['fireplace', 'high']) {
+      let error: Error | undefined;
+      try {
+        await registry.setFanMode('test_unit', mode);
+      } catch (err) {
+        error = err as Error;
+      }
+      expect(error?.message).to.equal(`The unit is unavailable; ${mode} ventilation is not queued.`);
+    }
+
+    expect(unit.offlineWrites).to.deep.equal([]);
+    expect(mockClient.writeProperty.called).to.equal(false);
+  });
+
+  it('skips a queued write that a live write to the same target superseded during the replay', async () => {
+    const mockDevice = Object.assign(makeMockDevice({ settings: { offline_write_queue_enabled: true } }), {
+      saveOfflineWrites: sinon.stub().resolves(),
+    });
+    registry.register('test_unit', mockDevice);
+    await flushAsyncWork();
+    const unit = (registry as any).units.get('test_unit');
+    unit.available = false;
+    await registry.setFanMode('test_unit', 'away');
+    await registry.setHeatingCoilEnabled('test_unit', false);
+
+    let releaseFanMode: () => void = () => {};
+    const setFanMode = sinon.stub(registry, 'setFanMode').callsFake(() => new Promise<undefined>((resolve) => {
+      releaseFanMode = () => resolve(undefined);
+    }));
+    const setHeatingCoilEnabled = sinon.spy(registry, 'setHeatingCoilEnabled');
+    (registry as any).handlePollSuccess(unit);
+    await flushAsyncWork();
+    expect(setFanMode.calledOnceWithExactly('test_unit', 'away')).to.equal(true);
+
+    await registry.setHeatingCoilEnabled('test_unit', true);
+    releaseFanMode();
+    for (let i = 0; i < 5; i++) await flushAsyncWork();
+
+    expect(setHeatingCoilEnabled.calledOnceWithExactly('test_unit', true)).to.equal(true);
+    expect(unit.offlineWrites).to.deep.equal([]);
+  });
+
+  it('sends writes directly while the offline write queue is disabled', async () => {
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+    await flushAsyncWork();
+    const unit = (registry as any).units.get('test_unit');
+    unit.available = false;
+    mockClient.writeProperty.resetHistory();
+
+    await registry.setFanMode('test_unit', 'away');
+
+    expect(mockClient.writeProperty.called).to.equal(true);
+    expect(unit.offlineWrites).to.deep.equal([]);
+  });
+
+  it('journals a flow card point write and confirms it on the next poll', async () => {
+    const { runWithLogContext } = await import('../lib/logging.ts');
+    const mockDevice = Object.assign(makeMockDevice(), {
+      saveWriteJournal: sinon.stub().resolves(),
+    });
+    registry.register('test_unit', mockDevice);
+    await flushAsyncWork();
+    const unit = (registry as any).units.get('test_unit');
+
+    await runWithLogContext(
+      { writeSource: 'flow', flowCardId: 'write_point' },
+      () => registry.writePointValue('test_unit', '2:1994', 21.5, 10),
+    );
+
+    expect(unit.writeJournal.at(-1)).to.deep.include({
+      source: 'flow',
+      flowCardId: 'write_point',
+      object: '2:1994',
+      value: 21.5,
+      priority: 10,
+      transport: 'bacnet',
+      outcome: 'ok',
+      verification: 'pending',
+    });
+
+    (registry as any).parsePollValues(unit, [makeReadObject(2, 1994, 21.5)], Date.now() + 1_000);
+
+    expect(unit.writeJournal.at(-1)).to.deep.include({ verification: 'confirmed', observedValue: 21.5 });
+    expect(mockDevice.saveWriteJournal.lastCall.args[0]).to.equal(unit.writeJournal);
+  });
+
+  it('keeps a write pending when the poll that reads the object started before it', async () => {
+    const clock = sinon.useFakeTimers({ now: 1_000_000, toFake: ['Date'] });
+    registry.register('test_unit', makeMockDevice());
+    await flushAsyncWork();
+    const unit = (registry as any).units.get('test_unit');
+    let respond: ((err: any, value: any) => void) | undefined;
+    mockClient.readPropertyMultiple = sinon.stub().callsFake((_ip: string, _request: any, callback: any) => {
+      respond = callback;
+    });
+
+    (registry as any).pollAttempt(unit);
+    clock.tick(500);
+    await registry.writePointValue('test_unit', '2:1994', 21.5, 10);
+    clock.tick(500);
+    respond?.(null, { values: [makeReadObject(2, 1994, 20)] });
+
+    expect(unit.writeJournal.at(-1)).to.deep.include({ object: '2:1994', verification: 'pending' });
+
+    clock.tick(500);
+    (registry as any).pollAttempt(unit);
+    respond?.(null, { values: [makeReadObject(2, 1994, 21.5)] });
+
+    expect(unit.writeJournal.at(-1)).to.deep.include({ verification: 'confirmed', observedValue: 21.5 });
+    clock.restore();
+  });
+
+  it('journals writable point changes made outside the app', async () => {
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+    await flushAsyncWork();
+    const unit = (registry as any).units.get('test_unit');
+    unit.writeJournal = [];
+    unit.probeValues.set('2:1994', 20);
+    unit.probeValues.set('0:1', 3);
+
+    (registry as any).parsePollValues(unit, [makeReadObject(2, 1994, 22), makeReadObject(0, 1, 5)], Date.now());
+    (registry as any).parsePollValues(unit, [makeReadObject(2, 1994, 22)], Date.now());
+
+    expect(unit.writeJournal).to.have.length(1);
+    expect(unit.writeJournal[0]).to.deep.include({
+      source: 'external',
+      object: '2:1994',
+      value: 22,
+      previousValue: 20,
+      outcome: 'observed',
+      verification: 'not_applicable',
+    });
+  });
+
+  it('restores the write journal from the device store and records failed writes', async () => {
+    const stored = {
+      at: '2026-10-18T10:00:00.000Z',
+      source: 'capability',
+      capability: 'fan_mode',
+      object: '5:50',
+      value: 0,
+      transport: 'bacnet',
+      outcome: 'ok',
+      verification: 'confirmed',
+    };
+    const mockDevice = Object.assign(makeMockDevice(), {
+      loadWriteJournal: sinon.stub().returns([stored]),
+      saveWriteJournal: sinon.stub().resolves(),
+    });
+    registry.register('test_unit', mockDevice);
+    await flushAsyncWork();
+    mockClient.writeProperty = sinon.stub().yields(new Error('BacnetError Class:2 Code:40'));
+
+    let writeError: Error | undefined;
+    try {
+      await registry.writePointValue('test_unit', '2:1994', 21, 13);
+    } catch (error) {
+      writeError = error as Error;
+    }
+
+    expect(writeError?.message).to.match(/^Failed to write/);
+    const journal = registry.getWriteJournal('test_unit');
+    expect(journal.unitId).to.equal('test_unit');
+    expect(journal.exportedAt).to.match(/^\d{4}-\d{2}-\d{2}T/);
+    expect(journal.entries[0]).to.deep.equal(stored);
+    expect(journal.entries[1]).to.deep.include({
+      source: 'sync',
+      object: '2:1994',
+      outcome: 'failed',
+      verification: 'not_applicable',
+      error: 'BacnetError Class:2 Code:40',
+    });
+    expect(registry.getWriteJournals()).to.have.length(1);
+  });
+
+  it('registers the shared client with the BBMD from the device settings', () => {
+    const setRegistration = unitRegistryMocks.setForeignDeviceRegistration;
+    const first = makeMockDevice({ settings: { bbmd_address: '10.20.0.1', bbmd_ttl_seconds: 120 } });
+    const second = makeMockDevice({ unitId: 'second_unit', settings: { bbmd_address: '10.30.0.1' } });
+    const invalid = makeMockDevice({ unitId: 'third_unit', settings: { bacnetPort: 47809, bbmd_address: 'bbmd' } });
+    const errorSpy = sinon.spy();
+    registry.setLogger({ log: sinon.spy(), error: errorSpy });
+
+    registry.register('test_unit', first);
+    registry.register('second_unit', second);
+    registry.register('third_unit', invalid);
+
+    const registration = { bbmdAddress: '10.20.0.1', bbmdPort: 47808, ttlSeconds: 120 };
+    expect(setRegistration.mock.calls).to.deep.equal([
+      [47808, registration],
+      [47808, registration],
+      [47809, undefined],
+    ]);
+    const loggedEvents = errorSpy.getCalls().map((call) => String(call.args[0]));
+    expect(loggedEvents.some((line) => line.includes('registry.bbmd.conflict'))).to.equal(true);
+    expect(loggedEvents.some((line) => line.includes('registry.bbmd.invalid'))).to.equal(true);
+
+    registry.setForeignDeviceRegistration('test_unit', undefined);
+    expect(setRegistration.mock.calls.at(-1)).to.deep.equal([
+      47808, { bbmdAddress: '10.30.0.1', bbmdPort: 47808, ttlSeconds: 300 },
+    ]);
+    registry.unregister('second_unit', second);
+    expect(setRegistration.mock.calls.at(-1)).to.deep.equal([47808, undefined]);
+    expect(() => registry.setForeignDeviceRegistration('missing', undefined)).to.throw('Unit not found');
+  });
+
   it('falls back to the default BACnet port when the stored setting is invalid', () => {
     const mockDevice = makeMockDevice({
       settings: {
@@ -1818,6 +2901,67 @@ describe('UnitRegistry', () => {
     )).to.equal(true);
   });
 
+  it('fails a linked local unit over to cloud and back to BACnet once rediscovered', async () => {
+    const unitId = '800199000001';
+    const mockDevice = makeMockDevice({ unitId });
+    const cloudClient = {
+      readDatapoints: sinon.stub().resolves({}),
+      destroy: sinon.stub(),
+    };
+    registry.register(unitId, mockDevice);
+    registry.linkCloudFailover(unitId, { plantId: 'plant-1', client: cloudClient });
+    const unit = (registry as any).units.get(unitId);
+    expect(registry.getActiveTransport(unitId)).to.equal('bacnet');
+
+    for (let attempt = 0; attempt < 3; attempt++) (registry as any).handlePollFailure(unit);
+    await flushAsyncWork();
+
+    expect(registry.getActiveTransport(unitId)).to.equal('cloud');
+    expect(cloudClient.readDatapoints.called).to.equal(true);
+    expect(mockDevice.setUnavailable.called).to.equal(false);
+    expect(mockDevice.getSetting('active_transport')).to.equal('Flexit Cloud (failover)');
+    expect(unit.rediscoverInterval).to.not.equal(null);
+
+    mockClient.readPropertyMultiple.resetHistory();
+    discoverStub.resolves([{
+      name: 'Nordic Mock',
+      serial: '800199-000001',
+      serialNormalized: unitId,
+      ip: '127.0.0.1',
+      bacnetPort: 47808,
+    }]);
+    (registry as any).stopRediscovery(unit);
+    (registry as any).startRediscovery(unit);
+    await flushAsyncWork();
+
+    expect(registry.getActiveTransport(unitId)).to.equal('bacnet');
+    expect(mockClient.readPropertyMultiple.called).to.equal(true);
+    expect(mockDevice.getSetting('active_transport')).to.equal('Local (BACnet)');
+    expect(unit.rediscoverInterval).to.equal(null);
+    expect(cloudClient.destroy.called).to.equal(false);
+  });
+
+  it('links cloud failover only for BACnet units and fails over at once when the unit is already down', () => {
+    const cloudClient = { readDatapoints: sinon.stub().resolves({}), destroy: sinon.stub() };
+    expect(() => registry.linkCloudFailover('missing_unit', { plantId: 'plant-1', client: cloudClient }))
+      .to.throw('Unit missing_unit is not a registered BACnet unit — cannot link cloud failover');
+    expect(cloudClient.destroy.calledOnce).to.equal(true);
+
+    const mockDevice = makeMockDevice();
+    registry.register('test_unit', mockDevice);
+    (registry as any).units.get('test_unit').available = false;
+    const replacedClient = { readDatapoints: sinon.stub().resolves({}), destroy: sinon.stub() };
+    registry.linkCloudFailover('test_unit', { plantId: 'plant-1', client: replacedClient });
+    expect(registry.getActiveTransport('test_unit')).to.equal('cloud');
+
+    const nextClient = { readDatapoints: sinon.stub().resolves({}), destroy: sinon.stub() };
+    registry.linkCloudFailover('test_unit', { plantId: 'plant-1', client: nextClient });
+    expect(replacedClient.destroy.calledOnce).to.equal(true);
+
+    registry.unregister('test_unit', mockDevice);
+    expect(nextClient.destroy.calledOnce).to.equal(true);
+  });
+
   it('abandons stale poll and starts fresh when next interval fires', () => {
     const mockDevice = makeMockDevice();
     const callbacks: Array<(err: any, value: any) => void> = [];
@@ -5,9 +5,27 @@ import sinon from 'sinon';
 import { getFreePort, sleep } from './test_utils.ts';
 
 import Bacnet from 'bacstack';
-import { UnitRegistry } from '../lib/UnitRegistry.ts';
+import {
+  FAN_PROFILE_MODES,
+  HUMIDITY_SETPOINT_MODES,
+  NEUTRAL_ZONE_KINDS,
+  NEUTRAL_ZONE_MODES,
+  UnitRegistry,
+} from '../lib/UnitRegistry.ts';
+import {
+  createEmptyWeeklySchedule,
+  decodeExceptionSchedule,
+  decodeWeeklySchedule,
+  encodeWeeklySchedule,
+  writeScheduleProperty,
+} from '../lib/bacnetSchedule.ts';
+import { BacnetIpTransport } from '../lib/bacnetTransport.ts';
+import { discoverBacnetFlexitUnits } from '../lib/flexitBacnetProbe.ts';
+import { findCatalogMismatches } from '../lib/flexitPointCatalog.ts';
+import { createRuntimeLogger } from '../lib/logging.ts';
 import { FakeBacnetServer } from '../scripts/fake-unit/bacnetServer.ts';
 import { FakeNordicUnitState } from '../scripts/fake-unit/state.ts';
+import { findStructuredLog } from './logging_test_utils.ts';
 import {
   DEFAULT_DEVICE_NAME,
   DEFAULT_FIRMWARE,
@@ -15,6 +33,7 @@ import {
   OBJECT_TYPE,
   OPERATION_MODE_VALUES,
   PROPERTY_ID,
+  SUPPORTED_POINTS,
   DEFAULT_VENDOR_ID,
   DEFAULT_VENDOR_NAME,
 } from '../scripts/fake-unit/manifest.ts';
@@ -215,7 +234,7 @@ async function pickAvailablePort(maxAttempts = 20): Promise<number> {
   throw new Error(`Unable to find an available UDP port after ${maxAttempts} attempts`);
 }
 
-async function createHarnessOnPort(serverPort: number) {
+async function createHarnessOnPort(serverPort: number, serverOptions: Record<string, any> = {}) {
   const state = createState();
   let server: any;
   let client: any;
@@ -227,6 +246,7 @@ async function createHarnessOnPort(serverPort: number) {
       advertiseAddress: SERVER_BIND_ADDRESS,
       logTraffic: false,
       periodicIAmMs: 0,
+      ...serverOptions,
     });
     server.start();
     await waitForSocketListening(transportSocketFromClient((server as any).client));
@@ -270,13 +290,47 @@ async function createServerOnAddress(state: any, serverPort: number, bindAddress
   return server;
 }
 
-async function createBacnetHarness() {
+async function createServerWithOptions(state: any, serverPort: number, options: Record<string, any>) {
+  const server = new FakeBacnetServer(state, {
+    port: serverPort,
+    bindAddress: SERVER_BIND_ADDRESS,
+    advertiseAddress: SERVER_BIND_ADDRESS,
+    logTraffic: false,
+    periodicIAmMs: 0,
+    ...options,
+  });
+  server.start();
+  await waitForSocketListening(transportSocketFromClient((server as any).client));
+  return server;
+}
+
+// A client on the transport the app uses, registered as a foreign device with the fake unit acting as BBMD.
+function createForeignDeviceClient(serverPort: number, sink: { log: sinon.SinonStub; error: sinon.SinonStub }) {
+  const logger = createRuntimeLogger(sink, { component: 'bacnet' });
+  const transport = new BacnetIpTransport({
+    port: serverPort,
+    interface: CLIENT_BIND_ADDRESS,
+    broadcastAddress: '255.255.255.255',
+    getLogger: () => logger,
+  });
+  transport.setForeignDeviceRegistration({ bbmdAddress: SERVER_BIND_ADDRESS, bbmdPort: serverPort, ttlSeconds: 60 });
+  const client = new Bacnet({
+    port: serverPort,
+    apduTimeout: 3000,
+    apduSize: 1476,
+    transport,
+  } as any);
+  client.on('error', () => { });
+  return { client, transport };
+}
+
+async function createBacnetHarness(serverOptions: Record<string, any> = {}) {
   let lastError: unknown;
 
   for (let attempt = 1; attempt <= 8; attempt += 1) {
     const serverPort = await pickAvailablePort();
     try {
-      return await createHarnessOnPort(serverPort);
+      return await createHarnessOnPort(serverPort, serverOptions);
     } catch (error) {
       lastError = error;
       if (!isRetryablePortError(error)) throw error;
@@ -386,6 +440,79 @@ describe('UnitRegistry fake-unit e2e', { timeout: 10000 }, () => {
     expect(synced).not.toBe(undefined);
   });
 
+  it('discovers the fake unit with a BACnet Who-Is and reads its serial', async () => {
+    server.stop();
+    await sleep(25);
+    server = new FakeBacnetServer(state, {
+      port: serverPort,
+      bindAddress: SERVER_BIND_ADDRESS,
+      advertiseAddress: SERVER_BIND_ADDRESS,
+      broadcastAddress: CLIENT_BIND_ADDRESS,
+      logTraffic: false,
+      periodicIAmMs: 0,
+    });
+    server.start();
+    await waitForSocketListening(transportSocketFromClient((server as any).client));
+
+    const units = await discoverBacnetFlexitUnits(client, {
+      broadcastAddresses: [SERVER_BIND_ADDRESS],
+      bacnetPort: serverPort,
+      timeoutMs: 400,
+    });
+
+    expect(units).toEqual([expect.objectContaining({
+      serial: '800131-123456',
+      serialNormalized: '800131123456',
+      ip: SERVER_BIND_ADDRESS,
+      bacnetPort: serverPort,
+    })]);
+  });
+
+  it('registers with the fake BBMD and discovers the unit through a distributed Who-Is', async () => {
+    server.stop();
+    client.close();
+    await sleep(25);
+    server = await createServerWithOptions(state, serverPort, { bbmd: {} });
+    const sink = { log: sinon.stub(), error: sinon.stub() };
+    const foreign = createForeignDeviceClient(serverPort, sink);
+    client = foreign.client;
+
+    await waitFor(() => foreign.transport.getForeignDeviceRegistrationState() === 'registered');
+    expect(server.bbmd.getForeignDeviceCount()).toBe(1);
+    expect(findStructuredLog(sink.log, 'bacnet.bbmd.registered')).toMatchObject({
+      bbmdAddress: SERVER_BIND_ADDRESS,
+      ttlSeconds: 60,
+    });
+
+    const units = await discoverBacnetFlexitUnits(client, {
+      broadcastAddresses: ['255.255.255.255'],
+      bacnetPort: serverPort,
+      timeoutMs: 400,
+    });
+
+    expect(units).toEqual([expect.objectContaining({
+      serial: '800131-123456',
+      ip: SERVER_BIND_ADDRESS,
+    })]);
+  });
+
+  it('logs a foreign device registration the fake BBMD rejects', async () => {
+    server.stop();
+    client.close();
+    await sleep(25);
+    server = await createServerWithOptions(state, serverPort, { bbmd: { rejectRegistrations: true } });
+    const sink = { log: sinon.stub(), error: sinon.stub() };
+    const foreign = createForeignDeviceClient(serverPort, sink);
+    client = foreign.client;
+
+    await waitFor(() => foreign.transport.getForeignDeviceRegistrationState() === 'rejected');
+    expect(server.bbmd.getForeignDeviceCount()).toBe(0);
+    expect(findStructuredLog(sink.error, 'bacnet.bbmd.registration.rejected')).toMatchObject({
+      bbmdAddress: SERVER_BIND_ADDRESS,
+      bbmdPort: serverPort,
+    });
+  });
+
   it('persists a rediscovered BACnet endpoint and reuses it after restart', async () => {
     const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
     registry.register('test_unit', device);
@@ -627,6 +754,211 @@ describe('UnitRegistry fake-unit e2e', { timeout: 10000 }, () => {
     )));
   });
 
+  it('raises, acknowledges, and clears unit alarms against the fake unit', async () => {
+    const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
+    const events: Array<{ raised: boolean; alarmClass: string; code: number; text: string }> = [];
+    registry.setAlarmStateChangedHandler((event: any) => {
+      events.push({
+        raised: event.raised,
+        alarmClass: event.alarmClass,
+        code: event.code,
+        text: event.text,
+      });
+    });
+    registry.register('test_unit', device);
+
+    await waitFor(() => device.setCapabilityValue.getCalls().some((call: any) => (
+      call.args[0] === 'alarm_generic' && call.args[1] === false
+    )));
+
+    state.raiseAlarm(1020, 'A');
+    state.raiseAlarm(1007, 'A');
+    (registry as any).pollUnit('test_unit');
+    await waitFor(() => events.length === 1);
+    expect(events[0]).toEqual({
+      raised: true,
+      alarmClass: 'A',
+      code: 1007,
+      text: 'Rotary heat exchanger, motor stuck',
+    });
+    await waitFor(() => device.setCapabilityValue.getCalls().some((call: any) => (
+      call.args[0] === 'alarm_generic' && call.args[1] === true
+    )));
+    await waitFor(() => device.setCapabilityValue.getCalls().some((call: any) => (
+      call.args[0] === 'measure_alarm_count' && call.args[1] === 2
+    )));
+
+    device.setCapabilityValue.resetHistory();
+    await registry.acknowledgeAlarms('test_unit');
+    await waitFor(() => events.length === 2);
+    expect(events[1]).toMatchObject({ raised: false, alarmClass: 'A', code: 1007 });
+    await waitFor(() => device.setCapabilityValue.getCalls().some((call: any) => (
+      call.args[0] === 'alarm_generic' && call.args[1] === false
+    )));
+    expect(device.setCapabilityValue.calledWith('measure_alarm_count', 0)).toBe(true);
+
+    const acknowledgeWrites = writePresentValueSpy.getCalls().filter((call: any) => (
+      call.args[0] === OBJECT_TYPE.MULTI_STATE_VALUE
+      && (call.args[1] === 346 || call.args[1] === 348)
+      && call.args[3] === 2
+      && call.args[4] === 13
+    ));
+    expect(acknowledgeWrites.map((call: any) => call.args[1]).sort()).toEqual([346, 348]);
+  });
+
+  it('syncs the operating mode schedule into settings and writes edits back to the unit', async () => {
+    const initial = createEmptyWeeklySchedule();
+    initial.monday = [{ time: '06:30', value: 3 }, { time: '22:00', value: 2 }];
+    state.writeScheduleProperty(5, PROPERTY_ID.WEEKLY_SCHEDULE, encodeWeeklySchedule(initial, 2));
+    const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
+    await device.setSettings({
+      schedule_monday: '',
+      schedule_tuesday: '',
+      schedule_wednesday: '',
+      schedule_thursday: '',
+      schedule_friday: '',
+      schedule_saturday: '',
+      schedule_sunday: '',
+      schedule_exceptions: '',
+    });
+    device.setSettings.resetHistory();
+    registry.register('test_unit', device);
+
+    await waitFor(() => device.setSettings.calledWithMatch({ schedule_monday: '06:30 home, 22:00 away' }));
+
+    const weekly = createEmptyWeeklySchedule();
+    weekly.saturday = [{ time: '09:00', value: 4 }, { time: '11:00', value: null }];
+    const exceptions = [{
+      period: { kind: 'dateRange' as const, startDate: '2026-12-24', endDate: '2026-12-26' },
+      timeValues: [{ time: '07:00', value: 3 }],
+      priority: 10,
+    }];
+    const schedule = await registry.setOperatingModeSchedule('test_unit', { weekly, exceptions });
+
+    expect(schedule.weekly).toEqual(weekly);
+    expect(schedule.exceptions).toEqual(exceptions);
+    const stored = state.readScheduleProperty(5, PROPERTY_ID.WEEKLY_SCHEDULE);
+    expect(decodeWeeklySchedule(stored.value)).toEqual(weekly);
+    const storedExceptions = state.readScheduleProperty(5, PROPERTY_ID.EXCEPTION_SCHEDULE);
+    expect(decodeExceptionSchedule(storedExceptions.value)).toEqual(exceptions);
+    await waitFor(() => device.setSettings.calledWithMatch({
+      schedule_monday: '',
+      schedule_saturday: '09:00 high, 11:00 none',
+      schedule_exceptions: '2026-12-24..2026-12-26 p10: 07:00 home',
+    }));
+    await expect(registry.getOperatingModeSchedule('test_unit')).resolves.toEqual({ weekly, exceptions });
+  });
+
+  it('retries the schedule settings read after it fails', async () => {
+    const initial = createEmptyWeeklySchedule();
+    initial.friday = [{ time: '08:00', value: 2 }];
+    state.writeScheduleProperty(5, PROPERTY_ID.WEEKLY_SCHEDULE, encodeWeeklySchedule(initial, 2));
+    const readSchedule = sinon.stub(state, 'readScheduleProperty').callThrough();
+    readSchedule.onFirstCall().returns({
+      ok: false, errorClass: 2, errorCode: 31, message: 'busy',
+    } as any);
+    const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
+    await device.setSettings({ schedule_monday: '', schedule_friday: '' });
+    registry.register('test_unit', device);
+
+    await waitFor(() => readSchedule.called);
+    await sleep(50);
+    (registry as any).pollUnit('test_unit');
+    await waitFor(() => device.setSettings.calledWithMatch({ schedule_friday: '08:00 away' }));
+    readSchedule.restore();
+  });
+
+  it('keeps unedited schedule days and refreshes the schedule settings from the unit', async () => {
+    registry.destroy();
+    registry = new UnitRegistry({
+      getBacnetClient: getBacnetClientStub,
+      discoverFlexitUnits: discoverFlexitUnitsStub,
+      pollTierIntervalsMs: { settings: 0 },
+    });
+    const initial = createEmptyWeeklySchedule();
+    initial.monday = [{ time: '06:30', value: 3 }];
+    state.writeScheduleProperty(5, PROPERTY_ID.WEEKLY_SCHEDULE, encodeWeeklySchedule(initial, 2));
+    const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
+    await device.setSettings({ schedule_monday: '', schedule_tuesday: '', schedule_saturday: '' });
+    registry.register('test_unit', device);
+
+    // Written before the first schedule read has filled the settings.
+    await registry.setOperatingModeSchedule('test_unit', { weekly: { saturday: [{ time: '09:00', value: 4 }] } });
+    expect(decodeWeeklySchedule(state.readScheduleProperty(5, PROPERTY_ID.WEEKLY_SCHEDULE).value)).toMatchObject({
+      monday: [{ time: '06:30', value: 3 }],
+      saturday: [{ time: '09:00', value: 4 }],
+    });
+
+    const changedOnPanel = decodeWeeklySchedule(state.readScheduleProperty(5, PROPERTY_ID.WEEKLY_SCHEDULE).value);
+    changedOnPanel.tuesday = [{ time: '07:15', value: 2 }];
+    state.writeScheduleProperty(5, PROPERTY_ID.WEEKLY_SCHEDULE, encodeWeeklySchedule(changedOnPanel, 2));
+    (registry as any).pollUnit('test_unit');
+    await waitFor(() => device.setSettings.calledWithMatch({ schedule_tuesday: '07:15 away' }));
+  });
+
+  it('documents every object the registry writes to the unit in the point catalog', { timeout: 30000 }, async () => {
+    const writeScheduleSpy = sinon.spy(state, 'writeScheduleProperty');
+    const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
+    registry.register('test_unit', device);
+
+    await registry.setTemperatureSetpoint('test_unit', 'home', 21.5);
+    await registry.setTemperatureSetpoint('test_unit', 'away', 17.5);
+    for (const mode of HUMIDITY_SETPOINT_MODES) await registry.setHumiditySetpoint('test_unit', mode, 75);
+    for (const kind of NEUTRAL_ZONE_KINDS) {
+      for (const mode of NEUTRAL_ZONE_MODES) await registry.setNeutralZone('test_unit', kind, mode, 2.5);
+    }
+    for (const mode of FAN_PROFILE_MODES) {
+      await registry.setFanProfileMode(
+        'test_unit',
+        mode,
+        DEFAULT_FAN_SETTINGS[`fan_profile_${mode}_supply`] - 1,
+        DEFAULT_FAN_SETTINGS[`fan_profile_${mode}_exhaust`] - 1,
+      );
+    }
+    await registry.setFreeCoolingEnabled('test_unit', true);
+    await registry.setFreeCoolingTemperatureSetpoint('test_unit', 24.5);
+    await registry.setFreeCoolingOutsideTemperatureLimit('test_unit', 16.5);
+    await registry.setFreeCoolingMinOnTimeSeconds('test_unit', 1200);
+    await registry.setHeatingCoilEnabled('test_unit', false);
+    await registry.setFireplaceVentilationDuration('test_unit', 15);
+    await registry.setRapidVentilationDuration('test_unit', 15);
+    await registry.startRapidVentilation('test_unit', 20);
+    (registry as any).pollUnit('test_unit');
+    await waitFor(() => device.setCapabilityValue.getCalls().some((call: any) => (
+      call.args[0] === 'measure_timed_mode_remaining' && call.args[1] > 0
+    )));
+    await registry.extendTimedMode('test_unit', 25);
+    for (const mode of ['home', 'away', 'high', 'fireplace', 'cooker', 'home']) {
+      await registry.setFanMode('test_unit', mode);
+    }
+    await registry.setFilterChangeInterval('test_unit', 5000);
+    await registry.resetFilterTimer('test_unit');
+    await registry.acknowledgeAlarms('test_unit');
+    await registry.setOperatingModeSchedule('test_unit', { weekly: { monday: [{ time: '07:00', value: 3 }] } });
+
+    const written = [
+      ...writePresentValueSpy.getCalls().map((call: any) => ({ type: call.args[0], instance: call.args[1] })),
+      ...writeScheduleSpy.getCalls().map((call: any) => ({ type: OBJECT_TYPE.SCHEDULE, instance: call.args[0] })),
+    ];
+    writeScheduleSpy.restore();
+    const writtenKeys = new Set(written.map(({ type, instance }) => `${type}:${instance}`));
+    expect(writtenKeys.size).toBeGreaterThan(30);
+    expect(findCatalogMismatches(written.map((objectId) => ({ ...objectId, write: true })))).toEqual([]);
+  });
+
+  it('rejects malformed schedule writes on the fake unit', async () => {
+    const target = { client, address: SERVER_BIND_ADDRESS, timeoutMs: SHORT_WRITE_TIMEOUT_MS };
+
+    await expect(writeScheduleProperty(
+      target,
+      { type: OBJECT_TYPE.SCHEDULE, instance: 5 },
+      PROPERTY_ID.WEEKLY_SCHEDULE,
+      Buffer.from([0x0e, 0x0f]),
+    )).rejects.toThrow(/Code:9/);
+    expect(decodeWeeklySchedule(state.readScheduleProperty(5, PROPERTY_ID.WEEKLY_SCHEDULE).value))
+      .toEqual(createEmptyWeeklySchedule());
+  });
+
   it('reads dehumidification state directly from BACnet when requested', async () => {
     const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
     registry.register('test_unit', device);
@@ -767,6 +1099,56 @@ describe('UnitRegistry fake-unit e2e', { timeout: 10000 }, () => {
     expect(device.getSetting('fireplace_duration_minutes')).toBe(27);
   });
 
+  it('restarts temporary high with the requested duration on the fake unit', async () => {
+    const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
+    registry.register('test_unit', device);
+
+    expect(state.startRapid(12).ok).toBe(true);
+    (registry as any).pollUnit('test_unit');
+    await waitFor(() => device.setCapabilityValue.getCalls().some((call: any) => (
+      call.args[0] === 'fan_mode' && call.args[1] === 'high'
+    )));
+    writePresentValueSpy.resetHistory();
+
+    await registry.startRapidVentilation('test_unit', 25);
+    await waitFor(() => {
+      const remaining = state.readPresentValue(OBJECT_TYPE.ANALOG_VALUE, 2005, PROPERTY_ID.PRESENT_VALUE);
+      return remaining.ok && Number(remaining.value.value) > 20;
+    });
+
+    const runtime = state.readPresentValue(OBJECT_TYPE.POSITIVE_INTEGER_VALUE, 293, PROPERTY_ID.PRESENT_VALUE);
+    expect(runtime.ok && runtime.value.value).toBe(25);
+    const rapidTriggerWrites = writePresentValueSpy.getCalls().filter((call: any) => (
+      call.args[0] === OBJECT_TYPE.MULTI_STATE_VALUE
+      && call.args[1] === 357
+      && call.args[3] === 2
+      && call.args[4] === 13
+    ));
+    expect(rapidTriggerWrites.length).toBe(2);
+    expect(device.getSetting('rapid_duration_minutes')).toBe(25);
+  });
+
+  it('extends running fireplace ventilation without changing the saved runtime', async () => {
+    const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
+    registry.register('test_unit', device);
+
+    await registry.setFanMode('test_unit', 'fireplace');
+    (registry as any).pollUnit('test_unit');
+    await waitFor(() => device.setCapabilityValue.getCalls().some((call: any) => (
+      call.args[0] === 'measure_timed_mode_remaining' && call.args[1] > 0
+    )));
+
+    await registry.extendTimedMode('test_unit', 20);
+    await waitFor(() => {
+      const remaining = state.readPresentValue(OBJECT_TYPE.ANALOG_VALUE, 2038, PROPERTY_ID.PRESENT_VALUE);
+      const active = state.readPresentValue(OBJECT_TYPE.BINARY_VALUE, 400, PROPERTY_ID.PRESENT_VALUE);
+      return remaining.ok && active.ok && active.value.value === 1 && Number(remaining.value.value) > 25;
+    });
+
+    const runtime = state.readPresentValue(OBJECT_TYPE.POSITIVE_INTEGER_VALUE, 270, PROPERTY_ID.PRESENT_VALUE);
+    expect(runtime.ok && runtime.value.value).toBe(10);
+  });
+
   it('writes free cooling settings with priority 13 and syncs settings', async () => {
     const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
     registry.register('test_unit', device);
@@ -807,6 +1189,111 @@ describe('UnitRegistry fake-unit e2e', { timeout: 10000 }, () => {
     expect(device.getSetting('free_cooling_min_on_time_seconds')).toBe(1200);
   });
 
+  it('publishes room humidity only for sensors the fake unit reports as connected', async () => {
+    const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
+    registry.register('test_unit', device);
+
+    (registry as any).pollUnit('test_unit');
+    await waitFor(() => device.setCapabilityValue.getCalls().some((call: any) => (
+      call.args[0] === 'measure_humidity.room3'
+    )));
+
+    const capabilities = new Set(device.setCapabilityValue.getCalls().map((call: any) => call.args[0]));
+    expect(capabilities.has('measure_humidity.room1')).toBe(true);
+    expect(capabilities.has('measure_humidity.room2')).toBe(true);
+    expect(capabilities.has('measure_humidity.vmsh1')).toBe(false);
+
+    (state as any).setSimulatedPoint('rf_device_1_state', 1);
+    (state as any).setSimulatedPoint('humidity_room_vmsh_2', 58);
+    device.setCapabilityValue.resetHistory();
+    (registry as any).pollUnit('test_unit');
+    await waitFor(() => device.setCapabilityValue.calledWith('measure_humidity.vmsh2', 58));
+    expect(device.setCapabilityValue.calledWith('measure_humidity.room1')).toBe(false);
+  });
+
+  it('publishes rotor telemetry and raises a heat exchanger fault from the fake unit', async () => {
+    const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
+    const handler = sinon.stub();
+    registry.setHeatExchangerFaultHandler(handler);
+    registry.register('test_unit', device);
+
+    (registry as any).pollUnit('test_unit');
+    await waitFor(() => device.setCapabilityValue.calledWith('heat_exchanger_health', 'ok'));
+    expect(device.setCapabilityValue.calledWith('measure_heat_exchanger_efficiency', 74)).toBe(true);
+    expect(device.setCapabilityValue.getCalls().some((call: any) => (
+      call.args[0] === 'measure_rotor_speed_percent'
+    ))).toBe(true);
+    expect(device.getSetting('heat_exchanger_motor_failures')).toBe('0');
+
+    (state as any).setSimulatedPoint('rotor_motor_stuck', 1);
+    (registry as any).pollUnit('test_unit');
+    await waitFor(() => device.setCapabilityValue.calledWith('heat_exchanger_health', 'motor_stuck'));
+    expect(handler.calledOnce).toBe(true);
+    expect(handler.firstCall.args[0]).toMatchObject({ fault: 'motor_stuck' });
+    registry.setHeatExchangerFaultHandler(undefined);
+  });
+
+  it('publishes fan pressures and airflow but no duct pressure from the fake unit', async () => {
+    const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
+    registry.register('test_unit', device);
+
+    (registry as any).pollUnit('test_unit');
+    const capabilityValue = (capability: string) => device.setCapabilityValue.getCalls()
+      .find((call: any) => call.args[0] === capability)?.args[1];
+    await waitFor(() => capabilityValue('measure_airflow.supply') !== undefined);
+
+    const supplyPressure = capabilityValue('measure_air_pressure.fan_supply');
+    expect(supplyPressure).toBeGreaterThan(0);
+    // 800131 is an S4, with a fan k-factor of 76.
+    expect(capabilityValue('measure_airflow.supply')).toBe(Math.round(76 * Math.sqrt(supplyPressure)));
+    expect(capabilityValue('measure_airflow.extract')).toBeGreaterThan(0);
+    expect(capabilityValue('measure_air_pressure.duct_supply')).toBeUndefined();
+  });
+
+  it('syncs humidity setpoints and writes them per mode with priority 13', async () => {
+    const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
+    registry.register('test_unit', device);
+
+    (registry as any).pollUnit('test_unit');
+    await waitFor(() => device.getSetting('humidity_setpoint_away') === 80);
+    expect(device.getSetting('humidity_setpoint_home')).toBe(70);
+    expect(device.getSetting('humidity_setpoint_high')).toBe(100);
+    expect(device.getSetting('humidity_setpoint_present')).toBe('70 %');
+
+    await registry.setHumiditySetpoint('test_unit', 'high', 85);
+
+    const setpoint = state.readPresentValue(OBJECT_TYPE.ANALOG_VALUE, 61, PROPERTY_ID.PRESENT_VALUE);
+    expect(setpoint.ok && setpoint.value.value).toBe(85);
+    const writes = writePresentValueSpy.getCalls().filter((call: any) => (
+      call.args[0] === OBJECT_TYPE.ANALOG_VALUE
+      && call.args[1] === 61
+      && call.args[4] === 13
+    ));
+    expect(writes.length).toBe(1);
+    expect(device.getSetting('humidity_setpoint_high')).toBe(85);
+  });
+
+  it('syncs neutral zones and writes them with priority 13', async () => {
+    const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
+    registry.register('test_unit', device);
+
+    (registry as any).pollUnit('test_unit');
+    await waitFor(() => device.getSetting('cooling_neutral_zone_away') === 6);
+    expect(device.getSetting('heating_neutral_zone_home')).toBe(1);
+
+    await registry.setNeutralZone('test_unit', 'heating', 'home', 2.5);
+
+    const delta = state.readPresentValue(OBJECT_TYPE.ANALOG_VALUE, 1921, PROPERTY_ID.PRESENT_VALUE);
+    expect(delta.ok && delta.value.value).toBe(2.5);
+    const writes = writePresentValueSpy.getCalls().filter((call: any) => (
+      call.args[0] === OBJECT_TYPE.ANALOG_VALUE
+      && call.args[1] === 1921
+      && call.args[4] === 13
+    ));
+    expect(writes.length).toBe(1);
+    expect(device.getSetting('heating_neutral_zone_home')).toBe(2.5);
+  });
+
   it('does not re-trigger fireplace when fireplace is already active', async () => {
     const device = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4380);
     registry.register('test_unit', device);
@@ -1407,4 +1894,122 @@ describe('UnitRegistry fake-unit e2e', { timeout: 10000 }, () => {
       call.args[0] === 'measure_fan_setpoint_percent.extract' && call.args[1] === 50
     )));
   });
+
+  it('subscribes to COV and slows the fallback poll', async () => {
+    const mockDevice = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4383);
+    registry.register('test_unit', mockDevice as any);
+
+    await waitFor(() => registry.units.get('test_unit')?.covSubscribedKeys.size > 0);
+    const unit = registry.units.get('test_unit');
+    expect(server.getCovSubscriptionCount()).to.equal(unit.covSubscribedKeys.size);
+    expect(unit.covSubscribedKeys.has('19:42')).to.equal(true);
+    expect(unit.covRenewInterval).to.not.equal(null);
+    expect((unit.pollInterval as any)._idleTimeout).to.equal(60_000);
+  });
+
+  it('publishes mode changes from COV notifications without polling', async () => {
+    const mockDevice = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4383);
+    registry.register('test_unit', mockDevice as any);
+    await waitFor(() => registry.units.get('test_unit')?.covSubscribedKeys.size > 0);
+    await waitFor(() => mockDevice.setCapabilityValue.calledWith('fan_mode', 'home'));
+
+    const pollSpy = sinon.spy(registry, 'pollUnit');
+    try {
+      expect(state.startFireplace(10).ok).to.equal(true);
+      await waitFor(() => mockDevice.setCapabilityValue.calledWith('fan_mode', 'fireplace'));
+      expect(pollSpy.called).to.equal(false);
+    } finally {
+      pollSpy.restore();
+    }
+  });
+
+  it('acknowledges confirmed COV notifications and renews subscriptions', async () => {
+    registry.destroy();
+    registry = new UnitRegistry({
+      getBacnetClient: getBacnetClientStub,
+      discoverFlexitUnits: discoverFlexitUnitsStub,
+      covConfirmedNotifications: true,
+      covLifetimeSeconds: 1,
+    });
+    const ackSpy = sinon.spy(client, 'simpleAckResponse');
+    const subscribeSpy = sinon.spy(client, 'subscribeCOV');
+    const mockDevice = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4383);
+
+    try {
+      registry.register('test_unit', mockDevice as any);
+      await waitFor(() => ackSpy.called);
+      const initialSubscribeCount = subscribeSpy.callCount;
+      await waitFor(() => subscribeSpy.callCount > initialSubscribeCount, 2000);
+      expect(subscribeSpy.lastCall.args[4]).to.equal(true);
+      expect(subscribeSpy.lastCall.args[5]).to.equal(1);
+
+      await sleep(1200);
+      expect(server.getCovSubscriptionCount()).to.be.greaterThan(0);
+    } finally {
+      ackSpy.restore();
+      subscribeSpy.restore();
+    }
+  });
+
+  it('cancels COV subscriptions when the unit is unregistered', async () => {
+    const mockDevice = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4383);
+    registry.register('test_unit', mockDevice as any);
+    await waitFor(() => server.getCovSubscriptionCount() > 0);
+
+    registry.unregister('test_unit', mockDevice as any);
+    await waitFor(() => server.getCovSubscriptionCount() === 0);
+  });
+});
+
+describe('UnitRegistry fake-unit COV fallback', { timeout: 10000 }, () => {
+  let registry: any;
+  let client: any;
+  let server: any;
+  let serverPort = 47808;
+
+  afterEach(async () => {
+    registry?.destroy();
+    client?.close();
+    server?.stop();
+    await sleep(25);
+  });
+
+  async function setup(covUnsupportedPoints: string[]) {
+    const harness = await createBacnetHarness({ covUnsupportedPoints });
+    client = harness.client;
+    server = harness.server;
+    serverPort = harness.serverPort;
+    registry = new UnitRegistry({
+      getBacnetClient: sinon.stub().returns(client),
+      discoverFlexitUnits: sinon.stub().resolves([]),
+    });
+  }
+
+  it('leaves objects without COV support to the fallback poll', async () => {
+    await setup(['fan_rpm_extract']);
+    const mockDevice = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4383);
+    registry.register('test_unit', mockDevice as any);
+
+    await waitFor(() => registry.units.get('test_unit')?.covSubscribedKeys.size > 0);
+    const unit = registry.units.get('test_unit');
+    expect(unit.covSubscribedKeys.has('0:12')).to.equal(false);
+    expect(unit.covSubscribedKeys.has('0:5')).to.equal(true);
+    await waitFor(() => mockDevice.setCapabilityValue.calledWith('measure_motor_rpm.extract'));
+  });
+
+  it('keeps the fast poll when the unit rejects every subscription', async () => {
+    await setup(SUPPORTED_POINTS.map((point) => point.name));
+    const mockDevice = makeMockDevice(SERVER_BIND_ADDRESS, serverPort, 4383);
+    const subscribeSpy = sinon.spy(client, 'subscribeCOV');
+    registry.register('test_unit', mockDevice as any);
+
+    await waitFor(() => subscribeSpy.callCount > 0);
+    await sleep(200);
+    const unit = registry.units.get('test_unit');
+    expect(unit.covSubscribedKeys.size).to.equal(0);
+    expect(unit.covRenewInterval).to.equal(null);
+    expect((unit.pollInterval as any)._idleTimeout).to.equal(10_000);
+    expect(server.getCovSubscriptionCount()).to.equal(0);
+    subscribeSpy.restore();
+  });
 });
@@ -0,0 +1,99 @@
+/* eslint-disable import/extensions */
+import { describe, expect, it } from 'vitest';
+import {
+  WriteJournalEntry,
+  appendWriteJournalEntry,
+  exportWriteJournal,
+  hasRecentOwnWrite,
+  parseStoredWriteJournal,
+  resolveWriteJournalOrigin,
+  verifyWriteJournalEntries,
+} from '../lib/writeJournal.ts';
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+function makeEntry(overrides: Partial<WriteJournalEntry> = {}): WriteJournalEntry {
+  return {
+    at: new Date(NOW).toISOString(),
+    source: 'capability',
+    capability: 'target_temperature',
+    object: '2:1994',
+    value: 21,
+    transport: 'bacnet',
+    outcome: 'ok',
+    verification: 'pending',
+    ...overrides,
+  };
+}
+
+describe('writeJournal', () => {
+  it('resolves the write origin from the log context', () => {
+    expect(resolveWriteJournalOrigin({ writeSource: 'flow', flowCardId: 'write_point', unitId: 'x' }))
+      .toEqual({ source: 'flow', flowCardId: 'write_point' });
+    expect(resolveWriteJournalOrigin({ writeSource: 'capability', capability: 'fan_mode' }))
+      .toEqual({ source: 'capability', capability: 'fan_mode' });
+    expect(resolveWriteJournalOrigin({})).toEqual({ source: 'sync' });
+    expect(resolveWriteJournalOrigin({ writeSource: 'external' })).toEqual({ source: 'sync' });
+  });
+
+  it('keeps the most recent entries up to the journal limit', () => {
+    let journal: WriteJournalEntry[] = [];
+    for (let index = 0; index < 210; index++) {
+      journal = appendWriteJournalEntry(journal, makeEntry({ value: index }));
+    }
+
+    expect(journal.length).toBe(200);
+    expect(journal[0].value).toBe(10);
+  });
+
+  it('verifies pending entries for the polled object only', () => {
+    const journal = [
+      makeEntry({ value: 21 }),
+      makeEntry({ object: '2:1985', value: 18 }),
+      makeEntry({ value: 20, verification: 'confirmed' }),
+    ];
+
+    const read = (value: number) => ({ value, readStartedAt: NOW + 1000 });
+    const mismatched = verifyWriteJournalEntries(journal, '2:1994', read(19), (expected) => expected === 19);
+    expect(mismatched?.map((entry) => entry.verification)).toEqual(['mismatch', 'pending', 'confirmed']);
+    expect(mismatched?.[0].observedValue).toBe(19);
+    expect(verifyWriteJournalEntries(journal, '2:1985', read(18), (expected) => expected === 18)?.[1].verification)
+      .toBe('confirmed');
+    expect(verifyWriteJournalEntries(journal, '5:50', read(1), () => true)).toBeUndefined();
+  });
+
+  it('leaves entries written after the poll started pending', () => {
+    const journal = [makeEntry({ value: 21 }), makeEntry({ at: new Date(NOW - 5000).toISOString(), value: 20 })];
+
+    const verified = verifyWriteJournalEntries(
+      journal,
+      '2:1994',
+      { value: 20, readStartedAt: NOW },
+      (expected) => expected === 20,
+    );
+    expect(verified?.map((entry) => entry.verification)).toEqual(['pending', 'confirmed']);
+    expect(verifyWriteJournalEntries([journal[0]], '2:1994', { value: 20, readStartedAt: NOW }, () => true))
+      .toBeUndefined();
+  });
+
+  it('treats only recent own writes as the cause of a change', () => {
+    const journal = [makeEntry(), makeEntry({ object: '5:50', source: 'external', outcome: 'observed' })];
+
+    expect(hasRecentOwnWrite(journal, '2:1994', NOW + 60_000)).toBe(true);
+    expect(hasRecentOwnWrite(journal, '2:1994', NOW + 3 * 60_000)).toBe(false);
+    expect(hasRecentOwnWrite(journal, '5:50', NOW)).toBe(false);
+  });
+
+  it('exports and restores stored journals', () => {
+    const entry = makeEntry();
+
+    expect(exportWriteJournal('800199000001', [entry], NOW)).toEqual({
+      unitId: '800199000001',
+      exportedAt: '2026-10-19T12:00:00.000Z',
+      entries: [entry],
+    });
+    expect(parseStoredWriteJournal(undefined)).toEqual([]);
+    expect(parseStoredWriteJournal([entry, null, { at: 1, object: '2:1994', source: 'sync' }, { at: 'x' }]))
+      .toEqual([entry]);
+  });
+});
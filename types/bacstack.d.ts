@@ -2,3 +2,18 @@ declare module 'bacstack' {
   const Bacstack: any;
   export default Bacstack;
 }
+
+declare module 'bacstack/lib/apdu' {
+  const BacstackApdu: any;
+  export default BacstackApdu;
+}
+
+declare module 'bacstack/lib/bvlc' {
+  const BacstackBvlc: any;
+  export default BacstackBvlc;
+}
+
+declare module 'bacstack/lib/npdu' {
+  const BacstackNpdu: any;
+  export default BacstackNpdu;
+}
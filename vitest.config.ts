@@ -17,6 +17,7 @@ export default defineConfig({
         'lib/**/*.ts',
         'drivers/**/*.ts',
         'app.ts',
+        'api.ts',
         'scripts/fake-unit/**/*.ts',
         'scripts/fake-unit.ts',
         'scripts/fake-unit-cli.ts',